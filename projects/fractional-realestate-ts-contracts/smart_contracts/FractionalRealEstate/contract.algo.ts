@@ -1,6 +1,7 @@
 import {
   Contract,
   abimethod,
+  baremethod,
   arc4,
   BoxMap,
   Global,
@@ -10,9 +11,13 @@ import {
   assert,
   assertMatch,
   type uint64,
+  type bytes,
   gtxn,
   Bytes,
   clone,
+  GlobalState,
+  type Account,
+  emit,
 } from '@algorandfoundation/algorand-typescript'
 
 class PropertyStruct extends arc4.Struct<{
@@ -22,40 +27,458 @@ class PropertyStruct extends arc4.Struct<{
   pricePerShare: arc4.Uint64
   propertyAssetId: arc4.Uint64
   ownerAddress: arc4.Address
+  incomePerShare: arc4.Uint64
+  undistributedIncome: arc4.Uint64
+  incomeShares: arc4.Uint64
+  primarySaleOpen: arc4.Bool
+  fundingGoal: arc4.Uint64
+  fundingDeadline: arc4.Uint64
+  sharesSold: arc4.Uint64
+  escrowedFunds: arc4.Uint64
+  paymentAssetId: arc4.Uint64
+  unitName: arc4.Str
+  metadataUrl: arc4.Str
+  metadataHash: arc4.StaticBytes<32>
+  maxSharesPerAccount: arc4.Uint64
+  minPurchase: arc4.Uint64
+  lockupRounds: arc4.Uint64
+  saleStart: arc4.Uint64
+  saleEnd: arc4.Uint64
+  auctionFloor: arc4.Uint64
+  reservedShares: arc4.Uint64
+  reservationRounds: arc4.Uint64
+  reservationDepositBps: arc4.Uint64
+  forfeitDeposit: arc4.Bool
+  referralBps: arc4.Uint64
+}> {}
+
+/**
+ * When the primary sale runs. With a floor price the listing is a Dutch auction: the price per
+ * share falls linearly from the listing price at start to floorPrice at end.
+ */
+class SaleWindowStruct extends arc4.Struct<{
+  start: arc4.Uint64
+  end: arc4.Uint64
+  floorPrice: arc4.Uint64
+}> {}
+
+/**
+ * A presale price. It applies while fewer than shareLimit shares have sold (0 for no limit)
+ * and before endTime (0 for no deadline); the first tier that applies sets the price.
+ */
+class PriceTierStruct extends arc4.Struct<{
+  shareLimit: arc4.Uint64
+  endTime: arc4.Uint64
+  pricePerShare: arc4.Uint64
+}> {}
+
+const MAX_PRICE_TIERS: uint64 = 4
+
+/**
+ * How a listing takes reservations: buyers can hold shares for `rounds` rounds on a deposit of
+ * depositBps of the price, and the deposit goes to the owner (forfeitDeposit) or back to the buyer
+ * if the reservation expires unpaid. 0 rounds for no reservations.
+ */
+class ReservationPolicyStruct extends arc4.Struct<{
+  rounds: arc4.Uint64
+  depositBps: arc4.Uint64
+  forfeitDeposit: arc4.Bool
+}> {}
+
+// ARC-28 events, so indexers can follow listings from transaction logs instead of diffing boxes.
+// Each carries the shares and amount involved and the availableShares left afterwards.
+
+class PropertyListed extends arc4.Struct<{
+  propertyId: arc4.Uint64
+  owner: arc4.Address
+  shares: arc4.Uint64
+  pricePerShare: arc4.Uint64
+  availableShares: arc4.Uint64
+}> {}
+
+class SharesPurchased extends arc4.Struct<{
+  propertyId: arc4.Uint64
+  buyer: arc4.Address
+  shares: arc4.Uint64
+  amount: arc4.Uint64
+  availableShares: arc4.Uint64
+}> {}
+
+class PropertyDelisted extends arc4.Struct<{
+  propertyId: arc4.Uint64
+  owner: arc4.Address
+  shares: arc4.Uint64
+  availableShares: arc4.Uint64
+}> {}
+
+class SellOrderStruct extends arc4.Struct<{
+  propertyId: arc4.Uint64
+  seller: arc4.Address
+  shares: arc4.Uint64
+  pricePerShare: arc4.Uint64
+}> {}
+
+// MBR = 2500 + 400 * (boxNameLen + boxValueLen) microAlgos
+// Box name: 'orders' prefix (6) + uint64 key (8) = 14 bytes
+// Box value: Uint64 (8) + Address (32) + Uint64 x2 (16) = 56 bytes (all static, no tail)
+const SELL_ORDER_MBR: uint64 = 2500 + 400 * (14 + 56)
+
+class HolderKey extends arc4.Struct<{
+  propertyId: arc4.Uint64
+  holder: arc4.Address
+}> {}
+
+/** A registered holder's income: what they're owed, and the shares they're earning on since the checkpoint. */
+class IncomeClaimStruct extends arc4.Struct<{
+  checkpoint: arc4.Uint64
+  owed: arc4.Uint64
+  shares: arc4.Uint64
+}> {}
+
+// Box name: 'claims' prefix (6) + HolderKey (8 + 32) = 46 bytes
+// Box value: Uint64 x3 = 24 bytes
+const INCOME_CLAIM_MBR: uint64 = 2500 + 400 * (46 + 24)
+
+class LockupStruct extends arc4.Struct<{
+  lockedShares: arc4.Uint64
+  unlockRound: arc4.Uint64
+}> {}
+
+// Box name: 'locks' prefix (5) + HolderKey (8 + 32) = 45 bytes
+// Box value: Uint64 x2 = 16 bytes
+const LOCKUP_MBR: uint64 = 2500 + 400 * (45 + 16)
+
+class ProposalStruct extends arc4.Struct<{
+  propertyId: arc4.Uint64
+  proposer: arc4.Address
+  description: arc4.Str
+  deadlineRound: arc4.Uint64
+  quorumShares: arc4.Uint64
+  votesFor: arc4.Uint64
+  votesAgainst: arc4.Uint64
+  lockedShares: arc4.Uint64
+  status: arc4.Uint8
+}> {}
+
+class VoteKey extends arc4.Struct<{
+  proposalId: arc4.Uint64
+  voter: arc4.Address
+}> {}
+
+class VoteStruct extends arc4.Struct<{
+  shares: arc4.Uint64
+  support: arc4.Bool
+}> {}
+
+const PROPOSAL_OPEN: uint64 = 0
+const PROPOSAL_PASSED: uint64 = 1
+const PROPOSAL_REJECTED: uint64 = 2
+
+// A proposal needs votes from 20% of all shares, and more than 50% of the votes cast in favour
+const QUORUM_BPS: uint64 = 2000
+const APPROVAL_BPS: uint64 = 5000
+
+// Box name: 'votes' prefix (5) + VoteKey (8 + 32) = 45 bytes
+// Box value: Uint64 (8) + Bool (1) = 9 bytes
+const VOTE_MBR: uint64 = 2500 + 400 * (45 + 9)
+
+/**
+ * An offer to buy out every share of a property for a total ALGO amount, escrowed in the app.
+ * Holders vote with their shares, and once it's accepted each share redeems for amount / totalShares.
+ * Offers are keyed by their own ID, so a property can get a new offer once the last one is rejected.
+ */
+class BuyoutStruct extends arc4.Struct<{
+  propertyId: arc4.Uint64
+  bidder: arc4.Address
+  amount: arc4.Uint64
+  deadlineRound: arc4.Uint64
+  votesFor: arc4.Uint64
+  votesAgainst: arc4.Uint64
+  lockedShares: arc4.Uint64
+  redeemedShares: arc4.Uint64
+  status: arc4.Uint8
+}> {}
+
+const BUYOUT_OPEN: uint64 = 0
+const BUYOUT_ACCEPTED: uint64 = 1
+const BUYOUT_REJECTED: uint64 = 2
+
+// A buyout goes through once more than half of all shares have voted for it
+const BUYOUT_APPROVAL_BPS: uint64 = 5000
+
+class BuyoutVoteKey extends arc4.Struct<{
+  buyoutId: arc4.Uint64
+  voter: arc4.Address
+}> {}
+
+// Box name: 'buyouts' prefix (7) + uint64 key (8) = 15 bytes
+// Box value: Uint64 (8) + Address (32) + Uint64 x6 (48) + Uint8 (1) = 89 bytes
+const BUYOUT_MBR: uint64 = 2500 + 400 * (15 + 89)
+
+// Box name: 'activeBuyouts' prefix (13) + uint64 key (8) = 21 bytes
+// Box value: uint64 buyout ID (8 bytes)
+const ACTIVE_BUYOUT_MBR: uint64 = 2500 + 400 * (21 + 8)
+
+// Box name: 'buyoutVotes' prefix (11) + BuyoutVoteKey (8 + 32) = 51 bytes
+// Box value: Uint64 (8) + Bool (1) = 9 bytes
+const BUYOUT_VOTE_MBR: uint64 = 2500 + 400 * (51 + 9)
+
+/** Primary shares held back for a buyer, at the price when they were reserved. */
+class ReservationStruct extends arc4.Struct<{
+  shares: arc4.Uint64
+  cost: arc4.Uint64
+  deposit: arc4.Uint64
+  expiresRound: arc4.Uint64
+}> {}
+
+// Box name: 'reservations' prefix (12) + HolderKey (8 + 32) = 52 bytes
+// Box value: Uint64 x4 = 32 bytes
+const RESERVATION_MBR: uint64 = 2500 + 400 * (52 + 32)
+
+/** A referral partner's earnings are kept per currency: ALGO, or an ASA listings are priced in. */
+class ReferralKey extends arc4.Struct<{
+  referrer: arc4.Address
+  paymentAssetId: arc4.Uint64
+}> {}
+
+// Box name: 'referrals' prefix (9) + ReferralKey (32 + 8) = 49 bytes
+// Box value: uint64 = 8 bytes
+const REFERRAL_MBR: uint64 = 2500 + 400 * (49 + 8)
+
+/**
+ * An appraiser's valuation of a whole property, in base units of the listing's payment currency,
+ * as of timestamp (unix seconds). documentHash is the SHA-256 of the appraisal report.
+ */
+class ValuationStruct extends arc4.Struct<{
+  totalValue: arc4.Uint64
+  timestamp: arc4.Uint64
+  documentHash: arc4.StaticBytes<32>
+}> {}
+
+// Only the most recent valuations are kept, so the history box has a fixed maximum size
+const MAX_VALUATIONS: uint64 = 12
+
+// Box name: 'appraisers' prefix (10) + uint64 key (8) = 18 bytes
+// Box value: Account = 32 bytes
+const APPRAISER_MBR: uint64 = 2500 + 400 * (18 + 32)
+
+// Box name: 'valuations' prefix (10) + uint64 key (8) = 18 bytes
+// Box value: DynamicArray<ValuationStruct> = 2-byte length prefix + 48 bytes per valuation
+// Paid for at its full size up front, so posting a valuation never needs an MBR payment
+const VALUATION_HISTORY_MBR: uint64 = 2500 + 400 * (18 + 2 + 48 * MAX_VALUATIONS)
+
+class PlatformFeeStruct extends arc4.Struct<{
+  feeBps: arc4.Uint64
+  treasury: arc4.Address
+}> {}
+
+const MAX_FEE_BPS: uint64 = 10_000
+
+// Every ASA an account holds raises its minimum balance by 0.1 Algo
+const ASSET_OPT_IN_MBR: uint64 = 100_000
+
+// Box name: 'kyc' prefix (3) + Account (32) = 35 bytes
+// Box value: Uint64 approval round = 8 bytes
+const ALLOWLIST_MBR: uint64 = 2500 + 400 * (35 + 8)
+
+// Box name: 'pendingOwners' prefix (13) + uint64 key (8) = 21 bytes
+// Box value: Account = 32 bytes
+const PENDING_OWNER_MBR: uint64 = 2500 + 400 * (21 + 32)
+
+// Box name: 'owned' prefix (5) + Account (32) = 37 bytes
+// Box value: DynamicArray<Uint64> = 2-byte length prefix + 8 bytes per property ID
+// The first listing creates the box, and each one after grows it by 8 bytes
+const OWNER_INDEX_MBR: uint64 = 2500 + 400 * (37 + 2 + 8)
+const OWNER_INDEX_ENTRY_MBR: uint64 = 400 * 8
+
+// Property IDs are kept in pages of 32 in the order they were listed, so clients can page through
+// listings without loading every box. Delisted IDs stay where they are.
+// Box name: 'pages' prefix (5) + uint64 page number (8) = 13 bytes
+// Box value: DynamicArray<Uint64> = 2-byte length prefix + 8 bytes per property ID
+const LISTING_PAGE_SIZE: uint64 = 32
+const LISTING_PAGE_MBR: uint64 = 2500 + 400 * (13 + 2 + 8)
+const LISTING_PAGE_ENTRY_MBR: uint64 = 400 * 8
+
+/** Marketplace totals. Volume only counts primary sales priced in ALGO, in microAlgos. */
+class MarketStatsStruct extends arc4.Struct<{
+  listingCount: arc4.Uint64
+  totalSharesSold: arc4.Uint64
+  totalVolume: arc4.Uint64
 }> {}
 
 export default class FractionalRealEstate extends Contract {
   public listedProperties = BoxMap<uint64, PropertyStruct>({ keyPrefix: 'properties' })
+  public sellOrders = BoxMap<uint64, SellOrderStruct>({ keyPrefix: 'orders' })
+  public nextOrderId = GlobalState<uint64>({ initialValue: 1 })
+  public incomeClaims = BoxMap<HolderKey, IncomeClaimStruct>({ keyPrefix: 'claims' })
+  public proposals = BoxMap<uint64, ProposalStruct>({ keyPrefix: 'proposals' })
+  public nextProposalId = GlobalState<uint64>({ initialValue: 1 })
+  public votes = BoxMap<VoteKey, VoteStruct>({ keyPrefix: 'votes' })
+  public feeBps = GlobalState<uint64>({ initialValue: 0 })
+  public treasury = GlobalState<Account>()
+  public admin = GlobalState<Account>()
+  public pendingAdmin = GlobalState<Account>()
+  public paused = GlobalState<boolean>({ initialValue: false })
+  public compliance = GlobalState<Account>()
+  public allowlist = BoxMap<Account, uint64>({ keyPrefix: 'kyc' })
+  public lockups = BoxMap<HolderKey, LockupStruct>({ keyPrefix: 'locks' })
+  public priceTiers = BoxMap<uint64, arc4.DynamicArray<PriceTierStruct>>({ keyPrefix: 'tiers' })
+  public pendingOwners = BoxMap<uint64, Account>({ keyPrefix: 'pendingOwners' })
+  public ownerListings = BoxMap<Account, arc4.DynamicArray<arc4.Uint64>>({ keyPrefix: 'owned' })
+  public listingCount = GlobalState<uint64>({ initialValue: 0 })
+  public totalSharesSold = GlobalState<uint64>({ initialValue: 0 })
+  public totalVolume = GlobalState<uint64>({ initialValue: 0 })
+  public listingPages = BoxMap<uint64, arc4.DynamicArray<arc4.Uint64>>({ keyPrefix: 'pages' })
+  public nextListingIndex = GlobalState<uint64>({ initialValue: 0 })
+  public buyouts = BoxMap<uint64, BuyoutStruct>({ keyPrefix: 'buyouts' })
+  public nextBuyoutId = GlobalState<uint64>({ initialValue: 1 })
+  public activeBuyouts = BoxMap<uint64, uint64>({ keyPrefix: 'activeBuyouts' })
+  public buyoutVotes = BoxMap<BuyoutVoteKey, VoteStruct>({ keyPrefix: 'buyoutVotes' })
+  public reservations = BoxMap<HolderKey, ReservationStruct>({ keyPrefix: 'reservations' })
+  public referralEarnings = BoxMap<ReferralKey, uint64>({ keyPrefix: 'referrals' })
+  public appraisers = BoxMap<uint64, Account>({ keyPrefix: 'appraisers' })
+  public valuations = BoxMap<uint64, arc4.DynamicArray<ValuationStruct>>({ keyPrefix: 'valuations' })
+
+  /** The account that creates the app starts out as its admin and compliance officer. */
+  @baremethod({ onCreate: 'require' })
+  public createApplication(): void {
+    this.admin.value = Txn.sender
+    this.compliance.value = Txn.sender
+  }
 
   /**
    * List a new property for fractional ownership. Creates an ASA representing shares
    * and stores property details in a BoxMap.
    *
-   * @param mbrPayment Covers the Minimum Balance Requirement for box storage
+   * With a funding goal the raise is all-or-nothing: purchases are escrowed in the app, the
+   * lister can only withdraw them once the goal has sold, and if the deadline passes first
+   * buyers can hand their shares back for a refund.
+   *
+   * A listing can be priced in an ASA such as a stablecoin instead of ALGO. The app opts in to
+   * that asset the first time it is used, and the lister's MBR payment covers the opt-in.
+   *
+   * The share ASA points at off-chain metadata (deeds, appraisal, photos) following ARC-3, or
+   * ARC-19 when the URL is a template-ipfs:// URL and the reserve address encodes the CID.
+   *
+   * @param mbrPayment Covers the Minimum Balance Requirement for box storage (and the payment asset opt-in).
+   *   Anything paid over that is refunded straight away, so the caller should cover one more inner transaction fee.
+   * @param propertyAddress Physical address or unique name of the property, up to 128 bytes
+   * @param fundingGoal Shares that must sell for the raise to succeed, or 0 for no goal
+   * @param fundingDeadline Last round in which the goal can be reached (ignored without a goal)
+   * @param paymentAssetId ASA the shares are priced in, or 0 for ALGO
+   * @param unitName Unit name of the share ASA (1-8 bytes)
+   * @param metadataUrl ARC-3 or ARC-19 metadata URL, or empty for none
+   * @param metadataHash SHA-256 of the ARC-3 metadata JSON, or all zeroes for none
+   * @param metadataReserve Reserve address encoding an ARC-19 CID, or the zero address to keep the app as reserve
+   * @param maxSharesPerAccount Most shares one account can hold after a primary purchase, or 0 for no cap
+   * @param minPurchase Fewest shares a primary purchase can be for, or 0 for no minimum
+   * @param lockupRounds Rounds primary purchases stay locked up for, or 0 for none. A buyer has one
+   *   lockup per listing, so buying more while it runs restarts it for all of their locked shares
+   * @param saleWindow Timestamps the primary sale opens and closes at, each 0 for no limit, and the
+   *   Dutch auction floor price, or 0 for a fixed price. An auction needs an end time and starts at listing without a start time.
+   * @param priceTiers Presale prices that apply before the listing price, in order (up to 4, none with a funding goal)
+   * @param reservationPolicy How long buyers can reserve shares for, the deposit they pay and whether an expired
+   *   reservation forfeits it to the owner (no reservations with a funding goal)
+   * @param referralBps Commission paid to the partner who referred a buyer, in basis points of the owner's
+   *   proceeds from the purchase, or 0 for none (no commissions with a funding goal)
    */
   public createPropertyListing(
     mbrPayment: gtxn.PaymentTxn,
     propertyAddress: string,
     shares: uint64,
     pricePerShare: uint64,
+    fundingGoal: uint64,
+    fundingDeadline: uint64,
+    paymentAssetId: uint64,
+    unitName: string,
+    metadataUrl: string,
+    metadataHash: bytes<32>,
+    metadataReserve: Account,
+    maxSharesPerAccount: uint64,
+    minPurchase: uint64,
+    lockupRounds: uint64,
+    saleWindow: SaleWindowStruct,
+    priceTiers: arc4.DynamicArray<PriceTierStruct>,
+    reservationPolicy: ReservationPolicyStruct,
+    referralBps: uint64,
   ): uint64 {
+    this.assertNotPaused()
     assert(shares > 0, 'Shares must be greater than 0')
     assert(pricePerShare > 0, 'Price per share must be greater than 0')
+    assert(fundingGoal <= shares, 'Funding goal cannot exceed total shares')
+    assert(fundingGoal === 0 || fundingDeadline > Global.round, 'Funding deadline must be in the future')
+    // AVM limits for asset parameters
+    assert(Bytes(unitName).length > 0 && Bytes(unitName).length <= 8, 'Unit name must be 1-8 bytes')
+    assert(Bytes(metadataUrl).length <= 96, 'Metadata URL cannot exceed 96 bytes')
+    // Keeps two of the largest listings within a getProperties return
+    assert(Bytes(propertyAddress).length <= 128, 'Property address cannot exceed 128 bytes')
+    assert(minPurchase <= shares, 'Minimum purchase cannot exceed total shares')
+    assert(maxSharesPerAccount === 0 || maxSharesPerAccount >= minPurchase, 'Share cap is below the minimum purchase')
+    const saleEnd = saleWindow.end.asUint64()
+    const auctionFloor = saleWindow.floorPrice.asUint64()
+    // An auction's price starts falling from the moment it is listed unless a start time is set
+    const saleStart: uint64 =
+      auctionFloor > 0 && saleWindow.start.asUint64() === 0 ? Global.latestTimestamp : saleWindow.start.asUint64()
+    assert(saleEnd === 0 || (saleEnd > saleStart && saleEnd > Global.latestTimestamp), 'Sale must end after it starts')
+    this.assertValidTiers(priceTiers, fundingGoal)
+    if (auctionFloor > 0) {
+      assert(auctionFloor < pricePerShare, 'Floor price must be below the start price')
+      assert(saleEnd > 0, 'An auction needs an end time')
+      // Refunds are paid at the listing price, and tiers would compete with the falling price
+      assert(fundingGoal === 0 && priceTiers.length === 0, 'Auctions cannot have a funding goal or price tiers')
+    }
+    const reservationRounds = reservationPolicy.rounds.asUint64()
+    assert(reservationPolicy.depositBps.asUint64() <= 10_000, 'Deposit cannot exceed 100%')
+    // Reserved shares are paid for later, which an all-or-nothing raise can't wait on
+    assert(reservationRounds === 0 || fundingGoal === 0, 'Reservations cannot be combined with a funding goal')
+    assert(referralBps <= 10_000, 'Referral commission cannot exceed 100%')
+    // Escrowed proceeds may still be refunded, so there is nothing to pay a commission out of
+    assert(referralBps === 0 || fundingGoal === 0, 'Referral commissions cannot be combined with a funding goal')
 
     // MBR = 2500 + 400 * (boxNameLen + boxValueLen) microAlgos
     // Box name: 'properties' prefix (10) + uint64 key (8) = 18 bytes
     // Box value is ARC4-encoded (see https://arc.algorand.foundation/ARCs/arc-0004#encoding):
     //   Structs encode as tuples. Static fields go inline in the head; dynamic fields
     //   (like Str) get a 2-byte offset in the head, with data appended in the tail.
-    //   Head: Str offset (2) + Uint64 x4 (32) + Address (32) = 66 bytes
-    //   Tail: Str length prefix (2) + string bytes
-    //   Total: 68 + propertyAddress length
-    const boxMbrCost: uint64 = 2500 + 400 * (18 + 68 + Bytes(propertyAddress).length)
-    assert(mbrPayment.amount >= boxMbrCost, 'MBR payment amount is insufficient')
+    //   Head: Str offsets x3 (6) + Uint64 x22 (176) + Address (32) + Bool x2 (2) + StaticBytes<32> (32) = 248 bytes
+    //   Tail: Str length prefixes x3 (6) + string bytes
+    //   Total: 254 + propertyAddress, unitName and metadataUrl lengths
+    const stringBytes: uint64 = Bytes(propertyAddress).length + Bytes(unitName).length + Bytes(metadataUrl).length
+    // Tiers get a box of their own: 'tiers' prefix (5) + uint64 key (8) = 13 bytes name,
+    // and a 2-byte length prefix + 24 bytes per tier as the value
+    const tierCount: uint64 = priceTiers.length
+    const tiersMbrCost: uint64 = tierCount > 0 ? 2500 + 400 * (13 + 2 + 24 * tierCount) : 0
+    const boxMbrCost: uint64 =
+      2500 + 400 * (18 + 254 + stringBytes) + tiersMbrCost + this.ownerIndexMbr(Txn.sender) + this.listingPageMbr()
+    // The app holds the share ASA it creates, plus the payment asset the first time it is used
+    const optIn = paymentAssetId !== 0 && !Global.currentApplicationAddress.isOptedIn(Asset(paymentAssetId))
+    const assetMbrCost: uint64 = optIn ? 2 * ASSET_OPT_IN_MBR : ASSET_OPT_IN_MBR
+    const mbrCost: uint64 = boxMbrCost + assetMbrCost
+    assert(mbrPayment.amount >= mbrCost, 'MBR payment amount is insufficient')
     assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must be to the app')
     assert(mbrPayment.sender === Txn.sender, 'MBR payment must be from the caller')
+    this.refundExcess(mbrPayment, mbrCost)
 
-    const assetId = this.createPropertyAsset(propertyAddress, shares)
+    if (optIn) {
+      // Opt the app in so it can receive purchase payments in this asset
+      itxn
+        .assetTransfer({
+          xferAsset: Asset(paymentAssetId),
+          assetReceiver: Global.currentApplicationAddress,
+          assetAmount: 0,
+          fee: 0,
+        })
+        .submit()
+    }
+
+    const assetId = this.createPropertyAsset(
+      propertyAddress,
+      shares,
+      unitName,
+      metadataUrl,
+      metadataHash,
+      metadataReserve === Global.zeroAddress ? Global.currentApplicationAddress : metadataReserve,
+    )
 
     const propertyStruct = new PropertyStruct({
       address: new arc4.Str(propertyAddress),
@@ -64,23 +487,79 @@ export default class FractionalRealEstate extends Contract {
       pricePerShare: new arc4.Uint64(pricePerShare),
       propertyAssetId: new arc4.Uint64(assetId),
       ownerAddress: new arc4.Address(Txn.sender),
+      incomePerShare: new arc4.Uint64(0),
+      undistributedIncome: new arc4.Uint64(0),
+      incomeShares: new arc4.Uint64(0),
+      primarySaleOpen: new arc4.Bool(true),
+      fundingGoal: new arc4.Uint64(fundingGoal),
+      fundingDeadline: new arc4.Uint64(fundingGoal > 0 ? fundingDeadline : 0),
+      sharesSold: new arc4.Uint64(0),
+      escrowedFunds: new arc4.Uint64(0),
+      paymentAssetId: new arc4.Uint64(paymentAssetId),
+      unitName: new arc4.Str(unitName),
+      metadataUrl: new arc4.Str(metadataUrl),
+      metadataHash: new arc4.StaticBytes<32>(metadataHash),
+      maxSharesPerAccount: new arc4.Uint64(maxSharesPerAccount),
+      minPurchase: new arc4.Uint64(minPurchase),
+      lockupRounds: new arc4.Uint64(lockupRounds),
+      saleStart: new arc4.Uint64(saleStart),
+      saleEnd: new arc4.Uint64(saleEnd),
+      auctionFloor: new arc4.Uint64(auctionFloor),
+      reservedShares: new arc4.Uint64(0),
+      reservationRounds: new arc4.Uint64(reservationRounds),
+      reservationDepositBps: reservationPolicy.depositBps,
+      forfeitDeposit: reservationPolicy.forfeitDeposit,
+      referralBps: new arc4.Uint64(referralBps),
     })
 
     this.listedProperties(assetId).value = clone(propertyStruct)
+    if (tierCount > 0) {
+      this.priceTiers(assetId).value = clone(priceTiers)
+    }
+    this.addOwnerListing(Txn.sender, assetId)
+    this.appendListingId(assetId)
+    this.listingCount.value += 1
+
+    emit(
+      new PropertyListed({
+        propertyId: new arc4.Uint64(assetId),
+        owner: new arc4.Address(Txn.sender),
+        shares: new arc4.Uint64(shares),
+        pricePerShare: new arc4.Uint64(pricePerShare),
+        availableShares: new arc4.Uint64(shares),
+      }),
+    )
 
     return assetId
   }
 
-  /** Creates an ASA for the property. Asset name is truncated to 32 bytes (AVM limit). */
-  private createPropertyAsset(propertyAddress: string, shares: uint64): uint64 {
+  /**
+   * Creates an ASA for the property. Asset name is truncated to 32 bytes (AVM limit).
+   * Holdings are frozen for good and the app is the freeze and clawback authority, so shares
+   * only move through the app. That lets it keep them with accounts on the KYC allowlist,
+   * hold back locked up shares and settle rental income on both sides of every move.
+   */
+  private createPropertyAsset(
+    propertyAddress: string,
+    shares: uint64,
+    unitName: string,
+    metadataUrl: string,
+    metadataHash: bytes<32>,
+    reserve: Account,
+  ): uint64 {
     const txnResult = itxn
       .assetConfig({
         assetName: Bytes(propertyAddress).slice(0, 32).toString(),
-        unitName: 'PROP',
+        unitName: unitName,
+        url: metadataUrl,
+        metadataHash: metadataHash,
         total: shares,
         decimals: 0,
         manager: Global.currentApplicationAddress,
-        reserve: Global.currentApplicationAddress,
+        reserve: reserve,
+        freeze: Global.currentApplicationAddress,
+        clawback: Global.currentApplicationAddress,
+        defaultFrozen: true,
         fee: 0,
       })
       .submit()
@@ -88,74 +567,2282 @@ export default class FractionalRealEstate extends Contract {
     return txnResult.createdAsset.id
   }
 
-  /** Purchase shares from the original lister. Buyer must opt in to the ASA beforehand. */
-  public purchaseFromLister(propertyId: uint64, shares: uint64, payment: gtxn.PaymentTxn): boolean {
+  /**
+   * Purchase shares from the original lister of an ALGO-priced listing. Buyer must opt in to the ASA beforehand.
+   * While a funding raise is open the payment is escrowed in the app instead of going to the owner.
+   *
+   * @param referrer Registered partner who referred the buyer and is paid the listing's referral commission,
+   *   or the zero address for none
+   */
+  public purchaseFromLister(propertyId: uint64, shares: uint64, payment: gtxn.PaymentTxn, referrer: Account): boolean {
+    this.assertNotPaused()
     assert(shares > 0, 'Must purchase at least one share')
     assert(this.listedProperties(propertyId).exists, 'Property not listed')
 
     const property = clone(this.listedProperties(propertyId).value)
+    assert(property.paymentAssetId.asUint64() === 0, 'Property is priced in an ASA')
 
     assertMatch(payment, {
-      amount: shares * property.pricePerShare.asUint64(),
+      amount: this.purchaseCost(propertyId, property, shares),
       receiver: Global.currentApplicationAddress,
       sender: Txn.sender,
       closeRemainderTo: Global.zeroAddress,
       rekeyTo: Global.zeroAddress,
     }, 'Invalid payment transaction')
-    assert(shares <= property.availableShares.asUint64(), 'Not enough shares')
 
-    // Transfer shares and pay owner atomically
-    const asset = Asset(property.propertyAssetId.asUint64())
-    itxn.submitGroup(
-      itxn.assetTransfer({
-        xferAsset: asset,
-        assetReceiver: Txn.sender,
-        assetAmount: shares,
-        fee: 0,
-      }),
-      itxn.payment({
-        amount: payment.amount,
-        receiver: property.ownerAddress.bytes,
-        fee: 0,
-      }),
-    )
+    this.sellFromLister(propertyId, property, shares, payment.amount, referrer)
+    return true
+  }
 
-    this.updateAvailableShares(propertyId, property.availableShares.asUint64() - shares)
+  /**
+   * Purchase shares from the original lister of a listing priced in an ASA. The owner (and the
+   * treasury, when a platform fee is set) must be opted in to the payment asset.
+   *
+   * @param payment Transfers the purchase price in the listing's payment asset to the app
+   * @param referrer Registered partner who referred the buyer, or the zero address for none
+   */
+  public purchaseFromListerWithAsset(
+    propertyId: uint64,
+    shares: uint64,
+    payment: gtxn.AssetTransferTxn,
+    referrer: Account,
+  ): boolean {
+    this.assertNotPaused()
+    assert(shares > 0, 'Must purchase at least one share')
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(property.paymentAssetId.asUint64() !== 0, 'Property is priced in ALGO')
+
+    assertMatch(payment, {
+      xferAsset: Asset(property.paymentAssetId.asUint64()),
+      assetAmount: this.purchaseCost(propertyId, property, shares),
+      assetReceiver: Global.currentApplicationAddress,
+      sender: Txn.sender,
+      assetCloseTo: Global.zeroAddress,
+      rekeyTo: Global.zeroAddress,
+    }, 'Invalid payment transaction')
 
+    this.sellFromLister(propertyId, property, shares, payment.assetAmount, referrer)
     return true
   }
 
-  /** Delist a property. Only the owner can delist, and no shares can have been sold.
-   *  Deleting the box reclaims the MBR. */
-  public delistProperty(propertyId: uint64): void {
+  /**
+   * Buy primary shares of an ALGO-priced listing for at most a total price, so a reprice or a
+   * tier running out between signing and landing can't overcharge the buyer. They pay the
+   * maximum and get back whatever the shares cost less than that.
+   *
+   * @param shares Shares to buy
+   * @param maxTotal Most the buyer will pay for the shares; the purchase fails if they cost more
+   * @param allowPartialFill Buy whatever is left when fewer than `shares` are available, instead of failing
+   * @param payment Pays maxTotal to the app
+   * @param referrer Registered partner who referred the buyer, or the zero address for none
+   * @returns The number of shares bought
+   */
+  public purchaseUpTo(
+    propertyId: uint64,
+    shares: uint64,
+    maxTotal: uint64,
+    allowPartialFill: boolean,
+    payment: gtxn.PaymentTxn,
+    referrer: Account,
+  ): uint64 {
+    this.assertNotPaused()
+    assert(shares > 0, 'Must purchase at least one share')
     assert(this.listedProperties(propertyId).exists, 'Property not listed')
 
     const property = clone(this.listedProperties(propertyId).value)
+    assert(property.paymentAssetId.asUint64() === 0, 'Property is priced in an ASA')
 
-    assert(Txn.sender === property.ownerAddress.native, 'Only the owner can delist')
+    assertMatch(payment, {
+      amount: maxTotal,
+      receiver: Global.currentApplicationAddress,
+      sender: Txn.sender,
+      closeRemainderTo: Global.zeroAddress,
+      rekeyTo: Global.zeroAddress,
+    }, 'Invalid payment transaction')
+
+    return this.sellUpTo(propertyId, property, shares, maxTotal, allowPartialFill, referrer)
+  }
+
+  /**
+   * Buy primary shares of a listing priced in an ASA for at most a total price, refunding the difference.
+   *
+   * @param maxTotal Most the buyer will pay for the shares; the purchase fails if they cost more
+   * @param allowPartialFill Buy whatever is left when fewer than `shares` are available, instead of failing
+   * @param payment Transfers maxTotal in the listing's payment asset to the app
+   * @param referrer Registered partner who referred the buyer, or the zero address for none
+   * @returns The number of shares bought
+   */
+  public purchaseUpToWithAsset(
+    propertyId: uint64,
+    shares: uint64,
+    maxTotal: uint64,
+    allowPartialFill: boolean,
+    payment: gtxn.AssetTransferTxn,
+    referrer: Account,
+  ): uint64 {
+    this.assertNotPaused()
+    assert(shares > 0, 'Must purchase at least one share')
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(property.paymentAssetId.asUint64() !== 0, 'Property is priced in ALGO')
+
+    assertMatch(payment, {
+      xferAsset: Asset(property.paymentAssetId.asUint64()),
+      assetAmount: maxTotal,
+      assetReceiver: Global.currentApplicationAddress,
+      sender: Txn.sender,
+      assetCloseTo: Global.zeroAddress,
+      rekeyTo: Global.zeroAddress,
+    }, 'Invalid payment transaction')
+
+    return this.sellUpTo(propertyId, property, shares, maxTotal, allowPartialFill, referrer)
+  }
+
+  /** Sells up to `shares` for at most `maxTotal`, refunding what the buyer paid over the cost. */
+  private sellUpTo(
+    propertyId: uint64,
+    property: PropertyStruct,
+    shares: uint64,
+    maxTotal: uint64,
+    allowPartialFill: boolean,
+    referrer: Account,
+  ): uint64 {
+    const availableShares = property.availableShares.asUint64()
+    assert(availableShares > 0, 'No shares left')
+    assert(allowPartialFill || shares <= availableShares, 'Not enough shares')
+    const filled: uint64 = shares < availableShares ? shares : availableShares
+
+    const cost = this.purchaseCost(propertyId, property, filled)
+    assert(cost <= maxTotal, 'Price is above your maximum')
+
+    this.sellFromLister(propertyId, property, filled, cost, referrer)
+    if (cost < maxTotal) {
+      this.payOut(property, Txn.sender, maxTotal - cost)
+    }
+    return filled
+  }
+
+  /**
+   * Buy shares at an ALGO-priced Dutch auction. The price is set by the block the purchase lands in,
+   * so the buyer pays for the shares at their maximum price and gets the difference back.
+   *
+   * @param maxPricePerShare Most the buyer will pay per share; the purchase fails if the price is above it
+   * @param payment Pays shares x maxPricePerShare to the app
+   * @param referrer Registered partner who referred the buyer, or the zero address for none
+   * @returns The price per share the shares were bought at
+   */
+  public purchaseAtAuction(
+    propertyId: uint64,
+    shares: uint64,
+    maxPricePerShare: uint64,
+    payment: gtxn.PaymentTxn,
+    referrer: Account,
+  ): uint64 {
+    this.assertNotPaused()
+    assert(shares > 0, 'Must purchase at least one share')
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(property.paymentAssetId.asUint64() === 0, 'Property is priced in an ASA')
+    const price = this.auctionPrice(property, maxPricePerShare)
+
+    assertMatch(payment, {
+      amount: shares * maxPricePerShare,
+      receiver: Global.currentApplicationAddress,
+      sender: Txn.sender,
+      closeRemainderTo: Global.zeroAddress,
+      rekeyTo: Global.zeroAddress,
+    }, 'Invalid payment transaction')
+
+    this.sellFromLister(propertyId, property, shares, shares * price, referrer)
+    if (price < maxPricePerShare) {
+      this.payOut(property, Txn.sender, shares * (maxPricePerShare - price))
+    }
+    return price
+  }
+
+  /**
+   * Buy shares at a Dutch auction priced in an ASA, refunding the difference to the buyer's maximum price.
+   *
+   * @param maxPricePerShare Most the buyer will pay per share; the purchase fails if the price is above it
+   * @param payment Transfers shares x maxPricePerShare in the listing's payment asset to the app
+   * @param referrer Registered partner who referred the buyer, or the zero address for none
+   * @returns The price per share the shares were bought at
+   */
+  public purchaseAtAuctionWithAsset(
+    propertyId: uint64,
+    shares: uint64,
+    maxPricePerShare: uint64,
+    payment: gtxn.AssetTransferTxn,
+    referrer: Account,
+  ): uint64 {
+    this.assertNotPaused()
+    assert(shares > 0, 'Must purchase at least one share')
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(property.paymentAssetId.asUint64() !== 0, 'Property is priced in ALGO')
+    const price = this.auctionPrice(property, maxPricePerShare)
+
+    assertMatch(payment, {
+      xferAsset: Asset(property.paymentAssetId.asUint64()),
+      assetAmount: shares * maxPricePerShare,
+      assetReceiver: Global.currentApplicationAddress,
+      sender: Txn.sender,
+      assetCloseTo: Global.zeroAddress,
+      rekeyTo: Global.zeroAddress,
+    }, 'Invalid payment transaction')
+
+    this.sellFromLister(propertyId, property, shares, shares * price, referrer)
+    if (price < maxPricePerShare) {
+      this.payOut(property, Txn.sender, shares * (maxPricePerShare - price))
+    }
+    return price
+  }
+
+  /** The auction's current price, checked against the buyer's slippage limit. */
+  private auctionPrice(property: PropertyStruct, maxPricePerShare: uint64): uint64 {
+    assert(property.auctionFloor.asUint64() > 0, 'Property is not a Dutch auction')
+    const price = this.currentPrice(property)
+    assert(price <= maxPricePerShare, 'Price is above your maximum')
+    return price
+  }
+
+  /** Transfers primary sale shares to the buyer and pays the owner and treasury, or escrows the payment during a raise. */
+  private sellFromLister(
+    propertyId: uint64,
+    property: PropertyStruct,
+    shares: uint64,
+    amount: uint64,
+    referrer: Account,
+  ): void {
+    this.assertCanBuy(property, shares)
+    this.deliverShares(propertyId, property, shares, amount, referrer)
+  }
+
+  /** Checks the sale is running and the caller can buy this many of its available shares. */
+  private assertCanBuy(property: PropertyStruct, shares: uint64): void {
+    assert(property.primarySaleOpen.native, 'Primary sale is closed')
+    assert(Global.latestTimestamp >= property.saleStart.asUint64(), 'Sale has not started')
+    assert(property.saleEnd.asUint64() === 0 || Global.latestTimestamp < property.saleEnd.asUint64(), 'Sale has ended')
+    assert(!this.raiseFailed(property), 'Funding goal was not met')
+    assert(shares <= property.availableShares.asUint64(), 'Not enough shares')
+    this.assertApproved(Txn.sender)
+    // The last few shares can always be bought, even if fewer than the minimum are left
     assert(
-      property.availableShares.asUint64() === property.totalShares.asUint64(),
-      'Cannot delist property with sold shares',
+      shares >= property.minPurchase.asUint64() || shares === property.availableShares.asUint64(),
+      'Purchase is below the minimum',
     )
+    this.assertWithinCap(property, shares)
+  }
 
-    this.listedProperties(propertyId).delete()
+  /** The per-account cap counts the shares the caller already holds. */
+  private assertWithinCap(property: PropertyStruct, shares: uint64): void {
+    const cap = property.maxSharesPerAccount.asUint64()
+    const balance = Asset(property.propertyAssetId.asUint64()).balance(Txn.sender)
+    assert(cap === 0 || balance + shares <= cap, 'Purchase would exceed the per-account share cap')
   }
 
-  // clone() is required because BoxMap values are references -- mutating without clone
-  // would silently fail to persist changes
-  private updateAvailableShares(propertyId: uint64, newAvailableShares: uint64) {
-    const propertyStruct = clone(this.listedProperties(propertyId).value)
-    const updatedStruct = new PropertyStruct({
-      ...propertyStruct,
-      availableShares: new arc4.Uint64(newAvailableShares),
+  /** Hands over shares the caller has paid `amount` for, taking them out of the listing's available shares. */
+  private deliverShares(
+    propertyId: uint64,
+    property: PropertyStruct,
+    shares: uint64,
+    amount: uint64,
+    referrer: Account,
+  ): void {
+    const lockupRounds = property.lockupRounds.asUint64()
+    if (lockupRounds > 0) {
+      this.lockUp(propertyId, shares, lockupRounds)
+    }
+    this.sendShares(propertyId, Txn.sender, shares)
+
+    // Hold the payment in the app until the raise succeeds, otherwise split it between owner and treasury
+    const escrow = property.fundingGoal.asUint64() > 0 && Global.round <= property.fundingDeadline.asUint64()
+    if (!escrow) {
+      const platformFee = this.platformFee(amount)
+      const commission = this.payReferral(property, referrer, amount - platformFee)
+      this.payOut(property, property.ownerAddress.native, amount - platformFee - commission)
+      if (platformFee > 0) {
+        this.payOut(property, this.treasury.value, platformFee)
+      }
+    }
+
+    this.totalSharesSold.value += shares
+    if (property.paymentAssetId.asUint64() === 0) {
+      this.totalVolume.value += amount
+    }
+
+    const availableShares: uint64 = property.availableShares.asUint64() - shares
+    this.listedProperties(propertyId).value = new PropertyStruct({
+      ...property,
+      availableShares: new arc4.Uint64(availableShares),
+      sharesSold: new arc4.Uint64(property.sharesSold.asUint64() + shares),
+      escrowedFunds: new arc4.Uint64(
+        escrow ? property.escrowedFunds.asUint64() + amount : property.escrowedFunds.asUint64(),
+      ),
     })
+    this.settleIncome(propertyId, Txn.sender)
 
-    this.listedProperties(propertyId).value = clone(updatedStruct)
+    emit(
+      new SharesPurchased({
+        propertyId: new arc4.Uint64(propertyId),
+        buyer: new arc4.Address(Txn.sender),
+        shares: new arc4.Uint64(shares),
+        amount: new arc4.Uint64(amount),
+        availableShares: new arc4.Uint64(availableShares),
+      }),
+    )
   }
 
-  @abimethod({ readonly: true })
-  public getPropertyInfo(propertyId: uint64): PropertyStruct {
+  /**
+   * Pays the referrer the listing's commission out of the owner's proceeds and adds it to their
+   * earnings. Returns the commission, which is 0 without a referrer.
+   */
+  private payReferral(property: PropertyStruct, referrer: Account, proceeds: uint64): uint64 {
+    if (referrer === Global.zeroAddress) {
+      return 0
+    }
+    assert(referrer !== Txn.sender, 'Cannot refer yourself')
+    const key = this.referralKey(referrer, property.paymentAssetId.asUint64())
+    assert(this.referralEarnings(key).exists, 'Referrer is not registered')
+
+    const commission: uint64 = (proceeds * property.referralBps.asUint64()) / 10_000
+    if (commission > 0) {
+      this.payOut(property, referrer, commission)
+      this.referralEarnings(key).value += commission
+    }
+    return commission
+  }
+
+  /** Pays an amount out of the app in the listing's currency: ALGO, or the ASA it is priced in. */
+  private payOut(property: PropertyStruct, receiver: Account, amount: uint64): void {
+    const paymentAssetId = property.paymentAssetId.asUint64()
+    if (paymentAssetId === 0) {
+      itxn
+        .payment({
+          amount: amount,
+          receiver: receiver,
+          fee: 0,
+        })
+        .submit()
+    } else {
+      itxn
+        .assetTransfer({
+          xferAsset: Asset(paymentAssetId),
+          assetReceiver: receiver,
+          assetAmount: amount,
+          fee: 0,
+        })
+        .submit()
+    }
+  }
+
+  /**
+   * Pay the escrowed purchase proceeds out to the owner once the funding goal has sold.
+   * The platform fee is taken here rather than at purchase, since a failed raise refunds in full.
+   */
+  public withdrawProceeds(propertyId: uint64): uint64 {
     assert(this.listedProperties(propertyId).exists, 'Property not listed')
-    return this.listedProperties(propertyId).value
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(Txn.sender === property.ownerAddress.native, 'Only the owner can withdraw proceeds')
+    assert(!this.raisePending(property), 'Funding goal not reached')
+
+    const proceeds = property.escrowedFunds.asUint64()
+    assert(proceeds > 0, 'No proceeds to withdraw')
+
+    this.listedProperties(propertyId).value = new PropertyStruct({
+      ...property,
+      escrowedFunds: new arc4.Uint64(0),
+    })
+
+    const platformFee = this.platformFee(proceeds)
+    this.payOut(property, Txn.sender, proceeds - platformFee)
+    if (platformFee > 0) {
+      this.payOut(property, this.treasury.value, platformFee)
+    }
+
+    return proceeds - platformFee
+  }
+
+  /**
+   * Hand shares back after a failed raise and get the purchase price refunded.
+   * The shares are taken back from the caller's holding, including any still locked up.
+   */
+  public claimRefund(propertyId: uint64, shares: uint64): uint64 {
+    assert(shares > 0, 'Must return at least one share')
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(this.raiseFailed(property), 'Refunds are only available after a failed raise')
+
+    // The price can't change while a raise is pending, so every escrowed share was bought at it
+    const refund: uint64 = shares * property.pricePerShare.asUint64()
+
+    this.releaseLockedShares(propertyId, Txn.sender, shares)
+    this.takeShares(propertyId, Txn.sender, shares)
+
+    this.listedProperties(propertyId).value = new PropertyStruct({
+      ...property,
+      availableShares: new arc4.Uint64(property.availableShares.asUint64() + shares),
+      sharesSold: new arc4.Uint64(property.sharesSold.asUint64() - shares),
+      escrowedFunds: new arc4.Uint64(property.escrowedFunds.asUint64() - refund),
+    })
+    this.settleIncome(propertyId, Txn.sender)
+
+    this.payOut(property, Txn.sender, refund)
+
+    return refund
+  }
+
+  /**
+   * Set the platform fee taken from primary sales, in basis points. Only the admin can
+   * change it, and a treasury must be set before a non-zero fee.
+   */
+  public setFeeBps(feeBps: uint64): void {
+    this.assertAdmin()
+    assert(feeBps <= MAX_FEE_BPS, 'Fee cannot exceed 100%')
+    assert(feeBps === 0 || this.treasury.hasValue, 'Set a treasury first')
+
+    this.feeBps.value = feeBps
+  }
+
+  /** Set the account platform fees are paid to. Only the admin can change it. */
+  public setTreasury(treasury: Account): void {
+    this.assertAdmin()
+    assert(treasury !== Global.zeroAddress, 'Treasury cannot be the zero address')
+
+    this.treasury.value = treasury
+  }
+
+  /**
+   * Start handing the admin role to another account. The handover only completes once that
+   * account calls acceptAdmin, so a mistyped address can't lock the admin out.
+   */
+  public transferAdmin(newAdmin: Account): void {
+    this.assertAdmin()
+    this.pendingAdmin.value = newAdmin
+  }
+
+  /** Complete an admin handover. Only the pending admin can accept. */
+  public acceptAdmin(): void {
+    assert(this.pendingAdmin.hasValue && Txn.sender === this.pendingAdmin.value, 'Only the pending admin can accept')
+
+    this.admin.value = Txn.sender
+    this.pendingAdmin.delete()
+  }
+
+  /** Emergency stop: block listing, primary purchases and delisting until unpaused. */
+  public pause(): void {
+    this.assertAdmin()
+    this.paused.value = true
+  }
+
+  public unpause(): void {
+    this.assertAdmin()
+    this.paused.value = false
+  }
+
+  private assertAdmin(): void {
+    assert(Txn.sender === this.admin.value, 'Only the admin can do this')
+  }
+
+  private assertNotPaused(): void {
+    assert(!this.paused.value, 'Contract is paused')
+  }
+
+  /** Hand the compliance role to another account. Only the admin can change it. */
+  public setCompliance(compliance: Account): void {
+    this.assertAdmin()
+    assert(compliance !== Global.zeroAddress, 'Compliance officer cannot be the zero address')
+
+    this.compliance.value = compliance
+  }
+
+  /**
+   * Add an account that has passed KYC to the allowlist. Only the compliance officer can approve
+   * accounts, and pays the allowlist box MBR.
+   */
+  public approveAccount(mbrPayment: gtxn.PaymentTxn, account: Account): void {
+    this.assertCompliance()
+    assert(mbrPayment.amount >= ALLOWLIST_MBR, 'MBR payment amount is insufficient')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must be to the app')
+    assert(mbrPayment.sender === Txn.sender, 'MBR payment must be from the caller')
+    assert(!this.allowlist(account).exists, 'Account is already approved')
+
+    this.allowlist(account).value = Global.round
+  }
+
+  /**
+   * Take an account off the allowlist and refund the box MBR to the compliance officer.
+   * A revoked account can't receive shares or transfer them to anyone else, but can still hand
+   * them back to the app, such as to sell, vote or redeem them.
+   */
+  public revokeAccount(account: Account): void {
+    this.assertCompliance()
+    assert(this.allowlist(account).exists, 'Account is not approved')
+
+    this.allowlist(account).delete()
+
+    itxn
+      .payment({
+        amount: ALLOWLIST_MBR,
+        receiver: Txn.sender,
+        fee: 0,
+      })
+      .submit()
+  }
+
+  /**
+   * Transfer shares to another account. Holdings are frozen, so this is how holders move shares
+   * between themselves: both accounts must be KYC approved, the receiver opted in to the ASA, and
+   * locked up shares stay put. Income is settled on both holdings as the shares move, so
+   * each side is paid for exactly the shares it held.
+   */
+  public transferShares(propertyId: uint64, receiver: Account, shares: uint64): void {
+    assert(shares > 0, 'Must transfer at least one share')
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+    assert(receiver !== Txn.sender, 'Cannot transfer to yourself')
+    this.assertApproved(Txn.sender)
+    this.assertApproved(receiver)
+
+    this.assertUnlocked(propertyId, Txn.sender, shares)
+
+    itxn
+      .assetTransfer({
+        xferAsset: Asset(propertyId),
+        assetSender: Txn.sender,
+        assetReceiver: receiver,
+        assetAmount: shares,
+        fee: 0,
+      })
+      .submit()
+    this.settleIncome(propertyId, Txn.sender)
+    this.settleIncome(propertyId, receiver)
+  }
+
+  /** Whether an account is on the KYC allowlist. */
+  @abimethod({ readonly: true })
+  public isApproved(account: Account): boolean {
+    return this.allowlist(account).exists
+  }
+
+  /**
+   * Set up the caller's lockup record before buying into a listing with a lockup period.
+   * The caller pays the box MBR, which is refunded by unlockShares.
+   */
+  public registerLockup(mbrPayment: gtxn.PaymentTxn, propertyId: uint64): void {
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+    assert(this.listedProperties(propertyId).value.lockupRounds.asUint64() > 0, 'Property has no lockup')
+    assert(mbrPayment.amount >= LOCKUP_MBR, 'MBR payment amount is insufficient')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must be to the app')
+    assert(mbrPayment.sender === Txn.sender, 'MBR payment must be from the caller')
+
+    const key = this.holderKey(propertyId, Txn.sender)
+    assert(!this.lockups(key).exists, 'Lockup already registered')
+
+    this.lockups(key).value = new LockupStruct({
+      lockedShares: new arc4.Uint64(0),
+      unlockRound: new arc4.Uint64(0),
+    })
+  }
+
+  /**
+   * Close the caller's lockup once it has ended and refund the lockup box MBR. The shares can
+   * move as soon as the unlock round is reached; this only pays the box MBR back.
+   */
+  public unlockShares(propertyId: uint64): void {
+    const key = this.holderKey(propertyId, Txn.sender)
+    assert(this.lockups(key).exists, 'No locked shares')
+    assert(Global.round >= this.lockups(key).value.unlockRound.asUint64(), 'Shares are still locked')
+
+    this.lockups(key).delete()
+
+    itxn
+      .payment({
+        amount: LOCKUP_MBR,
+        receiver: Txn.sender,
+        fee: 0,
+      })
+      .submit()
+  }
+
+  /** A holder's locked shares and the round they unlock in. Both are 0 without a lockup. */
+  @abimethod({ readonly: true })
+  public getLockup(propertyId: uint64, holder: Account): LockupStruct {
+    const key = this.holderKey(propertyId, holder)
+    if (!this.lockups(key).exists) {
+      return new LockupStruct({ lockedShares: new arc4.Uint64(0), unlockRound: new arc4.Uint64(0) })
+    }
+    return this.lockups(key).value
+  }
+
+  /**
+   * Add purchased shares to the buyer's lockup, so they can't be moved until it ends.
+   * The lockup is a single record, not a tranche per purchase: buying more while it runs
+   * restarts it for all of the buyer's locked shares. Shares from a lockup that has already
+   * ended stay free, and only the new purchase is locked.
+   */
+  private lockUp(propertyId: uint64, shares: uint64, lockupRounds: uint64): void {
+    const key = this.holderKey(propertyId, Txn.sender)
+    assert(this.lockups(key).exists, 'Register for the lockup first')
+
+    this.lockups(key).value = new LockupStruct({
+      lockedShares: new arc4.Uint64(this.lockedShares(propertyId, Txn.sender) + shares),
+      unlockRound: new arc4.Uint64(Global.round + lockupRounds),
+    })
+  }
+
+  /** Shares a holder still has locked up. None once the unlock round is reached, even before unlockShares. */
+  private lockedShares(propertyId: uint64, holder: Account): uint64 {
+    const key = this.holderKey(propertyId, holder)
+    if (!this.lockups(key).exists || Global.round >= this.lockups(key).value.unlockRound.asUint64()) {
+      return 0
+    }
+    return this.lockups(key).value.lockedShares.asUint64()
+  }
+
+  /**
+   * Takes shares out of a holder's lockup, locked ones first, so they can be handed back to the app.
+   * Only for refunds, which undo the purchase the lockup was for.
+   */
+  private releaseLockedShares(propertyId: uint64, holder: Account, shares: uint64): void {
+    const locked = this.lockedShares(propertyId, holder)
+    if (locked === 0) {
+      return
+    }
+
+    const key = this.holderKey(propertyId, holder)
+    const lockup = clone(this.lockups(key).value)
+    this.lockups(key).value = new LockupStruct({
+      ...lockup,
+      lockedShares: new arc4.Uint64(shares < locked ? locked - shares : 0),
+    })
+  }
+
+  /** Checks a holder has this many shares outside their lockup. */
+  private assertUnlocked(propertyId: uint64, holder: Account, shares: uint64): void {
+    const balance = Asset(propertyId).balance(holder)
+    assert(shares + this.lockedShares(propertyId, holder) <= balance, 'Not enough unlocked shares')
+  }
+
+  /**
+   * Takes shares out of a holding into the app with clawback, since holdings are frozen.
+   * Settle the holder's income after calling this.
+   */
+  private takeShares(propertyId: uint64, holder: Account, shares: uint64): void {
+    this.assertUnlocked(propertyId, holder, shares)
+    itxn
+      .assetTransfer({
+        xferAsset: Asset(propertyId),
+        assetSender: holder,
+        assetReceiver: Global.currentApplicationAddress,
+        assetAmount: shares,
+        fee: 0,
+      })
+      .submit()
+  }
+
+  /**
+   * Sends shares out of the app with clawback, so they arrive in the receiver's frozen holding.
+   * Settle the receiver's income after calling this.
+   */
+  private sendShares(propertyId: uint64, receiver: Account, shares: uint64): void {
+    itxn
+      .assetTransfer({
+        xferAsset: Asset(propertyId),
+        assetSender: Global.currentApplicationAddress,
+        assetReceiver: receiver,
+        assetAmount: shares,
+        fee: 0,
+      })
+      .submit()
+  }
+
+  private assertCompliance(): void {
+    assert(Txn.sender === this.compliance.value, 'Only the compliance officer can do this')
+  }
+
+  private assertApproved(account: Account): void {
+    assert(this.allowlist(account).exists, 'Account is not KYC approved')
+  }
+
+  /** Current platform fee and treasury. The treasury is the zero address until one is set. */
+  @abimethod({ readonly: true })
+  public getPlatformFee(): PlatformFeeStruct {
+    return new PlatformFeeStruct({
+      feeBps: new arc4.Uint64(this.feeBps.value),
+      treasury: new arc4.Address(this.treasury.hasValue ? this.treasury.value : Global.zeroAddress),
+    })
+  }
+
+  /** Platform fee owed on a primary sale amount, rounded down. */
+  private platformFee(amount: uint64): uint64 {
+    return (amount * this.feeBps.value) / 10_000
+  }
+
+  /** A raise is pending until its funding goal has sold. */
+  private raisePending(property: PropertyStruct): boolean {
+    return property.sharesSold.asUint64() < property.fundingGoal.asUint64()
+  }
+
+  /** A raise has failed once its deadline passes with the goal still pending. */
+  private raiseFailed(property: PropertyStruct): boolean {
+    return this.raisePending(property) && Global.round > property.fundingDeadline.asUint64()
+  }
+
+  /**
+   * Price per share right now: the listing price, or on a Dutch auction the price falling
+   * linearly from it to the floor over the sale window.
+   */
+  private currentPrice(property: PropertyStruct): uint64 {
+    const startPrice = property.pricePerShare.asUint64()
+    const floor = property.auctionFloor.asUint64()
+    const start = property.saleStart.asUint64()
+    const end = property.saleEnd.asUint64()
+    if (floor === 0 || Global.latestTimestamp <= start) {
+      return startPrice
+    }
+    if (Global.latestTimestamp >= end) {
+      return floor
+    }
+    return startPrice - ((startPrice - floor) * (Global.latestTimestamp - start)) / (end - start)
+  }
+
+  /**
+   * Price of the next `shares` primary shares. Each share is priced by the first tier that still
+   * applies to it, so a purchase can span tiers; shares past every tier pay the current price.
+   */
+  private purchaseCost(propertyId: uint64, property: PropertyStruct, shares: uint64): uint64 {
+    const listingPrice = this.currentPrice(property)
+    if (!this.priceTiers(propertyId).exists) {
+      return shares * listingPrice
+    }
+
+    let remaining = shares
+    // Reserved shares hold their place in the tiers until they are paid for or released
+    let sold: uint64 = property.sharesSold.asUint64() + property.reservedShares.asUint64()
+    let cost: uint64 = 0
+    for (const tier of clone(this.priceTiers(propertyId).value)) {
+      const endTime = tier.endTime.asUint64()
+      const shareLimit = tier.shareLimit.asUint64()
+      if (remaining === 0 || (endTime !== 0 && Global.latestTimestamp >= endTime)) {
+        continue
+      }
+      if (shareLimit === 0) {
+        cost += remaining * tier.pricePerShare.asUint64()
+        remaining = 0
+      } else if (sold < shareLimit) {
+        const tierShares: uint64 = remaining < shareLimit - sold ? remaining : shareLimit - sold
+        cost += tierShares * tier.pricePerShare.asUint64()
+        remaining -= tierShares
+        sold += tierShares
+      }
+    }
+    return cost + remaining * listingPrice
+  }
+
+  private assertValidTiers(priceTiers: arc4.DynamicArray<PriceTierStruct>, fundingGoal: uint64): void {
+    assert(priceTiers.length <= MAX_PRICE_TIERS, 'Too many price tiers')
+    // Refunds after a failed raise are paid at the listing price, which tiers would undercut
+    assert(priceTiers.length === 0 || fundingGoal === 0, 'Price tiers cannot be combined with a funding goal')
+    for (const tier of clone(priceTiers)) {
+      assert(tier.pricePerShare.asUint64() > 0, 'Tier price must be greater than 0')
+      assert(tier.shareLimit.asUint64() > 0 || tier.endTime.asUint64() > 0, 'Tier needs a share limit or an end time')
+    }
+  }
+
+  /** Change the primary sale price. Only the owner can reprice, and only while the sale is open. */
+  public updatePrice(propertyId: uint64, pricePerShare: uint64): void {
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+    assert(pricePerShare > 0, 'Price per share must be greater than 0')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(Txn.sender === property.ownerAddress.native, 'Only the owner can reprice')
+    assert(property.primarySaleOpen.native, 'Primary sale is closed')
+    // Refunds are paid at the listing price, so it is fixed until the funding goal has sold
+    assert(!this.raisePending(property), 'Cannot reprice during a funding raise')
+    assert(property.auctionFloor.asUint64() === 0, 'Cannot reprice a Dutch auction')
+
+    this.listedProperties(propertyId).value = new PropertyStruct({
+      ...property,
+      pricePerShare: new arc4.Uint64(pricePerShare),
+    })
+  }
+
+  /**
+   * Take unsold shares back out of the primary sale. The owner must be KYC approved and opted in to the ASA.
+   * Refunds are paid for any shares handed back, so unsold shares stay in the app until the
+   * funding goal has sold.
+   */
+  public withdrawShares(propertyId: uint64, shares: uint64): void {
+    assert(shares > 0, 'Must withdraw at least one share')
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(Txn.sender === property.ownerAddress.native, 'Only the owner can withdraw shares')
+    assert(!this.raisePending(property), 'Cannot withdraw shares during a funding raise')
+    assert(shares <= property.availableShares.asUint64(), 'Not enough shares')
+    this.assertApproved(Txn.sender)
+
+    this.sendShares(propertyId, Txn.sender, shares)
+
+    this.updateAvailableShares(propertyId, property.availableShares.asUint64() - shares)
+    this.settleIncome(propertyId, Txn.sender)
+  }
+
+  /** Put shares the owner holds back up for primary sale. The shares are taken from the owner's holding. */
+  public topUpShares(propertyId: uint64, shares: uint64): void {
+    assert(shares > 0, 'Must top up at least one share')
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(Txn.sender === property.ownerAddress.native, 'Only the owner can top up shares')
+
+    this.takeShares(propertyId, Txn.sender, shares)
+
+    this.updateAvailableShares(propertyId, property.availableShares.asUint64() + shares)
+    this.settleIncome(propertyId, Txn.sender)
+  }
+
+  /**
+   * End the primary sale. Unsold shares go back to the owner, and the listing stays in place
+   * for the holders so resale, income and governance keep working. A sale with a funding goal
+   * can't be closed until the goal has sold, for the same reason as withdrawShares.
+   */
+  public closePrimarySale(propertyId: uint64): void {
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(Txn.sender === property.ownerAddress.native, 'Only the owner can close the sale')
+    assert(property.primarySaleOpen.native, 'Primary sale is closed')
+    assert(!this.raisePending(property), 'Cannot close the sale during a funding raise')
+    assert(property.reservedShares.asUint64() === 0, 'Shares are reserved')
+
+    const unsold = property.availableShares.asUint64()
+    if (unsold > 0) {
+      this.assertApproved(Txn.sender)
+      this.sendShares(propertyId, Txn.sender, unsold)
+    }
+
+    this.listedProperties(propertyId).value = new PropertyStruct({
+      ...property,
+      availableShares: new arc4.Uint64(0),
+      primarySaleOpen: new arc4.Bool(false),
+    })
+    this.settleIncome(propertyId, Txn.sender)
+  }
+
+  /**
+   * Start handing a listing over to a new owner, such as a company multisig or a new manager.
+   * The handover only happens once the new owner accepts, so a mistyped address can't take
+   * control. The owner pays for the pending transfer box and gets it back when it is settled.
+   *
+   * @param mbrPayment Covers the MBR for the pending transfer box
+   */
+  public transferOwnership(mbrPayment: gtxn.PaymentTxn, propertyId: uint64, newOwner: Account): void {
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(Txn.sender === property.ownerAddress.native, 'Only the owner can transfer the listing')
+    assert(newOwner !== Txn.sender && newOwner !== Global.zeroAddress, 'Invalid new owner')
+    assert(!this.pendingOwners(propertyId).exists, 'A transfer is already pending')
+    assert(mbrPayment.amount >= PENDING_OWNER_MBR, 'MBR payment amount is insufficient')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must be to the app')
+    assert(mbrPayment.sender === Txn.sender, 'MBR payment must be from the caller')
+
+    this.pendingOwners(propertyId).value = newOwner
+  }
+
+  /** Call off a pending ownership transfer and get the MBR back. */
+  public cancelOwnershipTransfer(propertyId: uint64): void {
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+    assert(this.pendingOwners(propertyId).exists, 'No transfer pending')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(Txn.sender === property.ownerAddress.native, 'Only the owner can cancel the transfer')
+
+    this.settleOwnershipTransfer(propertyId, Txn.sender)
+  }
+
+  /**
+   * Take over a listing. From here on the new owner manages it, and receives primary sale
+   * proceeds, escrowed raise funds and the rest of the owner's payouts. The previous owner gets
+   * back the MBR of the pending transfer box and of the listing's entry in their index.
+   *
+   * @param mbrPayment Covers the MBR for adding the listing to the new owner's index
+   */
+  public acceptOwnership(mbrPayment: gtxn.PaymentTxn, propertyId: uint64): void {
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+    assert(
+      this.pendingOwners(propertyId).exists && Txn.sender === this.pendingOwners(propertyId).value,
+      'Only the pending owner can accept',
+    )
+    const mbrCost = this.ownerIndexMbr(Txn.sender)
+    assert(mbrPayment.amount >= mbrCost, 'MBR payment amount is insufficient')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must be to the app')
+    assert(mbrPayment.sender === Txn.sender, 'MBR payment must be from the caller')
+    this.refundExcess(mbrPayment, mbrCost)
+
+    const property = clone(this.listedProperties(propertyId).value)
+    // Proceeds of a listing priced in an ASA are paid in that asset, so the new owner must be able to receive it
+    const paymentAssetId = property.paymentAssetId.asUint64()
+    assert(paymentAssetId === 0 || Txn.sender.isOptedIn(Asset(paymentAssetId)), 'Opt in to the payment asset first')
+
+    const previousOwner = property.ownerAddress.native
+    const reclaimedMbr: uint64 = PENDING_OWNER_MBR + this.ownerListingMbr(previousOwner)
+    this.pendingOwners(propertyId).delete()
+    this.removeOwnerListing(previousOwner, propertyId)
+    itxn
+      .payment({
+        amount: reclaimedMbr,
+        receiver: previousOwner,
+        fee: 0,
+      })
+      .submit()
+    this.addOwnerListing(Txn.sender, propertyId)
+    this.listedProperties(propertyId).value = new PropertyStruct({
+      ...property,
+      ownerAddress: new arc4.Address(Txn.sender),
+    })
+  }
+
+  /** Account a pending ownership transfer would hand the listing to, or the zero address if there is none. */
+  @abimethod({ readonly: true })
+  public getPendingOwner(propertyId: uint64): Account {
+    return this.pendingOwners(propertyId).exists ? this.pendingOwners(propertyId).value : Global.zeroAddress
+  }
+
+  private settleOwnershipTransfer(propertyId: uint64, refundTo: Account): void {
+    this.pendingOwners(propertyId).delete()
+    itxn
+      .payment({
+        amount: PENDING_OWNER_MBR,
+        receiver: refundTo,
+        fee: 0,
+      })
+      .submit()
+  }
+
+  /** Delist a property. Only the owner can delist, and no shares can have been sold.
+   *  Deleting the boxes reclaims their MBR, which is paid back to the owner. */
+  public delistProperty(propertyId: uint64): void {
+    this.assertNotPaused()
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+
+    assert(Txn.sender === property.ownerAddress.native, 'Only the owner can delist')
+    assert(
+      property.availableShares.asUint64() === property.totalShares.asUint64(),
+      'Cannot delist property with sold shares',
+    )
+
+    this.closeListing(propertyId, Txn.sender)
+
+    emit(
+      new PropertyDelisted({
+        propertyId: new arc4.Uint64(propertyId),
+        owner: new arc4.Address(Txn.sender),
+        shares: property.totalShares,
+        availableShares: new arc4.Uint64(0),
+      }),
+    )
+  }
+
+  /**
+   * Deletes a listing's boxes and takes it out of its owner's index and the listing count,
+   * paying the reclaimed MBR back to the owner. The listing's ID stays in its listing page,
+   * so only the listing, tiers, appraisal and owner index MBR comes back. The share ASA is
+   * destroyed too when the app holds every share, which frees the MBR for holding it.
+   * Income still carried forward goes back to the owner as well, since no shares are left to earn it.
+   */
+  private closeListing(propertyId: uint64, owner: Account): void {
+    const undistributedIncome = this.listedProperties(propertyId).value.undistributedIncome.asUint64()
+    let reclaimedMbr: uint64 = 2500 + 400 * (18 + this.listedProperties(propertyId).length)
+    const asset = Asset(propertyId)
+    if (asset.balance(Global.currentApplicationAddress) === asset.total) {
+      itxn
+        .assetConfig({
+          configAsset: asset,
+          fee: 0,
+        })
+        .submit()
+      reclaimedMbr += ASSET_OPT_IN_MBR
+    }
+    reclaimedMbr += this.ownerListingMbr(owner)
+    this.listedProperties(propertyId).delete()
+    if (this.priceTiers(propertyId).exists) {
+      reclaimedMbr += 2500 + 400 * (13 + this.priceTiers(propertyId).length)
+      this.priceTiers(propertyId).delete()
+    }
+    if (this.pendingOwners(propertyId).exists) {
+      this.settleOwnershipTransfer(propertyId, owner)
+    }
+    if (this.appraisers(propertyId).exists) {
+      reclaimedMbr += APPRAISER_MBR + VALUATION_HISTORY_MBR
+      this.appraisers(propertyId).delete()
+      this.valuations(propertyId).delete()
+    }
+    this.removeOwnerListing(owner, propertyId)
+    this.listingCount.value -= 1
+
+    itxn
+      .payment({
+        amount: reclaimedMbr + undistributedIncome,
+        receiver: owner,
+        fee: 0,
+      })
+      .submit()
+  }
+
+  // clone() is required because BoxMap values are references -- mutating without clone
+  // would silently fail to persist changes
+  private updateAvailableShares(propertyId: uint64, newAvailableShares: uint64) {
+    const propertyStruct = clone(this.listedProperties(propertyId).value)
+    const updatedStruct = new PropertyStruct({
+      ...propertyStruct,
+      availableShares: new arc4.Uint64(newAvailableShares),
+    })
+
+    this.listedProperties(propertyId).value = clone(updatedStruct)
+  }
+
+  /** Pays back whatever an MBR payment sent over the amount the call needed. */
+  private refundExcess(mbrPayment: gtxn.PaymentTxn, mbrCost: uint64): void {
+    if (mbrPayment.amount > mbrCost) {
+      itxn
+        .payment({
+          amount: mbrPayment.amount - mbrCost,
+          receiver: mbrPayment.sender,
+          fee: 0,
+        })
+        .submit()
+    }
+  }
+
+  /** MBR for adding a listing to an owner's index: a new box for their first, 8 more bytes after that. */
+  private ownerIndexMbr(owner: Account): uint64 {
+    return this.ownerListings(owner).exists ? OWNER_INDEX_ENTRY_MBR : OWNER_INDEX_MBR
+  }
+
+  /** MBR freed by taking a listing out of an owner's index: the whole box with their last listing, 8 bytes otherwise. */
+  private ownerListingMbr(owner: Account): uint64 {
+    return this.ownerListings(owner).value.length > 1 ? OWNER_INDEX_ENTRY_MBR : OWNER_INDEX_MBR
+  }
+
+  private addOwnerListing(owner: Account, propertyId: uint64): void {
+    const listings = this.ownerListings(owner).exists
+      ? clone(this.ownerListings(owner).value)
+      : new arc4.DynamicArray<arc4.Uint64>()
+    listings.push(new arc4.Uint64(propertyId))
+    this.ownerListings(owner).value = clone(listings)
+  }
+
+  /** MBR for the next listing ID: a new page box at the start of each page, 8 more bytes after that. */
+  private listingPageMbr(): uint64 {
+    return this.nextListingIndex.value % LISTING_PAGE_SIZE === 0 ? LISTING_PAGE_MBR : LISTING_PAGE_ENTRY_MBR
+  }
+
+  private appendListingId(propertyId: uint64): void {
+    const page: uint64 = this.nextListingIndex.value / LISTING_PAGE_SIZE
+    const ids = this.listingPages(page).exists
+      ? clone(this.listingPages(page).value)
+      : new arc4.DynamicArray<arc4.Uint64>()
+    ids.push(new arc4.Uint64(propertyId))
+    this.listingPages(page).value = clone(ids)
+    this.nextListingIndex.value += 1
+  }
+
+  /** Drops a listing from an owner's index, deleting the box along with their last listing. */
+  private removeOwnerListing(owner: Account, propertyId: uint64): void {
+    const remaining = new arc4.DynamicArray<arc4.Uint64>()
+    for (const listing of clone(this.ownerListings(owner).value)) {
+      if (listing.asUint64() !== propertyId) {
+        remaining.push(listing)
+      }
+    }
+    if (remaining.length > 0) {
+      this.ownerListings(owner).value = clone(remaining)
+    } else {
+      this.ownerListings(owner).delete()
+    }
+  }
+
+  @abimethod({ readonly: true })
+  public getPropertyInfo(propertyId: uint64): PropertyStruct {
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+    return this.listedProperties(propertyId).value
+  }
+
+  /**
+   * A page of up to 32 property IDs in the order they were listed, including any since delisted.
+   * Pages run from 0 up to nextListingIndex / 32.
+   */
+  @abimethod({ readonly: true })
+  public getListingIds(page: uint64): arc4.DynamicArray<arc4.Uint64> {
+    return this.listingPages(page).exists ? this.listingPages(page).value : new arc4.DynamicArray<arc4.Uint64>()
+  }
+
+  /**
+   * The listings for a batch of property IDs, skipping any that have been delisted. ABI returns
+   * are capped at 1KB, so only a couple of listings fit in each call: a listing with the longest
+   * address, unit name and metadata URL encodes to 488 bytes (254 + 128 + 8 + 96 + a 2-byte offset),
+   * and two of those with the array's length prefix come to 978.
+   */
+  @abimethod({ readonly: true })
+  public getProperties(propertyIds: arc4.DynamicArray<arc4.Uint64>): arc4.DynamicArray<PropertyStruct> {
+    const properties = new arc4.DynamicArray<PropertyStruct>()
+    for (const propertyId of propertyIds) {
+      if (this.listedProperties(propertyId.asUint64()).exists) {
+        properties.push(clone(this.listedProperties(propertyId.asUint64()).value))
+      }
+    }
+    return properties
+  }
+
+  /** IDs of the properties an account has listed or taken over, oldest first. */
+  @abimethod({ readonly: true })
+  public getOwnerListings(owner: Account): arc4.DynamicArray<arc4.Uint64> {
+    return this.ownerListings(owner).exists ? this.ownerListings(owner).value : new arc4.DynamicArray<arc4.Uint64>()
+  }
+
+  @abimethod({ readonly: true })
+  public getMarketStats(): MarketStatsStruct {
+    return new MarketStatsStruct({
+      listingCount: new arc4.Uint64(this.listingCount.value),
+      totalSharesSold: new arc4.Uint64(this.totalSharesSold.value),
+      totalVolume: new arc4.Uint64(this.totalVolume.value),
+    })
+  }
+
+  /** Current primary sale price per share, which falls over time on a Dutch auction. */
+  @abimethod({ readonly: true })
+  public getCurrentPrice(propertyId: uint64): uint64 {
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+    return this.currentPrice(clone(this.listedProperties(propertyId).value))
+  }
+
+  /**
+   * Post a resale order on the secondary market. The shares being sold are taken from the
+   * seller's holding and escrowed in the app account until the order is filled or cancelled.
+   *
+   * @param mbrPayment Covers the Minimum Balance Requirement for the order box
+   */
+  public createSellOrder(
+    mbrPayment: gtxn.PaymentTxn,
+    propertyId: uint64,
+    shares: uint64,
+    pricePerShare: uint64,
+  ): uint64 {
+    assert(shares > 0, 'Must sell at least one share')
+    assert(pricePerShare > 0, 'Price per share must be greater than 0')
+    assert(mbrPayment.amount >= SELL_ORDER_MBR, 'MBR payment amount is insufficient')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must be to the app')
+    assert(mbrPayment.sender === Txn.sender, 'MBR payment must be from the caller')
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    this.takeShares(propertyId, Txn.sender, shares)
+    this.settleIncome(propertyId, Txn.sender)
+
+    const orderId = this.nextOrderId.value
+    this.nextOrderId.value = orderId + 1
+
+    this.sellOrders(orderId).value = new SellOrderStruct({
+      propertyId: new arc4.Uint64(propertyId),
+      seller: new arc4.Address(Txn.sender),
+      shares: new arc4.Uint64(shares),
+      pricePerShare: new arc4.Uint64(pricePerShare),
+    })
+
+    return orderId
+  }
+
+  /** Buy shares out of a resale order. Payment goes to the seller and partial fills are allowed;
+   *  the order box is deleted once all of its shares are sold. */
+  public fillSellOrder(orderId: uint64, shares: uint64, payment: gtxn.PaymentTxn): boolean {
+    assert(shares > 0, 'Must purchase at least one share')
+    assert(this.sellOrders(orderId).exists, 'Order not found')
+
+    const order = clone(this.sellOrders(orderId).value)
+
+    assertMatch(payment, {
+      amount: shares * order.pricePerShare.asUint64(),
+      receiver: Global.currentApplicationAddress,
+      sender: Txn.sender,
+      closeRemainderTo: Global.zeroAddress,
+      rekeyTo: Global.zeroAddress,
+    }, 'Invalid payment transaction')
+    assert(shares <= order.shares.asUint64(), 'Not enough shares in order')
+    this.assertApproved(Txn.sender)
+
+    this.sendShares(order.propertyId.asUint64(), Txn.sender, shares)
+    this.settleIncome(order.propertyId.asUint64(), Txn.sender)
+    itxn
+      .payment({
+        amount: payment.amount,
+        receiver: order.seller.bytes,
+        fee: 0,
+      })
+      .submit()
+
+    const remainingShares: uint64 = order.shares.asUint64() - shares
+    if (remainingShares === 0) {
+      this.closeSellOrder(orderId)
+    } else {
+      this.sellOrders(orderId).value = new SellOrderStruct({
+        ...order,
+        shares: new arc4.Uint64(remainingShares),
+      })
+    }
+
+    return true
+  }
+
+  /** Cancel a resale order. Only the seller can cancel; unsold shares are returned to them. */
+  public cancelSellOrder(orderId: uint64): void {
+    assert(this.sellOrders(orderId).exists, 'Order not found')
+
+    const order = clone(this.sellOrders(orderId).value)
+
+    assert(Txn.sender === order.seller.native, 'Only the seller can cancel')
+
+    this.sendShares(order.propertyId.asUint64(), Txn.sender, order.shares.asUint64())
+    this.settleIncome(order.propertyId.asUint64(), Txn.sender)
+
+    this.closeSellOrder(orderId)
+  }
+
+  /** Deletes an order box and refunds its MBR to the seller who paid for it. */
+  private closeSellOrder(orderId: uint64) {
+    const seller = this.sellOrders(orderId).value.seller.bytes
+    this.sellOrders(orderId).delete()
+
+    itxn
+      .payment({
+        amount: SELL_ORDER_MBR,
+        receiver: seller,
+        fee: 0,
+      })
+      .submit()
+  }
+
+  @abimethod({ readonly: true })
+  public getSellOrder(orderId: uint64): SellOrderStruct {
+    assert(this.sellOrders(orderId).exists, 'Order not found')
+    return this.sellOrders(orderId).value
+  }
+
+  /**
+   * Deposit rental income for a property. Only the owner can deposit. The amount is spread over
+   * the shares registered holders have in their holdings by growing a cumulative income-per-share
+   * accumulator. Shares held by the app (unsold, escrowed in orders or votes) and unregistered
+   * holders' shares don't earn. Whatever doesn't divide evenly, or all of it while no shares are
+   * registered, is carried into the next deposit.
+   *
+   * @param payment The income being distributed, paid to the app
+   */
+  public depositIncome(propertyId: uint64, payment: gtxn.PaymentTxn): void {
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+
+    assert(Txn.sender === property.ownerAddress.native, 'Only the owner can deposit income')
+    assertMatch(payment, {
+      amount: { greaterThan: 0 },
+      receiver: Global.currentApplicationAddress,
+      sender: Txn.sender,
+      closeRemainderTo: Global.zeroAddress,
+      rekeyTo: Global.zeroAddress,
+    }, 'Invalid payment transaction')
+
+    const incomeShares = property.incomeShares.asUint64()
+    const distributable: uint64 = payment.amount + property.undistributedIncome.asUint64()
+    const perShare: uint64 = incomeShares > 0 ? distributable / incomeShares : 0
+
+    this.listedProperties(propertyId).value = new PropertyStruct({
+      ...property,
+      incomePerShare: new arc4.Uint64(property.incomePerShare.asUint64() + perShare),
+      undistributedIncome: new arc4.Uint64(distributable - perShare * incomeShares),
+    })
+  }
+
+  /**
+   * Start earning income on a property, on the shares in the caller's holding. Income deposited
+   * before registering is not claimable, since the app only settles the holdings of registered
+   * holders as their shares move.
+   *
+   * @param mbrPayment Covers the Minimum Balance Requirement for the holder's claim box
+   */
+  public registerForIncome(mbrPayment: gtxn.PaymentTxn, propertyId: uint64): void {
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+    assert(mbrPayment.amount >= INCOME_CLAIM_MBR, 'MBR payment amount is insufficient')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must be to the app')
+    assert(mbrPayment.sender === Txn.sender, 'MBR payment must be from the caller')
+
+    const key = this.holderKey(propertyId, Txn.sender)
+    assert(!this.incomeClaims(key).exists, 'Already registered for income')
+
+    this.incomeClaims(key).value = new IncomeClaimStruct({
+      checkpoint: this.listedProperties(propertyId).value.incomePerShare,
+      owed: new arc4.Uint64(0),
+      shares: new arc4.Uint64(0),
+    })
+    if (Txn.sender.isOptedIn(Asset(propertyId))) {
+      this.settleIncome(propertyId, Txn.sender)
+    }
+  }
+
+  /**
+   * Stop earning income on a property. Pays out the caller's unclaimed income along with the
+   * claim box MBR, including after the property has been delisted. Returns the income paid.
+   */
+  public unregisterForIncome(propertyId: uint64): uint64 {
+    assert(this.incomeClaims(this.holderKey(propertyId, Txn.sender)).exists, 'Not registered for income')
+
+    const amount = this.closeIncomeClaim(propertyId, Txn.sender)
+    itxn
+      .payment({
+        amount: amount + INCOME_CLAIM_MBR,
+        receiver: Txn.sender,
+        fee: 0,
+      })
+      .submit()
+
+    return amount
+  }
+
+  /**
+   * Pay out the caller's share of income deposited since their last claim. Returns the amount paid.
+   * Nothing more can be earned on a delisted property, so claiming on one also closes the claim.
+   */
+  public claimIncome(propertyId: uint64): uint64 {
+    const key = this.holderKey(propertyId, Txn.sender)
+    assert(this.incomeClaims(key).exists, 'Not registered for income')
+    if (!this.listedProperties(propertyId).exists) {
+      return this.unregisterForIncome(propertyId)
+    }
+
+    this.settleIncome(propertyId, Txn.sender)
+
+    const claim = clone(this.incomeClaims(key).value)
+    const amount = claim.owed.asUint64()
+    if (amount > 0) {
+      this.incomeClaims(key).value = new IncomeClaimStruct({
+        ...claim,
+        owed: new arc4.Uint64(0),
+      })
+      itxn
+        .payment({
+          amount: amount,
+          receiver: Txn.sender,
+          fee: 0,
+        })
+        .submit()
+    }
+
+    return amount
+  }
+
+  @abimethod({ readonly: true })
+  public getUnclaimedIncome(propertyId: uint64, holder: Account): uint64 {
+    const key = this.holderKey(propertyId, holder)
+    if (!this.incomeClaims(key).exists) {
+      return 0
+    }
+
+    const claim = clone(this.incomeClaims(key).value)
+    if (!this.listedProperties(propertyId).exists) {
+      // Claims were settled as the shares came back to the app, before the property was delisted
+      return claim.owed.asUint64()
+    }
+    const incomePerShare = this.listedProperties(propertyId).value.incomePerShare.asUint64()
+    return claim.owed.asUint64() + claim.shares.asUint64() * (incomePerShare - claim.checkpoint.asUint64())
+  }
+
+  private holderKey(propertyId: uint64, holder: Account): HolderKey {
+    return new HolderKey({ propertyId: new arc4.Uint64(propertyId), holder: new arc4.Address(holder) })
+  }
+
+  private buyoutVoteKey(buyoutId: uint64, voter: Account): BuyoutVoteKey {
+    return new BuyoutVoteKey({ buyoutId: new arc4.Uint64(buyoutId), voter: new arc4.Address(voter) })
+  }
+
+  /**
+   * Credits a registered holder with income earned on the shares they were earning on, then
+   * counts their current balance as their earning shares, in their claim and in the property's
+   * registered total. Must run after every change to the holder's balance, which only the app can make.
+   */
+  private settleIncome(propertyId: uint64, holder: Account): void {
+    const key = this.holderKey(propertyId, holder)
+    if (!this.incomeClaims(key).exists) {
+      return
+    }
+
+    const claim = clone(this.incomeClaims(key).value)
+    const property = clone(this.listedProperties(propertyId).value)
+    const incomePerShare = property.incomePerShare.asUint64()
+    const earned: uint64 = claim.shares.asUint64() * (incomePerShare - claim.checkpoint.asUint64())
+    const shares = Asset(propertyId).balance(holder)
+
+    this.incomeClaims(key).value = new IncomeClaimStruct({
+      checkpoint: new arc4.Uint64(incomePerShare),
+      owed: new arc4.Uint64(claim.owed.asUint64() + earned),
+      shares: new arc4.Uint64(shares),
+    })
+    this.listedProperties(propertyId).value = new PropertyStruct({
+      ...property,
+      incomeShares: new arc4.Uint64(property.incomeShares.asUint64() - claim.shares.asUint64() + shares),
+    })
+  }
+
+  /**
+   * Settles a holder's income, takes their shares out of the property's registered total and
+   * deletes their claim box. Returns the income they're owed, which the caller pays out along
+   * with the box MBR. A delisted property's claims were settled before it closed, so they're just deleted.
+   */
+  private closeIncomeClaim(propertyId: uint64, holder: Account): uint64 {
+    const key = this.holderKey(propertyId, holder)
+    if (this.listedProperties(propertyId).exists) {
+      this.settleIncome(propertyId, holder)
+      const property = clone(this.listedProperties(propertyId).value)
+      this.listedProperties(propertyId).value = new PropertyStruct({
+        ...property,
+        incomeShares: new arc4.Uint64(property.incomeShares.asUint64() - this.incomeClaims(key).value.shares.asUint64()),
+      })
+    }
+
+    const owed = this.incomeClaims(key).value.owed.asUint64()
+    this.incomeClaims(key).delete()
+    return owed
+  }
+
+  /**
+   * Open a governance proposal for a property's co-owners. Only holders of the property's shares
+   * can propose. The quorum is fixed from the share supply when the proposal is created.
+   *
+   * @param mbrPayment Covers the Minimum Balance Requirement for the proposal box
+   * @param deadlineRound Last round in which votes are accepted
+   */
+  public createProposal(
+    mbrPayment: gtxn.PaymentTxn,
+    propertyId: uint64,
+    description: string,
+    deadlineRound: uint64,
+  ): uint64 {
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+    assert(deadlineRound > Global.round, 'Deadline must be in the future')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(Asset(property.propertyAssetId.asUint64()).balance(Txn.sender) > 0, 'Only shareholders can propose')
+
+    const boxMbrCost = this.proposalMbr(description)
+    assert(mbrPayment.amount >= boxMbrCost, 'MBR payment amount is insufficient')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must be to the app')
+    assert(mbrPayment.sender === Txn.sender, 'MBR payment must be from the caller')
+
+    const proposalId = this.nextProposalId.value
+    this.nextProposalId.value = proposalId + 1
+
+    this.proposals(proposalId).value = new ProposalStruct({
+      propertyId: new arc4.Uint64(propertyId),
+      proposer: new arc4.Address(Txn.sender),
+      description: new arc4.Str(description),
+      deadlineRound: new arc4.Uint64(deadlineRound),
+      quorumShares: new arc4.Uint64((property.totalShares.asUint64() * QUORUM_BPS) / 10_000),
+      votesFor: new arc4.Uint64(0),
+      votesAgainst: new arc4.Uint64(0),
+      lockedShares: new arc4.Uint64(0),
+      status: new arc4.Uint8(PROPOSAL_OPEN),
+    })
+
+    return proposalId
+  }
+
+  /** MBR of a proposal's box, which grows with its description. */
+  private proposalMbr(description: string): uint64 {
+    // Box name: 'proposals' prefix (9) + uint64 key (8) = 17 bytes
+    // Box value head: Uint64 (8) + Address (32) + Str offset (2) + Uint64 x5 (40) + Uint8 (1) = 83 bytes
+    // Box value tail: Str length prefix (2) + description bytes
+    return 2500 + 400 * (17 + 85 + Bytes(description).length)
+  }
+
+  /**
+   * Vote on a proposal, weighted by the shares voted with. The shares are taken from the voter's
+   * holding and stay locked in the app until the deadline has passed, so the same shares can't be
+   * moved and voted again. Locked shares don't earn income until they're withdrawn.
+   *
+   * @param mbrPayment Covers the Minimum Balance Requirement for the vote box
+   */
+  public castVote(
+    mbrPayment: gtxn.PaymentTxn,
+    proposalId: uint64,
+    shares: uint64,
+    support: boolean,
+  ): void {
+    assert(shares > 0, 'Must vote with at least one share')
+    assert(this.proposals(proposalId).exists, 'Proposal not found')
+
+    const proposal = clone(this.proposals(proposalId).value)
+    assert(Global.round <= proposal.deadlineRound.asUint64(), 'Voting has closed')
+
+    assert(mbrPayment.amount >= VOTE_MBR, 'MBR payment amount is insufficient')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must be to the app')
+    assert(mbrPayment.sender === Txn.sender, 'MBR payment must be from the caller')
+
+    const key = new VoteKey({ proposalId: new arc4.Uint64(proposalId), voter: new arc4.Address(Txn.sender) })
+    assert(!this.votes(key).exists, 'Already voted')
+
+    const propertyId = proposal.propertyId.asUint64()
+    this.takeShares(propertyId, Txn.sender, shares)
+    this.settleIncome(propertyId, Txn.sender)
+
+    this.votes(key).value = new VoteStruct({
+      shares: new arc4.Uint64(shares),
+      support: new arc4.Bool(support),
+    })
+
+    const weight = shares
+    this.proposals(proposalId).value = new ProposalStruct({
+      ...proposal,
+      votesFor: new arc4.Uint64(support ? proposal.votesFor.asUint64() + weight : proposal.votesFor.asUint64()),
+      votesAgainst: new arc4.Uint64(
+        support ? proposal.votesAgainst.asUint64() : proposal.votesAgainst.asUint64() + weight,
+      ),
+      lockedShares: new arc4.Uint64(proposal.lockedShares.asUint64() + shares),
+    })
+  }
+
+  /**
+   * Record the outcome of a proposal once voting has closed. Anyone can finalize. With no votes
+   * left to withdraw the proposal is done with, so its box is deleted and the MBR goes back to the proposer.
+   */
+  public finalizeProposal(proposalId: uint64): uint64 {
+    assert(this.proposals(proposalId).exists, 'Proposal not found')
+
+    const proposal = clone(this.proposals(proposalId).value)
+    assert(Global.round > proposal.deadlineRound.asUint64(), 'Voting is still open')
+    assert(proposal.status.asUint64() === PROPOSAL_OPEN, 'Proposal already finalized')
+
+    const votesFor = proposal.votesFor.asUint64()
+    const votesCast: uint64 = votesFor + proposal.votesAgainst.asUint64()
+    const passed = votesCast >= proposal.quorumShares.asUint64() && votesFor * 10_000 > votesCast * APPROVAL_BPS
+    const status = passed ? PROPOSAL_PASSED : PROPOSAL_REJECTED
+
+    if (proposal.lockedShares.asUint64() === 0) {
+      this.closeProposal(proposalId)
+    } else {
+      this.proposals(proposalId).value = new ProposalStruct({
+        ...proposal,
+        status: new arc4.Uint8(status),
+      })
+    }
+
+    return status
+  }
+
+  /**
+   * Unlock the caller's voting shares after the deadline and refund the vote box MBR. The last
+   * voter to withdraw from a finalized proposal also returns the proposal box MBR to the proposer.
+   */
+  public withdrawVote(proposalId: uint64): void {
+    assert(this.proposals(proposalId).exists, 'Proposal not found')
+
+    const proposal = clone(this.proposals(proposalId).value)
+    assert(Global.round > proposal.deadlineRound.asUint64(), 'Voting is still open')
+
+    const key = new VoteKey({ proposalId: new arc4.Uint64(proposalId), voter: new arc4.Address(Txn.sender) })
+    assert(this.votes(key).exists, 'No vote to withdraw')
+
+    const lockedShares = this.votes(key).value.shares.asUint64()
+    this.votes(key).delete()
+
+    const propertyId = proposal.propertyId.asUint64()
+    this.sendShares(propertyId, Txn.sender, lockedShares)
+    this.settleIncome(propertyId, Txn.sender)
+    itxn
+      .payment({
+        amount: VOTE_MBR,
+        receiver: Txn.sender,
+        fee: 0,
+      })
+      .submit()
+
+    const stillLocked: uint64 = proposal.lockedShares.asUint64() - lockedShares
+    if (stillLocked === 0 && proposal.status.asUint64() !== PROPOSAL_OPEN) {
+      this.closeProposal(proposalId)
+    } else {
+      this.proposals(proposalId).value = new ProposalStruct({
+        ...proposal,
+        lockedShares: new arc4.Uint64(stillLocked),
+      })
+    }
+  }
+
+  /** Delete a decided proposal with no votes left and refund its box MBR to the proposer. */
+  private closeProposal(proposalId: uint64): void {
+    const proposal = clone(this.proposals(proposalId).value)
+    this.proposals(proposalId).delete()
+    itxn
+      .payment({
+        amount: this.proposalMbr(proposal.description.native),
+        receiver: proposal.proposer.native,
+        fee: 0,
+      })
+      .submit()
+  }
+
+  @abimethod({ readonly: true })
+  public getProposal(proposalId: uint64): ProposalStruct {
+    assert(this.proposals(proposalId).exists, 'Proposal not found')
+    return this.proposals(proposalId).value
+  }
+
+  /**
+   * Offer to buy out every share of a property. The offer amount is escrowed in the app and
+   * holders vote on it with their shares until the deadline. A property has one active offer at
+   * a time, open or accepted, and only once its primary sale has sold out or been closed. A new
+   * offer can be made as soon as the previous one is rejected.
+   *
+   * @param mbrPayment Covers the Minimum Balance Requirement for the buyout box and the property's active offer box
+   * @param payment Escrows the total offer in the app
+   * @param deadlineRound Last round in which holders can vote
+   * @returns The ID of the new offer
+   */
+  public offerBuyout(
+    mbrPayment: gtxn.PaymentTxn,
+    payment: gtxn.PaymentTxn,
+    propertyId: uint64,
+    deadlineRound: uint64,
+  ): uint64 {
+    this.assertNotPaused()
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+    assert(!this.activeBuyouts(propertyId).exists, 'A buyout is already in progress')
+    assert(deadlineRound > Global.round, 'Deadline must be in the future')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    // Every share has to be with a holder who can vote and redeem it, and no raise can still be in escrow
+    assert(property.availableShares.asUint64() === 0, 'Primary sale still has shares')
+    assert(property.reservedShares.asUint64() === 0, 'Shares are reserved')
+    assert(property.escrowedFunds.asUint64() === 0, 'Raise proceeds are still in escrow')
+
+    assert(mbrPayment.amount >= BUYOUT_MBR + ACTIVE_BUYOUT_MBR, 'MBR payment amount is insufficient')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must be to the app')
+    assert(mbrPayment.sender === Txn.sender, 'MBR payment must be from the caller')
+
+    assertMatch(payment, {
+      amount: { greaterThan: 0 },
+      receiver: Global.currentApplicationAddress,
+      sender: Txn.sender,
+      closeRemainderTo: Global.zeroAddress,
+      rekeyTo: Global.zeroAddress,
+    }, 'Invalid payment transaction')
+
+    const buyoutId = this.nextBuyoutId.value
+    this.nextBuyoutId.value = buyoutId + 1
+
+    this.buyouts(buyoutId).value = new BuyoutStruct({
+      propertyId: new arc4.Uint64(propertyId),
+      bidder: new arc4.Address(Txn.sender),
+      amount: new arc4.Uint64(payment.amount),
+      deadlineRound: new arc4.Uint64(deadlineRound),
+      votesFor: new arc4.Uint64(0),
+      votesAgainst: new arc4.Uint64(0),
+      lockedShares: new arc4.Uint64(0),
+      redeemedShares: new arc4.Uint64(0),
+      status: new arc4.Uint8(BUYOUT_OPEN),
+    })
+    this.activeBuyouts(propertyId).value = buyoutId
+
+    return buyoutId
+  }
+
+  /**
+   * Vote on a buyout offer, weighted by the shares voted with. The shares are taken from the
+   * voter's holding and stay locked in the app: they are redeemed with the holder's other shares
+   * if the buyout is accepted, and can be withdrawn if it is rejected. Locked shares don't earn income.
+   *
+   * @param mbrPayment Covers the Minimum Balance Requirement for the vote box
+   */
+  public voteOnBuyout(
+    mbrPayment: gtxn.PaymentTxn,
+    buyoutId: uint64,
+    shares: uint64,
+    support: boolean,
+  ): void {
+    assert(shares > 0, 'Must vote with at least one share')
+    assert(this.buyouts(buyoutId).exists, 'No buyout offer')
+
+    const buyout = clone(this.buyouts(buyoutId).value)
+    const propertyId = buyout.propertyId.asUint64()
+    assert(buyout.status.asUint64() === BUYOUT_OPEN, 'Buyout already decided')
+    assert(Global.round <= buyout.deadlineRound.asUint64(), 'Voting has closed')
+
+    assert(mbrPayment.amount >= BUYOUT_VOTE_MBR, 'MBR payment amount is insufficient')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must be to the app')
+    assert(mbrPayment.sender === Txn.sender, 'MBR payment must be from the caller')
+
+    const key = this.buyoutVoteKey(buyoutId, Txn.sender)
+    assert(!this.buyoutVotes(key).exists, 'Already voted')
+
+    this.takeShares(propertyId, Txn.sender, shares)
+    this.settleIncome(propertyId, Txn.sender)
+
+    this.buyoutVotes(key).value = new VoteStruct({
+      shares: new arc4.Uint64(shares),
+      support: new arc4.Bool(support),
+    })
+
+    const weight = shares
+    this.buyouts(buyoutId).value = new BuyoutStruct({
+      ...buyout,
+      votesFor: new arc4.Uint64(support ? buyout.votesFor.asUint64() + weight : buyout.votesFor.asUint64()),
+      votesAgainst: new arc4.Uint64(support ? buyout.votesAgainst.asUint64() : buyout.votesAgainst.asUint64() + weight),
+      lockedShares: new arc4.Uint64(buyout.lockedShares.asUint64() + weight),
+    })
+  }
+
+  /**
+   * Decide a buyout. Anyone can finalize, as soon as more than half of all shares have voted for
+   * it or otherwise once voting has closed. An accepted buyout closes the primary sale for good;
+   * a rejected one pays the escrowed offer back to the bidder and frees the property for a new offer.
+   */
+  public finalizeBuyout(buyoutId: uint64): uint64 {
+    assert(this.buyouts(buyoutId).exists, 'No buyout offer')
+
+    const buyout = clone(this.buyouts(buyoutId).value)
+    const propertyId = buyout.propertyId.asUint64()
+    assert(buyout.status.asUint64() === BUYOUT_OPEN, 'Buyout already decided')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    const accepted = buyout.votesFor.asUint64() * 10_000 > property.totalShares.asUint64() * BUYOUT_APPROVAL_BPS
+    assert(accepted || Global.round > buyout.deadlineRound.asUint64(), 'Voting is still open')
+
+    if (accepted) {
+      this.listedProperties(propertyId).value = new PropertyStruct({
+        ...property,
+        primarySaleOpen: new arc4.Bool(false),
+      })
+      this.buyouts(buyoutId).value = new BuyoutStruct({
+        ...buyout,
+        status: new arc4.Uint8(BUYOUT_ACCEPTED),
+      })
+      return BUYOUT_ACCEPTED
+    }
+
+    // The property is free for a new offer. With no votes left to withdraw this offer is done
+    // with too, so its box MBR goes back as well.
+    this.activeBuyouts(propertyId).delete()
+    let refund: uint64 = buyout.amount.asUint64() + ACTIVE_BUYOUT_MBR
+    if (buyout.lockedShares.asUint64() === 0) {
+      this.buyouts(buyoutId).delete()
+      refund += BUYOUT_MBR
+    } else {
+      this.buyouts(buyoutId).value = new BuyoutStruct({
+        ...buyout,
+        status: new arc4.Uint8(BUYOUT_REJECTED),
+      })
+    }
+    itxn
+      .payment({
+        amount: refund,
+        receiver: buyout.bidder.native,
+        fee: 0,
+      })
+      .submit()
+    return BUYOUT_REJECTED
+  }
+
+  /**
+   * Unlock the caller's voting shares after a buyout was rejected and refund the vote box MBR.
+   * The last voter to withdraw also returns the buyout box MBR to the bidder.
+   */
+  public withdrawBuyoutVote(buyoutId: uint64): void {
+    assert(this.buyouts(buyoutId).exists, 'No buyout offer')
+
+    const buyout = clone(this.buyouts(buyoutId).value)
+    const propertyId = buyout.propertyId.asUint64()
+    assert(buyout.status.asUint64() === BUYOUT_REJECTED, 'Buyout was not rejected')
+
+    const key = this.buyoutVoteKey(buyoutId, Txn.sender)
+    assert(this.buyoutVotes(key).exists, 'No vote to withdraw')
+
+    const lockedShares = this.buyoutVotes(key).value.shares.asUint64()
+    this.buyoutVotes(key).delete()
+
+    this.sendShares(propertyId, Txn.sender, lockedShares)
+    this.settleIncome(propertyId, Txn.sender)
+    itxn
+      .payment({
+        amount: BUYOUT_VOTE_MBR,
+        receiver: Txn.sender,
+        fee: 0,
+      })
+      .submit()
+
+    const stillLocked: uint64 = buyout.lockedShares.asUint64() - lockedShares
+    if (stillLocked > 0) {
+      this.buyouts(buyoutId).value = new BuyoutStruct({
+        ...buyout,
+        lockedShares: new arc4.Uint64(stillLocked),
+      })
+    } else {
+      this.buyouts(buyoutId).delete()
+      itxn
+        .payment({
+          amount: BUYOUT_MBR,
+          receiver: buyout.bidder.native,
+          fee: 0,
+        })
+        .submit()
+    }
+  }
+
+  /**
+   * Hand shares in to an accepted buyout for their pro-rata share of the offer. Shares locked in
+   * the caller's vote are redeemed along with the shares taken from their holding, and the caller's
+   * unclaimed income and box MBR are paid out with it. Redeemed shares stay in the app.
+   * Once every share is redeemed the listing is closed, with its MBR going back to the owner and
+   * the buyout box MBRs to the bidder.
+   *
+   * @param shares Shares to take from the caller's holding (0 to redeem only the shares they voted with)
+   * @returns The amount paid for the shares
+   */
+  public redeemBuyout(buyoutId: uint64, shares: uint64): uint64 {
+    assert(this.buyouts(buyoutId).exists, 'No buyout offer')
+
+    const buyout = clone(this.buyouts(buyoutId).value)
+    const propertyId = buyout.propertyId.asUint64()
+    assert(buyout.status.asUint64() === BUYOUT_ACCEPTED, 'Buyout was not accepted')
+
+    let voted: uint64 = 0
+    let refund: uint64 = 0
+    const voteKey = this.buyoutVoteKey(buyoutId, Txn.sender)
+    if (this.buyoutVotes(voteKey).exists) {
+      voted = this.buyoutVotes(voteKey).value.shares.asUint64()
+      refund += BUYOUT_VOTE_MBR
+      this.buyoutVotes(voteKey).delete()
+    }
+    const redeeming: uint64 = shares + voted
+    assert(redeeming > 0, 'No shares to redeem')
+
+    if (shares > 0) {
+      this.takeShares(propertyId, Txn.sender, shares)
+    }
+    // Close out the caller's income claim, paying what they earned up to now
+    if (this.incomeClaims(this.holderKey(propertyId, Txn.sender)).exists) {
+      refund += this.closeIncomeClaim(propertyId, Txn.sender) + INCOME_CLAIM_MBR
+    }
+
+    // Work out the payout from the running total, so rounding never leaves anything behind
+    const property = clone(this.listedProperties(propertyId).value)
+    const totalShares = property.totalShares.asUint64()
+    const amount = buyout.amount.asUint64()
+    const redeemedBefore = buyout.redeemedShares.asUint64()
+    const redeemed: uint64 = redeemedBefore + redeeming
+    const payout: uint64 = (amount * redeemed) / totalShares - (amount * redeemedBefore) / totalShares
+
+    itxn
+      .payment({
+        amount: payout + refund,
+        receiver: Txn.sender,
+        fee: 0,
+      })
+      .submit()
+
+    if (redeemed === totalShares) {
+      this.closeListing(propertyId, property.ownerAddress.native)
+      this.buyouts(buyoutId).delete()
+      this.activeBuyouts(propertyId).delete()
+      itxn
+        .payment({
+          amount: BUYOUT_MBR + ACTIVE_BUYOUT_MBR,
+          receiver: buyout.bidder.native,
+          fee: 0,
+        })
+        .submit()
+    } else {
+      this.buyouts(buyoutId).value = new BuyoutStruct({
+        ...buyout,
+        redeemedShares: new arc4.Uint64(redeemed),
+      })
+    }
+
+    return payout
+  }
+
+  @abimethod({ readonly: true })
+  public getBuyout(buyoutId: uint64): BuyoutStruct {
+    assert(this.buyouts(buyoutId).exists, 'No buyout offer')
+    return this.buyouts(buyoutId).value
+  }
+
+  /** The ID of a property's open or accepted buyout offer, or 0 if it has none. */
+  @abimethod({ readonly: true })
+  public getActiveBuyout(propertyId: uint64): uint64 {
+    return this.activeBuyouts(propertyId).exists ? this.activeBuyouts(propertyId).value : 0
+  }
+
+  /**
+   * Reserve primary shares of an ALGO-priced listing for buyers whose funds take a while to settle.
+   * The shares are held back from sale at today's price for the listing's reservation period, on a
+   * deposit of at least the listing's deposit rate; completeReservation pays the rest and hands them over.
+   *
+   * @param mbrPayment Covers the Minimum Balance Requirement for the reservation box
+   * @param deposit Pays the deposit to the app, up to the full price
+   * @returns The last round the reservation can be completed in
+   */
+  public reserveShares(
+    mbrPayment: gtxn.PaymentTxn,
+    propertyId: uint64,
+    shares: uint64,
+    deposit: gtxn.PaymentTxn,
+  ): uint64 {
+    this.assertNotPaused()
+    assert(shares > 0, 'Must reserve at least one share')
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(property.paymentAssetId.asUint64() === 0, 'Property is priced in an ASA')
+
+    const cost = this.purchaseCost(propertyId, property, shares)
+    assertMatch(deposit, {
+      amount: { greaterThanEq: this.reservationDeposit(property, cost) },
+      receiver: Global.currentApplicationAddress,
+      sender: Txn.sender,
+      closeRemainderTo: Global.zeroAddress,
+      rekeyTo: Global.zeroAddress,
+    }, 'Invalid deposit transaction')
+
+    return this.reserve(mbrPayment, propertyId, property, shares, cost, deposit.amount)
+  }
+
+  /**
+   * Reserve primary shares of a listing priced in an ASA, paying the deposit in that asset.
+   *
+   * @param mbrPayment Covers the Minimum Balance Requirement for the reservation box
+   * @param deposit Transfers the deposit in the listing's payment asset to the app, up to the full price
+   * @returns The last round the reservation can be completed in
+   */
+  public reserveSharesWithAsset(
+    mbrPayment: gtxn.PaymentTxn,
+    propertyId: uint64,
+    shares: uint64,
+    deposit: gtxn.AssetTransferTxn,
+  ): uint64 {
+    this.assertNotPaused()
+    assert(shares > 0, 'Must reserve at least one share')
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(property.paymentAssetId.asUint64() !== 0, 'Property is priced in ALGO')
+
+    const cost = this.purchaseCost(propertyId, property, shares)
+    assertMatch(deposit, {
+      xferAsset: Asset(property.paymentAssetId.asUint64()),
+      assetAmount: { greaterThanEq: this.reservationDeposit(property, cost) },
+      assetReceiver: Global.currentApplicationAddress,
+      sender: Txn.sender,
+      assetCloseTo: Global.zeroAddress,
+      rekeyTo: Global.zeroAddress,
+    }, 'Invalid deposit transaction')
+
+    return this.reserve(mbrPayment, propertyId, property, shares, cost, deposit.assetAmount)
+  }
+
+  private reservationDeposit(property: PropertyStruct, cost: uint64): uint64 {
+    return (cost * property.reservationDepositBps.asUint64()) / 10_000
+  }
+
+  /** Moves the shares from available to reserved and records what the caller owes for them. */
+  private reserve(
+    mbrPayment: gtxn.PaymentTxn,
+    propertyId: uint64,
+    property: PropertyStruct,
+    shares: uint64,
+    cost: uint64,
+    deposit: uint64,
+  ): uint64 {
+    const reservationRounds = property.reservationRounds.asUint64()
+    assert(reservationRounds > 0, 'Listing does not take reservations')
+    this.assertCanBuy(property, shares)
+    assert(deposit <= cost, 'Deposit is more than the price')
+
+    const key = this.holderKey(propertyId, Txn.sender)
+    assert(!this.reservations(key).exists, 'Already holding a reservation')
+    assert(mbrPayment.amount >= RESERVATION_MBR, 'MBR payment amount is insufficient')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must be to the app')
+    assert(mbrPayment.sender === Txn.sender, 'MBR payment must be from the caller')
+
+    const expiresRound: uint64 = Global.round + reservationRounds
+    this.reservations(key).value = new ReservationStruct({
+      shares: new arc4.Uint64(shares),
+      cost: new arc4.Uint64(cost),
+      deposit: new arc4.Uint64(deposit),
+      expiresRound: new arc4.Uint64(expiresRound),
+    })
+    this.listedProperties(propertyId).value = new PropertyStruct({
+      ...property,
+      availableShares: new arc4.Uint64(property.availableShares.asUint64() - shares),
+      reservedShares: new arc4.Uint64(property.reservedShares.asUint64() + shares),
+    })
+
+    return expiresRound
+  }
+
+  /**
+   * Pay the rest of an ALGO-priced reservation and receive the shares. The reservation box MBR is refunded.
+   *
+   * @param payment Pays the reserved price less the deposit to the app
+   * @returns The number of shares bought
+   */
+  public completeReservation(propertyId: uint64, payment: gtxn.PaymentTxn): uint64 {
+    this.assertNotPaused()
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(property.paymentAssetId.asUint64() === 0, 'Property is priced in an ASA')
+    const key = this.holderKey(propertyId, Txn.sender)
+    assert(this.reservations(key).exists, 'No reservation')
+
+    const reservation = clone(this.reservations(key).value)
+    assertMatch(payment, {
+      amount: reservation.cost.asUint64() - reservation.deposit.asUint64(),
+      receiver: Global.currentApplicationAddress,
+      sender: Txn.sender,
+      closeRemainderTo: Global.zeroAddress,
+      rekeyTo: Global.zeroAddress,
+    }, 'Invalid payment transaction')
+
+    return this.fillReservation(propertyId, property, key)
+  }
+
+  /**
+   * Pay the rest of a reservation in the listing's payment asset and receive the shares.
+   *
+   * @param payment Transfers the reserved price less the deposit in the listing's payment asset to the app
+   * @returns The number of shares bought
+   */
+  public completeReservationWithAsset(propertyId: uint64, payment: gtxn.AssetTransferTxn): uint64 {
+    this.assertNotPaused()
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(property.paymentAssetId.asUint64() !== 0, 'Property is priced in ALGO')
+    const key = this.holderKey(propertyId, Txn.sender)
+    assert(this.reservations(key).exists, 'No reservation')
+
+    const reservation = clone(this.reservations(key).value)
+    assertMatch(payment, {
+      xferAsset: Asset(property.paymentAssetId.asUint64()),
+      assetAmount: reservation.cost.asUint64() - reservation.deposit.asUint64(),
+      assetReceiver: Global.currentApplicationAddress,
+      sender: Txn.sender,
+      assetCloseTo: Global.zeroAddress,
+      rekeyTo: Global.zeroAddress,
+    }, 'Invalid payment transaction')
+
+    return this.fillReservation(propertyId, property, key)
+  }
+
+  /**
+   * Sells the caller their reserved shares at the reserved price. The sale checks were made when
+   * the shares were reserved, so only the holder's approval and share cap are checked again.
+   */
+  private fillReservation(propertyId: uint64, property: PropertyStruct, key: HolderKey): uint64 {
+    const reservation = clone(this.reservations(key).value)
+    assert(Global.round <= reservation.expiresRound.asUint64(), 'Reservation has expired')
+    const shares = reservation.shares.asUint64()
+    this.assertApproved(Txn.sender)
+    this.assertWithinCap(property, shares)
+
+    this.reservations(key).delete()
+    // Hand the reserved shares to the usual sale path as if they were still available
+    this.deliverShares(
+      propertyId,
+      new PropertyStruct({
+        ...property,
+        availableShares: new arc4.Uint64(property.availableShares.asUint64() + shares),
+        reservedShares: new arc4.Uint64(property.reservedShares.asUint64() - shares),
+      }),
+      shares,
+      reservation.cost.asUint64(),
+      Global.zeroAddress,
+    )
+    itxn
+      .payment({
+        amount: RESERVATION_MBR,
+        receiver: Txn.sender,
+        fee: 0,
+      })
+      .submit()
+
+    return shares
+  }
+
+  /**
+   * Release a reservation that ran out without being completed. Anyone can call this once it has
+   * expired. The shares go back on sale, the deposit goes to the owner if the listing forfeits
+   * deposits or back to the holder otherwise, and the holder gets the reservation box MBR back.
+   */
+  public expireReservation(propertyId: uint64, holder: Account): void {
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+    const key = this.holderKey(propertyId, holder)
+    assert(this.reservations(key).exists, 'No reservation')
+
+    const reservation = clone(this.reservations(key).value)
+    assert(Global.round > reservation.expiresRound.asUint64(), 'Reservation has not expired')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    const shares = reservation.shares.asUint64()
+    this.reservations(key).delete()
+    this.listedProperties(propertyId).value = new PropertyStruct({
+      ...property,
+      availableShares: new arc4.Uint64(property.availableShares.asUint64() + shares),
+      reservedShares: new arc4.Uint64(property.reservedShares.asUint64() - shares),
+    })
+
+    const deposit = reservation.deposit.asUint64()
+    if (deposit > 0) {
+      this.payOut(property, property.forfeitDeposit.native ? property.ownerAddress.native : holder, deposit)
+    }
+    itxn
+      .payment({
+        amount: RESERVATION_MBR,
+        receiver: holder,
+        fee: 0,
+      })
+      .submit()
+  }
+
+  @abimethod({ readonly: true })
+  public getReservation(propertyId: uint64, holder: Account): ReservationStruct {
+    const key = this.holderKey(propertyId, holder)
+    assert(this.reservations(key).exists, 'No reservation')
+    return this.reservations(key).value
+  }
+
+  /**
+   * Sign up as a referral partner for listings priced in one currency, so purchases can name the
+   * caller as their referrer. The partner pays the MBR for the box their earnings are tracked in,
+   * and must be opted in to an ASA currency to be paid in it.
+   *
+   * @param paymentAssetId ASA the listings are priced in, or 0 for ALGO
+   */
+  public registerReferrer(mbrPayment: gtxn.PaymentTxn, paymentAssetId: uint64): void {
+    const key = this.referralKey(Txn.sender, paymentAssetId)
+    assert(!this.referralEarnings(key).exists, 'Already registered')
+    assert(paymentAssetId === 0 || Txn.sender.isOptedIn(Asset(paymentAssetId)), 'Opt in to the payment asset first')
+    assert(mbrPayment.amount >= REFERRAL_MBR, 'MBR payment amount is insufficient')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must be to the app')
+    assert(mbrPayment.sender === Txn.sender, 'MBR payment must be from the caller')
+
+    this.referralEarnings(key).value = 0
+  }
+
+  /** Total referral commissions a partner has been paid in one currency, or 0 if they haven't registered for it. */
+  @abimethod({ readonly: true })
+  public getReferralEarnings(referrer: Account, paymentAssetId: uint64): uint64 {
+    const key = this.referralKey(referrer, paymentAssetId)
+    if (!this.referralEarnings(key).exists) {
+      return 0
+    }
+    return this.referralEarnings(key).value
+  }
+
+  private referralKey(referrer: Account, paymentAssetId: uint64): ReferralKey {
+    return new ReferralKey({ referrer: new arc4.Address(referrer), paymentAssetId: new arc4.Uint64(paymentAssetId) })
+  }
+
+  /**
+   * Appoint the account that posts valuations of a listing, or replace it. Pass the zero address
+   * to stop valuations being posted. The first appointment pays the MBR for the appraiser box and
+   * the valuation history box, which comes back to the owner when the listing closes.
+   *
+   * @param mbrPayment Covers the MBR for the appraisal boxes on the first appointment; any excess is refunded
+   */
+  public setAppraiser(mbrPayment: gtxn.PaymentTxn, propertyId: uint64, appraiser: Account): void {
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+
+    const property = clone(this.listedProperties(propertyId).value)
+    assert(Txn.sender === property.ownerAddress.native, 'Only the owner can appoint an appraiser')
+    assert(appraiser !== Txn.sender, 'The owner cannot appraise their own listing')
+
+    const firstAppointment = !this.appraisers(propertyId).exists
+    const mbrCost: uint64 = firstAppointment ? APPRAISER_MBR + VALUATION_HISTORY_MBR : 0
+    assert(mbrPayment.amount >= mbrCost, 'MBR payment amount is insufficient')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must be to the app')
+    assert(mbrPayment.sender === Txn.sender, 'MBR payment must be from the caller')
+    this.refundExcess(mbrPayment, mbrCost)
+
+    this.appraisers(propertyId).value = appraiser
+    if (firstAppointment) {
+      this.valuations(propertyId).value = new arc4.DynamicArray<ValuationStruct>()
+    }
+  }
+
+  /**
+   * Post a valuation of the whole property. Only the listing's appraiser can post, and valuations
+   * must be posted in date order. Once the history is full the oldest valuation is dropped.
+   *
+   * @param totalValue Value of the whole property in base units of the listing's payment currency
+   * @param timestamp When the valuation was made, in unix seconds
+   * @param documentHash SHA-256 of the appraisal report
+   */
+  public postValuation(propertyId: uint64, totalValue: uint64, timestamp: uint64, documentHash: bytes<32>): void {
+    assert(this.listedProperties(propertyId).exists, 'Property not listed')
+    assert(
+      this.appraisers(propertyId).exists && Txn.sender === this.appraisers(propertyId).value,
+      'Only the appraiser can post valuations',
+    )
+    assert(totalValue > 0, 'Valuation must be greater than zero')
+    assert(timestamp <= Global.latestTimestamp, 'Valuation cannot be dated in the future')
+
+    const history = clone(this.valuations(propertyId).value)
+    const count: uint64 = history.length
+    assert(count === 0 || timestamp >= history[count - 1].timestamp.asUint64(), 'Valuation is older than the latest')
+
+    const retained = new arc4.DynamicArray<ValuationStruct>()
+    let index: uint64 = 0
+    for (const valuation of clone(history)) {
+      if (count < MAX_VALUATIONS || index > 0) {
+        retained.push(clone(valuation))
+      }
+      index += 1
+    }
+    retained.push(
+      new ValuationStruct({
+        totalValue: new arc4.Uint64(totalValue),
+        timestamp: new arc4.Uint64(timestamp),
+        documentHash: new arc4.StaticBytes<32>(documentHash),
+      }),
+    )
+    this.valuations(propertyId).value = clone(retained)
+  }
+
+  /** Account that posts a listing's valuations, or the zero address if there is none. */
+  @abimethod({ readonly: true })
+  public getAppraiser(propertyId: uint64): Account {
+    return this.appraisers(propertyId).exists ? this.appraisers(propertyId).value : Global.zeroAddress
+  }
+
+  /** A listing's most recent valuation. NAV per share is its totalValue over the listing's totalShares. */
+  @abimethod({ readonly: true })
+  public getLatestValuation(propertyId: uint64): ValuationStruct {
+    assert(this.valuations(propertyId).exists && this.valuations(propertyId).value.length > 0, 'No valuations')
+    const history = clone(this.valuations(propertyId).value)
+    return clone(history[history.length - 1])
+  }
+
+  /** Up to the last 12 valuations of a listing, oldest first. */
+  @abimethod({ readonly: true })
+  public getValuationHistory(propertyId: uint64): arc4.DynamicArray<ValuationStruct> {
+    return this.valuations(propertyId).exists
+      ? this.valuations(propertyId).value
+      : new arc4.DynamicArray<ValuationStruct>()
   }
 }
@@ -1,9 +1,14 @@
 import { Config, algo, AlgorandClient, microAlgo } from '@algorandfoundation/algokit-utils'
 import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
 import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
-import { ABIUintType, Address } from 'algosdk'
+import { ABIUintType, Address, ALGORAND_ZERO_ADDRESS_STRING } from 'algosdk'
 import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
-import { FractionalRealEstateFactory } from '../artifacts/FractionalRealEstate/FractionalRealEstateClient'
+import {
+  FractionalRealEstateFactory,
+  PropertyStructFromTuple,
+  ValuationStructFromTuple,
+} from '../artifacts/FractionalRealEstate/FractionalRealEstateClient'
+import { decodeEvent, decodeEvents } from './events'
 
 // Helper to wait for asset opt-in
 // Algorand accounts (including smart contracts) must explicitly opt in to an ASA (Algorand Standard Asset)
@@ -15,6 +20,14 @@ async function ensureOptedInToAsset(algorand: AlgorandClient, account: Address,
   }
 }
 
+// Helper to move LocalNet past a given round
+// LocalNet produces a block per transaction, so send empty payments until the round has passed.
+async function advancePastRound(algorand: AlgorandClient, account: Address, round: bigint) {
+  while ((await algorand.client.algod.status().do()).lastRound <= round) {
+    await algorand.send.payment({ sender: account, receiver: account, amount: microAlgo(0) })
+  }
+}
+
 describe('FractionalRealEstate contract', () => {
   const localnet = algorandFixture()
   beforeAll(() => {
@@ -55,8 +68,26 @@ describe('FractionalRealEstate contract', () => {
     }
   }
 
+  function createHolderBoxReference(appId: bigint, prefix: string, propertyId: bigint, holder: Address) {
+    // Per-holder boxes are keyed by (uint64 propertyId, address holder), encoded back to back
+    const uint64Type = new ABIUintType(64)
+    const boxName = new Uint8Array([
+      ...new TextEncoder().encode(prefix),
+      ...uint64Type.encode(propertyId),
+      ...holder.publicKey,
+    ])
+
+    return {
+      appId,
+      name: boxName,
+    }
+  }
+
   /**
    * Helper to create a property listing with the required MBR payment.
+   * Pass a funding goal and deadline round for an all-or-nothing raise, and a payment asset
+   * to price the shares in an ASA instead of ALGO. Share ASA metadata, purchase limits, lockup,
+   * sale window, Dutch auction floor, price tiers, reservations and referral commission default to none.
    * Returns the property asset ID.
    */
   async function createListing(
@@ -66,11 +97,26 @@ describe('FractionalRealEstate contract', () => {
     propertyAddress: string,
     shares: bigint,
     pricePerShare: bigint,
+    fundingGoal = 0n,
+    fundingDeadline = 0n,
+    paymentAssetId = 0n,
+    metadata: { unitName: string; url: string; hash: Uint8Array; reserve: string } = {
+      unitName: 'PROP',
+      url: '',
+      hash: new Uint8Array(32),
+      reserve: ALGORAND_ZERO_ADDRESS_STRING,
+    },
+    limits: { maxSharesPerAccount?: bigint; minPurchase?: bigint; lockupRounds?: bigint } = {},
+    sale: { start?: bigint; end?: bigint; floor?: bigint; tiers?: [bigint, bigint, bigint][] } = {},
+    reservations: { rounds?: bigint; depositBps?: bigint; forfeitDeposit?: boolean } = {},
+    referralBps = 0n,
   ) {
-    // Create MBR payment to fund box storage costs
+    // Create MBR payment to fund box storage costs (the listing and the lister's index entry) and the
+    // share asset, plus the app's opt-in to the payment asset and the price tiers box. The contract refunds the excess.
+    const tiers = sale.tiers ?? []
     const mbrPayment = await algorand.createTransaction.payment({
       sender,
-      amount: microAlgo(100_000),
+      amount: microAlgo((paymentAssetId > 0n ? 450_000 : 350_000) + (tiers.length > 0 ? 50_000 : 0)),
       receiver: client.appAddress,
     })
 
@@ -80,9 +126,28 @@ describe('FractionalRealEstate contract', () => {
         propertyAddress,
         shares,
         pricePerShare,
+        fundingGoal,
+        fundingDeadline,
+        paymentAssetId,
+        unitName: metadata.unitName,
+        metadataUrl: metadata.url,
+        metadataHash: metadata.hash,
+        metadataReserve: metadata.reserve,
+        maxSharesPerAccount: limits.maxSharesPerAccount ?? 0n,
+        minPurchase: limits.minPurchase ?? 0n,
+        lockupRounds: limits.lockupRounds ?? 0n,
+        saleWindow: { start: sale.start ?? 0n, end: sale.end ?? 0n, floorPrice: sale.floor ?? 0n },
+        priceTiers: tiers,
+        reservationPolicy: {
+          rounds: reservations.rounds ?? 0n,
+          depositBps: reservations.depositBps ?? 0n,
+          forfeitDeposit: reservations.forfeitDeposit ?? false,
+        },
+        referralBps,
       },
-      boxReferences: ['properties'],
-      extraFee: microAlgo(1000),
+      boxReferences: tiers.length > 0 ? ['properties', 'tiers'] : ['properties'],
+      // Asset creation and the MBR refund, plus the opt-in when priced in an ASA
+      extraFee: microAlgo(paymentAssetId > 0n ? 3000 : 2000),
     })
 
     const propertyId = createResult.return
@@ -92,6 +157,331 @@ describe('FractionalRealEstate contract', () => {
     return propertyId
   }
 
+  /**
+   * Helper to clear an account to hold a property's shares. The deployer, who is the compliance
+   * officer, adds it to the KYC allowlist, then the account opts in. Holdings stay frozen, since
+   * shares only move through the app.
+   */
+  async function ensureCleared(
+    client: Awaited<ReturnType<typeof deploy>>['client'],
+    algorand: AlgorandClient,
+    account: Address,
+    propertyId: bigint,
+  ) {
+    if (!(await client.isApproved({ args: { account: account.toString() } }))) {
+      const compliance = await client.state.global.compliance()
+      if (!compliance) {
+        throw new Error('Compliance officer not set')
+      }
+      await client.send.approveAccount({
+        sender: compliance,
+        args: {
+          mbrPayment: await algorand.createTransaction.payment({
+            sender: compliance,
+            amount: microAlgo(19_700),
+            receiver: client.appAddress,
+          }),
+          account: account.toString(),
+        },
+      })
+    }
+
+    await ensureOptedInToAsset(algorand, account, propertyId)
+  }
+
+  /**
+   * Helper to buy shares from the lister, clearing the buyer to hold the property asset first.
+   * Pass a referrer to pay them the listing's referral commission.
+   */
+  async function purchaseShares(
+    client: Awaited<ReturnType<typeof deploy>>['client'],
+    algorand: AlgorandClient,
+    buyer: Address,
+    propertyId: bigint,
+    shares: bigint,
+    pricePerShare: bigint,
+    referrer?: Address,
+  ) {
+    await ensureCleared(client, algorand, buyer, propertyId)
+    const payment = await algorand.createTransaction.payment({
+      sender: buyer,
+      amount: microAlgo(shares * pricePerShare),
+      receiver: client.appAddress,
+    })
+
+    await client
+      .newGroup()
+      .purchaseFromLister({
+        sender: buyer,
+        args: { propertyId, shares, payment, referrer: referrer?.toString() ?? ALGORAND_ZERO_ADDRESS_STRING },
+        boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
+        accountReferences: referrer ? [buyer, referrer] : [buyer],
+        assetReferences: [propertyId],
+        // Share transfer + owner payment, plus the treasury's cut when a platform fee is set
+        // and the referrer's commission
+        extraFee: microAlgo(referrer ? 4000 : 3000),
+      })
+      .send()
+  }
+
+  /**
+   * Helper to reserve shares, clearing the buyer to hold the property asset first.
+   * Returns the last round the reservation can be completed in.
+   */
+  async function reserveShares(
+    client: Awaited<ReturnType<typeof deploy>>['client'],
+    algorand: AlgorandClient,
+    buyer: Address,
+    propertyId: bigint,
+    shares: bigint,
+    deposit: bigint,
+  ) {
+    await ensureCleared(client, algorand, buyer, propertyId)
+    const result = await client.send.reserveShares({
+      sender: buyer,
+      args: {
+        mbrPayment: await algorand.createTransaction.payment({
+          sender: buyer,
+          amount: microAlgo(36_100),
+          receiver: client.appAddress,
+        }),
+        propertyId,
+        shares,
+        deposit: await algorand.createTransaction.payment({
+          sender: buyer,
+          amount: microAlgo(deposit),
+          receiver: client.appAddress,
+        }),
+      },
+      boxReferences: [
+        createBoxReference(client.appId, 'properties', propertyId),
+        createHolderBoxReference(client.appId, 'reservations', propertyId, buyer),
+      ],
+    })
+
+    const expiresRound = result.return
+    if (expiresRound === undefined) {
+      throw new Error('Failed to reserve shares')
+    }
+    return expiresRound
+  }
+
+  /**
+   * Helper to post a sell order, which escrows the seller's shares in the app.
+   * Returns the order ID.
+   */
+  async function createSellOrder(
+    client: Awaited<ReturnType<typeof deploy>>['client'],
+    algorand: AlgorandClient,
+    seller: Address,
+    propertyId: bigint,
+    shares: bigint,
+    pricePerShare: bigint,
+  ) {
+    const orderId = await client.state.global.nextOrderId()
+    if (orderId === undefined) {
+      throw new Error('Order counter not initialised')
+    }
+
+    const mbrPayment = await algorand.createTransaction.payment({
+      sender: seller,
+      amount: microAlgo(30_500),
+      receiver: client.appAddress,
+    })
+
+    const result = await client.send.createSellOrder({
+      sender: seller,
+      args: { mbrPayment, propertyId, shares, pricePerShare },
+      boxReferences: [
+        createBoxReference(client.appId, 'properties', propertyId),
+        createBoxReference(client.appId, 'orders', orderId),
+      ],
+      assetReferences: [propertyId],
+      // The share transfer into escrow
+      extraFee: microAlgo(1000),
+    })
+
+    if (result.return === undefined) {
+      throw new Error('Failed to create sell order')
+    }
+    return result.return
+  }
+
+  /**
+   * Helper to vote on a proposal, locking the voter's shares in the app.
+   */
+  async function castVote(
+    client: Awaited<ReturnType<typeof deploy>>['client'],
+    algorand: AlgorandClient,
+    voter: Address,
+    propertyId: bigint,
+    proposalId: bigint,
+    shares: bigint,
+    support: boolean,
+  ) {
+    const mbrPayment = await algorand.createTransaction.payment({
+      sender: voter,
+      amount: microAlgo(24_100),
+      receiver: client.appAddress,
+    })
+
+    await client.send.castVote({
+      sender: voter,
+      args: { mbrPayment, proposalId, shares, support },
+      boxReferences: [
+        createBoxReference(client.appId, 'proposals', proposalId),
+        createBoxReference(client.appId, 'properties', propertyId),
+        createHolderBoxReference(client.appId, 'votes', proposalId, voter),
+        createHolderBoxReference(client.appId, 'claims', propertyId, voter),
+      ],
+      assetReferences: [propertyId],
+      // The share transfer into the app
+      extraFee: microAlgo(1000),
+    })
+  }
+
+  /**
+   * Helper to open a proposal that closes a few rounds from now. Returns the proposal ID.
+   */
+  async function createProposal(
+    client: Awaited<ReturnType<typeof deploy>>['client'],
+    algorand: AlgorandClient,
+    proposer: Address,
+    propertyId: bigint,
+    description: string,
+  ) {
+    const proposalId = await client.state.global.nextProposalId()
+    if (proposalId === undefined) {
+      throw new Error('Proposal counter not initialised')
+    }
+    const { lastRound } = await algorand.client.algod.status().do()
+
+    const result = await client.send.createProposal({
+      sender: proposer,
+      args: {
+        mbrPayment: await algorand.createTransaction.payment({
+          sender: proposer,
+          amount: microAlgo(2500 + 400 * (17 + 85 + new TextEncoder().encode(description).length)),
+          receiver: client.appAddress,
+        }),
+        propertyId,
+        description,
+        deadlineRound: lastRound + 5n,
+      },
+      boxReferences: [
+        createBoxReference(client.appId, 'properties', propertyId),
+        createBoxReference(client.appId, 'proposals', proposalId),
+      ],
+    })
+
+    if (result.return === undefined) {
+      throw new Error('Failed to create proposal')
+    }
+    return result.return
+  }
+
+  /**
+   * Helper to offer to buy out a property, with voting open for a few rounds from now.
+   * Returns the offer ID.
+   */
+  async function offerBuyout(
+    client: Awaited<ReturnType<typeof deploy>>['client'],
+    algorand: AlgorandClient,
+    bidder: Address,
+    propertyId: bigint,
+    amount: bigint,
+  ) {
+    const { lastRound } = await algorand.client.algod.status().do()
+    const buyoutId = (await client.state.global.nextBuyoutId()) ?? 1n
+
+    const result = await client.send.offerBuyout({
+      sender: bidder,
+      args: {
+        // The buyout box and the property's active offer box
+        mbrPayment: await algorand.createTransaction.payment({
+          sender: bidder,
+          amount: microAlgo(44_100 + 14_100),
+          receiver: client.appAddress,
+        }),
+        payment: await algorand.createTransaction.payment({
+          sender: bidder,
+          amount: microAlgo(amount),
+          receiver: client.appAddress,
+        }),
+        propertyId,
+        deadlineRound: lastRound + 5n,
+      },
+      boxReferences: [
+        createBoxReference(client.appId, 'properties', propertyId),
+        createBoxReference(client.appId, 'buyouts', buyoutId),
+        createBoxReference(client.appId, 'activeBuyouts', propertyId),
+      ],
+    })
+
+    if (result.return === undefined) {
+      throw new Error('Failed to offer buyout')
+    }
+    return result.return
+  }
+
+  /**
+   * Helper to vote on a buyout offer, locking the voter's shares in the app.
+   */
+  async function voteOnBuyout(
+    client: Awaited<ReturnType<typeof deploy>>['client'],
+    algorand: AlgorandClient,
+    voter: Address,
+    propertyId: bigint,
+    buyoutId: bigint,
+    shares: bigint,
+    support: boolean,
+  ) {
+    await client.send.voteOnBuyout({
+      sender: voter,
+      args: {
+        mbrPayment: await algorand.createTransaction.payment({
+          sender: voter,
+          amount: microAlgo(26_500),
+          receiver: client.appAddress,
+        }),
+        buyoutId,
+        shares,
+        support,
+      },
+      boxReferences: [
+        createBoxReference(client.appId, 'buyouts', buyoutId),
+        createBoxReference(client.appId, 'properties', propertyId),
+        createHolderBoxReference(client.appId, 'buyoutVotes', buyoutId, voter),
+        createHolderBoxReference(client.appId, 'claims', propertyId, voter),
+      ],
+      assetReferences: [propertyId],
+      // The share transfer into the app
+      extraFee: microAlgo(1000),
+    })
+  }
+
+  /**
+   * Helper to redeem shares into an accepted buyout. Returns the amount paid for them.
+   */
+  async function redeemBuyout(
+    client: Awaited<ReturnType<typeof deploy>>['client'],
+    algorand: AlgorandClient,
+    holder: Address,
+    propertyId: bigint,
+    buyoutId: bigint,
+    shares: bigint,
+  ) {
+    const result = await client.send.redeemBuyout({
+      sender: holder,
+      args: { buyoutId, shares },
+      assetReferences: [propertyId],
+      // The share transfer and payout, plus the owner's and bidder's MBR refunds and destroying
+      // the share asset when the last shares close the listing
+      extraFee: microAlgo(5000),
+    })
+    return result.return
+  }
+
   test('can list a property and purchase shares', async () => {
     // --- SETUP ---
     // testAccount will act as the property lister/owner
@@ -110,8 +500,8 @@ describe('FractionalRealEstate contract', () => {
     const propertyId = await createListing(client, localnet.algorand, lister, propertyAddress, totalShares, pricePerShare)
 
     // --- PURCHASING SHARES ---
-    // The buyer must opt in to the asset before they can receive shares
-    await ensureOptedInToAsset(localnet.algorand, buyer, propertyId)
+    // The buyer must be KYC approved and opted in to the asset before they can receive shares
+    await ensureCleared(client, localnet.algorand, buyer, propertyId)
     // The buyer sends a payment and calls the contract to purchase shares in a single atomic group
     const sharesToBuy = 10n
     const paymentAmount = sharesToBuy * pricePerShare
@@ -131,6 +521,7 @@ describe('FractionalRealEstate contract', () => {
         propertyId,
         shares: sharesToBuy,
         payment: paymentTransaction,
+        referrer: ALGORAND_ZERO_ADDRESS_STRING,
       },
       boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
       accountReferences: [buyer, lister], // Buyer and lister may be referenced in contract logic
@@ -190,7 +581,7 @@ describe('FractionalRealEstate contract', () => {
 
     const propertyId = await createListing(client, localnet.algorand, testAccount, '789 Elm St', 100n, 1_000_000n)
 
-    await ensureOptedInToAsset(localnet.algorand, buyer, propertyId)
+    await ensureCleared(client, localnet.algorand, buyer, propertyId)
 
     // Try to purchase 0 shares with a 0 payment
     const paymentTransaction = await localnet.algorand.createTransaction.payment({
@@ -204,7 +595,7 @@ describe('FractionalRealEstate contract', () => {
         .newGroup()
         .purchaseFromLister({
           sender: buyer,
-          args: { propertyId, shares: 0n, payment: paymentTransaction },
+          args: { propertyId, shares: 0n, payment: paymentTransaction, referrer: ALGORAND_ZERO_ADDRESS_STRING },
           boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
           accountReferences: [buyer, testAccount],
           assetReferences: [propertyId],
@@ -224,12 +615,38 @@ describe('FractionalRealEstate contract', () => {
     await client.send.delistProperty({
       args: { propertyId },
       boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
+      assetReferences: [propertyId],
+      // The MBR refund, plus destroying the share asset
+      extraFee: microAlgo(2000),
     })
 
     // Verify the property no longer exists
     await expect(client.getPropertyInfo({ args: { propertyId } })).rejects.toThrow()
   })
 
+  test('listing refunds MBR overpayment and delisting pays the MBR back', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const appBalance = async () => (await localnet.algorand.account.getInformation(client.appAddress)).balance.microAlgo
+
+    // The app only keeps the listing box, the lister's index box, the first listing page box and the share asset
+    const before = await appBalance()
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '101 Refund Rd', 50n, 500_000n)
+    const listingMbr = 2500n + 400n * (18n + 254n + BigInt('101 Refund Rd'.length + 'PROP'.length))
+    expect(await appBalance()).toBe(before + listingMbr + 21_300n + 11_700n + 100_000n)
+
+    // Delisting destroys the share asset and returns everything but the listing page entry
+    await client.send.delistProperty({
+      args: { propertyId },
+      boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
+      assetReferences: [propertyId],
+      // The MBR refund, plus destroying the share asset
+      extraFee: microAlgo(2000),
+    })
+    expect(await appBalance()).toBe(before + 11_700n)
+    await expect(localnet.algorand.asset.getById(propertyId)).rejects.toThrow()
+  })
+
   test('non-owner cannot delist a property', async () => {
     const { testAccount, generateAccount } = localnet.context
     const nonOwner = (await generateAccount({ initialFunds: algo(10) })).addr
@@ -256,7 +673,7 @@ describe('FractionalRealEstate contract', () => {
     const propertyId = await createListing(client, localnet.algorand, testAccount, '300 Sold Ln', 100n, pricePerShare)
 
     // Buy some shares first
-    await ensureOptedInToAsset(localnet.algorand, buyer, propertyId)
+    await ensureCleared(client, localnet.algorand, buyer, propertyId)
     const sharesToBuy = 5n
     const paymentTransaction = await localnet.algorand.createTransaction.payment({
       sender: buyer,
@@ -268,7 +685,7 @@ describe('FractionalRealEstate contract', () => {
       .newGroup()
       .purchaseFromLister({
         sender: buyer,
-        args: { propertyId, shares: sharesToBuy, payment: paymentTransaction },
+        args: { propertyId, shares: sharesToBuy, payment: paymentTransaction, referrer: ALGORAND_ZERO_ADDRESS_STRING },
         boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
         accountReferences: [buyer, testAccount],
         assetReferences: [propertyId],
@@ -284,4 +701,2042 @@ describe('FractionalRealEstate contract', () => {
       }),
     ).rejects.toThrow()
   })
+
+  test('listing, purchases and delisting log ARC-28 events', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(1000000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const pricePerShare = 1_000_000n
+    const listing = await client.send.createPropertyListing({
+      args: {
+        mbrPayment: localnet.algorand.createTransaction.payment({
+          sender: testAccount,
+          amount: microAlgo(350_000),
+          receiver: client.appAddress,
+        }),
+        propertyAddress: '400 Event Ave',
+        shares: 100n,
+        pricePerShare,
+        fundingGoal: 0n,
+        fundingDeadline: 0n,
+        paymentAssetId: 0n,
+        unitName: 'PROP',
+        metadataUrl: '',
+        metadataHash: new Uint8Array(32),
+        metadataReserve: ALGORAND_ZERO_ADDRESS_STRING,
+        maxSharesPerAccount: 0n,
+        minPurchase: 0n,
+        lockupRounds: 0n,
+        saleWindow: { start: 0n, end: 0n, floorPrice: 0n },
+        priceTiers: [],
+        reservationPolicy: { rounds: 0n, depositBps: 0n, forfeitDeposit: false },
+        referralBps: 0n,
+      },
+      boxReferences: ['properties'],
+      // Asset creation and the MBR refund
+      extraFee: microAlgo(2000),
+    })
+    const propertyId = listing.return!
+    // Other logs, such as the ABI return value, are skipped
+    expect(decodeEvents(listing.confirmation.logs)).toEqual([
+      {
+        name: 'PropertyListed',
+        propertyId,
+        owner: testAccount.toString(),
+        shares: 100n,
+        pricePerShare,
+        availableShares: 100n,
+      },
+    ])
+    const otherId = await createListing(client, localnet.algorand, testAccount, '401 Event Ave', 50n, pricePerShare)
+
+    await ensureCleared(client, localnet.algorand, buyer, propertyId)
+    const payment = await localnet.algorand.createTransaction.payment({
+      sender: buyer,
+      amount: microAlgo(3n * pricePerShare),
+      receiver: client.appAddress,
+    })
+    const purchase = await client
+      .newGroup()
+      .purchaseFromLister({
+        sender: buyer,
+        args: { propertyId, shares: 3n, payment, referrer: ALGORAND_ZERO_ADDRESS_STRING },
+        boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
+        accountReferences: [buyer, testAccount],
+        assetReferences: [propertyId],
+        extraFee: microAlgo(2000),
+      })
+      .send()
+
+    // The event is logged before the ABI return value
+    const purchaseLogs = purchase.confirmations[1].logs!
+    expect(purchaseLogs).toHaveLength(2)
+    expect(decodeEvent(purchaseLogs[0])).toEqual({
+      name: 'SharesPurchased',
+      propertyId,
+      buyer: buyer.toString(),
+      shares: 3n,
+      amount: 3n * pricePerShare,
+      availableShares: 97n,
+    })
+    expect(decodeEvent(purchaseLogs[1])).toBeUndefined()
+
+    const delist = await client.send.delistProperty({
+      args: { propertyId: otherId },
+      boxReferences: [createBoxReference(client.appId, 'properties', otherId)],
+      assetReferences: [otherId],
+      // The MBR refund, plus destroying the share asset
+      extraFee: microAlgo(2000),
+    })
+    expect(decodeEvents(delist.confirmation.logs)).toEqual([
+      {
+        name: 'PropertyDelisted',
+        propertyId: otherId,
+        owner: testAccount.toString(),
+        shares: 50n,
+        availableShares: 0n,
+      },
+    ])
+  })
+
+  test('owner index and market stats follow listings, sales and delisting', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(1000000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const firstId = await createListing(client, localnet.algorand, testAccount, '410 Index Ave', 100n, 1_000_000n)
+    const secondId = await createListing(client, localnet.algorand, testAccount, '411 Index Ave', 50n, 2_000_000n)
+    const thirdId = await createListing(client, localnet.algorand, testAccount, '412 Index Ave', 10n, 1_000_000n)
+    expect(await client.getOwnerListings({ args: { owner: testAccount.toString() } })).toEqual([
+      firstId,
+      secondId,
+      thirdId,
+    ])
+    expect(await client.getOwnerListings({ args: { owner: buyer.toString() } })).toEqual([])
+
+    await purchaseShares(client, localnet.algorand, buyer, firstId, 3n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, buyer, secondId, 2n, 2_000_000n)
+
+    // Delisting takes the property out of the index and the listing count
+    await client.send.delistProperty({
+      args: { propertyId: thirdId },
+      boxReferences: [createBoxReference(client.appId, 'properties', thirdId)],
+      assetReferences: [thirdId],
+      // The MBR refund, plus destroying the share asset
+      extraFee: microAlgo(2000),
+    })
+    expect(await client.getOwnerListings({ args: { owner: testAccount.toString() } })).toEqual([firstId, secondId])
+
+    const stats = await client.getMarketStats()
+    expect(stats.listingCount).toBe(2n)
+    expect(stats.totalSharesSold).toBe(5n)
+    expect(stats.totalVolume).toBe(7_000_000n)
+  })
+
+  test('listings can be paged through in listing order and fetched in batches', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+
+    const firstId = await createListing(client, localnet.algorand, testAccount, '420 Page Pl', 100n, 1_000_000n)
+    const secondId = await createListing(client, localnet.algorand, testAccount, '421 Page Pl', 100n, 1_000_000n)
+    const thirdId = await createListing(client, localnet.algorand, testAccount, '422 Page Pl', 100n, 1_000_000n)
+    await client.send.delistProperty({
+      args: { propertyId: secondId },
+      boxReferences: [createBoxReference(client.appId, 'properties', secondId)],
+      assetReferences: [secondId],
+      // The MBR refund, plus destroying the share asset
+      extraFee: microAlgo(2000),
+    })
+
+    // Delisted IDs keep their place in the page, and batches skip them
+    expect(await client.state.global.nextListingIndex()).toBe(3n)
+    const ids = await client.getListingIds({ args: { page: 0n } })
+    expect(ids).toEqual([firstId, secondId, thirdId])
+    expect(await client.getListingIds({ args: { page: 1n } })).toEqual([])
+
+    // Arrays of structs come back as ABI tuples
+    const properties = (await client.getProperties({ args: { propertyIds: ids } })).map(PropertyStructFromTuple)
+    expect(properties.map((property) => property.propertyAssetId)).toEqual([firstId, thirdId])
+    expect(properties[1].address).toBe('422 Page Pl')
+  })
+
+  test('two listings with the longest strings fit in one getProperties call', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const metadata = {
+      unitName: 'LONGUNIT',
+      url: `https://example.com/${'m'.repeat(76)}`,
+      hash: new Uint8Array(32),
+      reserve: ALGORAND_ZERO_ADDRESS_STRING,
+    }
+
+    await expect(
+      createListing(client, localnet.algorand, testAccount, 'a'.repeat(129), 100n, 1_000_000n, 0n, 0n, 0n, metadata),
+    ).rejects.toThrow()
+    const firstId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      'a'.repeat(128),
+      100n,
+      1_000_000n,
+      0n,
+      0n,
+      0n,
+      metadata,
+    )
+    const secondId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      'b'.repeat(128),
+      100n,
+      1_000_000n,
+      0n,
+      0n,
+      0n,
+      metadata,
+    )
+
+    const properties = (await client.getProperties({ args: { propertyIds: [firstId, secondId] } })).map(
+      PropertyStructFromTuple,
+    )
+    expect(properties.map((property) => property.address)).toEqual(['a'.repeat(128), 'b'.repeat(128)])
+    expect(properties[1].metadataUrl).toBe(metadata.url)
+  })
+
+  test('owner can reprice a listing and buyers pay the new price', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '210 Price Pl', 100n, 1_000_000n)
+
+    await client.send.updatePrice({
+      args: { propertyId, pricePerShare: 2_000_000n },
+      boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
+    })
+
+    const propertyInfo = await client.getPropertyInfo({ args: { propertyId } })
+    expect(propertyInfo.pricePerShare).toBe(2_000_000n)
+
+    // Paying the old price is rejected, the new price goes through
+    await expect(purchaseShares(client, localnet.algorand, buyer, propertyId, 1n, 1_000_000n)).rejects.toThrow()
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 1n, 2_000_000n)
+  })
+
+  test('a capped purchase refunds overpayment and can take a partial fill', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '215 Slippage St', 10n, 1_000_000n)
+    await ensureCleared(client, localnet.algorand, buyer, propertyId)
+    const buyUpTo = async (shares: bigint, maxTotal: bigint, allowPartialFill: boolean) =>
+      client.send.purchaseUpTo({
+        sender: buyer,
+        args: {
+          propertyId,
+          shares,
+          maxTotal,
+          allowPartialFill,
+          payment: await localnet.algorand.createTransaction.payment({
+            sender: buyer,
+            amount: microAlgo(maxTotal),
+            receiver: client.appAddress,
+          }),
+          referrer: ALGORAND_ZERO_ADDRESS_STRING,
+        },
+        accountReferences: [buyer],
+        assetReferences: [propertyId],
+        // Share transfer + owner payment + refund, plus the treasury's cut when a platform fee is set
+        extraFee: microAlgo(4000),
+      })
+
+    // A maximum below the cost is rejected, and a higher one is charged the cost
+    await expect(buyUpTo(4n, 3_999_999n, false)).rejects.toThrow()
+    const listerBefore = (await localnet.algorand.account.getInformation(testAccount)).balance.microAlgo
+    expect((await buyUpTo(4n, 5_000_000n, false)).return).toBe(4n)
+    const listerAfter = (await localnet.algorand.account.getInformation(testAccount)).balance.microAlgo
+    expect(listerAfter - listerBefore).toBe(4_000_000n)
+
+    // Asking for more than is left fails unless a partial fill is allowed
+    await expect(buyUpTo(8n, 8_000_000n, false)).rejects.toThrow()
+    expect((await buyUpTo(8n, 8_000_000n, true)).return).toBe(6n)
+    expect((await localnet.algorand.asset.getAccountInformation(buyer, propertyId)).balance).toBe(10n)
+    expect((await client.getPropertyInfo({ args: { propertyId } })).availableShares).toBe(0n)
+  })
+
+  test('non-owner cannot reprice a listing', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const stranger = (await generateAccount({ initialFunds: algo(100) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '220 Price Pl', 100n, 1_000_000n)
+
+    await expect(
+      client.send.updatePrice({
+        sender: stranger,
+        args: { propertyId, pricePerShare: 1n },
+        boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
+      }),
+    ).rejects.toThrow()
+  })
+
+  test('owner can withdraw unsold shares and top them back up', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '230 Stock St', 100n, 1_000_000n)
+    await ensureCleared(client, localnet.algorand, testAccount, propertyId)
+
+    await client.send.withdrawShares({
+      args: { propertyId, shares: 40n },
+      boxReferences: [
+        createBoxReference(client.appId, 'properties', propertyId),
+        createHolderBoxReference(client.appId, 'claims', propertyId, testAccount),
+      ],
+      assetReferences: [propertyId],
+      extraFee: microAlgo(1000),
+    })
+
+    const ownerInfo = await localnet.algorand.asset.getAccountInformation(testAccount, propertyId)
+    expect(ownerInfo.balance).toBe(40n)
+    expect((await client.getPropertyInfo({ args: { propertyId } })).availableShares).toBe(60n)
+
+    await client.send.topUpShares({
+      args: { propertyId, shares: 15n },
+      boxReferences: [
+        createBoxReference(client.appId, 'properties', propertyId),
+        createHolderBoxReference(client.appId, 'claims', propertyId, testAccount),
+      ],
+      assetReferences: [propertyId],
+      extraFee: microAlgo(1000),
+    })
+
+    expect((await client.getPropertyInfo({ args: { propertyId } })).availableShares).toBe(75n)
+  })
+
+  test('closing the primary sale returns unsold shares and blocks purchases', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '240 Closing Ct', 100n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 30n, 1_000_000n)
+    await ensureCleared(client, localnet.algorand, testAccount, propertyId)
+
+    await client.send.closePrimarySale({
+      args: { propertyId },
+      boxReferences: [
+        createBoxReference(client.appId, 'properties', propertyId),
+        createHolderBoxReference(client.appId, 'claims', propertyId, testAccount),
+      ],
+      assetReferences: [propertyId],
+      extraFee: microAlgo(1000),
+    })
+
+    const propertyInfo = await client.getPropertyInfo({ args: { propertyId } })
+    expect(propertyInfo.availableShares).toBe(0n)
+    expect(propertyInfo.primarySaleOpen).toBe(false)
+
+    const ownerInfo = await localnet.algorand.asset.getAccountInformation(testAccount, propertyId)
+    expect(ownerInfo.balance).toBe(70n)
+
+    await expect(purchaseShares(client, localnet.algorand, buyer, propertyId, 1n, 1_000_000n)).rejects.toThrow()
+  })
+
+  test('a raise that hits its goal escrows payments until the owner withdraws them', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const { lastRound } = await localnet.algorand.client.algod.status().do()
+    const propertyId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      '250 Raise Rd',
+      100n,
+      1_000_000n,
+      40n,
+      lastRound + 50n,
+    )
+    const propertyBox = createBoxReference(client.appId, 'properties', propertyId)
+    const withdrawProceeds = () =>
+      client.send.withdrawProceeds({
+        args: { propertyId },
+        boxReferences: [propertyBox],
+        extraFee: microAlgo(1000),
+      })
+
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 30n, 1_000_000n)
+    let propertyInfo = await client.getPropertyInfo({ args: { propertyId } })
+    expect(propertyInfo.escrowedFunds).toBe(30_000_000n)
+    expect(propertyInfo.sharesSold).toBe(30n)
+
+    // The goal hasn't sold yet, so the proceeds stay locked
+    await expect(withdrawProceeds()).rejects.toThrow()
+
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 10n, 1_000_000n)
+    const result = await withdrawProceeds()
+    expect(result.return).toBe(40_000_000n)
+
+    propertyInfo = await client.getPropertyInfo({ args: { propertyId } })
+    expect(propertyInfo.escrowedFunds).toBe(0n)
+  })
+
+  test('buyers get refunds after a raise misses its goal', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const { lastRound } = await localnet.algorand.client.algod.status().do()
+    const fundingDeadline = lastRound + 10n
+    const propertyId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      '260 Refund Rd',
+      100n,
+      1_000_000n,
+      50n,
+      fundingDeadline,
+    )
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 20n, 1_000_000n)
+
+    await advancePastRound(localnet.algorand, testAccount, fundingDeadline)
+
+    // No more primary sales once the raise has failed
+    await expect(purchaseShares(client, localnet.algorand, buyer, propertyId, 1n, 1_000_000n)).rejects.toThrow()
+
+    const refund = await client.send.claimRefund({
+      sender: buyer,
+      args: { propertyId, shares: 20n },
+      boxReferences: [
+        createBoxReference(client.appId, 'properties', propertyId),
+        createHolderBoxReference(client.appId, 'claims', propertyId, buyer),
+      ],
+      assetReferences: [propertyId],
+      // The share return and the refund
+      extraFee: microAlgo(2000),
+    })
+    expect(refund.return).toBe(20_000_000n)
+
+    const propertyInfo = await client.getPropertyInfo({ args: { propertyId } })
+    expect(propertyInfo.escrowedFunds).toBe(0n)
+    expect(propertyInfo.availableShares).toBe(100n)
+  })
+
+  test('shares still locked up can be handed back for a refund', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const { lastRound } = await localnet.algorand.client.algod.status().do()
+    const fundingDeadline = lastRound + 10n
+    const propertyId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      '265 Refund Rd',
+      100n,
+      1_000_000n,
+      50n,
+      fundingDeadline,
+      0n,
+      undefined,
+      { lockupRounds: 1000n },
+    )
+    await client.send.registerLockup({
+      sender: buyer,
+      args: {
+        mbrPayment: await localnet.algorand.createTransaction.payment({
+          sender: buyer,
+          amount: microAlgo(26_900),
+          receiver: client.appAddress,
+        }),
+        propertyId,
+      },
+    })
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 20n, 1_000_000n)
+
+    // The raise fails long before the lockup ends, and the refund takes the locked shares back anyway
+    await advancePastRound(localnet.algorand, testAccount, fundingDeadline)
+    const refund = await client.send.claimRefund({
+      sender: buyer,
+      args: { propertyId, shares: 20n },
+      boxReferences: [
+        createBoxReference(client.appId, 'properties', propertyId),
+        createHolderBoxReference(client.appId, 'claims', propertyId, buyer),
+        createHolderBoxReference(client.appId, 'locks', propertyId, buyer),
+      ],
+      assetReferences: [propertyId],
+      extraFee: microAlgo(2000),
+    })
+    expect(refund.return).toBe(20_000_000n)
+    expect((await client.getLockup({ args: { propertyId, holder: buyer.toString() } })).lockedShares).toBe(0n)
+  })
+
+  test('the owner cannot take unsold shares back while a raise can still be refunded', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const { lastRound } = await localnet.algorand.client.algod.status().do()
+    const fundingDeadline = lastRound + 10n
+    const propertyId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      '265 Escrow Way',
+      100n,
+      1_000_000n,
+      50n,
+      fundingDeadline,
+    )
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 20n, 1_000_000n)
+    await ensureCleared(client, localnet.algorand, testAccount, propertyId)
+
+    const ownerBoxes = [
+      createBoxReference(client.appId, 'properties', propertyId),
+      createHolderBoxReference(client.appId, 'claims', propertyId, testAccount),
+    ]
+    const takeUnsoldShares = async () => {
+      await expect(
+        client.send.withdrawShares({
+          args: { propertyId, shares: 10n },
+          boxReferences: ownerBoxes,
+          assetReferences: [propertyId],
+          extraFee: microAlgo(1000),
+        }),
+      ).rejects.toThrow()
+      await expect(
+        client.send.closePrimarySale({
+          args: { propertyId },
+          boxReferences: ownerBoxes,
+          assetReferences: [propertyId],
+          extraFee: microAlgo(1000),
+        }),
+      ).rejects.toThrow()
+    }
+
+    // Unsold shares handed back for a refund would be paid out of the buyers' escrow
+    await takeUnsoldShares()
+    await advancePastRound(localnet.algorand, testAccount, fundingDeadline)
+    await takeUnsoldShares()
+
+    const ownerInfo = await localnet.algorand.asset.getAccountInformation(testAccount, propertyId)
+    expect(ownerInfo.balance).toBe(0n)
+    const propertyInfo = await client.getPropertyInfo({ args: { propertyId } })
+    expect(propertyInfo.availableShares).toBe(80n)
+    expect(propertyInfo.escrowedFunds).toBe(20_000_000n)
+  })
+
+  test('platform fee is split off primary sales to the treasury', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const treasury = (await generateAccount({ initialFunds: algo(1) })).addr
+    const { client } = await deploy(testAccount)
+
+    await client.send.setTreasury({ args: { treasury: treasury.toString() } })
+    await client.send.setFeeBps({ args: { feeBps: 250n } })
+
+    const platformFee = await client.getPlatformFee()
+    expect(platformFee.feeBps).toBe(250n)
+    expect(platformFee.treasury).toBe(treasury.toString())
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '270 Fee Ave', 100n, 1_000_000n)
+
+    const treasuryBefore = (await localnet.algorand.account.getInformation(treasury)).balance
+    const listerBefore = (await localnet.algorand.account.getInformation(testAccount)).balance
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 10n, 1_000_000n)
+
+    // 2.5% of the 10 Algo sale goes to the treasury, the rest to the lister
+    const treasuryAfter = (await localnet.algorand.account.getInformation(treasury)).balance
+    const listerAfter = (await localnet.algorand.account.getInformation(testAccount)).balance
+    expect(treasuryAfter.microAlgo - treasuryBefore.microAlgo).toBe(250_000n)
+    expect(listerAfter.microAlgo - listerBefore.microAlgo).toBe(9_750_000n)
+  })
+
+  test('only the admin can configure the platform fee', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const stranger = (await generateAccount({ initialFunds: algo(10) })).addr
+    const { client } = await deploy(testAccount)
+
+    // A fee needs somewhere to go
+    await expect(client.send.setFeeBps({ args: { feeBps: 100n } })).rejects.toThrow()
+
+    await expect(
+      client.send.setTreasury({ sender: stranger, args: { treasury: stranger.toString() } }),
+    ).rejects.toThrow()
+
+    await client.send.setTreasury({ args: { treasury: testAccount.toString() } })
+    await expect(client.send.setFeeBps({ sender: stranger, args: { feeBps: 100n } })).rejects.toThrow()
+    await expect(client.send.setFeeBps({ args: { feeBps: 10_001n } })).rejects.toThrow()
+  })
+
+  test('listing sets ARC-3 metadata on the share asset', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+
+    const metadataHash = new Uint8Array(32).fill(7)
+    const metadata = {
+      unitName: 'OAK12',
+      url: 'ipfs://bafkreibme22gw2h7y2h7tg2fhqotaqjucnbc24deqo72b6mkl2egezxhvy#arc3',
+      hash: metadataHash,
+      reserve: ALGORAND_ZERO_ADDRESS_STRING,
+    }
+    const propertyId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      '12 Oak Ct',
+      100n,
+      1_000_000n,
+      0n,
+      0n,
+      0n,
+      metadata,
+    )
+
+    const asset = await localnet.algorand.asset.getById(propertyId)
+    expect(asset.unitName).toBe('OAK12')
+    expect(asset.url).toBe(metadata.url)
+    expect(asset.metadataHash).toEqual(metadataHash)
+    // Without an ARC-19 reserve the app stays the reserve
+    expect(asset.reserve).toBe(client.appAddress.toString())
+
+    const propertyInfo = await client.getPropertyInfo({ args: { propertyId } })
+    expect(propertyInfo.unitName).toBe('OAK12')
+    expect(propertyInfo.metadataUrl).toBe(metadata.url)
+    expect(propertyInfo.metadataHash).toEqual(metadataHash)
+
+    // Unit names are capped at 8 bytes by the AVM
+    await expect(
+      createListing(client, localnet.algorand, testAccount, '13 Oak Ct', 100n, 1_000_000n, 0n, 0n, 0n, {
+        ...metadata,
+        unitName: 'TOOLONGNAME',
+      }),
+    ).rejects.toThrow()
+  })
+
+  test('listing priced in a stablecoin is bought with an asset transfer', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(10) })).addr
+    const { client } = await deploy(testAccount)
+
+    // A USDC-like test asset, held by the lister
+    const { assetId: usdcId } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 1_000_000_000_000n,
+      decimals: 6,
+      unitName: 'USDC',
+      assetName: 'Test USD',
+    })
+    await ensureOptedInToAsset(localnet.algorand, buyer, usdcId)
+    await localnet.algorand.send.assetTransfer({
+      sender: testAccount,
+      receiver: buyer,
+      assetId: usdcId,
+      amount: 10_000_000n,
+    })
+
+    const pricePerShare = 2_000_000n // 2 USDC
+    const propertyId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      '275 Dollar Dr',
+      100n,
+      pricePerShare,
+      0n,
+      0n,
+      usdcId,
+    )
+    expect((await client.getPropertyInfo({ args: { propertyId } })).paymentAssetId).toBe(usdcId)
+
+    // ALGO isn't accepted for a stablecoin listing
+    await expect(purchaseShares(client, localnet.algorand, buyer, propertyId, 1n, pricePerShare)).rejects.toThrow()
+
+    const listerBefore = (await localnet.algorand.asset.getAccountInformation(testAccount, usdcId)).balance
+    const payment = await localnet.algorand.createTransaction.assetTransfer({
+      sender: buyer,
+      assetId: usdcId,
+      amount: 3n * pricePerShare,
+      receiver: client.appAddress,
+    })
+    await client.send.purchaseFromListerWithAsset({
+      sender: buyer,
+      args: { propertyId, shares: 3n, payment, referrer: ALGORAND_ZERO_ADDRESS_STRING },
+      boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
+      assetReferences: [propertyId, usdcId],
+      extraFee: microAlgo(3000),
+    })
+
+    expect((await localnet.algorand.asset.getAccountInformation(buyer, propertyId)).balance).toBe(3n)
+    expect((await localnet.algorand.asset.getAccountInformation(buyer, usdcId)).balance).toBe(4_000_000n)
+    const listerAfter = (await localnet.algorand.asset.getAccountInformation(testAccount, usdcId)).balance
+    expect(listerAfter - listerBefore).toBe(6_000_000n)
+
+    // A second listing in the same asset doesn't need another opt-in
+    await createListing(client, localnet.algorand, testAccount, '276 Dollar Dr', 100n, pricePerShare, 0n, 0n, usdcId)
+  })
+
+  test('purchases respect the minimum size and per-account cap', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(100) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      '285 Limit Ln',
+      100n,
+      1_000_000n,
+      0n,
+      0n,
+      0n,
+      undefined,
+      { maxSharesPerAccount: 10n, minPurchase: 3n },
+    )
+
+    await expect(purchaseShares(client, localnet.algorand, buyer, propertyId, 2n, 1_000_000n)).rejects.toThrow()
+
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 8n, 1_000_000n)
+    // 8 held + 3 more would take the buyer past the 10 share cap
+    await expect(purchaseShares(client, localnet.algorand, buyer, propertyId, 3n, 1_000_000n)).rejects.toThrow()
+
+    expect((await localnet.algorand.asset.getAccountInformation(buyer, propertyId)).balance).toBe(8n)
+  })
+
+  test('only KYC-approved accounts can hold and move shares', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(100) })).addr
+    const other = (await generateAccount({ initialFunds: algo(10) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      '290 Compliance Ct',
+      100n,
+      1_000_000n,
+    )
+    const asset = await localnet.algorand.asset.getById(propertyId)
+    expect(asset.freeze).toBe(client.appAddress.toString())
+    expect(asset.clawback).toBe(client.appAddress.toString())
+    expect(asset.defaultFrozen).toBe(true)
+
+    // Holdings are frozen, and unapproved accounts can't buy
+    await ensureOptedInToAsset(localnet.algorand, buyer, propertyId)
+    expect((await localnet.algorand.asset.getAccountInformation(buyer, propertyId)).frozen).toBe(true)
+    await expect(
+      client.send.purchaseFromLister({
+        sender: buyer,
+        args: {
+          propertyId,
+          shares: 1n,
+          payment: await localnet.algorand.createTransaction.payment({
+            sender: buyer,
+            amount: microAlgo(1_000_000),
+            receiver: client.appAddress,
+          }),
+          referrer: ALGORAND_ZERO_ADDRESS_STRING,
+        },
+        assetReferences: [propertyId],
+        extraFee: microAlgo(2000),
+      }),
+    ).rejects.toThrow()
+
+    // Only the compliance officer can approve accounts
+    await expect(
+      client.send.approveAccount({
+        sender: buyer,
+        args: {
+          mbrPayment: await localnet.algorand.createTransaction.payment({
+            sender: buyer,
+            amount: microAlgo(19_700),
+            receiver: client.appAddress,
+          }),
+          account: buyer.toString(),
+        },
+      }),
+    ).rejects.toThrow()
+
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 5n, 1_000_000n)
+    expect(await client.isApproved({ args: { account: buyer.toString() } })).toBe(true)
+    expect((await localnet.algorand.asset.getAccountInformation(buyer, propertyId)).balance).toBe(5n)
+
+    // Shares can't leave a frozen holding directly, only through the app
+    await ensureOptedInToAsset(localnet.algorand, other, propertyId)
+    await expect(
+      localnet.algorand.send.assetTransfer({
+        sender: buyer,
+        receiver: other,
+        assetId: propertyId,
+        amount: 1n,
+      }),
+    ).rejects.toThrow()
+    const transferShares = (sender: Address, receiver: Address) =>
+      client.send.transferShares({
+        sender,
+        args: { propertyId, receiver: receiver.toString(), shares: 1n },
+        accountReferences: [receiver],
+        assetReferences: [propertyId],
+        extraFee: microAlgo(1000),
+      })
+
+    // The receiver has to be approved too
+    await expect(transferShares(buyer, other)).rejects.toThrow()
+    await ensureCleared(client, localnet.algorand, other, propertyId)
+    await transferShares(buyer, other)
+    expect((await localnet.algorand.asset.getAccountInformation(other, propertyId)).balance).toBe(1n)
+
+    // Revoking the approval stops the account moving shares on
+    await client.send.revokeAccount({ args: { account: buyer.toString() }, extraFee: microAlgo(1000) })
+    expect(await client.isApproved({ args: { account: buyer.toString() } })).toBe(false)
+    await expect(transferShares(buyer, other)).rejects.toThrow()
+    await expect(transferShares(other, buyer)).rejects.toThrow()
+  })
+
+  test('locked up shares can only be moved once the lockup ends', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(100) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      '295 Lockup Ln',
+      100n,
+      1_000_000n,
+      0n,
+      0n,
+      0n,
+      undefined,
+      { lockupRounds: 5n },
+    )
+
+    // Buyers register their lockup box before buying
+    await expect(purchaseShares(client, localnet.algorand, buyer, propertyId, 5n, 1_000_000n)).rejects.toThrow()
+    await client.send.registerLockup({
+      sender: buyer,
+      args: {
+        mbrPayment: await localnet.algorand.createTransaction.payment({
+          sender: buyer,
+          amount: microAlgo(26_900),
+          receiver: client.appAddress,
+        }),
+        propertyId,
+      },
+    })
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 5n, 1_000_000n)
+
+    const lockup = await client.getLockup({ args: { propertyId, holder: buyer.toString() } })
+    expect(lockup.lockedShares).toBe(5n)
+
+    // Locked shares can't be sold or transferred, and the lockup can't be closed early
+    await expect(createSellOrder(client, localnet.algorand, buyer, propertyId, 1n, 2_000_000n)).rejects.toThrow()
+    await expect(
+      client.send.transferShares({
+        sender: buyer,
+        args: { propertyId, receiver: testAccount.toString(), shares: 1n },
+        assetReferences: [propertyId],
+        extraFee: microAlgo(1000),
+      }),
+    ).rejects.toThrow()
+    await expect(
+      client.send.unlockShares({
+        sender: buyer,
+        args: { propertyId },
+        extraFee: microAlgo(1000),
+      }),
+    ).rejects.toThrow()
+
+    // Once the unlock round is reached the shares can move
+    await advancePastRound(localnet.algorand, testAccount, lockup.unlockRound)
+    await createSellOrder(client, localnet.algorand, buyer, propertyId, 1n, 2_000_000n)
+
+    // Buying again only locks the new shares, and the four left from the first purchase stay free
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 2n, 1_000_000n)
+    const relock = await client.getLockup({ args: { propertyId, holder: buyer.toString() } })
+    expect(relock.lockedShares).toBe(2n)
+    await expect(createSellOrder(client, localnet.algorand, buyer, propertyId, 5n, 2_000_000n)).rejects.toThrow()
+    await createSellOrder(client, localnet.algorand, buyer, propertyId, 4n, 2_000_000n)
+
+    // Closing the lockup once it ends refunds its MBR
+    await advancePastRound(localnet.algorand, testAccount, relock.unlockRound)
+    await client.send.unlockShares({
+      sender: buyer,
+      args: { propertyId },
+      extraFee: microAlgo(1000),
+    })
+
+    expect((await client.getLockup({ args: { propertyId, holder: buyer.toString() } })).lockedShares).toBe(0n)
+  })
+
+  test('early-bird tier prices the first shares sold and purchases can span tiers', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(100) })).addr
+    const { client } = await deploy(testAccount)
+
+    // First 10 shares at half price, then the listing price
+    const propertyId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      '300 Presale Pl',
+      100n,
+      1_000_000n,
+      0n,
+      0n,
+      0n,
+      undefined,
+      {},
+      { tiers: [[10n, 0n, 500_000n]] },
+    )
+
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 4n, 500_000n)
+    // 8 more shares: 6 left in the tier at 500_000 and 2 at 1_000_000, 5 ALGO in total
+    await expect(purchaseShares(client, localnet.algorand, buyer, propertyId, 8n, 500_000n)).rejects.toThrow()
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 8n, 625_000n)
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 1n, 1_000_000n)
+
+    const property = await client.getPropertyInfo({ args: { propertyId } })
+    expect(property.sharesSold).toBe(13n)
+  })
+
+  test('purchases are only accepted inside the sale window', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(100) })).addr
+    const { client } = await deploy(testAccount)
+    const now = BigInt(Math.floor(Date.now() / 1000))
+
+    const propertyId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      '305 Opening Ave',
+      100n,
+      1_000_000n,
+      0n,
+      0n,
+      0n,
+      undefined,
+      {},
+      { start: now + 86_400n, end: now + 172_800n },
+    )
+    await expect(purchaseShares(client, localnet.algorand, buyer, propertyId, 1n, 1_000_000n)).rejects.toThrow()
+
+    // A sale can't close before it opens, and tiers can't be combined with an all-or-nothing raise
+    await expect(
+      createListing(
+        client,
+        localnet.algorand,
+        testAccount,
+        '310 Closed Ct',
+        100n,
+        1_000_000n,
+        0n,
+        0n,
+        0n,
+        undefined,
+        {},
+        {
+          start: now + 86_400n,
+          end: now + 3_600n,
+        },
+      ),
+    ).rejects.toThrow()
+    const { lastRound } = await localnet.algorand.client.algod.status().do()
+    await expect(
+      createListing(
+        client,
+        localnet.algorand,
+        testAccount,
+        '315 Goal Gr',
+        100n,
+        1_000_000n,
+        50n,
+        lastRound + 100n,
+        0n,
+        undefined,
+        {},
+        {
+          tiers: [[10n, 0n, 500_000n]],
+        },
+      ),
+    ).rejects.toThrow()
+  })
+
+  test('Dutch auction sells at the falling price and refunds the rest of the buyer maximum', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(100) })).addr
+    const { client } = await deploy(testAccount)
+    const now = BigInt(Math.floor(Date.now() / 1000))
+
+    // Falls from 2 ALGO to 1 ALGO over the next hour, starting now
+    const propertyId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      '320 Auction Ave',
+      100n,
+      2_000_000n,
+      0n,
+      0n,
+      0n,
+      undefined,
+      {},
+      { end: now + 3_600n, floor: 1_000_000n },
+    )
+    const price = await client.getCurrentPrice({ args: { propertyId } })
+    expect(price).toBeGreaterThan(1_000_000n)
+    expect(price).toBeLessThanOrEqual(2_000_000n)
+
+    await ensureCleared(client, localnet.algorand, buyer, propertyId)
+    const buyAtAuction = async (shares: bigint, maxPricePerShare: bigint) =>
+      client.send.purchaseAtAuction({
+        sender: buyer,
+        args: {
+          propertyId,
+          shares,
+          maxPricePerShare,
+          payment: await localnet.algorand.createTransaction.payment({
+            sender: buyer,
+            amount: microAlgo(shares * maxPricePerShare),
+            receiver: client.appAddress,
+          }),
+          referrer: ALGORAND_ZERO_ADDRESS_STRING,
+        },
+        accountReferences: [buyer],
+        assetReferences: [propertyId],
+        // Share transfer + owner payment + refund, plus the treasury's cut when a platform fee is set
+        extraFee: microAlgo(4000),
+      })
+
+    // The slippage guard rejects a maximum below the current price
+    await expect(buyAtAuction(2n, 999_999n)).rejects.toThrow()
+
+    const listerBefore = (await localnet.algorand.account.getInformation(testAccount)).balance.microAlgo
+    const paidPrice = (await buyAtAuction(2n, 2_000_000n)).return ?? 0n
+    expect(paidPrice).toBeGreaterThan(1_000_000n)
+    expect(paidPrice).toBeLessThanOrEqual(price)
+
+    // The lister gets the auction price, and the buyer's maximum above it comes back to them
+    const listerAfter = (await localnet.algorand.account.getInformation(testAccount)).balance.microAlgo
+    expect(listerAfter - listerBefore).toBe(2n * paidPrice)
+    expect((await localnet.algorand.asset.getAccountInformation(buyer, propertyId)).balance).toBe(2n)
+  })
+
+  test('Dutch auctions need an end time and a floor below the start price', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const now = BigInt(Math.floor(Date.now() / 1000))
+
+    await expect(
+      createListing(
+        client,
+        localnet.algorand,
+        testAccount,
+        '325 Floor St',
+        100n,
+        1_000_000n,
+        0n,
+        0n,
+        0n,
+        undefined,
+        {},
+        { end: now + 3_600n, floor: 1_000_000n },
+      ),
+    ).rejects.toThrow()
+    await expect(
+      createListing(
+        client,
+        localnet.algorand,
+        testAccount,
+        '330 Endless Rd',
+        100n,
+        2_000_000n,
+        0n,
+        0n,
+        0n,
+        undefined,
+        {},
+        { floor: 1_000_000n },
+      ),
+    ).rejects.toThrow()
+    await expect(
+      createListing(
+        client,
+        localnet.algorand,
+        testAccount,
+        '335 Tiered Ter',
+        100n,
+        2_000_000n,
+        0n,
+        0n,
+        0n,
+        undefined,
+        {},
+        { end: now + 3_600n, floor: 1_000_000n, tiers: [[10n, 0n, 500_000n]] },
+      ),
+    ).rejects.toThrow()
+  })
+
+  test('pausing blocks listing, purchases and delisting but not reads', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const buyer = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '280 Pause Pl', 100n, 1_000_000n)
+
+    await client.send.pause({ args: [] })
+    expect(await client.state.global.paused()).toBe(true)
+
+    await expect(
+      createListing(client, localnet.algorand, testAccount, '281 Pause Pl', 100n, 1_000_000n),
+    ).rejects.toThrow()
+    await expect(purchaseShares(client, localnet.algorand, buyer, propertyId, 1n, 1_000_000n)).rejects.toThrow()
+    await expect(
+      client.send.delistProperty({
+        args: { propertyId },
+        boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
+      }),
+    ).rejects.toThrow()
+
+    const propertyInfo = await client.getPropertyInfo({ args: { propertyId } })
+    expect(propertyInfo.availableShares).toBe(100n)
+
+    await client.send.unpause({ args: [] })
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 1n, 1_000_000n)
+  })
+
+  test('admin role is handed over in two steps', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const newAdmin = (await generateAccount({ initialFunds: algo(10) })).addr
+    const { client } = await deploy(testAccount)
+
+    expect(await client.state.global.admin()).toBe(testAccount.toString())
+
+    // Non-admins can't pause
+    await expect(client.send.pause({ args: [], sender: newAdmin })).rejects.toThrow()
+
+    await client.send.transferAdmin({ args: { newAdmin: newAdmin.toString() } })
+    // Nothing changes until the new admin accepts
+    expect(await client.state.global.admin()).toBe(testAccount.toString())
+    await expect(client.send.acceptAdmin({ args: [], sender: testAccount })).rejects.toThrow()
+
+    await client.send.acceptAdmin({ args: [], sender: newAdmin })
+    expect(await client.state.global.admin()).toBe(newAdmin.toString())
+
+    await expect(client.send.pause({ args: [] })).rejects.toThrow()
+    await client.send.pause({ args: [], sender: newAdmin })
+  })
+
+  test('listing ownership is handed over in two steps and proceeds follow the new owner', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const newOwner = (await generateAccount({ initialFunds: algo(10) })).addr
+    const buyer = (await generateAccount({ initialFunds: algo(100) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '340 Handover Hts', 100n, 1_000_000n)
+    const transferOwnership = (sender: Address) =>
+      client.send.transferOwnership({
+        sender,
+        args: {
+          mbrPayment: localnet.algorand.createTransaction.payment({
+            sender,
+            amount: microAlgo(23_700),
+            receiver: client.appAddress,
+          }),
+          propertyId,
+          newOwner: newOwner.toString(),
+        },
+      })
+    // The new owner pays for their owner index box, and is refunded anything over its MBR
+    const acceptOwnership = (sender: Address) =>
+      client.send.acceptOwnership({
+        sender,
+        args: {
+          mbrPayment: localnet.algorand.createTransaction.payment({
+            sender,
+            amount: microAlgo(30_000),
+            receiver: client.appAddress,
+          }),
+          propertyId,
+        },
+        // The previous owner's MBR refund and the overpayment refund
+        extraFee: microAlgo(2000),
+      })
+    const balance = async (account: Address) =>
+      (await localnet.algorand.account.getInformation(account)).balance.microAlgo
+
+    // Only the owner can start a transfer, and only the pending owner can accept it
+    await expect(transferOwnership(buyer)).rejects.toThrow()
+    await transferOwnership(testAccount)
+    expect(await client.getPendingOwner({ args: { propertyId } })).toBe(newOwner.toString())
+    await expect(acceptOwnership(buyer)).rejects.toThrow()
+
+    // Nothing changes until the new owner accepts
+    expect((await client.getPropertyInfo({ args: { propertyId } })).ownerAddress).toBe(testAccount.toString())
+    const previousOwnerBefore = await balance(testAccount)
+    const appBefore = await balance(client.appAddress)
+    await acceptOwnership(newOwner)
+
+    // The previous owner gets the pending transfer box and their emptied index box back, and the
+    // app only keeps the new owner's index box
+    expect((await balance(testAccount)) - previousOwnerBefore).toBe(23_700n + 21_300n)
+    expect((await balance(client.appAddress)) - appBefore).toBe(21_300n - 23_700n - 21_300n)
+    expect((await client.getPropertyInfo({ args: { propertyId } })).ownerAddress).toBe(newOwner.toString())
+    expect(await client.getPendingOwner({ args: { propertyId } })).toBe(ALGORAND_ZERO_ADDRESS_STRING)
+    expect(await client.getOwnerListings({ args: { owner: newOwner.toString() } })).toEqual([propertyId])
+    expect(await client.getOwnerListings({ args: { owner: testAccount.toString() } })).toEqual([])
+
+    // Sales now pay the new owner, and the old owner has lost control
+    const ownerBefore = (await localnet.algorand.account.getInformation(newOwner)).balance
+    await purchaseShares(client, localnet.algorand, buyer, propertyId, 2n, 1_000_000n)
+    const ownerAfter = (await localnet.algorand.account.getInformation(newOwner)).balance
+    expect(ownerAfter.microAlgo - ownerBefore.microAlgo).toBe(2_000_000n)
+    await expect(client.send.updatePrice({ args: { propertyId, pricePerShare: 2_000_000n } })).rejects.toThrow()
+  })
+
+  test('holder can post a sell order that another account fills', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const seller = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const buyer = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '400 Resale Rd', 100n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, seller, propertyId, 10n, 1_000_000n)
+
+    // Seller escrows 4 shares at 2 Algo each
+    const resalePrice = 2_000_000n
+    const orderId = await createSellOrder(client, localnet.algorand, seller, propertyId, 4n, resalePrice)
+
+    const order = await client.getSellOrder({ args: { orderId } })
+    expect(order.propertyId).toBe(propertyId)
+    expect(order.seller).toBe(seller.toString())
+    expect(order.shares).toBe(4n)
+    expect((await localnet.algorand.asset.getAccountInformation(seller, propertyId)).balance).toBe(6n)
+
+    // Buyer partially fills the order
+    await ensureCleared(client, localnet.algorand, buyer, propertyId)
+    const payment = await localnet.algorand.createTransaction.payment({
+      sender: buyer,
+      amount: microAlgo(3n * resalePrice),
+      receiver: client.appAddress,
+    })
+    const result = await client
+      .newGroup()
+      .fillSellOrder({
+        sender: buyer,
+        args: { orderId, shares: 3n, payment },
+        boxReferences: [createBoxReference(client.appId, 'orders', orderId)],
+        accountReferences: [seller],
+        assetReferences: [propertyId],
+        extraFee: microAlgo(3000),
+      })
+      .send()
+    expect(result.returns[0]).toBe(true)
+
+    expect((await localnet.algorand.asset.getAccountInformation(buyer, propertyId)).balance).toBe(3n)
+    expect((await client.getSellOrder({ args: { orderId } })).shares).toBe(1n)
+  })
+
+  test('seller can cancel a sell order and recover their shares', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const seller = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '500 Cancel Ct', 100n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, seller, propertyId, 5n, 1_000_000n)
+    const orderId = await createSellOrder(client, localnet.algorand, seller, propertyId, 5n, 1_500_000n)
+
+    await client.send.cancelSellOrder({
+      sender: seller,
+      args: { orderId },
+      boxReferences: [createBoxReference(client.appId, 'orders', orderId)],
+      assetReferences: [propertyId],
+      extraFee: microAlgo(2000),
+    })
+
+    expect((await localnet.algorand.asset.getAccountInformation(seller, propertyId)).balance).toBe(5n)
+    await expect(client.getSellOrder({ args: { orderId } })).rejects.toThrow()
+  })
+
+  test('only the seller can cancel a sell order', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const seller = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '600 Escrow Ave', 100n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, seller, propertyId, 5n, 1_000_000n)
+    const orderId = await createSellOrder(client, localnet.algorand, seller, propertyId, 5n, 1_500_000n)
+
+    await expect(
+      client.send.cancelSellOrder({
+        args: { orderId },
+        boxReferences: [createBoxReference(client.appId, 'orders', orderId)],
+        assetReferences: [propertyId],
+        extraFee: microAlgo(2000),
+      }),
+    ).rejects.toThrow()
+  })
+
+  test('registered holders claim rental income pro rata', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const holder = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '700 Rent Row', 100n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, holder, propertyId, 25n, 1_000_000n)
+
+    const claimBox = createHolderBoxReference(client.appId, 'claims', propertyId, holder)
+    const propertyBox = createBoxReference(client.appId, 'properties', propertyId)
+
+    await client.send.registerForIncome({
+      sender: holder,
+      args: {
+        mbrPayment: await localnet.algorand.createTransaction.payment({
+          sender: holder,
+          amount: microAlgo(30_500),
+          receiver: client.appAddress,
+        }),
+        propertyId,
+      },
+      boxReferences: [propertyBox, claimBox],
+    })
+
+    // Lister deposits 10 Algo of rent. Unsold shares in the app don't earn, so it's all spread
+    // over the holder's 25 registered shares
+    await client.send.depositIncome({
+      args: {
+        propertyId,
+        payment: await localnet.algorand.createTransaction.payment({
+          sender: testAccount,
+          amount: algo(10),
+          receiver: client.appAddress,
+        }),
+      },
+      boxReferences: [propertyBox],
+    })
+
+    const unclaimed = await client.getUnclaimedIncome({ args: { propertyId, holder: holder.toString() } })
+    expect(unclaimed).toBe(10_000_000n)
+
+    const claimResult = await client.send.claimIncome({
+      sender: holder,
+      args: { propertyId },
+      boxReferences: [propertyBox, claimBox],
+      assetReferences: [propertyId],
+      extraFee: microAlgo(1000),
+    })
+    expect(claimResult.return).toBe(10_000_000n)
+
+    // A second claim with no new deposits pays nothing
+    const secondClaim = await client.send.claimIncome({
+      sender: holder,
+      args: { propertyId },
+      boxReferences: [propertyBox, claimBox],
+      assetReferences: [propertyId],
+      extraFee: microAlgo(1000),
+    })
+    expect(secondClaim.return).toBe(0n)
+  })
+
+  test('moving shares between registered holders settles income on both sides', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const alice = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const bob = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '705 Rent Row', 100n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, alice, propertyId, 40n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, bob, propertyId, 10n, 1_000_000n)
+
+    const propertyBox = createBoxReference(client.appId, 'properties', propertyId)
+    const claimBoxes = [
+      createHolderBoxReference(client.appId, 'claims', propertyId, alice),
+      createHolderBoxReference(client.appId, 'claims', propertyId, bob),
+    ]
+    for (const holder of [alice, bob]) {
+      await client.send.registerForIncome({
+        sender: holder,
+        args: {
+          mbrPayment: await localnet.algorand.createTransaction.payment({
+            sender: holder,
+            amount: microAlgo(30_500),
+            receiver: client.appAddress,
+          }),
+          propertyId,
+        },
+        boxReferences: [propertyBox, ...claimBoxes],
+      })
+    }
+    const depositIncome = async () =>
+      client.send.depositIncome({
+        args: {
+          propertyId,
+          payment: await localnet.algorand.createTransaction.payment({
+            sender: testAccount,
+            amount: algo(10),
+            receiver: client.appAddress,
+          }),
+        },
+        boxReferences: [propertyBox],
+      })
+    const unclaimed = (holder: Address) =>
+      client.getUnclaimedIncome({ args: { propertyId, holder: holder.toString() } })
+
+    // 10 Algo over the 50 registered shares: alice earns on 40, bob on 10
+    await depositIncome()
+    expect(await unclaimed(alice)).toBe(8_000_000n)
+    expect(await unclaimed(bob)).toBe(2_000_000n)
+
+    // The transfer settles what both sides earned before their balances change
+    await client.send.transferShares({
+      sender: alice,
+      args: { propertyId, receiver: bob.toString(), shares: 30n },
+      boxReferences: [propertyBox, ...claimBoxes],
+      accountReferences: [bob],
+      assetReferences: [propertyId],
+      extraFee: microAlgo(1000),
+    })
+    expect(await unclaimed(alice)).toBe(8_000_000n)
+    expect(await unclaimed(bob)).toBe(2_000_000n)
+
+    // The next deposit is earned on the new balances, so the moved shares are only paid once
+    await depositIncome()
+    expect(await unclaimed(alice)).toBe(10_000_000n)
+    expect(await unclaimed(bob)).toBe(10_000_000n)
+  })
+
+  test('income only goes to registered shares and is carried forward while there are none', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const alice = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const bob = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '710 Rent Row', 100n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, alice, propertyId, 40n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, bob, propertyId, 10n, 1_000_000n)
+
+    const propertyBox = createBoxReference(client.appId, 'properties', propertyId)
+    const claimBox = createHolderBoxReference(client.appId, 'claims', propertyId, alice)
+    const depositIncome = async () =>
+      client.send.depositIncome({
+        args: {
+          propertyId,
+          payment: await localnet.algorand.createTransaction.payment({
+            sender: testAccount,
+            amount: algo(10),
+            receiver: client.appAddress,
+          }),
+        },
+        boxReferences: [propertyBox],
+      })
+
+    // With nobody registered the deposit is carried forward rather than spread over shares no one can claim on
+    await depositIncome()
+    expect((await client.getPropertyInfo({ args: { propertyId } })).undistributedIncome).toBe(10_000_000n)
+
+    await client.send.registerForIncome({
+      sender: alice,
+      args: {
+        mbrPayment: await localnet.algorand.createTransaction.payment({
+          sender: alice,
+          amount: microAlgo(30_500),
+          receiver: client.appAddress,
+        }),
+        propertyId,
+      },
+      boxReferences: [propertyBox, claimBox],
+      assetReferences: [propertyId],
+    })
+    expect((await client.getPropertyInfo({ args: { propertyId } })).incomeShares).toBe(40n)
+
+    // Bob never registered, so alice's 40 shares earn this deposit and the one carried forward
+    await depositIncome()
+    expect(await client.getUnclaimedIncome({ args: { propertyId, holder: alice.toString() } })).toBe(20_000_000n)
+    expect(await client.getUnclaimedIncome({ args: { propertyId, holder: bob.toString() } })).toBe(0n)
+
+    // Unregistering pays out the income with the claim box MBR and stops the shares earning
+    const unregister = await client.send.unregisterForIncome({
+      sender: alice,
+      args: { propertyId },
+      boxReferences: [propertyBox, claimBox],
+      assetReferences: [propertyId],
+      extraFee: microAlgo(1000),
+    })
+    expect(unregister.return).toBe(20_000_000n)
+    expect((await client.getPropertyInfo({ args: { propertyId } })).incomeShares).toBe(0n)
+    expect(await client.getUnclaimedIncome({ args: { propertyId, holder: alice.toString() } })).toBe(0n)
+  })
+
+  test('income earned before a delisting can still be claimed', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '720 Rent Row', 100n, 1_000_000n)
+    await ensureCleared(client, localnet.algorand, testAccount, propertyId)
+
+    const propertyBox = createBoxReference(client.appId, 'properties', propertyId)
+    const claimBox = createHolderBoxReference(client.appId, 'claims', propertyId, testAccount)
+    await client.send.withdrawShares({
+      args: { propertyId, shares: 10n },
+      boxReferences: [propertyBox, claimBox],
+      assetReferences: [propertyId],
+      extraFee: microAlgo(1000),
+    })
+    await client.send.registerForIncome({
+      args: {
+        mbrPayment: await localnet.algorand.createTransaction.payment({
+          sender: testAccount,
+          amount: microAlgo(30_500),
+          receiver: client.appAddress,
+        }),
+        propertyId,
+      },
+      boxReferences: [propertyBox, claimBox],
+      assetReferences: [propertyId],
+    })
+    await client.send.depositIncome({
+      args: {
+        propertyId,
+        payment: await localnet.algorand.createTransaction.payment({
+          sender: testAccount,
+          amount: algo(1),
+          receiver: client.appAddress,
+        }),
+      },
+      boxReferences: [propertyBox],
+    })
+
+    // Handing the shares back settles the claim, so the listing can close with the income still owed
+    await client.send.topUpShares({
+      args: { propertyId, shares: 10n },
+      boxReferences: [propertyBox, claimBox],
+      assetReferences: [propertyId],
+      extraFee: microAlgo(1000),
+    })
+    await client.send.delistProperty({
+      args: { propertyId },
+      boxReferences: [propertyBox],
+      assetReferences: [propertyId],
+      extraFee: microAlgo(2000),
+    })
+    expect(await client.getUnclaimedIncome({ args: { propertyId, holder: testAccount.toString() } })).toBe(1_000_000n)
+
+    // Claiming on the delisted property pays the income and closes the claim
+    const claim = await client.send.claimIncome({
+      args: { propertyId },
+      boxReferences: [propertyBox, claimBox],
+      extraFee: microAlgo(1000),
+    })
+    expect(claim.return).toBe(1_000_000n)
+    await expect(
+      client.send.claimIncome({
+        args: { propertyId },
+        boxReferences: [propertyBox, claimBox],
+        extraFee: microAlgo(1000),
+      }),
+    ).rejects.toThrow()
+  })
+
+  test('only the owner can deposit rental income', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const stranger = (await generateAccount({ initialFunds: algo(100) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '800 Lease Ln', 100n, 1_000_000n)
+
+    await expect(
+      client.send.depositIncome({
+        sender: stranger,
+        args: {
+          propertyId,
+          payment: await localnet.algorand.createTransaction.payment({
+            sender: stranger,
+            amount: algo(1),
+            receiver: client.appAddress,
+          }),
+        },
+        boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
+      }),
+    ).rejects.toThrow()
+  })
+
+  test('share-weighted votes decide a proposal and voters recover their shares', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const alice = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const bob = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '900 Vote Ave', 100n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, alice, propertyId, 30n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, bob, propertyId, 10n, 1_000_000n)
+
+    const proposalId = await createProposal(client, localnet.algorand, alice, propertyId, 'Replace the roof')
+    await castVote(client, localnet.algorand, alice, propertyId, proposalId, 30n, true)
+    await castVote(client, localnet.algorand, bob, propertyId, proposalId, 10n, false)
+
+    const open = await client.getProposal({ args: { proposalId } })
+    expect(open.votesFor).toBe(30n)
+    expect(open.votesAgainst).toBe(10n)
+    expect(open.quorumShares).toBe(20n)
+    expect(open.lockedShares).toBe(40n)
+
+    // Voting is still open, so the shares stay locked
+    await expect(
+      client.send.withdrawVote({
+        sender: alice,
+        args: { proposalId },
+        boxReferences: [
+          createBoxReference(client.appId, 'proposals', proposalId),
+          createHolderBoxReference(client.appId, 'votes', proposalId, alice),
+        ],
+        assetReferences: [propertyId],
+        extraFee: microAlgo(2000),
+      }),
+    ).rejects.toThrow()
+
+    await advancePastRound(localnet.algorand, testAccount, open.deadlineRound)
+
+    const finalized = await client.send.finalizeProposal({
+      args: { proposalId },
+      boxReferences: [createBoxReference(client.appId, 'proposals', proposalId)],
+    })
+    expect(finalized.return).toBe(1n)
+
+    await client.send.withdrawVote({
+      sender: alice,
+      args: { proposalId },
+      boxReferences: [
+        createBoxReference(client.appId, 'proposals', proposalId),
+        createHolderBoxReference(client.appId, 'votes', proposalId, alice),
+        createHolderBoxReference(client.appId, 'claims', propertyId, alice),
+      ],
+      assetReferences: [propertyId],
+      extraFee: microAlgo(2000),
+    })
+
+    const aliceInfo = await localnet.algorand.asset.getAccountInformation(alice, propertyId)
+    expect(aliceInfo.balance).toBe(30n)
+    expect((await client.getProposal({ args: { proposalId } })).lockedShares).toBe(10n)
+
+    // The last vote out deletes the proposal and returns its MBR to the proposer
+    const aliceBefore = (await localnet.algorand.account.getInformation(alice)).balance.microAlgo
+    await client.send.withdrawVote({
+      sender: bob,
+      args: { proposalId },
+      boxReferences: [
+        createBoxReference(client.appId, 'proposals', proposalId),
+        createHolderBoxReference(client.appId, 'votes', proposalId, bob),
+        createHolderBoxReference(client.appId, 'claims', propertyId, bob),
+      ],
+      assetReferences: [propertyId],
+      // Share transfer + MBR refund, plus the proposer's MBR refund
+      extraFee: microAlgo(3000),
+    })
+    const aliceAfter = (await localnet.algorand.account.getInformation(alice)).balance.microAlgo
+    expect(aliceAfter - aliceBefore).toBe(2500n + 400n * (17n + 85n + BigInt('Replace the roof'.length)))
+    await expect(client.getProposal({ args: { proposalId } })).rejects.toThrow()
+  })
+
+  test('a proposal nobody voted on is deleted when it is finalized', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const alice = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '901 Vote Ave', 100n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, alice, propertyId, 30n, 1_000_000n)
+    const proposalId = await createProposal(client, localnet.algorand, alice, propertyId, 'Add a bike shed')
+    const { deadlineRound } = await client.getProposal({ args: { proposalId } })
+    await advancePastRound(localnet.algorand, testAccount, deadlineRound)
+
+    const aliceBefore = (await localnet.algorand.account.getInformation(alice)).balance.microAlgo
+    const finalized = await client.send.finalizeProposal({
+      args: { proposalId },
+      boxReferences: [createBoxReference(client.appId, 'proposals', proposalId)],
+      // The proposer's MBR refund
+      extraFee: microAlgo(1000),
+    })
+    expect(finalized.return).toBe(2n)
+    const aliceAfter = (await localnet.algorand.account.getInformation(alice)).balance.microAlgo
+    expect(aliceAfter - aliceBefore).toBe(2500n + 400n * (17n + 85n + BigInt('Add a bike shed'.length)))
+    await expect(client.getProposal({ args: { proposalId } })).rejects.toThrow()
+  })
+
+  test('holders cannot vote twice on the same proposal', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const holder = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '950 Ballot Blvd', 100n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, holder, propertyId, 20n, 1_000_000n)
+
+    const proposalId = await createProposal(client, localnet.algorand, holder, propertyId, 'Repaint the hallway')
+    await castVote(client, localnet.algorand, holder, propertyId, proposalId, 10n, true)
+
+    await expect(castVote(client, localnet.algorand, holder, propertyId, proposalId, 10n, true)).rejects.toThrow()
+  })
+
+  test('only shareholders can open a proposal', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const stranger = (await generateAccount({ initialFunds: algo(100) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '990 Motion Way', 100n, 1_000_000n)
+    await ensureOptedInToAsset(localnet.algorand, stranger, propertyId)
+
+    await expect(
+      createProposal(client, localnet.algorand, stranger, propertyId, 'Sell the building'),
+    ).rejects.toThrow()
+  })
+
+  test('an accepted buyout pays every holder pro rata and closes the listing', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const alice = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const bob = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const bidder = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '1000 Buyout Blvd', 100n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, alice, propertyId, 60n, 1_000_000n)
+
+    // Shares still for sale have nobody to vote or redeem them
+    await expect(offerBuyout(client, localnet.algorand, bidder, propertyId, 200_000_000n)).rejects.toThrow()
+
+    await purchaseShares(client, localnet.algorand, bob, propertyId, 40n, 1_000_000n)
+    const buyoutId = await offerBuyout(client, localnet.algorand, bidder, propertyId, 200_000_000n)
+    expect(await client.getActiveBuyout({ args: { propertyId } })).toBe(buyoutId)
+
+    // Only one offer at a time
+    await expect(offerBuyout(client, localnet.algorand, bob, propertyId, 300_000_000n)).rejects.toThrow()
+    await voteOnBuyout(client, localnet.algorand, alice, propertyId, buyoutId, 60n, true)
+
+    // A majority of all shares accepts it without waiting for the deadline
+    const finalized = await client.send.finalizeBuyout({ args: { buyoutId } })
+    expect(finalized.return).toBe(1n)
+    await expect(purchaseShares(client, localnet.algorand, bidder, propertyId, 1n, 1_000_000n)).rejects.toThrow()
+    await expect(offerBuyout(client, localnet.algorand, bob, propertyId, 300_000_000n)).rejects.toThrow()
+
+    // Alice redeems the shares she voted with, Bob sends his in
+    expect(await redeemBuyout(client, localnet.algorand, alice, propertyId, buyoutId, 0n)).toBe(120_000_000n)
+    expect((await client.getBuyout({ args: { buyoutId } })).redeemedShares).toBe(60n)
+    expect(await redeemBuyout(client, localnet.algorand, bob, propertyId, buyoutId, 40n)).toBe(80_000_000n)
+    expect((await localnet.algorand.asset.getAccountInformation(bob, propertyId)).balance).toBe(0n)
+
+    // The last redemption closes the listing and the offer
+    await expect(client.getPropertyInfo({ args: { propertyId } })).rejects.toThrow()
+    await expect(client.getBuyout({ args: { buyoutId } })).rejects.toThrow()
+    expect(await client.getOwnerListings({ args: { owner: testAccount.toString() } })).toEqual([])
+  })
+
+  test('a rejected buyout refunds the bidder, voters recover their shares and a new offer can follow', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const alice = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const bob = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const bidder = (await generateAccount({ initialFunds: algo(1000) })).addr
+    const { client } = await deploy(testAccount)
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '1010 Holdout Way', 100n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, alice, propertyId, 30n, 1_000_000n)
+    await purchaseShares(client, localnet.algorand, bob, propertyId, 70n, 1_000_000n)
+
+    const buyoutId = await offerBuyout(client, localnet.algorand, bidder, propertyId, 150_000_000n)
+    await voteOnBuyout(client, localnet.algorand, alice, propertyId, buyoutId, 30n, true)
+    await voteOnBuyout(client, localnet.algorand, bob, propertyId, buyoutId, 70n, false)
+
+    // Without a majority for it, the buyout can only be decided after the deadline
+    await expect(client.send.finalizeBuyout({ args: { buyoutId } })).rejects.toThrow()
+    const buyout = await client.getBuyout({ args: { buyoutId } })
+    expect(buyout.votesFor).toBe(30n)
+    expect(buyout.votesAgainst).toBe(70n)
+    await advancePastRound(localnet.algorand, testAccount, buyout.deadlineRound)
+
+    const bidderBefore = (await localnet.algorand.account.getInformation(bidder)).balance.microAlgo
+    const finalized = await client.send.finalizeBuyout({ args: { buyoutId }, extraFee: microAlgo(1000) })
+    expect(finalized.return).toBe(2n)
+    // The offer, plus the active offer box MBR now the property is free again
+    const bidderAfter = (await localnet.algorand.account.getInformation(bidder)).balance.microAlgo
+    expect(bidderAfter - bidderBefore).toBe(150_014_100n)
+    await expect(redeemBuyout(client, localnet.algorand, alice, propertyId, buyoutId, 0n)).rejects.toThrow()
+
+    // A new offer can be made while voters still have shares locked in the rejected one
+    expect(await client.getActiveBuyout({ args: { propertyId } })).toBe(0n)
+    const nextBuyoutId = await offerBuyout(client, localnet.algorand, bidder, propertyId, 250_000_000n)
+    expect(nextBuyoutId).toBe(buyoutId + 1n)
+    expect(await client.getActiveBuyout({ args: { propertyId } })).toBe(nextBuyoutId)
+
+    for (const voter of [alice, bob]) {
+      await client.send.withdrawBuyoutVote({
+        sender: voter,
+        args: { buyoutId },
+        assetReferences: [propertyId],
+        // Share transfer + vote MBR refund, plus the bidder's MBR refund after the last vote
+        extraFee: microAlgo(3000),
+      })
+    }
+    expect((await localnet.algorand.asset.getAccountInformation(bob, propertyId)).balance).toBe(70n)
+    await expect(client.getBuyout({ args: { buyoutId } })).rejects.toThrow()
+
+    // Votes on the new offer are its own: Bob's shares carry it this time
+    await voteOnBuyout(client, localnet.algorand, bob, propertyId, nextBuyoutId, 70n, true)
+    expect((await client.send.finalizeBuyout({ args: { buyoutId: nextBuyoutId } })).return).toBe(1n)
+  })
+
+  test('reserved shares are held back until the buyer pays the rest', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const alice = (await generateAccount({ initialFunds: algo(100) })).addr
+    const bob = (await generateAccount({ initialFunds: algo(200) })).addr
+    const { client } = await deploy(testAccount)
+
+    // Reservations hold for 10 rounds on a 10% deposit
+    const propertyId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      '1100 Escrow Ct',
+      100n,
+      1_000_000n,
+      0n,
+      0n,
+      0n,
+      undefined,
+      {},
+      {},
+      { rounds: 10n, depositBps: 1000n },
+    )
+
+    // The deposit has to cover the listing's rate
+    await expect(reserveShares(client, localnet.algorand, alice, propertyId, 20n, 1_000_000n)).rejects.toThrow()
+    await reserveShares(client, localnet.algorand, alice, propertyId, 20n, 2_000_000n)
+    const reservation = await client.getReservation({ args: { propertyId, holder: alice.toString() } })
+    expect(reservation.shares).toBe(20n)
+    expect(reservation.cost).toBe(20_000_000n)
+    expect(reservation.deposit).toBe(2_000_000n)
+
+    let property = await client.getPropertyInfo({ args: { propertyId } })
+    expect(property.availableShares).toBe(80n)
+    expect(property.reservedShares).toBe(20n)
+    // Nobody else can buy the reserved shares, and the owner can't close the sale under the reservation
+    await expect(purchaseShares(client, localnet.algorand, bob, propertyId, 81n, 1_000_000n)).rejects.toThrow()
+    await expect(
+      client.send.closePrimarySale({ args: { propertyId }, assetReferences: [propertyId] }),
+    ).rejects.toThrow()
+
+    const ownerBefore = (await localnet.algorand.account.getInformation(testAccount)).balance.microAlgo
+    const result = await client.send.completeReservation({
+      sender: alice,
+      args: {
+        propertyId,
+        payment: await localnet.algorand.createTransaction.payment({
+          sender: alice,
+          amount: microAlgo(18_000_000),
+          receiver: client.appAddress,
+        }),
+      },
+      boxReferences: [
+        createBoxReference(client.appId, 'properties', propertyId),
+        createHolderBoxReference(client.appId, 'reservations', propertyId, alice),
+      ],
+      assetReferences: [propertyId],
+      // Share transfer + owner payment + MBR refund
+      extraFee: microAlgo(3000),
+    })
+    expect(result.return).toBe(20n)
+
+    // The owner is paid the full reserved price, deposit included
+    const ownerAfter = (await localnet.algorand.account.getInformation(testAccount)).balance.microAlgo
+    expect(ownerAfter - ownerBefore).toBe(20_000_000n)
+    expect((await localnet.algorand.asset.getAccountInformation(alice, propertyId)).balance).toBe(20n)
+    property = await client.getPropertyInfo({ args: { propertyId } })
+    expect(property.availableShares).toBe(80n)
+    expect(property.reservedShares).toBe(0n)
+    expect(property.sharesSold).toBe(20n)
+    await expect(client.getReservation({ args: { propertyId, holder: alice.toString() } })).rejects.toThrow()
+  })
+
+  test('an expired reservation puts the shares back on sale and settles the deposit by listing policy', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const alice = (await generateAccount({ initialFunds: algo(100) })).addr
+    const keeper = (await generateAccount({ initialFunds: algo(10) })).addr
+    const { client } = await deploy(testAccount)
+    const balance = async (account: Address) =>
+      (await localnet.algorand.account.getInformation(account)).balance.microAlgo
+
+    for (const forfeitDeposit of [false, true]) {
+      const propertyId = await createListing(
+        client,
+        localnet.algorand,
+        testAccount,
+        forfeitDeposit ? '1200 Forfeit Fwy' : '1210 Refund Row',
+        100n,
+        1_000_000n,
+        0n,
+        0n,
+        0n,
+        undefined,
+        {},
+        {},
+        { rounds: 2n, depositBps: 500n, forfeitDeposit },
+      )
+      const expiresRound = await reserveShares(client, localnet.algorand, alice, propertyId, 10n, 500_000n)
+
+      // Nobody can release it early
+      const expire = () =>
+        client.send.expireReservation({
+          sender: keeper,
+          args: { propertyId, holder: alice.toString() },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createHolderBoxReference(client.appId, 'reservations', propertyId, alice),
+          ],
+          // Deposit payout + MBR refund
+          extraFee: microAlgo(2000),
+        })
+      await expect(expire()).rejects.toThrow()
+      await advancePastRound(localnet.algorand, testAccount, expiresRound)
+
+      const aliceBefore = await balance(alice)
+      const ownerBefore = await balance(testAccount)
+      await expire()
+
+      // Alice always gets the box MBR back, and the deposit unless the listing forfeits it
+      expect((await balance(alice)) - aliceBefore).toBe(forfeitDeposit ? 36_100n : 536_100n)
+      expect((await balance(testAccount)) - ownerBefore).toBe(forfeitDeposit ? 500_000n : 0n)
+      const property = await client.getPropertyInfo({ args: { propertyId } })
+      expect(property.availableShares).toBe(100n)
+      expect(property.reservedShares).toBe(0n)
+    }
+  })
+
+  test('a registered referrer is paid the listing commission out of the owner proceeds', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const alice = (await generateAccount({ initialFunds: algo(100) })).addr
+    const partner = (await generateAccount({ initialFunds: algo(10) })).addr
+    const { client } = await deploy(testAccount)
+    const balance = async (account: Address) =>
+      (await localnet.algorand.account.getInformation(account)).balance.microAlgo
+
+    // 5% of what the owner receives goes to the partner who referred the buyer
+    const propertyId = await createListing(
+      client,
+      localnet.algorand,
+      testAccount,
+      '1300 Partner Pl',
+      100n,
+      1_000_000n,
+      0n,
+      0n,
+      0n,
+      undefined,
+      {},
+      {},
+      {},
+      500n,
+    )
+
+    // A purchase can only name a partner who has registered for the listing's currency
+    await expect(
+      purchaseShares(client, localnet.algorand, alice, propertyId, 10n, 1_000_000n, partner),
+    ).rejects.toThrow()
+    await client.send.registerReferrer({
+      sender: partner,
+      args: {
+        mbrPayment: await localnet.algorand.createTransaction.payment({
+          sender: partner,
+          amount: microAlgo(25_300),
+          receiver: client.appAddress,
+        }),
+        paymentAssetId: 0n,
+      },
+    })
+
+    const ownerBefore = await balance(testAccount)
+    const partnerBefore = await balance(partner)
+    await purchaseShares(client, localnet.algorand, alice, propertyId, 10n, 1_000_000n, partner)
+
+    expect((await balance(partner)) - partnerBefore).toBe(500_000n)
+    expect((await balance(testAccount)) - ownerBefore).toBe(9_500_000n)
+    const earnings = await client.getReferralEarnings({ args: { referrer: partner.toString(), paymentAssetId: 0n } })
+    expect(earnings).toBe(500_000n)
+
+    // Buyers can't refer themselves
+    await expect(purchaseShares(client, localnet.algorand, alice, propertyId, 10n, 1_000_000n, alice)).rejects.toThrow()
+  })
+
+  test('the appraiser keeps a bounded valuation history whose MBR is paid back on delist', async () => {
+    const { testAccount, generateAccount } = localnet.context
+    const appraiser = (await generateAccount({ initialFunds: algo(10) })).addr
+    const { client } = await deploy(testAccount)
+    const appBalance = async () => (await localnet.algorand.account.getInformation(client.appAddress)).balance.microAlgo
+
+    const propertyId = await createListing(client, localnet.algorand, testAccount, '1400 Value Ln', 100n, 1_000_000n)
+    const before = await appBalance()
+    // The first appointment pays for the appraiser box and the full valuation history box
+    const setAppraiser = (sender: Address, account: Address) =>
+      client.send.setAppraiser({
+        sender,
+        args: {
+          mbrPayment: localnet.algorand.createTransaction.payment({
+            sender,
+            amount: microAlgo(263_400),
+            receiver: client.appAddress,
+          }),
+          propertyId,
+          appraiser: account.toString(),
+        },
+      })
+    const postValuation = (sender: Address, totalValue: bigint, timestamp: bigint) =>
+      client.send.postValuation({
+        sender,
+        args: { propertyId, totalValue, timestamp, documentHash: new Uint8Array(32).fill(Number(timestamp % 256n)) },
+      })
+
+    // Only the owner can appoint an appraiser, and not themselves
+    await expect(setAppraiser(appraiser, appraiser)).rejects.toThrow()
+    await expect(setAppraiser(testAccount, testAccount)).rejects.toThrow()
+    await setAppraiser(testAccount, appraiser)
+    expect(await client.getAppraiser({ args: { propertyId } })).toBe(appraiser.toString())
+    expect(await appBalance()).toBe(before + 263_400n)
+    await expect(client.getLatestValuation({ args: { propertyId } })).rejects.toThrow()
+
+    // Only the appraiser can post, and never in the future
+    await expect(postValuation(testAccount, 100_000_000n, 1_700_000_000n)).rejects.toThrow()
+    await expect(postValuation(appraiser, 100_000_000n, 4_000_000_000n)).rejects.toThrow()
+
+    // The 13th valuation pushes the first out of the history
+    for (let i = 0n; i < 13n; i++) {
+      await postValuation(appraiser, 100_000_000n + i * 1_000_000n, 1_700_000_000n + i)
+    }
+    const latest = await client.getLatestValuation({ args: { propertyId } })
+    expect(latest.totalValue).toBe(112_000_000n)
+    expect(latest.timestamp).toBe(1_700_000_012n)
+    expect(latest.documentHash).toEqual(new Uint8Array(32).fill(Number(1_700_000_012n % 256n)))
+    const history = (await client.getValuationHistory({ args: { propertyId } })).map(ValuationStructFromTuple)
+    expect(history.length).toBe(12)
+    expect(history[0].totalValue).toBe(101_000_000n)
+
+    // Valuations are posted in date order
+    await expect(postValuation(appraiser, 90_000_000n, 1_700_000_011n)).rejects.toThrow()
+
+    // Delisting pays the appraisal MBR back along with the listing and owner index MBR
+    await client.send.delistProperty({
+      args: { propertyId },
+      boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
+      assetReferences: [propertyId],
+      // The MBR refund, plus destroying the share asset
+      extraFee: microAlgo(2000),
+    })
+    const listingMbr = 2500n + 400n * (18n + 254n + BigInt('1400 Value Ln'.length + 'PROP'.length))
+    expect(await appBalance()).toBe(before - listingMbr - 21_300n - 100_000n)
+  })
 })
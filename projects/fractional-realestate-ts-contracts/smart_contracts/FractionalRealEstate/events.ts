@@ -0,0 +1,70 @@
+import { ABIType, ABIValue } from 'algosdk'
+import { createHash } from 'crypto'
+import { APP_SPEC } from '../artifacts/FractionalRealEstate/FractionalRealEstateClient'
+
+// ARC-28 events the contract logs as listings change
+export type PropertyListedEvent = {
+  name: 'PropertyListed'
+  propertyId: bigint
+  owner: string
+  shares: bigint
+  pricePerShare: bigint
+  availableShares: bigint
+}
+
+export type SharesPurchasedEvent = {
+  name: 'SharesPurchased'
+  propertyId: bigint
+  buyer: string
+  shares: bigint
+  amount: bigint
+  availableShares: bigint
+}
+
+export type PropertyDelistedEvent = {
+  name: 'PropertyDelisted'
+  propertyId: bigint
+  owner: string
+  shares: bigint
+  availableShares: bigint
+}
+
+export type PropertyEvent = PropertyListedEvent | SharesPurchasedEvent | PropertyDelistedEvent
+
+// An event log is the first 4 bytes of the SHA-512/256 hash of the event signature,
+// followed by the ABI-encoded tuple of its arguments
+const EVENT_DECODERS = (APP_SPEC.events ?? []).map((event) => {
+  const types = event.args.map((arg) => arg.type).join(',')
+  return {
+    name: event.name,
+    argNames: event.args.map((arg, index) => arg.name ?? `arg${index}`),
+    selector: createHash('sha512-256').update(`${event.name}(${types})`).digest().subarray(0, 4),
+    type: ABIType.from(`(${types})`),
+  }
+})
+
+/**
+ * Decode one transaction log into a contract event, or undefined if the log isn't one of its events.
+ * @param log A log entry, as found in a confirmed transaction's logs
+ */
+export function decodeEvent(log: Uint8Array): PropertyEvent | undefined {
+  const decoder = EVENT_DECODERS.find(
+    ({ selector }) => log.length >= 4 && selector.every((byte, index) => log[index] === byte),
+  )
+  if (!decoder) return undefined
+
+  const values = decoder.type.decode(log.slice(4)) as ABIValue[]
+  return Object.fromEntries([
+    ['name', decoder.name],
+    ...decoder.argNames.map((argName, index) => [argName, values[index]]),
+  ]) as PropertyEvent
+}
+
+/**
+ * Decode every contract event in a transaction's logs, in the order they were logged. Other logs,
+ * such as ABI return values, are skipped.
+ * @param logs The logs of a confirmed transaction (e.g. `confirmation.logs`)
+ */
+export function decodeEvents(logs: Uint8Array[] | undefined): PropertyEvent[] {
+  return (logs ?? []).map(decodeEvent).filter((event): event is PropertyEvent => event !== undefined)
+}
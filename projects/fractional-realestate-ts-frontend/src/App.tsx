@@ -3,6 +3,7 @@ import { SnackbarProvider } from 'notistack'
 import Home from './Home'
 import { getAlgodConfigFromViteEnvironment, getKmdConfigFromViteEnvironment } from './utils/getAlgorandConfigs'
 import { AppClientProvider } from './context/AppClientContext'
+import { RefreshProvider } from './context/RefreshContext'
 
 let supportedWallets: SupportedWallet[]
 
@@ -53,7 +54,9 @@ export default function App() {
     <SnackbarProvider maxSnack={3}>
       <WalletProvider manager={walletManager}>
         <AppClientProvider>
-          <Home />
+          <RefreshProvider>
+            <Home />
+          </RefreshProvider>
         </AppClientProvider>
       </WalletProvider>
     </SnackbarProvider>
@@ -1,126 +1,148 @@
 import { useWallet } from '@txnlab/use-wallet-react'
-import React, { useEffect } from 'react'
+import React, { useEffect, useMemo } from 'react'
+import CartPanel from './components/CartPanel'
 import HeroSection from './components/HeroSection'
 import ListPropertyForm from './components/ListPropertyForm'
+import LoadMoreTrigger from './components/LoadMoreTrigger'
 import Navbar from './components/Navbar'
 import PropertyGrid from './components/PropertyGrid'
+import ReferralPanel from './components/ReferralPanel'
 import OwnedPropertyGrid from './components/OwnedPropertyGrid'
+import OwnerDashboard from './components/OwnerDashboard'
 import { useAppClient } from './context/AppClientContext'
-import { useBuyShares } from './hooks/useBuyShares'
-import { useListProperty } from './hooks/useListProperty'
+import { useRefresh } from './context/RefreshContext'
+import { useCart } from './hooks/useCart'
+import { useCurrencies } from './hooks/useCurrencies'
 import { useOwnedProperties } from './hooks/useOwnedProperties'
-import { useDelistProperty } from './hooks/useDelistProperty'
+import { useMarketStats } from './hooks/useMarketStats'
+import { useOwnerListings } from './hooks/useOwnerListings'
+import { usePaused } from './hooks/usePaused'
+import { usePlatformFee } from './hooks/usePlatformFee'
+import { usePropertyMetadata } from './hooks/usePropertyMetadata'
 import { useProperties } from './hooks/useProperties'
-import { useSnackbar } from 'notistack'
+import { useProposals } from './hooks/useProposals'
+import { useBuyouts } from './hooks/useBuyouts'
+import { useReservations } from './hooks/useReservations'
+import { useSellOrders } from './hooks/useSellOrders'
+import { useValuations } from './hooks/useValuations'
+import { getReferrer } from './utils/referral'
 
 const Home: React.FC = () => {
   // --- Hooks for Algorand contract and wallet ---
   const { appClient } = useAppClient()
   const { activeAddress } = useWallet()
-  const { enqueueSnackbar } = useSnackbar()
+  const { refreshKey } = useRefresh()
+  // Partner whose referral link brought the user here, if any
+  const referrer = useMemo(getReferrer, [])
 
   // --- Hooks for contract logic ---
-  const { properties, loading: propertiesLoading, error: propertiesError, refresh: refreshProperties } = useProperties(appClient)
-  const { listProperty, loading: listingLoading, error: listingError, success: listingSuccess } = useListProperty(appClient, activeAddress)
-  const { buyShares, loading: buyLoading, error: buyError, success: buySuccess, buyingPropertyId } = useBuyShares(appClient, activeAddress)
   const {
-    delistProperty,
-    loading: delistLoading,
-    error: delistError,
-    success: delistSuccess,
-    delistingPropertyId,
-  } = useDelistProperty(appClient, activeAddress)
+    properties,
+    priceTiers,
+    pendingOwners,
+    currentRound,
+    hasMore: moreProperties,
+    loading: propertiesLoading,
+    loadingMore: morePropertiesLoading,
+    error: propertiesError,
+    refresh: refreshProperties,
+    loadMore: loadMoreProperties,
+  } = useProperties(appClient)
+  const { feeBps, refresh: refreshFee } = usePlatformFee(appClient)
+  const { paused, refresh: refreshPaused } = usePaused(appClient)
+  const { currencies, refresh: refreshCurrencies } = useCurrencies(
+    appClient,
+    properties.map(([, property]) => property.paymentAssetId),
+  )
+  const { metadata, refresh: refreshMetadata } = usePropertyMetadata(appClient)
+  const {
+    items: cartItems,
+    addToCart,
+    removeFromCart,
+    clearCart,
+    checkout,
+    loading: cartLoading,
+    error: cartError,
+    success: cartSuccess,
+  } = useCart(appClient, activeAddress, referrer)
   const { ownedProperties, loading: ownedLoading, error: ownedError, refresh: refreshOwned } = useOwnedProperties(appClient, activeAddress)
+  const {
+    listings: myListings,
+    loading: myListingsLoading,
+    error: myListingsError,
+    refresh: refreshMyListings,
+  } = useOwnerListings(appClient, activeAddress)
+  const { stats, refresh: refreshStats } = useMarketStats(appClient)
+  const { orders: sellOrders, refresh: refreshOrders } = useSellOrders(appClient)
+  const { proposals, refresh: refreshProposals } = useProposals(appClient, activeAddress)
+  const propertyIds = properties.map(([propertyId]) => propertyId)
+  const { buyouts, refresh: refreshBuyouts } = useBuyouts(appClient, activeAddress, propertyIds)
+  const { reservations, refresh: refreshReservations } = useReservations(appClient, propertyIds)
+  const { appraisers, latestValuations, refresh: refreshValuations } = useValuations(appClient, propertyIds)
 
-  // --- Refresh properties when a property is listed or shares are bought ---
+  // --- Reload the on-chain data on connect and after any panel's transaction lands ---
   useEffect(() => {
     refreshProperties()
     refreshOwned()
-  }, [appClient, listingSuccess, buySuccess, delistSuccess, activeAddress, refreshProperties, refreshOwned])
+    refreshMyListings()
+    refreshStats()
+    refreshOrders()
+    refreshProposals()
+    refreshFee()
+    refreshPaused()
+  }, [
+    appClient,
+    activeAddress,
+    refreshKey,
+    refreshProperties,
+    refreshOwned,
+    refreshMyListings,
+    refreshStats,
+    refreshOrders,
+    refreshProposals,
+    refreshFee,
+    refreshPaused,
+  ])
+
+  // --- Load buyouts, reservations and valuations for the listings paged in so far ---
+  useEffect(() => {
+    refreshBuyouts()
+    refreshReservations()
+    refreshValuations()
+  }, [refreshKey, refreshBuyouts, refreshReservations, refreshValuations])
 
-  // --- Handle property listing form submit ---
-  const handleListProperty = async (propertyAddress: string, shares: string, pricePerShare: string) => {
-    await listProperty(propertyAddress, shares, pricePerShare, (txId?: string) => {
-      if (txId) {
-        enqueueSnackbar(
-          <span>
-            Property listed! TX:{' '}
-            <a
-              href={`https://lora.algokit.io/localnet/transaction/${txId}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="underline text-blue-100"
-            >
-              {txId}
-            </a>
-          </span>,
-          { variant: 'success' },
-        )
-      }
-    })
-  }
+  // --- Load currency details once the listings (and the ASAs they're priced in) are known ---
+  useEffect(() => {
+    refreshCurrencies()
+  }, [refreshCurrencies])
 
-  // --- Handle delist property callback ---
-  const handleDelistProperty = async (propertyId: bigint) => {
-    await delistProperty(propertyId, (txId?: string) => {
-      if (txId) {
-        enqueueSnackbar(
-          <span>
-            Property delisted! TX:{' '}
-            <a
-              href={`https://lora.algokit.io/localnet/transaction/${txId}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="underline text-blue-100"
-            >
-              {txId}
-            </a>
-          </span>,
-          { variant: 'success' },
-        )
-      }
-    })
-  }
+  // --- Fetch off-chain metadata for the listings ---
+  useEffect(() => {
+    refreshMetadata(properties)
+  }, [properties, refreshMetadata])
 
-  // --- Handle buy shares callback ---
-  const handleBuyShares = async (propertyId: bigint, pricePerShare: bigint, ownerAddress: string, buyAmount: string) => {
-    await buyShares(propertyId, pricePerShare, ownerAddress, buyAmount, (txId?: string) => {
-      if (txId) {
-        enqueueSnackbar(
-          <span>
-            Shares purchased! TX:{' '}
-            <a
-              href={`https://lora.algokit.io/localnet/transaction/${txId}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="underline text-blue-100"
-            >
-              {txId}
-            </a>
-          </span>,
-          { variant: 'success' },
-        )
-      }
-    })
-  }
+  // Shares the connected user already holds in each property, for the per-account cap
+  const heldShares: Record<string, bigint> = Object.fromEntries(
+    ownedProperties.map((owned) => [owned.assetId.toString(), owned.sharesOwned]),
+  )
 
   return (
     <div className="min-h-screen flex flex-col bg-gray-50">
       <Navbar />
+      {/* --- Emergency stop banner --- */}
+      {paused && (
+        <div className="bg-amber-100 border-b border-amber-200 px-6 py-3 text-center text-sm font-medium text-amber-800">
+          Contract is paused. Listing, buying and delisting are disabled until the admin resumes it.
+        </div>
+      )}
       {/* --- Hero and Listing Form Section --- */}
       <div className="mx-auto grid max-w-7xl grid-cols-1 lg:grid-cols-2 flex-1 w-full">
         {/* --- Hero Section --- */}
-        <HeroSection />
+        <HeroSection stats={stats} />
         {/* --- Property Listing Form --- */}
         <div className="px-6 pt-16 pb-12 sm:pb-24 lg:px-8 lg:py-32 flex items-center">
           <div className="mx-auto max-w-xl lg:mr-0 lg:max-w-lg w-full">
-            <ListPropertyForm
-              listingLoading={listingLoading}
-              listingError={listingError}
-              listingSuccess={listingSuccess}
-              activeAddress={activeAddress}
-              handleListProperty={handleListProperty}
-            />
+            <ListPropertyForm activeAddress={activeAddress} paused={paused} currencies={currencies} />
           </div>
         </div>
       </div>
@@ -128,6 +150,17 @@ const Home: React.FC = () => {
       <div className="mx-auto max-w-7xl w-full px-6 pb-16">
         <div className="rounded-xl shadow-md p-6 bg-white">
           <h2 className="text-2xl font-semibold text-gray-800 mb-4">Listed Properties</h2>
+          <CartPanel
+            items={cartItems}
+            currencies={currencies}
+            paused={paused}
+            cartLoading={cartLoading}
+            cartError={cartError}
+            cartSuccess={cartSuccess}
+            handleCheckout={checkout}
+            handleRemoveFromCart={removeFromCart}
+            handleClearCart={clearCart}
+          />
           {propertiesLoading ? (
             <div className="text-center text-gray-500">Loading properties...</div>
           ) : propertiesError ? (
@@ -138,25 +171,58 @@ const Home: React.FC = () => {
             <PropertyGrid
               properties={properties}
               activeAddress={activeAddress}
-              buyingPropertyId={buyingPropertyId}
-              buyLoading={buyLoading}
-              buyError={buyError}
-              buySuccess={buySuccess}
-              handleBuyShares={handleBuyShares}
-              delistingPropertyId={delistingPropertyId}
-              delistLoading={delistLoading}
-              delistError={delistError}
-              delistSuccess={delistSuccess}
-              handleDelistProperty={handleDelistProperty}
+              currentRound={currentRound}
+              feeBps={feeBps}
+              paused={paused}
+              currencies={currencies}
+              metadata={metadata}
+              heldShares={heldShares}
+              priceTiers={priceTiers}
+              pendingOwners={pendingOwners}
+              sellOrders={sellOrders}
+              proposals={proposals}
+              buyouts={buyouts}
+              reservations={reservations}
+              cartItems={cartItems}
+              handleAddToCart={addToCart}
+              appraisers={appraisers}
+              latestValuations={latestValuations}
             />
           )}
+          {!propertiesLoading && !propertiesError && (
+            <LoadMoreTrigger hasMore={moreProperties} loading={morePropertiesLoading} onLoadMore={loadMoreProperties} />
+          )}
         </div>
       </div>
+      {/* --- Owner Dashboard Section --- */}
+      {activeAddress && (
+        <div className="mx-auto max-w-7xl w-full px-6 pb-16">
+          <div className="rounded-xl shadow-md p-6 bg-white">
+            <h2 className="text-2xl font-semibold text-gray-800 mb-4">Your Listings</h2>
+            <OwnerDashboard listings={myListings} loading={myListingsLoading} error={myListingsError} currencies={currencies} />
+          </div>
+        </div>
+      )}
+      {/* --- Referral Earnings Section --- */}
+      {activeAddress && (
+        <div className="mx-auto max-w-7xl w-full px-6 pb-16">
+          <div className="rounded-xl shadow-md p-6 bg-white">
+            <h2 className="text-2xl font-semibold text-gray-800 mb-4">Referral Earnings</h2>
+            <ReferralPanel activeAddress={activeAddress} currencies={currencies} />
+          </div>
+        </div>
+      )}
       {/* --- Owned Properties Section --- */}
       <div className="mx-auto max-w-7xl w-full px-6 pb-16">
         <div className="rounded-xl shadow-md p-6 bg-white">
           <h2 className="text-2xl font-semibold text-gray-800 mb-4">Properties You Own Shares In</h2>
-          <OwnedPropertyGrid ownedProperties={ownedProperties} loading={ownedLoading} error={ownedError} />
+          <OwnedPropertyGrid
+            ownedProperties={ownedProperties}
+            loading={ownedLoading}
+            error={ownedError}
+            currentRound={currentRound}
+            currencies={currencies}
+          />
         </div>
       </div>
     </div>
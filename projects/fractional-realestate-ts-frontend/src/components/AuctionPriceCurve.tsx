@@ -0,0 +1,55 @@
+import React from 'react'
+import { Currency, formatAmount } from '../utils/currency'
+import { formatTimeRemaining, getAuctionPrice } from '../utils/pricing'
+
+interface AuctionPriceCurveProps {
+  auction: { pricePerShare: bigint; auctionFloor: bigint; saleStart: bigint; saleEnd: bigint }
+  now: bigint
+  currency: Currency
+}
+
+const WIDTH = 200
+const HEIGHT = 60
+
+/**
+ * Chart of a Dutch auction's price over its sale window, from the start price down to the floor,
+ * with a marker at the current price.
+ */
+const AuctionPriceCurve: React.FC<AuctionPriceCurveProps> = ({ auction, now, currency }) => {
+  const { pricePerShare, auctionFloor, saleStart, saleEnd } = auction
+  const price = getAuctionPrice(auction, now)
+
+  // Time runs left to right over the sale window, and price from 0 at the bottom to the start price at the top
+  const duration = Number(saleEnd - saleStart)
+  const elapsed = Math.min(Math.max(Number(now - saleStart), 0), duration)
+  const x = (elapsed / duration) * WIDTH
+  const y = (value: bigint) => HEIGHT - (Number(value) / Number(pricePerShare)) * (HEIGHT - 4)
+
+  return (
+    <div className="px-6 pb-4 text-xs">
+      <div className="flex justify-between text-gray-500 mb-1">
+        <span>Dutch auction</span>
+        <span className="font-semibold text-gray-700">Now {formatAmount(price, currency)}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-16" preserveAspectRatio="none" aria-label="Auction price over time">
+        <polygon points={`0,${y(pricePerShare)} ${WIDTH},${y(auctionFloor)} ${WIDTH},${HEIGHT} 0,${HEIGHT}`} className="fill-teal-50" />
+        <line x1={0} y1={y(pricePerShare)} x2={WIDTH} y2={y(auctionFloor)} className="stroke-teal-500" strokeWidth={1.5} />
+        <line x1={x} y1={0} x2={x} y2={HEIGHT} className="stroke-gray-300" strokeDasharray="2 2" />
+        <circle cx={x} cy={y(price)} r={3} className="fill-teal-600" />
+      </svg>
+      <div className="flex justify-between text-gray-400 mt-1">
+        <span>{formatAmount(pricePerShare, currency)}</span>
+        <span>
+          {now < saleStart
+            ? `Starts in ${formatTimeRemaining(saleStart - now)}`
+            : now < saleEnd
+              ? `Floor in ${formatTimeRemaining(saleEnd - now)}`
+              : 'Auction over'}
+        </span>
+        <span>{formatAmount(auctionFloor, currency)}</span>
+      </div>
+    </div>
+  )
+}
+
+export default AuctionPriceCurve
@@ -0,0 +1,200 @@
+import React, { useState } from 'react'
+import { useAppClient } from '../context/AppClientContext'
+import { useBuyoutActions } from '../hooks/useBuyoutActions'
+import { Buyout, BUYOUT_ACCEPTED, BUYOUT_OPEN, BUYOUT_REJECTED } from '../hooks/useBuyouts'
+import { Property } from '../hooks/useProperties'
+import { useTxSnackbar } from '../hooks/useTxSnackbar'
+import { ALGO, formatAmount } from '../utils/currency'
+import { ellipseAddress } from '../utils/ellipseAddress'
+
+interface BuyoutPanelProps {
+  propertyId: bigint
+  property: Property
+  // Every offer on the property: the active one, plus rejected ones voters still have shares locked in
+  buyouts: Buyout[]
+  heldShares: bigint
+  currentRound: bigint
+  activeAddress: string | null | undefined
+}
+
+const statusLabel = (buyout: Buyout, currentRound: bigint) => {
+  if (buyout.status === BUYOUT_ACCEPTED) return 'Accepted'
+  return currentRound > buyout.deadlineRound ? 'Awaiting result' : `Open until round ${buyout.deadlineRound.toString()}`
+}
+
+/**
+ * Offer to buy the whole property, vote on an open offer with your shares, and redeem your
+ * shares for your cut once holders of more than half the shares have accepted. A new offer can
+ * be made as soon as the last one is rejected, and votes on rejected offers can still be withdrawn.
+ */
+const BuyoutPanel: React.FC<BuyoutPanelProps> = ({ propertyId, property, buyouts, heldShares, currentRound, activeAddress }) => {
+  const { appClient } = useAppClient()
+  const {
+    offerBuyout,
+    voteOnBuyout,
+    finalizeBuyout,
+    withdrawBuyoutVote,
+    redeemBuyout,
+    loading: isBusy,
+    error: buyoutError,
+    success: buyoutSuccess,
+  } = useBuyoutActions(appClient, activeAddress)
+  const notifyTx = useTxSnackbar()
+  const [offerAmount, setOfferAmount] = useState('')
+  const [votingRounds, setVotingRounds] = useState('1000')
+  const [voteAmount, setVoteAmount] = useState(heldShares.toString())
+
+  // A property has at most one open or accepted offer
+  const buyout = buyouts.find((offer) => offer.status !== BUYOUT_REJECTED)
+  const lockedInRejected = buyouts.filter((offer) => offer.status === BUYOUT_REJECTED && offer.myVote)
+
+  const isOfferValid = Number.isInteger(Number(offerAmount)) && Number(offerAmount) >= 1 && Number(votingRounds) >= 1
+  const isVoteValid = Number.isInteger(Number(voteAmount)) && Number(voteAmount) >= 1 && BigInt(Number(voteAmount)) <= heldShares
+
+  const votingOpen = buyout !== undefined && buyout.status === BUYOUT_OPEN && currentRound <= buyout.deadlineRound
+  // More than half of all shares in favour decides it straight away
+  const majorityReached = buyout !== undefined && buyout.votesFor * 2n > property.totalShares
+  const redeemableShares = heldShares + (buyout?.myVote?.shares ?? 0n)
+  const payoutPerShare = buyout ? buyout.amount / property.totalShares : 0n
+
+  return (
+    <div className="w-full bg-gray-50 rounded-lg p-4 flex flex-col gap-2 border border-gray-100 mt-3">
+      <div className="text-xs font-semibold text-gray-700">Buyout</div>
+      {activeAddress &&
+        lockedInRejected.map((offer) => (
+          <div key={offer.buyoutId.toString()} className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-gray-500">
+              Offer #{offer.buyoutId.toString()} was rejected. {offer.myVote?.shares.toString()} of your shares are locked in it.
+            </span>
+            <button
+              className="rounded-md bg-teal-500 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 disabled:bg-teal-200 disabled:cursor-not-allowed transition"
+              disabled={isBusy}
+              onClick={() => withdrawBuyoutVote(offer, notifyTx('Shares unlocked!'))}
+            >
+              Unlock shares
+            </button>
+          </div>
+        ))}
+      {buyout ? (
+        <div className="flex flex-col gap-1 text-xs">
+          <span className="text-gray-700">
+            {formatAmount(buyout.amount, ALGO)} for the whole property ({formatAmount(payoutPerShare, ALGO)} per share)
+          </span>
+          <span className="text-gray-400">
+            by <span className="font-mono">{ellipseAddress(buyout.bidder, 4)}</span> · {statusLabel(buyout, currentRound)}
+          </span>
+          <span className="text-gray-500">
+            For {buyout.votesFor.toString()} · Against {buyout.votesAgainst.toString()} · Needs more than{' '}
+            {(property.totalShares / 2n).toString()} shares
+          </span>
+          {buyout.status === BUYOUT_ACCEPTED && (
+            <span className="text-gray-500">
+              {buyout.redeemedShares.toString()} / {property.totalShares.toString()} shares redeemed
+            </span>
+          )}
+          {buyout.myVote && (
+            <span className="text-gray-500">
+              You voted {buyout.myVote.support ? 'for' : 'against'} with {buyout.myVote.shares.toString()} locked shares
+            </span>
+          )}
+          {activeAddress && votingOpen && !buyout.myVote && heldShares > 0n && (
+            <div className="flex items-center gap-1">
+              <input
+                aria-label="Shares to vote with"
+                className="block w-14 rounded-md border border-gray-300 bg-white px-1 py-0.5 text-xs shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100"
+                type="number"
+                min={1}
+                max={Number(heldShares)}
+                value={voteAmount}
+                onChange={(e) => setVoteAmount(e.target.value)}
+                disabled={isBusy}
+              />
+              <button
+                className="rounded-md bg-teal-500 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 disabled:bg-teal-200 disabled:cursor-not-allowed transition"
+                disabled={isBusy || !isVoteValid}
+                onClick={() => voteOnBuyout(buyout, voteAmount, true, notifyTx('Vote cast!'))}
+              >
+                Accept
+              </button>
+              <button
+                className="rounded-md bg-red-500 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-red-600 disabled:bg-red-200 disabled:cursor-not-allowed transition"
+                disabled={isBusy || !isVoteValid}
+                onClick={() => voteOnBuyout(buyout, voteAmount, false, notifyTx('Vote cast!'))}
+              >
+                Reject
+              </button>
+            </div>
+          )}
+          {activeAddress && (
+            <div className="flex items-center gap-1">
+              {buyout.status === BUYOUT_OPEN && (majorityReached || !votingOpen) && (
+                <button
+                  className="rounded-md bg-gray-900 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-gray-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+                  disabled={isBusy}
+                  onClick={() => finalizeBuyout(buyout, notifyTx('Buyout finalized!'))}
+                >
+                  Finalize
+                </button>
+              )}
+              {buyout.status === BUYOUT_ACCEPTED && redeemableShares > 0n && (
+                <button
+                  className="rounded-md bg-teal-500 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 disabled:bg-teal-200 disabled:cursor-not-allowed transition"
+                  disabled={isBusy}
+                  onClick={() => redeemBuyout(buyout, property, heldShares.toString(), notifyTx('Shares redeemed!'))}
+                >
+                  Redeem {redeemableShares.toString()} shares for {formatAmount(payoutPerShare * redeemableShares, ALGO)}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ) : property.availableShares > 0n ? (
+        <div className="text-xs text-gray-400">Buyouts open once every share has sold or the primary sale has closed.</div>
+      ) : activeAddress ? (
+        <div className="flex flex-col gap-2 w-full">
+          <div className="text-xs text-gray-400">Offer to buy every share. Your offer is held in escrow until holders decide.</div>
+          <div className="flex gap-2 items-center">
+            <input
+              aria-label="Total offer in microAlgos"
+              className="block w-32 rounded-md border border-gray-300 bg-white px-2 py-1 text-xs shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100"
+              type="number"
+              min={1}
+              value={offerAmount}
+              onChange={(e) => setOfferAmount(e.target.value)}
+              disabled={isBusy}
+              placeholder="microAlgos"
+            />
+            <input
+              aria-label="Voting period in rounds"
+              className="block w-24 rounded-md border border-gray-300 bg-white px-2 py-1 text-xs shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100"
+              type="number"
+              min={1}
+              value={votingRounds}
+              onChange={(e) => setVotingRounds(e.target.value)}
+              disabled={isBusy}
+              placeholder="Rounds"
+            />
+            <button
+              className="rounded-md bg-gray-900 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-gray-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+              disabled={isBusy || !isOfferValid}
+              onClick={() => offerBuyout(propertyId, offerAmount, votingRounds, notifyTx('Buyout offered!'))}
+            >
+              {isBusy ? 'Working...' : 'Offer'}
+            </button>
+          </div>
+          {isOfferValid && (
+            <div className="text-xs text-gray-500">
+              {formatAmount(BigInt(offerAmount), ALGO)} total, {formatAmount(BigInt(offerAmount) / property.totalShares, ALGO)} per share
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-xs text-gray-400">No buyout offer.</div>
+      )}
+      {buyoutError && <div className="text-red-500 text-xs mt-1">{buyoutError}</div>}
+      {buyoutSuccess && !buyoutError && <div className="text-green-600 text-xs mt-1">{buyoutSuccess}</div>}
+    </div>
+  )
+}
+
+export default BuyoutPanel
@@ -0,0 +1,96 @@
+import React from 'react'
+import { CartItem } from '../hooks/useCart'
+import { useTxSnackbar } from '../hooks/useTxSnackbar'
+import { Currency, formatAmount, getCurrency } from '../utils/currency'
+
+interface CartPanelProps {
+  items: CartItem[]
+  currencies: Currency[]
+  paused: boolean
+  cartLoading: boolean
+  cartError: string | null
+  cartSuccess: string | null
+  handleCheckout: (onTx?: (txId?: string) => void) => void
+  handleRemoveFromCart: (propertyId: bigint) => void
+  handleClearCart: () => void
+}
+
+/**
+ * Shares picked across several listings, bought together with one signature. Totals are the
+ * most each currency will cost; anything a purchase costs less than that is refunded.
+ */
+const CartPanel: React.FC<CartPanelProps> = ({
+  items,
+  currencies,
+  paused,
+  cartLoading,
+  cartError,
+  cartSuccess,
+  handleCheckout,
+  handleRemoveFromCart,
+  handleClearCart,
+}) => {
+  const notifyTx = useTxSnackbar()
+  if (items.length === 0 && !cartError && !cartSuccess) return null
+
+  const totals = new Map<bigint, bigint>()
+  for (const item of items) {
+    totals.set(item.property.paymentAssetId, (totals.get(item.property.paymentAssetId) ?? 0n) + item.maxTotal)
+  }
+
+  return (
+    <div className="w-full bg-gray-50 rounded-lg p-4 flex flex-col gap-2 border border-gray-100 mb-4">
+      <div className="text-sm font-semibold text-gray-700">Cart</div>
+      {items.length > 0 && (
+        <>
+          <ul className="divide-y divide-gray-100 text-xs">
+            {items.map((item) => (
+              <li key={item.property.propertyAssetId.toString()} className="flex items-center justify-between gap-2 py-1.5">
+                <span className="text-gray-700 truncate">
+                  {item.shares.toString()} shares of {item.property.address}
+                </span>
+                <span className="flex items-center gap-2 shrink-0">
+                  <span className="text-gray-500">
+                    up to {formatAmount(item.maxTotal, getCurrency(currencies, item.property.paymentAssetId))}
+                  </span>
+                  <button
+                    className="text-gray-400 hover:text-red-500 disabled:cursor-not-allowed transition"
+                    disabled={cartLoading}
+                    onClick={() => handleRemoveFromCart(item.property.propertyAssetId)}
+                  >
+                    Remove
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-gray-500">
+              Total: {[...totals.entries()].map(([assetId, total]) => formatAmount(total, getCurrency(currencies, assetId))).join(' + ')}
+            </span>
+            <span className="flex gap-2">
+              <button
+                className="rounded-md border border-gray-300 px-3 py-1.5 text-xs font-semibold text-gray-700 shadow-sm hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition"
+                disabled={cartLoading}
+                onClick={handleClearCart}
+              >
+                Clear
+              </button>
+              <button
+                className="rounded-md bg-teal-500 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 disabled:bg-teal-200 disabled:cursor-not-allowed transition"
+                disabled={cartLoading || paused}
+                onClick={() => handleCheckout(notifyTx('Cart purchased!'))}
+              >
+                {cartLoading ? 'Buying...' : `Buy all (${items.length})`}
+              </button>
+            </span>
+          </div>
+        </>
+      )}
+      {cartError && <div className="text-red-500 text-xs mt-1">{cartError}</div>}
+      {cartSuccess && !cartError && <div className="text-green-600 text-xs mt-1">{cartSuccess}</div>}
+    </div>
+  )
+}
+
+export default CartPanel
@@ -1,11 +1,14 @@
 import React from 'react'
 import { HomeIcon } from '@heroicons/react/24/outline'
+import { MarketStats } from '../hooks/useMarketStats'
+import { ALGO, formatAmount } from '../utils/currency'
 
 interface HeroSectionProps {
   appClientError?: Error | null
+  stats?: MarketStats | null
 }
 
-const HeroSection: React.FC<HeroSectionProps> = () => (
+const HeroSection: React.FC<HeroSectionProps> = ({ stats }) => (
   <div className="relative px-6 pt-16 pb-12 sm:pt-24 lg:static lg:px-8 lg:py-32 flex items-center">
     <div className="mx-auto max-w-xl lg:mx-0 lg:max-w-lg">
       <div className="absolute inset-y-0 left-0 -z-10 w-full overflow-hidden bg-gray-100 ring-1 ring-gray-900/10 lg:w-1/2">
@@ -33,6 +36,23 @@ const HeroSection: React.FC<HeroSectionProps> = () => (
         List properties, view available listings, and buy fractional shares. Connect your wallet to get started.
       </p>
 
+      {stats && (
+        <dl className="grid grid-cols-3 gap-4 mt-8">
+          <div>
+            <dt className="text-xs text-gray-500">Active listings</dt>
+            <dd className="text-2xl font-semibold text-gray-900">{stats.listingCount.toString()}</dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-500">Shares sold</dt>
+            <dd className="text-2xl font-semibold text-gray-900">{stats.totalSharesSold.toString()}</dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-500">Volume</dt>
+            <dd className="text-2xl font-semibold text-gray-900">{formatAmount(stats.totalVolume, ALGO)}</dd>
+          </div>
+        </dl>
+      )}
+
       <a
         href="https://github.com/your-org/fractional-realestate-ts"
         target="_blank"
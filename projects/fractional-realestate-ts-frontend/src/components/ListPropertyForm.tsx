@@ -1,31 +1,109 @@
 import { PlusCircleIcon } from '@heroicons/react/24/outline'
 import React, { useState } from 'react'
+import { useAppClient } from '../context/AppClientContext'
+import { baseUnitLabel, Currency, getCurrency } from '../utils/currency'
+import { formatLockupPeriod } from '../utils/lockup'
+import { MAX_PRICE_TIERS } from '../utils/pricing'
+import { PriceTierInput, useListProperty } from '../hooks/useListProperty'
+import { useTxSnackbar } from '../hooks/useTxSnackbar'
 
 interface ListPropertyFormProps {
-  listingLoading: boolean
-  listingError: string | null
-  listingSuccess: string | null
   activeAddress: string | null | undefined
-  handleListProperty: (propertyAddress: string, shares: string, pricePerShare: string) => void
+  paused: boolean
+  currencies: Currency[]
 }
 
-const ListPropertyForm: React.FC<ListPropertyFormProps> = ({
-  listingLoading,
-  listingError,
-  listingSuccess,
-  activeAddress,
-  handleListProperty,
-}) => {
+const ListPropertyForm: React.FC<ListPropertyFormProps> = ({ activeAddress, paused, currencies }) => {
+  const { appClient } = useAppClient()
+  const { listProperty, loading: listingLoading, error: listingError, success: listingSuccess } = useListProperty(appClient, activeAddress)
+  const notifyTx = useTxSnackbar()
   const [propertyAddress, setPropertyAddress] = useState('')
   const [shares, setShares] = useState('100')
   const [pricePerShare, setPricePerShare] = useState('1000000') // 1 Algo in microAlgos
+  const [fundingGoal, setFundingGoal] = useState('0')
+  const [fundingRounds, setFundingRounds] = useState('30000') // About a day of rounds
+  const [paymentAssetId, setPaymentAssetId] = useState('0') // ALGO
+  const [unitName, setUnitName] = useState('PROP')
+  const [metadataUrl, setMetadataUrl] = useState('')
+  const [metadataHash, setMetadataHash] = useState('')
+  const [metadataReserve, setMetadataReserve] = useState('')
+  const [maxSharesPerAccount, setMaxSharesPerAccount] = useState('0') // No cap
+  const [minPurchase, setMinPurchase] = useState('0') // No minimum
+  const [lockupRounds, setLockupRounds] = useState('0') // No lockup
+  const [saleStart, setSaleStart] = useState('') // Opens straight away
+  const [saleEnd, setSaleEnd] = useState('') // No end
+  const [priceTiers, setPriceTiers] = useState<PriceTierInput[]>([])
+  const [isAuction, setIsAuction] = useState(false)
+  const [auctionFloor, setAuctionFloor] = useState('500000') // Half the default start price
+  const [reservationRounds, setReservationRounds] = useState('0') // No reservations
+  const [reservationDeposit, setReservationDeposit] = useState('5') // Percent of the reserved price
+  const [forfeitDeposit, setForfeitDeposit] = useState(true)
+  const [referralCommission, setReferralCommission] = useState('0') // Percent of the sale proceeds
+
+  // ARC-19 URLs are templates completed by the asset's reserve address
+  const isArc19 = metadataUrl.startsWith('template-ipfs://')
+
+  const currency = getCurrency(currencies, BigInt(paymentAssetId))
+
+  // Refunds after a failed raise are paid at the listing price, so neither tiers nor an auction
+  // can be used with a funding goal
+  const tiersAllowed = Number(fundingGoal) === 0 && !isAuction
+  // Reserved shares are paid for later, which an all-or-nothing raise can't wait on
+  const reservationsAllowed = isAuction || Number(fundingGoal) === 0
+  const takesReservations = reservationsAllowed && Number(reservationRounds) > 0
+  // Commissions are paid out as shares sell, which would leave a failed raise short of its refunds
+  const referralsAllowed = isAuction || Number(fundingGoal) === 0
+
+  const updateTier = (index: number, field: keyof PriceTierInput, value: string) =>
+    setPriceTiers(priceTiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)))
 
   const onSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    handleListProperty(propertyAddress, shares, pricePerShare)
+    listProperty(
+      propertyAddress,
+      shares,
+      pricePerShare,
+      isAuction ? '0' : fundingGoal,
+      fundingRounds,
+      BigInt(paymentAssetId),
+      unitName,
+      metadataUrl,
+      metadataHash,
+      isArc19 ? metadataReserve : '',
+      maxSharesPerAccount,
+      minPurchase,
+      lockupRounds,
+      saleStart,
+      saleEnd,
+      isAuction ? auctionFloor : '0',
+      tiersAllowed ? priceTiers : [],
+      takesReservations ? reservationRounds : '0',
+      takesReservations ? String(Math.round(Number(reservationDeposit) * 100)) : '0',
+      forfeitDeposit,
+      referralsAllowed ? String(Math.round(Number(referralCommission) * 100)) : '0',
+      notifyTx('Property listed!'),
+    )
     setPropertyAddress('')
     setShares('100')
     setPricePerShare('1000000')
+    setFundingGoal('0')
+    setFundingRounds('30000')
+    setUnitName('PROP')
+    setMetadataUrl('')
+    setMetadataHash('')
+    setMetadataReserve('')
+    setMaxSharesPerAccount('0')
+    setMinPurchase('0')
+    setLockupRounds('0')
+    setSaleStart('')
+    setSaleEnd('')
+    setPriceTiers([])
+    setIsAuction(false)
+    setAuctionFloor('500000')
+    setReservationRounds('0')
+    setReservationDeposit('5')
+    setForfeitDeposit(true)
+    setReferralCommission('0')
   }
 
   return (
@@ -47,9 +125,10 @@ const ListPropertyForm: React.FC<ListPropertyFormProps> = ({
           placeholder="e.g. 123 Main St, Springfield"
           value={propertyAddress}
           onChange={(e) => setPropertyAddress(e.target.value)}
+          maxLength={128}
           required
         />
-        <p className="text-xs text-gray-400">Enter the physical address or a unique name for the property.</p>
+        <p className="text-xs text-gray-400">Enter the physical address or a unique name for the property, up to 128 characters.</p>
       </div>
 
       <div className="space-y-2">
@@ -69,24 +148,417 @@ const ListPropertyForm: React.FC<ListPropertyFormProps> = ({
         <p className="text-xs text-gray-400">How many fractional shares to create for this property?</p>
       </div>
 
+      <div className="space-y-2">
+        <label htmlFor="payment-currency" className="block text-sm font-medium text-gray-700">
+          Currency
+        </label>
+        <select id="payment-currency" className="select w-full" value={paymentAssetId} onChange={(e) => setPaymentAssetId(e.target.value)}>
+          {currencies.map((option) => (
+            <option key={option.assetId.toString()} value={option.assetId.toString()}>
+              {option.assetId === 0n ? option.unitName : `${option.unitName} (ASA ${option.assetId})`}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400">What buyers pay for shares in. Buyers need to hold the asset to purchase.</p>
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="pricing-mode" className="block text-sm font-medium text-gray-700">
+          Pricing
+        </label>
+        <select
+          id="pricing-mode"
+          className="select w-full"
+          value={isAuction ? 'auction' : 'fixed'}
+          onChange={(e) => setIsAuction(e.target.value === 'auction')}
+        >
+          <option value="fixed">Fixed price</option>
+          <option value="auction">Dutch auction</option>
+        </select>
+        <p className="text-xs text-gray-400">
+          A Dutch auction starts high and lowers the price steadily until the sale closes, so buyers decide what the shares are worth.
+        </p>
+      </div>
+
       <div className="space-y-2">
         <label htmlFor="price-per-share" className="block text-sm font-medium text-gray-700">
-          Price Per Share (microAlgos)
+          {isAuction ? 'Start Price Per Share' : 'Price Per Share'} ({baseUnitLabel(currency)})
         </label>
         <input
           id="price-per-share"
           className="input w-full"
           type="number"
-          placeholder="e.g. 1000000 (1 Algo)"
+          placeholder={`e.g. ${10 ** currency.decimals} (1 ${currency.unitName})`}
           value={pricePerShare}
           onChange={(e) => setPricePerShare(e.target.value)}
           min={1}
           required
         />
-        <p className="text-xs text-gray-400">Set the price for each share in microAlgos (1 Algo = 1,000,000 microAlgos).</p>
+        <p className="text-xs text-gray-400">
+          Set the price for each share in {baseUnitLabel(currency)} (1 {currency.unitName} = {(10 ** currency.decimals).toLocaleString()}{' '}
+          {baseUnitLabel(currency)}).
+        </p>
+      </div>
+
+      {isAuction && (
+        <div className="space-y-2">
+          <label htmlFor="auction-floor" className="block text-sm font-medium text-gray-700">
+            Floor Price Per Share ({baseUnitLabel(currency)})
+          </label>
+          <input
+            id="auction-floor"
+            className="input w-full"
+            type="number"
+            value={auctionFloor}
+            onChange={(e) => setAuctionFloor(e.target.value)}
+            min={1}
+            max={Number(pricePerShare) - 1}
+            required
+          />
+          <p className="text-xs text-gray-400">
+            The lowest the price falls to. It reaches the floor when the sale closes, so set a closing time below.
+          </p>
+        </div>
+      )}
+
+      {!isAuction && (
+        <div className="space-y-2">
+          <label htmlFor="funding-goal" className="block text-sm font-medium text-gray-700">
+            Funding Goal (shares)
+          </label>
+          <input
+            id="funding-goal"
+            className="input w-full"
+            type="number"
+            placeholder="e.g. 60"
+            value={fundingGoal}
+            onChange={(e) => setFundingGoal(e.target.value)}
+            min={0}
+            max={shares}
+          />
+          <p className="text-xs text-gray-400">
+            Optional. Payments are held until this many shares sell, and refunded if the goal isn't met in time. Leave at 0 to get paid on
+            every sale.
+          </p>
+        </div>
+      )}
+
+      {!isAuction && Number(fundingGoal) > 0 && (
+        <div className="space-y-2">
+          <label htmlFor="funding-rounds" className="block text-sm font-medium text-gray-700">
+            Raise Duration (rounds)
+          </label>
+          <input
+            id="funding-rounds"
+            className="input w-full"
+            type="number"
+            placeholder="e.g. 30000"
+            value={fundingRounds}
+            onChange={(e) => setFundingRounds(e.target.value)}
+            min={1}
+            required
+          />
+          <p className="text-xs text-gray-400">How many rounds the goal has to sell in. A round takes about 2.8 seconds.</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label htmlFor="max-shares-per-account" className="block text-sm font-medium text-gray-700">
+          Max Shares Per Account
+        </label>
+        <input
+          id="max-shares-per-account"
+          className="input w-full"
+          type="number"
+          placeholder="e.g. 10"
+          value={maxSharesPerAccount}
+          onChange={(e) => setMaxSharesPerAccount(e.target.value)}
+          min={0}
+          max={shares}
+        />
+        <p className="text-xs text-gray-400">
+          Optional. The most shares one account can buy in the primary sale
+          {Number(maxSharesPerAccount) > 0 && Number(shares) > 0
+            ? ` (${((Number(maxSharesPerAccount) / Number(shares)) * 100).toFixed(1)}% of the property)`
+            : ''}
+          . Leave at 0 for no cap.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="min-purchase" className="block text-sm font-medium text-gray-700">
+          Minimum Purchase (shares)
+        </label>
+        <input
+          id="min-purchase"
+          className="input w-full"
+          type="number"
+          placeholder="e.g. 5"
+          value={minPurchase}
+          onChange={(e) => setMinPurchase(e.target.value)}
+          min={0}
+          max={Number(maxSharesPerAccount) > 0 ? maxSharesPerAccount : shares}
+        />
+        <p className="text-xs text-gray-400">
+          Optional. The fewest shares a buyer can purchase at once, except when buying the last ones left. Leave at 0 for no minimum.
+        </p>
       </div>
 
-      <button className="btn btn-primary w-full mt-4 font-semibold text-base" type="submit" disabled={listingLoading || !activeAddress}>
+      <div className="space-y-2">
+        <label htmlFor="lockup-rounds" className="block text-sm font-medium text-gray-700">
+          Lockup Period (rounds)
+        </label>
+        <input
+          id="lockup-rounds"
+          className="input w-full"
+          type="number"
+          placeholder="e.g. 900000"
+          value={lockupRounds}
+          onChange={(e) => setLockupRounds(e.target.value)}
+          min={0}
+        />
+        <p className="text-xs text-gray-400">
+          Optional. Purchased shares can't be sold or transferred for this long
+          {Number(lockupRounds) > 0 ? ` (${formatLockupPeriod(BigInt(lockupRounds))})` : ''}. Each buyer has one lockup, so buying more
+          while it runs restarts it for all of their locked shares. Leave at 0 for no lockup.
+        </p>
+      </div>
+
+      {reservationsAllowed && (
+        <div className="space-y-2">
+          <label htmlFor="reservation-rounds" className="block text-sm font-medium text-gray-700">
+            Reservation Period (rounds)
+          </label>
+          <input
+            id="reservation-rounds"
+            className="input w-full"
+            type="number"
+            placeholder="e.g. 30000"
+            value={reservationRounds}
+            onChange={(e) => setReservationRounds(e.target.value)}
+            min={0}
+          />
+          {takesReservations && (
+            <div className="flex gap-4 items-center">
+              <input
+                aria-label="Reservation deposit percent"
+                className="input w-1/3"
+                type="number"
+                placeholder="Deposit (%)"
+                value={reservationDeposit}
+                onChange={(e) => setReservationDeposit(e.target.value)}
+                min={0}
+                max={100}
+                step={0.01}
+                required
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300 text-teal-500 focus:ring-teal-500"
+                  checked={forfeitDeposit}
+                  onChange={(e) => setForfeitDeposit(e.target.checked)}
+                />
+                Keep the deposit if a reservation runs out unpaid
+              </label>
+            </div>
+          )}
+          <p className="text-xs text-gray-400">
+            Optional. Buyers can hold shares at today's price for this long on a deposit of the given percent, and pay the rest before it
+            runs out. Leave at 0 for no reservations.
+          </p>
+        </div>
+      )}
+
+      {referralsAllowed && (
+        <div className="space-y-2">
+          <label htmlFor="referral-commission" className="block text-sm font-medium text-gray-700">
+            Referral Commission (%)
+          </label>
+          <input
+            id="referral-commission"
+            className="input w-full"
+            type="number"
+            placeholder="e.g. 2.5"
+            value={referralCommission}
+            onChange={(e) => setReferralCommission(e.target.value)}
+            min={0}
+            max={100}
+            step={0.01}
+          />
+          <p className="text-xs text-gray-400">
+            Optional. Partners whose referral link a buyer followed are paid this percent of what you receive for the shares. Leave at 0 for
+            no referrals.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label htmlFor="sale-start" className="block text-sm font-medium text-gray-700">
+            Sale Opens
+          </label>
+          <input
+            id="sale-start"
+            className="input w-full"
+            type="datetime-local"
+            value={saleStart}
+            onChange={(e) => setSaleStart(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="sale-end" className="block text-sm font-medium text-gray-700">
+            Sale Closes
+          </label>
+          <input
+            id="sale-end"
+            className="input w-full"
+            type="datetime-local"
+            value={saleEnd}
+            onChange={(e) => setSaleEnd(e.target.value)}
+            min={saleStart || undefined}
+            required={isAuction}
+          />
+        </div>
+        <p className="col-span-2 text-xs text-gray-400">
+          Optional. Shares can only be bought from you between these times. Leave empty to open now and sell until you close the sale.
+        </p>
+      </div>
+
+      {tiersAllowed && (
+        <div className="space-y-2">
+          <span className="block text-sm font-medium text-gray-700">Presale Price Tiers</span>
+          {priceTiers.map((tier, index) => (
+            <div key={index} className="flex gap-2 items-center">
+              <input
+                aria-label={`Tier ${index + 1} price per share`}
+                className="input w-1/3"
+                type="number"
+                placeholder={`Price (${baseUnitLabel(currency)})`}
+                value={tier.pricePerShare}
+                onChange={(e) => updateTier(index, 'pricePerShare', e.target.value)}
+                min={1}
+                required
+              />
+              <input
+                aria-label={`Tier ${index + 1} share limit`}
+                className="input w-1/4"
+                type="number"
+                placeholder="First N shares"
+                value={tier.shareLimit}
+                onChange={(e) => updateTier(index, 'shareLimit', e.target.value)}
+                min={1}
+                max={shares}
+                required={!tier.endTime}
+              />
+              <input
+                aria-label={`Tier ${index + 1} end date`}
+                className="input flex-1"
+                type="datetime-local"
+                value={tier.endTime}
+                onChange={(e) => updateTier(index, 'endTime', e.target.value)}
+                required={!tier.shareLimit}
+              />
+              <button
+                type="button"
+                className="text-xs text-red-500 hover:underline"
+                onClick={() => setPriceTiers(priceTiers.filter((_, i) => i !== index))}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          {priceTiers.length < MAX_PRICE_TIERS && (
+            <button
+              type="button"
+              className="text-xs font-semibold text-teal-600 hover:underline"
+              onClick={() => setPriceTiers([...priceTiers, { pricePerShare: '', shareLimit: '', endTime: '' }])}
+            >
+              + Add tier
+            </button>
+          )}
+          <p className="text-xs text-gray-400">
+            Optional. Early-bird prices that apply before the listing price, checked in order: a tier lasts until the first N shares overall
+            have sold or until its end date, whichever comes first. Shares past every tier sell at the price per share above.
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label htmlFor="unit-name" className="block text-sm font-medium text-gray-700">
+          Share Unit Name
+        </label>
+        <input
+          id="unit-name"
+          className="input w-full"
+          type="text"
+          placeholder="e.g. OAK12"
+          value={unitName}
+          onChange={(e) => setUnitName(e.target.value)}
+          maxLength={8}
+          required
+        />
+        <p className="text-xs text-gray-400">Ticker shown in wallets for the share asset, up to 8 characters.</p>
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="metadata-url" className="block text-sm font-medium text-gray-700">
+          Metadata URL
+        </label>
+        <input
+          id="metadata-url"
+          className="input w-full"
+          type="text"
+          placeholder="e.g. ipfs://bafy...#arc3"
+          value={metadataUrl}
+          onChange={(e) => setMetadataUrl(e.target.value)}
+          maxLength={96}
+        />
+        <p className="text-xs text-gray-400">
+          Optional. ARC-3 metadata JSON with the deeds, appraisal and photos, or an ARC-19 template-ipfs:// URL.
+        </p>
+      </div>
+
+      {metadataUrl && (
+        <div className="space-y-2">
+          <label htmlFor="metadata-hash" className="block text-sm font-medium text-gray-700">
+            Metadata Hash (hex)
+          </label>
+          <input
+            id="metadata-hash"
+            className="input w-full font-mono"
+            type="text"
+            placeholder="64 hex characters"
+            value={metadataHash}
+            onChange={(e) => setMetadataHash(e.target.value)}
+            pattern="(0x)?[0-9a-fA-F]{64}"
+          />
+          <p className="text-xs text-gray-400">Optional. SHA-256 of the metadata JSON, so buyers can check it hasn't changed.</p>
+        </div>
+      )}
+
+      {isArc19 && (
+        <div className="space-y-2">
+          <label htmlFor="metadata-reserve" className="block text-sm font-medium text-gray-700">
+            ARC-19 Reserve Address
+          </label>
+          <input
+            id="metadata-reserve"
+            className="input w-full font-mono"
+            type="text"
+            placeholder="Address encoding the metadata CID"
+            value={metadataReserve}
+            onChange={(e) => setMetadataReserve(e.target.value)}
+            required
+          />
+        </div>
+      )}
+
+      <button
+        className="btn btn-primary w-full mt-4 font-semibold text-base"
+        type="submit"
+        disabled={listingLoading || !activeAddress || paused}
+      >
         {listingLoading ? 'Listing...' : 'List Property'}
       </button>
       {listingError && <div className="text-red-500 text-sm text-center mt-2">{listingError}</div>}
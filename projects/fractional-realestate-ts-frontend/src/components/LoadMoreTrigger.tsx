@@ -0,0 +1,40 @@
+import React, { useEffect, useRef } from 'react'
+
+interface LoadMoreTriggerProps {
+  hasMore: boolean
+  loading: boolean
+  onLoadMore: () => void
+}
+
+/**
+ * Sits at the end of a list and loads the next page once it scrolls into view.
+ * The button is there for when the page is too short to scroll.
+ */
+const LoadMoreTrigger: React.FC<LoadMoreTriggerProps> = ({ hasMore, loading, onLoadMore }) => {
+  const ref = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element || !hasMore) return
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) onLoadMore()
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [hasMore, onLoadMore])
+
+  if (!hasMore) return null
+  return (
+    <div ref={ref} className="flex justify-center mt-6">
+      <button
+        className="rounded-md border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition"
+        disabled={loading}
+        onClick={onLoadMore}
+      >
+        {loading ? 'Loading more...' : 'Load more'}
+      </button>
+    </div>
+  )
+}
+
+export default LoadMoreTrigger
@@ -0,0 +1,124 @@
+import React, { useState } from 'react'
+import { useAppClient } from '../context/AppClientContext'
+import { SellOrder } from '../hooks/useSellOrders'
+import { useSellOrderActions } from '../hooks/useSellOrderActions'
+import { useTxSnackbar } from '../hooks/useTxSnackbar'
+import { ellipseAddress } from '../utils/ellipseAddress'
+
+interface OrderBookProps {
+  propertyId: bigint
+  orders: SellOrder[]
+  activeAddress: string | null | undefined
+}
+
+const OrderBook: React.FC<OrderBookProps> = ({ propertyId, orders, activeAddress }) => {
+  const { appClient } = useAppClient()
+  const {
+    createSellOrder,
+    cancelSellOrder,
+    fillSellOrder,
+    loading: isBusy,
+    error: orderError,
+    success: orderSuccess,
+  } = useSellOrderActions(appClient, activeAddress)
+  const notifyTx = useTxSnackbar()
+  const [sellShares, setSellShares] = useState('1')
+  const [sellPrice, setSellPrice] = useState('1000000') // 1 Algo in microAlgos
+  const [fillAmounts, setFillAmounts] = useState<Record<string, string>>({})
+
+  const isSellValid = Number(sellShares) >= 1 && Number(sellPrice) >= 1
+
+  // Cheapest orders first
+  const sortedOrders = [...orders].sort((a, b) => (a.pricePerShare < b.pricePerShare ? -1 : a.pricePerShare > b.pricePerShare ? 1 : 0))
+
+  return (
+    <div className="w-full bg-gray-50 rounded-lg p-4 flex flex-col gap-2 border border-gray-100 mt-3">
+      <div className="text-xs font-semibold text-gray-700">Resale orders</div>
+      {sortedOrders.length === 0 ? (
+        <div className="text-xs text-gray-400">No shares for resale.</div>
+      ) : (
+        <ul className="divide-y divide-gray-100 text-xs">
+          {sortedOrders.map((order) => {
+            const key = order.orderId.toString()
+            const fillAmount = fillAmounts[key] ?? '1'
+            const fillNum = Number(fillAmount)
+            const isFillValid = !isNaN(fillNum) && fillNum >= 1 && fillNum <= Number(order.shares)
+            return (
+              <li key={key} className="flex items-center justify-between gap-2 py-2">
+                <div className="flex flex-col">
+                  <span className="text-gray-700">
+                    {order.shares.toString()} @ {Number(order.pricePerShare) / 1000000} Algo
+                  </span>
+                  <span className="text-gray-400 font-mono">{ellipseAddress(order.seller, 4)}</span>
+                </div>
+                {activeAddress && order.seller === activeAddress ? (
+                  <button
+                    className="rounded-md bg-red-500 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-red-600 disabled:bg-red-200 disabled:cursor-not-allowed transition"
+                    disabled={isBusy}
+                    onClick={() => cancelSellOrder(order, notifyTx('Sell order cancelled!'))}
+                  >
+                    Cancel
+                  </button>
+                ) : activeAddress ? (
+                  <div className="flex items-center gap-1">
+                    <input
+                      className="block w-14 rounded-md border border-gray-300 bg-white px-1 py-0.5 text-xs shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100"
+                      type="number"
+                      min={1}
+                      max={order.shares.toString()}
+                      value={fillAmount}
+                      onChange={(e) => setFillAmounts({ ...fillAmounts, [key]: e.target.value })}
+                      disabled={isBusy}
+                    />
+                    <button
+                      className="rounded-md bg-teal-500 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 disabled:bg-teal-200 disabled:cursor-not-allowed transition"
+                      disabled={isBusy || !isFillValid}
+                      onClick={() => fillSellOrder(order, fillAmount, notifyTx('Resale shares purchased!'))}
+                    >
+                      Buy
+                    </button>
+                  </div>
+                ) : null}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+      {activeAddress && (
+        <div className="flex gap-2 w-full items-center pt-2 border-t border-gray-100">
+          <input
+            aria-label="Shares to sell"
+            className="block w-16 rounded-md border border-gray-300 bg-white px-2 py-1 text-xs shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100"
+            type="number"
+            min={1}
+            value={sellShares}
+            onChange={(e) => setSellShares(e.target.value)}
+            disabled={isBusy}
+            placeholder="Shares"
+          />
+          <input
+            aria-label="Price per share in microAlgos"
+            className="block w-24 rounded-md border border-gray-300 bg-white px-2 py-1 text-xs shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100"
+            type="number"
+            min={1}
+            value={sellPrice}
+            onChange={(e) => setSellPrice(e.target.value)}
+            disabled={isBusy}
+            placeholder="microAlgos"
+          />
+          <button
+            className="rounded-md bg-gray-900 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-gray-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+            disabled={isBusy || !isSellValid}
+            onClick={() => createSellOrder(propertyId, sellShares, sellPrice, notifyTx('Sell order posted!'))}
+          >
+            {isBusy ? 'Working...' : 'Sell'}
+          </button>
+        </div>
+      )}
+      {orderError && <div className="text-red-500 text-xs mt-1">{orderError}</div>}
+      {orderSuccess && !orderError && <div className="text-green-600 text-xs mt-1">{orderSuccess}</div>}
+    </div>
+  )
+}
+
+export default OrderBook
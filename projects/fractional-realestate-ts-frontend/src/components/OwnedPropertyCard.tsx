@@ -0,0 +1,162 @@
+import React from 'react'
+import { useWallet } from '@txnlab/use-wallet-react'
+import { HomeIcon } from '@heroicons/react/24/outline'
+import { useAppClient } from '../context/AppClientContext'
+import { useFundingRaise } from '../hooks/useFundingRaise'
+import { OwnedProperty } from '../hooks/useOwnedProperties'
+import { useRentalIncome } from '../hooks/useRentalIncome'
+import { useShareLockup } from '../hooks/useShareLockup'
+import { useTxSnackbar } from '../hooks/useTxSnackbar'
+import { Currency, formatAmount } from '../utils/currency'
+import { getRaiseStatus } from '../utils/fundingRaise'
+import { estimateUnlockDate } from '../utils/lockup'
+import { formatTimestamp } from '../utils/pricing'
+import { getHoldingValue } from '../utils/valuation'
+import TransferPanel from './TransferPanel'
+
+interface OwnedPropertyCardProps {
+  owned: OwnedProperty
+  currentRound: bigint
+  currency: Currency
+}
+
+const OwnedPropertyCard: React.FC<OwnedPropertyCardProps> = ({ owned, currentRound, currency }) => {
+  const { assetId, sharesOwned, property, incomeRegistered, unclaimedIncome, lockedShares, unlockRound, nav } = owned
+  const { appClient } = useAppClient()
+  const { activeAddress } = useWallet()
+  const {
+    registerForIncome,
+    claimIncome,
+    unregisterForIncome,
+    loading: isBusy,
+    error: incomeError,
+  } = useRentalIncome(appClient, activeAddress)
+  const { claimRefund, loading: isRefunding, error: raiseError } = useFundingRaise(appClient, activeAddress)
+  const { unlockShares, loading: isUnlocking, error: lockupError } = useShareLockup(appClient, activeAddress)
+  const notifyTx = useTxSnackbar()
+
+  const raiseFailed = getRaiseStatus(property, currentRound) === 'failed'
+  const lockupEnded = currentRound >= unlockRound
+  // Locked up shares can't be sold or transferred until the lockup ends
+  const transferableShares = lockupEnded ? sharesOwned : sharesOwned > lockedShares ? sharesOwned - lockedShares : 0n
+  const holding = nav && getHoldingValue(sharesOwned, property, nav)
+  return (
+    <li className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm flex flex-col">
+      <div className="flex items-center gap-x-4 border-b border-gray-900/5 bg-gray-50 p-4">
+        <span className="inline-flex items-center justify-center w-10 h-10 rounded-lg bg-teal-100 ring-1 ring-gray-900/10">
+          <HomeIcon className="h-6 w-6 text-teal-500" />
+        </span>
+        <div className="text-base font-medium text-gray-900 truncate flex-1">{property.address}</div>
+      </div>
+      <dl className="divide-y divide-gray-100 px-4 py-4 text-sm">
+        <div className="flex justify-between gap-x-4 py-2">
+          <dt className="text-gray-500">Asset ID</dt>
+          <dd className="text-gray-700 font-mono">{assetId.toString()}</dd>
+        </div>
+        <div className="flex justify-between gap-x-4 py-2">
+          <dt className="text-gray-500">Shares Owned</dt>
+          <dd className="text-green-600 font-bold">{sharesOwned.toString()}</dd>
+        </div>
+        <div className="flex justify-between gap-x-4 py-2">
+          <dt className="text-gray-500">Current Value</dt>
+          <dd className="text-gray-700 text-right">
+            {nav && holding ? (
+              <>
+                {formatAmount(holding.value, currency)}
+                <span className="block text-xs text-gray-400">appraised {formatTimestamp(nav.timestamp)}</span>
+              </>
+            ) : (
+              'Not appraised'
+            )}
+          </dd>
+        </div>
+        {holding && (
+          <div className="flex justify-between gap-x-4 py-2">
+            <dt className="text-gray-500">Gain/Loss</dt>
+            <dd className={holding.gain < 0n ? 'text-red-600' : 'text-green-600'}>
+              {holding.gain < 0n ? '-' : '+'}
+              {formatAmount(holding.gain < 0n ? -holding.gain : holding.gain, currency)} ({Number(holding.gainBps) / 100}%)
+              <span className="block text-xs text-gray-400 text-right">vs listing price</span>
+            </dd>
+          </div>
+        )}
+        {lockedShares > 0n && !lockupEnded && (
+          <>
+            <div className="flex justify-between gap-x-4 py-2">
+              <dt className="text-gray-500">Locked</dt>
+              <dd className="text-gray-700 text-right">
+                {lockedShares.toString()}{' '}
+                <span className="text-xs text-gray-400">
+                  until ~{estimateUnlockDate(unlockRound, currentRound).toLocaleDateString()} (round {unlockRound.toString()})
+                </span>
+                <span className="block text-xs text-gray-400">Buying more restarts the lockup</span>
+              </dd>
+            </div>
+            <div className="flex justify-between gap-x-4 py-2">
+              <dt className="text-gray-500">Transferable</dt>
+              <dd className="text-gray-700">
+                {transferableShares.toString()} <span className="text-xs text-gray-400">now</span>
+              </dd>
+            </div>
+          </>
+        )}
+        <div className="flex justify-between gap-x-4 py-2">
+          <dt className="text-gray-500">Unclaimed Income</dt>
+          <dd className="text-gray-700">{incomeRegistered ? `${Number(unclaimedIncome) / 1000000} Algo` : 'Not registered'}</dd>
+        </div>
+      </dl>
+      <div className="px-4 pb-4 mt-auto">
+        {incomeRegistered ? (
+          <>
+            <button
+              className="inline-flex items-center justify-center rounded-md bg-teal-500 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 disabled:bg-teal-200 disabled:cursor-not-allowed transition w-full"
+              disabled={isBusy || unclaimedIncome === 0n}
+              onClick={() => claimIncome(assetId, notifyTx('Income claimed!'))}
+            >
+              {isBusy ? 'Claiming...' : 'Claim income'}
+            </button>
+            <button
+              className="inline-flex items-center justify-center rounded-md border border-gray-300 px-3 py-1.5 text-xs font-semibold text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition w-full mt-2"
+              disabled={isBusy}
+              onClick={() => unregisterForIncome(assetId, notifyTx('Income paid out and claim closed!'))}
+            >
+              Stop earning income
+            </button>
+          </>
+        ) : (
+          <button
+            className="inline-flex items-center justify-center rounded-md bg-gray-900 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-gray-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition w-full"
+            disabled={isBusy}
+            onClick={() => registerForIncome(assetId)}
+          >
+            {isBusy ? 'Registering...' : 'Start earning income'}
+          </button>
+        )}
+        {incomeError && <div className="text-red-500 text-xs mt-1">{incomeError}</div>}
+        {raiseFailed && (
+          <button
+            className="inline-flex items-center justify-center rounded-md border border-red-300 px-3 py-1.5 text-xs font-semibold text-red-600 shadow-sm hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition w-full mt-2"
+            disabled={isRefunding}
+            onClick={() => claimRefund(assetId, sharesOwned, notifyTx('Refund claimed!'))}
+          >
+            {isRefunding ? 'Refunding...' : `Return shares for ${formatAmount(sharesOwned * property.pricePerShare, currency)} refund`}
+          </button>
+        )}
+        {raiseError && <div className="text-red-500 text-xs mt-1">{raiseError}</div>}
+        {lockedShares > 0n && (
+          <button
+            className="inline-flex items-center justify-center rounded-md border border-gray-300 px-3 py-1.5 text-xs font-semibold text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition w-full mt-2"
+            disabled={isUnlocking || !lockupEnded}
+            onClick={() => unlockShares(assetId, notifyTx('Lockup closed!'))}
+          >
+            {isUnlocking ? 'Closing lockup...' : lockupEnded ? 'Close lockup and reclaim deposit' : 'Shares locked up'}
+          </button>
+        )}
+        {lockupError && <div className="text-red-500 text-xs mt-1">{lockupError}</div>}
+        {transferableShares > 0n && <TransferPanel propertyId={assetId} transferableShares={transferableShares} />}
+      </div>
+    </li>
+  )
+}
+
+export default OwnedPropertyCard
@@ -0,0 +1,86 @@
+import React from 'react'
+import { Property } from '../hooks/useProperties'
+import { Currency, formatAmount, getCurrency } from '../utils/currency'
+
+interface OwnerDashboardProps {
+  listings: [bigint, Property][]
+  loading: boolean
+  error: string | null
+  currencies: Currency[]
+}
+
+/**
+ * Summary of the connected account's own listings: how much of each has sold, what's left
+ * in the primary sale and any proceeds still held in escrow.
+ */
+const OwnerDashboard: React.FC<OwnerDashboardProps> = ({ listings, loading, error, currencies }) => {
+  if (loading) {
+    return <div className="text-center text-gray-500">Loading your listings...</div>
+  }
+  if (error) {
+    return <div className="text-red-500 text-center">{error}</div>
+  }
+  if (listings.length === 0) {
+    return <div className="text-center text-gray-400">You haven't listed any properties yet.</div>
+  }
+
+  const totalShares = listings.reduce((sum, [, property]) => sum + property.totalShares, 0n)
+  const sharesSold = listings.reduce((sum, [, property]) => sum + property.sharesSold, 0n)
+
+  return (
+    <div className="flex flex-col gap-4">
+      <dl className="grid grid-cols-3 gap-4 text-center">
+        <div className="rounded-lg bg-gray-50 border border-gray-100 p-3">
+          <dt className="text-xs text-gray-500">Listings</dt>
+          <dd className="text-xl font-semibold text-gray-900">{listings.length}</dd>
+        </div>
+        <div className="rounded-lg bg-gray-50 border border-gray-100 p-3">
+          <dt className="text-xs text-gray-500">Shares sold</dt>
+          <dd className="text-xl font-semibold text-gray-900">
+            {sharesSold.toString()} / {totalShares.toString()}
+          </dd>
+        </div>
+        <div className="rounded-lg bg-gray-50 border border-gray-100 p-3">
+          <dt className="text-xs text-gray-500">Open for sale</dt>
+          <dd className="text-xl font-semibold text-gray-900">{listings.filter(([, property]) => property.primarySaleOpen).length}</dd>
+        </div>
+      </dl>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b border-gray-100">
+              <th className="py-2 pr-4 font-semibold">Property</th>
+              <th className="py-2 pr-4 font-semibold">Sold</th>
+              <th className="py-2 pr-4 font-semibold">Available</th>
+              <th className="py-2 pr-4 font-semibold">Price per share</th>
+              <th className="py-2 pr-4 font-semibold">In escrow</th>
+              <th className="py-2 font-semibold">Primary sale</th>
+            </tr>
+          </thead>
+          <tbody>
+            {listings.map(([propertyId, property]) => {
+              const currency = getCurrency(currencies, property.paymentAssetId)
+              return (
+                <tr key={propertyId.toString()} className="border-b border-gray-50 text-gray-700">
+                  <td className="py-2 pr-4">
+                    <div className="font-medium text-gray-900">{property.address}</div>
+                    <div className="text-xs text-gray-400">Asset ID: {propertyId.toString()}</div>
+                  </td>
+                  <td className="py-2 pr-4">
+                    {property.sharesSold.toString()} / {property.totalShares.toString()}
+                  </td>
+                  <td className="py-2 pr-4">{property.availableShares.toString()}</td>
+                  <td className="py-2 pr-4">{formatAmount(property.pricePerShare, currency)}</td>
+                  <td className="py-2 pr-4">{property.escrowedFunds > 0n ? formatAmount(property.escrowedFunds, currency) : '-'}</td>
+                  <td className="py-2">{property.primarySaleOpen ? 'Open' : 'Closed'}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+export default OwnerDashboard
@@ -1,5 +1,40 @@
 import { HomeIcon } from '@heroicons/react/24/outline'
-import React, { useState } from 'react'
+import { isValidAddress } from 'algosdk'
+import React, { useEffect, useMemo, useState } from 'react'
+import AuctionPriceCurve from './AuctionPriceCurve'
+import OrderBook from './OrderBook'
+import ProposalsPanel from './ProposalsPanel'
+import BuyoutPanel from './BuyoutPanel'
+import ReservationPanel from './ReservationPanel'
+import ValuationPanel from './ValuationPanel'
+import { useAppClient } from '../context/AppClientContext'
+import { SellOrder } from '../hooks/useSellOrders'
+import { Proposal } from '../hooks/useProposals'
+import { Buyout } from '../hooks/useBuyouts'
+import { useBuyShares } from '../hooks/useBuyShares'
+import { CartItem } from '../hooks/useCart'
+import { useDelistProperty } from '../hooks/useDelistProperty'
+import { useFundingRaise } from '../hooks/useFundingRaise'
+import { useRentalIncome } from '../hooks/useRentalIncome'
+import { Reservation } from '../hooks/useReservations'
+import { useReservationActions } from '../hooks/useReservationActions'
+import { useTxSnackbar } from '../hooks/useTxSnackbar'
+import { ValuationStruct } from '../contracts/FractionalRealEstate'
+import { LoadedMetadata } from '../hooks/usePropertyMetadata'
+import { baseUnitLabel, Currency, formatAmount } from '../utils/currency'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { formatRoundsRemaining, getRaiseStatus } from '../utils/fundingRaise'
+import { formatLockupPeriod } from '../utils/lockup'
+import {
+  formatTimestamp,
+  getAuctionPrice,
+  getCurrentTier,
+  getPurchaseCost,
+  getSaleWindowStatus,
+  nowInSeconds,
+  PriceTier,
+} from '../utils/pricing'
+import { getReferrer } from '../utils/referral'
 
 interface PropertyCardProps {
   propertyId: bigint
@@ -10,95 +45,371 @@ interface PropertyCardProps {
     pricePerShare: bigint
     propertyAssetId: bigint
     ownerAddress: string
+    incomePerShare: bigint
+    undistributedIncome: bigint
+    incomeShares: bigint
+    primarySaleOpen: boolean
+    fundingGoal: bigint
+    fundingDeadline: bigint
+    sharesSold: bigint
+    escrowedFunds: bigint
+    paymentAssetId: bigint
+    unitName: string
+    metadataUrl: string
+    metadataHash: Uint8Array
+    maxSharesPerAccount: bigint
+    minPurchase: bigint
+    lockupRounds: bigint
+    saleStart: bigint
+    saleEnd: bigint
+    auctionFloor: bigint
+    reservedShares: bigint
+    reservationRounds: bigint
+    reservationDepositBps: bigint
+    forfeitDeposit: boolean
+    referralBps: bigint
   }
   activeAddress: string | null | undefined
-  buyingPropertyId: bigint | null
-  buyLoading: boolean
-  buyError: string | null
-  buySuccess: string | null
-  handleBuyShares: (propertyId: bigint, pricePerShare: bigint, ownerAddress: string, buyAmount: string) => void
-  delistingPropertyId: bigint | null
-  delistLoading: boolean
-  delistError: string | null
-  delistSuccess: string | null
-  handleDelistProperty: (propertyId: bigint) => void
+  sellOrders: SellOrder[]
+  proposals: Proposal[]
+  buyouts: Buyout[]
+  currentRound: bigint
+  feeBps: bigint
+  paused: boolean
+  currency: Currency
+  metadata?: LoadedMetadata
+  heldShares: bigint
+  priceTiers: PriceTier[]
+  pendingOwner?: string
+  reservations: Reservation[]
+  inCart: boolean
+  handleAddToCart: (item: CartItem) => void
+  appraiser: string | undefined
+  valuation: ValuationStruct | undefined
 }
 
 const PropertyCard: React.FC<PropertyCardProps> = ({
   propertyId,
   property,
   activeAddress,
-  buyingPropertyId,
-  buyLoading,
-  buyError,
-  buySuccess,
-  handleBuyShares,
-  delistingPropertyId,
-  delistLoading,
-  delistError,
-  delistSuccess,
-  handleDelistProperty,
+  sellOrders,
+  proposals,
+  buyouts,
+  currentRound,
+  feeBps,
+  paused,
+  currency,
+  metadata,
+  heldShares,
+  priceTiers,
+  pendingOwner,
+  reservations,
+  inCart,
+  handleAddToCart,
+  appraiser,
+  valuation,
 }) => {
+  const { appClient } = useAppClient()
+  const referrer = useMemo(getReferrer, [])
+  const { buyShares, loading: isBuying, error: buyError, success: buySuccess } = useBuyShares(appClient, activeAddress, referrer)
+  const {
+    delistProperty,
+    updatePrice,
+    withdrawShares,
+    topUpShares,
+    closePrimarySale,
+    transferOwnership,
+    cancelOwnershipTransfer,
+    acceptOwnership,
+    loading: isManaging,
+    error: delistError,
+    success: delistSuccess,
+  } = useDelistProperty(appClient, activeAddress)
+  const { depositIncome, loading: isDepositing, error: incomeError, success: incomeSuccess } = useRentalIncome(appClient, activeAddress)
+  const {
+    withdrawProceeds,
+    loading: isWithdrawingProceeds,
+    error: raiseError,
+    success: raiseSuccess,
+  } = useFundingRaise(appClient, activeAddress)
+  const {
+    reserveShares,
+    loading: isReserving,
+    error: reserveError,
+    success: reserveSuccess,
+  } = useReservationActions(appClient, activeAddress)
+  const notifyTx = useTxSnackbar()
   const [localBuyAmount, setLocalBuyAmount] = useState('1')
+  const [depositAmount, setDepositAmount] = useState('1000000') // 1 Algo in microAlgos
+  const [activeTab, setActiveTab] = useState<'orders' | 'proposals' | 'buyout'>('orders')
+  const [newPrice, setNewPrice] = useState(property.pricePerShare.toString())
+  const [inventoryAmount, setInventoryAmount] = useState('1')
+  const [newOwner, setNewOwner] = useState('')
+  const [slippage, setSlippage] = useState('1') // Percent over the shown price the buyer will accept
+  const [allowPartialFill, setAllowPartialFill] = useState(false)
+  const [, setTick] = useState(0)
 
+  // A Dutch auction's price falls every second, so keep re-rendering while one is listed
+  const isAuction = property.auctionFloor > 0n
+  useEffect(() => {
+    if (!isAuction) return
+    const timer = setInterval(() => setTick((tick) => tick + 1), 1000)
+    return () => clearInterval(timer)
+  }, [isAuction])
+
+  // Buyers must take at least the minimum, unless they're buying the last shares, and can't hold more than the cap
+  const available = Number(property.availableShares)
+  const minShares = Math.max(1, Math.min(Number(property.minPurchase), available))
+  const maxShares =
+    property.maxSharesPerAccount > 0n ? Math.min(available, Number(property.maxSharesPerAccount) - Number(heldShares)) : available
   const sharesNum = Number(localBuyAmount)
-  const isValid = !isNaN(sharesNum) && sharesNum >= 1 && sharesNum <= Number(property.availableShares)
+  const isValid = !isNaN(sharesNum) && sharesNum >= minShares && sharesNum <= maxShares
+
+  // Presale tiers price the next shares sold, and a purchase can run across into the next tier
+  const now = nowInSeconds()
+  const saleWindow = getSaleWindowStatus(property, now)
+  const currentTier = getCurrentTier(property, priceTiers, now)
+  const currentPrice = isAuction ? getAuctionPrice(property, now) : currentTier.price
+
+  // The buyer sends enough for their maximum price and the contract refunds the rest. At an auction
+  // the chain's clock trails this one by a block or so, so the price it charges can be a little higher,
+  // and a fixed price can be changed by the owner before the purchase lands.
+  const slippageBps = BigInt(Math.max(0, Math.round(Number(slippage) * 100) || 0))
+  const slippedPrice = (currentPrice * (10_000n + slippageBps)) / 10_000n
+  const maxPricePerShare = !isAuction ? 0n : slippedPrice < property.pricePerShare ? slippedPrice : property.pricePerShare
 
-  const isBuying = buyLoading && buyingPropertyId === propertyId
+  // The platform fee comes out of the purchase price, so the buyer pays the same total either way
+  const purchaseTotal = isValid
+    ? isAuction
+      ? BigInt(sharesNum) * currentPrice
+      : getPurchaseCost(property, priceTiers, BigInt(sharesNum), now)
+    : 0n
+  const paymentTotal = isAuction && isValid ? BigInt(sharesNum) * maxPricePerShare : (purchaseTotal * (10_000n + slippageBps)) / 10_000n
+  const purchaseFee = (purchaseTotal * feeBps) / 10_000n
+  const canReserve = property.reservationRounds > 0n && !reservations.some((reservation) => reservation.holder === activeAddress)
+  // The deposit keeps the slippage margin so it still covers the listing's rate if the price moves, but can't exceed the price
+  const depositWithMargin = (paymentTotal * property.reservationDepositBps + 9_999n) / 10_000n
+  const reservationDeposit = depositWithMargin < purchaseTotal ? depositWithMargin : purchaseTotal
+  const raiseStatus = getRaiseStatus(property, currentRound)
+  // Unsold shares stay in the app until the goal sells, since refunds are paid for any shares handed back
+  const raisePending = raiseStatus === 'open' || raiseStatus === 'failed'
 
   return (
     <li className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm flex flex-col">
       <div className="flex items-center gap-x-4 border-b border-gray-900/5 bg-gray-50 p-6">
-        <span className="inline-flex items-center justify-center w-12 h-12 rounded-lg bg-teal-100 ring-1 ring-gray-900/10">
-          <HomeIcon className="h-7 w-7 text-teal-500" />
-        </span>
-        <div className="text-base font-medium text-gray-900 truncate flex-1">{property.address}</div>
+        {metadata?.imageUrl ? (
+          <img src={metadata.imageUrl} alt="" className="w-12 h-12 rounded-lg object-cover ring-1 ring-gray-900/10" />
+        ) : (
+          <span className="inline-flex items-center justify-center w-12 h-12 rounded-lg bg-teal-100 ring-1 ring-gray-900/10">
+            <HomeIcon className="h-7 w-7 text-teal-500" />
+          </span>
+        )}
+        <div className="text-base font-medium text-gray-900 truncate flex-1">{metadata?.metadata.name ?? property.address}</div>
       </div>
+      {metadata && (
+        <div className="px-6 pt-4 text-xs text-gray-500 flex flex-col gap-1">
+          {metadata.metadata.description && <p>{metadata.metadata.description}</p>}
+          <div className="flex gap-3">
+            {metadata.verified !== undefined && (
+              <span className={metadata.verified ? 'text-green-600' : 'text-red-500'}>
+                {metadata.verified ? 'Metadata matches on-chain hash' : 'Metadata does not match on-chain hash'}
+              </span>
+            )}
+            {metadata.metadata.external_url && (
+              <a href={metadata.metadata.external_url} target="_blank" rel="noopener noreferrer" className="underline text-teal-600">
+                Documents
+              </a>
+            )}
+          </div>
+        </div>
+      )}
       <dl className="-my-3 divide-y divide-gray-100 px-6 py-4 text-sm">
         <div className="flex justify-between gap-x-4 py-3">
           <dt className="text-gray-500">Asset ID</dt>
           <dd className="text-gray-700 font-mono">{propertyId.toString()}</dd>
         </div>
+        <div className="flex justify-between gap-x-4 py-3">
+          <dt className="text-gray-500">Unit</dt>
+          <dd className="text-gray-700 font-mono">{property.unitName}</dd>
+        </div>
         <div className="flex justify-between gap-x-4 py-3">
           <dt className="text-gray-500">Shares</dt>
           <dd className="text-gray-700">{property.totalShares.toString()}</dd>
         </div>
         <div className="flex justify-between gap-x-4 py-3">
           <dt className="text-gray-500">Available</dt>
-          <dd className="text-gray-700">{property.availableShares.toString()}</dd>
+          <dd className="text-gray-700 text-right">
+            {property.availableShares.toString()}
+            {property.reservedShares > 0n && (
+              <span className="block text-xs text-gray-400">{property.reservedShares.toString()} reserved</span>
+            )}
+          </dd>
+        </div>
+        <div className="flex justify-between gap-x-4 py-3">
+          <dt className="text-gray-500">{isAuction ? 'Start price' : 'Price/Share'}</dt>
+          <dd className="text-gray-700">{formatAmount(property.pricePerShare, currency)}</dd>
         </div>
+        {currentTier.tier && (
+          <div className="flex justify-between gap-x-4 py-3">
+            <dt className="text-gray-500">Presale price</dt>
+            <dd className="text-gray-700 text-right">
+              {formatAmount(currentTier.price, currency)}
+              <span className="block text-xs text-gray-400">
+                {[
+                  currentTier.tier.shareLimit > 0n
+                    ? `${(currentTier.tier.shareLimit - property.sharesSold - property.reservedShares).toString()} shares left`
+                    : null,
+                  currentTier.tier.endTime > 0n ? `until ${formatTimestamp(currentTier.tier.endTime)}` : null,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+                {currentTier.nextPrice !== null && `, then ${formatAmount(currentTier.nextPrice, currency)}`}
+              </span>
+            </dd>
+          </div>
+        )}
+        {(property.saleStart > 0n || property.saleEnd > 0n) && (
+          <div className="flex justify-between gap-x-4 py-3">
+            <dt className="text-gray-500">Sale window</dt>
+            <dd className="text-gray-700 text-right">
+              {property.saleStart > 0n && <span className="block">Opens {formatTimestamp(property.saleStart)}</span>}
+              {property.saleEnd > 0n && <span className="block">Closes {formatTimestamp(property.saleEnd)}</span>}
+            </dd>
+          </div>
+        )}
+        {property.lockupRounds > 0n && (
+          <div className="flex justify-between gap-x-4 py-3">
+            <dt className="text-gray-500">Lockup</dt>
+            <dd className="text-gray-700">
+              {property.lockupRounds.toString()} rounds ({formatLockupPeriod(property.lockupRounds)})
+              <span className="block text-xs text-gray-400">Buying more restarts it for all your locked shares</span>
+            </dd>
+          </div>
+        )}
+        {property.referralBps > 0n && (
+          <div className="flex justify-between gap-x-4 py-3">
+            <dt className="text-gray-500">Referral commission</dt>
+            <dd className="text-gray-700">{Number(property.referralBps) / 100}%</dd>
+          </div>
+        )}
+        {(property.minPurchase > 0n || property.maxSharesPerAccount > 0n) && (
+          <div className="flex justify-between gap-x-4 py-3">
+            <dt className="text-gray-500">Limits</dt>
+            <dd className="text-gray-700">
+              {[
+                property.minPurchase > 0n ? `Min ${property.minPurchase.toString()}` : null,
+                property.maxSharesPerAccount > 0n ? `Max ${property.maxSharesPerAccount.toString()} per account` : null,
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+            </dd>
+          </div>
+        )}
         <div className="flex justify-between gap-x-4 py-3">
-          <dt className="text-gray-500">Price/Share</dt>
-          <dd className="text-gray-700">{property.pricePerShare.toString()}</dd>
+          <dt className="text-gray-500">Primary sale</dt>
+          <dd className="text-gray-700">{property.primarySaleOpen ? 'Open' : 'Closed'}</dd>
         </div>
         <div className="flex justify-between gap-x-4 py-3">
           <dt className="text-gray-500">Owner</dt>
           <dd className="text-gray-700 truncate font-mono max-w-[8rem]">{property.ownerAddress}</dd>
         </div>
       </dl>
+      {raiseStatus !== 'none' && (
+        <div className="px-6 pb-4 text-xs">
+          <div className="flex justify-between text-gray-500 mb-1">
+            <span>Funding goal</span>
+            <span>
+              {property.sharesSold.toString()} / {property.fundingGoal.toString()} shares
+            </span>
+          </div>
+          <div className="h-2 w-full rounded-full bg-gray-100 overflow-hidden">
+            <div
+              className={`h-full ${raiseStatus === 'failed' ? 'bg-red-400' : 'bg-teal-500'}`}
+              style={{ width: `${Math.min(100, (Number(property.sharesSold) / Number(property.fundingGoal)) * 100)}%` }}
+            />
+          </div>
+          <div className="mt-1 text-gray-500">
+            {raiseStatus === 'open'
+              ? `Ends in ${formatRoundsRemaining(property.fundingDeadline - currentRound)}`
+              : raiseStatus === 'funded'
+                ? 'Goal reached'
+                : 'Goal missed. Holders can claim refunds.'}
+          </div>
+        </div>
+      )}
+      {isAuction && <AuctionPriceCurve auction={property} now={now} currency={currency} />}
       <div className="px-6 pb-4 mt-auto">
-        {activeAddress && property.ownerAddress !== activeAddress ? (
+        {pendingOwner && pendingOwner === activeAddress && (
+          <div className="w-full bg-teal-50 rounded-lg p-4 mb-2 flex flex-col gap-2 border border-teal-100">
+            <div className="text-xs text-gray-700 text-center">
+              <span className="font-mono">{ellipseAddress(property.ownerAddress, 4)}</span> wants to hand this listing over to you. Its
+              proceeds will be paid to you.
+            </div>
+            <button
+              className="inline-flex items-center justify-center gap-1 rounded-md bg-teal-500 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 disabled:bg-teal-200 disabled:cursor-not-allowed transition w-full"
+              disabled={isManaging}
+              onClick={() => acceptOwnership(propertyId, notifyTx('Ownership accepted!'))}
+            >
+              {isManaging ? 'Working...' : 'Accept ownership'}
+            </button>
+            {delistError && <div className="text-red-500 text-xs">{delistError}</div>}
+            {delistSuccess && <div className="text-green-600 text-xs">{delistSuccess}</div>}
+          </div>
+        )}
+        {activeAddress &&
+        property.ownerAddress !== activeAddress &&
+        (!property.primarySaleOpen || raiseStatus === 'failed' || saleWindow !== 'open') ? (
+          <div className="w-full bg-gray-50 rounded-lg p-4 text-xs text-gray-500 text-center border border-gray-100">
+            {raiseStatus === 'failed'
+              ? 'This raise missed its funding goal and is no longer selling shares.'
+              : property.primarySaleOpen && saleWindow === 'upcoming'
+                ? `The primary sale opens ${formatTimestamp(property.saleStart)}.`
+                : 'The primary sale has closed. Shares are only available on resale.'}
+          </div>
+        ) : activeAddress && property.ownerAddress !== activeAddress ? (
           <div className="w-full bg-gray-50 rounded-lg p-4 flex flex-col gap-2 border border-gray-100">
             <label className="text-xs font-semibold text-gray-700 mb-1" htmlFor={`buy-shares-${propertyId}`}>
-              Buy a share for {Number(property.pricePerShare) / 1000000} Algo
+              Buy a share for {formatAmount(currentPrice, currency)}
             </label>
             <div className="flex gap-2 w-full items-center">
               <input
                 id={`buy-shares-${propertyId}`}
                 className="block w-24 rounded-md border border-gray-300 bg-white px-2 py-1 text-sm shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100 disabled:cursor-not-allowed transition"
                 type="number"
-                min={1}
-                max={property.availableShares.toString()}
+                min={minShares}
+                max={maxShares}
                 value={localBuyAmount}
                 onChange={(e) => setLocalBuyAmount(e.target.value)}
                 disabled={isBuying}
                 placeholder="Amount"
               />
+              <input
+                aria-label="Slippage tolerance in percent"
+                title="Most you'll pay above the shown price, in percent"
+                className="block w-16 rounded-md border border-gray-300 bg-white px-2 py-1 text-sm shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100 disabled:cursor-not-allowed transition"
+                type="number"
+                min={0}
+                step={0.1}
+                value={slippage}
+                onChange={(e) => setSlippage(e.target.value)}
+                disabled={isBuying}
+                placeholder="%"
+              />
               <button
                 className="inline-flex items-center gap-1 rounded-md bg-teal-500 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-teal-500 disabled:bg-teal-200 disabled:cursor-not-allowed transition"
-                disabled={isBuying || !isValid}
+                disabled={isBuying || !isValid || paused}
                 onClick={() => {
-                  handleBuyShares(propertyId, BigInt(property.pricePerShare), property.ownerAddress, localBuyAmount)
+                  buyShares(
+                    propertyId,
+                    paymentTotal,
+                    property.ownerAddress,
+                    localBuyAmount,
+                    property.paymentAssetId,
+                    property.lockupRounds,
+                    maxPricePerShare,
+                    allowPartialFill,
+                    notifyTx('Shares purchased!'),
+                  )
                 }}
               >
                 {isBuying ? (
@@ -109,7 +420,65 @@ const PropertyCard: React.FC<PropertyCardProps> = ({
                 ) : null}
                 {isBuying ? 'Buying...' : 'Buy Shares'}
               </button>
+              <button
+                className="rounded-md border border-gray-300 px-3 py-1.5 text-xs font-semibold text-gray-700 shadow-sm hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition"
+                disabled={isBuying || !isValid}
+                onClick={() => handleAddToCart({ property, shares: BigInt(sharesNum), maxTotal: paymentTotal, maxPricePerShare })}
+              >
+                {inCart ? 'Update cart' : 'Add to cart'}
+              </button>
+              {canReserve && (
+                <button
+                  className="rounded-md border border-teal-500 px-3 py-1.5 text-xs font-semibold text-teal-600 shadow-sm hover:bg-teal-50 disabled:opacity-50 disabled:cursor-not-allowed transition"
+                  disabled={isReserving || !isValid || paused}
+                  onClick={() => reserveShares(property, localBuyAmount, reservationDeposit, notifyTx('Shares reserved!'))}
+                >
+                  {isReserving ? 'Reserving...' : 'Reserve'}
+                </button>
+              )}
             </div>
+            {canReserve && (
+              <div className="text-xs text-gray-400">
+                Reserve to hold shares for {formatRoundsRemaining(property.reservationRounds)} on a{' '}
+                {Number(property.reservationDepositBps) / 100}% deposit
+                {isValid && ` (${formatAmount(reservationDeposit, currency)})`}. If you don't pay the rest in time, the deposit{' '}
+                {property.forfeitDeposit ? 'goes to the lister' : 'is refunded'}.
+              </div>
+            )}
+            {!isAuction && (
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300 text-teal-500 focus:ring-teal-500"
+                  checked={allowPartialFill}
+                  onChange={(e) => setAllowPartialFill(e.target.checked)}
+                  disabled={isBuying}
+                />
+                Buy what's left if fewer shares are available
+              </label>
+            )}
+            {isValid && (
+              <dl className="text-xs text-gray-500 space-y-0.5">
+                <div className="flex justify-between">
+                  <dt>You pay{isAuction ? ' (about)' : ''}</dt>
+                  <dd className="text-gray-700">{formatAmount(purchaseTotal, currency)}</dd>
+                </div>
+                {paymentTotal > purchaseTotal && (
+                  <div className="flex justify-between">
+                    <dt>Sent, refunded down to the price</dt>
+                    <dd>{formatAmount(paymentTotal, currency)}</dd>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <dt>Lister receives</dt>
+                  <dd>{formatAmount(purchaseTotal - purchaseFee, currency)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt>Platform fee ({Number(feeBps) / 100}%)</dt>
+                  <dd>{formatAmount(purchaseFee, currency)}</dd>
+                </div>
+              </dl>
+            )}
             {!isValid && (
               <div className="flex items-center gap-1 text-red-500 text-xs mt-1">
                 <svg className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
@@ -119,10 +488,12 @@ const PropertyCard: React.FC<PropertyCardProps> = ({
                     d="M12 9v2m0 4h.01M21 12c0 4.97-4.03 9-9 9s-9-4.03-9-9 4.03-9 9-9 9 4.03 9 9z"
                   />
                 </svg>
-                Enter a valid amount (1 - {property.availableShares.toString()})
+                {maxShares < minShares
+                  ? `You hold ${heldShares.toString()} shares, the most one account can buy`
+                  : `Enter a valid amount (${minShares} - ${maxShares})`}
               </div>
             )}
-            {buyError && buyingPropertyId === propertyId && (
+            {buyError && (
               <div className="flex items-center gap-1 text-red-500 text-xs mt-1">
                 <svg className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
                   <path
@@ -142,26 +513,143 @@ const PropertyCard: React.FC<PropertyCardProps> = ({
                 {buySuccess}
               </div>
             )}
+            {reserveError && <div className="text-red-500 text-xs mt-1">{reserveError}</div>}
+            {reserveSuccess && !reserveError && <div className="text-green-600 text-xs mt-1">{reserveSuccess}</div>}
           </div>
         ) : property.ownerAddress === activeAddress ? (
           <div className="w-full bg-gray-50 rounded-lg p-4 flex flex-col gap-2 border border-gray-100">
             <div className="text-xs text-gray-700 font-medium text-center">You own this property</div>
+            {property.escrowedFunds > 0n && (
+              <button
+                className="inline-flex items-center justify-center gap-1 rounded-md bg-teal-500 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 disabled:bg-teal-200 disabled:cursor-not-allowed transition w-full"
+                disabled={isWithdrawingProceeds || raiseStatus !== 'funded'}
+                onClick={() => withdrawProceeds(propertyId, notifyTx('Proceeds withdrawn!'))}
+              >
+                {isWithdrawingProceeds
+                  ? 'Withdrawing...'
+                  : `Withdraw ${formatAmount(property.escrowedFunds, currency)} of proceeds${raiseStatus === 'funded' ? '' : ' (goal not reached)'}`}
+              </button>
+            )}
+            {raiseError && <div className="text-red-500 text-xs mt-1">{raiseError}</div>}
+            {raiseSuccess && !raiseError && <div className="text-green-600 text-xs mt-1">{raiseSuccess}</div>}
             {property.availableShares === property.totalShares && (
               <button
                 className="inline-flex items-center justify-center gap-1 rounded-md bg-red-500 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-red-600 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-red-500 disabled:bg-red-200 disabled:cursor-not-allowed transition w-full"
-                disabled={delistLoading && delistingPropertyId === propertyId}
-                onClick={() => handleDelistProperty(propertyId)}
+                disabled={isManaging || paused}
+                onClick={() => delistProperty(propertyId, notifyTx('Property delisted!'))}
               >
-                {delistLoading && delistingPropertyId === propertyId ? (
+                {isManaging ? (
                   <svg className="animate-spin h-4 w-4 mr-1 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v8z"></path>
                   </svg>
                 ) : null}
-                {delistLoading && delistingPropertyId === propertyId ? 'Delisting...' : 'Delist Property'}
+                {isManaging ? 'Working...' : 'Delist Property'}
               </button>
             )}
-            {delistError && delistingPropertyId === propertyId && (
+            {property.primarySaleOpen && (
+              <>
+                <label className="text-xs font-semibold text-gray-700 mt-2" htmlFor={`update-price-${propertyId}`}>
+                  Price per share ({baseUnitLabel(currency)})
+                </label>
+                <div className="flex gap-2 w-full items-center">
+                  <input
+                    id={`update-price-${propertyId}`}
+                    className="block w-28 rounded-md border border-gray-300 bg-white px-2 py-1 text-sm shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100 disabled:cursor-not-allowed transition"
+                    type="number"
+                    min={1}
+                    value={newPrice}
+                    onChange={(e) => setNewPrice(e.target.value)}
+                    disabled={isManaging}
+                  />
+                  <button
+                    className="inline-flex items-center gap-1 rounded-md bg-teal-500 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 disabled:bg-teal-200 disabled:cursor-not-allowed transition"
+                    disabled={isManaging || Number(newPrice) < 1 || newPrice === property.pricePerShare.toString()}
+                    onClick={() => updatePrice(propertyId, newPrice, notifyTx('Price updated!'))}
+                  >
+                    Reprice
+                  </button>
+                </div>
+              </>
+            )}
+            <label className="text-xs font-semibold text-gray-700 mt-2" htmlFor={`inventory-${propertyId}`}>
+              Unsold shares
+            </label>
+            <div className="flex gap-2 w-full items-center">
+              <input
+                id={`inventory-${propertyId}`}
+                className="block w-20 rounded-md border border-gray-300 bg-white px-2 py-1 text-sm shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100 disabled:cursor-not-allowed transition"
+                type="number"
+                min={1}
+                value={inventoryAmount}
+                onChange={(e) => setInventoryAmount(e.target.value)}
+                disabled={isManaging}
+              />
+              <button
+                className="rounded-md bg-gray-900 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-gray-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+                disabled={
+                  isManaging || raisePending || Number(inventoryAmount) < 1 || Number(inventoryAmount) > Number(property.availableShares)
+                }
+                onClick={() => withdrawShares(propertyId, inventoryAmount, notifyTx('Shares withdrawn!'))}
+              >
+                Withdraw
+              </button>
+              <button
+                className="rounded-md bg-gray-900 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-gray-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+                disabled={isManaging || Number(inventoryAmount) < 1}
+                onClick={() => topUpShares(propertyId, inventoryAmount, notifyTx('Shares added to the sale!'))}
+              >
+                Top up
+              </button>
+            </div>
+            {property.primarySaleOpen && (
+              <button
+                className="inline-flex items-center justify-center gap-1 rounded-md border border-red-300 px-3 py-1.5 text-xs font-semibold text-red-600 shadow-sm hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition w-full mt-2"
+                disabled={isManaging || raisePending}
+                onClick={() => closePrimarySale(propertyId, notifyTx('Primary sale closed!'))}
+              >
+                {raisePending ? 'Close primary sale (goal not reached)' : 'Close primary sale'}
+              </button>
+            )}
+            {pendingOwner ? (
+              <div className="flex gap-2 w-full items-center justify-between mt-2 text-xs text-gray-600">
+                <span>
+                  Transfer to <span className="font-mono">{ellipseAddress(pendingOwner, 4)}</span> pending
+                </span>
+                <button
+                  className="rounded-md border border-gray-300 px-3 py-1.5 text-xs font-semibold text-gray-700 shadow-sm hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition"
+                  disabled={isManaging}
+                  onClick={() => cancelOwnershipTransfer(propertyId, notifyTx('Transfer cancelled!'))}
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <>
+                <label className="text-xs font-semibold text-gray-700 mt-2" htmlFor={`new-owner-${propertyId}`}>
+                  Transfer ownership
+                </label>
+                <div className="flex gap-2 w-full items-center">
+                  <input
+                    id={`new-owner-${propertyId}`}
+                    className="block w-full min-w-0 rounded-md border border-gray-300 bg-white px-2 py-1 text-sm shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100 disabled:cursor-not-allowed transition"
+                    type="text"
+                    value={newOwner}
+                    onChange={(e) => setNewOwner(e.target.value.trim())}
+                    disabled={isManaging}
+                    placeholder="New owner address"
+                  />
+                  <button
+                    className="rounded-md bg-gray-900 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-gray-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+                    disabled={isManaging || !isValidAddress(newOwner) || newOwner === activeAddress}
+                    onClick={() => transferOwnership(propertyId, newOwner, notifyTx('Transfer proposed!'))}
+                  >
+                    Transfer
+                  </button>
+                </div>
+              </>
+            )}
+            {delistError && (
               <div className="flex items-center gap-1 text-red-500 text-xs mt-1">
                 <svg className="h-4 w-4 shrink-0" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01M21 12c0 4.97-4.03 9-9 9s-9-4.03-9-9 4.03-9 9-9 9 4.03 9 9z" />
@@ -169,7 +657,7 @@ const PropertyCard: React.FC<PropertyCardProps> = ({
                 {delistError}
               </div>
             )}
-            {delistSuccess && delistingPropertyId === propertyId && (
+            {delistSuccess && (
               <div className="flex items-center gap-1 text-green-600 text-xs mt-1">
                 <svg className="h-4 w-4 shrink-0" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
@@ -177,10 +665,74 @@ const PropertyCard: React.FC<PropertyCardProps> = ({
                 {delistSuccess}
               </div>
             )}
+            <label className="text-xs font-semibold text-gray-700 mt-2" htmlFor={`deposit-income-${propertyId}`}>
+              Distribute rental income (microAlgos)
+            </label>
+            <div className="flex gap-2 w-full items-center">
+              <input
+                id={`deposit-income-${propertyId}`}
+                className="block w-28 rounded-md border border-gray-300 bg-white px-2 py-1 text-sm shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100 disabled:cursor-not-allowed transition"
+                type="number"
+                min={1}
+                value={depositAmount}
+                onChange={(e) => setDepositAmount(e.target.value)}
+                disabled={isDepositing}
+                placeholder="Amount"
+              />
+              <button
+                className="inline-flex items-center gap-1 rounded-md bg-teal-500 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-teal-500 disabled:bg-teal-200 disabled:cursor-not-allowed transition"
+                disabled={isDepositing || Number(depositAmount) < 1}
+                onClick={() => depositIncome(propertyId, depositAmount, notifyTx('Income deposited!'))}
+              >
+                {isDepositing ? 'Depositing...' : 'Deposit'}
+              </button>
+            </div>
+            {incomeError && <div className="text-red-500 text-xs mt-1">{incomeError}</div>}
+            {incomeSuccess && !incomeError && <div className="text-green-600 text-xs mt-1">{incomeSuccess}</div>}
           </div>
         ) : (
           <span className="text-xs text-gray-400">Connect wallet</span>
         )}
+        <ReservationPanel
+          property={property}
+          reservations={reservations}
+          currentRound={currentRound}
+          activeAddress={activeAddress}
+          currency={currency}
+        />
+        <ValuationPanel
+          propertyId={propertyId}
+          property={property}
+          appraiser={appraiser}
+          valuation={valuation}
+          activeAddress={activeAddress}
+          currency={currency}
+        />
+        <div className="flex gap-4 mt-4 border-b border-gray-100 text-xs font-semibold">
+          {(['orders', 'proposals', 'buyout'] as const).map((tab) => (
+            <button
+              key={tab}
+              className={`pb-1 transition ${activeTab === tab ? 'text-teal-600 border-b-2 border-teal-500' : 'text-gray-400 hover:text-gray-600'}`}
+              onClick={() => setActiveTab(tab)}
+            >
+              {tab === 'orders' ? 'Resale' : tab === 'proposals' ? `Proposals (${proposals.length})` : 'Buyout'}
+            </button>
+          ))}
+        </div>
+        {activeTab === 'orders' ? (
+          <OrderBook propertyId={propertyId} orders={sellOrders} activeAddress={activeAddress} />
+        ) : activeTab === 'proposals' ? (
+          <ProposalsPanel propertyId={propertyId} proposals={proposals} currentRound={currentRound} activeAddress={activeAddress} />
+        ) : (
+          <BuyoutPanel
+            propertyId={propertyId}
+            property={property}
+            buyouts={buyouts}
+            heldShares={heldShares}
+            currentRound={currentRound}
+            activeAddress={activeAddress}
+          />
+        )}
       </div>
     </li>
   )
@@ -1,5 +1,14 @@
 import React from 'react'
 import PropertyCard from './PropertyCard'
+import { SellOrder } from '../hooks/useSellOrders'
+import { Proposal } from '../hooks/useProposals'
+import { Buyout } from '../hooks/useBuyouts'
+import { CartItem } from '../hooks/useCart'
+import { Reservation } from '../hooks/useReservations'
+import { ValuationStruct } from '../contracts/FractionalRealEstate'
+import { LoadedMetadata } from '../hooks/usePropertyMetadata'
+import { Currency, getCurrency } from '../utils/currency'
+import { PriceTier } from '../utils/pricing'
 
 interface Property {
   address: string
@@ -8,36 +17,71 @@ interface Property {
   pricePerShare: bigint
   propertyAssetId: bigint
   ownerAddress: string
+  incomePerShare: bigint
+  undistributedIncome: bigint
+  incomeShares: bigint
+  primarySaleOpen: boolean
+  fundingGoal: bigint
+  fundingDeadline: bigint
+  sharesSold: bigint
+  escrowedFunds: bigint
+  paymentAssetId: bigint
+  unitName: string
+  metadataUrl: string
+  metadataHash: Uint8Array
+  maxSharesPerAccount: bigint
+  minPurchase: bigint
+  lockupRounds: bigint
+  saleStart: bigint
+  saleEnd: bigint
+  auctionFloor: bigint
+  reservedShares: bigint
+  reservationRounds: bigint
+  reservationDepositBps: bigint
+  forfeitDeposit: boolean
+  referralBps: bigint
 }
 
 interface PropertyGridProps {
   properties: [bigint, Property][]
   activeAddress: string | null | undefined
-  buyingPropertyId: bigint | null
-  buyLoading: boolean
-  buyError: string | null
-  buySuccess: string | null
-  handleBuyShares: (propertyId: bigint, pricePerShare: bigint, ownerAddress: string, buyAmount: string) => void
-  delistingPropertyId: bigint | null
-  delistLoading: boolean
-  delistError: string | null
-  delistSuccess: string | null
-  handleDelistProperty: (propertyId: bigint) => void
+  sellOrders: SellOrder[]
+  proposals: Proposal[]
+  buyouts: Buyout[]
+  currentRound: bigint
+  feeBps: bigint
+  paused: boolean
+  currencies: Currency[]
+  metadata: Record<string, LoadedMetadata>
+  heldShares: Record<string, bigint>
+  priceTiers: Record<string, PriceTier[]>
+  pendingOwners: Record<string, string>
+  reservations: Reservation[]
+  cartItems: CartItem[]
+  handleAddToCart: (item: CartItem) => void
+  appraisers: Record<string, string>
+  latestValuations: Record<string, ValuationStruct>
 }
 
 const PropertyGrid: React.FC<PropertyGridProps> = ({
   properties,
   activeAddress,
-  buyingPropertyId,
-  buyLoading,
-  buyError,
-  buySuccess,
-  handleBuyShares,
-  delistingPropertyId,
-  delistLoading,
-  delistError,
-  delistSuccess,
-  handleDelistProperty,
+  sellOrders,
+  proposals,
+  buyouts,
+  currentRound,
+  feeBps,
+  paused,
+  currencies,
+  metadata,
+  heldShares,
+  priceTiers,
+  pendingOwners,
+  reservations,
+  cartItems,
+  handleAddToCart,
+  appraisers,
+  latestValuations,
 }) => (
   <ul role="list" className="grid grid-cols-1 gap-x-6 gap-y-8 md:grid-cols-3 xl:gap-x-8">
     {properties.map(([propertyId, property]) => (
@@ -46,16 +90,22 @@ const PropertyGrid: React.FC<PropertyGridProps> = ({
         propertyId={propertyId}
         property={property}
         activeAddress={activeAddress}
-        buyingPropertyId={buyingPropertyId}
-        buyLoading={buyLoading}
-        buyError={buyError}
-        buySuccess={buySuccess}
-        handleBuyShares={handleBuyShares}
-        delistingPropertyId={delistingPropertyId}
-        delistLoading={delistLoading}
-        delistError={delistError}
-        delistSuccess={delistSuccess}
-        handleDelistProperty={handleDelistProperty}
+        sellOrders={sellOrders.filter((order) => order.propertyId === propertyId)}
+        proposals={proposals.filter((proposal) => proposal.propertyId === propertyId)}
+        buyouts={buyouts.filter((buyout) => buyout.propertyId === propertyId)}
+        currentRound={currentRound}
+        feeBps={feeBps}
+        paused={paused}
+        currency={getCurrency(currencies, property.paymentAssetId)}
+        metadata={metadata[propertyId.toString()]}
+        heldShares={heldShares[propertyId.toString()] ?? 0n}
+        priceTiers={priceTiers[propertyId.toString()] ?? []}
+        pendingOwner={pendingOwners[propertyId.toString()]}
+        reservations={reservations.filter((reservation) => reservation.propertyId === propertyId)}
+        inCart={cartItems.some((item) => item.property.propertyAssetId === propertyId)}
+        handleAddToCart={handleAddToCart}
+        appraiser={appraisers[propertyId.toString()]}
+        valuation={latestValuations[propertyId.toString()]}
       />
     ))}
   </ul>
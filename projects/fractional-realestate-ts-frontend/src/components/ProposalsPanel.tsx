@@ -0,0 +1,161 @@
+import React, { useState } from 'react'
+import { useAppClient } from '../context/AppClientContext'
+import { useProposalActions } from '../hooks/useProposalActions'
+import { Proposal, PROPOSAL_OPEN, PROPOSAL_PASSED } from '../hooks/useProposals'
+import { useTxSnackbar } from '../hooks/useTxSnackbar'
+import { ellipseAddress } from '../utils/ellipseAddress'
+
+interface ProposalsPanelProps {
+  propertyId: bigint
+  proposals: Proposal[]
+  currentRound: bigint
+  activeAddress: string | null | undefined
+}
+
+const statusLabel = (proposal: Proposal, currentRound: bigint) => {
+  if (proposal.status === PROPOSAL_PASSED) return 'Passed'
+  if (proposal.status !== PROPOSAL_OPEN) return 'Rejected'
+  return currentRound > proposal.deadlineRound ? 'Awaiting result' : `Open until round ${proposal.deadlineRound.toString()}`
+}
+
+const ProposalsPanel: React.FC<ProposalsPanelProps> = ({ propertyId, proposals, currentRound, activeAddress }) => {
+  const { appClient } = useAppClient()
+  const {
+    createProposal,
+    castVote,
+    finalizeProposal,
+    withdrawVote,
+    loading: isBusy,
+    error: proposalError,
+    success: proposalSuccess,
+  } = useProposalActions(appClient, activeAddress)
+  const notifyTx = useTxSnackbar()
+  const [description, setDescription] = useState('')
+  const [votingRounds, setVotingRounds] = useState('1000')
+  const [voteAmounts, setVoteAmounts] = useState<Record<string, string>>({})
+
+  const isProposalValid = description.trim().length > 0 && Number(votingRounds) >= 1
+
+  // Newest proposals first
+  const sortedProposals = [...proposals].sort((a, b) => (a.proposalId > b.proposalId ? -1 : a.proposalId < b.proposalId ? 1 : 0))
+
+  return (
+    <div className="w-full bg-gray-50 rounded-lg p-4 flex flex-col gap-2 border border-gray-100 mt-3">
+      <div className="text-xs font-semibold text-gray-700">Proposals</div>
+      {sortedProposals.length === 0 ? (
+        <div className="text-xs text-gray-400">No proposals yet.</div>
+      ) : (
+        <ul className="divide-y divide-gray-100 text-xs">
+          {sortedProposals.map((proposal) => {
+            const key = proposal.proposalId.toString()
+            const voteAmount = voteAmounts[key] ?? '1'
+            const isVoteValid = Number(voteAmount) >= 1
+            const votingOpen = proposal.status === PROPOSAL_OPEN && currentRound <= proposal.deadlineRound
+            return (
+              <li key={key} className="flex flex-col gap-1 py-2">
+                <span className="text-gray-700">{proposal.description}</span>
+                <span className="text-gray-400">
+                  by <span className="font-mono">{ellipseAddress(proposal.proposer, 4)}</span> · {statusLabel(proposal, currentRound)}
+                </span>
+                <span className="text-gray-500">
+                  For {proposal.votesFor.toString()} · Against {proposal.votesAgainst.toString()} · Quorum{' '}
+                  {proposal.quorumShares.toString()} shares
+                </span>
+                {proposal.myVote && (
+                  <span className="text-gray-500">
+                    You voted {proposal.myVote.support ? 'for' : 'against'} with {proposal.myVote.shares.toString()} locked shares
+                  </span>
+                )}
+                {activeAddress && votingOpen && !proposal.myVote && (
+                  <div className="flex items-center gap-1">
+                    <input
+                      aria-label="Shares to vote with"
+                      className="block w-14 rounded-md border border-gray-300 bg-white px-1 py-0.5 text-xs shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100"
+                      type="number"
+                      min={1}
+                      value={voteAmount}
+                      onChange={(e) => setVoteAmounts({ ...voteAmounts, [key]: e.target.value })}
+                      disabled={isBusy}
+                    />
+                    <button
+                      className="rounded-md bg-teal-500 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 disabled:bg-teal-200 disabled:cursor-not-allowed transition"
+                      disabled={isBusy || !isVoteValid}
+                      onClick={() => castVote(proposal, voteAmount, true, notifyTx('Vote cast!'))}
+                    >
+                      For
+                    </button>
+                    <button
+                      className="rounded-md bg-red-500 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-red-600 disabled:bg-red-200 disabled:cursor-not-allowed transition"
+                      disabled={isBusy || !isVoteValid}
+                      onClick={() => castVote(proposal, voteAmount, false, notifyTx('Vote cast!'))}
+                    >
+                      Against
+                    </button>
+                  </div>
+                )}
+                {activeAddress && !votingOpen && (
+                  <div className="flex items-center gap-1">
+                    {proposal.status === PROPOSAL_OPEN && (
+                      <button
+                        className="rounded-md bg-gray-900 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-gray-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+                        disabled={isBusy}
+                        onClick={() => finalizeProposal(proposal, notifyTx('Proposal finalized!'))}
+                      >
+                        Finalize
+                      </button>
+                    )}
+                    {proposal.myVote && (
+                      <button
+                        className="rounded-md bg-teal-500 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 disabled:bg-teal-200 disabled:cursor-not-allowed transition"
+                        disabled={isBusy}
+                        onClick={() => withdrawVote(proposal, notifyTx('Shares unlocked!'))}
+                      >
+                        Unlock shares
+                      </button>
+                    )}
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+      {activeAddress && (
+        <div className="flex flex-col gap-2 w-full pt-2 border-t border-gray-100">
+          <input
+            aria-label="Proposal description"
+            className="block w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-xs shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100"
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            disabled={isBusy}
+            placeholder="e.g. Replace the roof"
+          />
+          <div className="flex gap-2 items-center">
+            <input
+              aria-label="Voting period in rounds"
+              className="block w-24 rounded-md border border-gray-300 bg-white px-2 py-1 text-xs shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100"
+              type="number"
+              min={1}
+              value={votingRounds}
+              onChange={(e) => setVotingRounds(e.target.value)}
+              disabled={isBusy}
+              placeholder="Rounds"
+            />
+            <button
+              className="rounded-md bg-gray-900 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-gray-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+              disabled={isBusy || !isProposalValid}
+              onClick={() => createProposal(propertyId, description.trim(), votingRounds, notifyTx('Proposal created!'))}
+            >
+              {isBusy ? 'Working...' : 'Propose'}
+            </button>
+          </div>
+        </div>
+      )}
+      {proposalError && <div className="text-red-500 text-xs mt-1">{proposalError}</div>}
+      {proposalSuccess && !proposalError && <div className="text-green-600 text-xs mt-1">{proposalSuccess}</div>}
+    </div>
+  )
+}
+
+export default ProposalsPanel
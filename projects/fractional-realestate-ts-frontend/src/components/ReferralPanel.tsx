@@ -0,0 +1,90 @@
+import React, { useEffect } from 'react'
+import { useAppClient } from '../context/AppClientContext'
+import { useRefresh } from '../context/RefreshContext'
+import { useReferrals } from '../hooks/useReferrals'
+import { useTxSnackbar } from '../hooks/useTxSnackbar'
+import { Currency, formatAmount } from '../utils/currency'
+import { getReferralLink } from '../utils/referral'
+
+interface ReferralPanelProps {
+  activeAddress: string
+  currencies: Currency[]
+}
+
+/**
+ * The connected account's referral link and the commissions it has earned from buyers who
+ * followed it, per currency. Listings only pay partners registered for their currency.
+ */
+const ReferralPanel: React.FC<ReferralPanelProps> = ({ activeAddress, currencies }) => {
+  const { appClient } = useAppClient()
+  const { refreshKey } = useRefresh()
+  const {
+    earnings,
+    registerReferrer,
+    loading: referralLoading,
+    error: referralError,
+    success: referralSuccess,
+    refresh,
+  } = useReferrals(appClient, activeAddress, currencies)
+  const notifyTx = useTxSnackbar()
+
+  // Purchases made through the link earn commissions, so reload whenever the app's data does
+  useEffect(() => {
+    refresh()
+  }, [refreshKey, refresh])
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-1">
+        <span className="text-xs text-gray-500">Your referral link</span>
+        <input
+          className="input w-full text-sm"
+          type="text"
+          readOnly
+          value={getReferralLink(activeAddress)}
+          onFocus={(e) => e.target.select()}
+        />
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b border-gray-100">
+              <th className="py-2 pr-4 font-semibold">Currency</th>
+              <th className="py-2 pr-4 font-semibold">Earned</th>
+              <th className="py-2 font-semibold"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {earnings.map(({ currency, registered, earned }) => (
+              <tr key={currency.assetId.toString()} className="border-b border-gray-50">
+                <td className="py-2 pr-4 text-gray-900">{currency.unitName}</td>
+                <td className="py-2 pr-4 text-gray-700">{formatAmount(earned, currency)}</td>
+                <td className="py-2">
+                  {registered ? (
+                    <span className="text-xs text-green-600">Registered</span>
+                  ) : (
+                    <button
+                      className="rounded-md bg-teal-500 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 disabled:bg-teal-200 disabled:cursor-not-allowed transition"
+                      disabled={referralLoading}
+                      onClick={() => registerReferrer(currency.assetId, notifyTx('Registered as a partner!'))}
+                    >
+                      {referralLoading ? 'Registering...' : 'Register'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-400">
+        Registering for a currency costs 0.0253 Algo of box storage. Buyers who follow your link pay you the listing's commission on primary
+        sales in that currency.
+      </p>
+      {referralError && <div className="text-red-500 text-xs">{referralError}</div>}
+      {referralSuccess && !referralError && <div className="text-green-600 text-xs">{referralSuccess}</div>}
+    </div>
+  )
+}
+
+export default ReferralPanel
@@ -0,0 +1,84 @@
+import React from 'react'
+import { useAppClient } from '../context/AppClientContext'
+import { Property } from '../hooks/useProperties'
+import { useReservationActions } from '../hooks/useReservationActions'
+import { Reservation } from '../hooks/useReservations'
+import { useTxSnackbar } from '../hooks/useTxSnackbar'
+import { Currency, formatAmount } from '../utils/currency'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { formatRoundsRemaining } from '../utils/fundingRaise'
+
+interface ReservationPanelProps {
+  property: Property
+  reservations: Reservation[]
+  currentRound: bigint
+  activeAddress: string | null | undefined
+  currency: Currency
+}
+
+/**
+ * The connected user's reservation on a property, with the rest of the price to pay before it
+ * runs out. The owner sees every reservation on their listing. Anyone shown an expired
+ * reservation can release it, putting its shares back on sale.
+ */
+const ReservationPanel: React.FC<ReservationPanelProps> = ({ property, reservations, currentRound, activeAddress, currency }) => {
+  const { appClient } = useAppClient()
+  const {
+    completeReservation,
+    expireReservation,
+    loading: isBusy,
+    error: reservationError,
+    success: reservationSuccess,
+  } = useReservationActions(appClient, activeAddress)
+  const notifyTx = useTxSnackbar()
+  const isOwner = property.ownerAddress === activeAddress
+  const shown = reservations.filter((reservation) => isOwner || reservation.holder === activeAddress)
+  const showResult = reservationError || reservationSuccess
+  if (shown.length === 0 && !showResult) return null
+
+  return (
+    <div className="w-full bg-gray-50 rounded-lg p-4 flex flex-col gap-2 border border-gray-100 mt-2">
+      <div className="text-xs font-semibold text-gray-700">Reservations</div>
+      {shown.map((reservation) => {
+        const expired = currentRound > reservation.expiresRound
+        const mine = reservation.holder === activeAddress
+        return (
+          <div key={reservation.holder} className="flex flex-col gap-1 text-xs">
+            <span className="text-gray-700">
+              {mine ? 'You reserved' : <span className="font-mono">{ellipseAddress(reservation.holder, 4)}</span>}{' '}
+              {reservation.shares.toString()} shares for {formatAmount(reservation.cost, currency)} (
+              {formatAmount(reservation.deposit, currency)} paid)
+            </span>
+            <span className="text-gray-400">
+              {expired
+                ? `Expired. The deposit ${property.forfeitDeposit ? 'goes to the owner' : 'is refunded'} on release.`
+                : `Expires in ${formatRoundsRemaining(reservation.expiresRound - currentRound + 1n)}`}
+            </span>
+            {mine && !expired && (
+              <button
+                className="rounded-md bg-teal-500 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 disabled:bg-teal-200 disabled:cursor-not-allowed transition"
+                disabled={isBusy}
+                onClick={() => completeReservation(reservation, property, notifyTx('Reservation completed!'))}
+              >
+                {isBusy ? 'Working...' : `Pay ${formatAmount(reservation.cost - reservation.deposit, currency)} and receive shares`}
+              </button>
+            )}
+            {expired && (
+              <button
+                className="rounded-md border border-gray-300 px-3 py-1.5 text-xs font-semibold text-gray-700 shadow-sm hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition"
+                disabled={isBusy}
+                onClick={() => expireReservation(reservation, property, notifyTx('Reservation released!'))}
+              >
+                Release shares
+              </button>
+            )}
+          </div>
+        )
+      })}
+      {reservationError && <div className="text-red-500 text-xs mt-1">{reservationError}</div>}
+      {reservationSuccess && !reservationError && <div className="text-green-600 text-xs mt-1">{reservationSuccess}</div>}
+    </div>
+  )
+}
+
+export default ReservationPanel
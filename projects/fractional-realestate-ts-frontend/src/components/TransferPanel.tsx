@@ -0,0 +1,62 @@
+import React, { useState } from 'react'
+import { useWallet } from '@txnlab/use-wallet-react'
+import { isValidAddress } from 'algosdk'
+import { useAppClient } from '../context/AppClientContext'
+import { useShareTransfer } from '../hooks/useShareTransfer'
+import { useTxSnackbar } from '../hooks/useTxSnackbar'
+
+interface TransferPanelProps {
+  propertyId: bigint
+  // Shares the holder can move right now, i.e. not locked up
+  transferableShares: bigint
+}
+
+const TransferPanel: React.FC<TransferPanelProps> = ({ propertyId, transferableShares }) => {
+  const { appClient } = useAppClient()
+  const { activeAddress } = useWallet()
+  const { transferShares, loading: isBusy, error: transferError } = useShareTransfer(appClient, activeAddress)
+  const notifyTx = useTxSnackbar()
+  const [receiver, setReceiver] = useState('')
+  const [shares, setShares] = useState('1')
+
+  const sharesNum = Number(shares)
+  const isValid = isValidAddress(receiver) && Number.isInteger(sharesNum) && sharesNum >= 1 && sharesNum <= Number(transferableShares)
+
+  return (
+    <div className="w-full bg-gray-50 rounded-lg p-3 flex flex-col gap-2 border border-gray-100 mt-2">
+      <div className="text-xs font-semibold text-gray-700">Transfer shares</div>
+      <input
+        aria-label="Receiver address"
+        className="block w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-xs font-mono shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100"
+        type="text"
+        value={receiver}
+        onChange={(e) => setReceiver(e.target.value.trim())}
+        disabled={isBusy}
+        placeholder="Receiver address"
+      />
+      <div className="flex gap-2 items-center">
+        <input
+          aria-label="Shares to transfer"
+          className="block w-16 rounded-md border border-gray-300 bg-white px-2 py-1 text-xs shadow-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500 disabled:bg-gray-100"
+          type="number"
+          min={1}
+          max={transferableShares.toString()}
+          value={shares}
+          onChange={(e) => setShares(e.target.value)}
+          disabled={isBusy}
+        />
+        <button
+          className="flex-1 rounded-md bg-gray-900 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-gray-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+          disabled={isBusy || !isValid}
+          onClick={() => transferShares(propertyId, receiver, shares, notifyTx('Shares transferred!'))}
+        >
+          {isBusy ? 'Transferring...' : 'Transfer'}
+        </button>
+      </div>
+      <span className="text-xs text-gray-400">The receiver must be KYC approved and opted in to the share asset.</span>
+      {transferError && <div className="text-red-500 text-xs">{transferError}</div>}
+    </div>
+  )
+}
+
+export default TransferPanel
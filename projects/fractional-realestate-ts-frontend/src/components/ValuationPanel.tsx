@@ -0,0 +1,120 @@
+import React, { useState } from 'react'
+import { useAppClient } from '../context/AppClientContext'
+import { ValuationStruct } from '../contracts/FractionalRealEstate'
+import { Property } from '../hooks/useProperties'
+import { useTxSnackbar } from '../hooks/useTxSnackbar'
+import { useValuationActions } from '../hooks/useValuationActions'
+import { baseUnitLabel, Currency, formatAmount } from '../utils/currency'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { formatTimestamp } from '../utils/pricing'
+import { getNavPerShare } from '../utils/valuation'
+
+interface ValuationPanelProps {
+  propertyId: bigint
+  property: Property
+  appraiser: string | undefined
+  valuation: ValuationStruct | undefined
+  activeAddress: string | null | undefined
+  currency: Currency
+}
+
+/**
+ * The property's latest appraisal and the net asset value per share it puts on the shares. The
+ * owner appoints the appraiser here, and the appraiser posts new valuations.
+ */
+const ValuationPanel: React.FC<ValuationPanelProps> = ({ propertyId, property, appraiser, valuation, activeAddress, currency }) => {
+  const { appClient } = useAppClient()
+  const {
+    setAppraiser,
+    postValuation,
+    loading: isBusy,
+    error: valuationError,
+    success: valuationSuccess,
+  } = useValuationActions(appClient, activeAddress)
+  const notifyTx = useTxSnackbar()
+  const [newAppraiser, setNewAppraiser] = useState('')
+  const [totalValue, setTotalValue] = useState('')
+  const [valuedAt, setValuedAt] = useState('')
+  const [documentHash, setDocumentHash] = useState('')
+
+  const isOwner = property.ownerAddress === activeAddress
+  const isAppraiser = appraiser !== undefined && appraiser === activeAddress
+  if (!valuation && !isOwner && !isAppraiser) return null
+
+  return (
+    <div className="w-full bg-gray-50 rounded-lg p-4 flex flex-col gap-2 border border-gray-100 mt-2">
+      <div className="text-xs font-semibold text-gray-700">Valuation</div>
+      {valuation ? (
+        <span className="text-xs text-gray-700">
+          {formatAmount(valuation.totalValue, currency)} ({formatAmount(getNavPerShare(property, valuation), currency)} per share),
+          appraised {formatTimestamp(valuation.timestamp)}
+        </span>
+      ) : (
+        <span className="text-xs text-gray-400">Not appraised yet.</span>
+      )}
+      {appraiser && (
+        <span className="text-xs text-gray-400">
+          Appraiser: <span className="font-mono">{isAppraiser ? 'you' : ellipseAddress(appraiser, 4)}</span>
+        </span>
+      )}
+      {isOwner && (
+        <div className="flex items-center gap-1">
+          <input
+            aria-label="Appraiser address"
+            className="input flex-1 text-xs"
+            type="text"
+            placeholder="Appraiser address"
+            value={newAppraiser}
+            onChange={(e) => setNewAppraiser(e.target.value)}
+          />
+          <button
+            className="rounded-md bg-gray-900 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-gray-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+            disabled={isBusy || newAppraiser.trim().length === 0}
+            onClick={() => setAppraiser(propertyId, newAppraiser.trim(), notifyTx('Appraiser appointed!'))}
+          >
+            {isBusy ? 'Saving...' : appraiser ? 'Replace' : 'Appoint'}
+          </button>
+        </div>
+      )}
+      {isAppraiser && (
+        <div className="flex flex-col gap-1">
+          <input
+            aria-label="Total property value"
+            className="input w-full text-xs"
+            type="number"
+            placeholder={`Total value (${baseUnitLabel(currency)})`}
+            value={totalValue}
+            onChange={(e) => setTotalValue(e.target.value)}
+            min={1}
+          />
+          <input
+            aria-label="Valuation date"
+            className="input w-full text-xs"
+            type="datetime-local"
+            value={valuedAt}
+            onChange={(e) => setValuedAt(e.target.value)}
+          />
+          <input
+            aria-label="Report hash"
+            className="input w-full text-xs font-mono"
+            type="text"
+            placeholder="SHA-256 of the appraisal report (hex)"
+            value={documentHash}
+            onChange={(e) => setDocumentHash(e.target.value)}
+          />
+          <button
+            className="rounded-md bg-teal-500 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-teal-600 disabled:bg-teal-200 disabled:cursor-not-allowed transition"
+            disabled={isBusy || !(Number(totalValue) > 0) || !valuedAt}
+            onClick={() => postValuation(propertyId, totalValue, valuedAt, documentHash, notifyTx('Valuation posted!'))}
+          >
+            {isBusy ? 'Posting...' : 'Post valuation'}
+          </button>
+        </div>
+      )}
+      {valuationError && <div className="text-red-500 text-xs mt-1">{valuationError}</div>}
+      {valuationSuccess && !valuationError && <div className="text-green-600 text-xs mt-1">{valuationSuccess}</div>}
+    </div>
+  )
+}
+
+export default ValuationPanel
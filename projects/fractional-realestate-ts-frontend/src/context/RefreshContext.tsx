@@ -0,0 +1,25 @@
+// This context provider lets any part of the app ask for the on-chain data to be loaded again.
+// Panels send their own transactions, so after one succeeds they call refresh() and the page
+// reloads the listings, orders, proposals and everything else the transaction may have changed.
+
+import React, { createContext, useCallback, useContext, useState } from 'react'
+
+type RefreshContextType = {
+  // Bumped on every refresh, so effects that load data can depend on it
+  refreshKey: number
+  refresh: () => void
+}
+
+const RefreshContext = createContext<RefreshContextType>({
+  refreshKey: 0,
+  refresh: () => {},
+})
+
+export const RefreshProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [refreshKey, setRefreshKey] = useState(0)
+  const refresh = useCallback(() => setRefreshKey((key) => key + 1), [])
+
+  return <RefreshContext.Provider value={{ refreshKey, refresh }}>{children}</RefreshContext.Provider>
+}
+
+export const useRefresh = () => useContext(RefreshContext)
@@ -23,7 +23,7 @@ import { TransactionComposer, AppCallMethodCall, AppMethodCallTransactionArgumen
 import { SendParams, SendSingleTransactionResult, SendAtomicTransactionComposerResults } from '@algorandfoundation/algokit-utils/types/transaction'
 import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
 
-export const APP_SPEC: Arc56Contract = {"name":"FractionalRealEstate","structs":{"PropertyStruct":[{"name":"address","type":"string"},{"name":"totalShares","type":"uint64"},{"name":"availableShares","type":"uint64"},{"name":"pricePerShare","type":"uint64"},{"name":"propertyAssetId","type":"uint64"},{"name":"ownerAddress","type":"address"}]},"methods":[{"name":"createPropertyListing","args":[{"type":"pay","name":"mbrPayment","desc":"Covers the Minimum Balance Requirement for box storage"},{"type":"string","name":"propertyAddress"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"pricePerShare"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"List a new property for fractional ownership. Creates an ASA representing shares\nand stores property details in a BoxMap.","events":[],"recommendations":{}},{"name":"purchaseFromLister","args":[{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"shares"},{"type":"pay","name":"payment"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Purchase shares from the original lister. Buyer must opt in to the ASA beforehand.","events":[],"recommendations":{}},{"name":"delistProperty","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Delist a property. Only the owner can delist, and no shares can have been sold.\nDeleting the box reclaims the MBR.","events":[],"recommendations":{}},{"name":"getPropertyInfo","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"(string,uint64,uint64,uint64,uint64,address)","struct":"PropertyStruct"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":0,"bytes":0},"local":{"ints":0,"bytes":0}},"keys":{"global":{},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{"listedProperties":{"keyType":"uint64","valueType":"PropertyStruct","prefix":"cHJvcGVydGllcw=="}}}},"bareActions":{"create":["NoOp"],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[{"pc":[524],"errorMessage":"Cannot delist property with sold shares"},{"pc":[364],"errorMessage":"Invalid payment transaction"},{"pc":[159],"errorMessage":"MBR payment amount is insufficient"},{"pc":[175],"errorMessage":"MBR payment must be from the caller"},{"pc":[167],"errorMessage":"MBR payment must be to the app"},{"pc":[302],"errorMessage":"Must purchase at least one share"},{"pc":[377],"errorMessage":"Not enough shares"},{"pc":[36],"errorMessage":"OnCompletion must be NoOp"},{"pc":[83],"errorMessage":"OnCompletion must be NoOp && can only call when creating"},{"pc":[509],"errorMessage":"Only the owner can delist"},{"pc":[137],"errorMessage":"Price per share must be greater than 0"},{"pc":[313,499,546],"errorMessage":"Property not listed"},{"pc":[136],"errorMessage":"Shares must be greater than 0"},{"pc":[101],"errorMessage":"invalid array length header"},{"pc":[109],"errorMessage":"invalid number of bytes for arc4.dynamic_array<arc4.uint8>"},{"pc":[121,131,279,288,489,536],"errorMessage":"invalid number of bytes for arc4.uint64"},{"pc":[95,299],"errorMessage":"transaction type is pay"}],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"source":{"approval":"I3ByYWdtYSB2ZXJzaW9uIDExCiNwcmFnbWEgdHlwZXRyYWNrIGZhbHNlCgovLyBAYWxnb3JhbmRmb3VuZGF0aW9uL2FsZ29yYW5kLXR5cGVzY3JpcHQvYXJjNC9pbmRleC5kLnRzOjpDb250cmFjdC5hcHByb3ZhbFByb2dyYW0oKSAtPiB1aW50NjQ6Cm1haW46CiAgICBpbnRjYmxvY2sgOCAxIDAgMzIKICAgIGJ5dGVjYmxvY2sgInByb3BlcnRpZXMiIDB4MDA0MiAweDE1MWY3Yzc1CiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoyNwogICAgLy8gZXhwb3J0IGRlZmF1bHQgY2xhc3MgRnJhY3Rpb25hbFJlYWxFc3RhdGUgZXh0ZW5kcyBDb250cmFjdCB7CiAgICB0eG4gTnVtQXBwQXJncwogICAgYnogbWFpbl9fX2FsZ290c19fLmRlZmF1bHRDcmVhdGVAMTEKICAgIHR4biBPbkNvbXBsZXRpb24KICAgICEKICAgIGFzc2VydCAvLyBPbkNvbXBsZXRpb24gbXVzdCBiZSBOb09wCiAgICB0eG4gQXBwbGljYXRpb25JRAogICAgYXNzZXJ0CiAgICBwdXNoYnl0ZXNzIDB4MzMxZGFjNTQgMHgwYTNkZTUxYyAweDNiOWUzOTQ1IDB4ZjNjZTUxODQgLy8gbWV0aG9kICJjcmVhdGVQcm9wZXJ0eUxpc3RpbmcocGF5LHN0cmluZyx1aW50NjQsdWludDY0KXVpbnQ2NCIsIG1ldGhvZCAicHVyY2hhc2VGcm9tTGlzdGVyKHVpbnQ2NCx1aW50NjQscGF5KWJvb2wiLCBtZXRob2QgImRlbGlzdFByb3BlcnR5KHVpbnQ2NCl2b2lkIiwgbWV0aG9kICJnZXRQcm9wZXJ0eUluZm8odWludDY0KShzdHJpbmcsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGFkZHJlc3MpIgogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMAogICAgbWF0Y2ggY3JlYXRlUHJvcGVydHlMaXN0aW5nIHB1cmNoYXNlRnJvbUxpc3RlciBkZWxpc3RQcm9wZXJ0eSBnZXRQcm9wZXJ0eUluZm8KICAgIGVycgoKbWFpbl9fX2FsZ290c19fLmRlZmF1bHRDcmVhdGVAMTE6CiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoyNwogICAgLy8gZXhwb3J0IGRlZmF1bHQgY2xhc3MgRnJhY3Rpb25hbFJlYWxFc3RhdGUgZXh0ZW5kcyBDb250cmFjdCB7CiAgICB0eG4gT25Db21wbGV0aW9uCiAgICAhCiAgICB0eG4gQXBwbGljYXRpb25JRAogICAgIQogICAgJiYKICAgIGFzc2VydCAvLyBPbkNvbXBsZXRpb24gbXVzdCBiZSBOb09wICYmIGNhbiBvbmx5IGNhbGwgd2hlbiBjcmVhdGluZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjpGcmFjdGlvbmFsUmVhbEVzdGF0ZS5jcmVhdGVQcm9wZXJ0eUxpc3Rpbmdbcm91dGluZ10oKSAtPiB2b2lkOgpjcmVhdGVQcm9wZXJ0eUxpc3Rpbmc6CiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czozNi00MQogICAgLy8gcHVibGljIGNyZWF0ZVByb3BlcnR5TGlzdGluZygKICAgIC8vICAgbWJyUGF5bWVudDogZ3R4bi5QYXltZW50VHhuLAogICAgLy8gICBwcm9wZXJ0eUFkZHJlc3M6IHN0cmluZywKICAgIC8vICAgc2hhcmVzOiB1aW50NjQsCiAgICAvLyAgIHByaWNlUGVyU2hhcmU6IHVpbnQ2NCwKICAgIC8vICk6IHVpbnQ2NCB7CiAgICB0eG4gR3JvdXBJbmRleAogICAgaW50Y18xIC8vIDEKICAgIC0KICAgIGR1cAogICAgZ3R4bnMgVHlwZUVudW0KICAgIGludGNfMSAvLyBwYXkKICAgID09CiAgICBhc3NlcnQgLy8gdHJhbnNhY3Rpb24gdHlwZSBpcyBwYXkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgaW50Y18yIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIHB1c2hpbnQgMiAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGR1cAogICAgZXh0cmFjdCAyIDAKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzAgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGR1cAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMwogICAgZHVwCiAgICBsZW4KICAgIGludGNfMCAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgZHVwCiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo0MgogICAgLy8gYXNzZXJ0KHNoYXJlcyA+IDAsICdTaGFyZXMgbXVzdCBiZSBncmVhdGVyIHRoYW4gMCcpCiAgICBkaWcgMgogICAgYXNzZXJ0IC8vIFNoYXJlcyBtdXN0IGJlIGdyZWF0ZXIgdGhhbiAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo0MwogICAgLy8gYXNzZXJ0KHByaWNlUGVyU2hhcmUgPiAwLCAnUHJpY2UgcGVyIHNoYXJlIG11c3QgYmUgZ3JlYXRlciB0aGFuIDAnKQogICAgYXNzZXJ0IC8vIFByaWNlIHBlciBzaGFyZSBtdXN0IGJlIGdyZWF0ZXIgdGhhbiAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo1MwogICAgLy8gY29uc3QgYm94TWJyQ29zdDogdWludDY0ID0gMjUwMCArIDQwMCAqICgxOCArIDY4ICsgQnl0ZXMocHJvcGVydHlBZGRyZXNzKS5sZW5ndGgpCiAgICBkaWcgMwogICAgbGVuCiAgICBwdXNoaW50IDg2IC8vIDg2CiAgICBkaWcgMQogICAgKwogICAgcHVzaGludCA0MDAgLy8gNDAwCiAgICAqCiAgICBwdXNoaW50IDI1MDAgLy8gMjUwMAogICAgKwogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6NTQKICAgIC8vIGFzc2VydChtYnJQYXltZW50LmFtb3VudCA+PSBib3hNYnJDb3N0LCAnTUJSIHBheW1lbnQgYW1vdW50IGlzIGluc3VmZmljaWVudCcpCiAgICBkaWcgNwogICAgZ3R4bnMgQW1vdW50CiAgICA8PQogICAgYXNzZXJ0IC8vIE1CUiBwYXltZW50IGFtb3VudCBpcyBpbnN1ZmZpY2llbnQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjU1CiAgICAvLyBhc3NlcnQobWJyUGF5bWVudC5yZWNlaXZlciA9PT0gR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MsICdNQlIgcGF5bWVudCBtdXN0IGJlIHRvIHRoZSBhcHAnKQogICAgZGlnIDYKICAgIGd0eG5zIFJlY2VpdmVyCiAgICBnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwogICAgPT0KICAgIGFzc2VydCAvLyBNQlIgcGF5bWVudCBtdXN0IGJlIHRvIHRoZSBhcHAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjU2CiAgICAvLyBhc3NlcnQobWJyUGF5bWVudC5zZW5kZXIgPT09IFR4bi5zZW5kZXIsICdNQlIgcGF5bWVudCBtdXN0IGJlIGZyb20gdGhlIGNhbGxlcicpCiAgICB1bmNvdmVyIDYKICAgIGd0eG5zIFNlbmRlcgogICAgdHhuIFNlbmRlcgogICAgPT0KICAgIGFzc2VydCAvLyBNQlIgcGF5bWVudCBtdXN0IGJlIGZyb20gdGhlIGNhbGxlcgogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6NzYtODYKICAgIC8vIGNvbnN0IHR4blJlc3VsdCA9IGl0eG4KICAgIC8vICAgLmFzc2V0Q29uZmlnKHsKICAgIC8vICAgICBhc3NldE5hbWU6IEJ5dGVzKHByb3BlcnR5QWRkcmVzcykuc2xpY2UoMCwgMzIpLnRvU3RyaW5nKCksCiAgICAvLyAgICAgdW5pdE5hbWU6ICdQUk9QJywKICAgIC8vICAgICB0b3RhbDogc2hhcmVzLAogICAgLy8gICAgIGRlY2ltYWxzOiAwLAogICAgLy8gICAgIG1hbmFnZXI6IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLAogICAgLy8gICAgIHJlc2VydmU6IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLAogICAgLy8gICAgIGZlZTogMCwKICAgIC8vICAgfSkKICAgIC8vICAgLnN1Ym1pdCgpCiAgICBpdHhuX2JlZ2luCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo3OAogICAgLy8gYXNzZXROYW1lOiBCeXRlcyhwcm9wZXJ0eUFkZHJlc3MpLnNsaWNlKDAsIDMyKS50b1N0cmluZygpLAogICAgaW50Y18yIC8vIDAKICAgIGRpZyAxCiAgICA+PQogICAgaW50Y18yIC8vIDAKICAgIGRpZyAyCiAgICB1bmNvdmVyIDIKICAgIHNlbGVjdAogICAgaW50Y18zIC8vIDMyCiAgICBkaWcgMgogICAgPj0KICAgIGludGNfMyAvLyAzMgogICAgdW5jb3ZlciAzCiAgICB1bmNvdmVyIDIKICAgIHNlbGVjdAogICAgdW5jb3ZlciA1CiAgICBjb3ZlciAyCiAgICBzdWJzdHJpbmczCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo4MgogICAgLy8gbWFuYWdlcjogR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MsCiAgICBnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6ODMKICAgIC8vIHJlc2VydmU6IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLAogICAgZHVwCiAgICBpdHhuX2ZpZWxkIENvbmZpZ0Fzc2V0UmVzZXJ2ZQogICAgaXR4bl9maWVsZCBDb25maWdBc3NldE1hbmFnZXIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjgxCiAgICAvLyBkZWNpbWFsczogMCwKICAgIGludGNfMiAvLyAwCiAgICBpdHhuX2ZpZWxkIENvbmZpZ0Fzc2V0RGVjaW1hbHMKICAgIHVuY292ZXIgMgogICAgaXR4bl9maWVsZCBDb25maWdBc3NldFRvdGFsCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo3OQogICAgLy8gdW5pdE5hbWU6ICdQUk9QJywKICAgIHB1c2hieXRlcyAiUFJPUCIKICAgIGl0eG5fZmllbGQgQ29uZmlnQXNzZXRVbml0TmFtZQogICAgaXR4bl9maWVsZCBDb25maWdBc3NldE5hbWUKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjc2LTg1CiAgICAvLyBjb25zdCB0eG5SZXN1bHQgPSBpdHhuCiAgICAvLyAgIC5hc3NldENvbmZpZyh7CiAgICAvLyAgICAgYXNzZXROYW1lOiBCeXRlcyhwcm9wZXJ0eUFkZHJlc3MpLnNsaWNlKDAsIDMyKS50b1N0cmluZygpLAogICAgLy8gICAgIHVuaXROYW1lOiAnUFJPUCcsCiAgICAvLyAgICAgdG90YWw6IHNoYXJlcywKICAgIC8vICAgICBkZWNpbWFsczogMCwKICAgIC8vICAgICBtYW5hZ2VyOiBHbG9iYWwuY3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcywKICAgIC8vICAgICByZXNlcnZlOiBHbG9iYWwuY3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcywKICAgIC8vICAgICBmZWU6IDAsCiAgICAvLyAgIH0pCiAgICBwdXNoaW50IDMgLy8gMwogICAgaXR4bl9maWVsZCBUeXBlRW51bQogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6ODQKICAgIC8vIGZlZTogMCwKICAgIGludGNfMiAvLyAwCiAgICBpdHhuX2ZpZWxkIEZlZQogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6NzYtODYKICAgIC8vIGNvbnN0IHR4blJlc3VsdCA9IGl0eG4KICAgIC8vICAgLmFzc2V0Q29uZmlnKHsKICAgIC8vICAgICBhc3NldE5hbWU6IEJ5dGVzKHByb3BlcnR5QWRkcmVzcykuc2xpY2UoMCwgMzIpLnRvU3RyaW5nKCksCiAgICAvLyAgICAgdW5pdE5hbWU6ICdQUk9QJywKICAgIC8vICAgICB0b3RhbDogc2hhcmVzLAogICAgLy8gICAgIGRlY2ltYWxzOiAwLAogICAgLy8gICAgIG1hbmFnZXI6IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLAogICAgLy8gICAgIHJlc2VydmU6IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLAogICAgLy8gICAgIGZlZTogMCwKICAgIC8vICAgfSkKICAgIC8vICAgLnN1Ym1pdCgpCiAgICBpdHhuX3N1Ym1pdAogICAgaXR4biBDcmVhdGVkQXNzZXRJRAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6NjUKICAgIC8vIHByb3BlcnR5QXNzZXRJZDogbmV3IGFyYzQuVWludDY0KGFzc2V0SWQpLAogICAgaXRvYgogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6NjYKICAgIC8vIG93bmVyQWRkcmVzczogbmV3IGFyYzQuQWRkcmVzcyhUeG4uc2VuZGVyKSwKICAgIHR4biBTZW5kZXIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjYwLTY3CiAgICAvLyBjb25zdCBwcm9wZXJ0eVN0cnVjdCA9IG5ldyBQcm9wZXJ0eVN0cnVjdCh7CiAgICAvLyAgIGFkZHJlc3M6IG5ldyBhcmM0LlN0cihwcm9wZXJ0eUFkZHJlc3MpLAogICAgLy8gICB0b3RhbFNoYXJlczogbmV3IGFyYzQuVWludDY0KHNoYXJlcyksCiAgICAvLyAgIGF2YWlsYWJsZVNoYXJlczogbmV3IGFyYzQuVWludDY0KHNoYXJlcyksCiAgICAvLyAgIHByaWNlUGVyU2hhcmU6IG5ldyBhcmM0LlVpbnQ2NChwcmljZVBlclNoYXJlKSwKICAgIC8vICAgcHJvcGVydHlBc3NldElkOiBuZXcgYXJjNC5VaW50NjQoYXNzZXRJZCksCiAgICAvLyAgIG93bmVyQWRkcmVzczogbmV3IGFyYzQuQWRkcmVzcyhUeG4uc2VuZGVyKSwKICAgIC8vIH0pCiAgICBieXRlY18xIC8vIDB4MDA0MgogICAgZGlnIDQKICAgIGNvbmNhdAogICAgdW5jb3ZlciA0CiAgICBjb25jYXQKICAgIHVuY292ZXIgMwogICAgY29uY2F0CiAgICBkaWcgMgogICAgY29uY2F0CiAgICBzd2FwCiAgICBjb25jYXQKICAgIHVuY292ZXIgMgogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoyOAogICAgLy8gcHVibGljIGxpc3RlZFByb3BlcnRpZXMgPSBCb3hNYXA8dWludDY0LCBQcm9wZXJ0eVN0cnVjdD4oeyBrZXlQcmVmaXg6ICdwcm9wZXJ0aWVzJyB9KQogICAgYnl0ZWNfMCAvLyAicHJvcGVydGllcyIKICAgIGRpZyAyCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjY5CiAgICAvLyB0aGlzLmxpc3RlZFByb3BlcnRpZXMoYXNzZXRJZCkudmFsdWUgPSBjbG9uZShwcm9wZXJ0eVN0cnVjdCkKICAgIGR1cAogICAgYm94X2RlbAogICAgcG9wCiAgICBzd2FwCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czozNi00MQogICAgLy8gcHVibGljIGNyZWF0ZVByb3BlcnR5TGlzdGluZygKICAgIC8vICAgbWJyUGF5bWVudDogZ3R4bi5QYXltZW50VHhuLAogICAgLy8gICBwcm9wZXJ0eUFkZHJlc3M6IHN0cmluZywKICAgIC8vICAgc2hhcmVzOiB1aW50NjQsCiAgICAvLyAgIHByaWNlUGVyU2hhcmU6IHVpbnQ2NCwKICAgIC8vICk6IHVpbnQ2NCB7CiAgICBieXRlY18yIC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgoKLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6OkZyYWN0aW9uYWxSZWFsRXN0YXRlLnB1cmNoYXNlRnJvbUxpc3Rlcltyb3V0aW5nXSgpIC0+IHZvaWQ6CnB1cmNoYXNlRnJvbUxpc3RlcjoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjkyCiAgICAvLyBwdWJsaWMgcHVyY2hhc2VGcm9tTGlzdGVyKHByb3BlcnR5SWQ6IHVpbnQ2NCwgc2hhcmVzOiB1aW50NjQsIHBheW1lbnQ6IGd0eG4uUGF5bWVudFR4bik6IGJvb2xlYW4gewogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMCAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBsZW4KICAgIGludGNfMCAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuIEdyb3VwSW5kZXgKICAgIGludGNfMSAvLyAxCiAgICAtCiAgICBkdXAKICAgIGd0eG5zIFR5cGVFbnVtCiAgICBpbnRjXzEgLy8gcGF5CiAgICA9PQogICAgYXNzZXJ0IC8vIHRyYW5zYWN0aW9uIHR5cGUgaXMgcGF5CiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo5MwogICAgLy8gYXNzZXJ0KHNoYXJlcyA+IDAsICdNdXN0IHB1cmNoYXNlIGF0IGxlYXN0IG9uZSBzaGFyZScpCiAgICBkaWcgMQogICAgYXNzZXJ0IC8vIE11c3QgcHVyY2hhc2UgYXQgbGVhc3Qgb25lIHNoYXJlCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo5NAogICAgLy8gYXNzZXJ0KHRoaXMubGlzdGVkUHJvcGVydGllcyhwcm9wZXJ0eUlkKS5leGlzdHMsICdQcm9wZXJ0eSBub3QgbGlzdGVkJykKICAgIHVuY292ZXIgMgogICAgaXRvYgogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MjgKICAgIC8vIHB1YmxpYyBsaXN0ZWRQcm9wZXJ0aWVzID0gQm94TWFwPHVpbnQ2NCwgUHJvcGVydHlTdHJ1Y3Q+KHsga2V5UHJlZml4OiAncHJvcGVydGllcycgfSkKICAgIGJ5dGVjXzAgLy8gInByb3BlcnRpZXMiCiAgICBzd2FwCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjk0CiAgICAvLyBhc3NlcnQodGhpcy5saXN0ZWRQcm9wZXJ0aWVzKHByb3BlcnR5SWQpLmV4aXN0cywgJ1Byb3BlcnR5IG5vdCBsaXN0ZWQnKQogICAgZHVwCiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGFzc2VydCAvLyBQcm9wZXJ0eSBub3QgbGlzdGVkCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo5OC0xMDQKICAgIC8vIGFzc2VydE1hdGNoKHBheW1lbnQsIHsKICAgIC8vICAgYW1vdW50OiBzaGFyZXMgKiBwcm9wZXJ0eS5wcmljZVBlclNoYXJlLmFzVWludDY0KCksCiAgICAvLyAgIHJlY2VpdmVyOiBHbG9iYWwuY3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcywKICAgIC8vICAgc2VuZGVyOiBUeG4uc2VuZGVyLAogICAgLy8gICBjbG9zZVJlbWFpbmRlclRvOiBHbG9iYWwuemVyb0FkZHJlc3MsCiAgICAvLyAgIHJla2V5VG86IEdsb2JhbC56ZXJvQWRkcmVzcywKICAgIC8vIH0sICdJbnZhbGlkIHBheW1lbnQgdHJhbnNhY3Rpb24nKQogICAgZGlnIDEKICAgIGd0eG5zIEFtb3VudAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6OTkKICAgIC8vIGFtb3VudDogc2hhcmVzICogcHJvcGVydHkucHJpY2VQZXJTaGFyZS5hc1VpbnQ2NCgpLAogICAgZGlnIDEKICAgIHB1c2hpbnQgMTggLy8gMTgKICAgIGludGNfMCAvLyA4CiAgICBib3hfZXh0cmFjdAogICAgZHVwCiAgICBidG9pCiAgICBkaWcgNQogICAgKgogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6OTgtMTA0CiAgICAvLyBhc3NlcnRNYXRjaChwYXltZW50LCB7CiAgICAvLyAgIGFtb3VudDogc2hhcmVzICogcHJvcGVydHkucHJpY2VQZXJTaGFyZS5hc1VpbnQ2NCgpLAogICAgLy8gICByZWNlaXZlcjogR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MsCiAgICAvLyAgIHNlbmRlcjogVHhuLnNlbmRlciwKICAgIC8vICAgY2xvc2VSZW1haW5kZXJUbzogR2xvYmFsLnplcm9BZGRyZXNzLAogICAgLy8gICByZWtleVRvOiBHbG9iYWwuemVyb0FkZHJlc3MsCiAgICAvLyB9LCAnSW52YWxpZCBwYXltZW50IHRyYW5zYWN0aW9uJykKICAgIGRpZyAyCiAgICA9PQogICAgZGlnIDQKICAgIGd0eG5zIFJlY2VpdmVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMDAKICAgIC8vIHJlY2VpdmVyOiBHbG9iYWwuY3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcywKICAgIGdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo5OC0xMDQKICAgIC8vIGFzc2VydE1hdGNoKHBheW1lbnQsIHsKICAgIC8vICAgYW1vdW50OiBzaGFyZXMgKiBwcm9wZXJ0eS5wcmljZVBlclNoYXJlLmFzVWludDY0KCksCiAgICAvLyAgIHJlY2VpdmVyOiBHbG9iYWwuY3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcywKICAgIC8vICAgc2VuZGVyOiBUeG4uc2VuZGVyLAogICAgLy8gICBjbG9zZVJlbWFpbmRlclRvOiBHbG9iYWwuemVyb0FkZHJlc3MsCiAgICAvLyAgIHJla2V5VG86IEdsb2JhbC56ZXJvQWRkcmVzcywKICAgIC8vIH0sICdJbnZhbGlkIHBheW1lbnQgdHJhbnNhY3Rpb24nKQogICAgPT0KICAgICYmCiAgICBkaWcgNAogICAgZ3R4bnMgU2VuZGVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMDEKICAgIC8vIHNlbmRlcjogVHhuLnNlbmRlciwKICAgIHR4biBTZW5kZXIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjk4LTEwNAogICAgLy8gYXNzZXJ0TWF0Y2gocGF5bWVudCwgewogICAgLy8gICBhbW91bnQ6IHNoYXJlcyAqIHByb3BlcnR5LnByaWNlUGVyU2hhcmUuYXNVaW50NjQoKSwKICAgIC8vICAgcmVjZWl2ZXI6IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLAogICAgLy8gICBzZW5kZXI6IFR4bi5zZW5kZXIsCiAgICAvLyAgIGNsb3NlUmVtYWluZGVyVG86IEdsb2JhbC56ZXJvQWRkcmVzcywKICAgIC8vICAgcmVrZXlUbzogR2xvYmFsLnplcm9BZGRyZXNzLAogICAgLy8gfSwgJ0ludmFsaWQgcGF5bWVudCB0cmFuc2FjdGlvbicpCiAgICA9PQogICAgJiYKICAgIGRpZyA0CiAgICBndHhucyBDbG9zZVJlbWFpbmRlclRvCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMDIKICAgIC8vIGNsb3NlUmVtYWluZGVyVG86IEdsb2JhbC56ZXJvQWRkcmVzcywKICAgIGdsb2JhbCBaZXJvQWRkcmVzcwogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6OTgtMTA0CiAgICAvLyBhc3NlcnRNYXRjaChwYXltZW50LCB7CiAgICAvLyAgIGFtb3VudDogc2hhcmVzICogcHJvcGVydHkucHJpY2VQZXJTaGFyZS5hc1VpbnQ2NCgpLAogICAgLy8gICByZWNlaXZlcjogR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MsCiAgICAvLyAgIHNlbmRlcjogVHhuLnNlbmRlciwKICAgIC8vICAgY2xvc2VSZW1haW5kZXJUbzogR2xvYmFsLnplcm9BZGRyZXNzLAogICAgLy8gICByZWtleVRvOiBHbG9iYWwuemVyb0FkZHJlc3MsCiAgICAvLyB9LCAnSW52YWxpZCBwYXltZW50IHRyYW5zYWN0aW9uJykKICAgID09CiAgICAmJgogICAgdW5jb3ZlciA0CiAgICBndHhucyBSZWtleVRvCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMDMKICAgIC8vIHJla2V5VG86IEdsb2JhbC56ZXJvQWRkcmVzcywKICAgIGdsb2JhbCBaZXJvQWRkcmVzcwogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6OTgtMTA0CiAgICAvLyBhc3NlcnRNYXRjaChwYXltZW50LCB7CiAgICAvLyAgIGFtb3VudDogc2hhcmVzICogcHJvcGVydHkucHJpY2VQZXJTaGFyZS5hc1VpbnQ2NCgpLAogICAgLy8gICByZWNlaXZlcjogR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MsCiAgICAvLyAgIHNlbmRlcjogVHhuLnNlbmRlciwKICAgIC8vICAgY2xvc2VSZW1haW5kZXJUbzogR2xvYmFsLnplcm9BZGRyZXNzLAogICAgLy8gICByZWtleVRvOiBHbG9iYWwuemVyb0FkZHJlc3MsCiAgICAvLyB9LCAnSW52YWxpZCBwYXltZW50IHRyYW5zYWN0aW9uJykKICAgID09CiAgICAmJgogICAgYXNzZXJ0IC8vIEludmFsaWQgcGF5bWVudCB0cmFuc2FjdGlvbgogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTA1CiAgICAvLyBhc3NlcnQoc2hhcmVzIDw9IHByb3BlcnR5LmF2YWlsYWJsZVNoYXJlcy5hc1VpbnQ2NCgpLCAnTm90IGVub3VnaCBzaGFyZXMnKQogICAgZGlnIDIKICAgIHB1c2hpbnQgMTAgLy8gMTAKICAgIGludGNfMCAvLyA4CiAgICBib3hfZXh0cmFjdAogICAgYnRvaQogICAgZGlnIDQKICAgIGRpZyAxCiAgICA8PQogICAgYXNzZXJ0IC8vIE5vdCBlbm91Z2ggc2hhcmVzCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMDgKICAgIC8vIGNvbnN0IGFzc2V0ID0gQXNzZXQocHJvcGVydHkucHJvcGVydHlBc3NldElkLmFzVWludDY0KCkpCiAgICBkaWcgMwogICAgcHVzaGludCAyNiAvLyAyNgogICAgaW50Y18wIC8vIDgKICAgIGJveF9leHRyYWN0CiAgICBkdXAKICAgIGJ0b2kKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjEwOS0xMjEKICAgIC8vIGl0eG4uc3VibWl0R3JvdXAoCiAgICAvLyAgIGl0eG4uYXNzZXRUcmFuc2Zlcih7CiAgICAvLyAgICAgeGZlckFzc2V0OiBhc3NldCwKICAgIC8vICAgICBhc3NldFJlY2VpdmVyOiBUeG4uc2VuZGVyLAogICAgLy8gICAgIGFzc2V0QW1vdW50OiBzaGFyZXMsCiAgICAvLyAgICAgZmVlOiAwLAogICAgLy8gICB9KSwKICAgIC8vICAgaXR4bi5wYXltZW50KHsKICAgIC8vICAgICBhbW91bnQ6IHBheW1lbnQuYW1vdW50LAogICAgLy8gICAgIHJlY2VpdmVyOiBwcm9wZXJ0eS5vd25lckFkZHJlc3MuYnl0ZXMsCiAgICAvLyAgICAgZmVlOiAwLAogICAgLy8gICB9KSwKICAgIC8vICkKICAgIGl0eG5fYmVnaW4KICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjExMgogICAgLy8gYXNzZXRSZWNlaXZlcjogVHhuLnNlbmRlciwKICAgIHR4biBTZW5kZXIKICAgIGRpZyA3CiAgICBpdHhuX2ZpZWxkIEFzc2V0QW1vdW50CiAgICBpdHhuX2ZpZWxkIEFzc2V0UmVjZWl2ZXIKICAgIGl0eG5fZmllbGQgWGZlckFzc2V0CiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMTAtMTE1CiAgICAvLyBpdHhuLmFzc2V0VHJhbnNmZXIoewogICAgLy8gICB4ZmVyQXNzZXQ6IGFzc2V0LAogICAgLy8gICBhc3NldFJlY2VpdmVyOiBUeG4uc2VuZGVyLAogICAgLy8gICBhc3NldEFtb3VudDogc2hhcmVzLAogICAgLy8gICBmZWU6IDAsCiAgICAvLyB9KSwKICAgIHB1c2hpbnQgNCAvLyA0CiAgICBpdHhuX2ZpZWxkIFR5cGVFbnVtCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMTQKICAgIC8vIGZlZTogMCwKICAgIGludGNfMiAvLyAwCiAgICBpdHhuX2ZpZWxkIEZlZQogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTE2LTEyMAogICAgLy8gaXR4bi5wYXltZW50KHsKICAgIC8vICAgYW1vdW50OiBwYXltZW50LmFtb3VudCwKICAgIC8vICAgcmVjZWl2ZXI6IHByb3BlcnR5Lm93bmVyQWRkcmVzcy5ieXRlcywKICAgIC8vICAgZmVlOiAwLAogICAgLy8gfSksCiAgICBpdHhuX25leHQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjExOAogICAgLy8gcmVjZWl2ZXI6IHByb3BlcnR5Lm93bmVyQWRkcmVzcy5ieXRlcywKICAgIGRpZyA0CiAgICBwdXNoaW50IDM0IC8vIDM0CiAgICBpbnRjXzMgLy8gMzIKICAgIGJveF9leHRyYWN0CiAgICBkdXAKICAgIGl0eG5fZmllbGQgUmVjZWl2ZXIKICAgIHVuY292ZXIgNAogICAgaXR4bl9maWVsZCBBbW91bnQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjExNi0xMjAKICAgIC8vIGl0eG4ucGF5bWVudCh7CiAgICAvLyAgIGFtb3VudDogcGF5bWVudC5hbW91bnQsCiAgICAvLyAgIHJlY2VpdmVyOiBwcm9wZXJ0eS5vd25lckFkZHJlc3MuYnl0ZXMsCiAgICAvLyAgIGZlZTogMCwKICAgIC8vIH0pLAogICAgaW50Y18xIC8vIDEKICAgIGl0eG5fZmllbGQgVHlwZUVudW0KICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjExOQogICAgLy8gZmVlOiAwLAogICAgaW50Y18yIC8vIDAKICAgIGl0eG5fZmllbGQgRmVlCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMDktMTIxCiAgICAvLyBpdHhuLnN1Ym1pdEdyb3VwKAogICAgLy8gICBpdHhuLmFzc2V0VHJhbnNmZXIoewogICAgLy8gICAgIHhmZXJBc3NldDogYXNzZXQsCiAgICAvLyAgICAgYXNzZXRSZWNlaXZlcjogVHhuLnNlbmRlciwKICAgIC8vICAgICBhc3NldEFtb3VudDogc2hhcmVzLAogICAgLy8gICAgIGZlZTogMCwKICAgIC8vICAgfSksCiAgICAvLyAgIGl0eG4ucGF5bWVudCh7CiAgICAvLyAgICAgYW1vdW50OiBwYXltZW50LmFtb3VudCwKICAgIC8vICAgICByZWNlaXZlcjogcHJvcGVydHkub3duZXJBZGRyZXNzLmJ5dGVzLAogICAgLy8gICAgIGZlZTogMCwKICAgIC8vICAgfSksCiAgICAvLyApCiAgICBpdHhuX3N1Ym1pdAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTIzCiAgICAvLyB0aGlzLnVwZGF0ZUF2YWlsYWJsZVNoYXJlcyhwcm9wZXJ0eUlkLCBwcm9wZXJ0eS5hdmFpbGFibGVTaGFyZXMuYXNVaW50NjQoKSAtIHNoYXJlcykKICAgIHVuY292ZXIgMgogICAgdW5jb3ZlciA1CiAgICAtCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxNDcKICAgIC8vIGNvbnN0IHByb3BlcnR5U3RydWN0ID0gY2xvbmUodGhpcy5saXN0ZWRQcm9wZXJ0aWVzKHByb3BlcnR5SWQpLnZhbHVlKQogICAgZGlnIDQKICAgIGJveF9nZXQKICAgIHBvcAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTQ5CiAgICAvLyAuLi5wcm9wZXJ0eVN0cnVjdCwKICAgIGR1cAogICAgaW50Y18yIC8vIDAKICAgIGV4dHJhY3RfdWludDE2CiAgICBkaWcgMQogICAgbGVuCiAgICBzdWJzdHJpbmczCiAgICBkaWcgNQogICAgcHVzaGludCAyIC8vIDIKICAgIGludGNfMCAvLyA4CiAgICBib3hfZXh0cmFjdAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTUwCiAgICAvLyBhdmFpbGFibGVTaGFyZXM6IG5ldyBhcmM0LlVpbnQ2NChuZXdBdmFpbGFibGVTaGFyZXMpLAogICAgdW5jb3ZlciAyCiAgICBpdG9iCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxNDgtMTUxCiAgICAvLyBjb25zdCB1cGRhdGVkU3RydWN0ID0gbmV3IFByb3BlcnR5U3RydWN0KHsKICAgIC8vICAgLi4ucHJvcGVydHlTdHJ1Y3QsCiAgICAvLyAgIGF2YWlsYWJsZVNoYXJlczogbmV3IGFyYzQuVWludDY0KG5ld0F2YWlsYWJsZVNoYXJlcyksCiAgICAvLyB9KQogICAgYnl0ZWNfMSAvLyAweDAwNDIKICAgIHVuY292ZXIgMgogICAgY29uY2F0CiAgICBzd2FwCiAgICBjb25jYXQKICAgIHVuY292ZXIgNAogICAgY29uY2F0CiAgICB1bmNvdmVyIDMKICAgIGNvbmNhdAogICAgdW5jb3ZlciAyCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTUzCiAgICAvLyB0aGlzLmxpc3RlZFByb3BlcnRpZXMocHJvcGVydHlJZCkudmFsdWUgPSBjbG9uZSh1cGRhdGVkU3RydWN0KQogICAgZGlnIDEKICAgIGJveF9kZWwKICAgIHBvcAogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6OTIKICAgIC8vIHB1YmxpYyBwdXJjaGFzZUZyb21MaXN0ZXIocHJvcGVydHlJZDogdWludDY0LCBzaGFyZXM6IHVpbnQ2NCwgcGF5bWVudDogZ3R4bi5QYXltZW50VHhuKTogYm9vbGVhbiB7CiAgICBwdXNoYnl0ZXMgMHgxNTFmN2M3NTgwCiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCgovLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo6RnJhY3Rpb25hbFJlYWxFc3RhdGUuZGVsaXN0UHJvcGVydHlbcm91dGluZ10oKSAtPiB2b2lkOgpkZWxpc3RQcm9wZXJ0eToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjEzMAogICAgLy8gcHVibGljIGRlbGlzdFByb3BlcnR5KHByb3BlcnR5SWQ6IHVpbnQ2NCk6IHZvaWQgewogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMCAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTMxCiAgICAvLyBhc3NlcnQodGhpcy5saXN0ZWRQcm9wZXJ0aWVzKHByb3BlcnR5SWQpLmV4aXN0cywgJ1Byb3BlcnR5IG5vdCBsaXN0ZWQnKQogICAgaXRvYgogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MjgKICAgIC8vIHB1YmxpYyBsaXN0ZWRQcm9wZXJ0aWVzID0gQm94TWFwPHVpbnQ2NCwgUHJvcGVydHlTdHJ1Y3Q+KHsga2V5UHJlZml4OiAncHJvcGVydGllcycgfSkKICAgIGJ5dGVjXzAgLy8gInByb3BlcnRpZXMiCiAgICBzd2FwCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjEzMQogICAgLy8gYXNzZXJ0KHRoaXMubGlzdGVkUHJvcGVydGllcyhwcm9wZXJ0eUlkKS5leGlzdHMsICdQcm9wZXJ0eSBub3QgbGlzdGVkJykKICAgIGR1cAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gUHJvcGVydHkgbm90IGxpc3RlZAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTM1CiAgICAvLyBhc3NlcnQoVHhuLnNlbmRlciA9PT0gcHJvcGVydHkub3duZXJBZGRyZXNzLm5hdGl2ZSwgJ09ubHkgdGhlIG93bmVyIGNhbiBkZWxpc3QnKQogICAgdHhuIFNlbmRlcgogICAgZGlnIDEKICAgIHB1c2hpbnQgMzQgLy8gMzQKICAgIGludGNfMyAvLyAzMgogICAgYm94X2V4dHJhY3QKICAgID09CiAgICBhc3NlcnQgLy8gT25seSB0aGUgb3duZXIgY2FuIGRlbGlzdAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTM3CiAgICAvLyBwcm9wZXJ0eS5hdmFpbGFibGVTaGFyZXMuYXNVaW50NjQoKSA9PT0gcHJvcGVydHkudG90YWxTaGFyZXMuYXNVaW50NjQoKSwKICAgIGR1cAogICAgcHVzaGludCAxMCAvLyAxMAogICAgaW50Y18wIC8vIDgKICAgIGJveF9leHRyYWN0CiAgICBidG9pCiAgICBkaWcgMQogICAgcHVzaGludCAyIC8vIDIKICAgIGludGNfMCAvLyA4CiAgICBib3hfZXh0cmFjdAogICAgYnRvaQogICAgPT0KICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjEzNi0xMzkKICAgIC8vIGFzc2VydCgKICAgIC8vICAgcHJvcGVydHkuYXZhaWxhYmxlU2hhcmVzLmFzVWludDY0KCkgPT09IHByb3BlcnR5LnRvdGFsU2hhcmVzLmFzVWludDY0KCksCiAgICAvLyAgICdDYW5ub3QgZGVsaXN0IHByb3BlcnR5IHdpdGggc29sZCBzaGFyZXMnLAogICAgLy8gKQogICAgYXNzZXJ0IC8vIENhbm5vdCBkZWxpc3QgcHJvcGVydHkgd2l0aCBzb2xkIHNoYXJlcwogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTQxCiAgICAvLyB0aGlzLmxpc3RlZFByb3BlcnRpZXMocHJvcGVydHlJZCkuZGVsZXRlKCkKICAgIGJveF9kZWwKICAgIHBvcAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTMwCiAgICAvLyBwdWJsaWMgZGVsaXN0UHJvcGVydHkocHJvcGVydHlJZDogdWludDY0KTogdm9pZCB7CiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgoKLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6OkZyYWN0aW9uYWxSZWFsRXN0YXRlLmdldFByb3BlcnR5SW5mb1tyb3V0aW5nXSgpIC0+IHZvaWQ6CmdldFByb3BlcnR5SW5mbzoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjE1NgogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18wIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxNTgKICAgIC8vIGFzc2VydCh0aGlzLmxpc3RlZFByb3BlcnRpZXMocHJvcGVydHlJZCkuZXhpc3RzLCAnUHJvcGVydHkgbm90IGxpc3RlZCcpCiAgICBpdG9iCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoyOAogICAgLy8gcHVibGljIGxpc3RlZFByb3BlcnRpZXMgPSBCb3hNYXA8dWludDY0LCBQcm9wZXJ0eVN0cnVjdD4oeyBrZXlQcmVmaXg6ICdwcm9wZXJ0aWVzJyB9KQogICAgYnl0ZWNfMCAvLyAicHJvcGVydGllcyIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTU4CiAgICAvLyBhc3NlcnQodGhpcy5saXN0ZWRQcm9wZXJ0aWVzKHByb3BlcnR5SWQpLmV4aXN0cywgJ1Byb3BlcnR5IG5vdCBsaXN0ZWQnKQogICAgZHVwCiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGFzc2VydCAvLyBQcm9wZXJ0eSBub3QgbGlzdGVkCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxNTkKICAgIC8vIHJldHVybiB0aGlzLmxpc3RlZFByb3BlcnRpZXMocHJvcGVydHlJZCkudmFsdWUKICAgIGJveF9nZXQKICAgIHBvcAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTU2CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGJ5dGVjXzIgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4K","clear":"I3ByYWdtYSB2ZXJzaW9uIDExCiNwcmFnbWEgdHlwZXRyYWNrIGZhbHNlCgovLyBAYWxnb3JhbmRmb3VuZGF0aW9uL2FsZ29yYW5kLXR5cGVzY3JpcHQvYmFzZS1jb250cmFjdC5kLnRzOjpCYXNlQ29udHJhY3QuY2xlYXJTdGF0ZVByb2dyYW0oKSAtPiB1aW50NjQ6Cm1haW46CiAgICBwdXNoaW50IDEgLy8gMQogICAgcmV0dXJuCg=="},"byteCode":{"approval":"CyAECAEAICYDCnByb3BlcnRpZXMCAEIEFR98dTEbQQArMRkURDEYRIIEBDMdrFQECj3lHAQ7njlFBPPOUYQ2GgCOBAALAMUBlwHGADEZFDEYFBBEI0MxFiMJSTgQIxJENhoBSSRZgQIISwEVEkRJVwIANhoCSRUiEkRJFzYaA0kVIhJESRdLAkRESwMVgVZLAQiBkAMLgcQTCEsHOAgOREsGOAcyChJETwY4ADEAEkSxJEsBDyRLAk8CTSVLAg8lTwNPAk1PBU4CUjIKSbIqsikksiNPArIigARQUk9QsiWyJoEDshAksgGztDwWMQApSwRQTwRQTwNQSwJQTFBPAlAoSwJQSbxITL8qTFCwI0M2GgFJFSISRBc2GgJJFSISRBcxFiMJSTgQIxJESwFETwIWKExQSb1FAURLATgISwGBEiK6SRdLBQtLAhJLBDgHMgoSEEsEOAAxABIQSwQ4CTIDEhBPBDggMgMSEERLAoEKIroXSwRLAQ5ESwOBGiK6SRexMQBLB7ISshSyEYEEshAksgG2SwSBIiW6SbIHTwSyCCOyECSyAbNPAk8FCUsEvkhJJFlLARVSSwWBAiK6TwIWKU8CUExQTwRQTwNQTwJQTFBLAbxIv4AFFR98dYCwI0M2GgFJFSISRBcWKExQSb1FAUQxAEsBgSIluhJESYEKIroXSwGBAiK6FxJEvEgjQzYaAUkVIhJEFxYoTFBJvUUBRL5IKkxQsCND","clear":"C4EBQw=="},"events":[],"templateVariables":{}} as unknown as Arc56Contract
+export const APP_SPEC: Arc56Contract = {"name":"FractionalRealEstate","structs":{"SaleWindowStruct":[{"name":"start","type":"uint64"},{"name":"end","type":"uint64"},{"name":"floorPrice","type":"uint64"}],"PriceTierStruct":[{"name":"shareLimit","type":"uint64"},{"name":"endTime","type":"uint64"},{"name":"pricePerShare","type":"uint64"}],"ReservationPolicyStruct":[{"name":"rounds","type":"uint64"},{"name":"depositBps","type":"uint64"},{"name":"forfeitDeposit","type":"bool"}],"LockupStruct":[{"name":"lockedShares","type":"uint64"},{"name":"unlockRound","type":"uint64"}],"PlatformFeeStruct":[{"name":"feeBps","type":"uint64"},{"name":"treasury","type":"address"}],"PropertyStruct":[{"name":"address","type":"string"},{"name":"totalShares","type":"uint64"},{"name":"availableShares","type":"uint64"},{"name":"pricePerShare","type":"uint64"},{"name":"propertyAssetId","type":"uint64"},{"name":"ownerAddress","type":"address"},{"name":"incomePerShare","type":"uint64"},{"name":"undistributedIncome","type":"uint64"},{"name":"incomeShares","type":"uint64"},{"name":"primarySaleOpen","type":"bool"},{"name":"fundingGoal","type":"uint64"},{"name":"fundingDeadline","type":"uint64"},{"name":"sharesSold","type":"uint64"},{"name":"escrowedFunds","type":"uint64"},{"name":"paymentAssetId","type":"uint64"},{"name":"unitName","type":"string"},{"name":"metadataUrl","type":"string"},{"name":"metadataHash","type":"byte[32]"},{"name":"maxSharesPerAccount","type":"uint64"},{"name":"minPurchase","type":"uint64"},{"name":"lockupRounds","type":"uint64"},{"name":"saleStart","type":"uint64"},{"name":"saleEnd","type":"uint64"},{"name":"auctionFloor","type":"uint64"},{"name":"reservedShares","type":"uint64"},{"name":"reservationRounds","type":"uint64"},{"name":"reservationDepositBps","type":"uint64"},{"name":"forfeitDeposit","type":"bool"},{"name":"referralBps","type":"uint64"}],"MarketStatsStruct":[{"name":"listingCount","type":"uint64"},{"name":"totalSharesSold","type":"uint64"},{"name":"totalVolume","type":"uint64"}],"SellOrderStruct":[{"name":"propertyId","type":"uint64"},{"name":"seller","type":"address"},{"name":"shares","type":"uint64"},{"name":"pricePerShare","type":"uint64"}],"ProposalStruct":[{"name":"propertyId","type":"uint64"},{"name":"proposer","type":"address"},{"name":"description","type":"string"},{"name":"deadlineRound","type":"uint64"},{"name":"quorumShares","type":"uint64"},{"name":"votesFor","type":"uint64"},{"name":"votesAgainst","type":"uint64"},{"name":"lockedShares","type":"uint64"},{"name":"status","type":"uint8"}],"BuyoutStruct":[{"name":"propertyId","type":"uint64"},{"name":"bidder","type":"address"},{"name":"amount","type":"uint64"},{"name":"deadlineRound","type":"uint64"},{"name":"votesFor","type":"uint64"},{"name":"votesAgainst","type":"uint64"},{"name":"lockedShares","type":"uint64"},{"name":"redeemedShares","type":"uint64"},{"name":"status","type":"uint8"}],"ReservationStruct":[{"name":"shares","type":"uint64"},{"name":"cost","type":"uint64"},{"name":"deposit","type":"uint64"},{"name":"expiresRound","type":"uint64"}],"ValuationStruct":[{"name":"totalValue","type":"uint64"},{"name":"timestamp","type":"uint64"},{"name":"documentHash","type":"byte[32]"}],"IncomeClaimStruct":[{"name":"checkpoint","type":"uint64"},{"name":"owed","type":"uint64"},{"name":"shares","type":"uint64"}],"HolderKey":[{"name":"propertyId","type":"uint64"},{"name":"holder","type":"address"}],"VoteStruct":[{"name":"shares","type":"uint64"},{"name":"support","type":"bool"}],"VoteKey":[{"name":"proposalId","type":"uint64"},{"name":"voter","type":"address"}],"BuyoutVoteKey":[{"name":"buyoutId","type":"uint64"},{"name":"voter","type":"address"}],"ReferralKey":[{"name":"referrer","type":"address"},{"name":"paymentAssetId","type":"uint64"}]},"methods":[{"name":"createPropertyListing","args":[{"type":"pay","name":"mbrPayment","desc":"Covers the Minimum Balance Requirement for box storage (and the payment asset opt-in).\nAnything paid over that is refunded straight away, so the caller should cover one more inner transaction fee."},{"type":"string","name":"propertyAddress","desc":"Physical address or unique name of the property, up to 128 bytes"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"pricePerShare"},{"type":"uint64","name":"fundingGoal","desc":"Shares that must sell for the raise to succeed, or 0 for no goal"},{"type":"uint64","name":"fundingDeadline","desc":"Last round in which the goal can be reached (ignored without a goal)"},{"type":"uint64","name":"paymentAssetId","desc":"ASA the shares are priced in, or 0 for ALGO"},{"type":"string","name":"unitName","desc":"Unit name of the share ASA (1-8 bytes)"},{"type":"string","name":"metadataUrl","desc":"ARC-3 or ARC-19 metadata URL, or empty for none"},{"type":"byte[32]","name":"metadataHash","desc":"SHA-256 of the ARC-3 metadata JSON, or all zeroes for none"},{"type":"address","name":"metadataReserve","desc":"Reserve address encoding an ARC-19 CID, or the zero address to keep the app as reserve"},{"type":"uint64","name":"maxSharesPerAccount","desc":"Most shares one account can hold after a primary purchase, or 0 for no cap"},{"type":"uint64","name":"minPurchase","desc":"Fewest shares a primary purchase can be for, or 0 for no minimum"},{"type":"uint64","name":"lockupRounds","desc":"Rounds primary purchases stay locked up for, or 0 for none. A buyer has one\nlockup per listing, so buying more while it runs restarts it for all of their locked shares"},{"type":"(uint64,uint64,uint64)","name":"saleWindow","struct":"SaleWindowStruct","desc":"Timestamps the primary sale opens and closes at, each 0 for no limit, and the\nDutch auction floor price, or 0 for a fixed price. An auction needs an end time and starts at listing without a start time."},{"type":"(uint64,uint64,uint64)[]","name":"priceTiers","desc":"Presale prices that apply before the listing price, in order (up to 4, none with a funding goal)"},{"type":"(uint64,uint64,bool)","name":"reservationPolicy","struct":"ReservationPolicyStruct","desc":"How long buyers can reserve shares for, the deposit they pay and whether an expired\nreservation forfeits it to the owner (no reservations with a funding goal)"},{"type":"uint64","name":"referralBps","desc":"Commission paid to the partner who referred a buyer, in basis points of the owner's\nproceeds from the purchase, or 0 for none (no commissions with a funding goal)"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"List a new property for fractional ownership. Creates an ASA representing shares\nand stores property details in a BoxMap.\n\nWith a funding goal the raise is all-or-nothing: purchases are escrowed in the app, the\nlister can only withdraw them once the goal has sold, and if the deadline passes first\nbuyers can hand their shares back for a refund.\n\nA listing can be priced in an ASA such as a stablecoin instead of ALGO. The app opts in to\nthat asset the first time it is used, and the lister's MBR payment covers the opt-in.\n\nThe share ASA points at off-chain metadata (deeds, appraisal, photos) following ARC-3, or\nARC-19 when the URL is a template-ipfs:// URL and the reserve address encodes the CID.","events":[{"name":"PropertyListed","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"owner"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"pricePerShare"},{"type":"uint64","name":"availableShares"}]}],"recommendations":{}},{"name":"purchaseFromLister","args":[{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"shares"},{"type":"pay","name":"payment"},{"type":"address","name":"referrer","desc":"Registered partner who referred the buyer and is paid the listing's referral commission,\nor the zero address for none"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Purchase shares from the original lister of an ALGO-priced listing. Buyer must opt in to the ASA beforehand.\nWhile a funding raise is open the payment is escrowed in the app instead of going to the owner.","events":[{"name":"SharesPurchased","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"buyer"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"amount"},{"type":"uint64","name":"availableShares"}]}],"recommendations":{}},{"name":"purchaseFromListerWithAsset","args":[{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"shares"},{"type":"axfer","name":"payment","desc":"Transfers the purchase price in the listing's payment asset to the app"},{"type":"address","name":"referrer","desc":"Registered partner who referred the buyer, or the zero address for none"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Purchase shares from the original lister of a listing priced in an ASA. The owner (and the\ntreasury, when a platform fee is set) must be opted in to the payment asset.","events":[{"name":"SharesPurchased","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"buyer"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"amount"},{"type":"uint64","name":"availableShares"}]}],"recommendations":{}},{"name":"purchaseUpTo","args":[{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"shares","desc":"Shares to buy"},{"type":"uint64","name":"maxTotal","desc":"Most the buyer will pay for the shares; the purchase fails if they cost more"},{"type":"bool","name":"allowPartialFill","desc":"Buy whatever is left when fewer than `shares` are available, instead of failing"},{"type":"pay","name":"payment","desc":"Pays maxTotal to the app"},{"type":"address","name":"referrer","desc":"Registered partner who referred the buyer, or the zero address for none"}],"returns":{"type":"uint64","desc":"The number of shares bought"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Buy primary shares of an ALGO-priced listing for at most a total price, so a reprice or a\ntier running out between signing and landing can't overcharge the buyer. They pay the\nmaximum and get back whatever the shares cost less than that.","events":[{"name":"SharesPurchased","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"buyer"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"amount"},{"type":"uint64","name":"availableShares"}]}],"recommendations":{}},{"name":"purchaseUpToWithAsset","args":[{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"maxTotal","desc":"Most the buyer will pay for the shares; the purchase fails if they cost more"},{"type":"bool","name":"allowPartialFill","desc":"Buy whatever is left when fewer than `shares` are available, instead of failing"},{"type":"axfer","name":"payment","desc":"Transfers maxTotal in the listing's payment asset to the app"},{"type":"address","name":"referrer","desc":"Registered partner who referred the buyer, or the zero address for none"}],"returns":{"type":"uint64","desc":"The number of shares bought"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Buy primary shares of a listing priced in an ASA for at most a total price, refunding the difference.","events":[{"name":"SharesPurchased","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"buyer"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"amount"},{"type":"uint64","name":"availableShares"}]}],"recommendations":{}},{"name":"purchaseAtAuction","args":[{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"maxPricePerShare","desc":"Most the buyer will pay per share; the purchase fails if the price is above it"},{"type":"pay","name":"payment","desc":"Pays shares x maxPricePerShare to the app"},{"type":"address","name":"referrer","desc":"Registered partner who referred the buyer, or the zero address for none"}],"returns":{"type":"uint64","desc":"The price per share the shares were bought at"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Buy shares at an ALGO-priced Dutch auction. The price is set by the block the purchase lands in,\nso the buyer pays for the shares at their maximum price and gets the difference back.","events":[{"name":"SharesPurchased","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"buyer"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"amount"},{"type":"uint64","name":"availableShares"}]}],"recommendations":{}},{"name":"purchaseAtAuctionWithAsset","args":[{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"maxPricePerShare","desc":"Most the buyer will pay per share; the purchase fails if the price is above it"},{"type":"axfer","name":"payment","desc":"Transfers shares x maxPricePerShare in the listing's payment asset to the app"},{"type":"address","name":"referrer","desc":"Registered partner who referred the buyer, or the zero address for none"}],"returns":{"type":"uint64","desc":"The price per share the shares were bought at"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Buy shares at a Dutch auction priced in an ASA, refunding the difference to the buyer's maximum price.","events":[{"name":"SharesPurchased","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"buyer"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"amount"},{"type":"uint64","name":"availableShares"}]}],"recommendations":{}},{"name":"withdrawProceeds","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Pay the escrowed purchase proceeds out to the owner once the funding goal has sold.\nThe platform fee is taken here rather than at purchase, since a failed raise refunds in full.","events":[],"recommendations":{}},{"name":"claimRefund","args":[{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"shares"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Hand shares back after a failed raise and get the purchase price refunded.\nThe shares are taken back from the caller's holding, including any still locked up.","events":[],"recommendations":{}},{"name":"setFeeBps","args":[{"type":"uint64","name":"feeBps"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Set the platform fee taken from primary sales, in basis points. Only the admin can\nchange it, and a treasury must be set before a non-zero fee.","events":[],"recommendations":{}},{"name":"setTreasury","args":[{"type":"address","name":"treasury"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Set the account platform fees are paid to. Only the admin can change it.","events":[],"recommendations":{}},{"name":"transferAdmin","args":[{"type":"address","name":"newAdmin"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Start handing the admin role to another account. The handover only completes once that\naccount calls acceptAdmin, so a mistyped address can't lock the admin out.","events":[],"recommendations":{}},{"name":"acceptAdmin","args":[],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Complete an admin handover. Only the pending admin can accept.","events":[],"recommendations":{}},{"name":"pause","args":[],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Emergency stop: block listing, primary purchases and delisting until unpaused.","events":[],"recommendations":{}},{"name":"unpause","args":[],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"setCompliance","args":[{"type":"address","name":"compliance"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Hand the compliance role to another account. Only the admin can change it.","events":[],"recommendations":{}},{"name":"approveAccount","args":[{"type":"pay","name":"mbrPayment"},{"type":"address","name":"account"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Add an account that has passed KYC to the allowlist. Only the compliance officer can approve\naccounts, and pays the allowlist box MBR.","events":[],"recommendations":{}},{"name":"revokeAccount","args":[{"type":"address","name":"account"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Take an account off the allowlist and refund the box MBR to the compliance officer.\nA revoked account can't receive shares or transfer them to anyone else, but can still hand\nthem back to the app, such as to sell, vote or redeem them.","events":[],"recommendations":{}},{"name":"transferShares","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"receiver"},{"type":"uint64","name":"shares"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Transfer shares to another account. Holdings are frozen, so this is how holders move shares\nbetween themselves: both accounts must be KYC approved, the receiver opted in to the ASA, and\nlocked up shares stay put. Income is settled on both holdings as the shares move, so\neach side is paid for exactly the shares it held.","events":[],"recommendations":{}},{"name":"isApproved","args":[{"type":"address","name":"account"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"Whether an account is on the KYC allowlist.","events":[],"recommendations":{}},{"name":"registerLockup","args":[{"type":"pay","name":"mbrPayment"},{"type":"uint64","name":"propertyId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Set up the caller's lockup record before buying into a listing with a lockup period.\nThe caller pays the box MBR, which is refunded by unlockShares.","events":[],"recommendations":{}},{"name":"unlockShares","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Close the caller's lockup once it has ended and refund the lockup box MBR. The shares can\nmove as soon as the unlock round is reached; this only pays the box MBR back.","events":[],"recommendations":{}},{"name":"getLockup","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"holder"}],"returns":{"type":"(uint64,uint64)","struct":"LockupStruct"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"A holder's locked shares and the round they unlock in. Both are 0 without a lockup.","events":[],"recommendations":{}},{"name":"getPlatformFee","args":[],"returns":{"type":"(uint64,address)","struct":"PlatformFeeStruct"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"Current platform fee and treasury. The treasury is the zero address until one is set.","events":[],"recommendations":{}},{"name":"updatePrice","args":[{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"pricePerShare"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Change the primary sale price. Only the owner can reprice, and only while the sale is open.","events":[],"recommendations":{}},{"name":"withdrawShares","args":[{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"shares"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Take unsold shares back out of the primary sale. The owner must be KYC approved and opted in to the ASA.\nRefunds are paid for any shares handed back, so unsold shares stay in the app until the\nfunding goal has sold.","events":[],"recommendations":{}},{"name":"topUpShares","args":[{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"shares"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Put shares the owner holds back up for primary sale. The shares are taken from the owner's holding.","events":[],"recommendations":{}},{"name":"closePrimarySale","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"End the primary sale. Unsold shares go back to the owner, and the listing stays in place\nfor the holders so resale, income and governance keep working. A sale with a funding goal\ncan't be closed until the goal has sold, for the same reason as withdrawShares.","events":[],"recommendations":{}},{"name":"transferOwnership","args":[{"type":"pay","name":"mbrPayment","desc":"Covers the MBR for the pending transfer box"},{"type":"uint64","name":"propertyId"},{"type":"address","name":"newOwner"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Start handing a listing over to a new owner, such as a company multisig or a new manager.\nThe handover only happens once the new owner accepts, so a mistyped address can't take\ncontrol. The owner pays for the pending transfer box and gets it back when it is settled.","events":[],"recommendations":{}},{"name":"cancelOwnershipTransfer","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Call off a pending ownership transfer and get the MBR back.","events":[],"recommendations":{}},{"name":"acceptOwnership","args":[{"type":"pay","name":"mbrPayment","desc":"Covers the MBR for adding the listing to the new owner's index"},{"type":"uint64","name":"propertyId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Take over a listing. From here on the new owner manages it, and receives primary sale\nproceeds, escrowed raise funds and the rest of the owner's payouts. The previous owner gets\nback the MBR of the pending transfer box and of the listing's entry in their index.","events":[],"recommendations":{}},{"name":"getPendingOwner","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"address"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"Account a pending ownership transfer would hand the listing to, or the zero address if there is none.","events":[],"recommendations":{}},{"name":"delistProperty","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Delist a property. Only the owner can delist, and no shares can have been sold.\nDeleting the boxes reclaims their MBR, which is paid back to the owner.","events":[{"name":"PropertyDelisted","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"owner"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"availableShares"}]}],"recommendations":{}},{"name":"getPropertyInfo","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)","struct":"PropertyStruct"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getListingIds","args":[{"type":"uint64","name":"page"}],"returns":{"type":"uint64[]"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"A page of up to 32 property IDs in the order they were listed, including any since delisted.\nPages run from 0 up to nextListingIndex / 32.","events":[],"recommendations":{}},{"name":"getProperties","args":[{"type":"uint64[]","name":"propertyIds"}],"returns":{"type":"(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"The listings for a batch of property IDs, skipping any that have been delisted. ABI returns\nare capped at 1KB, so only a couple of listings fit in each call: a listing with the longest\naddress, unit name and metadata URL encodes to 488 bytes (254 + 128 + 8 + 96 + a 2-byte offset),\nand two of those with the array's length prefix come to 978.","events":[],"recommendations":{}},{"name":"getOwnerListings","args":[{"type":"address","name":"owner"}],"returns":{"type":"uint64[]"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"IDs of the properties an account has listed or taken over, oldest first.","events":[],"recommendations":{}},{"name":"getMarketStats","args":[],"returns":{"type":"(uint64,uint64,uint64)","struct":"MarketStatsStruct"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getCurrentPrice","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"Current primary sale price per share, which falls over time on a Dutch auction.","events":[],"recommendations":{}},{"name":"createSellOrder","args":[{"type":"pay","name":"mbrPayment","desc":"Covers the Minimum Balance Requirement for the order box"},{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"pricePerShare"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Post a resale order on the secondary market. The shares being sold are taken from the\nseller's holding and escrowed in the app account until the order is filled or cancelled.","events":[],"recommendations":{}},{"name":"fillSellOrder","args":[{"type":"uint64","name":"orderId"},{"type":"uint64","name":"shares"},{"type":"pay","name":"payment"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Buy shares out of a resale order. Payment goes to the seller and partial fills are allowed;\nthe order box is deleted once all of its shares are sold.","events":[],"recommendations":{}},{"name":"cancelSellOrder","args":[{"type":"uint64","name":"orderId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Cancel a resale order. Only the seller can cancel; unsold shares are returned to them.","events":[],"recommendations":{}},{"name":"getSellOrder","args":[{"type":"uint64","name":"orderId"}],"returns":{"type":"(uint64,address,uint64,uint64)","struct":"SellOrderStruct"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"depositIncome","args":[{"type":"uint64","name":"propertyId"},{"type":"pay","name":"payment","desc":"The income being distributed, paid to the app"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Deposit rental income for a property. Only the owner can deposit. The amount is spread over\nthe shares registered holders have in their holdings by growing a cumulative income-per-share\naccumulator. Shares held by the app (unsold, escrowed in orders or votes) and unregistered\nholders' shares don't earn. Whatever doesn't divide evenly, or all of it while no shares are\nregistered, is carried into the next deposit.","events":[],"recommendations":{}},{"name":"registerForIncome","args":[{"type":"pay","name":"mbrPayment","desc":"Covers the Minimum Balance Requirement for the holder's claim box"},{"type":"uint64","name":"propertyId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Start earning income on a property, on the shares in the caller's holding. Income deposited\nbefore registering is not claimable, since the app only settles the holdings of registered\nholders as their shares move.","events":[],"recommendations":{}},{"name":"unregisterForIncome","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Stop earning income on a property. Pays out the caller's unclaimed income along with the\nclaim box MBR, including after the property has been delisted. Returns the income paid.","events":[],"recommendations":{}},{"name":"claimIncome","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Pay out the caller's share of income deposited since their last claim. Returns the amount paid.\nNothing more can be earned on a delisted property, so claiming on one also closes the claim.","events":[],"recommendations":{}},{"name":"getUnclaimedIncome","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"holder"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"createProposal","args":[{"type":"pay","name":"mbrPayment","desc":"Covers the Minimum Balance Requirement for the proposal box"},{"type":"uint64","name":"propertyId"},{"type":"string","name":"description"},{"type":"uint64","name":"deadlineRound","desc":"Last round in which votes are accepted"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Open a governance proposal for a property's co-owners. Only holders of the property's shares\ncan propose. The quorum is fixed from the share supply when the proposal is created.","events":[],"recommendations":{}},{"name":"castVote","args":[{"type":"pay","name":"mbrPayment","desc":"Covers the Minimum Balance Requirement for the vote box"},{"type":"uint64","name":"proposalId"},{"type":"uint64","name":"shares"},{"type":"bool","name":"support"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Vote on a proposal, weighted by the shares voted with. The shares are taken from the voter's\nholding and stay locked in the app until the deadline has passed, so the same shares can't be\nmoved and voted again. Locked shares don't earn income until they're withdrawn.","events":[],"recommendations":{}},{"name":"finalizeProposal","args":[{"type":"uint64","name":"proposalId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Record the outcome of a proposal once voting has closed. Anyone can finalize. With no votes\nleft to withdraw the proposal is done with, so its box is deleted and the MBR goes back to the proposer.","events":[],"recommendations":{}},{"name":"withdrawVote","args":[{"type":"uint64","name":"proposalId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Unlock the caller's voting shares after the deadline and refund the vote box MBR. The last\nvoter to withdraw from a finalized proposal also returns the proposal box MBR to the proposer.","events":[],"recommendations":{}},{"name":"getProposal","args":[{"type":"uint64","name":"proposalId"}],"returns":{"type":"(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)","struct":"ProposalStruct"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"offerBuyout","args":[{"type":"pay","name":"mbrPayment","desc":"Covers the Minimum Balance Requirement for the buyout box and the property's active offer box"},{"type":"pay","name":"payment","desc":"Escrows the total offer in the app"},{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"deadlineRound","desc":"Last round in which holders can vote"}],"returns":{"type":"uint64","desc":"The ID of the new offer"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Offer to buy out every share of a property. The offer amount is escrowed in the app and\nholders vote on it with their shares until the deadline. A property has one active offer at\na time, open or accepted, and only once its primary sale has sold out or been closed. A new\noffer can be made as soon as the previous one is rejected.","events":[],"recommendations":{}},{"name":"voteOnBuyout","args":[{"type":"pay","name":"mbrPayment","desc":"Covers the Minimum Balance Requirement for the vote box"},{"type":"uint64","name":"buyoutId"},{"type":"uint64","name":"shares"},{"type":"bool","name":"support"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Vote on a buyout offer, weighted by the shares voted with. The shares are taken from the\nvoter's holding and stay locked in the app: they are redeemed with the holder's other shares\nif the buyout is accepted, and can be withdrawn if it is rejected. Locked shares don't earn income.","events":[],"recommendations":{}},{"name":"finalizeBuyout","args":[{"type":"uint64","name":"buyoutId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Decide a buyout. Anyone can finalize, as soon as more than half of all shares have voted for\nit or otherwise once voting has closed. An accepted buyout closes the primary sale for good;\na rejected one pays the escrowed offer back to the bidder and frees the property for a new offer.","events":[],"recommendations":{}},{"name":"withdrawBuyoutVote","args":[{"type":"uint64","name":"buyoutId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Unlock the caller's voting shares after a buyout was rejected and refund the vote box MBR.\nThe last voter to withdraw also returns the buyout box MBR to the bidder.","events":[],"recommendations":{}},{"name":"redeemBuyout","args":[{"type":"uint64","name":"buyoutId"},{"type":"uint64","name":"shares","desc":"Shares to take from the caller's holding (0 to redeem only the shares they voted with)"}],"returns":{"type":"uint64","desc":"The amount paid for the shares"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Hand shares in to an accepted buyout for their pro-rata share of the offer. Shares locked in\nthe caller's vote are redeemed along with the shares taken from their holding, and the caller's\nunclaimed income and box MBR are paid out with it. Redeemed shares stay in the app.\nOnce every share is redeemed the listing is closed, with its MBR going back to the owner and\nthe buyout box MBRs to the bidder.","events":[],"recommendations":{}},{"name":"getBuyout","args":[{"type":"uint64","name":"buyoutId"}],"returns":{"type":"(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)","struct":"BuyoutStruct"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getActiveBuyout","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"The ID of a property's open or accepted buyout offer, or 0 if it has none.","events":[],"recommendations":{}},{"name":"reserveShares","args":[{"type":"pay","name":"mbrPayment","desc":"Covers the Minimum Balance Requirement for the reservation box"},{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"shares"},{"type":"pay","name":"deposit","desc":"Pays the deposit to the app, up to the full price"}],"returns":{"type":"uint64","desc":"The last round the reservation can be completed in"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Reserve primary shares of an ALGO-priced listing for buyers whose funds take a while to settle.\nThe shares are held back from sale at today's price for the listing's reservation period, on a\ndeposit of at least the listing's deposit rate; completeReservation pays the rest and hands them over.","events":[],"recommendations":{}},{"name":"reserveSharesWithAsset","args":[{"type":"pay","name":"mbrPayment","desc":"Covers the Minimum Balance Requirement for the reservation box"},{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"shares"},{"type":"axfer","name":"deposit","desc":"Transfers the deposit in the listing's payment asset to the app, up to the full price"}],"returns":{"type":"uint64","desc":"The last round the reservation can be completed in"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Reserve primary shares of a listing priced in an ASA, paying the deposit in that asset.","events":[],"recommendations":{}},{"name":"completeReservation","args":[{"type":"uint64","name":"propertyId"},{"type":"pay","name":"payment","desc":"Pays the reserved price less the deposit to the app"}],"returns":{"type":"uint64","desc":"The number of shares bought"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Pay the rest of an ALGO-priced reservation and receive the shares. The reservation box MBR is refunded.","events":[{"name":"SharesPurchased","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"buyer"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"amount"},{"type":"uint64","name":"availableShares"}]}],"recommendations":{}},{"name":"completeReservationWithAsset","args":[{"type":"uint64","name":"propertyId"},{"type":"axfer","name":"payment","desc":"Transfers the reserved price less the deposit in the listing's payment asset to the app"}],"returns":{"type":"uint64","desc":"The number of shares bought"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Pay the rest of a reservation in the listing's payment asset and receive the shares.","events":[{"name":"SharesPurchased","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"buyer"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"amount"},{"type":"uint64","name":"availableShares"}]}],"recommendations":{}},{"name":"expireReservation","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"holder"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Release a reservation that ran out without being completed. Anyone can call this once it has\nexpired. The shares go back on sale, the deposit goes to the owner if the listing forfeits\ndeposits or back to the holder otherwise, and the holder gets the reservation box MBR back.","events":[],"recommendations":{}},{"name":"getReservation","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"holder"}],"returns":{"type":"(uint64,uint64,uint64,uint64)","struct":"ReservationStruct"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"registerReferrer","args":[{"type":"pay","name":"mbrPayment"},{"type":"uint64","name":"paymentAssetId","desc":"ASA the listings are priced in, or 0 for ALGO"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Sign up as a referral partner for listings priced in one currency, so purchases can name the\ncaller as their referrer. The partner pays the MBR for the box their earnings are tracked in,\nand must be opted in to an ASA currency to be paid in it.","events":[],"recommendations":{}},{"name":"getReferralEarnings","args":[{"type":"address","name":"referrer"},{"type":"uint64","name":"paymentAssetId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"Total referral commissions a partner has been paid in one currency, or 0 if they haven't registered for it.","events":[],"recommendations":{}},{"name":"setAppraiser","args":[{"type":"pay","name":"mbrPayment","desc":"Covers the MBR for the appraisal boxes on the first appointment; any excess is refunded"},{"type":"uint64","name":"propertyId"},{"type":"address","name":"appraiser"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Appoint the account that posts valuations of a listing, or replace it. Pass the zero address\nto stop valuations being posted. The first appointment pays the MBR for the appraiser box and\nthe valuation history box, which comes back to the owner when the listing closes.","events":[],"recommendations":{}},{"name":"postValuation","args":[{"type":"uint64","name":"propertyId"},{"type":"uint64","name":"totalValue","desc":"Value of the whole property in base units of the listing's payment currency"},{"type":"uint64","name":"timestamp","desc":"When the valuation was made, in unix seconds"},{"type":"byte[32]","name":"documentHash","desc":"SHA-256 of the appraisal report"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Post a valuation of the whole property. Only the listing's appraiser can post, and valuations\nmust be posted in date order. Once the history is full the oldest valuation is dropped.","events":[],"recommendations":{}},{"name":"getAppraiser","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"address"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"Account that posts a listing's valuations, or the zero address if there is none.","events":[],"recommendations":{}},{"name":"getLatestValuation","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"(uint64,uint64,byte[32])","struct":"ValuationStruct"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"A listing's most recent valuation. NAV per share is its totalValue over the listing's totalShares.","events":[],"recommendations":{}},{"name":"getValuationHistory","args":[{"type":"uint64","name":"propertyId"}],"returns":{"type":"(uint64,uint64,byte[32])[]"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"Up to the last 12 valuations of a listing, oldest first.","events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":9,"bytes":4},"local":{"ints":0,"bytes":0}},"keys":{"global":{"nextOrderId":{"keyType":"AVMString","valueType":"AVMUint64","key":"bmV4dE9yZGVySWQ="},"nextProposalId":{"keyType":"AVMString","valueType":"AVMUint64","key":"bmV4dFByb3Bvc2FsSWQ="},"feeBps":{"keyType":"AVMString","valueType":"AVMUint64","key":"ZmVlQnBz"},"treasury":{"keyType":"AVMString","valueType":"address","key":"dHJlYXN1cnk="},"admin":{"keyType":"AVMString","valueType":"address","key":"YWRtaW4="},"pendingAdmin":{"keyType":"AVMString","valueType":"address","key":"cGVuZGluZ0FkbWlu"},"paused":{"keyType":"AVMString","valueType":"bool","key":"cGF1c2Vk"},"compliance":{"keyType":"AVMString","valueType":"address","key":"Y29tcGxpYW5jZQ=="},"listingCount":{"keyType":"AVMString","valueType":"AVMUint64","key":"bGlzdGluZ0NvdW50"},"totalSharesSold":{"keyType":"AVMString","valueType":"AVMUint64","key":"dG90YWxTaGFyZXNTb2xk"},"totalVolume":{"keyType":"AVMString","valueType":"AVMUint64","key":"dG90YWxWb2x1bWU="},"nextListingIndex":{"keyType":"AVMString","valueType":"AVMUint64","key":"bmV4dExpc3RpbmdJbmRleA=="},"nextBuyoutId":{"keyType":"AVMString","valueType":"AVMUint64","key":"bmV4dEJ1eW91dElk"}},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{"listedProperties":{"keyType":"uint64","valueType":"PropertyStruct","prefix":"cHJvcGVydGllcw=="},"sellOrders":{"keyType":"uint64","valueType":"SellOrderStruct","prefix":"b3JkZXJz"},"incomeClaims":{"keyType":"HolderKey","valueType":"IncomeClaimStruct","prefix":"Y2xhaW1z"},"proposals":{"keyType":"uint64","valueType":"ProposalStruct","prefix":"cHJvcG9zYWxz"},"votes":{"keyType":"VoteKey","valueType":"VoteStruct","prefix":"dm90ZXM="},"allowlist":{"keyType":"address","valueType":"AVMUint64","prefix":"a3lj"},"lockups":{"keyType":"HolderKey","valueType":"LockupStruct","prefix":"bG9ja3M="},"priceTiers":{"keyType":"uint64","valueType":"(uint64,uint64,uint64)[]","prefix":"dGllcnM="},"pendingOwners":{"keyType":"uint64","valueType":"address","prefix":"cGVuZGluZ093bmVycw=="},"ownerListings":{"keyType":"address","valueType":"uint64[]","prefix":"b3duZWQ="},"listingPages":{"keyType":"uint64","valueType":"uint64[]","prefix":"cGFnZXM="},"buyouts":{"keyType":"uint64","valueType":"BuyoutStruct","prefix":"YnV5b3V0cw=="},"activeBuyouts":{"keyType":"uint64","valueType":"AVMUint64","prefix":"YWN0aXZlQnV5b3V0cw=="},"buyoutVotes":{"keyType":"BuyoutVoteKey","valueType":"VoteStruct","prefix":"YnV5b3V0Vm90ZXM="},"reservations":{"keyType":"HolderKey","valueType":"ReservationStruct","prefix":"cmVzZXJ2YXRpb25z"},"referralEarnings":{"keyType":"ReferralKey","valueType":"AVMUint64","prefix":"cmVmZXJyYWxz"},"appraisers":{"keyType":"uint64","valueType":"address","prefix":"YXBwcmFpc2Vycw=="},"valuations":{"keyType":"uint64","valueType":"(uint64,uint64,byte[32])[]","prefix":"dmFsdWF0aW9ucw=="}}}},"bareActions":{"create":["NoOp"],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[{"pc":[524],"errorMessage":"Cannot delist property with sold shares"},{"pc":[364],"errorMessage":"Invalid payment transaction"},{"pc":[159],"errorMessage":"MBR payment amount is insufficient"},{"pc":[175],"errorMessage":"MBR payment must be from the caller"},{"pc":[167],"errorMessage":"MBR payment must be to the app"},{"pc":[302],"errorMessage":"Must purchase at least one share"},{"pc":[377],"errorMessage":"Not enough shares"},{"pc":[36],"errorMessage":"OnCompletion must be NoOp"},{"pc":[83],"errorMessage":"OnCompletion must be NoOp && can only call when creating"},{"pc":[509],"errorMessage":"Only the owner can delist"},{"pc":[137],"errorMessage":"Price per share must be greater than 0"},{"pc":[313,499,546],"errorMessage":"Property not listed"},{"pc":[136],"errorMessage":"Shares must be greater than 0"},{"pc":[101],"errorMessage":"invalid array length header"},{"pc":[109],"errorMessage":"invalid number of bytes for arc4.dynamic_array<arc4.uint8>"},{"pc":[121,131,279,288,489,536],"errorMessage":"invalid number of bytes for arc4.uint64"},{"pc":[95,299],"errorMessage":"transaction type is pay"}],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"source":{"approval":"I3ByYWdtYSB2ZXJzaW9uIDExCiNwcmFnbWEgdHlwZXRyYWNrIGZhbHNlCgovLyBAYWxnb3JhbmRmb3VuZGF0aW9uL2FsZ29yYW5kLXR5cGVzY3JpcHQvYXJjNC9pbmRleC5kLnRzOjpDb250cmFjdC5hcHByb3ZhbFByb2dyYW0oKSAtPiB1aW50NjQ6Cm1haW46CiAgICBpbnRjYmxvY2sgOCAxIDAgMzIKICAgIGJ5dGVjYmxvY2sgInByb3BlcnRpZXMiIDB4MDA0MiAweDE1MWY3Yzc1CiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoyNwogICAgLy8gZXhwb3J0IGRlZmF1bHQgY2xhc3MgRnJhY3Rpb25hbFJlYWxFc3RhdGUgZXh0ZW5kcyBDb250cmFjdCB7CiAgICB0eG4gTnVtQXBwQXJncwogICAgYnogbWFpbl9fX2FsZ290c19fLmRlZmF1bHRDcmVhdGVAMTEKICAgIHR4biBPbkNvbXBsZXRpb24KICAgICEKICAgIGFzc2VydCAvLyBPbkNvbXBsZXRpb24gbXVzdCBiZSBOb09wCiAgICB0eG4gQXBwbGljYXRpb25JRAogICAgYXNzZXJ0CiAgICBwdXNoYnl0ZXNzIDB4MzMxZGFjNTQgMHgwYTNkZTUxYyAweDNiOWUzOTQ1IDB4ZjNjZTUxODQgLy8gbWV0aG9kICJjcmVhdGVQcm9wZXJ0eUxpc3RpbmcocGF5LHN0cmluZyx1aW50NjQsdWludDY0KXVpbnQ2NCIsIG1ldGhvZCAicHVyY2hhc2VGcm9tTGlzdGVyKHVpbnQ2NCx1aW50NjQscGF5KWJvb2wiLCBtZXRob2QgImRlbGlzdFByb3BlcnR5KHVpbnQ2NCl2b2lkIiwgbWV0aG9kICJnZXRQcm9wZXJ0eUluZm8odWludDY0KShzdHJpbmcsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGFkZHJlc3MpIgogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMAogICAgbWF0Y2ggY3JlYXRlUHJvcGVydHlMaXN0aW5nIHB1cmNoYXNlRnJvbUxpc3RlciBkZWxpc3RQcm9wZXJ0eSBnZXRQcm9wZXJ0eUluZm8KICAgIGVycgoKbWFpbl9fX2FsZ290c19fLmRlZmF1bHRDcmVhdGVAMTE6CiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoyNwogICAgLy8gZXhwb3J0IGRlZmF1bHQgY2xhc3MgRnJhY3Rpb25hbFJlYWxFc3RhdGUgZXh0ZW5kcyBDb250cmFjdCB7CiAgICB0eG4gT25Db21wbGV0aW9uCiAgICAhCiAgICB0eG4gQXBwbGljYXRpb25JRAogICAgIQogICAgJiYKICAgIGFzc2VydCAvLyBPbkNvbXBsZXRpb24gbXVzdCBiZSBOb09wICYmIGNhbiBvbmx5IGNhbGwgd2hlbiBjcmVhdGluZwogICAgaW50Y18xIC8vIDEKICAgIHJldHVybgoKCi8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjpGcmFjdGlvbmFsUmVhbEVzdGF0ZS5jcmVhdGVQcm9wZXJ0eUxpc3Rpbmdbcm91dGluZ10oKSAtPiB2b2lkOgpjcmVhdGVQcm9wZXJ0eUxpc3Rpbmc6CiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czozNi00MQogICAgLy8gcHVibGljIGNyZWF0ZVByb3BlcnR5TGlzdGluZygKICAgIC8vICAgbWJyUGF5bWVudDogZ3R4bi5QYXltZW50VHhuLAogICAgLy8gICBwcm9wZXJ0eUFkZHJlc3M6IHN0cmluZywKICAgIC8vICAgc2hhcmVzOiB1aW50NjQsCiAgICAvLyAgIHByaWNlUGVyU2hhcmU6IHVpbnQ2NCwKICAgIC8vICk6IHVpbnQ2NCB7CiAgICB0eG4gR3JvdXBJbmRleAogICAgaW50Y18xIC8vIDEKICAgIC0KICAgIGR1cAogICAgZ3R4bnMgVHlwZUVudW0KICAgIGludGNfMSAvLyBwYXkKICAgID09CiAgICBhc3NlcnQgLy8gdHJhbnNhY3Rpb24gdHlwZSBpcyBwYXkKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDEKICAgIGR1cAogICAgaW50Y18yIC8vIDAKICAgIGV4dHJhY3RfdWludDE2IC8vIG9uIGVycm9yOiBpbnZhbGlkIGFycmF5IGxlbmd0aCBoZWFkZXIKICAgIHB1c2hpbnQgMiAvLyAyCiAgICArCiAgICBkaWcgMQogICAgbGVuCiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LmR5bmFtaWNfYXJyYXk8YXJjNC51aW50OD4KICAgIGR1cAogICAgZXh0cmFjdCAyIDAKICAgIHR4bmEgQXBwbGljYXRpb25BcmdzIDIKICAgIGR1cAogICAgbGVuCiAgICBpbnRjXzAgLy8gOAogICAgPT0KICAgIGFzc2VydCAvLyBpbnZhbGlkIG51bWJlciBvZiBieXRlcyBmb3IgYXJjNC51aW50NjQKICAgIGR1cAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMwogICAgZHVwCiAgICBsZW4KICAgIGludGNfMCAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgZHVwCiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo0MgogICAgLy8gYXNzZXJ0KHNoYXJlcyA+IDAsICdTaGFyZXMgbXVzdCBiZSBncmVhdGVyIHRoYW4gMCcpCiAgICBkaWcgMgogICAgYXNzZXJ0IC8vIFNoYXJlcyBtdXN0IGJlIGdyZWF0ZXIgdGhhbiAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo0MwogICAgLy8gYXNzZXJ0KHByaWNlUGVyU2hhcmUgPiAwLCAnUHJpY2UgcGVyIHNoYXJlIG11c3QgYmUgZ3JlYXRlciB0aGFuIDAnKQogICAgYXNzZXJ0IC8vIFByaWNlIHBlciBzaGFyZSBtdXN0IGJlIGdyZWF0ZXIgdGhhbiAwCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo1MwogICAgLy8gY29uc3QgYm94TWJyQ29zdDogdWludDY0ID0gMjUwMCArIDQwMCAqICgxOCArIDY4ICsgQnl0ZXMocHJvcGVydHlBZGRyZXNzKS5sZW5ndGgpCiAgICBkaWcgMwogICAgbGVuCiAgICBwdXNoaW50IDg2IC8vIDg2CiAgICBkaWcgMQogICAgKwogICAgcHVzaGludCA0MDAgLy8gNDAwCiAgICAqCiAgICBwdXNoaW50IDI1MDAgLy8gMjUwMAogICAgKwogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6NTQKICAgIC8vIGFzc2VydChtYnJQYXltZW50LmFtb3VudCA+PSBib3hNYnJDb3N0LCAnTUJSIHBheW1lbnQgYW1vdW50IGlzIGluc3VmZmljaWVudCcpCiAgICBkaWcgNwogICAgZ3R4bnMgQW1vdW50CiAgICA8PQogICAgYXNzZXJ0IC8vIE1CUiBwYXltZW50IGFtb3VudCBpcyBpbnN1ZmZpY2llbnQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjU1CiAgICAvLyBhc3NlcnQobWJyUGF5bWVudC5yZWNlaXZlciA9PT0gR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MsICdNQlIgcGF5bWVudCBtdXN0IGJlIHRvIHRoZSBhcHAnKQogICAgZGlnIDYKICAgIGd0eG5zIFJlY2VpdmVyCiAgICBnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwogICAgPT0KICAgIGFzc2VydCAvLyBNQlIgcGF5bWVudCBtdXN0IGJlIHRvIHRoZSBhcHAKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjU2CiAgICAvLyBhc3NlcnQobWJyUGF5bWVudC5zZW5kZXIgPT09IFR4bi5zZW5kZXIsICdNQlIgcGF5bWVudCBtdXN0IGJlIGZyb20gdGhlIGNhbGxlcicpCiAgICB1bmNvdmVyIDYKICAgIGd0eG5zIFNlbmRlcgogICAgdHhuIFNlbmRlcgogICAgPT0KICAgIGFzc2VydCAvLyBNQlIgcGF5bWVudCBtdXN0IGJlIGZyb20gdGhlIGNhbGxlcgogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6NzYtODYKICAgIC8vIGNvbnN0IHR4blJlc3VsdCA9IGl0eG4KICAgIC8vICAgLmFzc2V0Q29uZmlnKHsKICAgIC8vICAgICBhc3NldE5hbWU6IEJ5dGVzKHByb3BlcnR5QWRkcmVzcykuc2xpY2UoMCwgMzIpLnRvU3RyaW5nKCksCiAgICAvLyAgICAgdW5pdE5hbWU6ICdQUk9QJywKICAgIC8vICAgICB0b3RhbDogc2hhcmVzLAogICAgLy8gICAgIGRlY2ltYWxzOiAwLAogICAgLy8gICAgIG1hbmFnZXI6IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLAogICAgLy8gICAgIHJlc2VydmU6IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLAogICAgLy8gICAgIGZlZTogMCwKICAgIC8vICAgfSkKICAgIC8vICAgLnN1Ym1pdCgpCiAgICBpdHhuX2JlZ2luCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo3OAogICAgLy8gYXNzZXROYW1lOiBCeXRlcyhwcm9wZXJ0eUFkZHJlc3MpLnNsaWNlKDAsIDMyKS50b1N0cmluZygpLAogICAgaW50Y18yIC8vIDAKICAgIGRpZyAxCiAgICA+PQogICAgaW50Y18yIC8vIDAKICAgIGRpZyAyCiAgICB1bmNvdmVyIDIKICAgIHNlbGVjdAogICAgaW50Y18zIC8vIDMyCiAgICBkaWcgMgogICAgPj0KICAgIGludGNfMyAvLyAzMgogICAgdW5jb3ZlciAzCiAgICB1bmNvdmVyIDIKICAgIHNlbGVjdAogICAgdW5jb3ZlciA1CiAgICBjb3ZlciAyCiAgICBzdWJzdHJpbmczCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo4MgogICAgLy8gbWFuYWdlcjogR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MsCiAgICBnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6ODMKICAgIC8vIHJlc2VydmU6IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLAogICAgZHVwCiAgICBpdHhuX2ZpZWxkIENvbmZpZ0Fzc2V0UmVzZXJ2ZQogICAgaXR4bl9maWVsZCBDb25maWdBc3NldE1hbmFnZXIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjgxCiAgICAvLyBkZWNpbWFsczogMCwKICAgIGludGNfMiAvLyAwCiAgICBpdHhuX2ZpZWxkIENvbmZpZ0Fzc2V0RGVjaW1hbHMKICAgIHVuY292ZXIgMgogICAgaXR4bl9maWVsZCBDb25maWdBc3NldFRvdGFsCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo3OQogICAgLy8gdW5pdE5hbWU6ICdQUk9QJywKICAgIHB1c2hieXRlcyAiUFJPUCIKICAgIGl0eG5fZmllbGQgQ29uZmlnQXNzZXRVbml0TmFtZQogICAgaXR4bl9maWVsZCBDb25maWdBc3NldE5hbWUKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjc2LTg1CiAgICAvLyBjb25zdCB0eG5SZXN1bHQgPSBpdHhuCiAgICAvLyAgIC5hc3NldENvbmZpZyh7CiAgICAvLyAgICAgYXNzZXROYW1lOiBCeXRlcyhwcm9wZXJ0eUFkZHJlc3MpLnNsaWNlKDAsIDMyKS50b1N0cmluZygpLAogICAgLy8gICAgIHVuaXROYW1lOiAnUFJPUCcsCiAgICAvLyAgICAgdG90YWw6IHNoYXJlcywKICAgIC8vICAgICBkZWNpbWFsczogMCwKICAgIC8vICAgICBtYW5hZ2VyOiBHbG9iYWwuY3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcywKICAgIC8vICAgICByZXNlcnZlOiBHbG9iYWwuY3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcywKICAgIC8vICAgICBmZWU6IDAsCiAgICAvLyAgIH0pCiAgICBwdXNoaW50IDMgLy8gMwogICAgaXR4bl9maWVsZCBUeXBlRW51bQogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6ODQKICAgIC8vIGZlZTogMCwKICAgIGludGNfMiAvLyAwCiAgICBpdHhuX2ZpZWxkIEZlZQogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6NzYtODYKICAgIC8vIGNvbnN0IHR4blJlc3VsdCA9IGl0eG4KICAgIC8vICAgLmFzc2V0Q29uZmlnKHsKICAgIC8vICAgICBhc3NldE5hbWU6IEJ5dGVzKHByb3BlcnR5QWRkcmVzcykuc2xpY2UoMCwgMzIpLnRvU3RyaW5nKCksCiAgICAvLyAgICAgdW5pdE5hbWU6ICdQUk9QJywKICAgIC8vICAgICB0b3RhbDogc2hhcmVzLAogICAgLy8gICAgIGRlY2ltYWxzOiAwLAogICAgLy8gICAgIG1hbmFnZXI6IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLAogICAgLy8gICAgIHJlc2VydmU6IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLAogICAgLy8gICAgIGZlZTogMCwKICAgIC8vICAgfSkKICAgIC8vICAgLnN1Ym1pdCgpCiAgICBpdHhuX3N1Ym1pdAogICAgaXR4biBDcmVhdGVkQXNzZXRJRAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6NjUKICAgIC8vIHByb3BlcnR5QXNzZXRJZDogbmV3IGFyYzQuVWludDY0KGFzc2V0SWQpLAogICAgaXRvYgogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6NjYKICAgIC8vIG93bmVyQWRkcmVzczogbmV3IGFyYzQuQWRkcmVzcyhUeG4uc2VuZGVyKSwKICAgIHR4biBTZW5kZXIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjYwLTY3CiAgICAvLyBjb25zdCBwcm9wZXJ0eVN0cnVjdCA9IG5ldyBQcm9wZXJ0eVN0cnVjdCh7CiAgICAvLyAgIGFkZHJlc3M6IG5ldyBhcmM0LlN0cihwcm9wZXJ0eUFkZHJlc3MpLAogICAgLy8gICB0b3RhbFNoYXJlczogbmV3IGFyYzQuVWludDY0KHNoYXJlcyksCiAgICAvLyAgIGF2YWlsYWJsZVNoYXJlczogbmV3IGFyYzQuVWludDY0KHNoYXJlcyksCiAgICAvLyAgIHByaWNlUGVyU2hhcmU6IG5ldyBhcmM0LlVpbnQ2NChwcmljZVBlclNoYXJlKSwKICAgIC8vICAgcHJvcGVydHlBc3NldElkOiBuZXcgYXJjNC5VaW50NjQoYXNzZXRJZCksCiAgICAvLyAgIG93bmVyQWRkcmVzczogbmV3IGFyYzQuQWRkcmVzcyhUeG4uc2VuZGVyKSwKICAgIC8vIH0pCiAgICBieXRlY18xIC8vIDB4MDA0MgogICAgZGlnIDQKICAgIGNvbmNhdAogICAgdW5jb3ZlciA0CiAgICBjb25jYXQKICAgIHVuY292ZXIgMwogICAgY29uY2F0CiAgICBkaWcgMgogICAgY29uY2F0CiAgICBzd2FwCiAgICBjb25jYXQKICAgIHVuY292ZXIgMgogICAgY29uY2F0CiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoyOAogICAgLy8gcHVibGljIGxpc3RlZFByb3BlcnRpZXMgPSBCb3hNYXA8dWludDY0LCBQcm9wZXJ0eVN0cnVjdD4oeyBrZXlQcmVmaXg6ICdwcm9wZXJ0aWVzJyB9KQogICAgYnl0ZWNfMCAvLyAicHJvcGVydGllcyIKICAgIGRpZyAyCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjY5CiAgICAvLyB0aGlzLmxpc3RlZFByb3BlcnRpZXMoYXNzZXRJZCkudmFsdWUgPSBjbG9uZShwcm9wZXJ0eVN0cnVjdCkKICAgIGR1cAogICAgYm94X2RlbAogICAgcG9wCiAgICBzd2FwCiAgICBib3hfcHV0CiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czozNi00MQogICAgLy8gcHVibGljIGNyZWF0ZVByb3BlcnR5TGlzdGluZygKICAgIC8vICAgbWJyUGF5bWVudDogZ3R4bi5QYXltZW50VHhuLAogICAgLy8gICBwcm9wZXJ0eUFkZHJlc3M6IHN0cmluZywKICAgIC8vICAgc2hhcmVzOiB1aW50NjQsCiAgICAvLyAgIHByaWNlUGVyU2hhcmU6IHVpbnQ2NCwKICAgIC8vICk6IHVpbnQ2NCB7CiAgICBieXRlY18yIC8vIDB4MTUxZjdjNzUKICAgIHN3YXAKICAgIGNvbmNhdAogICAgbG9nCiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgoKLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6OkZyYWN0aW9uYWxSZWFsRXN0YXRlLnB1cmNoYXNlRnJvbUxpc3Rlcltyb3V0aW5nXSgpIC0+IHZvaWQ6CnB1cmNoYXNlRnJvbUxpc3RlcjoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjkyCiAgICAvLyBwdWJsaWMgcHVyY2hhc2VGcm9tTGlzdGVyKHByb3BlcnR5SWQ6IHVpbnQ2NCwgc2hhcmVzOiB1aW50NjQsIHBheW1lbnQ6IGd0eG4uUGF5bWVudFR4bik6IGJvb2xlYW4gewogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMCAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgogICAgZHVwCiAgICBsZW4KICAgIGludGNfMCAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgdHhuIEdyb3VwSW5kZXgKICAgIGludGNfMSAvLyAxCiAgICAtCiAgICBkdXAKICAgIGd0eG5zIFR5cGVFbnVtCiAgICBpbnRjXzEgLy8gcGF5CiAgICA9PQogICAgYXNzZXJ0IC8vIHRyYW5zYWN0aW9uIHR5cGUgaXMgcGF5CiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo5MwogICAgLy8gYXNzZXJ0KHNoYXJlcyA+IDAsICdNdXN0IHB1cmNoYXNlIGF0IGxlYXN0IG9uZSBzaGFyZScpCiAgICBkaWcgMQogICAgYXNzZXJ0IC8vIE11c3QgcHVyY2hhc2UgYXQgbGVhc3Qgb25lIHNoYXJlCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo5NAogICAgLy8gYXNzZXJ0KHRoaXMubGlzdGVkUHJvcGVydGllcyhwcm9wZXJ0eUlkKS5leGlzdHMsICdQcm9wZXJ0eSBub3QgbGlzdGVkJykKICAgIHVuY292ZXIgMgogICAgaXRvYgogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MjgKICAgIC8vIHB1YmxpYyBsaXN0ZWRQcm9wZXJ0aWVzID0gQm94TWFwPHVpbnQ2NCwgUHJvcGVydHlTdHJ1Y3Q+KHsga2V5UHJlZml4OiAncHJvcGVydGllcycgfSkKICAgIGJ5dGVjXzAgLy8gInByb3BlcnRpZXMiCiAgICBzd2FwCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjk0CiAgICAvLyBhc3NlcnQodGhpcy5saXN0ZWRQcm9wZXJ0aWVzKHByb3BlcnR5SWQpLmV4aXN0cywgJ1Byb3BlcnR5IG5vdCBsaXN0ZWQnKQogICAgZHVwCiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGFzc2VydCAvLyBQcm9wZXJ0eSBub3QgbGlzdGVkCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo5OC0xMDQKICAgIC8vIGFzc2VydE1hdGNoKHBheW1lbnQsIHsKICAgIC8vICAgYW1vdW50OiBzaGFyZXMgKiBwcm9wZXJ0eS5wcmljZVBlclNoYXJlLmFzVWludDY0KCksCiAgICAvLyAgIHJlY2VpdmVyOiBHbG9iYWwuY3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcywKICAgIC8vICAgc2VuZGVyOiBUeG4uc2VuZGVyLAogICAgLy8gICBjbG9zZVJlbWFpbmRlclRvOiBHbG9iYWwuemVyb0FkZHJlc3MsCiAgICAvLyAgIHJla2V5VG86IEdsb2JhbC56ZXJvQWRkcmVzcywKICAgIC8vIH0sICdJbnZhbGlkIHBheW1lbnQgdHJhbnNhY3Rpb24nKQogICAgZGlnIDEKICAgIGd0eG5zIEFtb3VudAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6OTkKICAgIC8vIGFtb3VudDogc2hhcmVzICogcHJvcGVydHkucHJpY2VQZXJTaGFyZS5hc1VpbnQ2NCgpLAogICAgZGlnIDEKICAgIHB1c2hpbnQgMTggLy8gMTgKICAgIGludGNfMCAvLyA4CiAgICBib3hfZXh0cmFjdAogICAgZHVwCiAgICBidG9pCiAgICBkaWcgNQogICAgKgogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6OTgtMTA0CiAgICAvLyBhc3NlcnRNYXRjaChwYXltZW50LCB7CiAgICAvLyAgIGFtb3VudDogc2hhcmVzICogcHJvcGVydHkucHJpY2VQZXJTaGFyZS5hc1VpbnQ2NCgpLAogICAgLy8gICByZWNlaXZlcjogR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MsCiAgICAvLyAgIHNlbmRlcjogVHhuLnNlbmRlciwKICAgIC8vICAgY2xvc2VSZW1haW5kZXJUbzogR2xvYmFsLnplcm9BZGRyZXNzLAogICAgLy8gICByZWtleVRvOiBHbG9iYWwuemVyb0FkZHJlc3MsCiAgICAvLyB9LCAnSW52YWxpZCBwYXltZW50IHRyYW5zYWN0aW9uJykKICAgIGRpZyAyCiAgICA9PQogICAgZGlnIDQKICAgIGd0eG5zIFJlY2VpdmVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMDAKICAgIC8vIHJlY2VpdmVyOiBHbG9iYWwuY3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcywKICAgIGdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo5OC0xMDQKICAgIC8vIGFzc2VydE1hdGNoKHBheW1lbnQsIHsKICAgIC8vICAgYW1vdW50OiBzaGFyZXMgKiBwcm9wZXJ0eS5wcmljZVBlclNoYXJlLmFzVWludDY0KCksCiAgICAvLyAgIHJlY2VpdmVyOiBHbG9iYWwuY3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcywKICAgIC8vICAgc2VuZGVyOiBUeG4uc2VuZGVyLAogICAgLy8gICBjbG9zZVJlbWFpbmRlclRvOiBHbG9iYWwuemVyb0FkZHJlc3MsCiAgICAvLyAgIHJla2V5VG86IEdsb2JhbC56ZXJvQWRkcmVzcywKICAgIC8vIH0sICdJbnZhbGlkIHBheW1lbnQgdHJhbnNhY3Rpb24nKQogICAgPT0KICAgICYmCiAgICBkaWcgNAogICAgZ3R4bnMgU2VuZGVyCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMDEKICAgIC8vIHNlbmRlcjogVHhuLnNlbmRlciwKICAgIHR4biBTZW5kZXIKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjk4LTEwNAogICAgLy8gYXNzZXJ0TWF0Y2gocGF5bWVudCwgewogICAgLy8gICBhbW91bnQ6IHNoYXJlcyAqIHByb3BlcnR5LnByaWNlUGVyU2hhcmUuYXNVaW50NjQoKSwKICAgIC8vICAgcmVjZWl2ZXI6IEdsb2JhbC5jdXJyZW50QXBwbGljYXRpb25BZGRyZXNzLAogICAgLy8gICBzZW5kZXI6IFR4bi5zZW5kZXIsCiAgICAvLyAgIGNsb3NlUmVtYWluZGVyVG86IEdsb2JhbC56ZXJvQWRkcmVzcywKICAgIC8vICAgcmVrZXlUbzogR2xvYmFsLnplcm9BZGRyZXNzLAogICAgLy8gfSwgJ0ludmFsaWQgcGF5bWVudCB0cmFuc2FjdGlvbicpCiAgICA9PQogICAgJiYKICAgIGRpZyA0CiAgICBndHhucyBDbG9zZVJlbWFpbmRlclRvCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMDIKICAgIC8vIGNsb3NlUmVtYWluZGVyVG86IEdsb2JhbC56ZXJvQWRkcmVzcywKICAgIGdsb2JhbCBaZXJvQWRkcmVzcwogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6OTgtMTA0CiAgICAvLyBhc3NlcnRNYXRjaChwYXltZW50LCB7CiAgICAvLyAgIGFtb3VudDogc2hhcmVzICogcHJvcGVydHkucHJpY2VQZXJTaGFyZS5hc1VpbnQ2NCgpLAogICAgLy8gICByZWNlaXZlcjogR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MsCiAgICAvLyAgIHNlbmRlcjogVHhuLnNlbmRlciwKICAgIC8vICAgY2xvc2VSZW1haW5kZXJUbzogR2xvYmFsLnplcm9BZGRyZXNzLAogICAgLy8gICByZWtleVRvOiBHbG9iYWwuemVyb0FkZHJlc3MsCiAgICAvLyB9LCAnSW52YWxpZCBwYXltZW50IHRyYW5zYWN0aW9uJykKICAgID09CiAgICAmJgogICAgdW5jb3ZlciA0CiAgICBndHhucyBSZWtleVRvCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMDMKICAgIC8vIHJla2V5VG86IEdsb2JhbC56ZXJvQWRkcmVzcywKICAgIGdsb2JhbCBaZXJvQWRkcmVzcwogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6OTgtMTA0CiAgICAvLyBhc3NlcnRNYXRjaChwYXltZW50LCB7CiAgICAvLyAgIGFtb3VudDogc2hhcmVzICogcHJvcGVydHkucHJpY2VQZXJTaGFyZS5hc1VpbnQ2NCgpLAogICAgLy8gICByZWNlaXZlcjogR2xvYmFsLmN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MsCiAgICAvLyAgIHNlbmRlcjogVHhuLnNlbmRlciwKICAgIC8vICAgY2xvc2VSZW1haW5kZXJUbzogR2xvYmFsLnplcm9BZGRyZXNzLAogICAgLy8gICByZWtleVRvOiBHbG9iYWwuemVyb0FkZHJlc3MsCiAgICAvLyB9LCAnSW52YWxpZCBwYXltZW50IHRyYW5zYWN0aW9uJykKICAgID09CiAgICAmJgogICAgYXNzZXJ0IC8vIEludmFsaWQgcGF5bWVudCB0cmFuc2FjdGlvbgogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTA1CiAgICAvLyBhc3NlcnQoc2hhcmVzIDw9IHByb3BlcnR5LmF2YWlsYWJsZVNoYXJlcy5hc1VpbnQ2NCgpLCAnTm90IGVub3VnaCBzaGFyZXMnKQogICAgZGlnIDIKICAgIHB1c2hpbnQgMTAgLy8gMTAKICAgIGludGNfMCAvLyA4CiAgICBib3hfZXh0cmFjdAogICAgYnRvaQogICAgZGlnIDQKICAgIGRpZyAxCiAgICA8PQogICAgYXNzZXJ0IC8vIE5vdCBlbm91Z2ggc2hhcmVzCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMDgKICAgIC8vIGNvbnN0IGFzc2V0ID0gQXNzZXQocHJvcGVydHkucHJvcGVydHlBc3NldElkLmFzVWludDY0KCkpCiAgICBkaWcgMwogICAgcHVzaGludCAyNiAvLyAyNgogICAgaW50Y18wIC8vIDgKICAgIGJveF9leHRyYWN0CiAgICBkdXAKICAgIGJ0b2kKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjEwOS0xMjEKICAgIC8vIGl0eG4uc3VibWl0R3JvdXAoCiAgICAvLyAgIGl0eG4uYXNzZXRUcmFuc2Zlcih7CiAgICAvLyAgICAgeGZlckFzc2V0OiBhc3NldCwKICAgIC8vICAgICBhc3NldFJlY2VpdmVyOiBUeG4uc2VuZGVyLAogICAgLy8gICAgIGFzc2V0QW1vdW50OiBzaGFyZXMsCiAgICAvLyAgICAgZmVlOiAwLAogICAgLy8gICB9KSwKICAgIC8vICAgaXR4bi5wYXltZW50KHsKICAgIC8vICAgICBhbW91bnQ6IHBheW1lbnQuYW1vdW50LAogICAgLy8gICAgIHJlY2VpdmVyOiBwcm9wZXJ0eS5vd25lckFkZHJlc3MuYnl0ZXMsCiAgICAvLyAgICAgZmVlOiAwLAogICAgLy8gICB9KSwKICAgIC8vICkKICAgIGl0eG5fYmVnaW4KICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjExMgogICAgLy8gYXNzZXRSZWNlaXZlcjogVHhuLnNlbmRlciwKICAgIHR4biBTZW5kZXIKICAgIGRpZyA3CiAgICBpdHhuX2ZpZWxkIEFzc2V0QW1vdW50CiAgICBpdHhuX2ZpZWxkIEFzc2V0UmVjZWl2ZXIKICAgIGl0eG5fZmllbGQgWGZlckFzc2V0CiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMTAtMTE1CiAgICAvLyBpdHhuLmFzc2V0VHJhbnNmZXIoewogICAgLy8gICB4ZmVyQXNzZXQ6IGFzc2V0LAogICAgLy8gICBhc3NldFJlY2VpdmVyOiBUeG4uc2VuZGVyLAogICAgLy8gICBhc3NldEFtb3VudDogc2hhcmVzLAogICAgLy8gICBmZWU6IDAsCiAgICAvLyB9KSwKICAgIHB1c2hpbnQgNCAvLyA0CiAgICBpdHhuX2ZpZWxkIFR5cGVFbnVtCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMTQKICAgIC8vIGZlZTogMCwKICAgIGludGNfMiAvLyAwCiAgICBpdHhuX2ZpZWxkIEZlZQogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTE2LTEyMAogICAgLy8gaXR4bi5wYXltZW50KHsKICAgIC8vICAgYW1vdW50OiBwYXltZW50LmFtb3VudCwKICAgIC8vICAgcmVjZWl2ZXI6IHByb3BlcnR5Lm93bmVyQWRkcmVzcy5ieXRlcywKICAgIC8vICAgZmVlOiAwLAogICAgLy8gfSksCiAgICBpdHhuX25leHQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjExOAogICAgLy8gcmVjZWl2ZXI6IHByb3BlcnR5Lm93bmVyQWRkcmVzcy5ieXRlcywKICAgIGRpZyA0CiAgICBwdXNoaW50IDM0IC8vIDM0CiAgICBpbnRjXzMgLy8gMzIKICAgIGJveF9leHRyYWN0CiAgICBkdXAKICAgIGl0eG5fZmllbGQgUmVjZWl2ZXIKICAgIHVuY292ZXIgNAogICAgaXR4bl9maWVsZCBBbW91bnQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjExNi0xMjAKICAgIC8vIGl0eG4ucGF5bWVudCh7CiAgICAvLyAgIGFtb3VudDogcGF5bWVudC5hbW91bnQsCiAgICAvLyAgIHJlY2VpdmVyOiBwcm9wZXJ0eS5vd25lckFkZHJlc3MuYnl0ZXMsCiAgICAvLyAgIGZlZTogMCwKICAgIC8vIH0pLAogICAgaW50Y18xIC8vIDEKICAgIGl0eG5fZmllbGQgVHlwZUVudW0KICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjExOQogICAgLy8gZmVlOiAwLAogICAgaW50Y18yIC8vIDAKICAgIGl0eG5fZmllbGQgRmVlCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxMDktMTIxCiAgICAvLyBpdHhuLnN1Ym1pdEdyb3VwKAogICAgLy8gICBpdHhuLmFzc2V0VHJhbnNmZXIoewogICAgLy8gICAgIHhmZXJBc3NldDogYXNzZXQsCiAgICAvLyAgICAgYXNzZXRSZWNlaXZlcjogVHhuLnNlbmRlciwKICAgIC8vICAgICBhc3NldEFtb3VudDogc2hhcmVzLAogICAgLy8gICAgIGZlZTogMCwKICAgIC8vICAgfSksCiAgICAvLyAgIGl0eG4ucGF5bWVudCh7CiAgICAvLyAgICAgYW1vdW50OiBwYXltZW50LmFtb3VudCwKICAgIC8vICAgICByZWNlaXZlcjogcHJvcGVydHkub3duZXJBZGRyZXNzLmJ5dGVzLAogICAgLy8gICAgIGZlZTogMCwKICAgIC8vICAgfSksCiAgICAvLyApCiAgICBpdHhuX3N1Ym1pdAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTIzCiAgICAvLyB0aGlzLnVwZGF0ZUF2YWlsYWJsZVNoYXJlcyhwcm9wZXJ0eUlkLCBwcm9wZXJ0eS5hdmFpbGFibGVTaGFyZXMuYXNVaW50NjQoKSAtIHNoYXJlcykKICAgIHVuY292ZXIgMgogICAgdW5jb3ZlciA1CiAgICAtCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxNDcKICAgIC8vIGNvbnN0IHByb3BlcnR5U3RydWN0ID0gY2xvbmUodGhpcy5saXN0ZWRQcm9wZXJ0aWVzKHByb3BlcnR5SWQpLnZhbHVlKQogICAgZGlnIDQKICAgIGJveF9nZXQKICAgIHBvcAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTQ5CiAgICAvLyAuLi5wcm9wZXJ0eVN0cnVjdCwKICAgIGR1cAogICAgaW50Y18yIC8vIDAKICAgIGV4dHJhY3RfdWludDE2CiAgICBkaWcgMQogICAgbGVuCiAgICBzdWJzdHJpbmczCiAgICBkaWcgNQogICAgcHVzaGludCAyIC8vIDIKICAgIGludGNfMCAvLyA4CiAgICBib3hfZXh0cmFjdAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTUwCiAgICAvLyBhdmFpbGFibGVTaGFyZXM6IG5ldyBhcmM0LlVpbnQ2NChuZXdBdmFpbGFibGVTaGFyZXMpLAogICAgdW5jb3ZlciAyCiAgICBpdG9iCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxNDgtMTUxCiAgICAvLyBjb25zdCB1cGRhdGVkU3RydWN0ID0gbmV3IFByb3BlcnR5U3RydWN0KHsKICAgIC8vICAgLi4ucHJvcGVydHlTdHJ1Y3QsCiAgICAvLyAgIGF2YWlsYWJsZVNoYXJlczogbmV3IGFyYzQuVWludDY0KG5ld0F2YWlsYWJsZVNoYXJlcyksCiAgICAvLyB9KQogICAgYnl0ZWNfMSAvLyAweDAwNDIKICAgIHVuY292ZXIgMgogICAgY29uY2F0CiAgICBzd2FwCiAgICBjb25jYXQKICAgIHVuY292ZXIgNAogICAgY29uY2F0CiAgICB1bmNvdmVyIDMKICAgIGNvbmNhdAogICAgdW5jb3ZlciAyCiAgICBjb25jYXQKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTUzCiAgICAvLyB0aGlzLmxpc3RlZFByb3BlcnRpZXMocHJvcGVydHlJZCkudmFsdWUgPSBjbG9uZSh1cGRhdGVkU3RydWN0KQogICAgZGlnIDEKICAgIGJveF9kZWwKICAgIHBvcAogICAgYm94X3B1dAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6OTIKICAgIC8vIHB1YmxpYyBwdXJjaGFzZUZyb21MaXN0ZXIocHJvcGVydHlJZDogdWludDY0LCBzaGFyZXM6IHVpbnQ2NCwgcGF5bWVudDogZ3R4bi5QYXltZW50VHhuKTogYm9vbGVhbiB7CiAgICBwdXNoYnl0ZXMgMHgxNTFmN2M3NTgwCiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4KCgovLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czo6RnJhY3Rpb25hbFJlYWxFc3RhdGUuZGVsaXN0UHJvcGVydHlbcm91dGluZ10oKSAtPiB2b2lkOgpkZWxpc3RQcm9wZXJ0eToKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjEzMAogICAgLy8gcHVibGljIGRlbGlzdFByb3BlcnR5KHByb3BlcnR5SWQ6IHVpbnQ2NCk6IHZvaWQgewogICAgdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQogICAgZHVwCiAgICBsZW4KICAgIGludGNfMCAvLyA4CiAgICA9PQogICAgYXNzZXJ0IC8vIGludmFsaWQgbnVtYmVyIG9mIGJ5dGVzIGZvciBhcmM0LnVpbnQ2NAogICAgYnRvaQogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTMxCiAgICAvLyBhc3NlcnQodGhpcy5saXN0ZWRQcm9wZXJ0aWVzKHByb3BlcnR5SWQpLmV4aXN0cywgJ1Byb3BlcnR5IG5vdCBsaXN0ZWQnKQogICAgaXRvYgogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MjgKICAgIC8vIHB1YmxpYyBsaXN0ZWRQcm9wZXJ0aWVzID0gQm94TWFwPHVpbnQ2NCwgUHJvcGVydHlTdHJ1Y3Q+KHsga2V5UHJlZml4OiAncHJvcGVydGllcycgfSkKICAgIGJ5dGVjXzAgLy8gInByb3BlcnRpZXMiCiAgICBzd2FwCiAgICBjb25jYXQKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjEzMQogICAgLy8gYXNzZXJ0KHRoaXMubGlzdGVkUHJvcGVydGllcyhwcm9wZXJ0eUlkKS5leGlzdHMsICdQcm9wZXJ0eSBub3QgbGlzdGVkJykKICAgIGR1cAogICAgYm94X2xlbgogICAgYnVyeSAxCiAgICBhc3NlcnQgLy8gUHJvcGVydHkgbm90IGxpc3RlZAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTM1CiAgICAvLyBhc3NlcnQoVHhuLnNlbmRlciA9PT0gcHJvcGVydHkub3duZXJBZGRyZXNzLm5hdGl2ZSwgJ09ubHkgdGhlIG93bmVyIGNhbiBkZWxpc3QnKQogICAgdHhuIFNlbmRlcgogICAgZGlnIDEKICAgIHB1c2hpbnQgMzQgLy8gMzQKICAgIGludGNfMyAvLyAzMgogICAgYm94X2V4dHJhY3QKICAgID09CiAgICBhc3NlcnQgLy8gT25seSB0aGUgb3duZXIgY2FuIGRlbGlzdAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTM3CiAgICAvLyBwcm9wZXJ0eS5hdmFpbGFibGVTaGFyZXMuYXNVaW50NjQoKSA9PT0gcHJvcGVydHkudG90YWxTaGFyZXMuYXNVaW50NjQoKSwKICAgIGR1cAogICAgcHVzaGludCAxMCAvLyAxMAogICAgaW50Y18wIC8vIDgKICAgIGJveF9leHRyYWN0CiAgICBidG9pCiAgICBkaWcgMQogICAgcHVzaGludCAyIC8vIDIKICAgIGludGNfMCAvLyA4CiAgICBib3hfZXh0cmFjdAogICAgYnRvaQogICAgPT0KICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjEzNi0xMzkKICAgIC8vIGFzc2VydCgKICAgIC8vICAgcHJvcGVydHkuYXZhaWxhYmxlU2hhcmVzLmFzVWludDY0KCkgPT09IHByb3BlcnR5LnRvdGFsU2hhcmVzLmFzVWludDY0KCksCiAgICAvLyAgICdDYW5ub3QgZGVsaXN0IHByb3BlcnR5IHdpdGggc29sZCBzaGFyZXMnLAogICAgLy8gKQogICAgYXNzZXJ0IC8vIENhbm5vdCBkZWxpc3QgcHJvcGVydHkgd2l0aCBzb2xkIHNoYXJlcwogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTQxCiAgICAvLyB0aGlzLmxpc3RlZFByb3BlcnRpZXMocHJvcGVydHlJZCkuZGVsZXRlKCkKICAgIGJveF9kZWwKICAgIHBvcAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTMwCiAgICAvLyBwdWJsaWMgZGVsaXN0UHJvcGVydHkocHJvcGVydHlJZDogdWludDY0KTogdm9pZCB7CiAgICBpbnRjXzEgLy8gMQogICAgcmV0dXJuCgoKLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6OkZyYWN0aW9uYWxSZWFsRXN0YXRlLmdldFByb3BlcnR5SW5mb1tyb3V0aW5nXSgpIC0+IHZvaWQ6CmdldFByb3BlcnR5SW5mbzoKICAgIC8vIHNtYXJ0X2NvbnRyYWN0cy9GcmFjdGlvbmFsUmVhbEVzdGF0ZS9jb250cmFjdC5hbGdvLnRzOjE1NgogICAgLy8gQGFiaW1ldGhvZCh7IHJlYWRvbmx5OiB0cnVlIH0pCiAgICB0eG5hIEFwcGxpY2F0aW9uQXJncyAxCiAgICBkdXAKICAgIGxlbgogICAgaW50Y18wIC8vIDgKICAgID09CiAgICBhc3NlcnQgLy8gaW52YWxpZCBudW1iZXIgb2YgYnl0ZXMgZm9yIGFyYzQudWludDY0CiAgICBidG9pCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxNTgKICAgIC8vIGFzc2VydCh0aGlzLmxpc3RlZFByb3BlcnRpZXMocHJvcGVydHlJZCkuZXhpc3RzLCAnUHJvcGVydHkgbm90IGxpc3RlZCcpCiAgICBpdG9iCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoyOAogICAgLy8gcHVibGljIGxpc3RlZFByb3BlcnRpZXMgPSBCb3hNYXA8dWludDY0LCBQcm9wZXJ0eVN0cnVjdD4oeyBrZXlQcmVmaXg6ICdwcm9wZXJ0aWVzJyB9KQogICAgYnl0ZWNfMCAvLyAicHJvcGVydGllcyIKICAgIHN3YXAKICAgIGNvbmNhdAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTU4CiAgICAvLyBhc3NlcnQodGhpcy5saXN0ZWRQcm9wZXJ0aWVzKHByb3BlcnR5SWQpLmV4aXN0cywgJ1Byb3BlcnR5IG5vdCBsaXN0ZWQnKQogICAgZHVwCiAgICBib3hfbGVuCiAgICBidXJ5IDEKICAgIGFzc2VydCAvLyBQcm9wZXJ0eSBub3QgbGlzdGVkCiAgICAvLyBzbWFydF9jb250cmFjdHMvRnJhY3Rpb25hbFJlYWxFc3RhdGUvY29udHJhY3QuYWxnby50czoxNTkKICAgIC8vIHJldHVybiB0aGlzLmxpc3RlZFByb3BlcnRpZXMocHJvcGVydHlJZCkudmFsdWUKICAgIGJveF9nZXQKICAgIHBvcAogICAgLy8gc21hcnRfY29udHJhY3RzL0ZyYWN0aW9uYWxSZWFsRXN0YXRlL2NvbnRyYWN0LmFsZ28udHM6MTU2CiAgICAvLyBAYWJpbWV0aG9kKHsgcmVhZG9ubHk6IHRydWUgfSkKICAgIGJ5dGVjXzIgLy8gMHgxNTFmN2M3NQogICAgc3dhcAogICAgY29uY2F0CiAgICBsb2cKICAgIGludGNfMSAvLyAxCiAgICByZXR1cm4K","clear":"I3ByYWdtYSB2ZXJzaW9uIDExCiNwcmFnbWEgdHlwZXRyYWNrIGZhbHNlCgovLyBAYWxnb3JhbmRmb3VuZGF0aW9uL2FsZ29yYW5kLXR5cGVzY3JpcHQvYmFzZS1jb250cmFjdC5kLnRzOjpCYXNlQ29udHJhY3QuY2xlYXJTdGF0ZVByb2dyYW0oKSAtPiB1aW50NjQ6Cm1haW46CiAgICBwdXNoaW50IDEgLy8gMQogICAgcmV0dXJuCg=="},"byteCode":{"approval":"CyAECAEAICYDCnByb3BlcnRpZXMCAEIEFR98dTEbQQArMRkURDEYRIIEBDMdrFQECj3lHAQ7njlFBPPOUYQ2GgCOBAALAMUBlwHGADEZFDEYFBBEI0MxFiMJSTgQIxJENhoBSSRZgQIISwEVEkRJVwIANhoCSRUiEkRJFzYaA0kVIhJESRdLAkRESwMVgVZLAQiBkAMLgcQTCEsHOAgOREsGOAcyChJETwY4ADEAEkSxJEsBDyRLAk8CTSVLAg8lTwNPAk1PBU4CUjIKSbIqsikksiNPArIigARQUk9QsiWyJoEDshAksgGztDwWMQApSwRQTwRQTwNQSwJQTFBPAlAoSwJQSbxITL8qTFCwI0M2GgFJFSISRBc2GgJJFSISRBcxFiMJSTgQIxJESwFETwIWKExQSb1FAURLATgISwGBEiK6SRdLBQtLAhJLBDgHMgoSEEsEOAAxABIQSwQ4CTIDEhBPBDggMgMSEERLAoEKIroXSwRLAQ5ESwOBGiK6SRexMQBLB7ISshSyEYEEshAksgG2SwSBIiW6SbIHTwSyCCOyECSyAbNPAk8FCUsEvkhJJFlLARVSSwWBAiK6TwIWKU8CUExQTwRQTwNQTwJQTFBLAbxIv4AFFR98dYCwI0M2GgFJFSISRBcWKExQSb1FAUQxAEsBgSIluhJESYEKIroXSwGBAiK6FxJEvEgjQzYaAUkVIhJEFxYoTFBJvUUBRL5IKkxQsCND","clear":"C4EBQw=="},"events":[{"name":"PropertyListed","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"owner"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"pricePerShare"},{"type":"uint64","name":"availableShares"}]},{"name":"SharesPurchased","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"buyer"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"amount"},{"type":"uint64","name":"availableShares"}]},{"name":"PropertyDelisted","args":[{"type":"uint64","name":"propertyId"},{"type":"address","name":"owner"},{"type":"uint64","name":"shares"},{"type":"uint64","name":"availableShares"}]}],"templateVariables":{}} as unknown as Arc56Contract
 
 /**
  * A state record containing binary data
@@ -64,836 +64,8214 @@ export type Expand<T> = T extends (...args: infer A) => infer R
 
 // Type definitions for ARC-56 structs
 
+export type SaleWindowStruct = {
+  start: bigint,
+  end: bigint,
+  floorPrice: bigint
+}
+
+
+/**
+ * Converts the ABI tuple representation of a SaleWindowStruct to the struct representation
+ */
+export function SaleWindowStructFromTuple(abiTuple: [bigint, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.SaleWindowStruct, APP_SPEC.structs) as SaleWindowStruct
+}
+
+export type PriceTierStruct = {
+  shareLimit: bigint,
+  endTime: bigint,
+  pricePerShare: bigint
+}
+
+
+/**
+ * Converts the ABI tuple representation of a PriceTierStruct to the struct representation
+ */
+export function PriceTierStructFromTuple(abiTuple: [bigint, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.PriceTierStruct, APP_SPEC.structs) as PriceTierStruct
+}
+
+export type ReservationPolicyStruct = {
+  rounds: bigint,
+  depositBps: bigint,
+  forfeitDeposit: boolean
+}
+
+
+/**
+ * Converts the ABI tuple representation of a ReservationPolicyStruct to the struct representation
+ */
+export function ReservationPolicyStructFromTuple(abiTuple: [bigint, bigint, boolean]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.ReservationPolicyStruct, APP_SPEC.structs) as ReservationPolicyStruct
+}
+
+export type LockupStruct = {
+  lockedShares: bigint,
+  unlockRound: bigint
+}
+
+
+/**
+ * Converts the ABI tuple representation of a LockupStruct to the struct representation
+ */
+export function LockupStructFromTuple(abiTuple: [bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.LockupStruct, APP_SPEC.structs) as LockupStruct
+}
+
+export type PlatformFeeStruct = {
+  feeBps: bigint,
+  treasury: string
+}
+
+
+/**
+ * Converts the ABI tuple representation of a PlatformFeeStruct to the struct representation
+ */
+export function PlatformFeeStructFromTuple(abiTuple: [bigint, string]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.PlatformFeeStruct, APP_SPEC.structs) as PlatformFeeStruct
+}
+
 export type PropertyStruct = {
   address: string,
   totalShares: bigint,
   availableShares: bigint,
   pricePerShare: bigint,
   propertyAssetId: bigint,
-  ownerAddress: string
+  ownerAddress: string,
+  incomePerShare: bigint,
+  undistributedIncome: bigint,
+  incomeShares: bigint,
+  primarySaleOpen: boolean,
+  fundingGoal: bigint,
+  fundingDeadline: bigint,
+  sharesSold: bigint,
+  escrowedFunds: bigint,
+  paymentAssetId: bigint,
+  unitName: string,
+  metadataUrl: string,
+  metadataHash: Uint8Array,
+  maxSharesPerAccount: bigint,
+  minPurchase: bigint,
+  lockupRounds: bigint,
+  saleStart: bigint,
+  saleEnd: bigint,
+  auctionFloor: bigint,
+  reservedShares: bigint,
+  reservationRounds: bigint,
+  reservationDepositBps: bigint,
+  forfeitDeposit: boolean,
+  referralBps: bigint
 }
 
 
 /**
  * Converts the ABI tuple representation of a PropertyStruct to the struct representation
  */
-export function PropertyStructFromTuple(abiTuple: [string, bigint, bigint, bigint, bigint, string]) {
+export function PropertyStructFromTuple(abiTuple: [string, bigint, bigint, bigint, bigint, string, bigint, bigint, bigint, boolean, bigint, bigint, bigint, bigint, bigint, string, string, Uint8Array, bigint, bigint, bigint, bigint, bigint, bigint, bigint, bigint, bigint, boolean, bigint]) {
   return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.PropertyStruct, APP_SPEC.structs) as PropertyStruct
 }
 
-/**
- * The argument types for the FractionalRealEstate contract
- */
-export type FractionalRealEstateArgs = {
-  /**
-   * The object representation of the arguments for each method
-   */
-  obj: {
-    'createPropertyListing(pay,string,uint64,uint64)uint64': {
-      /**
-       * Covers the Minimum Balance Requirement for box storage
-       */
-      mbrPayment: AppMethodCallTransactionArgument
-      propertyAddress: string
-      shares: bigint | number
-      pricePerShare: bigint | number
-    }
-    'purchaseFromLister(uint64,uint64,pay)bool': {
-      propertyId: bigint | number
-      shares: bigint | number
-      payment: AppMethodCallTransactionArgument
-    }
-    'delistProperty(uint64)void': {
-      propertyId: bigint | number
-    }
-    'getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)': {
-      propertyId: bigint | number
-    }
-  }
-  /**
-   * The tuple representation of the arguments for each method
-   */
-  tuple: {
-    'createPropertyListing(pay,string,uint64,uint64)uint64': [mbrPayment: AppMethodCallTransactionArgument, propertyAddress: string, shares: bigint | number, pricePerShare: bigint | number]
-    'purchaseFromLister(uint64,uint64,pay)bool': [propertyId: bigint | number, shares: bigint | number, payment: AppMethodCallTransactionArgument]
-    'delistProperty(uint64)void': [propertyId: bigint | number]
-    'getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)': [propertyId: bigint | number]
-  }
+export type MarketStatsStruct = {
+  listingCount: bigint,
+  totalSharesSold: bigint,
+  totalVolume: bigint
 }
 
+
 /**
- * The return type for each method
+ * Converts the ABI tuple representation of a MarketStatsStruct to the struct representation
  */
-export type FractionalRealEstateReturns = {
-  'createPropertyListing(pay,string,uint64,uint64)uint64': bigint
-  'purchaseFromLister(uint64,uint64,pay)bool': boolean
-  'delistProperty(uint64)void': void
-  'getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)': PropertyStruct
+export function MarketStatsStructFromTuple(abiTuple: [bigint, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.MarketStatsStruct, APP_SPEC.structs) as MarketStatsStruct
+}
+
+export type SellOrderStruct = {
+  propertyId: bigint,
+  seller: string,
+  shares: bigint,
+  pricePerShare: bigint
 }
 
+
 /**
- * Defines the types of available calls and state of the FractionalRealEstate smart contract.
+ * Converts the ABI tuple representation of a SellOrderStruct to the struct representation
  */
-export type FractionalRealEstateTypes = {
-  /**
-   * Maps method signatures / names to their argument and return types.
-   */
-  methods:
-    & Record<'createPropertyListing(pay,string,uint64,uint64)uint64' | 'createPropertyListing', {
-      argsObj: FractionalRealEstateArgs['obj']['createPropertyListing(pay,string,uint64,uint64)uint64']
-      argsTuple: FractionalRealEstateArgs['tuple']['createPropertyListing(pay,string,uint64,uint64)uint64']
-      returns: FractionalRealEstateReturns['createPropertyListing(pay,string,uint64,uint64)uint64']
-    }>
-    & Record<'purchaseFromLister(uint64,uint64,pay)bool' | 'purchaseFromLister', {
-      argsObj: FractionalRealEstateArgs['obj']['purchaseFromLister(uint64,uint64,pay)bool']
-      argsTuple: FractionalRealEstateArgs['tuple']['purchaseFromLister(uint64,uint64,pay)bool']
-      returns: FractionalRealEstateReturns['purchaseFromLister(uint64,uint64,pay)bool']
-    }>
-    & Record<'delistProperty(uint64)void' | 'delistProperty', {
-      argsObj: FractionalRealEstateArgs['obj']['delistProperty(uint64)void']
-      argsTuple: FractionalRealEstateArgs['tuple']['delistProperty(uint64)void']
-      returns: FractionalRealEstateReturns['delistProperty(uint64)void']
-    }>
-    & Record<'getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)' | 'getPropertyInfo', {
-      argsObj: FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)']
-      argsTuple: FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)']
-      returns: FractionalRealEstateReturns['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)']
-    }>
-  /**
-   * Defines the shape of the state of the application.
-   */
-  state: {
-    box: {
-      keys: {}
-      maps: {
-        listedProperties: Map<bigint | number, PropertyStruct>
-      }
-    }
-  }
+export function SellOrderStructFromTuple(abiTuple: [bigint, string, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.SellOrderStruct, APP_SPEC.structs) as SellOrderStruct
+}
+
+export type ProposalStruct = {
+  propertyId: bigint,
+  proposer: string,
+  description: string,
+  deadlineRound: bigint,
+  quorumShares: bigint,
+  votesFor: bigint,
+  votesAgainst: bigint,
+  lockedShares: bigint,
+  status: number
 }
 
+
 /**
- * Defines the possible abi call signatures.
+ * Converts the ABI tuple representation of a ProposalStruct to the struct representation
  */
-export type FractionalRealEstateSignatures = keyof FractionalRealEstateTypes['methods']
+export function ProposalStructFromTuple(abiTuple: [bigint, string, string, bigint, bigint, bigint, bigint, bigint, number]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.ProposalStruct, APP_SPEC.structs) as ProposalStruct
+}
+
+export type BuyoutStruct = {
+  propertyId: bigint,
+  bidder: string,
+  amount: bigint,
+  deadlineRound: bigint,
+  votesFor: bigint,
+  votesAgainst: bigint,
+  lockedShares: bigint,
+  redeemedShares: bigint,
+  status: number
+}
+
+
 /**
- * Defines the possible abi call signatures for methods that return a non-void value.
+ * Converts the ABI tuple representation of a BuyoutStruct to the struct representation
  */
-export type FractionalRealEstateNonVoidMethodSignatures = keyof FractionalRealEstateTypes['methods'] extends infer T ? T extends keyof FractionalRealEstateTypes['methods'] ? MethodReturn<T> extends void ? never : T  : never : never
+export function BuyoutStructFromTuple(abiTuple: [bigint, string, bigint, bigint, bigint, bigint, bigint, bigint, number]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.BuyoutStruct, APP_SPEC.structs) as BuyoutStruct
+}
+
+export type ReservationStruct = {
+  shares: bigint,
+  cost: bigint,
+  deposit: bigint,
+  expiresRound: bigint
+}
+
+
 /**
- * Defines an object containing all relevant parameters for a single call to the contract.
+ * Converts the ABI tuple representation of a ReservationStruct to the struct representation
  */
-export type CallParams<TArgs> = Expand<
-  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> &
-    {
-      /** The args for the ABI method call, either as an ordered array or an object */
-      args: Expand<TArgs>
-    }
->
+export function ReservationStructFromTuple(abiTuple: [bigint, bigint, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.ReservationStruct, APP_SPEC.structs) as ReservationStruct
+}
+
+export type ValuationStruct = {
+  totalValue: bigint,
+  timestamp: bigint,
+  documentHash: Uint8Array
+}
+
+
 /**
- * Maps a method signature from the FractionalRealEstate smart contract to the method's arguments in either tuple or struct form
+ * Converts the ABI tuple representation of a ValuationStruct to the struct representation
  */
-export type MethodArgs<TSignature extends FractionalRealEstateSignatures> = FractionalRealEstateTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+export function ValuationStructFromTuple(abiTuple: [bigint, bigint, Uint8Array]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.ValuationStruct, APP_SPEC.structs) as ValuationStruct
+}
+
+export type IncomeClaimStruct = {
+  checkpoint: bigint,
+  owed: bigint,
+  shares: bigint
+}
+
+
 /**
- * Maps a method signature from the FractionalRealEstate smart contract to the method's return type
+ * Converts the ABI tuple representation of a IncomeClaimStruct to the struct representation
  */
-export type MethodReturn<TSignature extends FractionalRealEstateSignatures> = FractionalRealEstateTypes['methods'][TSignature]['returns']
+export function IncomeClaimStructFromTuple(abiTuple: [bigint, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.IncomeClaimStruct, APP_SPEC.structs) as IncomeClaimStruct
+}
+
+export type HolderKey = {
+  propertyId: bigint,
+  holder: string
+}
+
 
 /**
- * Defines the shape of the keyed box state of the application.
+ * Converts the ABI tuple representation of a HolderKey to the struct representation
  */
-export type BoxKeysState = FractionalRealEstateTypes['state']['box']['keys']
+export function HolderKeyFromTuple(abiTuple: [bigint, string]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.HolderKey, APP_SPEC.structs) as HolderKey
+}
+
+export type VoteStruct = {
+  shares: bigint,
+  support: boolean
+}
 
 
 /**
- * Defines supported create method params for this smart contract
+ * Converts the ABI tuple representation of a VoteStruct to the struct representation
  */
-export type FractionalRealEstateCreateCallParams =
-  | Expand<AppClientBareCallParams & {method?: never} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+export function VoteStructFromTuple(abiTuple: [bigint, boolean]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.VoteStruct, APP_SPEC.structs) as VoteStruct
+}
+
+export type VoteKey = {
+  proposalId: bigint,
+  voter: string
+}
+
+
 /**
- * Defines arguments required for the deploy method.
+ * Converts the ABI tuple representation of a VoteKey to the struct representation
  */
-export type FractionalRealEstateDeployParams = Expand<Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
-  /**
-   * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
-   */
-  createParams?: FractionalRealEstateCreateCallParams
-}>
+export function VoteKeyFromTuple(abiTuple: [bigint, string]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.VoteKey, APP_SPEC.structs) as VoteKey
+}
+
+export type BuyoutVoteKey = {
+  buyoutId: bigint,
+  voter: string
+}
 
 
 /**
- * Exposes methods for constructing `AppClient` params objects for ABI calls to the FractionalRealEstate smart contract
+ * Converts the ABI tuple representation of a BuyoutVoteKey to the struct representation
  */
-export abstract class FractionalRealEstateParamsFactory {
-  /**
-   * Constructs a no op call for the createPropertyListing(pay,string,uint64,uint64)uint64 ABI method
-   *
-  * List a new property for fractional ownership. Creates an ASA representing shares
-  and stores property details in a BoxMap.
+export function BuyoutVoteKeyFromTuple(abiTuple: [bigint, string]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.BuyoutVoteKey, APP_SPEC.structs) as BuyoutVoteKey
+}
 
-   *
-   * @param params Parameters for the call
-   * @returns An `AppClientMethodCallParams` object for the call
-   */
-  static createPropertyListing(params: CallParams<FractionalRealEstateArgs['obj']['createPropertyListing(pay,string,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createPropertyListing(pay,string,uint64,uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
-    return {
-      ...params,
-      method: 'createPropertyListing(pay,string,uint64,uint64)uint64' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.propertyAddress, params.args.shares, params.args.pricePerShare],
-    }
-  }
-  /**
-   * Constructs a no op call for the purchaseFromLister(uint64,uint64,pay)bool ABI method
-   *
-   * Purchase shares from the original lister. Buyer must opt in to the ASA beforehand.
-   *
-   * @param params Parameters for the call
-   * @returns An `AppClientMethodCallParams` object for the call
-   */
-  static purchaseFromLister(params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromLister(uint64,uint64,pay)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromLister(uint64,uint64,pay)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
-    return {
-      ...params,
-      method: 'purchaseFromLister(uint64,uint64,pay)bool' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.shares, params.args.payment],
-    }
-  }
-  /**
-   * Constructs a no op call for the delistProperty(uint64)void ABI method
-   *
-  * Delist a property. Only the owner can delist, and no shares can have been sold.
-  Deleting the box reclaims the MBR.
+export type ReferralKey = {
+  referrer: string,
+  paymentAssetId: bigint
+}
 
-   *
-   * @param params Parameters for the call
-   * @returns An `AppClientMethodCallParams` object for the call
-   */
-  static delistProperty(params: CallParams<FractionalRealEstateArgs['obj']['delistProperty(uint64)void'] | FractionalRealEstateArgs['tuple']['delistProperty(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
-    return {
-      ...params,
-      method: 'delistProperty(uint64)void' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
-    }
-  }
-  /**
-   * Constructs a no op call for the getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address) ABI method
-   *
-   * @param params Parameters for the call
-   * @returns An `AppClientMethodCallParams` object for the call
-   */
-  static getPropertyInfo(params: CallParams<FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)'] | FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
-    return {
-      ...params,
-      method: 'getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)' as const,
-      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
-    }
-  }
+
+/**
+ * Converts the ABI tuple representation of a ReferralKey to the struct representation
+ */
+export function ReferralKeyFromTuple(abiTuple: [string, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.ReferralKey, APP_SPEC.structs) as ReferralKey
 }
 
 /**
- * A factory to create and deploy one or more instance of the FractionalRealEstate smart contract and to create one or more app clients to interact with those (or other) app instances
+ * The argument types for the FractionalRealEstate contract
  */
-export class FractionalRealEstateFactory {
+export type FractionalRealEstateArgs = {
   /**
-   * The underlying `AppFactory` for when you want to have more flexibility
+   * The object representation of the arguments for each method
    */
-  public readonly appFactory: _AppFactory
+  obj: {
+    'createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64': {
+      /**
+      * Covers the Minimum Balance Requirement for box storage (and the payment asset opt-in).
+      Anything paid over that is refunded straight away, so the caller should cover one more inner transaction fee.
 
-  /**
-   * Creates a new instance of `FractionalRealEstateFactory`
-   *
-   * @param params The parameters to initialise the app factory with
-   */
-  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
-    this.appFactory = new _AppFactory({
-      ...params,
-      appSpec: APP_SPEC,
-    })
-  }
-  
-  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
-  public get appName() {
-    return this.appFactory.appName
-  }
-  
-  /** The ARC-56 app spec being used */
-  get appSpec() {
-    return APP_SPEC
-  }
-  
-  /** A reference to the underlying `AlgorandClient` this app factory is using. */
-  public get algorand(): AlgorandClient {
-    return this.appFactory.algorand
-  }
-  
-  /**
-   * Returns a new `AppClient` client for an app instance of the given ID.
+       */
+      mbrPayment: AppMethodCallTransactionArgument
+      /**
+       * Physical address or unique name of the property, up to 128 bytes
+       */
+      propertyAddress: string
+      shares: bigint | number
+      pricePerShare: bigint | number
+      /**
+       * Shares that must sell for the raise to succeed, or 0 for no goal
+       */
+      fundingGoal: bigint | number
+      /**
+       * Last round in which the goal can be reached (ignored without a goal)
+       */
+      fundingDeadline: bigint | number
+      /**
+       * ASA the shares are priced in, or 0 for ALGO
+       */
+      paymentAssetId: bigint | number
+      /**
+       * Unit name of the share ASA (1-8 bytes)
+       */
+      unitName: string
+      /**
+       * ARC-3 or ARC-19 metadata URL, or empty for none
+       */
+      metadataUrl: string
+      /**
+       * SHA-256 of the ARC-3 metadata JSON, or all zeroes for none
+       */
+      metadataHash: Uint8Array
+      /**
+       * Reserve address encoding an ARC-19 CID, or the zero address to keep the app as reserve
+       */
+      metadataReserve: string
+      /**
+       * Most shares one account can hold after a primary purchase, or 0 for no cap
+       */
+      maxSharesPerAccount: bigint | number
+      /**
+       * Fewest shares a primary purchase can be for, or 0 for no minimum
+       */
+      minPurchase: bigint | number
+      /**
+      * Rounds primary purchases stay locked up for, or 0 for none. A buyer has one
+      lockup per listing, so buying more while it runs restarts it for all of their locked shares
+
+       */
+      lockupRounds: bigint | number
+      /**
+      * Timestamps the primary sale opens and closes at, each 0 for no limit, and the
+      Dutch auction floor price, or 0 for a fixed price. An auction needs an end time and starts at listing without a start time.
+
+       */
+      saleWindow: SaleWindowStruct
+      /**
+       * Presale prices that apply before the listing price, in order (up to 4, none with a funding goal)
+       */
+      priceTiers: [bigint | number, bigint | number, bigint | number][]
+      /**
+      * How long buyers can reserve shares for, the deposit they pay and whether an expired
+      reservation forfeits it to the owner (no reservations with a funding goal)
+
+       */
+      reservationPolicy: ReservationPolicyStruct
+      /**
+      * Commission paid to the partner who referred a buyer, in basis points of the owner's
+      proceeds from the purchase, or 0 for none (no commissions with a funding goal)
+
+       */
+      referralBps: bigint | number
+    }
+    'purchaseFromLister(uint64,uint64,pay,address)bool': {
+      propertyId: bigint | number
+      shares: bigint | number
+      payment: AppMethodCallTransactionArgument
+      /**
+      * Registered partner who referred the buyer and is paid the listing's referral commission,
+      or the zero address for none
+
+       */
+      referrer: string
+    }
+    'purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool': {
+      propertyId: bigint | number
+      shares: bigint | number
+      /**
+       * Transfers the purchase price in the listing's payment asset to the app
+       */
+      payment: AppMethodCallTransactionArgument
+      /**
+       * Registered partner who referred the buyer, or the zero address for none
+       */
+      referrer: string
+    }
+    'purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64': {
+      propertyId: bigint | number
+      /**
+       * Shares to buy
+       */
+      shares: bigint | number
+      /**
+       * Most the buyer will pay for the shares; the purchase fails if they cost more
+       */
+      maxTotal: bigint | number
+      /**
+       * Buy whatever is left when fewer than `shares` are available, instead of failing
+       */
+      allowPartialFill: boolean
+      /**
+       * Pays maxTotal to the app
+       */
+      payment: AppMethodCallTransactionArgument
+      /**
+       * Registered partner who referred the buyer, or the zero address for none
+       */
+      referrer: string
+    }
+    'purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64': {
+      propertyId: bigint | number
+      shares: bigint | number
+      /**
+       * Most the buyer will pay for the shares; the purchase fails if they cost more
+       */
+      maxTotal: bigint | number
+      /**
+       * Buy whatever is left when fewer than `shares` are available, instead of failing
+       */
+      allowPartialFill: boolean
+      /**
+       * Transfers maxTotal in the listing's payment asset to the app
+       */
+      payment: AppMethodCallTransactionArgument
+      /**
+       * Registered partner who referred the buyer, or the zero address for none
+       */
+      referrer: string
+    }
+    'purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64': {
+      propertyId: bigint | number
+      shares: bigint | number
+      /**
+       * Most the buyer will pay per share; the purchase fails if the price is above it
+       */
+      maxPricePerShare: bigint | number
+      /**
+       * Pays shares x maxPricePerShare to the app
+       */
+      payment: AppMethodCallTransactionArgument
+      /**
+       * Registered partner who referred the buyer, or the zero address for none
+       */
+      referrer: string
+    }
+    'purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64': {
+      propertyId: bigint | number
+      shares: bigint | number
+      /**
+       * Most the buyer will pay per share; the purchase fails if the price is above it
+       */
+      maxPricePerShare: bigint | number
+      /**
+       * Transfers shares x maxPricePerShare in the listing's payment asset to the app
+       */
+      payment: AppMethodCallTransactionArgument
+      /**
+       * Registered partner who referred the buyer, or the zero address for none
+       */
+      referrer: string
+    }
+    'withdrawProceeds(uint64)uint64': {
+      propertyId: bigint | number
+    }
+    'claimRefund(uint64,uint64)uint64': {
+      propertyId: bigint | number
+      shares: bigint | number
+    }
+    'setFeeBps(uint64)void': {
+      feeBps: bigint | number
+    }
+    'setTreasury(address)void': {
+      treasury: string
+    }
+    'transferAdmin(address)void': {
+      newAdmin: string
+    }
+    'acceptAdmin()void': Record<string, never>
+    'pause()void': Record<string, never>
+    'unpause()void': Record<string, never>
+    'setCompliance(address)void': {
+      compliance: string
+    }
+    'approveAccount(pay,address)void': {
+      mbrPayment: AppMethodCallTransactionArgument
+      account: string
+    }
+    'revokeAccount(address)void': {
+      account: string
+    }
+    'transferShares(uint64,address,uint64)void': {
+      propertyId: bigint | number
+      receiver: string
+      shares: bigint | number
+    }
+    'isApproved(address)bool': {
+      account: string
+    }
+    'registerLockup(pay,uint64)void': {
+      mbrPayment: AppMethodCallTransactionArgument
+      propertyId: bigint | number
+    }
+    'unlockShares(uint64)void': {
+      propertyId: bigint | number
+    }
+    'getLockup(uint64,address)(uint64,uint64)': {
+      propertyId: bigint | number
+      holder: string
+    }
+    'getPlatformFee()(uint64,address)': Record<string, never>
+    'updatePrice(uint64,uint64)void': {
+      propertyId: bigint | number
+      pricePerShare: bigint | number
+    }
+    'withdrawShares(uint64,uint64)void': {
+      propertyId: bigint | number
+      shares: bigint | number
+    }
+    'topUpShares(uint64,uint64)void': {
+      propertyId: bigint | number
+      shares: bigint | number
+    }
+    'closePrimarySale(uint64)void': {
+      propertyId: bigint | number
+    }
+    'transferOwnership(pay,uint64,address)void': {
+      /**
+       * Covers the MBR for the pending transfer box
+       */
+      mbrPayment: AppMethodCallTransactionArgument
+      propertyId: bigint | number
+      newOwner: string
+    }
+    'cancelOwnershipTransfer(uint64)void': {
+      propertyId: bigint | number
+    }
+    'acceptOwnership(pay,uint64)void': {
+      /**
+       * Covers the MBR for adding the listing to the new owner's index
+       */
+      mbrPayment: AppMethodCallTransactionArgument
+      propertyId: bigint | number
+    }
+    'getPendingOwner(uint64)address': {
+      propertyId: bigint | number
+    }
+    'delistProperty(uint64)void': {
+      propertyId: bigint | number
+    }
+    'getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)': {
+      propertyId: bigint | number
+    }
+    'getListingIds(uint64)uint64[]': {
+      page: bigint | number
+    }
+    'getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]': {
+      propertyIds: bigint[] | number[]
+    }
+    'getOwnerListings(address)uint64[]': {
+      owner: string
+    }
+    'getMarketStats()(uint64,uint64,uint64)': Record<string, never>
+    'getCurrentPrice(uint64)uint64': {
+      propertyId: bigint | number
+    }
+    'createSellOrder(pay,uint64,uint64,uint64)uint64': {
+      /**
+       * Covers the Minimum Balance Requirement for the order box
+       */
+      mbrPayment: AppMethodCallTransactionArgument
+      propertyId: bigint | number
+      shares: bigint | number
+      pricePerShare: bigint | number
+    }
+    'fillSellOrder(uint64,uint64,pay)bool': {
+      orderId: bigint | number
+      shares: bigint | number
+      payment: AppMethodCallTransactionArgument
+    }
+    'cancelSellOrder(uint64)void': {
+      orderId: bigint | number
+    }
+    'getSellOrder(uint64)(uint64,address,uint64,uint64)': {
+      orderId: bigint | number
+    }
+    'depositIncome(uint64,pay)void': {
+      propertyId: bigint | number
+      /**
+       * The income being distributed, paid to the app
+       */
+      payment: AppMethodCallTransactionArgument
+    }
+    'registerForIncome(pay,uint64)void': {
+      /**
+       * Covers the Minimum Balance Requirement for the holder's claim box
+       */
+      mbrPayment: AppMethodCallTransactionArgument
+      propertyId: bigint | number
+    }
+    'unregisterForIncome(uint64)uint64': {
+      propertyId: bigint | number
+    }
+    'claimIncome(uint64)uint64': {
+      propertyId: bigint | number
+    }
+    'getUnclaimedIncome(uint64,address)uint64': {
+      propertyId: bigint | number
+      holder: string
+    }
+    'createProposal(pay,uint64,string,uint64)uint64': {
+      /**
+       * Covers the Minimum Balance Requirement for the proposal box
+       */
+      mbrPayment: AppMethodCallTransactionArgument
+      propertyId: bigint | number
+      description: string
+      /**
+       * Last round in which votes are accepted
+       */
+      deadlineRound: bigint | number
+    }
+    'castVote(pay,uint64,uint64,bool)void': {
+      /**
+       * Covers the Minimum Balance Requirement for the vote box
+       */
+      mbrPayment: AppMethodCallTransactionArgument
+      proposalId: bigint | number
+      shares: bigint | number
+      support: boolean
+    }
+    'finalizeProposal(uint64)uint64': {
+      proposalId: bigint | number
+    }
+    'withdrawVote(uint64)void': {
+      proposalId: bigint | number
+    }
+    'getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)': {
+      proposalId: bigint | number
+    }
+    'offerBuyout(pay,pay,uint64,uint64)uint64': {
+      /**
+       * Covers the Minimum Balance Requirement for the buyout box and the property's active offer box
+       */
+      mbrPayment: AppMethodCallTransactionArgument
+      /**
+       * Escrows the total offer in the app
+       */
+      payment: AppMethodCallTransactionArgument
+      propertyId: bigint | number
+      /**
+       * Last round in which holders can vote
+       */
+      deadlineRound: bigint | number
+    }
+    'voteOnBuyout(pay,uint64,uint64,bool)void': {
+      /**
+       * Covers the Minimum Balance Requirement for the vote box
+       */
+      mbrPayment: AppMethodCallTransactionArgument
+      buyoutId: bigint | number
+      shares: bigint | number
+      support: boolean
+    }
+    'finalizeBuyout(uint64)uint64': {
+      buyoutId: bigint | number
+    }
+    'withdrawBuyoutVote(uint64)void': {
+      buyoutId: bigint | number
+    }
+    'redeemBuyout(uint64,uint64)uint64': {
+      buyoutId: bigint | number
+      /**
+       * Shares to take from the caller's holding (0 to redeem only the shares they voted with)
+       */
+      shares: bigint | number
+    }
+    'getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)': {
+      buyoutId: bigint | number
+    }
+    'getActiveBuyout(uint64)uint64': {
+      propertyId: bigint | number
+    }
+    'reserveShares(pay,uint64,uint64,pay)uint64': {
+      /**
+       * Covers the Minimum Balance Requirement for the reservation box
+       */
+      mbrPayment: AppMethodCallTransactionArgument
+      propertyId: bigint | number
+      shares: bigint | number
+      /**
+       * Pays the deposit to the app, up to the full price
+       */
+      deposit: AppMethodCallTransactionArgument
+    }
+    'reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64': {
+      /**
+       * Covers the Minimum Balance Requirement for the reservation box
+       */
+      mbrPayment: AppMethodCallTransactionArgument
+      propertyId: bigint | number
+      shares: bigint | number
+      /**
+       * Transfers the deposit in the listing's payment asset to the app, up to the full price
+       */
+      deposit: AppMethodCallTransactionArgument
+    }
+    'completeReservation(uint64,pay)uint64': {
+      propertyId: bigint | number
+      /**
+       * Pays the reserved price less the deposit to the app
+       */
+      payment: AppMethodCallTransactionArgument
+    }
+    'completeReservationWithAsset(uint64,axfer)uint64': {
+      propertyId: bigint | number
+      /**
+       * Transfers the reserved price less the deposit in the listing's payment asset to the app
+       */
+      payment: AppMethodCallTransactionArgument
+    }
+    'expireReservation(uint64,address)void': {
+      propertyId: bigint | number
+      holder: string
+    }
+    'getReservation(uint64,address)(uint64,uint64,uint64,uint64)': {
+      propertyId: bigint | number
+      holder: string
+    }
+    'registerReferrer(pay,uint64)void': {
+      mbrPayment: AppMethodCallTransactionArgument
+      /**
+       * ASA the listings are priced in, or 0 for ALGO
+       */
+      paymentAssetId: bigint | number
+    }
+    'getReferralEarnings(address,uint64)uint64': {
+      referrer: string
+      paymentAssetId: bigint | number
+    }
+    'setAppraiser(pay,uint64,address)void': {
+      /**
+       * Covers the MBR for the appraisal boxes on the first appointment; any excess is refunded
+       */
+      mbrPayment: AppMethodCallTransactionArgument
+      propertyId: bigint | number
+      appraiser: string
+    }
+    'postValuation(uint64,uint64,uint64,byte[32])void': {
+      propertyId: bigint | number
+      /**
+       * Value of the whole property in base units of the listing's payment currency
+       */
+      totalValue: bigint | number
+      /**
+       * When the valuation was made, in unix seconds
+       */
+      timestamp: bigint | number
+      /**
+       * SHA-256 of the appraisal report
+       */
+      documentHash: Uint8Array
+    }
+    'getAppraiser(uint64)address': {
+      propertyId: bigint | number
+    }
+    'getLatestValuation(uint64)(uint64,uint64,byte[32])': {
+      propertyId: bigint | number
+    }
+    'getValuationHistory(uint64)(uint64,uint64,byte[32])[]': {
+      propertyId: bigint | number
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64': [mbrPayment: AppMethodCallTransactionArgument, propertyAddress: string, shares: bigint | number, pricePerShare: bigint | number, fundingGoal: bigint | number, fundingDeadline: bigint | number, paymentAssetId: bigint | number, unitName: string, metadataUrl: string, metadataHash: Uint8Array, metadataReserve: string, maxSharesPerAccount: bigint | number, minPurchase: bigint | number, lockupRounds: bigint | number, saleWindow: SaleWindowStruct, priceTiers: [bigint | number, bigint | number, bigint | number][], reservationPolicy: ReservationPolicyStruct, referralBps: bigint | number]
+    'purchaseFromLister(uint64,uint64,pay,address)bool': [propertyId: bigint | number, shares: bigint | number, payment: AppMethodCallTransactionArgument, referrer: string]
+    'purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool': [propertyId: bigint | number, shares: bigint | number, payment: AppMethodCallTransactionArgument, referrer: string]
+    'purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64': [propertyId: bigint | number, shares: bigint | number, maxTotal: bigint | number, allowPartialFill: boolean, payment: AppMethodCallTransactionArgument, referrer: string]
+    'purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64': [propertyId: bigint | number, shares: bigint | number, maxTotal: bigint | number, allowPartialFill: boolean, payment: AppMethodCallTransactionArgument, referrer: string]
+    'purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64': [propertyId: bigint | number, shares: bigint | number, maxPricePerShare: bigint | number, payment: AppMethodCallTransactionArgument, referrer: string]
+    'purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64': [propertyId: bigint | number, shares: bigint | number, maxPricePerShare: bigint | number, payment: AppMethodCallTransactionArgument, referrer: string]
+    'withdrawProceeds(uint64)uint64': [propertyId: bigint | number]
+    'claimRefund(uint64,uint64)uint64': [propertyId: bigint | number, shares: bigint | number]
+    'setFeeBps(uint64)void': [feeBps: bigint | number]
+    'setTreasury(address)void': [treasury: string]
+    'transferAdmin(address)void': [newAdmin: string]
+    'acceptAdmin()void': []
+    'pause()void': []
+    'unpause()void': []
+    'setCompliance(address)void': [compliance: string]
+    'approveAccount(pay,address)void': [mbrPayment: AppMethodCallTransactionArgument, account: string]
+    'revokeAccount(address)void': [account: string]
+    'transferShares(uint64,address,uint64)void': [propertyId: bigint | number, receiver: string, shares: bigint | number]
+    'isApproved(address)bool': [account: string]
+    'registerLockup(pay,uint64)void': [mbrPayment: AppMethodCallTransactionArgument, propertyId: bigint | number]
+    'unlockShares(uint64)void': [propertyId: bigint | number]
+    'getLockup(uint64,address)(uint64,uint64)': [propertyId: bigint | number, holder: string]
+    'getPlatformFee()(uint64,address)': []
+    'updatePrice(uint64,uint64)void': [propertyId: bigint | number, pricePerShare: bigint | number]
+    'withdrawShares(uint64,uint64)void': [propertyId: bigint | number, shares: bigint | number]
+    'topUpShares(uint64,uint64)void': [propertyId: bigint | number, shares: bigint | number]
+    'closePrimarySale(uint64)void': [propertyId: bigint | number]
+    'transferOwnership(pay,uint64,address)void': [mbrPayment: AppMethodCallTransactionArgument, propertyId: bigint | number, newOwner: string]
+    'cancelOwnershipTransfer(uint64)void': [propertyId: bigint | number]
+    'acceptOwnership(pay,uint64)void': [mbrPayment: AppMethodCallTransactionArgument, propertyId: bigint | number]
+    'getPendingOwner(uint64)address': [propertyId: bigint | number]
+    'delistProperty(uint64)void': [propertyId: bigint | number]
+    'getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)': [propertyId: bigint | number]
+    'getListingIds(uint64)uint64[]': [page: bigint | number]
+    'getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]': [propertyIds: bigint[] | number[]]
+    'getOwnerListings(address)uint64[]': [owner: string]
+    'getMarketStats()(uint64,uint64,uint64)': []
+    'getCurrentPrice(uint64)uint64': [propertyId: bigint | number]
+    'createSellOrder(pay,uint64,uint64,uint64)uint64': [mbrPayment: AppMethodCallTransactionArgument, propertyId: bigint | number, shares: bigint | number, pricePerShare: bigint | number]
+    'fillSellOrder(uint64,uint64,pay)bool': [orderId: bigint | number, shares: bigint | number, payment: AppMethodCallTransactionArgument]
+    'cancelSellOrder(uint64)void': [orderId: bigint | number]
+    'getSellOrder(uint64)(uint64,address,uint64,uint64)': [orderId: bigint | number]
+    'depositIncome(uint64,pay)void': [propertyId: bigint | number, payment: AppMethodCallTransactionArgument]
+    'registerForIncome(pay,uint64)void': [mbrPayment: AppMethodCallTransactionArgument, propertyId: bigint | number]
+    'unregisterForIncome(uint64)uint64': [propertyId: bigint | number]
+    'claimIncome(uint64)uint64': [propertyId: bigint | number]
+    'getUnclaimedIncome(uint64,address)uint64': [propertyId: bigint | number, holder: string]
+    'createProposal(pay,uint64,string,uint64)uint64': [mbrPayment: AppMethodCallTransactionArgument, propertyId: bigint | number, description: string, deadlineRound: bigint | number]
+    'castVote(pay,uint64,uint64,bool)void': [mbrPayment: AppMethodCallTransactionArgument, proposalId: bigint | number, shares: bigint | number, support: boolean]
+    'finalizeProposal(uint64)uint64': [proposalId: bigint | number]
+    'withdrawVote(uint64)void': [proposalId: bigint | number]
+    'getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)': [proposalId: bigint | number]
+    'offerBuyout(pay,pay,uint64,uint64)uint64': [mbrPayment: AppMethodCallTransactionArgument, payment: AppMethodCallTransactionArgument, propertyId: bigint | number, deadlineRound: bigint | number]
+    'voteOnBuyout(pay,uint64,uint64,bool)void': [mbrPayment: AppMethodCallTransactionArgument, buyoutId: bigint | number, shares: bigint | number, support: boolean]
+    'finalizeBuyout(uint64)uint64': [buyoutId: bigint | number]
+    'withdrawBuyoutVote(uint64)void': [buyoutId: bigint | number]
+    'redeemBuyout(uint64,uint64)uint64': [buyoutId: bigint | number, shares: bigint | number]
+    'getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)': [buyoutId: bigint | number]
+    'getActiveBuyout(uint64)uint64': [propertyId: bigint | number]
+    'reserveShares(pay,uint64,uint64,pay)uint64': [mbrPayment: AppMethodCallTransactionArgument, propertyId: bigint | number, shares: bigint | number, deposit: AppMethodCallTransactionArgument]
+    'reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64': [mbrPayment: AppMethodCallTransactionArgument, propertyId: bigint | number, shares: bigint | number, deposit: AppMethodCallTransactionArgument]
+    'completeReservation(uint64,pay)uint64': [propertyId: bigint | number, payment: AppMethodCallTransactionArgument]
+    'completeReservationWithAsset(uint64,axfer)uint64': [propertyId: bigint | number, payment: AppMethodCallTransactionArgument]
+    'expireReservation(uint64,address)void': [propertyId: bigint | number, holder: string]
+    'getReservation(uint64,address)(uint64,uint64,uint64,uint64)': [propertyId: bigint | number, holder: string]
+    'registerReferrer(pay,uint64)void': [mbrPayment: AppMethodCallTransactionArgument, paymentAssetId: bigint | number]
+    'getReferralEarnings(address,uint64)uint64': [referrer: string, paymentAssetId: bigint | number]
+    'setAppraiser(pay,uint64,address)void': [mbrPayment: AppMethodCallTransactionArgument, propertyId: bigint | number, appraiser: string]
+    'postValuation(uint64,uint64,uint64,byte[32])void': [propertyId: bigint | number, totalValue: bigint | number, timestamp: bigint | number, documentHash: Uint8Array]
+    'getAppraiser(uint64)address': [propertyId: bigint | number]
+    'getLatestValuation(uint64)(uint64,uint64,byte[32])': [propertyId: bigint | number]
+    'getValuationHistory(uint64)(uint64,uint64,byte[32])[]': [propertyId: bigint | number]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type FractionalRealEstateReturns = {
+  'createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64': bigint
+  'purchaseFromLister(uint64,uint64,pay,address)bool': boolean
+  'purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool': boolean
+  'purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64': bigint
+  'purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64': bigint
+  'purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64': bigint
+  'purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64': bigint
+  'withdrawProceeds(uint64)uint64': bigint
+  'claimRefund(uint64,uint64)uint64': bigint
+  'setFeeBps(uint64)void': void
+  'setTreasury(address)void': void
+  'transferAdmin(address)void': void
+  'acceptAdmin()void': void
+  'pause()void': void
+  'unpause()void': void
+  'setCompliance(address)void': void
+  'approveAccount(pay,address)void': void
+  'revokeAccount(address)void': void
+  'transferShares(uint64,address,uint64)void': void
+  'isApproved(address)bool': boolean
+  'registerLockup(pay,uint64)void': void
+  'unlockShares(uint64)void': void
+  'getLockup(uint64,address)(uint64,uint64)': LockupStruct
+  'getPlatformFee()(uint64,address)': PlatformFeeStruct
+  'updatePrice(uint64,uint64)void': void
+  'withdrawShares(uint64,uint64)void': void
+  'topUpShares(uint64,uint64)void': void
+  'closePrimarySale(uint64)void': void
+  'transferOwnership(pay,uint64,address)void': void
+  'cancelOwnershipTransfer(uint64)void': void
+  'acceptOwnership(pay,uint64)void': void
+  'getPendingOwner(uint64)address': string
+  'delistProperty(uint64)void': void
+  'getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)': PropertyStruct
+  'getListingIds(uint64)uint64[]': bigint[]
+  'getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]': [string, bigint, bigint, bigint, bigint, string, bigint, bigint, bigint, boolean, bigint, bigint, bigint, bigint, bigint, string, string, Uint8Array, bigint, bigint, bigint, bigint, bigint, bigint, bigint, bigint, bigint, boolean, bigint][]
+  'getOwnerListings(address)uint64[]': bigint[]
+  'getMarketStats()(uint64,uint64,uint64)': MarketStatsStruct
+  'getCurrentPrice(uint64)uint64': bigint
+  'createSellOrder(pay,uint64,uint64,uint64)uint64': bigint
+  'fillSellOrder(uint64,uint64,pay)bool': boolean
+  'cancelSellOrder(uint64)void': void
+  'getSellOrder(uint64)(uint64,address,uint64,uint64)': SellOrderStruct
+  'depositIncome(uint64,pay)void': void
+  'registerForIncome(pay,uint64)void': void
+  'unregisterForIncome(uint64)uint64': bigint
+  'claimIncome(uint64)uint64': bigint
+  'getUnclaimedIncome(uint64,address)uint64': bigint
+  'createProposal(pay,uint64,string,uint64)uint64': bigint
+  'castVote(pay,uint64,uint64,bool)void': void
+  'finalizeProposal(uint64)uint64': bigint
+  'withdrawVote(uint64)void': void
+  'getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)': ProposalStruct
+  'offerBuyout(pay,pay,uint64,uint64)uint64': bigint
+  'voteOnBuyout(pay,uint64,uint64,bool)void': void
+  'finalizeBuyout(uint64)uint64': bigint
+  'withdrawBuyoutVote(uint64)void': void
+  'redeemBuyout(uint64,uint64)uint64': bigint
+  'getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)': BuyoutStruct
+  'getActiveBuyout(uint64)uint64': bigint
+  'reserveShares(pay,uint64,uint64,pay)uint64': bigint
+  'reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64': bigint
+  'completeReservation(uint64,pay)uint64': bigint
+  'completeReservationWithAsset(uint64,axfer)uint64': bigint
+  'expireReservation(uint64,address)void': void
+  'getReservation(uint64,address)(uint64,uint64,uint64,uint64)': ReservationStruct
+  'registerReferrer(pay,uint64)void': void
+  'getReferralEarnings(address,uint64)uint64': bigint
+  'setAppraiser(pay,uint64,address)void': void
+  'postValuation(uint64,uint64,uint64,byte[32])void': void
+  'getAppraiser(uint64)address': string
+  'getLatestValuation(uint64)(uint64,uint64,byte[32])': ValuationStruct
+  'getValuationHistory(uint64)(uint64,uint64,byte[32])[]': [bigint, bigint, Uint8Array][]
+}
+
+/**
+ * Defines the types of available calls and state of the FractionalRealEstate smart contract.
+ */
+export type FractionalRealEstateTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods:
+    & Record<'createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64' | 'createPropertyListing', {
+      argsObj: FractionalRealEstateArgs['obj']['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64']
+      returns: FractionalRealEstateReturns['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64']
+    }>
+    & Record<'purchaseFromLister(uint64,uint64,pay,address)bool' | 'purchaseFromLister', {
+      argsObj: FractionalRealEstateArgs['obj']['purchaseFromLister(uint64,uint64,pay,address)bool']
+      argsTuple: FractionalRealEstateArgs['tuple']['purchaseFromLister(uint64,uint64,pay,address)bool']
+      returns: FractionalRealEstateReturns['purchaseFromLister(uint64,uint64,pay,address)bool']
+    }>
+    & Record<'purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool' | 'purchaseFromListerWithAsset', {
+      argsObj: FractionalRealEstateArgs['obj']['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool']
+      argsTuple: FractionalRealEstateArgs['tuple']['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool']
+      returns: FractionalRealEstateReturns['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool']
+    }>
+    & Record<'purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64' | 'purchaseUpTo', {
+      argsObj: FractionalRealEstateArgs['obj']['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64']
+      /**
+       * The number of shares bought
+       */
+      returns: FractionalRealEstateReturns['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64']
+    }>
+    & Record<'purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64' | 'purchaseUpToWithAsset', {
+      argsObj: FractionalRealEstateArgs['obj']['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64']
+      /**
+       * The number of shares bought
+       */
+      returns: FractionalRealEstateReturns['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64']
+    }>
+    & Record<'purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64' | 'purchaseAtAuction', {
+      argsObj: FractionalRealEstateArgs['obj']['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64']
+      /**
+       * The price per share the shares were bought at
+       */
+      returns: FractionalRealEstateReturns['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64']
+    }>
+    & Record<'purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64' | 'purchaseAtAuctionWithAsset', {
+      argsObj: FractionalRealEstateArgs['obj']['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64']
+      /**
+       * The price per share the shares were bought at
+       */
+      returns: FractionalRealEstateReturns['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64']
+    }>
+    & Record<'withdrawProceeds(uint64)uint64' | 'withdrawProceeds', {
+      argsObj: FractionalRealEstateArgs['obj']['withdrawProceeds(uint64)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['withdrawProceeds(uint64)uint64']
+      returns: FractionalRealEstateReturns['withdrawProceeds(uint64)uint64']
+    }>
+    & Record<'claimRefund(uint64,uint64)uint64' | 'claimRefund', {
+      argsObj: FractionalRealEstateArgs['obj']['claimRefund(uint64,uint64)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['claimRefund(uint64,uint64)uint64']
+      returns: FractionalRealEstateReturns['claimRefund(uint64,uint64)uint64']
+    }>
+    & Record<'setFeeBps(uint64)void' | 'setFeeBps', {
+      argsObj: FractionalRealEstateArgs['obj']['setFeeBps(uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['setFeeBps(uint64)void']
+      returns: FractionalRealEstateReturns['setFeeBps(uint64)void']
+    }>
+    & Record<'setTreasury(address)void' | 'setTreasury', {
+      argsObj: FractionalRealEstateArgs['obj']['setTreasury(address)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['setTreasury(address)void']
+      returns: FractionalRealEstateReturns['setTreasury(address)void']
+    }>
+    & Record<'transferAdmin(address)void' | 'transferAdmin', {
+      argsObj: FractionalRealEstateArgs['obj']['transferAdmin(address)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['transferAdmin(address)void']
+      returns: FractionalRealEstateReturns['transferAdmin(address)void']
+    }>
+    & Record<'acceptAdmin()void' | 'acceptAdmin', {
+      argsObj: FractionalRealEstateArgs['obj']['acceptAdmin()void']
+      argsTuple: FractionalRealEstateArgs['tuple']['acceptAdmin()void']
+      returns: FractionalRealEstateReturns['acceptAdmin()void']
+    }>
+    & Record<'pause()void' | 'pause', {
+      argsObj: FractionalRealEstateArgs['obj']['pause()void']
+      argsTuple: FractionalRealEstateArgs['tuple']['pause()void']
+      returns: FractionalRealEstateReturns['pause()void']
+    }>
+    & Record<'unpause()void' | 'unpause', {
+      argsObj: FractionalRealEstateArgs['obj']['unpause()void']
+      argsTuple: FractionalRealEstateArgs['tuple']['unpause()void']
+      returns: FractionalRealEstateReturns['unpause()void']
+    }>
+    & Record<'setCompliance(address)void' | 'setCompliance', {
+      argsObj: FractionalRealEstateArgs['obj']['setCompliance(address)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['setCompliance(address)void']
+      returns: FractionalRealEstateReturns['setCompliance(address)void']
+    }>
+    & Record<'approveAccount(pay,address)void' | 'approveAccount', {
+      argsObj: FractionalRealEstateArgs['obj']['approveAccount(pay,address)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['approveAccount(pay,address)void']
+      returns: FractionalRealEstateReturns['approveAccount(pay,address)void']
+    }>
+    & Record<'revokeAccount(address)void' | 'revokeAccount', {
+      argsObj: FractionalRealEstateArgs['obj']['revokeAccount(address)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['revokeAccount(address)void']
+      returns: FractionalRealEstateReturns['revokeAccount(address)void']
+    }>
+    & Record<'transferShares(uint64,address,uint64)void' | 'transferShares', {
+      argsObj: FractionalRealEstateArgs['obj']['transferShares(uint64,address,uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['transferShares(uint64,address,uint64)void']
+      returns: FractionalRealEstateReturns['transferShares(uint64,address,uint64)void']
+    }>
+    & Record<'isApproved(address)bool' | 'isApproved', {
+      argsObj: FractionalRealEstateArgs['obj']['isApproved(address)bool']
+      argsTuple: FractionalRealEstateArgs['tuple']['isApproved(address)bool']
+      returns: FractionalRealEstateReturns['isApproved(address)bool']
+    }>
+    & Record<'registerLockup(pay,uint64)void' | 'registerLockup', {
+      argsObj: FractionalRealEstateArgs['obj']['registerLockup(pay,uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['registerLockup(pay,uint64)void']
+      returns: FractionalRealEstateReturns['registerLockup(pay,uint64)void']
+    }>
+    & Record<'unlockShares(uint64)void' | 'unlockShares', {
+      argsObj: FractionalRealEstateArgs['obj']['unlockShares(uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['unlockShares(uint64)void']
+      returns: FractionalRealEstateReturns['unlockShares(uint64)void']
+    }>
+    & Record<'getLockup(uint64,address)(uint64,uint64)' | 'getLockup', {
+      argsObj: FractionalRealEstateArgs['obj']['getLockup(uint64,address)(uint64,uint64)']
+      argsTuple: FractionalRealEstateArgs['tuple']['getLockup(uint64,address)(uint64,uint64)']
+      returns: FractionalRealEstateReturns['getLockup(uint64,address)(uint64,uint64)']
+    }>
+    & Record<'getPlatformFee()(uint64,address)' | 'getPlatformFee', {
+      argsObj: FractionalRealEstateArgs['obj']['getPlatformFee()(uint64,address)']
+      argsTuple: FractionalRealEstateArgs['tuple']['getPlatformFee()(uint64,address)']
+      returns: FractionalRealEstateReturns['getPlatformFee()(uint64,address)']
+    }>
+    & Record<'updatePrice(uint64,uint64)void' | 'updatePrice', {
+      argsObj: FractionalRealEstateArgs['obj']['updatePrice(uint64,uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['updatePrice(uint64,uint64)void']
+      returns: FractionalRealEstateReturns['updatePrice(uint64,uint64)void']
+    }>
+    & Record<'withdrawShares(uint64,uint64)void' | 'withdrawShares', {
+      argsObj: FractionalRealEstateArgs['obj']['withdrawShares(uint64,uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['withdrawShares(uint64,uint64)void']
+      returns: FractionalRealEstateReturns['withdrawShares(uint64,uint64)void']
+    }>
+    & Record<'topUpShares(uint64,uint64)void' | 'topUpShares', {
+      argsObj: FractionalRealEstateArgs['obj']['topUpShares(uint64,uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['topUpShares(uint64,uint64)void']
+      returns: FractionalRealEstateReturns['topUpShares(uint64,uint64)void']
+    }>
+    & Record<'closePrimarySale(uint64)void' | 'closePrimarySale', {
+      argsObj: FractionalRealEstateArgs['obj']['closePrimarySale(uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['closePrimarySale(uint64)void']
+      returns: FractionalRealEstateReturns['closePrimarySale(uint64)void']
+    }>
+    & Record<'transferOwnership(pay,uint64,address)void' | 'transferOwnership', {
+      argsObj: FractionalRealEstateArgs['obj']['transferOwnership(pay,uint64,address)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['transferOwnership(pay,uint64,address)void']
+      returns: FractionalRealEstateReturns['transferOwnership(pay,uint64,address)void']
+    }>
+    & Record<'cancelOwnershipTransfer(uint64)void' | 'cancelOwnershipTransfer', {
+      argsObj: FractionalRealEstateArgs['obj']['cancelOwnershipTransfer(uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['cancelOwnershipTransfer(uint64)void']
+      returns: FractionalRealEstateReturns['cancelOwnershipTransfer(uint64)void']
+    }>
+    & Record<'acceptOwnership(pay,uint64)void' | 'acceptOwnership', {
+      argsObj: FractionalRealEstateArgs['obj']['acceptOwnership(pay,uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['acceptOwnership(pay,uint64)void']
+      returns: FractionalRealEstateReturns['acceptOwnership(pay,uint64)void']
+    }>
+    & Record<'getPendingOwner(uint64)address' | 'getPendingOwner', {
+      argsObj: FractionalRealEstateArgs['obj']['getPendingOwner(uint64)address']
+      argsTuple: FractionalRealEstateArgs['tuple']['getPendingOwner(uint64)address']
+      returns: FractionalRealEstateReturns['getPendingOwner(uint64)address']
+    }>
+    & Record<'delistProperty(uint64)void' | 'delistProperty', {
+      argsObj: FractionalRealEstateArgs['obj']['delistProperty(uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['delistProperty(uint64)void']
+      returns: FractionalRealEstateReturns['delistProperty(uint64)void']
+    }>
+    & Record<'getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)' | 'getPropertyInfo', {
+      argsObj: FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)']
+      argsTuple: FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)']
+      returns: FractionalRealEstateReturns['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)']
+    }>
+    & Record<'getListingIds(uint64)uint64[]' | 'getListingIds', {
+      argsObj: FractionalRealEstateArgs['obj']['getListingIds(uint64)uint64[]']
+      argsTuple: FractionalRealEstateArgs['tuple']['getListingIds(uint64)uint64[]']
+      returns: FractionalRealEstateReturns['getListingIds(uint64)uint64[]']
+    }>
+    & Record<'getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]' | 'getProperties', {
+      argsObj: FractionalRealEstateArgs['obj']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]']
+      argsTuple: FractionalRealEstateArgs['tuple']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]']
+      returns: FractionalRealEstateReturns['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]']
+    }>
+    & Record<'getOwnerListings(address)uint64[]' | 'getOwnerListings', {
+      argsObj: FractionalRealEstateArgs['obj']['getOwnerListings(address)uint64[]']
+      argsTuple: FractionalRealEstateArgs['tuple']['getOwnerListings(address)uint64[]']
+      returns: FractionalRealEstateReturns['getOwnerListings(address)uint64[]']
+    }>
+    & Record<'getMarketStats()(uint64,uint64,uint64)' | 'getMarketStats', {
+      argsObj: FractionalRealEstateArgs['obj']['getMarketStats()(uint64,uint64,uint64)']
+      argsTuple: FractionalRealEstateArgs['tuple']['getMarketStats()(uint64,uint64,uint64)']
+      returns: FractionalRealEstateReturns['getMarketStats()(uint64,uint64,uint64)']
+    }>
+    & Record<'getCurrentPrice(uint64)uint64' | 'getCurrentPrice', {
+      argsObj: FractionalRealEstateArgs['obj']['getCurrentPrice(uint64)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['getCurrentPrice(uint64)uint64']
+      returns: FractionalRealEstateReturns['getCurrentPrice(uint64)uint64']
+    }>
+    & Record<'createSellOrder(pay,uint64,uint64,uint64)uint64' | 'createSellOrder', {
+      argsObj: FractionalRealEstateArgs['obj']['createSellOrder(pay,uint64,uint64,uint64)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['createSellOrder(pay,uint64,uint64,uint64)uint64']
+      returns: FractionalRealEstateReturns['createSellOrder(pay,uint64,uint64,uint64)uint64']
+    }>
+    & Record<'fillSellOrder(uint64,uint64,pay)bool' | 'fillSellOrder', {
+      argsObj: FractionalRealEstateArgs['obj']['fillSellOrder(uint64,uint64,pay)bool']
+      argsTuple: FractionalRealEstateArgs['tuple']['fillSellOrder(uint64,uint64,pay)bool']
+      returns: FractionalRealEstateReturns['fillSellOrder(uint64,uint64,pay)bool']
+    }>
+    & Record<'cancelSellOrder(uint64)void' | 'cancelSellOrder', {
+      argsObj: FractionalRealEstateArgs['obj']['cancelSellOrder(uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['cancelSellOrder(uint64)void']
+      returns: FractionalRealEstateReturns['cancelSellOrder(uint64)void']
+    }>
+    & Record<'getSellOrder(uint64)(uint64,address,uint64,uint64)' | 'getSellOrder', {
+      argsObj: FractionalRealEstateArgs['obj']['getSellOrder(uint64)(uint64,address,uint64,uint64)']
+      argsTuple: FractionalRealEstateArgs['tuple']['getSellOrder(uint64)(uint64,address,uint64,uint64)']
+      returns: FractionalRealEstateReturns['getSellOrder(uint64)(uint64,address,uint64,uint64)']
+    }>
+    & Record<'depositIncome(uint64,pay)void' | 'depositIncome', {
+      argsObj: FractionalRealEstateArgs['obj']['depositIncome(uint64,pay)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['depositIncome(uint64,pay)void']
+      returns: FractionalRealEstateReturns['depositIncome(uint64,pay)void']
+    }>
+    & Record<'registerForIncome(pay,uint64)void' | 'registerForIncome', {
+      argsObj: FractionalRealEstateArgs['obj']['registerForIncome(pay,uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['registerForIncome(pay,uint64)void']
+      returns: FractionalRealEstateReturns['registerForIncome(pay,uint64)void']
+    }>
+    & Record<'unregisterForIncome(uint64)uint64' | 'unregisterForIncome', {
+      argsObj: FractionalRealEstateArgs['obj']['unregisterForIncome(uint64)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['unregisterForIncome(uint64)uint64']
+      returns: FractionalRealEstateReturns['unregisterForIncome(uint64)uint64']
+    }>
+    & Record<'claimIncome(uint64)uint64' | 'claimIncome', {
+      argsObj: FractionalRealEstateArgs['obj']['claimIncome(uint64)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['claimIncome(uint64)uint64']
+      returns: FractionalRealEstateReturns['claimIncome(uint64)uint64']
+    }>
+    & Record<'getUnclaimedIncome(uint64,address)uint64' | 'getUnclaimedIncome', {
+      argsObj: FractionalRealEstateArgs['obj']['getUnclaimedIncome(uint64,address)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['getUnclaimedIncome(uint64,address)uint64']
+      returns: FractionalRealEstateReturns['getUnclaimedIncome(uint64,address)uint64']
+    }>
+    & Record<'createProposal(pay,uint64,string,uint64)uint64' | 'createProposal', {
+      argsObj: FractionalRealEstateArgs['obj']['createProposal(pay,uint64,string,uint64)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['createProposal(pay,uint64,string,uint64)uint64']
+      returns: FractionalRealEstateReturns['createProposal(pay,uint64,string,uint64)uint64']
+    }>
+    & Record<'castVote(pay,uint64,uint64,bool)void' | 'castVote', {
+      argsObj: FractionalRealEstateArgs['obj']['castVote(pay,uint64,uint64,bool)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['castVote(pay,uint64,uint64,bool)void']
+      returns: FractionalRealEstateReturns['castVote(pay,uint64,uint64,bool)void']
+    }>
+    & Record<'finalizeProposal(uint64)uint64' | 'finalizeProposal', {
+      argsObj: FractionalRealEstateArgs['obj']['finalizeProposal(uint64)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['finalizeProposal(uint64)uint64']
+      returns: FractionalRealEstateReturns['finalizeProposal(uint64)uint64']
+    }>
+    & Record<'withdrawVote(uint64)void' | 'withdrawVote', {
+      argsObj: FractionalRealEstateArgs['obj']['withdrawVote(uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['withdrawVote(uint64)void']
+      returns: FractionalRealEstateReturns['withdrawVote(uint64)void']
+    }>
+    & Record<'getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)' | 'getProposal', {
+      argsObj: FractionalRealEstateArgs['obj']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)']
+      argsTuple: FractionalRealEstateArgs['tuple']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)']
+      returns: FractionalRealEstateReturns['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)']
+    }>
+    & Record<'offerBuyout(pay,pay,uint64,uint64)uint64' | 'offerBuyout', {
+      argsObj: FractionalRealEstateArgs['obj']['offerBuyout(pay,pay,uint64,uint64)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['offerBuyout(pay,pay,uint64,uint64)uint64']
+      /**
+       * The ID of the new offer
+       */
+      returns: FractionalRealEstateReturns['offerBuyout(pay,pay,uint64,uint64)uint64']
+    }>
+    & Record<'voteOnBuyout(pay,uint64,uint64,bool)void' | 'voteOnBuyout', {
+      argsObj: FractionalRealEstateArgs['obj']['voteOnBuyout(pay,uint64,uint64,bool)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['voteOnBuyout(pay,uint64,uint64,bool)void']
+      returns: FractionalRealEstateReturns['voteOnBuyout(pay,uint64,uint64,bool)void']
+    }>
+    & Record<'finalizeBuyout(uint64)uint64' | 'finalizeBuyout', {
+      argsObj: FractionalRealEstateArgs['obj']['finalizeBuyout(uint64)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['finalizeBuyout(uint64)uint64']
+      returns: FractionalRealEstateReturns['finalizeBuyout(uint64)uint64']
+    }>
+    & Record<'withdrawBuyoutVote(uint64)void' | 'withdrawBuyoutVote', {
+      argsObj: FractionalRealEstateArgs['obj']['withdrawBuyoutVote(uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['withdrawBuyoutVote(uint64)void']
+      returns: FractionalRealEstateReturns['withdrawBuyoutVote(uint64)void']
+    }>
+    & Record<'redeemBuyout(uint64,uint64)uint64' | 'redeemBuyout', {
+      argsObj: FractionalRealEstateArgs['obj']['redeemBuyout(uint64,uint64)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['redeemBuyout(uint64,uint64)uint64']
+      /**
+       * The amount paid for the shares
+       */
+      returns: FractionalRealEstateReturns['redeemBuyout(uint64,uint64)uint64']
+    }>
+    & Record<'getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)' | 'getBuyout', {
+      argsObj: FractionalRealEstateArgs['obj']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)']
+      argsTuple: FractionalRealEstateArgs['tuple']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)']
+      returns: FractionalRealEstateReturns['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)']
+    }>
+    & Record<'getActiveBuyout(uint64)uint64' | 'getActiveBuyout', {
+      argsObj: FractionalRealEstateArgs['obj']['getActiveBuyout(uint64)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['getActiveBuyout(uint64)uint64']
+      returns: FractionalRealEstateReturns['getActiveBuyout(uint64)uint64']
+    }>
+    & Record<'reserveShares(pay,uint64,uint64,pay)uint64' | 'reserveShares', {
+      argsObj: FractionalRealEstateArgs['obj']['reserveShares(pay,uint64,uint64,pay)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['reserveShares(pay,uint64,uint64,pay)uint64']
+      /**
+       * The last round the reservation can be completed in
+       */
+      returns: FractionalRealEstateReturns['reserveShares(pay,uint64,uint64,pay)uint64']
+    }>
+    & Record<'reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64' | 'reserveSharesWithAsset', {
+      argsObj: FractionalRealEstateArgs['obj']['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64']
+      /**
+       * The last round the reservation can be completed in
+       */
+      returns: FractionalRealEstateReturns['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64']
+    }>
+    & Record<'completeReservation(uint64,pay)uint64' | 'completeReservation', {
+      argsObj: FractionalRealEstateArgs['obj']['completeReservation(uint64,pay)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['completeReservation(uint64,pay)uint64']
+      /**
+       * The number of shares bought
+       */
+      returns: FractionalRealEstateReturns['completeReservation(uint64,pay)uint64']
+    }>
+    & Record<'completeReservationWithAsset(uint64,axfer)uint64' | 'completeReservationWithAsset', {
+      argsObj: FractionalRealEstateArgs['obj']['completeReservationWithAsset(uint64,axfer)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['completeReservationWithAsset(uint64,axfer)uint64']
+      /**
+       * The number of shares bought
+       */
+      returns: FractionalRealEstateReturns['completeReservationWithAsset(uint64,axfer)uint64']
+    }>
+    & Record<'expireReservation(uint64,address)void' | 'expireReservation', {
+      argsObj: FractionalRealEstateArgs['obj']['expireReservation(uint64,address)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['expireReservation(uint64,address)void']
+      returns: FractionalRealEstateReturns['expireReservation(uint64,address)void']
+    }>
+    & Record<'getReservation(uint64,address)(uint64,uint64,uint64,uint64)' | 'getReservation', {
+      argsObj: FractionalRealEstateArgs['obj']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)']
+      argsTuple: FractionalRealEstateArgs['tuple']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)']
+      returns: FractionalRealEstateReturns['getReservation(uint64,address)(uint64,uint64,uint64,uint64)']
+    }>
+    & Record<'registerReferrer(pay,uint64)void' | 'registerReferrer', {
+      argsObj: FractionalRealEstateArgs['obj']['registerReferrer(pay,uint64)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['registerReferrer(pay,uint64)void']
+      returns: FractionalRealEstateReturns['registerReferrer(pay,uint64)void']
+    }>
+    & Record<'getReferralEarnings(address,uint64)uint64' | 'getReferralEarnings', {
+      argsObj: FractionalRealEstateArgs['obj']['getReferralEarnings(address,uint64)uint64']
+      argsTuple: FractionalRealEstateArgs['tuple']['getReferralEarnings(address,uint64)uint64']
+      returns: FractionalRealEstateReturns['getReferralEarnings(address,uint64)uint64']
+    }>
+    & Record<'setAppraiser(pay,uint64,address)void' | 'setAppraiser', {
+      argsObj: FractionalRealEstateArgs['obj']['setAppraiser(pay,uint64,address)void']
+      argsTuple: FractionalRealEstateArgs['tuple']['setAppraiser(pay,uint64,address)void']
+      returns: FractionalRealEstateReturns['setAppraiser(pay,uint64,address)void']
+    }>
+    & Record<'postValuation(uint64,uint64,uint64,byte[32])void' | 'postValuation', {
+      argsObj: FractionalRealEstateArgs['obj']['postValuation(uint64,uint64,uint64,byte[32])void']
+      argsTuple: FractionalRealEstateArgs['tuple']['postValuation(uint64,uint64,uint64,byte[32])void']
+      returns: FractionalRealEstateReturns['postValuation(uint64,uint64,uint64,byte[32])void']
+    }>
+    & Record<'getAppraiser(uint64)address' | 'getAppraiser', {
+      argsObj: FractionalRealEstateArgs['obj']['getAppraiser(uint64)address']
+      argsTuple: FractionalRealEstateArgs['tuple']['getAppraiser(uint64)address']
+      returns: FractionalRealEstateReturns['getAppraiser(uint64)address']
+    }>
+    & Record<'getLatestValuation(uint64)(uint64,uint64,byte[32])' | 'getLatestValuation', {
+      argsObj: FractionalRealEstateArgs['obj']['getLatestValuation(uint64)(uint64,uint64,byte[32])']
+      argsTuple: FractionalRealEstateArgs['tuple']['getLatestValuation(uint64)(uint64,uint64,byte[32])']
+      returns: FractionalRealEstateReturns['getLatestValuation(uint64)(uint64,uint64,byte[32])']
+    }>
+    & Record<'getValuationHistory(uint64)(uint64,uint64,byte[32])[]' | 'getValuationHistory', {
+      argsObj: FractionalRealEstateArgs['obj']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]']
+      argsTuple: FractionalRealEstateArgs['tuple']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]']
+      returns: FractionalRealEstateReturns['getValuationHistory(uint64)(uint64,uint64,byte[32])[]']
+    }>
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        nextOrderId: bigint
+        nextProposalId: bigint
+        feeBps: bigint
+        treasury: string
+        admin: string
+        pendingAdmin: string
+        paused: boolean
+        compliance: string
+        listingCount: bigint
+        totalSharesSold: bigint
+        totalVolume: bigint
+        nextListingIndex: bigint
+        nextBuyoutId: bigint
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        listedProperties: Map<bigint | number, PropertyStruct>
+        sellOrders: Map<bigint | number, SellOrderStruct>
+        incomeClaims: Map<HolderKey, IncomeClaimStruct>
+        proposals: Map<bigint | number, ProposalStruct>
+        votes: Map<VoteKey, VoteStruct>
+        allowlist: Map<string, bigint>
+        lockups: Map<HolderKey, LockupStruct>
+        priceTiers: Map<bigint | number, [bigint, bigint, bigint][]>
+        pendingOwners: Map<bigint | number, string>
+        ownerListings: Map<string, bigint[]>
+        listingPages: Map<bigint | number, bigint[]>
+        buyouts: Map<bigint | number, BuyoutStruct>
+        activeBuyouts: Map<bigint | number, bigint>
+        buyoutVotes: Map<BuyoutVoteKey, VoteStruct>
+        reservations: Map<HolderKey, ReservationStruct>
+        referralEarnings: Map<ReferralKey, bigint>
+        appraisers: Map<bigint | number, string>
+        valuations: Map<bigint | number, [bigint, bigint, Uint8Array][]>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type FractionalRealEstateSignatures = keyof FractionalRealEstateTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type FractionalRealEstateNonVoidMethodSignatures = keyof FractionalRealEstateTypes['methods'] extends infer T ? T extends keyof FractionalRealEstateTypes['methods'] ? MethodReturn<T> extends void ? never : T  : never : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> &
+    {
+      /** The args for the ABI method call, either as an ordered array or an object */
+      args: Expand<TArgs>
+    }
+>
+/**
+ * Maps a method signature from the FractionalRealEstate smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends FractionalRealEstateSignatures> = FractionalRealEstateTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the FractionalRealEstate smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends FractionalRealEstateSignatures> = FractionalRealEstateTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = FractionalRealEstateTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = FractionalRealEstateTypes['state']['box']['keys']
+
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type FractionalRealEstateCreateCallParams =
+  | Expand<AppClientBareCallParams & {method?: never} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type FractionalRealEstateDeployParams = Expand<Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+  /**
+   * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+   */
+  createParams?: FractionalRealEstateCreateCallParams
+}>
+
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the FractionalRealEstate smart contract
+ */
+export abstract class FractionalRealEstateParamsFactory {
+  /**
+   * Constructs a no op call for the createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64 ABI method
+   *
+  * List a new property for fractional ownership. Creates an ASA representing shares
+  and stores property details in a BoxMap.
+  
+  With a funding goal the raise is all-or-nothing: purchases are escrowed in the app, the
+  lister can only withdraw them once the goal has sold, and if the deadline passes first
+  buyers can hand their shares back for a refund.
+  
+  A listing can be priced in an ASA such as a stablecoin instead of ALGO. The app opts in to
+  that asset the first time it is used, and the lister's MBR payment covers the opt-in.
+  
+  The share ASA points at off-chain metadata (deeds, appraisal, photos) following ARC-3, or
+  ARC-19 when the URL is a template-ipfs:// URL and the reserve address encodes the CID.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static createPropertyListing(params: CallParams<FractionalRealEstateArgs['obj']['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64'] | FractionalRealEstateArgs['tuple']['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.propertyAddress, params.args.shares, params.args.pricePerShare, params.args.fundingGoal, params.args.fundingDeadline, params.args.paymentAssetId, params.args.unitName, params.args.metadataUrl, params.args.metadataHash, params.args.metadataReserve, params.args.maxSharesPerAccount, params.args.minPurchase, params.args.lockupRounds, params.args.saleWindow, params.args.priceTiers, params.args.reservationPolicy, params.args.referralBps],
+    }
+  }
+  /**
+   * Constructs a no op call for the purchaseFromLister(uint64,uint64,pay,address)bool ABI method
+   *
+  * Purchase shares from the original lister of an ALGO-priced listing. Buyer must opt in to the ASA beforehand.
+  While a funding raise is open the payment is escrowed in the app instead of going to the owner.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static purchaseFromLister(params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromLister(uint64,uint64,pay,address)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromLister(uint64,uint64,pay,address)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'purchaseFromLister(uint64,uint64,pay,address)bool' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.shares, params.args.payment, params.args.referrer],
+    }
+  }
+  /**
+   * Constructs a no op call for the purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool ABI method
+   *
+  * Purchase shares from the original lister of a listing priced in an ASA. The owner (and the
+  treasury, when a platform fee is set) must be opted in to the payment asset.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static purchaseFromListerWithAsset(params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.shares, params.args.payment, params.args.referrer],
+    }
+  }
+  /**
+   * Constructs a no op call for the purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64 ABI method
+   *
+  * Buy primary shares of an ALGO-priced listing for at most a total price, so a reprice or a
+  tier running out between signing and landing can't overcharge the buyer. They pay the
+  maximum and get back whatever the shares cost less than that.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static purchaseUpTo(params: CallParams<FractionalRealEstateArgs['obj']['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.shares, params.args.maxTotal, params.args.allowPartialFill, params.args.payment, params.args.referrer],
+    }
+  }
+  /**
+   * Constructs a no op call for the purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64 ABI method
+   *
+   * Buy primary shares of a listing priced in an ASA for at most a total price, refunding the difference.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static purchaseUpToWithAsset(params: CallParams<FractionalRealEstateArgs['obj']['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.shares, params.args.maxTotal, params.args.allowPartialFill, params.args.payment, params.args.referrer],
+    }
+  }
+  /**
+   * Constructs a no op call for the purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64 ABI method
+   *
+  * Buy shares at an ALGO-priced Dutch auction. The price is set by the block the purchase lands in,
+  so the buyer pays for the shares at their maximum price and gets the difference back.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static purchaseAtAuction(params: CallParams<FractionalRealEstateArgs['obj']['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.shares, params.args.maxPricePerShare, params.args.payment, params.args.referrer],
+    }
+  }
+  /**
+   * Constructs a no op call for the purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64 ABI method
+   *
+   * Buy shares at a Dutch auction priced in an ASA, refunding the difference to the buyer's maximum price.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static purchaseAtAuctionWithAsset(params: CallParams<FractionalRealEstateArgs['obj']['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.shares, params.args.maxPricePerShare, params.args.payment, params.args.referrer],
+    }
+  }
+  /**
+   * Constructs a no op call for the withdrawProceeds(uint64)uint64 ABI method
+   *
+  * Pay the escrowed purchase proceeds out to the owner once the funding goal has sold.
+  The platform fee is taken here rather than at purchase, since a failed raise refunds in full.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static withdrawProceeds(params: CallParams<FractionalRealEstateArgs['obj']['withdrawProceeds(uint64)uint64'] | FractionalRealEstateArgs['tuple']['withdrawProceeds(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'withdrawProceeds(uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the claimRefund(uint64,uint64)uint64 ABI method
+   *
+  * Hand shares back after a failed raise and get the purchase price refunded.
+  The shares are taken back from the caller's holding, including any still locked up.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static claimRefund(params: CallParams<FractionalRealEstateArgs['obj']['claimRefund(uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['claimRefund(uint64,uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'claimRefund(uint64,uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.shares],
+    }
+  }
+  /**
+   * Constructs a no op call for the setFeeBps(uint64)void ABI method
+   *
+  * Set the platform fee taken from primary sales, in basis points. Only the admin can
+  change it, and a treasury must be set before a non-zero fee.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setFeeBps(params: CallParams<FractionalRealEstateArgs['obj']['setFeeBps(uint64)void'] | FractionalRealEstateArgs['tuple']['setFeeBps(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setFeeBps(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.feeBps],
+    }
+  }
+  /**
+   * Constructs a no op call for the setTreasury(address)void ABI method
+   *
+   * Set the account platform fees are paid to. Only the admin can change it.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setTreasury(params: CallParams<FractionalRealEstateArgs['obj']['setTreasury(address)void'] | FractionalRealEstateArgs['tuple']['setTreasury(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setTreasury(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.treasury],
+    }
+  }
+  /**
+   * Constructs a no op call for the transferAdmin(address)void ABI method
+   *
+  * Start handing the admin role to another account. The handover only completes once that
+  account calls acceptAdmin, so a mistyped address can't lock the admin out.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static transferAdmin(params: CallParams<FractionalRealEstateArgs['obj']['transferAdmin(address)void'] | FractionalRealEstateArgs['tuple']['transferAdmin(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'transferAdmin(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.newAdmin],
+    }
+  }
+  /**
+   * Constructs a no op call for the acceptAdmin()void ABI method
+   *
+   * Complete an admin handover. Only the pending admin can accept.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static acceptAdmin(params: CallParams<FractionalRealEstateArgs['obj']['acceptAdmin()void'] | FractionalRealEstateArgs['tuple']['acceptAdmin()void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'acceptAdmin()void' as const,
+      args: Array.isArray(params.args) ? params.args : [],
+    }
+  }
+  /**
+   * Constructs a no op call for the pause()void ABI method
+   *
+   * Emergency stop: block listing, primary purchases and delisting until unpaused.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static pause(params: CallParams<FractionalRealEstateArgs['obj']['pause()void'] | FractionalRealEstateArgs['tuple']['pause()void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'pause()void' as const,
+      args: Array.isArray(params.args) ? params.args : [],
+    }
+  }
+  /**
+   * Constructs a no op call for the unpause()void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static unpause(params: CallParams<FractionalRealEstateArgs['obj']['unpause()void'] | FractionalRealEstateArgs['tuple']['unpause()void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'unpause()void' as const,
+      args: Array.isArray(params.args) ? params.args : [],
+    }
+  }
+  /**
+   * Constructs a no op call for the setCompliance(address)void ABI method
+   *
+   * Hand the compliance role to another account. Only the admin can change it.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setCompliance(params: CallParams<FractionalRealEstateArgs['obj']['setCompliance(address)void'] | FractionalRealEstateArgs['tuple']['setCompliance(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setCompliance(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.compliance],
+    }
+  }
+  /**
+   * Constructs a no op call for the approveAccount(pay,address)void ABI method
+   *
+  * Add an account that has passed KYC to the allowlist. Only the compliance officer can approve
+  accounts, and pays the allowlist box MBR.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static approveAccount(params: CallParams<FractionalRealEstateArgs['obj']['approveAccount(pay,address)void'] | FractionalRealEstateArgs['tuple']['approveAccount(pay,address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'approveAccount(pay,address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.account],
+    }
+  }
+  /**
+   * Constructs a no op call for the revokeAccount(address)void ABI method
+   *
+  * Take an account off the allowlist and refund the box MBR to the compliance officer.
+  A revoked account can't receive shares or transfer them to anyone else, but can still hand
+  them back to the app, such as to sell, vote or redeem them.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static revokeAccount(params: CallParams<FractionalRealEstateArgs['obj']['revokeAccount(address)void'] | FractionalRealEstateArgs['tuple']['revokeAccount(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'revokeAccount(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.account],
+    }
+  }
+  /**
+   * Constructs a no op call for the transferShares(uint64,address,uint64)void ABI method
+   *
+  * Transfer shares to another account. Holdings are frozen, so this is how holders move shares
+  between themselves: both accounts must be KYC approved, the receiver opted in to the ASA, and
+  locked up shares stay put. Income is settled on both holdings as the shares move, so
+  each side is paid for exactly the shares it held.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static transferShares(params: CallParams<FractionalRealEstateArgs['obj']['transferShares(uint64,address,uint64)void'] | FractionalRealEstateArgs['tuple']['transferShares(uint64,address,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'transferShares(uint64,address,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.receiver, params.args.shares],
+    }
+  }
+  /**
+   * Constructs a no op call for the isApproved(address)bool ABI method
+   *
+   * Whether an account is on the KYC allowlist.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static isApproved(params: CallParams<FractionalRealEstateArgs['obj']['isApproved(address)bool'] | FractionalRealEstateArgs['tuple']['isApproved(address)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'isApproved(address)bool' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.account],
+    }
+  }
+  /**
+   * Constructs a no op call for the registerLockup(pay,uint64)void ABI method
+   *
+  * Set up the caller's lockup record before buying into a listing with a lockup period.
+  The caller pays the box MBR, which is refunded by unlockShares.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static registerLockup(params: CallParams<FractionalRealEstateArgs['obj']['registerLockup(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerLockup(pay,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'registerLockup(pay,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the unlockShares(uint64)void ABI method
+   *
+  * Close the caller's lockup once it has ended and refund the lockup box MBR. The shares can
+  move as soon as the unlock round is reached; this only pays the box MBR back.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static unlockShares(params: CallParams<FractionalRealEstateArgs['obj']['unlockShares(uint64)void'] | FractionalRealEstateArgs['tuple']['unlockShares(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'unlockShares(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the getLockup(uint64,address)(uint64,uint64) ABI method
+   *
+   * A holder's locked shares and the round they unlock in. Both are 0 without a lockup.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getLockup(params: CallParams<FractionalRealEstateArgs['obj']['getLockup(uint64,address)(uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getLockup(uint64,address)(uint64,uint64)']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getLockup(uint64,address)(uint64,uint64)' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.holder],
+    }
+  }
+  /**
+   * Constructs a no op call for the getPlatformFee()(uint64,address) ABI method
+   *
+   * Current platform fee and treasury. The treasury is the zero address until one is set.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getPlatformFee(params: CallParams<FractionalRealEstateArgs['obj']['getPlatformFee()(uint64,address)'] | FractionalRealEstateArgs['tuple']['getPlatformFee()(uint64,address)']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getPlatformFee()(uint64,address)' as const,
+      args: Array.isArray(params.args) ? params.args : [],
+    }
+  }
+  /**
+   * Constructs a no op call for the updatePrice(uint64,uint64)void ABI method
+   *
+   * Change the primary sale price. Only the owner can reprice, and only while the sale is open.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static updatePrice(params: CallParams<FractionalRealEstateArgs['obj']['updatePrice(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['updatePrice(uint64,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'updatePrice(uint64,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.pricePerShare],
+    }
+  }
+  /**
+   * Constructs a no op call for the withdrawShares(uint64,uint64)void ABI method
+   *
+  * Take unsold shares back out of the primary sale. The owner must be KYC approved and opted in to the ASA.
+  Refunds are paid for any shares handed back, so unsold shares stay in the app until the
+  funding goal has sold.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static withdrawShares(params: CallParams<FractionalRealEstateArgs['obj']['withdrawShares(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawShares(uint64,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'withdrawShares(uint64,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.shares],
+    }
+  }
+  /**
+   * Constructs a no op call for the topUpShares(uint64,uint64)void ABI method
+   *
+   * Put shares the owner holds back up for primary sale. The shares are taken from the owner's holding.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static topUpShares(params: CallParams<FractionalRealEstateArgs['obj']['topUpShares(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['topUpShares(uint64,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'topUpShares(uint64,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.shares],
+    }
+  }
+  /**
+   * Constructs a no op call for the closePrimarySale(uint64)void ABI method
+   *
+  * End the primary sale. Unsold shares go back to the owner, and the listing stays in place
+  for the holders so resale, income and governance keep working. A sale with a funding goal
+  can't be closed until the goal has sold, for the same reason as withdrawShares.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static closePrimarySale(params: CallParams<FractionalRealEstateArgs['obj']['closePrimarySale(uint64)void'] | FractionalRealEstateArgs['tuple']['closePrimarySale(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'closePrimarySale(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the transferOwnership(pay,uint64,address)void ABI method
+   *
+  * Start handing a listing over to a new owner, such as a company multisig or a new manager.
+  The handover only happens once the new owner accepts, so a mistyped address can't take
+  control. The owner pays for the pending transfer box and gets it back when it is settled.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static transferOwnership(params: CallParams<FractionalRealEstateArgs['obj']['transferOwnership(pay,uint64,address)void'] | FractionalRealEstateArgs['tuple']['transferOwnership(pay,uint64,address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'transferOwnership(pay,uint64,address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.propertyId, params.args.newOwner],
+    }
+  }
+  /**
+   * Constructs a no op call for the cancelOwnershipTransfer(uint64)void ABI method
+   *
+   * Call off a pending ownership transfer and get the MBR back.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static cancelOwnershipTransfer(params: CallParams<FractionalRealEstateArgs['obj']['cancelOwnershipTransfer(uint64)void'] | FractionalRealEstateArgs['tuple']['cancelOwnershipTransfer(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'cancelOwnershipTransfer(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the acceptOwnership(pay,uint64)void ABI method
+   *
+  * Take over a listing. From here on the new owner manages it, and receives primary sale
+  proceeds, escrowed raise funds and the rest of the owner's payouts. The previous owner gets
+  back the MBR of the pending transfer box and of the listing's entry in their index.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static acceptOwnership(params: CallParams<FractionalRealEstateArgs['obj']['acceptOwnership(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['acceptOwnership(pay,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'acceptOwnership(pay,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the getPendingOwner(uint64)address ABI method
+   *
+   * Account a pending ownership transfer would hand the listing to, or the zero address if there is none.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getPendingOwner(params: CallParams<FractionalRealEstateArgs['obj']['getPendingOwner(uint64)address'] | FractionalRealEstateArgs['tuple']['getPendingOwner(uint64)address']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getPendingOwner(uint64)address' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the delistProperty(uint64)void ABI method
+   *
+  * Delist a property. Only the owner can delist, and no shares can have been sold.
+  Deleting the boxes reclaims their MBR, which is paid back to the owner.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static delistProperty(params: CallParams<FractionalRealEstateArgs['obj']['delistProperty(uint64)void'] | FractionalRealEstateArgs['tuple']['delistProperty(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'delistProperty(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64) ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getPropertyInfo(params: CallParams<FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)'] | FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the getListingIds(uint64)uint64[] ABI method
+   *
+  * A page of up to 32 property IDs in the order they were listed, including any since delisted.
+  Pages run from 0 up to nextListingIndex / 32.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getListingIds(params: CallParams<FractionalRealEstateArgs['obj']['getListingIds(uint64)uint64[]'] | FractionalRealEstateArgs['tuple']['getListingIds(uint64)uint64[]']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getListingIds(uint64)uint64[]' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.page],
+    }
+  }
+  /**
+   * Constructs a no op call for the getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[] ABI method
+   *
+  * The listings for a batch of property IDs, skipping any that have been delisted. ABI returns
+  are capped at 1KB, so only a couple of listings fit in each call: a listing with the longest
+  address, unit name and metadata URL encodes to 488 bytes (254 + 128 + 8 + 96 + a 2-byte offset),
+  and two of those with the array's length prefix come to 978.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getProperties(params: CallParams<FractionalRealEstateArgs['obj']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]'] | FractionalRealEstateArgs['tuple']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyIds],
+    }
+  }
+  /**
+   * Constructs a no op call for the getOwnerListings(address)uint64[] ABI method
+   *
+   * IDs of the properties an account has listed or taken over, oldest first.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getOwnerListings(params: CallParams<FractionalRealEstateArgs['obj']['getOwnerListings(address)uint64[]'] | FractionalRealEstateArgs['tuple']['getOwnerListings(address)uint64[]']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getOwnerListings(address)uint64[]' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.owner],
+    }
+  }
+  /**
+   * Constructs a no op call for the getMarketStats()(uint64,uint64,uint64) ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getMarketStats(params: CallParams<FractionalRealEstateArgs['obj']['getMarketStats()(uint64,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getMarketStats()(uint64,uint64,uint64)']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getMarketStats()(uint64,uint64,uint64)' as const,
+      args: Array.isArray(params.args) ? params.args : [],
+    }
+  }
+  /**
+   * Constructs a no op call for the getCurrentPrice(uint64)uint64 ABI method
+   *
+   * Current primary sale price per share, which falls over time on a Dutch auction.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getCurrentPrice(params: CallParams<FractionalRealEstateArgs['obj']['getCurrentPrice(uint64)uint64'] | FractionalRealEstateArgs['tuple']['getCurrentPrice(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getCurrentPrice(uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the createSellOrder(pay,uint64,uint64,uint64)uint64 ABI method
+   *
+  * Post a resale order on the secondary market. The shares being sold are taken from the
+  seller's holding and escrowed in the app account until the order is filled or cancelled.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static createSellOrder(params: CallParams<FractionalRealEstateArgs['obj']['createSellOrder(pay,uint64,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createSellOrder(pay,uint64,uint64,uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'createSellOrder(pay,uint64,uint64,uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.propertyId, params.args.shares, params.args.pricePerShare],
+    }
+  }
+  /**
+   * Constructs a no op call for the fillSellOrder(uint64,uint64,pay)bool ABI method
+   *
+  * Buy shares out of a resale order. Payment goes to the seller and partial fills are allowed;
+  the order box is deleted once all of its shares are sold.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static fillSellOrder(params: CallParams<FractionalRealEstateArgs['obj']['fillSellOrder(uint64,uint64,pay)bool'] | FractionalRealEstateArgs['tuple']['fillSellOrder(uint64,uint64,pay)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'fillSellOrder(uint64,uint64,pay)bool' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.orderId, params.args.shares, params.args.payment],
+    }
+  }
+  /**
+   * Constructs a no op call for the cancelSellOrder(uint64)void ABI method
+   *
+   * Cancel a resale order. Only the seller can cancel; unsold shares are returned to them.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static cancelSellOrder(params: CallParams<FractionalRealEstateArgs['obj']['cancelSellOrder(uint64)void'] | FractionalRealEstateArgs['tuple']['cancelSellOrder(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'cancelSellOrder(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.orderId],
+    }
+  }
+  /**
+   * Constructs a no op call for the getSellOrder(uint64)(uint64,address,uint64,uint64) ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getSellOrder(params: CallParams<FractionalRealEstateArgs['obj']['getSellOrder(uint64)(uint64,address,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getSellOrder(uint64)(uint64,address,uint64,uint64)']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getSellOrder(uint64)(uint64,address,uint64,uint64)' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.orderId],
+    }
+  }
+  /**
+   * Constructs a no op call for the depositIncome(uint64,pay)void ABI method
+   *
+  * Deposit rental income for a property. Only the owner can deposit. The amount is spread over
+  the shares registered holders have in their holdings by growing a cumulative income-per-share
+  accumulator. Shares held by the app (unsold, escrowed in orders or votes) and unregistered
+  holders' shares don't earn. Whatever doesn't divide evenly, or all of it while no shares are
+  registered, is carried into the next deposit.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static depositIncome(params: CallParams<FractionalRealEstateArgs['obj']['depositIncome(uint64,pay)void'] | FractionalRealEstateArgs['tuple']['depositIncome(uint64,pay)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'depositIncome(uint64,pay)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.payment],
+    }
+  }
+  /**
+   * Constructs a no op call for the registerForIncome(pay,uint64)void ABI method
+   *
+  * Start earning income on a property, on the shares in the caller's holding. Income deposited
+  before registering is not claimable, since the app only settles the holdings of registered
+  holders as their shares move.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static registerForIncome(params: CallParams<FractionalRealEstateArgs['obj']['registerForIncome(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerForIncome(pay,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'registerForIncome(pay,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the unregisterForIncome(uint64)uint64 ABI method
+   *
+  * Stop earning income on a property. Pays out the caller's unclaimed income along with the
+  claim box MBR, including after the property has been delisted. Returns the income paid.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static unregisterForIncome(params: CallParams<FractionalRealEstateArgs['obj']['unregisterForIncome(uint64)uint64'] | FractionalRealEstateArgs['tuple']['unregisterForIncome(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'unregisterForIncome(uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the claimIncome(uint64)uint64 ABI method
+   *
+  * Pay out the caller's share of income deposited since their last claim. Returns the amount paid.
+  Nothing more can be earned on a delisted property, so claiming on one also closes the claim.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static claimIncome(params: CallParams<FractionalRealEstateArgs['obj']['claimIncome(uint64)uint64'] | FractionalRealEstateArgs['tuple']['claimIncome(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'claimIncome(uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the getUnclaimedIncome(uint64,address)uint64 ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getUnclaimedIncome(params: CallParams<FractionalRealEstateArgs['obj']['getUnclaimedIncome(uint64,address)uint64'] | FractionalRealEstateArgs['tuple']['getUnclaimedIncome(uint64,address)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getUnclaimedIncome(uint64,address)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.holder],
+    }
+  }
+  /**
+   * Constructs a no op call for the createProposal(pay,uint64,string,uint64)uint64 ABI method
+   *
+  * Open a governance proposal for a property's co-owners. Only holders of the property's shares
+  can propose. The quorum is fixed from the share supply when the proposal is created.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static createProposal(params: CallParams<FractionalRealEstateArgs['obj']['createProposal(pay,uint64,string,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createProposal(pay,uint64,string,uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'createProposal(pay,uint64,string,uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.propertyId, params.args.description, params.args.deadlineRound],
+    }
+  }
+  /**
+   * Constructs a no op call for the castVote(pay,uint64,uint64,bool)void ABI method
+   *
+  * Vote on a proposal, weighted by the shares voted with. The shares are taken from the voter's
+  holding and stay locked in the app until the deadline has passed, so the same shares can't be
+  moved and voted again. Locked shares don't earn income until they're withdrawn.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static castVote(params: CallParams<FractionalRealEstateArgs['obj']['castVote(pay,uint64,uint64,bool)void'] | FractionalRealEstateArgs['tuple']['castVote(pay,uint64,uint64,bool)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'castVote(pay,uint64,uint64,bool)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.proposalId, params.args.shares, params.args.support],
+    }
+  }
+  /**
+   * Constructs a no op call for the finalizeProposal(uint64)uint64 ABI method
+   *
+  * Record the outcome of a proposal once voting has closed. Anyone can finalize. With no votes
+  left to withdraw the proposal is done with, so its box is deleted and the MBR goes back to the proposer.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static finalizeProposal(params: CallParams<FractionalRealEstateArgs['obj']['finalizeProposal(uint64)uint64'] | FractionalRealEstateArgs['tuple']['finalizeProposal(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'finalizeProposal(uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.proposalId],
+    }
+  }
+  /**
+   * Constructs a no op call for the withdrawVote(uint64)void ABI method
+   *
+  * Unlock the caller's voting shares after the deadline and refund the vote box MBR. The last
+  voter to withdraw from a finalized proposal also returns the proposal box MBR to the proposer.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static withdrawVote(params: CallParams<FractionalRealEstateArgs['obj']['withdrawVote(uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawVote(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'withdrawVote(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.proposalId],
+    }
+  }
+  /**
+   * Constructs a no op call for the getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8) ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getProposal(params: CallParams<FractionalRealEstateArgs['obj']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)'] | FractionalRealEstateArgs['tuple']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.proposalId],
+    }
+  }
+  /**
+   * Constructs a no op call for the offerBuyout(pay,pay,uint64,uint64)uint64 ABI method
+   *
+  * Offer to buy out every share of a property. The offer amount is escrowed in the app and
+  holders vote on it with their shares until the deadline. A property has one active offer at
+  a time, open or accepted, and only once its primary sale has sold out or been closed. A new
+  offer can be made as soon as the previous one is rejected.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static offerBuyout(params: CallParams<FractionalRealEstateArgs['obj']['offerBuyout(pay,pay,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['offerBuyout(pay,pay,uint64,uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'offerBuyout(pay,pay,uint64,uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.payment, params.args.propertyId, params.args.deadlineRound],
+    }
+  }
+  /**
+   * Constructs a no op call for the voteOnBuyout(pay,uint64,uint64,bool)void ABI method
+   *
+  * Vote on a buyout offer, weighted by the shares voted with. The shares are taken from the
+  voter's holding and stay locked in the app: they are redeemed with the holder's other shares
+  if the buyout is accepted, and can be withdrawn if it is rejected. Locked shares don't earn income.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static voteOnBuyout(params: CallParams<FractionalRealEstateArgs['obj']['voteOnBuyout(pay,uint64,uint64,bool)void'] | FractionalRealEstateArgs['tuple']['voteOnBuyout(pay,uint64,uint64,bool)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'voteOnBuyout(pay,uint64,uint64,bool)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.buyoutId, params.args.shares, params.args.support],
+    }
+  }
+  /**
+   * Constructs a no op call for the finalizeBuyout(uint64)uint64 ABI method
+   *
+  * Decide a buyout. Anyone can finalize, as soon as more than half of all shares have voted for
+  it or otherwise once voting has closed. An accepted buyout closes the primary sale for good;
+  a rejected one pays the escrowed offer back to the bidder and frees the property for a new offer.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static finalizeBuyout(params: CallParams<FractionalRealEstateArgs['obj']['finalizeBuyout(uint64)uint64'] | FractionalRealEstateArgs['tuple']['finalizeBuyout(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'finalizeBuyout(uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.buyoutId],
+    }
+  }
+  /**
+   * Constructs a no op call for the withdrawBuyoutVote(uint64)void ABI method
+   *
+  * Unlock the caller's voting shares after a buyout was rejected and refund the vote box MBR.
+  The last voter to withdraw also returns the buyout box MBR to the bidder.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static withdrawBuyoutVote(params: CallParams<FractionalRealEstateArgs['obj']['withdrawBuyoutVote(uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawBuyoutVote(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'withdrawBuyoutVote(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.buyoutId],
+    }
+  }
+  /**
+   * Constructs a no op call for the redeemBuyout(uint64,uint64)uint64 ABI method
+   *
+  * Hand shares in to an accepted buyout for their pro-rata share of the offer. Shares locked in
+  the caller's vote are redeemed along with the shares taken from their holding, and the caller's
+  unclaimed income and box MBR are paid out with it. Redeemed shares stay in the app.
+  Once every share is redeemed the listing is closed, with its MBR going back to the owner and
+  the buyout box MBRs to the bidder.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static redeemBuyout(params: CallParams<FractionalRealEstateArgs['obj']['redeemBuyout(uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['redeemBuyout(uint64,uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'redeemBuyout(uint64,uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.buyoutId, params.args.shares],
+    }
+  }
+  /**
+   * Constructs a no op call for the getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8) ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getBuyout(params: CallParams<FractionalRealEstateArgs['obj']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)'] | FractionalRealEstateArgs['tuple']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.buyoutId],
+    }
+  }
+  /**
+   * Constructs a no op call for the getActiveBuyout(uint64)uint64 ABI method
+   *
+   * The ID of a property's open or accepted buyout offer, or 0 if it has none.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getActiveBuyout(params: CallParams<FractionalRealEstateArgs['obj']['getActiveBuyout(uint64)uint64'] | FractionalRealEstateArgs['tuple']['getActiveBuyout(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getActiveBuyout(uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the reserveShares(pay,uint64,uint64,pay)uint64 ABI method
+   *
+  * Reserve primary shares of an ALGO-priced listing for buyers whose funds take a while to settle.
+  The shares are held back from sale at today's price for the listing's reservation period, on a
+  deposit of at least the listing's deposit rate; completeReservation pays the rest and hands them over.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static reserveShares(params: CallParams<FractionalRealEstateArgs['obj']['reserveShares(pay,uint64,uint64,pay)uint64'] | FractionalRealEstateArgs['tuple']['reserveShares(pay,uint64,uint64,pay)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'reserveShares(pay,uint64,uint64,pay)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.propertyId, params.args.shares, params.args.deposit],
+    }
+  }
+  /**
+   * Constructs a no op call for the reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64 ABI method
+   *
+   * Reserve primary shares of a listing priced in an ASA, paying the deposit in that asset.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static reserveSharesWithAsset(params: CallParams<FractionalRealEstateArgs['obj']['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64'] | FractionalRealEstateArgs['tuple']['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.propertyId, params.args.shares, params.args.deposit],
+    }
+  }
+  /**
+   * Constructs a no op call for the completeReservation(uint64,pay)uint64 ABI method
+   *
+   * Pay the rest of an ALGO-priced reservation and receive the shares. The reservation box MBR is refunded.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static completeReservation(params: CallParams<FractionalRealEstateArgs['obj']['completeReservation(uint64,pay)uint64'] | FractionalRealEstateArgs['tuple']['completeReservation(uint64,pay)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'completeReservation(uint64,pay)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.payment],
+    }
+  }
+  /**
+   * Constructs a no op call for the completeReservationWithAsset(uint64,axfer)uint64 ABI method
+   *
+   * Pay the rest of a reservation in the listing's payment asset and receive the shares.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static completeReservationWithAsset(params: CallParams<FractionalRealEstateArgs['obj']['completeReservationWithAsset(uint64,axfer)uint64'] | FractionalRealEstateArgs['tuple']['completeReservationWithAsset(uint64,axfer)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'completeReservationWithAsset(uint64,axfer)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.payment],
+    }
+  }
+  /**
+   * Constructs a no op call for the expireReservation(uint64,address)void ABI method
+   *
+  * Release a reservation that ran out without being completed. Anyone can call this once it has
+  expired. The shares go back on sale, the deposit goes to the owner if the listing forfeits
+  deposits or back to the holder otherwise, and the holder gets the reservation box MBR back.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static expireReservation(params: CallParams<FractionalRealEstateArgs['obj']['expireReservation(uint64,address)void'] | FractionalRealEstateArgs['tuple']['expireReservation(uint64,address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'expireReservation(uint64,address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.holder],
+    }
+  }
+  /**
+   * Constructs a no op call for the getReservation(uint64,address)(uint64,uint64,uint64,uint64) ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getReservation(params: CallParams<FractionalRealEstateArgs['obj']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getReservation(uint64,address)(uint64,uint64,uint64,uint64)' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.holder],
+    }
+  }
+  /**
+   * Constructs a no op call for the registerReferrer(pay,uint64)void ABI method
+   *
+  * Sign up as a referral partner for listings priced in one currency, so purchases can name the
+  caller as their referrer. The partner pays the MBR for the box their earnings are tracked in,
+  and must be opted in to an ASA currency to be paid in it.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static registerReferrer(params: CallParams<FractionalRealEstateArgs['obj']['registerReferrer(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerReferrer(pay,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'registerReferrer(pay,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.paymentAssetId],
+    }
+  }
+  /**
+   * Constructs a no op call for the getReferralEarnings(address,uint64)uint64 ABI method
+   *
+   * Total referral commissions a partner has been paid in one currency, or 0 if they haven't registered for it.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getReferralEarnings(params: CallParams<FractionalRealEstateArgs['obj']['getReferralEarnings(address,uint64)uint64'] | FractionalRealEstateArgs['tuple']['getReferralEarnings(address,uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getReferralEarnings(address,uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.referrer, params.args.paymentAssetId],
+    }
+  }
+  /**
+   * Constructs a no op call for the setAppraiser(pay,uint64,address)void ABI method
+   *
+  * Appoint the account that posts valuations of a listing, or replace it. Pass the zero address
+  to stop valuations being posted. The first appointment pays the MBR for the appraiser box and
+  the valuation history box, which comes back to the owner when the listing closes.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAppraiser(params: CallParams<FractionalRealEstateArgs['obj']['setAppraiser(pay,uint64,address)void'] | FractionalRealEstateArgs['tuple']['setAppraiser(pay,uint64,address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAppraiser(pay,uint64,address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.propertyId, params.args.appraiser],
+    }
+  }
+  /**
+   * Constructs a no op call for the postValuation(uint64,uint64,uint64,byte[32])void ABI method
+   *
+  * Post a valuation of the whole property. Only the listing's appraiser can post, and valuations
+  must be posted in date order. Once the history is full the oldest valuation is dropped.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static postValuation(params: CallParams<FractionalRealEstateArgs['obj']['postValuation(uint64,uint64,uint64,byte[32])void'] | FractionalRealEstateArgs['tuple']['postValuation(uint64,uint64,uint64,byte[32])void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'postValuation(uint64,uint64,uint64,byte[32])void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId, params.args.totalValue, params.args.timestamp, params.args.documentHash],
+    }
+  }
+  /**
+   * Constructs a no op call for the getAppraiser(uint64)address ABI method
+   *
+   * Account that posts a listing's valuations, or the zero address if there is none.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getAppraiser(params: CallParams<FractionalRealEstateArgs['obj']['getAppraiser(uint64)address'] | FractionalRealEstateArgs['tuple']['getAppraiser(uint64)address']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getAppraiser(uint64)address' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the getLatestValuation(uint64)(uint64,uint64,byte[32]) ABI method
+   *
+   * A listing's most recent valuation. NAV per share is its totalValue over the listing's totalShares.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getLatestValuation(params: CallParams<FractionalRealEstateArgs['obj']['getLatestValuation(uint64)(uint64,uint64,byte[32])'] | FractionalRealEstateArgs['tuple']['getLatestValuation(uint64)(uint64,uint64,byte[32])']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getLatestValuation(uint64)(uint64,uint64,byte[32])' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
+    }
+  }
+  /**
+   * Constructs a no op call for the getValuationHistory(uint64)(uint64,uint64,byte[32])[] ABI method
+   *
+   * Up to the last 12 valuations of a listing, oldest first.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getValuationHistory(params: CallParams<FractionalRealEstateArgs['obj']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]'] | FractionalRealEstateArgs['tuple']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getValuationHistory(uint64)(uint64,uint64,byte[32])[]' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.propertyId],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the FractionalRealEstate smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class FractionalRealEstateFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `FractionalRealEstateFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+  
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+  
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new FractionalRealEstateClient(this.appFactory.getAppClientById(params))
+  }
+  
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(
+    params: AppFactoryResolveAppClientByCreatorAndNameParams,
+  ) {
+    return new FractionalRealEstateClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the FractionalRealEstate smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: FractionalRealEstateDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+    })
+    return { result: result.result, appClient: new FractionalRealEstateClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the FractionalRealEstate smart contract using a bare call.
+       *
+       * @param params The params for the bare (raw) call
+       * @returns The params for a create call
+       */
+      bare: (params?: Expand<AppClientBareCallParams & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC}>) => {
+        return this.appFactory.params.bare.create(params)
+      },
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the FractionalRealEstate smart contract using a bare call.
+       *
+       * @param params The params for the bare (raw) call
+       * @returns The transaction for a create call
+       */
+      bare: (params?: Expand<AppClientBareCallParams & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC}>) => {
+        return this.appFactory.createTransaction.bare.create(params)
+      },
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the FractionalRealEstate smart contract using a bare call.
+       *
+       * @param params The params for the bare (raw) call
+       * @returns The create result
+       */
+      bare: async (params?: Expand<AppClientBareCallParams & AppClientCompilationParams & CreateSchema & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}>) => {
+        const result = await this.appFactory.send.bare.create(params)
+        return { result: result.result, appClient: new FractionalRealEstateClient(result.appClient) }
+      },
+    },
+
+  }
+
+}
+/**
+ * A client to make calls to the FractionalRealEstate smart contract
+ */
+export class FractionalRealEstateClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `FractionalRealEstateClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the FractionalRealEstate app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `FractionalRealEstateClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient = appClientOrParams instanceof _AppClient ? appClientOrParams : new _AppClient({
+      ...appClientOrParams,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends FractionalRealEstateNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs) : undefined
+  }
+
+  /**
+   * Returns a new `FractionalRealEstateClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<FractionalRealEstateClient> {
+    return new FractionalRealEstateClient(await _AppClient.fromCreatorAndName({...params, appSpec: APP_SPEC}))
+  }
+  
+  /**
+   * Returns an `FractionalRealEstateClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(
+    params: Omit<ResolveAppClientByNetwork, 'appSpec'>
+  ): Promise<FractionalRealEstateClient> {
+    return new FractionalRealEstateClient(await _AppClient.fromNetwork({...params, appSpec: APP_SPEC}))
+  }
+  
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+  
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+  
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the FractionalRealEstate smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64` ABI method.
+     *
+    * List a new property for fractional ownership. Creates an ASA representing shares
+    and stores property details in a BoxMap.
+    
+    With a funding goal the raise is all-or-nothing: purchases are escrowed in the app, the
+    lister can only withdraw them once the goal has sold, and if the deadline passes first
+    buyers can hand their shares back for a refund.
+    
+    A listing can be priced in an ASA such as a stablecoin instead of ALGO. The app opts in to
+    that asset the first time it is used, and the lister's MBR payment covers the opt-in.
+    
+    The share ASA points at off-chain metadata (deeds, appraisal, photos) following ARC-3, or
+    ARC-19 when the URL is a template-ipfs:// URL and the reserve address encodes the CID.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    createPropertyListing: (params: CallParams<FractionalRealEstateArgs['obj']['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64'] | FractionalRealEstateArgs['tuple']['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.createPropertyListing(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseFromLister(uint64,uint64,pay,address)bool` ABI method.
+     *
+    * Purchase shares from the original lister of an ALGO-priced listing. Buyer must opt in to the ASA beforehand.
+    While a funding raise is open the payment is escrowed in the app instead of going to the owner.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    purchaseFromLister: (params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromLister(uint64,uint64,pay,address)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromLister(uint64,uint64,pay,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.purchaseFromLister(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool` ABI method.
+     *
+    * Purchase shares from the original lister of a listing priced in an ASA. The owner (and the
+    treasury, when a platform fee is set) must be opted in to the payment asset.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    purchaseFromListerWithAsset: (params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.purchaseFromListerWithAsset(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64` ABI method.
+     *
+    * Buy primary shares of an ALGO-priced listing for at most a total price, so a reprice or a
+    tier running out between signing and landing can't overcharge the buyer. They pay the
+    maximum and get back whatever the shares cost less than that.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params: The number of shares bought
+     */
+    purchaseUpTo: (params: CallParams<FractionalRealEstateArgs['obj']['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.purchaseUpTo(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64` ABI method.
+     *
+     * Buy primary shares of a listing priced in an ASA for at most a total price, refunding the difference.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params: The number of shares bought
+     */
+    purchaseUpToWithAsset: (params: CallParams<FractionalRealEstateArgs['obj']['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.purchaseUpToWithAsset(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64` ABI method.
+     *
+    * Buy shares at an ALGO-priced Dutch auction. The price is set by the block the purchase lands in,
+    so the buyer pays for the shares at their maximum price and gets the difference back.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params: The price per share the shares were bought at
+     */
+    purchaseAtAuction: (params: CallParams<FractionalRealEstateArgs['obj']['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.purchaseAtAuction(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64` ABI method.
+     *
+     * Buy shares at a Dutch auction priced in an ASA, refunding the difference to the buyer's maximum price.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params: The price per share the shares were bought at
+     */
+    purchaseAtAuctionWithAsset: (params: CallParams<FractionalRealEstateArgs['obj']['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.purchaseAtAuctionWithAsset(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `withdrawProceeds(uint64)uint64` ABI method.
+     *
+    * Pay the escrowed purchase proceeds out to the owner once the funding goal has sold.
+    The platform fee is taken here rather than at purchase, since a failed raise refunds in full.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    withdrawProceeds: (params: CallParams<FractionalRealEstateArgs['obj']['withdrawProceeds(uint64)uint64'] | FractionalRealEstateArgs['tuple']['withdrawProceeds(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.withdrawProceeds(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `claimRefund(uint64,uint64)uint64` ABI method.
+     *
+    * Hand shares back after a failed raise and get the purchase price refunded.
+    The shares are taken back from the caller's holding, including any still locked up.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    claimRefund: (params: CallParams<FractionalRealEstateArgs['obj']['claimRefund(uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['claimRefund(uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.claimRefund(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `setFeeBps(uint64)void` ABI method.
+     *
+    * Set the platform fee taken from primary sales, in basis points. Only the admin can
+    change it, and a treasury must be set before a non-zero fee.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setFeeBps: (params: CallParams<FractionalRealEstateArgs['obj']['setFeeBps(uint64)void'] | FractionalRealEstateArgs['tuple']['setFeeBps(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.setFeeBps(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `setTreasury(address)void` ABI method.
+     *
+     * Set the account platform fees are paid to. Only the admin can change it.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setTreasury: (params: CallParams<FractionalRealEstateArgs['obj']['setTreasury(address)void'] | FractionalRealEstateArgs['tuple']['setTreasury(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.setTreasury(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `transferAdmin(address)void` ABI method.
+     *
+    * Start handing the admin role to another account. The handover only completes once that
+    account calls acceptAdmin, so a mistyped address can't lock the admin out.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    transferAdmin: (params: CallParams<FractionalRealEstateArgs['obj']['transferAdmin(address)void'] | FractionalRealEstateArgs['tuple']['transferAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.transferAdmin(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `acceptAdmin()void` ABI method.
+     *
+     * Complete an admin handover. Only the pending admin can accept.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    acceptAdmin: (params: CallParams<FractionalRealEstateArgs['obj']['acceptAdmin()void'] | FractionalRealEstateArgs['tuple']['acceptAdmin()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.acceptAdmin(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `pause()void` ABI method.
+     *
+     * Emergency stop: block listing, primary purchases and delisting until unpaused.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    pause: (params: CallParams<FractionalRealEstateArgs['obj']['pause()void'] | FractionalRealEstateArgs['tuple']['pause()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.pause(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `unpause()void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    unpause: (params: CallParams<FractionalRealEstateArgs['obj']['unpause()void'] | FractionalRealEstateArgs['tuple']['unpause()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.unpause(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `setCompliance(address)void` ABI method.
+     *
+     * Hand the compliance role to another account. Only the admin can change it.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setCompliance: (params: CallParams<FractionalRealEstateArgs['obj']['setCompliance(address)void'] | FractionalRealEstateArgs['tuple']['setCompliance(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.setCompliance(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `approveAccount(pay,address)void` ABI method.
+     *
+    * Add an account that has passed KYC to the allowlist. Only the compliance officer can approve
+    accounts, and pays the allowlist box MBR.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    approveAccount: (params: CallParams<FractionalRealEstateArgs['obj']['approveAccount(pay,address)void'] | FractionalRealEstateArgs['tuple']['approveAccount(pay,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.approveAccount(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `revokeAccount(address)void` ABI method.
+     *
+    * Take an account off the allowlist and refund the box MBR to the compliance officer.
+    A revoked account can't receive shares or transfer them to anyone else, but can still hand
+    them back to the app, such as to sell, vote or redeem them.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    revokeAccount: (params: CallParams<FractionalRealEstateArgs['obj']['revokeAccount(address)void'] | FractionalRealEstateArgs['tuple']['revokeAccount(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.revokeAccount(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `transferShares(uint64,address,uint64)void` ABI method.
+     *
+    * Transfer shares to another account. Holdings are frozen, so this is how holders move shares
+    between themselves: both accounts must be KYC approved, the receiver opted in to the ASA, and
+    locked up shares stay put. Income is settled on both holdings as the shares move, so
+    each side is paid for exactly the shares it held.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    transferShares: (params: CallParams<FractionalRealEstateArgs['obj']['transferShares(uint64,address,uint64)void'] | FractionalRealEstateArgs['tuple']['transferShares(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.transferShares(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `isApproved(address)bool` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Whether an account is on the KYC allowlist.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    isApproved: (params: CallParams<FractionalRealEstateArgs['obj']['isApproved(address)bool'] | FractionalRealEstateArgs['tuple']['isApproved(address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.isApproved(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `registerLockup(pay,uint64)void` ABI method.
+     *
+    * Set up the caller's lockup record before buying into a listing with a lockup period.
+    The caller pays the box MBR, which is refunded by unlockShares.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    registerLockup: (params: CallParams<FractionalRealEstateArgs['obj']['registerLockup(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerLockup(pay,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.registerLockup(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `unlockShares(uint64)void` ABI method.
+     *
+    * Close the caller's lockup once it has ended and refund the lockup box MBR. The shares can
+    move as soon as the unlock round is reached; this only pays the box MBR back.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    unlockShares: (params: CallParams<FractionalRealEstateArgs['obj']['unlockShares(uint64)void'] | FractionalRealEstateArgs['tuple']['unlockShares(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.unlockShares(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getLockup(uint64,address)(uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * A holder's locked shares and the round they unlock in. Both are 0 without a lockup.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getLockup: (params: CallParams<FractionalRealEstateArgs['obj']['getLockup(uint64,address)(uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getLockup(uint64,address)(uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getLockup(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getPlatformFee()(uint64,address)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Current platform fee and treasury. The treasury is the zero address until one is set.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getPlatformFee: (params: CallParams<FractionalRealEstateArgs['obj']['getPlatformFee()(uint64,address)'] | FractionalRealEstateArgs['tuple']['getPlatformFee()(uint64,address)']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getPlatformFee(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `updatePrice(uint64,uint64)void` ABI method.
+     *
+     * Change the primary sale price. Only the owner can reprice, and only while the sale is open.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    updatePrice: (params: CallParams<FractionalRealEstateArgs['obj']['updatePrice(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['updatePrice(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.updatePrice(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `withdrawShares(uint64,uint64)void` ABI method.
+     *
+    * Take unsold shares back out of the primary sale. The owner must be KYC approved and opted in to the ASA.
+    Refunds are paid for any shares handed back, so unsold shares stay in the app until the
+    funding goal has sold.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    withdrawShares: (params: CallParams<FractionalRealEstateArgs['obj']['withdrawShares(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawShares(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.withdrawShares(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `topUpShares(uint64,uint64)void` ABI method.
+     *
+     * Put shares the owner holds back up for primary sale. The shares are taken from the owner's holding.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    topUpShares: (params: CallParams<FractionalRealEstateArgs['obj']['topUpShares(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['topUpShares(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.topUpShares(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `closePrimarySale(uint64)void` ABI method.
+     *
+    * End the primary sale. Unsold shares go back to the owner, and the listing stays in place
+    for the holders so resale, income and governance keep working. A sale with a funding goal
+    can't be closed until the goal has sold, for the same reason as withdrawShares.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    closePrimarySale: (params: CallParams<FractionalRealEstateArgs['obj']['closePrimarySale(uint64)void'] | FractionalRealEstateArgs['tuple']['closePrimarySale(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.closePrimarySale(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `transferOwnership(pay,uint64,address)void` ABI method.
+     *
+    * Start handing a listing over to a new owner, such as a company multisig or a new manager.
+    The handover only happens once the new owner accepts, so a mistyped address can't take
+    control. The owner pays for the pending transfer box and gets it back when it is settled.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    transferOwnership: (params: CallParams<FractionalRealEstateArgs['obj']['transferOwnership(pay,uint64,address)void'] | FractionalRealEstateArgs['tuple']['transferOwnership(pay,uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.transferOwnership(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `cancelOwnershipTransfer(uint64)void` ABI method.
+     *
+     * Call off a pending ownership transfer and get the MBR back.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    cancelOwnershipTransfer: (params: CallParams<FractionalRealEstateArgs['obj']['cancelOwnershipTransfer(uint64)void'] | FractionalRealEstateArgs['tuple']['cancelOwnershipTransfer(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.cancelOwnershipTransfer(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `acceptOwnership(pay,uint64)void` ABI method.
+     *
+    * Take over a listing. From here on the new owner manages it, and receives primary sale
+    proceeds, escrowed raise funds and the rest of the owner's payouts. The previous owner gets
+    back the MBR of the pending transfer box and of the listing's entry in their index.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    acceptOwnership: (params: CallParams<FractionalRealEstateArgs['obj']['acceptOwnership(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['acceptOwnership(pay,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.acceptOwnership(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getPendingOwner(uint64)address` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Account a pending ownership transfer would hand the listing to, or the zero address if there is none.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getPendingOwner: (params: CallParams<FractionalRealEstateArgs['obj']['getPendingOwner(uint64)address'] | FractionalRealEstateArgs['tuple']['getPendingOwner(uint64)address']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getPendingOwner(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `delistProperty(uint64)void` ABI method.
+     *
+    * Delist a property. Only the owner can delist, and no shares can have been sold.
+    Deleting the boxes reclaims their MBR, which is paid back to the owner.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    delistProperty: (params: CallParams<FractionalRealEstateArgs['obj']['delistProperty(uint64)void'] | FractionalRealEstateArgs['tuple']['delistProperty(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.delistProperty(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getPropertyInfo: (params: CallParams<FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)'] | FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getPropertyInfo(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getListingIds(uint64)uint64[]` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+    * A page of up to 32 property IDs in the order they were listed, including any since delisted.
+    Pages run from 0 up to nextListingIndex / 32.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getListingIds: (params: CallParams<FractionalRealEstateArgs['obj']['getListingIds(uint64)uint64[]'] | FractionalRealEstateArgs['tuple']['getListingIds(uint64)uint64[]']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getListingIds(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+    * The listings for a batch of property IDs, skipping any that have been delisted. ABI returns
+    are capped at 1KB, so only a couple of listings fit in each call: a listing with the longest
+    address, unit name and metadata URL encodes to 488 bytes (254 + 128 + 8 + 96 + a 2-byte offset),
+    and two of those with the array's length prefix come to 978.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getProperties: (params: CallParams<FractionalRealEstateArgs['obj']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]'] | FractionalRealEstateArgs['tuple']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getProperties(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getOwnerListings(address)uint64[]` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * IDs of the properties an account has listed or taken over, oldest first.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getOwnerListings: (params: CallParams<FractionalRealEstateArgs['obj']['getOwnerListings(address)uint64[]'] | FractionalRealEstateArgs['tuple']['getOwnerListings(address)uint64[]']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getOwnerListings(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getMarketStats()(uint64,uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getMarketStats: (params: CallParams<FractionalRealEstateArgs['obj']['getMarketStats()(uint64,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getMarketStats()(uint64,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getMarketStats(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getCurrentPrice(uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Current primary sale price per share, which falls over time on a Dutch auction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getCurrentPrice: (params: CallParams<FractionalRealEstateArgs['obj']['getCurrentPrice(uint64)uint64'] | FractionalRealEstateArgs['tuple']['getCurrentPrice(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getCurrentPrice(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `createSellOrder(pay,uint64,uint64,uint64)uint64` ABI method.
+     *
+    * Post a resale order on the secondary market. The shares being sold are taken from the
+    seller's holding and escrowed in the app account until the order is filled or cancelled.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    createSellOrder: (params: CallParams<FractionalRealEstateArgs['obj']['createSellOrder(pay,uint64,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createSellOrder(pay,uint64,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.createSellOrder(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `fillSellOrder(uint64,uint64,pay)bool` ABI method.
+     *
+    * Buy shares out of a resale order. Payment goes to the seller and partial fills are allowed;
+    the order box is deleted once all of its shares are sold.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    fillSellOrder: (params: CallParams<FractionalRealEstateArgs['obj']['fillSellOrder(uint64,uint64,pay)bool'] | FractionalRealEstateArgs['tuple']['fillSellOrder(uint64,uint64,pay)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.fillSellOrder(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `cancelSellOrder(uint64)void` ABI method.
+     *
+     * Cancel a resale order. Only the seller can cancel; unsold shares are returned to them.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    cancelSellOrder: (params: CallParams<FractionalRealEstateArgs['obj']['cancelSellOrder(uint64)void'] | FractionalRealEstateArgs['tuple']['cancelSellOrder(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.cancelSellOrder(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getSellOrder(uint64)(uint64,address,uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getSellOrder: (params: CallParams<FractionalRealEstateArgs['obj']['getSellOrder(uint64)(uint64,address,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getSellOrder(uint64)(uint64,address,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getSellOrder(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `depositIncome(uint64,pay)void` ABI method.
+     *
+    * Deposit rental income for a property. Only the owner can deposit. The amount is spread over
+    the shares registered holders have in their holdings by growing a cumulative income-per-share
+    accumulator. Shares held by the app (unsold, escrowed in orders or votes) and unregistered
+    holders' shares don't earn. Whatever doesn't divide evenly, or all of it while no shares are
+    registered, is carried into the next deposit.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    depositIncome: (params: CallParams<FractionalRealEstateArgs['obj']['depositIncome(uint64,pay)void'] | FractionalRealEstateArgs['tuple']['depositIncome(uint64,pay)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.depositIncome(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `registerForIncome(pay,uint64)void` ABI method.
+     *
+    * Start earning income on a property, on the shares in the caller's holding. Income deposited
+    before registering is not claimable, since the app only settles the holdings of registered
+    holders as their shares move.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    registerForIncome: (params: CallParams<FractionalRealEstateArgs['obj']['registerForIncome(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerForIncome(pay,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.registerForIncome(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `unregisterForIncome(uint64)uint64` ABI method.
+     *
+    * Stop earning income on a property. Pays out the caller's unclaimed income along with the
+    claim box MBR, including after the property has been delisted. Returns the income paid.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    unregisterForIncome: (params: CallParams<FractionalRealEstateArgs['obj']['unregisterForIncome(uint64)uint64'] | FractionalRealEstateArgs['tuple']['unregisterForIncome(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.unregisterForIncome(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `claimIncome(uint64)uint64` ABI method.
+     *
+    * Pay out the caller's share of income deposited since their last claim. Returns the amount paid.
+    Nothing more can be earned on a delisted property, so claiming on one also closes the claim.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    claimIncome: (params: CallParams<FractionalRealEstateArgs['obj']['claimIncome(uint64)uint64'] | FractionalRealEstateArgs['tuple']['claimIncome(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.claimIncome(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getUnclaimedIncome(uint64,address)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getUnclaimedIncome: (params: CallParams<FractionalRealEstateArgs['obj']['getUnclaimedIncome(uint64,address)uint64'] | FractionalRealEstateArgs['tuple']['getUnclaimedIncome(uint64,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getUnclaimedIncome(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `createProposal(pay,uint64,string,uint64)uint64` ABI method.
+     *
+    * Open a governance proposal for a property's co-owners. Only holders of the property's shares
+    can propose. The quorum is fixed from the share supply when the proposal is created.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    createProposal: (params: CallParams<FractionalRealEstateArgs['obj']['createProposal(pay,uint64,string,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createProposal(pay,uint64,string,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.createProposal(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `castVote(pay,uint64,uint64,bool)void` ABI method.
+     *
+    * Vote on a proposal, weighted by the shares voted with. The shares are taken from the voter's
+    holding and stay locked in the app until the deadline has passed, so the same shares can't be
+    moved and voted again. Locked shares don't earn income until they're withdrawn.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    castVote: (params: CallParams<FractionalRealEstateArgs['obj']['castVote(pay,uint64,uint64,bool)void'] | FractionalRealEstateArgs['tuple']['castVote(pay,uint64,uint64,bool)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.castVote(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `finalizeProposal(uint64)uint64` ABI method.
+     *
+    * Record the outcome of a proposal once voting has closed. Anyone can finalize. With no votes
+    left to withdraw the proposal is done with, so its box is deleted and the MBR goes back to the proposer.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    finalizeProposal: (params: CallParams<FractionalRealEstateArgs['obj']['finalizeProposal(uint64)uint64'] | FractionalRealEstateArgs['tuple']['finalizeProposal(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.finalizeProposal(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `withdrawVote(uint64)void` ABI method.
+     *
+    * Unlock the caller's voting shares after the deadline and refund the vote box MBR. The last
+    voter to withdraw from a finalized proposal also returns the proposal box MBR to the proposer.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    withdrawVote: (params: CallParams<FractionalRealEstateArgs['obj']['withdrawVote(uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawVote(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.withdrawVote(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getProposal: (params: CallParams<FractionalRealEstateArgs['obj']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)'] | FractionalRealEstateArgs['tuple']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getProposal(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `offerBuyout(pay,pay,uint64,uint64)uint64` ABI method.
+     *
+    * Offer to buy out every share of a property. The offer amount is escrowed in the app and
+    holders vote on it with their shares until the deadline. A property has one active offer at
+    a time, open or accepted, and only once its primary sale has sold out or been closed. A new
+    offer can be made as soon as the previous one is rejected.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params: The ID of the new offer
+     */
+    offerBuyout: (params: CallParams<FractionalRealEstateArgs['obj']['offerBuyout(pay,pay,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['offerBuyout(pay,pay,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.offerBuyout(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `voteOnBuyout(pay,uint64,uint64,bool)void` ABI method.
+     *
+    * Vote on a buyout offer, weighted by the shares voted with. The shares are taken from the
+    voter's holding and stay locked in the app: they are redeemed with the holder's other shares
+    if the buyout is accepted, and can be withdrawn if it is rejected. Locked shares don't earn income.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    voteOnBuyout: (params: CallParams<FractionalRealEstateArgs['obj']['voteOnBuyout(pay,uint64,uint64,bool)void'] | FractionalRealEstateArgs['tuple']['voteOnBuyout(pay,uint64,uint64,bool)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.voteOnBuyout(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `finalizeBuyout(uint64)uint64` ABI method.
+     *
+    * Decide a buyout. Anyone can finalize, as soon as more than half of all shares have voted for
+    it or otherwise once voting has closed. An accepted buyout closes the primary sale for good;
+    a rejected one pays the escrowed offer back to the bidder and frees the property for a new offer.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    finalizeBuyout: (params: CallParams<FractionalRealEstateArgs['obj']['finalizeBuyout(uint64)uint64'] | FractionalRealEstateArgs['tuple']['finalizeBuyout(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.finalizeBuyout(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `withdrawBuyoutVote(uint64)void` ABI method.
+     *
+    * Unlock the caller's voting shares after a buyout was rejected and refund the vote box MBR.
+    The last voter to withdraw also returns the buyout box MBR to the bidder.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    withdrawBuyoutVote: (params: CallParams<FractionalRealEstateArgs['obj']['withdrawBuyoutVote(uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawBuyoutVote(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.withdrawBuyoutVote(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `redeemBuyout(uint64,uint64)uint64` ABI method.
+     *
+    * Hand shares in to an accepted buyout for their pro-rata share of the offer. Shares locked in
+    the caller's vote are redeemed along with the shares taken from their holding, and the caller's
+    unclaimed income and box MBR are paid out with it. Redeemed shares stay in the app.
+    Once every share is redeemed the listing is closed, with its MBR going back to the owner and
+    the buyout box MBRs to the bidder.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params: The amount paid for the shares
+     */
+    redeemBuyout: (params: CallParams<FractionalRealEstateArgs['obj']['redeemBuyout(uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['redeemBuyout(uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.redeemBuyout(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getBuyout: (params: CallParams<FractionalRealEstateArgs['obj']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)'] | FractionalRealEstateArgs['tuple']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getBuyout(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getActiveBuyout(uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * The ID of a property's open or accepted buyout offer, or 0 if it has none.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getActiveBuyout: (params: CallParams<FractionalRealEstateArgs['obj']['getActiveBuyout(uint64)uint64'] | FractionalRealEstateArgs['tuple']['getActiveBuyout(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getActiveBuyout(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `reserveShares(pay,uint64,uint64,pay)uint64` ABI method.
+     *
+    * Reserve primary shares of an ALGO-priced listing for buyers whose funds take a while to settle.
+    The shares are held back from sale at today's price for the listing's reservation period, on a
+    deposit of at least the listing's deposit rate; completeReservation pays the rest and hands them over.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params: The last round the reservation can be completed in
+     */
+    reserveShares: (params: CallParams<FractionalRealEstateArgs['obj']['reserveShares(pay,uint64,uint64,pay)uint64'] | FractionalRealEstateArgs['tuple']['reserveShares(pay,uint64,uint64,pay)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.reserveShares(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64` ABI method.
+     *
+     * Reserve primary shares of a listing priced in an ASA, paying the deposit in that asset.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params: The last round the reservation can be completed in
+     */
+    reserveSharesWithAsset: (params: CallParams<FractionalRealEstateArgs['obj']['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64'] | FractionalRealEstateArgs['tuple']['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.reserveSharesWithAsset(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `completeReservation(uint64,pay)uint64` ABI method.
+     *
+     * Pay the rest of an ALGO-priced reservation and receive the shares. The reservation box MBR is refunded.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params: The number of shares bought
+     */
+    completeReservation: (params: CallParams<FractionalRealEstateArgs['obj']['completeReservation(uint64,pay)uint64'] | FractionalRealEstateArgs['tuple']['completeReservation(uint64,pay)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.completeReservation(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `completeReservationWithAsset(uint64,axfer)uint64` ABI method.
+     *
+     * Pay the rest of a reservation in the listing's payment asset and receive the shares.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params: The number of shares bought
+     */
+    completeReservationWithAsset: (params: CallParams<FractionalRealEstateArgs['obj']['completeReservationWithAsset(uint64,axfer)uint64'] | FractionalRealEstateArgs['tuple']['completeReservationWithAsset(uint64,axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.completeReservationWithAsset(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `expireReservation(uint64,address)void` ABI method.
+     *
+    * Release a reservation that ran out without being completed. Anyone can call this once it has
+    expired. The shares go back on sale, the deposit goes to the owner if the listing forfeits
+    deposits or back to the holder otherwise, and the holder gets the reservation box MBR back.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    expireReservation: (params: CallParams<FractionalRealEstateArgs['obj']['expireReservation(uint64,address)void'] | FractionalRealEstateArgs['tuple']['expireReservation(uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.expireReservation(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getReservation(uint64,address)(uint64,uint64,uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getReservation: (params: CallParams<FractionalRealEstateArgs['obj']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getReservation(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `registerReferrer(pay,uint64)void` ABI method.
+     *
+    * Sign up as a referral partner for listings priced in one currency, so purchases can name the
+    caller as their referrer. The partner pays the MBR for the box their earnings are tracked in,
+    and must be opted in to an ASA currency to be paid in it.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    registerReferrer: (params: CallParams<FractionalRealEstateArgs['obj']['registerReferrer(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerReferrer(pay,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.registerReferrer(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getReferralEarnings(address,uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Total referral commissions a partner has been paid in one currency, or 0 if they haven't registered for it.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getReferralEarnings: (params: CallParams<FractionalRealEstateArgs['obj']['getReferralEarnings(address,uint64)uint64'] | FractionalRealEstateArgs['tuple']['getReferralEarnings(address,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getReferralEarnings(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `setAppraiser(pay,uint64,address)void` ABI method.
+     *
+    * Appoint the account that posts valuations of a listing, or replace it. Pass the zero address
+    to stop valuations being posted. The first appointment pays the MBR for the appraiser box and
+    the valuation history box, which comes back to the owner when the listing closes.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAppraiser: (params: CallParams<FractionalRealEstateArgs['obj']['setAppraiser(pay,uint64,address)void'] | FractionalRealEstateArgs['tuple']['setAppraiser(pay,uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.setAppraiser(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `postValuation(uint64,uint64,uint64,byte[32])void` ABI method.
+     *
+    * Post a valuation of the whole property. Only the listing's appraiser can post, and valuations
+    must be posted in date order. Once the history is full the oldest valuation is dropped.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    postValuation: (params: CallParams<FractionalRealEstateArgs['obj']['postValuation(uint64,uint64,uint64,byte[32])void'] | FractionalRealEstateArgs['tuple']['postValuation(uint64,uint64,uint64,byte[32])void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.postValuation(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getAppraiser(uint64)address` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Account that posts a listing's valuations, or the zero address if there is none.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getAppraiser: (params: CallParams<FractionalRealEstateArgs['obj']['getAppraiser(uint64)address'] | FractionalRealEstateArgs['tuple']['getAppraiser(uint64)address']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getAppraiser(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getLatestValuation(uint64)(uint64,uint64,byte[32])` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * A listing's most recent valuation. NAV per share is its totalValue over the listing's totalShares.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getLatestValuation: (params: CallParams<FractionalRealEstateArgs['obj']['getLatestValuation(uint64)(uint64,uint64,byte[32])'] | FractionalRealEstateArgs['tuple']['getLatestValuation(uint64)(uint64,uint64,byte[32])']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getLatestValuation(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getValuationHistory(uint64)(uint64,uint64,byte[32])[]` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Up to the last 12 valuations of a listing, oldest first.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getValuationHistory: (params: CallParams<FractionalRealEstateArgs['obj']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]'] | FractionalRealEstateArgs['tuple']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalRealEstateParamsFactory.getValuationHistory(params))
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the FractionalRealEstate smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64` ABI method.
+     *
+    * List a new property for fractional ownership. Creates an ASA representing shares
+    and stores property details in a BoxMap.
+    
+    With a funding goal the raise is all-or-nothing: purchases are escrowed in the app, the
+    lister can only withdraw them once the goal has sold, and if the deadline passes first
+    buyers can hand their shares back for a refund.
+    
+    A listing can be priced in an ASA such as a stablecoin instead of ALGO. The app opts in to
+    that asset the first time it is used, and the lister's MBR payment covers the opt-in.
+    
+    The share ASA points at off-chain metadata (deeds, appraisal, photos) following ARC-3, or
+    ARC-19 when the URL is a template-ipfs:// URL and the reserve address encodes the CID.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    createPropertyListing: (params: CallParams<FractionalRealEstateArgs['obj']['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64'] | FractionalRealEstateArgs['tuple']['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.createPropertyListing(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseFromLister(uint64,uint64,pay,address)bool` ABI method.
+     *
+    * Purchase shares from the original lister of an ALGO-priced listing. Buyer must opt in to the ASA beforehand.
+    While a funding raise is open the payment is escrowed in the app instead of going to the owner.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    purchaseFromLister: (params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromLister(uint64,uint64,pay,address)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromLister(uint64,uint64,pay,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.purchaseFromLister(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool` ABI method.
+     *
+    * Purchase shares from the original lister of a listing priced in an ASA. The owner (and the
+    treasury, when a platform fee is set) must be opted in to the payment asset.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    purchaseFromListerWithAsset: (params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.purchaseFromListerWithAsset(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64` ABI method.
+     *
+    * Buy primary shares of an ALGO-priced listing for at most a total price, so a reprice or a
+    tier running out between signing and landing can't overcharge the buyer. They pay the
+    maximum and get back whatever the shares cost less than that.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction: The number of shares bought
+     */
+    purchaseUpTo: (params: CallParams<FractionalRealEstateArgs['obj']['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.purchaseUpTo(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64` ABI method.
+     *
+     * Buy primary shares of a listing priced in an ASA for at most a total price, refunding the difference.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction: The number of shares bought
+     */
+    purchaseUpToWithAsset: (params: CallParams<FractionalRealEstateArgs['obj']['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.purchaseUpToWithAsset(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64` ABI method.
+     *
+    * Buy shares at an ALGO-priced Dutch auction. The price is set by the block the purchase lands in,
+    so the buyer pays for the shares at their maximum price and gets the difference back.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction: The price per share the shares were bought at
+     */
+    purchaseAtAuction: (params: CallParams<FractionalRealEstateArgs['obj']['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.purchaseAtAuction(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64` ABI method.
+     *
+     * Buy shares at a Dutch auction priced in an ASA, refunding the difference to the buyer's maximum price.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction: The price per share the shares were bought at
+     */
+    purchaseAtAuctionWithAsset: (params: CallParams<FractionalRealEstateArgs['obj']['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.purchaseAtAuctionWithAsset(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `withdrawProceeds(uint64)uint64` ABI method.
+     *
+    * Pay the escrowed purchase proceeds out to the owner once the funding goal has sold.
+    The platform fee is taken here rather than at purchase, since a failed raise refunds in full.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    withdrawProceeds: (params: CallParams<FractionalRealEstateArgs['obj']['withdrawProceeds(uint64)uint64'] | FractionalRealEstateArgs['tuple']['withdrawProceeds(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.withdrawProceeds(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `claimRefund(uint64,uint64)uint64` ABI method.
+     *
+    * Hand shares back after a failed raise and get the purchase price refunded.
+    The shares are taken back from the caller's holding, including any still locked up.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    claimRefund: (params: CallParams<FractionalRealEstateArgs['obj']['claimRefund(uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['claimRefund(uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.claimRefund(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `setFeeBps(uint64)void` ABI method.
+     *
+    * Set the platform fee taken from primary sales, in basis points. Only the admin can
+    change it, and a treasury must be set before a non-zero fee.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setFeeBps: (params: CallParams<FractionalRealEstateArgs['obj']['setFeeBps(uint64)void'] | FractionalRealEstateArgs['tuple']['setFeeBps(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.setFeeBps(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `setTreasury(address)void` ABI method.
+     *
+     * Set the account platform fees are paid to. Only the admin can change it.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setTreasury: (params: CallParams<FractionalRealEstateArgs['obj']['setTreasury(address)void'] | FractionalRealEstateArgs['tuple']['setTreasury(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.setTreasury(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `transferAdmin(address)void` ABI method.
+     *
+    * Start handing the admin role to another account. The handover only completes once that
+    account calls acceptAdmin, so a mistyped address can't lock the admin out.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    transferAdmin: (params: CallParams<FractionalRealEstateArgs['obj']['transferAdmin(address)void'] | FractionalRealEstateArgs['tuple']['transferAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.transferAdmin(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `acceptAdmin()void` ABI method.
+     *
+     * Complete an admin handover. Only the pending admin can accept.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    acceptAdmin: (params: CallParams<FractionalRealEstateArgs['obj']['acceptAdmin()void'] | FractionalRealEstateArgs['tuple']['acceptAdmin()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.acceptAdmin(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `pause()void` ABI method.
+     *
+     * Emergency stop: block listing, primary purchases and delisting until unpaused.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    pause: (params: CallParams<FractionalRealEstateArgs['obj']['pause()void'] | FractionalRealEstateArgs['tuple']['pause()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.pause(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `unpause()void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    unpause: (params: CallParams<FractionalRealEstateArgs['obj']['unpause()void'] | FractionalRealEstateArgs['tuple']['unpause()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.unpause(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `setCompliance(address)void` ABI method.
+     *
+     * Hand the compliance role to another account. Only the admin can change it.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setCompliance: (params: CallParams<FractionalRealEstateArgs['obj']['setCompliance(address)void'] | FractionalRealEstateArgs['tuple']['setCompliance(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.setCompliance(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `approveAccount(pay,address)void` ABI method.
+     *
+    * Add an account that has passed KYC to the allowlist. Only the compliance officer can approve
+    accounts, and pays the allowlist box MBR.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    approveAccount: (params: CallParams<FractionalRealEstateArgs['obj']['approveAccount(pay,address)void'] | FractionalRealEstateArgs['tuple']['approveAccount(pay,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.approveAccount(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `revokeAccount(address)void` ABI method.
+     *
+    * Take an account off the allowlist and refund the box MBR to the compliance officer.
+    A revoked account can't receive shares or transfer them to anyone else, but can still hand
+    them back to the app, such as to sell, vote or redeem them.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    revokeAccount: (params: CallParams<FractionalRealEstateArgs['obj']['revokeAccount(address)void'] | FractionalRealEstateArgs['tuple']['revokeAccount(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.revokeAccount(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `transferShares(uint64,address,uint64)void` ABI method.
+     *
+    * Transfer shares to another account. Holdings are frozen, so this is how holders move shares
+    between themselves: both accounts must be KYC approved, the receiver opted in to the ASA, and
+    locked up shares stay put. Income is settled on both holdings as the shares move, so
+    each side is paid for exactly the shares it held.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    transferShares: (params: CallParams<FractionalRealEstateArgs['obj']['transferShares(uint64,address,uint64)void'] | FractionalRealEstateArgs['tuple']['transferShares(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.transferShares(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `isApproved(address)bool` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Whether an account is on the KYC allowlist.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    isApproved: (params: CallParams<FractionalRealEstateArgs['obj']['isApproved(address)bool'] | FractionalRealEstateArgs['tuple']['isApproved(address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.isApproved(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `registerLockup(pay,uint64)void` ABI method.
+     *
+    * Set up the caller's lockup record before buying into a listing with a lockup period.
+    The caller pays the box MBR, which is refunded by unlockShares.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    registerLockup: (params: CallParams<FractionalRealEstateArgs['obj']['registerLockup(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerLockup(pay,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.registerLockup(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `unlockShares(uint64)void` ABI method.
+     *
+    * Close the caller's lockup once it has ended and refund the lockup box MBR. The shares can
+    move as soon as the unlock round is reached; this only pays the box MBR back.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    unlockShares: (params: CallParams<FractionalRealEstateArgs['obj']['unlockShares(uint64)void'] | FractionalRealEstateArgs['tuple']['unlockShares(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.unlockShares(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getLockup(uint64,address)(uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * A holder's locked shares and the round they unlock in. Both are 0 without a lockup.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getLockup: (params: CallParams<FractionalRealEstateArgs['obj']['getLockup(uint64,address)(uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getLockup(uint64,address)(uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getLockup(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getPlatformFee()(uint64,address)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Current platform fee and treasury. The treasury is the zero address until one is set.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getPlatformFee: (params: CallParams<FractionalRealEstateArgs['obj']['getPlatformFee()(uint64,address)'] | FractionalRealEstateArgs['tuple']['getPlatformFee()(uint64,address)']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getPlatformFee(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `updatePrice(uint64,uint64)void` ABI method.
+     *
+     * Change the primary sale price. Only the owner can reprice, and only while the sale is open.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    updatePrice: (params: CallParams<FractionalRealEstateArgs['obj']['updatePrice(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['updatePrice(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.updatePrice(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `withdrawShares(uint64,uint64)void` ABI method.
+     *
+    * Take unsold shares back out of the primary sale. The owner must be KYC approved and opted in to the ASA.
+    Refunds are paid for any shares handed back, so unsold shares stay in the app until the
+    funding goal has sold.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    withdrawShares: (params: CallParams<FractionalRealEstateArgs['obj']['withdrawShares(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawShares(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.withdrawShares(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `topUpShares(uint64,uint64)void` ABI method.
+     *
+     * Put shares the owner holds back up for primary sale. The shares are taken from the owner's holding.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    topUpShares: (params: CallParams<FractionalRealEstateArgs['obj']['topUpShares(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['topUpShares(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.topUpShares(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `closePrimarySale(uint64)void` ABI method.
+     *
+    * End the primary sale. Unsold shares go back to the owner, and the listing stays in place
+    for the holders so resale, income and governance keep working. A sale with a funding goal
+    can't be closed until the goal has sold, for the same reason as withdrawShares.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    closePrimarySale: (params: CallParams<FractionalRealEstateArgs['obj']['closePrimarySale(uint64)void'] | FractionalRealEstateArgs['tuple']['closePrimarySale(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.closePrimarySale(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `transferOwnership(pay,uint64,address)void` ABI method.
+     *
+    * Start handing a listing over to a new owner, such as a company multisig or a new manager.
+    The handover only happens once the new owner accepts, so a mistyped address can't take
+    control. The owner pays for the pending transfer box and gets it back when it is settled.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    transferOwnership: (params: CallParams<FractionalRealEstateArgs['obj']['transferOwnership(pay,uint64,address)void'] | FractionalRealEstateArgs['tuple']['transferOwnership(pay,uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.transferOwnership(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `cancelOwnershipTransfer(uint64)void` ABI method.
+     *
+     * Call off a pending ownership transfer and get the MBR back.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    cancelOwnershipTransfer: (params: CallParams<FractionalRealEstateArgs['obj']['cancelOwnershipTransfer(uint64)void'] | FractionalRealEstateArgs['tuple']['cancelOwnershipTransfer(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.cancelOwnershipTransfer(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `acceptOwnership(pay,uint64)void` ABI method.
+     *
+    * Take over a listing. From here on the new owner manages it, and receives primary sale
+    proceeds, escrowed raise funds and the rest of the owner's payouts. The previous owner gets
+    back the MBR of the pending transfer box and of the listing's entry in their index.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    acceptOwnership: (params: CallParams<FractionalRealEstateArgs['obj']['acceptOwnership(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['acceptOwnership(pay,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.acceptOwnership(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getPendingOwner(uint64)address` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Account a pending ownership transfer would hand the listing to, or the zero address if there is none.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getPendingOwner: (params: CallParams<FractionalRealEstateArgs['obj']['getPendingOwner(uint64)address'] | FractionalRealEstateArgs['tuple']['getPendingOwner(uint64)address']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getPendingOwner(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `delistProperty(uint64)void` ABI method.
+     *
+    * Delist a property. Only the owner can delist, and no shares can have been sold.
+    Deleting the boxes reclaims their MBR, which is paid back to the owner.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    delistProperty: (params: CallParams<FractionalRealEstateArgs['obj']['delistProperty(uint64)void'] | FractionalRealEstateArgs['tuple']['delistProperty(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.delistProperty(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getPropertyInfo: (params: CallParams<FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)'] | FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getPropertyInfo(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getListingIds(uint64)uint64[]` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+    * A page of up to 32 property IDs in the order they were listed, including any since delisted.
+    Pages run from 0 up to nextListingIndex / 32.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getListingIds: (params: CallParams<FractionalRealEstateArgs['obj']['getListingIds(uint64)uint64[]'] | FractionalRealEstateArgs['tuple']['getListingIds(uint64)uint64[]']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getListingIds(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+    * The listings for a batch of property IDs, skipping any that have been delisted. ABI returns
+    are capped at 1KB, so only a couple of listings fit in each call: a listing with the longest
+    address, unit name and metadata URL encodes to 488 bytes (254 + 128 + 8 + 96 + a 2-byte offset),
+    and two of those with the array's length prefix come to 978.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getProperties: (params: CallParams<FractionalRealEstateArgs['obj']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]'] | FractionalRealEstateArgs['tuple']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getProperties(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getOwnerListings(address)uint64[]` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * IDs of the properties an account has listed or taken over, oldest first.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getOwnerListings: (params: CallParams<FractionalRealEstateArgs['obj']['getOwnerListings(address)uint64[]'] | FractionalRealEstateArgs['tuple']['getOwnerListings(address)uint64[]']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getOwnerListings(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getMarketStats()(uint64,uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getMarketStats: (params: CallParams<FractionalRealEstateArgs['obj']['getMarketStats()(uint64,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getMarketStats()(uint64,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getMarketStats(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getCurrentPrice(uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Current primary sale price per share, which falls over time on a Dutch auction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getCurrentPrice: (params: CallParams<FractionalRealEstateArgs['obj']['getCurrentPrice(uint64)uint64'] | FractionalRealEstateArgs['tuple']['getCurrentPrice(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getCurrentPrice(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `createSellOrder(pay,uint64,uint64,uint64)uint64` ABI method.
+     *
+    * Post a resale order on the secondary market. The shares being sold are taken from the
+    seller's holding and escrowed in the app account until the order is filled or cancelled.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    createSellOrder: (params: CallParams<FractionalRealEstateArgs['obj']['createSellOrder(pay,uint64,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createSellOrder(pay,uint64,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.createSellOrder(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `fillSellOrder(uint64,uint64,pay)bool` ABI method.
+     *
+    * Buy shares out of a resale order. Payment goes to the seller and partial fills are allowed;
+    the order box is deleted once all of its shares are sold.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    fillSellOrder: (params: CallParams<FractionalRealEstateArgs['obj']['fillSellOrder(uint64,uint64,pay)bool'] | FractionalRealEstateArgs['tuple']['fillSellOrder(uint64,uint64,pay)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.fillSellOrder(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `cancelSellOrder(uint64)void` ABI method.
+     *
+     * Cancel a resale order. Only the seller can cancel; unsold shares are returned to them.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    cancelSellOrder: (params: CallParams<FractionalRealEstateArgs['obj']['cancelSellOrder(uint64)void'] | FractionalRealEstateArgs['tuple']['cancelSellOrder(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.cancelSellOrder(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getSellOrder(uint64)(uint64,address,uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getSellOrder: (params: CallParams<FractionalRealEstateArgs['obj']['getSellOrder(uint64)(uint64,address,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getSellOrder(uint64)(uint64,address,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getSellOrder(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `depositIncome(uint64,pay)void` ABI method.
+     *
+    * Deposit rental income for a property. Only the owner can deposit. The amount is spread over
+    the shares registered holders have in their holdings by growing a cumulative income-per-share
+    accumulator. Shares held by the app (unsold, escrowed in orders or votes) and unregistered
+    holders' shares don't earn. Whatever doesn't divide evenly, or all of it while no shares are
+    registered, is carried into the next deposit.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    depositIncome: (params: CallParams<FractionalRealEstateArgs['obj']['depositIncome(uint64,pay)void'] | FractionalRealEstateArgs['tuple']['depositIncome(uint64,pay)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.depositIncome(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `registerForIncome(pay,uint64)void` ABI method.
+     *
+    * Start earning income on a property, on the shares in the caller's holding. Income deposited
+    before registering is not claimable, since the app only settles the holdings of registered
+    holders as their shares move.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    registerForIncome: (params: CallParams<FractionalRealEstateArgs['obj']['registerForIncome(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerForIncome(pay,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.registerForIncome(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `unregisterForIncome(uint64)uint64` ABI method.
+     *
+    * Stop earning income on a property. Pays out the caller's unclaimed income along with the
+    claim box MBR, including after the property has been delisted. Returns the income paid.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    unregisterForIncome: (params: CallParams<FractionalRealEstateArgs['obj']['unregisterForIncome(uint64)uint64'] | FractionalRealEstateArgs['tuple']['unregisterForIncome(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.unregisterForIncome(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `claimIncome(uint64)uint64` ABI method.
+     *
+    * Pay out the caller's share of income deposited since their last claim. Returns the amount paid.
+    Nothing more can be earned on a delisted property, so claiming on one also closes the claim.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    claimIncome: (params: CallParams<FractionalRealEstateArgs['obj']['claimIncome(uint64)uint64'] | FractionalRealEstateArgs['tuple']['claimIncome(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.claimIncome(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getUnclaimedIncome(uint64,address)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getUnclaimedIncome: (params: CallParams<FractionalRealEstateArgs['obj']['getUnclaimedIncome(uint64,address)uint64'] | FractionalRealEstateArgs['tuple']['getUnclaimedIncome(uint64,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getUnclaimedIncome(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `createProposal(pay,uint64,string,uint64)uint64` ABI method.
+     *
+    * Open a governance proposal for a property's co-owners. Only holders of the property's shares
+    can propose. The quorum is fixed from the share supply when the proposal is created.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    createProposal: (params: CallParams<FractionalRealEstateArgs['obj']['createProposal(pay,uint64,string,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createProposal(pay,uint64,string,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.createProposal(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `castVote(pay,uint64,uint64,bool)void` ABI method.
+     *
+    * Vote on a proposal, weighted by the shares voted with. The shares are taken from the voter's
+    holding and stay locked in the app until the deadline has passed, so the same shares can't be
+    moved and voted again. Locked shares don't earn income until they're withdrawn.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    castVote: (params: CallParams<FractionalRealEstateArgs['obj']['castVote(pay,uint64,uint64,bool)void'] | FractionalRealEstateArgs['tuple']['castVote(pay,uint64,uint64,bool)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.castVote(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `finalizeProposal(uint64)uint64` ABI method.
+     *
+    * Record the outcome of a proposal once voting has closed. Anyone can finalize. With no votes
+    left to withdraw the proposal is done with, so its box is deleted and the MBR goes back to the proposer.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    finalizeProposal: (params: CallParams<FractionalRealEstateArgs['obj']['finalizeProposal(uint64)uint64'] | FractionalRealEstateArgs['tuple']['finalizeProposal(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.finalizeProposal(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `withdrawVote(uint64)void` ABI method.
+     *
+    * Unlock the caller's voting shares after the deadline and refund the vote box MBR. The last
+    voter to withdraw from a finalized proposal also returns the proposal box MBR to the proposer.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    withdrawVote: (params: CallParams<FractionalRealEstateArgs['obj']['withdrawVote(uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawVote(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.withdrawVote(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getProposal: (params: CallParams<FractionalRealEstateArgs['obj']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)'] | FractionalRealEstateArgs['tuple']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getProposal(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `offerBuyout(pay,pay,uint64,uint64)uint64` ABI method.
+     *
+    * Offer to buy out every share of a property. The offer amount is escrowed in the app and
+    holders vote on it with their shares until the deadline. A property has one active offer at
+    a time, open or accepted, and only once its primary sale has sold out or been closed. A new
+    offer can be made as soon as the previous one is rejected.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction: The ID of the new offer
+     */
+    offerBuyout: (params: CallParams<FractionalRealEstateArgs['obj']['offerBuyout(pay,pay,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['offerBuyout(pay,pay,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.offerBuyout(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `voteOnBuyout(pay,uint64,uint64,bool)void` ABI method.
+     *
+    * Vote on a buyout offer, weighted by the shares voted with. The shares are taken from the
+    voter's holding and stay locked in the app: they are redeemed with the holder's other shares
+    if the buyout is accepted, and can be withdrawn if it is rejected. Locked shares don't earn income.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    voteOnBuyout: (params: CallParams<FractionalRealEstateArgs['obj']['voteOnBuyout(pay,uint64,uint64,bool)void'] | FractionalRealEstateArgs['tuple']['voteOnBuyout(pay,uint64,uint64,bool)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.voteOnBuyout(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `finalizeBuyout(uint64)uint64` ABI method.
+     *
+    * Decide a buyout. Anyone can finalize, as soon as more than half of all shares have voted for
+    it or otherwise once voting has closed. An accepted buyout closes the primary sale for good;
+    a rejected one pays the escrowed offer back to the bidder and frees the property for a new offer.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    finalizeBuyout: (params: CallParams<FractionalRealEstateArgs['obj']['finalizeBuyout(uint64)uint64'] | FractionalRealEstateArgs['tuple']['finalizeBuyout(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.finalizeBuyout(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `withdrawBuyoutVote(uint64)void` ABI method.
+     *
+    * Unlock the caller's voting shares after a buyout was rejected and refund the vote box MBR.
+    The last voter to withdraw also returns the buyout box MBR to the bidder.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    withdrawBuyoutVote: (params: CallParams<FractionalRealEstateArgs['obj']['withdrawBuyoutVote(uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawBuyoutVote(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.withdrawBuyoutVote(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `redeemBuyout(uint64,uint64)uint64` ABI method.
+     *
+    * Hand shares in to an accepted buyout for their pro-rata share of the offer. Shares locked in
+    the caller's vote are redeemed along with the shares taken from their holding, and the caller's
+    unclaimed income and box MBR are paid out with it. Redeemed shares stay in the app.
+    Once every share is redeemed the listing is closed, with its MBR going back to the owner and
+    the buyout box MBRs to the bidder.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction: The amount paid for the shares
+     */
+    redeemBuyout: (params: CallParams<FractionalRealEstateArgs['obj']['redeemBuyout(uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['redeemBuyout(uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.redeemBuyout(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getBuyout: (params: CallParams<FractionalRealEstateArgs['obj']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)'] | FractionalRealEstateArgs['tuple']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getBuyout(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getActiveBuyout(uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * The ID of a property's open or accepted buyout offer, or 0 if it has none.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getActiveBuyout: (params: CallParams<FractionalRealEstateArgs['obj']['getActiveBuyout(uint64)uint64'] | FractionalRealEstateArgs['tuple']['getActiveBuyout(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getActiveBuyout(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `reserveShares(pay,uint64,uint64,pay)uint64` ABI method.
+     *
+    * Reserve primary shares of an ALGO-priced listing for buyers whose funds take a while to settle.
+    The shares are held back from sale at today's price for the listing's reservation period, on a
+    deposit of at least the listing's deposit rate; completeReservation pays the rest and hands them over.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction: The last round the reservation can be completed in
+     */
+    reserveShares: (params: CallParams<FractionalRealEstateArgs['obj']['reserveShares(pay,uint64,uint64,pay)uint64'] | FractionalRealEstateArgs['tuple']['reserveShares(pay,uint64,uint64,pay)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.reserveShares(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64` ABI method.
+     *
+     * Reserve primary shares of a listing priced in an ASA, paying the deposit in that asset.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction: The last round the reservation can be completed in
+     */
+    reserveSharesWithAsset: (params: CallParams<FractionalRealEstateArgs['obj']['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64'] | FractionalRealEstateArgs['tuple']['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.reserveSharesWithAsset(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `completeReservation(uint64,pay)uint64` ABI method.
+     *
+     * Pay the rest of an ALGO-priced reservation and receive the shares. The reservation box MBR is refunded.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction: The number of shares bought
+     */
+    completeReservation: (params: CallParams<FractionalRealEstateArgs['obj']['completeReservation(uint64,pay)uint64'] | FractionalRealEstateArgs['tuple']['completeReservation(uint64,pay)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.completeReservation(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `completeReservationWithAsset(uint64,axfer)uint64` ABI method.
+     *
+     * Pay the rest of a reservation in the listing's payment asset and receive the shares.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction: The number of shares bought
+     */
+    completeReservationWithAsset: (params: CallParams<FractionalRealEstateArgs['obj']['completeReservationWithAsset(uint64,axfer)uint64'] | FractionalRealEstateArgs['tuple']['completeReservationWithAsset(uint64,axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.completeReservationWithAsset(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `expireReservation(uint64,address)void` ABI method.
+     *
+    * Release a reservation that ran out without being completed. Anyone can call this once it has
+    expired. The shares go back on sale, the deposit goes to the owner if the listing forfeits
+    deposits or back to the holder otherwise, and the holder gets the reservation box MBR back.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    expireReservation: (params: CallParams<FractionalRealEstateArgs['obj']['expireReservation(uint64,address)void'] | FractionalRealEstateArgs['tuple']['expireReservation(uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.expireReservation(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getReservation(uint64,address)(uint64,uint64,uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getReservation: (params: CallParams<FractionalRealEstateArgs['obj']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getReservation(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `registerReferrer(pay,uint64)void` ABI method.
+     *
+    * Sign up as a referral partner for listings priced in one currency, so purchases can name the
+    caller as their referrer. The partner pays the MBR for the box their earnings are tracked in,
+    and must be opted in to an ASA currency to be paid in it.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    registerReferrer: (params: CallParams<FractionalRealEstateArgs['obj']['registerReferrer(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerReferrer(pay,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.registerReferrer(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getReferralEarnings(address,uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Total referral commissions a partner has been paid in one currency, or 0 if they haven't registered for it.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getReferralEarnings: (params: CallParams<FractionalRealEstateArgs['obj']['getReferralEarnings(address,uint64)uint64'] | FractionalRealEstateArgs['tuple']['getReferralEarnings(address,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getReferralEarnings(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `setAppraiser(pay,uint64,address)void` ABI method.
+     *
+    * Appoint the account that posts valuations of a listing, or replace it. Pass the zero address
+    to stop valuations being posted. The first appointment pays the MBR for the appraiser box and
+    the valuation history box, which comes back to the owner when the listing closes.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAppraiser: (params: CallParams<FractionalRealEstateArgs['obj']['setAppraiser(pay,uint64,address)void'] | FractionalRealEstateArgs['tuple']['setAppraiser(pay,uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.setAppraiser(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `postValuation(uint64,uint64,uint64,byte[32])void` ABI method.
+     *
+    * Post a valuation of the whole property. Only the listing's appraiser can post, and valuations
+    must be posted in date order. Once the history is full the oldest valuation is dropped.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    postValuation: (params: CallParams<FractionalRealEstateArgs['obj']['postValuation(uint64,uint64,uint64,byte[32])void'] | FractionalRealEstateArgs['tuple']['postValuation(uint64,uint64,uint64,byte[32])void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.postValuation(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getAppraiser(uint64)address` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Account that posts a listing's valuations, or the zero address if there is none.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getAppraiser: (params: CallParams<FractionalRealEstateArgs['obj']['getAppraiser(uint64)address'] | FractionalRealEstateArgs['tuple']['getAppraiser(uint64)address']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getAppraiser(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getLatestValuation(uint64)(uint64,uint64,byte[32])` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * A listing's most recent valuation. NAV per share is its totalValue over the listing's totalShares.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getLatestValuation: (params: CallParams<FractionalRealEstateArgs['obj']['getLatestValuation(uint64)(uint64,uint64,byte[32])'] | FractionalRealEstateArgs['tuple']['getLatestValuation(uint64)(uint64,uint64,byte[32])']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getLatestValuation(params))
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getValuationHistory(uint64)(uint64,uint64,byte[32])[]` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Up to the last 12 valuations of a listing, oldest first.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getValuationHistory: (params: CallParams<FractionalRealEstateArgs['obj']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]'] | FractionalRealEstateArgs['tuple']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getValuationHistory(params))
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the FractionalRealEstate smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64` ABI method.
+     *
+    * List a new property for fractional ownership. Creates an ASA representing shares
+    and stores property details in a BoxMap.
+    
+    With a funding goal the raise is all-or-nothing: purchases are escrowed in the app, the
+    lister can only withdraw them once the goal has sold, and if the deadline passes first
+    buyers can hand their shares back for a refund.
+    
+    A listing can be priced in an ASA such as a stablecoin instead of ALGO. The app opts in to
+    that asset the first time it is used, and the lister's MBR payment covers the opt-in.
+    
+    The share ASA points at off-chain metadata (deeds, appraisal, photos) following ARC-3, or
+    ARC-19 when the URL is a template-ipfs:// URL and the reserve address encodes the CID.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    createPropertyListing: async (params: CallParams<FractionalRealEstateArgs['obj']['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64'] | FractionalRealEstateArgs['tuple']['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.createPropertyListing(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseFromLister(uint64,uint64,pay,address)bool` ABI method.
+     *
+    * Purchase shares from the original lister of an ALGO-priced listing. Buyer must opt in to the ASA beforehand.
+    While a funding raise is open the payment is escrowed in the app instead of going to the owner.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    purchaseFromLister: async (params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromLister(uint64,uint64,pay,address)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromLister(uint64,uint64,pay,address)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.purchaseFromLister(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['purchaseFromLister(uint64,uint64,pay,address)bool'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool` ABI method.
+     *
+    * Purchase shares from the original lister of a listing priced in an ASA. The owner (and the
+    treasury, when a platform fee is set) must be opted in to the payment asset.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    purchaseFromListerWithAsset: async (params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.purchaseFromListerWithAsset(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64` ABI method.
+     *
+    * Buy primary shares of an ALGO-priced listing for at most a total price, so a reprice or a
+    tier running out between signing and landing can't overcharge the buyer. They pay the
+    maximum and get back whatever the shares cost less than that.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result: The number of shares bought
+     */
+    purchaseUpTo: async (params: CallParams<FractionalRealEstateArgs['obj']['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.purchaseUpTo(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64` ABI method.
+     *
+     * Buy primary shares of a listing priced in an ASA for at most a total price, refunding the difference.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result: The number of shares bought
+     */
+    purchaseUpToWithAsset: async (params: CallParams<FractionalRealEstateArgs['obj']['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.purchaseUpToWithAsset(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64` ABI method.
+     *
+    * Buy shares at an ALGO-priced Dutch auction. The price is set by the block the purchase lands in,
+    so the buyer pays for the shares at their maximum price and gets the difference back.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result: The price per share the shares were bought at
+     */
+    purchaseAtAuction: async (params: CallParams<FractionalRealEstateArgs['obj']['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.purchaseAtAuction(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64` ABI method.
+     *
+     * Buy shares at a Dutch auction priced in an ASA, refunding the difference to the buyer's maximum price.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result: The price per share the shares were bought at
+     */
+    purchaseAtAuctionWithAsset: async (params: CallParams<FractionalRealEstateArgs['obj']['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.purchaseAtAuctionWithAsset(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `withdrawProceeds(uint64)uint64` ABI method.
+     *
+    * Pay the escrowed purchase proceeds out to the owner once the funding goal has sold.
+    The platform fee is taken here rather than at purchase, since a failed raise refunds in full.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    withdrawProceeds: async (params: CallParams<FractionalRealEstateArgs['obj']['withdrawProceeds(uint64)uint64'] | FractionalRealEstateArgs['tuple']['withdrawProceeds(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.withdrawProceeds(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['withdrawProceeds(uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `claimRefund(uint64,uint64)uint64` ABI method.
+     *
+    * Hand shares back after a failed raise and get the purchase price refunded.
+    The shares are taken back from the caller's holding, including any still locked up.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    claimRefund: async (params: CallParams<FractionalRealEstateArgs['obj']['claimRefund(uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['claimRefund(uint64,uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.claimRefund(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['claimRefund(uint64,uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `setFeeBps(uint64)void` ABI method.
+     *
+    * Set the platform fee taken from primary sales, in basis points. Only the admin can
+    change it, and a treasury must be set before a non-zero fee.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setFeeBps: async (params: CallParams<FractionalRealEstateArgs['obj']['setFeeBps(uint64)void'] | FractionalRealEstateArgs['tuple']['setFeeBps(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.setFeeBps(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['setFeeBps(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `setTreasury(address)void` ABI method.
+     *
+     * Set the account platform fees are paid to. Only the admin can change it.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setTreasury: async (params: CallParams<FractionalRealEstateArgs['obj']['setTreasury(address)void'] | FractionalRealEstateArgs['tuple']['setTreasury(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.setTreasury(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['setTreasury(address)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `transferAdmin(address)void` ABI method.
+     *
+    * Start handing the admin role to another account. The handover only completes once that
+    account calls acceptAdmin, so a mistyped address can't lock the admin out.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    transferAdmin: async (params: CallParams<FractionalRealEstateArgs['obj']['transferAdmin(address)void'] | FractionalRealEstateArgs['tuple']['transferAdmin(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.transferAdmin(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['transferAdmin(address)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `acceptAdmin()void` ABI method.
+     *
+     * Complete an admin handover. Only the pending admin can accept.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    acceptAdmin: async (params: CallParams<FractionalRealEstateArgs['obj']['acceptAdmin()void'] | FractionalRealEstateArgs['tuple']['acceptAdmin()void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.acceptAdmin(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['acceptAdmin()void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `pause()void` ABI method.
+     *
+     * Emergency stop: block listing, primary purchases and delisting until unpaused.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    pause: async (params: CallParams<FractionalRealEstateArgs['obj']['pause()void'] | FractionalRealEstateArgs['tuple']['pause()void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.pause(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['pause()void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `unpause()void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    unpause: async (params: CallParams<FractionalRealEstateArgs['obj']['unpause()void'] | FractionalRealEstateArgs['tuple']['unpause()void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.unpause(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['unpause()void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `setCompliance(address)void` ABI method.
+     *
+     * Hand the compliance role to another account. Only the admin can change it.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setCompliance: async (params: CallParams<FractionalRealEstateArgs['obj']['setCompliance(address)void'] | FractionalRealEstateArgs['tuple']['setCompliance(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.setCompliance(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['setCompliance(address)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `approveAccount(pay,address)void` ABI method.
+     *
+    * Add an account that has passed KYC to the allowlist. Only the compliance officer can approve
+    accounts, and pays the allowlist box MBR.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    approveAccount: async (params: CallParams<FractionalRealEstateArgs['obj']['approveAccount(pay,address)void'] | FractionalRealEstateArgs['tuple']['approveAccount(pay,address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.approveAccount(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['approveAccount(pay,address)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `revokeAccount(address)void` ABI method.
+     *
+    * Take an account off the allowlist and refund the box MBR to the compliance officer.
+    A revoked account can't receive shares or transfer them to anyone else, but can still hand
+    them back to the app, such as to sell, vote or redeem them.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    revokeAccount: async (params: CallParams<FractionalRealEstateArgs['obj']['revokeAccount(address)void'] | FractionalRealEstateArgs['tuple']['revokeAccount(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.revokeAccount(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['revokeAccount(address)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `transferShares(uint64,address,uint64)void` ABI method.
+     *
+    * Transfer shares to another account. Holdings are frozen, so this is how holders move shares
+    between themselves: both accounts must be KYC approved, the receiver opted in to the ASA, and
+    locked up shares stay put. Income is settled on both holdings as the shares move, so
+    each side is paid for exactly the shares it held.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    transferShares: async (params: CallParams<FractionalRealEstateArgs['obj']['transferShares(uint64,address,uint64)void'] | FractionalRealEstateArgs['tuple']['transferShares(uint64,address,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.transferShares(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['transferShares(uint64,address,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `isApproved(address)bool` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Whether an account is on the KYC allowlist.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    isApproved: async (params: CallParams<FractionalRealEstateArgs['obj']['isApproved(address)bool'] | FractionalRealEstateArgs['tuple']['isApproved(address)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.isApproved(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['isApproved(address)bool'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `registerLockup(pay,uint64)void` ABI method.
+     *
+    * Set up the caller's lockup record before buying into a listing with a lockup period.
+    The caller pays the box MBR, which is refunded by unlockShares.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    registerLockup: async (params: CallParams<FractionalRealEstateArgs['obj']['registerLockup(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerLockup(pay,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.registerLockup(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['registerLockup(pay,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `unlockShares(uint64)void` ABI method.
+     *
+    * Close the caller's lockup once it has ended and refund the lockup box MBR. The shares can
+    move as soon as the unlock round is reached; this only pays the box MBR back.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    unlockShares: async (params: CallParams<FractionalRealEstateArgs['obj']['unlockShares(uint64)void'] | FractionalRealEstateArgs['tuple']['unlockShares(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.unlockShares(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['unlockShares(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getLockup(uint64,address)(uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * A holder's locked shares and the round they unlock in. Both are 0 without a lockup.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getLockup: async (params: CallParams<FractionalRealEstateArgs['obj']['getLockup(uint64,address)(uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getLockup(uint64,address)(uint64,uint64)']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getLockup(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getLockup(uint64,address)(uint64,uint64)'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getPlatformFee()(uint64,address)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Current platform fee and treasury. The treasury is the zero address until one is set.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getPlatformFee: async (params: CallParams<FractionalRealEstateArgs['obj']['getPlatformFee()(uint64,address)'] | FractionalRealEstateArgs['tuple']['getPlatformFee()(uint64,address)']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getPlatformFee(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getPlatformFee()(uint64,address)'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `updatePrice(uint64,uint64)void` ABI method.
+     *
+     * Change the primary sale price. Only the owner can reprice, and only while the sale is open.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    updatePrice: async (params: CallParams<FractionalRealEstateArgs['obj']['updatePrice(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['updatePrice(uint64,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.updatePrice(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['updatePrice(uint64,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `withdrawShares(uint64,uint64)void` ABI method.
+     *
+    * Take unsold shares back out of the primary sale. The owner must be KYC approved and opted in to the ASA.
+    Refunds are paid for any shares handed back, so unsold shares stay in the app until the
+    funding goal has sold.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    withdrawShares: async (params: CallParams<FractionalRealEstateArgs['obj']['withdrawShares(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawShares(uint64,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.withdrawShares(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['withdrawShares(uint64,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `topUpShares(uint64,uint64)void` ABI method.
+     *
+     * Put shares the owner holds back up for primary sale. The shares are taken from the owner's holding.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    topUpShares: async (params: CallParams<FractionalRealEstateArgs['obj']['topUpShares(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['topUpShares(uint64,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.topUpShares(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['topUpShares(uint64,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `closePrimarySale(uint64)void` ABI method.
+     *
+    * End the primary sale. Unsold shares go back to the owner, and the listing stays in place
+    for the holders so resale, income and governance keep working. A sale with a funding goal
+    can't be closed until the goal has sold, for the same reason as withdrawShares.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    closePrimarySale: async (params: CallParams<FractionalRealEstateArgs['obj']['closePrimarySale(uint64)void'] | FractionalRealEstateArgs['tuple']['closePrimarySale(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.closePrimarySale(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['closePrimarySale(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `transferOwnership(pay,uint64,address)void` ABI method.
+     *
+    * Start handing a listing over to a new owner, such as a company multisig or a new manager.
+    The handover only happens once the new owner accepts, so a mistyped address can't take
+    control. The owner pays for the pending transfer box and gets it back when it is settled.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    transferOwnership: async (params: CallParams<FractionalRealEstateArgs['obj']['transferOwnership(pay,uint64,address)void'] | FractionalRealEstateArgs['tuple']['transferOwnership(pay,uint64,address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.transferOwnership(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['transferOwnership(pay,uint64,address)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `cancelOwnershipTransfer(uint64)void` ABI method.
+     *
+     * Call off a pending ownership transfer and get the MBR back.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    cancelOwnershipTransfer: async (params: CallParams<FractionalRealEstateArgs['obj']['cancelOwnershipTransfer(uint64)void'] | FractionalRealEstateArgs['tuple']['cancelOwnershipTransfer(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.cancelOwnershipTransfer(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['cancelOwnershipTransfer(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `acceptOwnership(pay,uint64)void` ABI method.
+     *
+    * Take over a listing. From here on the new owner manages it, and receives primary sale
+    proceeds, escrowed raise funds and the rest of the owner's payouts. The previous owner gets
+    back the MBR of the pending transfer box and of the listing's entry in their index.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    acceptOwnership: async (params: CallParams<FractionalRealEstateArgs['obj']['acceptOwnership(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['acceptOwnership(pay,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.acceptOwnership(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['acceptOwnership(pay,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getPendingOwner(uint64)address` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Account a pending ownership transfer would hand the listing to, or the zero address if there is none.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getPendingOwner: async (params: CallParams<FractionalRealEstateArgs['obj']['getPendingOwner(uint64)address'] | FractionalRealEstateArgs['tuple']['getPendingOwner(uint64)address']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getPendingOwner(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getPendingOwner(uint64)address'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `delistProperty(uint64)void` ABI method.
+     *
+    * Delist a property. Only the owner can delist, and no shares can have been sold.
+    Deleting the boxes reclaims their MBR, which is paid back to the owner.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    delistProperty: async (params: CallParams<FractionalRealEstateArgs['obj']['delistProperty(uint64)void'] | FractionalRealEstateArgs['tuple']['delistProperty(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.delistProperty(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['delistProperty(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getPropertyInfo: async (params: CallParams<FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)'] | FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getPropertyInfo(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getListingIds(uint64)uint64[]` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+    * A page of up to 32 property IDs in the order they were listed, including any since delisted.
+    Pages run from 0 up to nextListingIndex / 32.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getListingIds: async (params: CallParams<FractionalRealEstateArgs['obj']['getListingIds(uint64)uint64[]'] | FractionalRealEstateArgs['tuple']['getListingIds(uint64)uint64[]']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getListingIds(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getListingIds(uint64)uint64[]'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+    * The listings for a batch of property IDs, skipping any that have been delisted. ABI returns
+    are capped at 1KB, so only a couple of listings fit in each call: a listing with the longest
+    address, unit name and metadata URL encodes to 488 bytes (254 + 128 + 8 + 96 + a 2-byte offset),
+    and two of those with the array's length prefix come to 978.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getProperties: async (params: CallParams<FractionalRealEstateArgs['obj']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]'] | FractionalRealEstateArgs['tuple']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getProperties(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getOwnerListings(address)uint64[]` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * IDs of the properties an account has listed or taken over, oldest first.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getOwnerListings: async (params: CallParams<FractionalRealEstateArgs['obj']['getOwnerListings(address)uint64[]'] | FractionalRealEstateArgs['tuple']['getOwnerListings(address)uint64[]']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getOwnerListings(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getOwnerListings(address)uint64[]'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getMarketStats()(uint64,uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getMarketStats: async (params: CallParams<FractionalRealEstateArgs['obj']['getMarketStats()(uint64,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getMarketStats()(uint64,uint64,uint64)']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getMarketStats(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getMarketStats()(uint64,uint64,uint64)'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getCurrentPrice(uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Current primary sale price per share, which falls over time on a Dutch auction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getCurrentPrice: async (params: CallParams<FractionalRealEstateArgs['obj']['getCurrentPrice(uint64)uint64'] | FractionalRealEstateArgs['tuple']['getCurrentPrice(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getCurrentPrice(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getCurrentPrice(uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `createSellOrder(pay,uint64,uint64,uint64)uint64` ABI method.
+     *
+    * Post a resale order on the secondary market. The shares being sold are taken from the
+    seller's holding and escrowed in the app account until the order is filled or cancelled.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    createSellOrder: async (params: CallParams<FractionalRealEstateArgs['obj']['createSellOrder(pay,uint64,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createSellOrder(pay,uint64,uint64,uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.createSellOrder(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['createSellOrder(pay,uint64,uint64,uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `fillSellOrder(uint64,uint64,pay)bool` ABI method.
+     *
+    * Buy shares out of a resale order. Payment goes to the seller and partial fills are allowed;
+    the order box is deleted once all of its shares are sold.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    fillSellOrder: async (params: CallParams<FractionalRealEstateArgs['obj']['fillSellOrder(uint64,uint64,pay)bool'] | FractionalRealEstateArgs['tuple']['fillSellOrder(uint64,uint64,pay)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.fillSellOrder(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['fillSellOrder(uint64,uint64,pay)bool'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `cancelSellOrder(uint64)void` ABI method.
+     *
+     * Cancel a resale order. Only the seller can cancel; unsold shares are returned to them.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    cancelSellOrder: async (params: CallParams<FractionalRealEstateArgs['obj']['cancelSellOrder(uint64)void'] | FractionalRealEstateArgs['tuple']['cancelSellOrder(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.cancelSellOrder(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['cancelSellOrder(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getSellOrder(uint64)(uint64,address,uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getSellOrder: async (params: CallParams<FractionalRealEstateArgs['obj']['getSellOrder(uint64)(uint64,address,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getSellOrder(uint64)(uint64,address,uint64,uint64)']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getSellOrder(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getSellOrder(uint64)(uint64,address,uint64,uint64)'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `depositIncome(uint64,pay)void` ABI method.
+     *
+    * Deposit rental income for a property. Only the owner can deposit. The amount is spread over
+    the shares registered holders have in their holdings by growing a cumulative income-per-share
+    accumulator. Shares held by the app (unsold, escrowed in orders or votes) and unregistered
+    holders' shares don't earn. Whatever doesn't divide evenly, or all of it while no shares are
+    registered, is carried into the next deposit.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    depositIncome: async (params: CallParams<FractionalRealEstateArgs['obj']['depositIncome(uint64,pay)void'] | FractionalRealEstateArgs['tuple']['depositIncome(uint64,pay)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.depositIncome(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['depositIncome(uint64,pay)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `registerForIncome(pay,uint64)void` ABI method.
+     *
+    * Start earning income on a property, on the shares in the caller's holding. Income deposited
+    before registering is not claimable, since the app only settles the holdings of registered
+    holders as their shares move.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    registerForIncome: async (params: CallParams<FractionalRealEstateArgs['obj']['registerForIncome(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerForIncome(pay,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.registerForIncome(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['registerForIncome(pay,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `unregisterForIncome(uint64)uint64` ABI method.
+     *
+    * Stop earning income on a property. Pays out the caller's unclaimed income along with the
+    claim box MBR, including after the property has been delisted. Returns the income paid.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    unregisterForIncome: async (params: CallParams<FractionalRealEstateArgs['obj']['unregisterForIncome(uint64)uint64'] | FractionalRealEstateArgs['tuple']['unregisterForIncome(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.unregisterForIncome(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['unregisterForIncome(uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `claimIncome(uint64)uint64` ABI method.
+     *
+    * Pay out the caller's share of income deposited since their last claim. Returns the amount paid.
+    Nothing more can be earned on a delisted property, so claiming on one also closes the claim.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    claimIncome: async (params: CallParams<FractionalRealEstateArgs['obj']['claimIncome(uint64)uint64'] | FractionalRealEstateArgs['tuple']['claimIncome(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.claimIncome(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['claimIncome(uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getUnclaimedIncome(uint64,address)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getUnclaimedIncome: async (params: CallParams<FractionalRealEstateArgs['obj']['getUnclaimedIncome(uint64,address)uint64'] | FractionalRealEstateArgs['tuple']['getUnclaimedIncome(uint64,address)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getUnclaimedIncome(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getUnclaimedIncome(uint64,address)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `createProposal(pay,uint64,string,uint64)uint64` ABI method.
+     *
+    * Open a governance proposal for a property's co-owners. Only holders of the property's shares
+    can propose. The quorum is fixed from the share supply when the proposal is created.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    createProposal: async (params: CallParams<FractionalRealEstateArgs['obj']['createProposal(pay,uint64,string,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createProposal(pay,uint64,string,uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.createProposal(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['createProposal(pay,uint64,string,uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `castVote(pay,uint64,uint64,bool)void` ABI method.
+     *
+    * Vote on a proposal, weighted by the shares voted with. The shares are taken from the voter's
+    holding and stay locked in the app until the deadline has passed, so the same shares can't be
+    moved and voted again. Locked shares don't earn income until they're withdrawn.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    castVote: async (params: CallParams<FractionalRealEstateArgs['obj']['castVote(pay,uint64,uint64,bool)void'] | FractionalRealEstateArgs['tuple']['castVote(pay,uint64,uint64,bool)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.castVote(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['castVote(pay,uint64,uint64,bool)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `finalizeProposal(uint64)uint64` ABI method.
+     *
+    * Record the outcome of a proposal once voting has closed. Anyone can finalize. With no votes
+    left to withdraw the proposal is done with, so its box is deleted and the MBR goes back to the proposer.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    finalizeProposal: async (params: CallParams<FractionalRealEstateArgs['obj']['finalizeProposal(uint64)uint64'] | FractionalRealEstateArgs['tuple']['finalizeProposal(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.finalizeProposal(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['finalizeProposal(uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `withdrawVote(uint64)void` ABI method.
+     *
+    * Unlock the caller's voting shares after the deadline and refund the vote box MBR. The last
+    voter to withdraw from a finalized proposal also returns the proposal box MBR to the proposer.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    withdrawVote: async (params: CallParams<FractionalRealEstateArgs['obj']['withdrawVote(uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawVote(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.withdrawVote(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['withdrawVote(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getProposal: async (params: CallParams<FractionalRealEstateArgs['obj']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)'] | FractionalRealEstateArgs['tuple']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getProposal(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `offerBuyout(pay,pay,uint64,uint64)uint64` ABI method.
+     *
+    * Offer to buy out every share of a property. The offer amount is escrowed in the app and
+    holders vote on it with their shares until the deadline. A property has one active offer at
+    a time, open or accepted, and only once its primary sale has sold out or been closed. A new
+    offer can be made as soon as the previous one is rejected.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result: The ID of the new offer
+     */
+    offerBuyout: async (params: CallParams<FractionalRealEstateArgs['obj']['offerBuyout(pay,pay,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['offerBuyout(pay,pay,uint64,uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.offerBuyout(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['offerBuyout(pay,pay,uint64,uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `voteOnBuyout(pay,uint64,uint64,bool)void` ABI method.
+     *
+    * Vote on a buyout offer, weighted by the shares voted with. The shares are taken from the
+    voter's holding and stay locked in the app: they are redeemed with the holder's other shares
+    if the buyout is accepted, and can be withdrawn if it is rejected. Locked shares don't earn income.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    voteOnBuyout: async (params: CallParams<FractionalRealEstateArgs['obj']['voteOnBuyout(pay,uint64,uint64,bool)void'] | FractionalRealEstateArgs['tuple']['voteOnBuyout(pay,uint64,uint64,bool)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.voteOnBuyout(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['voteOnBuyout(pay,uint64,uint64,bool)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `finalizeBuyout(uint64)uint64` ABI method.
+     *
+    * Decide a buyout. Anyone can finalize, as soon as more than half of all shares have voted for
+    it or otherwise once voting has closed. An accepted buyout closes the primary sale for good;
+    a rejected one pays the escrowed offer back to the bidder and frees the property for a new offer.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    finalizeBuyout: async (params: CallParams<FractionalRealEstateArgs['obj']['finalizeBuyout(uint64)uint64'] | FractionalRealEstateArgs['tuple']['finalizeBuyout(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.finalizeBuyout(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['finalizeBuyout(uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `withdrawBuyoutVote(uint64)void` ABI method.
+     *
+    * Unlock the caller's voting shares after a buyout was rejected and refund the vote box MBR.
+    The last voter to withdraw also returns the buyout box MBR to the bidder.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    withdrawBuyoutVote: async (params: CallParams<FractionalRealEstateArgs['obj']['withdrawBuyoutVote(uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawBuyoutVote(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.withdrawBuyoutVote(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['withdrawBuyoutVote(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `redeemBuyout(uint64,uint64)uint64` ABI method.
+     *
+    * Hand shares in to an accepted buyout for their pro-rata share of the offer. Shares locked in
+    the caller's vote are redeemed along with the shares taken from their holding, and the caller's
+    unclaimed income and box MBR are paid out with it. Redeemed shares stay in the app.
+    Once every share is redeemed the listing is closed, with its MBR going back to the owner and
+    the buyout box MBRs to the bidder.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result: The amount paid for the shares
+     */
+    redeemBuyout: async (params: CallParams<FractionalRealEstateArgs['obj']['redeemBuyout(uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['redeemBuyout(uint64,uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.redeemBuyout(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['redeemBuyout(uint64,uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getBuyout: async (params: CallParams<FractionalRealEstateArgs['obj']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)'] | FractionalRealEstateArgs['tuple']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getBuyout(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getActiveBuyout(uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * The ID of a property's open or accepted buyout offer, or 0 if it has none.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getActiveBuyout: async (params: CallParams<FractionalRealEstateArgs['obj']['getActiveBuyout(uint64)uint64'] | FractionalRealEstateArgs['tuple']['getActiveBuyout(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getActiveBuyout(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getActiveBuyout(uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `reserveShares(pay,uint64,uint64,pay)uint64` ABI method.
+     *
+    * Reserve primary shares of an ALGO-priced listing for buyers whose funds take a while to settle.
+    The shares are held back from sale at today's price for the listing's reservation period, on a
+    deposit of at least the listing's deposit rate; completeReservation pays the rest and hands them over.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result: The last round the reservation can be completed in
+     */
+    reserveShares: async (params: CallParams<FractionalRealEstateArgs['obj']['reserveShares(pay,uint64,uint64,pay)uint64'] | FractionalRealEstateArgs['tuple']['reserveShares(pay,uint64,uint64,pay)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.reserveShares(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['reserveShares(pay,uint64,uint64,pay)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64` ABI method.
+     *
+     * Reserve primary shares of a listing priced in an ASA, paying the deposit in that asset.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result: The last round the reservation can be completed in
+     */
+    reserveSharesWithAsset: async (params: CallParams<FractionalRealEstateArgs['obj']['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64'] | FractionalRealEstateArgs['tuple']['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.reserveSharesWithAsset(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `completeReservation(uint64,pay)uint64` ABI method.
+     *
+     * Pay the rest of an ALGO-priced reservation and receive the shares. The reservation box MBR is refunded.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result: The number of shares bought
+     */
+    completeReservation: async (params: CallParams<FractionalRealEstateArgs['obj']['completeReservation(uint64,pay)uint64'] | FractionalRealEstateArgs['tuple']['completeReservation(uint64,pay)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.completeReservation(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['completeReservation(uint64,pay)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `completeReservationWithAsset(uint64,axfer)uint64` ABI method.
+     *
+     * Pay the rest of a reservation in the listing's payment asset and receive the shares.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result: The number of shares bought
+     */
+    completeReservationWithAsset: async (params: CallParams<FractionalRealEstateArgs['obj']['completeReservationWithAsset(uint64,axfer)uint64'] | FractionalRealEstateArgs['tuple']['completeReservationWithAsset(uint64,axfer)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.completeReservationWithAsset(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['completeReservationWithAsset(uint64,axfer)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `expireReservation(uint64,address)void` ABI method.
+     *
+    * Release a reservation that ran out without being completed. Anyone can call this once it has
+    expired. The shares go back on sale, the deposit goes to the owner if the listing forfeits
+    deposits or back to the holder otherwise, and the holder gets the reservation box MBR back.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    expireReservation: async (params: CallParams<FractionalRealEstateArgs['obj']['expireReservation(uint64,address)void'] | FractionalRealEstateArgs['tuple']['expireReservation(uint64,address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.expireReservation(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['expireReservation(uint64,address)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getReservation(uint64,address)(uint64,uint64,uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getReservation: async (params: CallParams<FractionalRealEstateArgs['obj']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getReservation(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getReservation(uint64,address)(uint64,uint64,uint64,uint64)'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `registerReferrer(pay,uint64)void` ABI method.
+     *
+    * Sign up as a referral partner for listings priced in one currency, so purchases can name the
+    caller as their referrer. The partner pays the MBR for the box their earnings are tracked in,
+    and must be opted in to an ASA currency to be paid in it.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    registerReferrer: async (params: CallParams<FractionalRealEstateArgs['obj']['registerReferrer(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerReferrer(pay,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.registerReferrer(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['registerReferrer(pay,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getReferralEarnings(address,uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Total referral commissions a partner has been paid in one currency, or 0 if they haven't registered for it.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getReferralEarnings: async (params: CallParams<FractionalRealEstateArgs['obj']['getReferralEarnings(address,uint64)uint64'] | FractionalRealEstateArgs['tuple']['getReferralEarnings(address,uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getReferralEarnings(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getReferralEarnings(address,uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `setAppraiser(pay,uint64,address)void` ABI method.
+     *
+    * Appoint the account that posts valuations of a listing, or replace it. Pass the zero address
+    to stop valuations being posted. The first appointment pays the MBR for the appraiser box and
+    the valuation history box, which comes back to the owner when the listing closes.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAppraiser: async (params: CallParams<FractionalRealEstateArgs['obj']['setAppraiser(pay,uint64,address)void'] | FractionalRealEstateArgs['tuple']['setAppraiser(pay,uint64,address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.setAppraiser(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['setAppraiser(pay,uint64,address)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `postValuation(uint64,uint64,uint64,byte[32])void` ABI method.
+     *
+    * Post a valuation of the whole property. Only the listing's appraiser can post, and valuations
+    must be posted in date order. Once the history is full the oldest valuation is dropped.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    postValuation: async (params: CallParams<FractionalRealEstateArgs['obj']['postValuation(uint64,uint64,uint64,byte[32])void'] | FractionalRealEstateArgs['tuple']['postValuation(uint64,uint64,uint64,byte[32])void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.postValuation(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['postValuation(uint64,uint64,uint64,byte[32])void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getAppraiser(uint64)address` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Account that posts a listing's valuations, or the zero address if there is none.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getAppraiser: async (params: CallParams<FractionalRealEstateArgs['obj']['getAppraiser(uint64)address'] | FractionalRealEstateArgs['tuple']['getAppraiser(uint64)address']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getAppraiser(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getAppraiser(uint64)address'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getLatestValuation(uint64)(uint64,uint64,byte[32])` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * A listing's most recent valuation. NAV per share is its totalValue over the listing's totalShares.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getLatestValuation: async (params: CallParams<FractionalRealEstateArgs['obj']['getLatestValuation(uint64)(uint64,uint64,byte[32])'] | FractionalRealEstateArgs['tuple']['getLatestValuation(uint64)(uint64,uint64,byte[32])']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getLatestValuation(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getLatestValuation(uint64)(uint64,uint64,byte[32])'])}
+    },
+
+    /**
+     * Makes a call to the FractionalRealEstate smart contract using the `getValuationHistory(uint64)(uint64,uint64,byte[32])[]` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Up to the last 12 valuations of a listing, oldest first.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getValuationHistory: async (params: CallParams<FractionalRealEstateArgs['obj']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]'] | FractionalRealEstateArgs['tuple']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getValuationHistory(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getValuationHistory(uint64)(uint64,uint64,byte[32])[]'])}
+    },
+
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new FractionalRealEstateClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `isApproved(address)bool` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Whether an account is on the KYC allowlist.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async isApproved(params: CallParams<FractionalRealEstateArgs['obj']['isApproved(address)bool'] | FractionalRealEstateArgs['tuple']['isApproved(address)bool']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.isApproved(params))
+    return result.return as unknown as FractionalRealEstateReturns['isApproved(address)bool']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getLockup(uint64,address)(uint64,uint64)` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * A holder's locked shares and the round they unlock in. Both are 0 without a lockup.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getLockup(params: CallParams<FractionalRealEstateArgs['obj']['getLockup(uint64,address)(uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getLockup(uint64,address)(uint64,uint64)']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getLockup(params))
+    return result.return as unknown as FractionalRealEstateReturns['getLockup(uint64,address)(uint64,uint64)']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getPlatformFee()(uint64,address)` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Current platform fee and treasury. The treasury is the zero address until one is set.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getPlatformFee(params: CallParams<FractionalRealEstateArgs['obj']['getPlatformFee()(uint64,address)'] | FractionalRealEstateArgs['tuple']['getPlatformFee()(uint64,address)']> = {args: []}) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getPlatformFee(params))
+    return result.return as unknown as FractionalRealEstateReturns['getPlatformFee()(uint64,address)']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getPendingOwner(uint64)address` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Account a pending ownership transfer would hand the listing to, or the zero address if there is none.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getPendingOwner(params: CallParams<FractionalRealEstateArgs['obj']['getPendingOwner(uint64)address'] | FractionalRealEstateArgs['tuple']['getPendingOwner(uint64)address']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getPendingOwner(params))
+    return result.return as unknown as FractionalRealEstateReturns['getPendingOwner(uint64)address']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getPropertyInfo(params: CallParams<FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)'] | FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getPropertyInfo(params))
+    return result.return as unknown as FractionalRealEstateReturns['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getListingIds(uint64)uint64[]` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+  * A page of up to 32 property IDs in the order they were listed, including any since delisted.
+  Pages run from 0 up to nextListingIndex / 32.
+
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getListingIds(params: CallParams<FractionalRealEstateArgs['obj']['getListingIds(uint64)uint64[]'] | FractionalRealEstateArgs['tuple']['getListingIds(uint64)uint64[]']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getListingIds(params))
+    return result.return as unknown as FractionalRealEstateReturns['getListingIds(uint64)uint64[]']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+  * The listings for a batch of property IDs, skipping any that have been delisted. ABI returns
+  are capped at 1KB, so only a couple of listings fit in each call: a listing with the longest
+  address, unit name and metadata URL encodes to 488 bytes (254 + 128 + 8 + 96 + a 2-byte offset),
+  and two of those with the array's length prefix come to 978.
+
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getProperties(params: CallParams<FractionalRealEstateArgs['obj']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]'] | FractionalRealEstateArgs['tuple']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getProperties(params))
+    return result.return as unknown as FractionalRealEstateReturns['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getOwnerListings(address)uint64[]` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * IDs of the properties an account has listed or taken over, oldest first.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getOwnerListings(params: CallParams<FractionalRealEstateArgs['obj']['getOwnerListings(address)uint64[]'] | FractionalRealEstateArgs['tuple']['getOwnerListings(address)uint64[]']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getOwnerListings(params))
+    return result.return as unknown as FractionalRealEstateReturns['getOwnerListings(address)uint64[]']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getMarketStats()(uint64,uint64,uint64)` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getMarketStats(params: CallParams<FractionalRealEstateArgs['obj']['getMarketStats()(uint64,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getMarketStats()(uint64,uint64,uint64)']> = {args: []}) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getMarketStats(params))
+    return result.return as unknown as FractionalRealEstateReturns['getMarketStats()(uint64,uint64,uint64)']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getCurrentPrice(uint64)uint64` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Current primary sale price per share, which falls over time on a Dutch auction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getCurrentPrice(params: CallParams<FractionalRealEstateArgs['obj']['getCurrentPrice(uint64)uint64'] | FractionalRealEstateArgs['tuple']['getCurrentPrice(uint64)uint64']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getCurrentPrice(params))
+    return result.return as unknown as FractionalRealEstateReturns['getCurrentPrice(uint64)uint64']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getSellOrder(uint64)(uint64,address,uint64,uint64)` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getSellOrder(params: CallParams<FractionalRealEstateArgs['obj']['getSellOrder(uint64)(uint64,address,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getSellOrder(uint64)(uint64,address,uint64,uint64)']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getSellOrder(params))
+    return result.return as unknown as FractionalRealEstateReturns['getSellOrder(uint64)(uint64,address,uint64,uint64)']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getUnclaimedIncome(uint64,address)uint64` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getUnclaimedIncome(params: CallParams<FractionalRealEstateArgs['obj']['getUnclaimedIncome(uint64,address)uint64'] | FractionalRealEstateArgs['tuple']['getUnclaimedIncome(uint64,address)uint64']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getUnclaimedIncome(params))
+    return result.return as unknown as FractionalRealEstateReturns['getUnclaimedIncome(uint64,address)uint64']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getProposal(params: CallParams<FractionalRealEstateArgs['obj']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)'] | FractionalRealEstateArgs['tuple']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getProposal(params))
+    return result.return as unknown as FractionalRealEstateReturns['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getBuyout(params: CallParams<FractionalRealEstateArgs['obj']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)'] | FractionalRealEstateArgs['tuple']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getBuyout(params))
+    return result.return as unknown as FractionalRealEstateReturns['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getActiveBuyout(uint64)uint64` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * The ID of a property's open or accepted buyout offer, or 0 if it has none.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getActiveBuyout(params: CallParams<FractionalRealEstateArgs['obj']['getActiveBuyout(uint64)uint64'] | FractionalRealEstateArgs['tuple']['getActiveBuyout(uint64)uint64']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getActiveBuyout(params))
+    return result.return as unknown as FractionalRealEstateReturns['getActiveBuyout(uint64)uint64']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getReservation(uint64,address)(uint64,uint64,uint64,uint64)` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getReservation(params: CallParams<FractionalRealEstateArgs['obj']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getReservation(params))
+    return result.return as unknown as FractionalRealEstateReturns['getReservation(uint64,address)(uint64,uint64,uint64,uint64)']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getReferralEarnings(address,uint64)uint64` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Total referral commissions a partner has been paid in one currency, or 0 if they haven't registered for it.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getReferralEarnings(params: CallParams<FractionalRealEstateArgs['obj']['getReferralEarnings(address,uint64)uint64'] | FractionalRealEstateArgs['tuple']['getReferralEarnings(address,uint64)uint64']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getReferralEarnings(params))
+    return result.return as unknown as FractionalRealEstateReturns['getReferralEarnings(address,uint64)uint64']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getAppraiser(uint64)address` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Account that posts a listing's valuations, or the zero address if there is none.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getAppraiser(params: CallParams<FractionalRealEstateArgs['obj']['getAppraiser(uint64)address'] | FractionalRealEstateArgs['tuple']['getAppraiser(uint64)address']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getAppraiser(params))
+    return result.return as unknown as FractionalRealEstateReturns['getAppraiser(uint64)address']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getLatestValuation(uint64)(uint64,uint64,byte[32])` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * A listing's most recent valuation. NAV per share is its totalValue over the listing's totalShares.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getLatestValuation(params: CallParams<FractionalRealEstateArgs['obj']['getLatestValuation(uint64)(uint64,uint64,byte[32])'] | FractionalRealEstateArgs['tuple']['getLatestValuation(uint64)(uint64,uint64,byte[32])']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getLatestValuation(params))
+    return result.return as unknown as FractionalRealEstateReturns['getLatestValuation(uint64)(uint64,uint64,byte[32])']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getValuationHistory(uint64)(uint64,uint64,byte[32])[]` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Up to the last 12 valuations of a listing, oldest first.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getValuationHistory(params: CallParams<FractionalRealEstateArgs['obj']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]'] | FractionalRealEstateArgs['tuple']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]']>) {
+    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getValuationHistory(params))
+    return result.return as unknown as FractionalRealEstateReturns['getValuationHistory(uint64)(uint64,uint64,byte[32])[]']
+  }
+
+  /**
+   * Methods to access state for the current FractionalRealEstate app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current FractionalRealEstate app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          nextOrderId: result.nextOrderId,
+          nextProposalId: result.nextProposalId,
+          feeBps: result.feeBps,
+          treasury: result.treasury,
+          admin: result.admin,
+          pendingAdmin: result.pendingAdmin,
+          paused: result.paused,
+          compliance: result.compliance,
+          listingCount: result.listingCount,
+          totalSharesSold: result.totalSharesSold,
+          totalVolume: result.totalVolume,
+          nextListingIndex: result.nextListingIndex,
+          nextBuyoutId: result.nextBuyoutId,
+        }
+      },
+      /**
+       * Get the current value of the nextOrderId key in global state
+       */
+      nextOrderId: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("nextOrderId")) as bigint | undefined },
+      /**
+       * Get the current value of the nextProposalId key in global state
+       */
+      nextProposalId: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("nextProposalId")) as bigint | undefined },
+      /**
+       * Get the current value of the feeBps key in global state
+       */
+      feeBps: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("feeBps")) as bigint | undefined },
+      /**
+       * Get the current value of the treasury key in global state
+       */
+      treasury: async (): Promise<string | undefined> => { return (await this.appClient.state.global.getValue("treasury")) as string | undefined },
+      /**
+       * Get the current value of the admin key in global state
+       */
+      admin: async (): Promise<string | undefined> => { return (await this.appClient.state.global.getValue("admin")) as string | undefined },
+      /**
+       * Get the current value of the pendingAdmin key in global state
+       */
+      pendingAdmin: async (): Promise<string | undefined> => { return (await this.appClient.state.global.getValue("pendingAdmin")) as string | undefined },
+      /**
+       * Get the current value of the paused key in global state
+       */
+      paused: async (): Promise<boolean | undefined> => { return (await this.appClient.state.global.getValue("paused")) as boolean | undefined },
+      /**
+       * Get the current value of the compliance key in global state
+       */
+      compliance: async (): Promise<string | undefined> => { return (await this.appClient.state.global.getValue("compliance")) as string | undefined },
+      /**
+       * Get the current value of the listingCount key in global state
+       */
+      listingCount: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("listingCount")) as bigint | undefined },
+      /**
+       * Get the current value of the totalSharesSold key in global state
+       */
+      totalSharesSold: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("totalSharesSold")) as bigint | undefined },
+      /**
+       * Get the current value of the totalVolume key in global state
+       */
+      totalVolume: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("totalVolume")) as bigint | undefined },
+      /**
+       * Get the current value of the nextListingIndex key in global state
+       */
+      nextListingIndex: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("nextListingIndex")) as bigint | undefined },
+      /**
+       * Get the current value of the nextBuyoutId key in global state
+       */
+      nextBuyoutId: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("nextBuyoutId")) as bigint | undefined },
+    },
+    /**
+     * Methods to access box state for the current FractionalRealEstate app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {
+        }
+      },
+      /**
+       * Get values from the listedProperties map in box state
+       */
+      listedProperties: {
+        /**
+         * Get all current values of the listedProperties map in box state
+         */
+        getMap: async (): Promise<Map<bigint, PropertyStruct>> => { return (await this.appClient.state.box.getMap("listedProperties")) as Map<bigint, PropertyStruct> },
+        /**
+         * Get a current value of the listedProperties map by key from box state
+         */
+        value: async (key: bigint | number): Promise<PropertyStruct | undefined> => { return await this.appClient.state.box.getMapValue("listedProperties", key) as PropertyStruct | undefined },
+      },
+      /**
+       * Get values from the sellOrders map in box state
+       */
+      sellOrders: {
+        /**
+         * Get all current values of the sellOrders map in box state
+         */
+        getMap: async (): Promise<Map<bigint, SellOrderStruct>> => { return (await this.appClient.state.box.getMap("sellOrders")) as Map<bigint, SellOrderStruct> },
+        /**
+         * Get a current value of the sellOrders map by key from box state
+         */
+        value: async (key: bigint | number): Promise<SellOrderStruct | undefined> => { return await this.appClient.state.box.getMapValue("sellOrders", key) as SellOrderStruct | undefined },
+      },
+      /**
+       * Get values from the incomeClaims map in box state
+       */
+      incomeClaims: {
+        /**
+         * Get all current values of the incomeClaims map in box state
+         */
+        getMap: async (): Promise<Map<HolderKey, IncomeClaimStruct>> => { return (await this.appClient.state.box.getMap("incomeClaims")) as Map<HolderKey, IncomeClaimStruct> },
+        /**
+         * Get a current value of the incomeClaims map by key from box state
+         */
+        value: async (key: HolderKey): Promise<IncomeClaimStruct | undefined> => { return await this.appClient.state.box.getMapValue("incomeClaims", key) as IncomeClaimStruct | undefined },
+      },
+      /**
+       * Get values from the proposals map in box state
+       */
+      proposals: {
+        /**
+         * Get all current values of the proposals map in box state
+         */
+        getMap: async (): Promise<Map<bigint, ProposalStruct>> => { return (await this.appClient.state.box.getMap("proposals")) as Map<bigint, ProposalStruct> },
+        /**
+         * Get a current value of the proposals map by key from box state
+         */
+        value: async (key: bigint | number): Promise<ProposalStruct | undefined> => { return await this.appClient.state.box.getMapValue("proposals", key) as ProposalStruct | undefined },
+      },
+      /**
+       * Get values from the votes map in box state
+       */
+      votes: {
+        /**
+         * Get all current values of the votes map in box state
+         */
+        getMap: async (): Promise<Map<VoteKey, VoteStruct>> => { return (await this.appClient.state.box.getMap("votes")) as Map<VoteKey, VoteStruct> },
+        /**
+         * Get a current value of the votes map by key from box state
+         */
+        value: async (key: VoteKey): Promise<VoteStruct | undefined> => { return await this.appClient.state.box.getMapValue("votes", key) as VoteStruct | undefined },
+      },
+      /**
+       * Get values from the allowlist map in box state
+       */
+      allowlist: {
+        /**
+         * Get all current values of the allowlist map in box state
+         */
+        getMap: async (): Promise<Map<string, bigint>> => { return (await this.appClient.state.box.getMap("allowlist")) as Map<string, bigint> },
+        /**
+         * Get a current value of the allowlist map by key from box state
+         */
+        value: async (key: string): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("allowlist", key) as bigint | undefined },
+      },
+      /**
+       * Get values from the lockups map in box state
+       */
+      lockups: {
+        /**
+         * Get all current values of the lockups map in box state
+         */
+        getMap: async (): Promise<Map<HolderKey, LockupStruct>> => { return (await this.appClient.state.box.getMap("lockups")) as Map<HolderKey, LockupStruct> },
+        /**
+         * Get a current value of the lockups map by key from box state
+         */
+        value: async (key: HolderKey): Promise<LockupStruct | undefined> => { return await this.appClient.state.box.getMapValue("lockups", key) as LockupStruct | undefined },
+      },
+      /**
+       * Get values from the priceTiers map in box state
+       */
+      priceTiers: {
+        /**
+         * Get all current values of the priceTiers map in box state
+         */
+        getMap: async (): Promise<Map<bigint, [bigint, bigint, bigint][]>> => { return (await this.appClient.state.box.getMap("priceTiers")) as Map<bigint, [bigint, bigint, bigint][]> },
+        /**
+         * Get a current value of the priceTiers map by key from box state
+         */
+        value: async (key: bigint | number): Promise<[bigint, bigint, bigint][] | undefined> => { return await this.appClient.state.box.getMapValue("priceTiers", key) as [bigint, bigint, bigint][] | undefined },
+      },
+      /**
+       * Get values from the pendingOwners map in box state
+       */
+      pendingOwners: {
+        /**
+         * Get all current values of the pendingOwners map in box state
+         */
+        getMap: async (): Promise<Map<bigint, string>> => { return (await this.appClient.state.box.getMap("pendingOwners")) as Map<bigint, string> },
+        /**
+         * Get a current value of the pendingOwners map by key from box state
+         */
+        value: async (key: bigint | number): Promise<string | undefined> => { return await this.appClient.state.box.getMapValue("pendingOwners", key) as string | undefined },
+      },
+      /**
+       * Get values from the ownerListings map in box state
+       */
+      ownerListings: {
+        /**
+         * Get all current values of the ownerListings map in box state
+         */
+        getMap: async (): Promise<Map<string, bigint[]>> => { return (await this.appClient.state.box.getMap("ownerListings")) as Map<string, bigint[]> },
+        /**
+         * Get a current value of the ownerListings map by key from box state
+         */
+        value: async (key: string): Promise<bigint[] | undefined> => { return await this.appClient.state.box.getMapValue("ownerListings", key) as bigint[] | undefined },
+      },
+      /**
+       * Get values from the listingPages map in box state
+       */
+      listingPages: {
+        /**
+         * Get all current values of the listingPages map in box state
+         */
+        getMap: async (): Promise<Map<bigint, bigint[]>> => { return (await this.appClient.state.box.getMap("listingPages")) as Map<bigint, bigint[]> },
+        /**
+         * Get a current value of the listingPages map by key from box state
+         */
+        value: async (key: bigint | number): Promise<bigint[] | undefined> => { return await this.appClient.state.box.getMapValue("listingPages", key) as bigint[] | undefined },
+      },
+      /**
+       * Get values from the buyouts map in box state
+       */
+      buyouts: {
+        /**
+         * Get all current values of the buyouts map in box state
+         */
+        getMap: async (): Promise<Map<bigint, BuyoutStruct>> => { return (await this.appClient.state.box.getMap("buyouts")) as Map<bigint, BuyoutStruct> },
+        /**
+         * Get a current value of the buyouts map by key from box state
+         */
+        value: async (key: bigint | number): Promise<BuyoutStruct | undefined> => { return await this.appClient.state.box.getMapValue("buyouts", key) as BuyoutStruct | undefined },
+      },
+      /**
+       * Get values from the activeBuyouts map in box state
+       */
+      activeBuyouts: {
+        /**
+         * Get all current values of the activeBuyouts map in box state
+         */
+        getMap: async (): Promise<Map<bigint, bigint>> => { return (await this.appClient.state.box.getMap("activeBuyouts")) as Map<bigint, bigint> },
+        /**
+         * Get a current value of the activeBuyouts map by key from box state
+         */
+        value: async (key: bigint | number): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("activeBuyouts", key) as bigint | undefined },
+      },
+      /**
+       * Get values from the buyoutVotes map in box state
+       */
+      buyoutVotes: {
+        /**
+         * Get all current values of the buyoutVotes map in box state
+         */
+        getMap: async (): Promise<Map<BuyoutVoteKey, VoteStruct>> => { return (await this.appClient.state.box.getMap("buyoutVotes")) as Map<BuyoutVoteKey, VoteStruct> },
+        /**
+         * Get a current value of the buyoutVotes map by key from box state
+         */
+        value: async (key: BuyoutVoteKey): Promise<VoteStruct | undefined> => { return await this.appClient.state.box.getMapValue("buyoutVotes", key) as VoteStruct | undefined },
+      },
+      /**
+       * Get values from the reservations map in box state
+       */
+      reservations: {
+        /**
+         * Get all current values of the reservations map in box state
+         */
+        getMap: async (): Promise<Map<HolderKey, ReservationStruct>> => { return (await this.appClient.state.box.getMap("reservations")) as Map<HolderKey, ReservationStruct> },
+        /**
+         * Get a current value of the reservations map by key from box state
+         */
+        value: async (key: HolderKey): Promise<ReservationStruct | undefined> => { return await this.appClient.state.box.getMapValue("reservations", key) as ReservationStruct | undefined },
+      },
+      /**
+       * Get values from the referralEarnings map in box state
+       */
+      referralEarnings: {
+        /**
+         * Get all current values of the referralEarnings map in box state
+         */
+        getMap: async (): Promise<Map<ReferralKey, bigint>> => { return (await this.appClient.state.box.getMap("referralEarnings")) as Map<ReferralKey, bigint> },
+        /**
+         * Get a current value of the referralEarnings map by key from box state
+         */
+        value: async (key: ReferralKey): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("referralEarnings", key) as bigint | undefined },
+      },
+      /**
+       * Get values from the appraisers map in box state
+       */
+      appraisers: {
+        /**
+         * Get all current values of the appraisers map in box state
+         */
+        getMap: async (): Promise<Map<bigint, string>> => { return (await this.appClient.state.box.getMap("appraisers")) as Map<bigint, string> },
+        /**
+         * Get a current value of the appraisers map by key from box state
+         */
+        value: async (key: bigint | number): Promise<string | undefined> => { return await this.appClient.state.box.getMapValue("appraisers", key) as string | undefined },
+      },
+      /**
+       * Get values from the valuations map in box state
+       */
+      valuations: {
+        /**
+         * Get all current values of the valuations map in box state
+         */
+        getMap: async (): Promise<Map<bigint, [bigint, bigint, Uint8Array][]>> => { return (await this.appClient.state.box.getMap("valuations")) as Map<bigint, [bigint, bigint, Uint8Array][]> },
+        /**
+         * Get a current value of the valuations map by key from box state
+         */
+        value: async (key: bigint | number): Promise<[bigint, bigint, Uint8Array][] | undefined> => { return await this.appClient.state.box.getMapValue("valuations", key) as [bigint, bigint, Uint8Array][] | undefined },
+      },
+    },
+  }
+
+  public newGroup(): FractionalRealEstateComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain:Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64 method call against the FractionalRealEstate contract
+       */
+      createPropertyListing(params: CallParams<FractionalRealEstateArgs['obj']['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64'] | FractionalRealEstateArgs['tuple']['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.createPropertyListing(params)))
+        resultMappers.push((v) => client.decodeReturnValue('createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a purchaseFromLister(uint64,uint64,pay,address)bool method call against the FractionalRealEstate contract
+       */
+      purchaseFromLister(params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromLister(uint64,uint64,pay,address)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromLister(uint64,uint64,pay,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.purchaseFromLister(params)))
+        resultMappers.push((v) => client.decodeReturnValue('purchaseFromLister(uint64,uint64,pay,address)bool', v))
+        return this
+      },
+      /**
+       * Add a purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool method call against the FractionalRealEstate contract
+       */
+      purchaseFromListerWithAsset(params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.purchaseFromListerWithAsset(params)))
+        resultMappers.push((v) => client.decodeReturnValue('purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool', v))
+        return this
+      },
+      /**
+       * Add a purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64 method call against the FractionalRealEstate contract
+       */
+      purchaseUpTo(params: CallParams<FractionalRealEstateArgs['obj']['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.purchaseUpTo(params)))
+        resultMappers.push((v) => client.decodeReturnValue('purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64', v))
+        return this
+      },
+      /**
+       * Add a purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64 method call against the FractionalRealEstate contract
+       */
+      purchaseUpToWithAsset(params: CallParams<FractionalRealEstateArgs['obj']['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.purchaseUpToWithAsset(params)))
+        resultMappers.push((v) => client.decodeReturnValue('purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64', v))
+        return this
+      },
+      /**
+       * Add a purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64 method call against the FractionalRealEstate contract
+       */
+      purchaseAtAuction(params: CallParams<FractionalRealEstateArgs['obj']['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.purchaseAtAuction(params)))
+        resultMappers.push((v) => client.decodeReturnValue('purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64', v))
+        return this
+      },
+      /**
+       * Add a purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64 method call against the FractionalRealEstate contract
+       */
+      purchaseAtAuctionWithAsset(params: CallParams<FractionalRealEstateArgs['obj']['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.purchaseAtAuctionWithAsset(params)))
+        resultMappers.push((v) => client.decodeReturnValue('purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64', v))
+        return this
+      },
+      /**
+       * Add a withdrawProceeds(uint64)uint64 method call against the FractionalRealEstate contract
+       */
+      withdrawProceeds(params: CallParams<FractionalRealEstateArgs['obj']['withdrawProceeds(uint64)uint64'] | FractionalRealEstateArgs['tuple']['withdrawProceeds(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.withdrawProceeds(params)))
+        resultMappers.push((v) => client.decodeReturnValue('withdrawProceeds(uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a claimRefund(uint64,uint64)uint64 method call against the FractionalRealEstate contract
+       */
+      claimRefund(params: CallParams<FractionalRealEstateArgs['obj']['claimRefund(uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['claimRefund(uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.claimRefund(params)))
+        resultMappers.push((v) => client.decodeReturnValue('claimRefund(uint64,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a setFeeBps(uint64)void method call against the FractionalRealEstate contract
+       */
+      setFeeBps(params: CallParams<FractionalRealEstateArgs['obj']['setFeeBps(uint64)void'] | FractionalRealEstateArgs['tuple']['setFeeBps(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setFeeBps(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setTreasury(address)void method call against the FractionalRealEstate contract
+       */
+      setTreasury(params: CallParams<FractionalRealEstateArgs['obj']['setTreasury(address)void'] | FractionalRealEstateArgs['tuple']['setTreasury(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setTreasury(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a transferAdmin(address)void method call against the FractionalRealEstate contract
+       */
+      transferAdmin(params: CallParams<FractionalRealEstateArgs['obj']['transferAdmin(address)void'] | FractionalRealEstateArgs['tuple']['transferAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.transferAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a acceptAdmin()void method call against the FractionalRealEstate contract
+       */
+      acceptAdmin(params: CallParams<FractionalRealEstateArgs['obj']['acceptAdmin()void'] | FractionalRealEstateArgs['tuple']['acceptAdmin()void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.acceptAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a pause()void method call against the FractionalRealEstate contract
+       */
+      pause(params: CallParams<FractionalRealEstateArgs['obj']['pause()void'] | FractionalRealEstateArgs['tuple']['pause()void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.pause(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a unpause()void method call against the FractionalRealEstate contract
+       */
+      unpause(params: CallParams<FractionalRealEstateArgs['obj']['unpause()void'] | FractionalRealEstateArgs['tuple']['unpause()void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.unpause(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setCompliance(address)void method call against the FractionalRealEstate contract
+       */
+      setCompliance(params: CallParams<FractionalRealEstateArgs['obj']['setCompliance(address)void'] | FractionalRealEstateArgs['tuple']['setCompliance(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setCompliance(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a approveAccount(pay,address)void method call against the FractionalRealEstate contract
+       */
+      approveAccount(params: CallParams<FractionalRealEstateArgs['obj']['approveAccount(pay,address)void'] | FractionalRealEstateArgs['tuple']['approveAccount(pay,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.approveAccount(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a revokeAccount(address)void method call against the FractionalRealEstate contract
+       */
+      revokeAccount(params: CallParams<FractionalRealEstateArgs['obj']['revokeAccount(address)void'] | FractionalRealEstateArgs['tuple']['revokeAccount(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.revokeAccount(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a transferShares(uint64,address,uint64)void method call against the FractionalRealEstate contract
+       */
+      transferShares(params: CallParams<FractionalRealEstateArgs['obj']['transferShares(uint64,address,uint64)void'] | FractionalRealEstateArgs['tuple']['transferShares(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.transferShares(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a isApproved(address)bool method call against the FractionalRealEstate contract
+       */
+      isApproved(params: CallParams<FractionalRealEstateArgs['obj']['isApproved(address)bool'] | FractionalRealEstateArgs['tuple']['isApproved(address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.isApproved(params)))
+        resultMappers.push((v) => client.decodeReturnValue('isApproved(address)bool', v))
+        return this
+      },
+      /**
+       * Add a registerLockup(pay,uint64)void method call against the FractionalRealEstate contract
+       */
+      registerLockup(params: CallParams<FractionalRealEstateArgs['obj']['registerLockup(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerLockup(pay,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.registerLockup(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a unlockShares(uint64)void method call against the FractionalRealEstate contract
+       */
+      unlockShares(params: CallParams<FractionalRealEstateArgs['obj']['unlockShares(uint64)void'] | FractionalRealEstateArgs['tuple']['unlockShares(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.unlockShares(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a getLockup(uint64,address)(uint64,uint64) method call against the FractionalRealEstate contract
+       */
+      getLockup(params: CallParams<FractionalRealEstateArgs['obj']['getLockup(uint64,address)(uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getLockup(uint64,address)(uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getLockup(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getLockup(uint64,address)(uint64,uint64)', v))
+        return this
+      },
+      /**
+       * Add a getPlatformFee()(uint64,address) method call against the FractionalRealEstate contract
+       */
+      getPlatformFee(params: CallParams<FractionalRealEstateArgs['obj']['getPlatformFee()(uint64,address)'] | FractionalRealEstateArgs['tuple']['getPlatformFee()(uint64,address)']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getPlatformFee(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getPlatformFee()(uint64,address)', v))
+        return this
+      },
+      /**
+       * Add a updatePrice(uint64,uint64)void method call against the FractionalRealEstate contract
+       */
+      updatePrice(params: CallParams<FractionalRealEstateArgs['obj']['updatePrice(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['updatePrice(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.updatePrice(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a withdrawShares(uint64,uint64)void method call against the FractionalRealEstate contract
+       */
+      withdrawShares(params: CallParams<FractionalRealEstateArgs['obj']['withdrawShares(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawShares(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.withdrawShares(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a topUpShares(uint64,uint64)void method call against the FractionalRealEstate contract
+       */
+      topUpShares(params: CallParams<FractionalRealEstateArgs['obj']['topUpShares(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['topUpShares(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.topUpShares(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a closePrimarySale(uint64)void method call against the FractionalRealEstate contract
+       */
+      closePrimarySale(params: CallParams<FractionalRealEstateArgs['obj']['closePrimarySale(uint64)void'] | FractionalRealEstateArgs['tuple']['closePrimarySale(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.closePrimarySale(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a transferOwnership(pay,uint64,address)void method call against the FractionalRealEstate contract
+       */
+      transferOwnership(params: CallParams<FractionalRealEstateArgs['obj']['transferOwnership(pay,uint64,address)void'] | FractionalRealEstateArgs['tuple']['transferOwnership(pay,uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.transferOwnership(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a cancelOwnershipTransfer(uint64)void method call against the FractionalRealEstate contract
+       */
+      cancelOwnershipTransfer(params: CallParams<FractionalRealEstateArgs['obj']['cancelOwnershipTransfer(uint64)void'] | FractionalRealEstateArgs['tuple']['cancelOwnershipTransfer(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.cancelOwnershipTransfer(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a acceptOwnership(pay,uint64)void method call against the FractionalRealEstate contract
+       */
+      acceptOwnership(params: CallParams<FractionalRealEstateArgs['obj']['acceptOwnership(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['acceptOwnership(pay,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.acceptOwnership(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a getPendingOwner(uint64)address method call against the FractionalRealEstate contract
+       */
+      getPendingOwner(params: CallParams<FractionalRealEstateArgs['obj']['getPendingOwner(uint64)address'] | FractionalRealEstateArgs['tuple']['getPendingOwner(uint64)address']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getPendingOwner(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getPendingOwner(uint64)address', v))
+        return this
+      },
+      /**
+       * Add a delistProperty(uint64)void method call against the FractionalRealEstate contract
+       */
+      delistProperty(params: CallParams<FractionalRealEstateArgs['obj']['delistProperty(uint64)void'] | FractionalRealEstateArgs['tuple']['delistProperty(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.delistProperty(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64) method call against the FractionalRealEstate contract
+       */
+      getPropertyInfo(params: CallParams<FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)'] | FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getPropertyInfo(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)', v))
+        return this
+      },
+      /**
+       * Add a getListingIds(uint64)uint64[] method call against the FractionalRealEstate contract
+       */
+      getListingIds(params: CallParams<FractionalRealEstateArgs['obj']['getListingIds(uint64)uint64[]'] | FractionalRealEstateArgs['tuple']['getListingIds(uint64)uint64[]']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getListingIds(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getListingIds(uint64)uint64[]', v))
+        return this
+      },
+      /**
+       * Add a getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[] method call against the FractionalRealEstate contract
+       */
+      getProperties(params: CallParams<FractionalRealEstateArgs['obj']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]'] | FractionalRealEstateArgs['tuple']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getProperties(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]', v))
+        return this
+      },
+      /**
+       * Add a getOwnerListings(address)uint64[] method call against the FractionalRealEstate contract
+       */
+      getOwnerListings(params: CallParams<FractionalRealEstateArgs['obj']['getOwnerListings(address)uint64[]'] | FractionalRealEstateArgs['tuple']['getOwnerListings(address)uint64[]']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getOwnerListings(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getOwnerListings(address)uint64[]', v))
+        return this
+      },
+      /**
+       * Add a getMarketStats()(uint64,uint64,uint64) method call against the FractionalRealEstate contract
+       */
+      getMarketStats(params: CallParams<FractionalRealEstateArgs['obj']['getMarketStats()(uint64,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getMarketStats()(uint64,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getMarketStats(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getMarketStats()(uint64,uint64,uint64)', v))
+        return this
+      },
+      /**
+       * Add a getCurrentPrice(uint64)uint64 method call against the FractionalRealEstate contract
+       */
+      getCurrentPrice(params: CallParams<FractionalRealEstateArgs['obj']['getCurrentPrice(uint64)uint64'] | FractionalRealEstateArgs['tuple']['getCurrentPrice(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getCurrentPrice(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getCurrentPrice(uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a createSellOrder(pay,uint64,uint64,uint64)uint64 method call against the FractionalRealEstate contract
+       */
+      createSellOrder(params: CallParams<FractionalRealEstateArgs['obj']['createSellOrder(pay,uint64,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createSellOrder(pay,uint64,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.createSellOrder(params)))
+        resultMappers.push((v) => client.decodeReturnValue('createSellOrder(pay,uint64,uint64,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a fillSellOrder(uint64,uint64,pay)bool method call against the FractionalRealEstate contract
+       */
+      fillSellOrder(params: CallParams<FractionalRealEstateArgs['obj']['fillSellOrder(uint64,uint64,pay)bool'] | FractionalRealEstateArgs['tuple']['fillSellOrder(uint64,uint64,pay)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.fillSellOrder(params)))
+        resultMappers.push((v) => client.decodeReturnValue('fillSellOrder(uint64,uint64,pay)bool', v))
+        return this
+      },
+      /**
+       * Add a cancelSellOrder(uint64)void method call against the FractionalRealEstate contract
+       */
+      cancelSellOrder(params: CallParams<FractionalRealEstateArgs['obj']['cancelSellOrder(uint64)void'] | FractionalRealEstateArgs['tuple']['cancelSellOrder(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.cancelSellOrder(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a getSellOrder(uint64)(uint64,address,uint64,uint64) method call against the FractionalRealEstate contract
+       */
+      getSellOrder(params: CallParams<FractionalRealEstateArgs['obj']['getSellOrder(uint64)(uint64,address,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getSellOrder(uint64)(uint64,address,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getSellOrder(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getSellOrder(uint64)(uint64,address,uint64,uint64)', v))
+        return this
+      },
+      /**
+       * Add a depositIncome(uint64,pay)void method call against the FractionalRealEstate contract
+       */
+      depositIncome(params: CallParams<FractionalRealEstateArgs['obj']['depositIncome(uint64,pay)void'] | FractionalRealEstateArgs['tuple']['depositIncome(uint64,pay)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.depositIncome(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a registerForIncome(pay,uint64)void method call against the FractionalRealEstate contract
+       */
+      registerForIncome(params: CallParams<FractionalRealEstateArgs['obj']['registerForIncome(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerForIncome(pay,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.registerForIncome(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a unregisterForIncome(uint64)uint64 method call against the FractionalRealEstate contract
+       */
+      unregisterForIncome(params: CallParams<FractionalRealEstateArgs['obj']['unregisterForIncome(uint64)uint64'] | FractionalRealEstateArgs['tuple']['unregisterForIncome(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.unregisterForIncome(params)))
+        resultMappers.push((v) => client.decodeReturnValue('unregisterForIncome(uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a claimIncome(uint64)uint64 method call against the FractionalRealEstate contract
+       */
+      claimIncome(params: CallParams<FractionalRealEstateArgs['obj']['claimIncome(uint64)uint64'] | FractionalRealEstateArgs['tuple']['claimIncome(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.claimIncome(params)))
+        resultMappers.push((v) => client.decodeReturnValue('claimIncome(uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a getUnclaimedIncome(uint64,address)uint64 method call against the FractionalRealEstate contract
+       */
+      getUnclaimedIncome(params: CallParams<FractionalRealEstateArgs['obj']['getUnclaimedIncome(uint64,address)uint64'] | FractionalRealEstateArgs['tuple']['getUnclaimedIncome(uint64,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getUnclaimedIncome(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getUnclaimedIncome(uint64,address)uint64', v))
+        return this
+      },
+      /**
+       * Add a createProposal(pay,uint64,string,uint64)uint64 method call against the FractionalRealEstate contract
+       */
+      createProposal(params: CallParams<FractionalRealEstateArgs['obj']['createProposal(pay,uint64,string,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createProposal(pay,uint64,string,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.createProposal(params)))
+        resultMappers.push((v) => client.decodeReturnValue('createProposal(pay,uint64,string,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a castVote(pay,uint64,uint64,bool)void method call against the FractionalRealEstate contract
+       */
+      castVote(params: CallParams<FractionalRealEstateArgs['obj']['castVote(pay,uint64,uint64,bool)void'] | FractionalRealEstateArgs['tuple']['castVote(pay,uint64,uint64,bool)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.castVote(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a finalizeProposal(uint64)uint64 method call against the FractionalRealEstate contract
+       */
+      finalizeProposal(params: CallParams<FractionalRealEstateArgs['obj']['finalizeProposal(uint64)uint64'] | FractionalRealEstateArgs['tuple']['finalizeProposal(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.finalizeProposal(params)))
+        resultMappers.push((v) => client.decodeReturnValue('finalizeProposal(uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a withdrawVote(uint64)void method call against the FractionalRealEstate contract
+       */
+      withdrawVote(params: CallParams<FractionalRealEstateArgs['obj']['withdrawVote(uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawVote(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.withdrawVote(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8) method call against the FractionalRealEstate contract
+       */
+      getProposal(params: CallParams<FractionalRealEstateArgs['obj']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)'] | FractionalRealEstateArgs['tuple']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getProposal(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)', v))
+        return this
+      },
+      /**
+       * Add a offerBuyout(pay,pay,uint64,uint64)uint64 method call against the FractionalRealEstate contract
+       */
+      offerBuyout(params: CallParams<FractionalRealEstateArgs['obj']['offerBuyout(pay,pay,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['offerBuyout(pay,pay,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.offerBuyout(params)))
+        resultMappers.push((v) => client.decodeReturnValue('offerBuyout(pay,pay,uint64,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a voteOnBuyout(pay,uint64,uint64,bool)void method call against the FractionalRealEstate contract
+       */
+      voteOnBuyout(params: CallParams<FractionalRealEstateArgs['obj']['voteOnBuyout(pay,uint64,uint64,bool)void'] | FractionalRealEstateArgs['tuple']['voteOnBuyout(pay,uint64,uint64,bool)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.voteOnBuyout(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a finalizeBuyout(uint64)uint64 method call against the FractionalRealEstate contract
+       */
+      finalizeBuyout(params: CallParams<FractionalRealEstateArgs['obj']['finalizeBuyout(uint64)uint64'] | FractionalRealEstateArgs['tuple']['finalizeBuyout(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.finalizeBuyout(params)))
+        resultMappers.push((v) => client.decodeReturnValue('finalizeBuyout(uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a withdrawBuyoutVote(uint64)void method call against the FractionalRealEstate contract
+       */
+      withdrawBuyoutVote(params: CallParams<FractionalRealEstateArgs['obj']['withdrawBuyoutVote(uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawBuyoutVote(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.withdrawBuyoutVote(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a redeemBuyout(uint64,uint64)uint64 method call against the FractionalRealEstate contract
+       */
+      redeemBuyout(params: CallParams<FractionalRealEstateArgs['obj']['redeemBuyout(uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['redeemBuyout(uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.redeemBuyout(params)))
+        resultMappers.push((v) => client.decodeReturnValue('redeemBuyout(uint64,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8) method call against the FractionalRealEstate contract
+       */
+      getBuyout(params: CallParams<FractionalRealEstateArgs['obj']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)'] | FractionalRealEstateArgs['tuple']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getBuyout(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)', v))
+        return this
+      },
+      /**
+       * Add a getActiveBuyout(uint64)uint64 method call against the FractionalRealEstate contract
+       */
+      getActiveBuyout(params: CallParams<FractionalRealEstateArgs['obj']['getActiveBuyout(uint64)uint64'] | FractionalRealEstateArgs['tuple']['getActiveBuyout(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getActiveBuyout(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getActiveBuyout(uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a reserveShares(pay,uint64,uint64,pay)uint64 method call against the FractionalRealEstate contract
+       */
+      reserveShares(params: CallParams<FractionalRealEstateArgs['obj']['reserveShares(pay,uint64,uint64,pay)uint64'] | FractionalRealEstateArgs['tuple']['reserveShares(pay,uint64,uint64,pay)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.reserveShares(params)))
+        resultMappers.push((v) => client.decodeReturnValue('reserveShares(pay,uint64,uint64,pay)uint64', v))
+        return this
+      },
+      /**
+       * Add a reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64 method call against the FractionalRealEstate contract
+       */
+      reserveSharesWithAsset(params: CallParams<FractionalRealEstateArgs['obj']['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64'] | FractionalRealEstateArgs['tuple']['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.reserveSharesWithAsset(params)))
+        resultMappers.push((v) => client.decodeReturnValue('reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64', v))
+        return this
+      },
+      /**
+       * Add a completeReservation(uint64,pay)uint64 method call against the FractionalRealEstate contract
+       */
+      completeReservation(params: CallParams<FractionalRealEstateArgs['obj']['completeReservation(uint64,pay)uint64'] | FractionalRealEstateArgs['tuple']['completeReservation(uint64,pay)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.completeReservation(params)))
+        resultMappers.push((v) => client.decodeReturnValue('completeReservation(uint64,pay)uint64', v))
+        return this
+      },
+      /**
+       * Add a completeReservationWithAsset(uint64,axfer)uint64 method call against the FractionalRealEstate contract
+       */
+      completeReservationWithAsset(params: CallParams<FractionalRealEstateArgs['obj']['completeReservationWithAsset(uint64,axfer)uint64'] | FractionalRealEstateArgs['tuple']['completeReservationWithAsset(uint64,axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.completeReservationWithAsset(params)))
+        resultMappers.push((v) => client.decodeReturnValue('completeReservationWithAsset(uint64,axfer)uint64', v))
+        return this
+      },
+      /**
+       * Add a expireReservation(uint64,address)void method call against the FractionalRealEstate contract
+       */
+      expireReservation(params: CallParams<FractionalRealEstateArgs['obj']['expireReservation(uint64,address)void'] | FractionalRealEstateArgs['tuple']['expireReservation(uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.expireReservation(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a getReservation(uint64,address)(uint64,uint64,uint64,uint64) method call against the FractionalRealEstate contract
+       */
+      getReservation(params: CallParams<FractionalRealEstateArgs['obj']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getReservation(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getReservation(uint64,address)(uint64,uint64,uint64,uint64)', v))
+        return this
+      },
+      /**
+       * Add a registerReferrer(pay,uint64)void method call against the FractionalRealEstate contract
+       */
+      registerReferrer(params: CallParams<FractionalRealEstateArgs['obj']['registerReferrer(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerReferrer(pay,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.registerReferrer(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a getReferralEarnings(address,uint64)uint64 method call against the FractionalRealEstate contract
+       */
+      getReferralEarnings(params: CallParams<FractionalRealEstateArgs['obj']['getReferralEarnings(address,uint64)uint64'] | FractionalRealEstateArgs['tuple']['getReferralEarnings(address,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getReferralEarnings(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getReferralEarnings(address,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a setAppraiser(pay,uint64,address)void method call against the FractionalRealEstate contract
+       */
+      setAppraiser(params: CallParams<FractionalRealEstateArgs['obj']['setAppraiser(pay,uint64,address)void'] | FractionalRealEstateArgs['tuple']['setAppraiser(pay,uint64,address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAppraiser(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a postValuation(uint64,uint64,uint64,byte[32])void method call against the FractionalRealEstate contract
+       */
+      postValuation(params: CallParams<FractionalRealEstateArgs['obj']['postValuation(uint64,uint64,uint64,byte[32])void'] | FractionalRealEstateArgs['tuple']['postValuation(uint64,uint64,uint64,byte[32])void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.postValuation(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a getAppraiser(uint64)address method call against the FractionalRealEstate contract
+       */
+      getAppraiser(params: CallParams<FractionalRealEstateArgs['obj']['getAppraiser(uint64)address'] | FractionalRealEstateArgs['tuple']['getAppraiser(uint64)address']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getAppraiser(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getAppraiser(uint64)address', v))
+        return this
+      },
+      /**
+       * Add a getLatestValuation(uint64)(uint64,uint64,byte[32]) method call against the FractionalRealEstate contract
+       */
+      getLatestValuation(params: CallParams<FractionalRealEstateArgs['obj']['getLatestValuation(uint64)(uint64,uint64,byte[32])'] | FractionalRealEstateArgs['tuple']['getLatestValuation(uint64)(uint64,uint64,byte[32])']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getLatestValuation(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getLatestValuation(uint64)(uint64,uint64,byte[32])', v))
+        return this
+      },
+      /**
+       * Add a getValuationHistory(uint64)(uint64,uint64,byte[32])[] method call against the FractionalRealEstate contract
+       */
+      getValuationHistory(params: CallParams<FractionalRealEstateArgs['obj']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]'] | FractionalRealEstateArgs['tuple']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getValuationHistory(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getValuationHistory(uint64)(uint64,uint64,byte[32])[]', v))
+        return this
+      },
+      /**
+       * Add a clear state call to the FractionalRealEstate contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      }
+    } as unknown as FractionalRealEstateComposer
+  }
+}
+export type FractionalRealEstateComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64 ABI method.
+   *
+  * List a new property for fractional ownership. Creates an ASA representing shares
+  and stores property details in a BoxMap.
+  
+  With a funding goal the raise is all-or-nothing: purchases are escrowed in the app, the
+  lister can only withdraw them once the goal has sold, and if the deadline passes first
+  buyers can hand their shares back for a refund.
+  
+  A listing can be priced in an ASA such as a stablecoin instead of ALGO. The app opts in to
+  that asset the first time it is used, and the lister's MBR payment covers the opt-in.
+  
+  The share ASA points at off-chain metadata (deeds, appraisal, photos) following ARC-3, or
+  ARC-19 when the URL is a template-ipfs:// URL and the reserve address encodes the CID.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  createPropertyListing(params?: CallParams<FractionalRealEstateArgs['obj']['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64'] | FractionalRealEstateArgs['tuple']['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['createPropertyListing(pay,string,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],address,uint64,uint64,uint64,(uint64,uint64,uint64),(uint64,uint64,uint64)[],(uint64,uint64,bool),uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the purchaseFromLister(uint64,uint64,pay,address)bool ABI method.
+   *
+  * Purchase shares from the original lister of an ALGO-priced listing. Buyer must opt in to the ASA beforehand.
+  While a funding raise is open the payment is escrowed in the app instead of going to the owner.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  purchaseFromLister(params?: CallParams<FractionalRealEstateArgs['obj']['purchaseFromLister(uint64,uint64,pay,address)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromLister(uint64,uint64,pay,address)bool']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['purchaseFromLister(uint64,uint64,pay,address)bool'] | undefined]>
+
+  /**
+   * Calls the purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool ABI method.
+   *
+  * Purchase shares from the original lister of a listing priced in an ASA. The owner (and the
+  treasury, when a platform fee is set) must be opted in to the payment asset.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  purchaseFromListerWithAsset(params?: CallParams<FractionalRealEstateArgs['obj']['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['purchaseFromListerWithAsset(uint64,uint64,axfer,address)bool'] | undefined]>
+
+  /**
+   * Calls the purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64 ABI method.
+   *
+  * Buy primary shares of an ALGO-priced listing for at most a total price, so a reprice or a
+  tier running out between signing and landing can't overcharge the buyer. They pay the
+  maximum and get back whatever the shares cost less than that.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  purchaseUpTo(params?: CallParams<FractionalRealEstateArgs['obj']['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['purchaseUpTo(uint64,uint64,uint64,bool,pay,address)uint64'] | undefined]>
+
+  /**
+   * Calls the purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64 ABI method.
+   *
+   * Buy primary shares of a listing priced in an ASA for at most a total price, refunding the difference.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  purchaseUpToWithAsset(params?: CallParams<FractionalRealEstateArgs['obj']['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['purchaseUpToWithAsset(uint64,uint64,uint64,bool,axfer,address)uint64'] | undefined]>
+
+  /**
+   * Calls the purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64 ABI method.
+   *
+  * Buy shares at an ALGO-priced Dutch auction. The price is set by the block the purchase lands in,
+  so the buyer pays for the shares at their maximum price and gets the difference back.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  purchaseAtAuction(params?: CallParams<FractionalRealEstateArgs['obj']['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['purchaseAtAuction(uint64,uint64,uint64,pay,address)uint64'] | undefined]>
+
+  /**
+   * Calls the purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64 ABI method.
+   *
+   * Buy shares at a Dutch auction priced in an ASA, refunding the difference to the buyer's maximum price.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  purchaseAtAuctionWithAsset(params?: CallParams<FractionalRealEstateArgs['obj']['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64'] | FractionalRealEstateArgs['tuple']['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['purchaseAtAuctionWithAsset(uint64,uint64,uint64,axfer,address)uint64'] | undefined]>
+
+  /**
+   * Calls the withdrawProceeds(uint64)uint64 ABI method.
+   *
+  * Pay the escrowed purchase proceeds out to the owner once the funding goal has sold.
+  The platform fee is taken here rather than at purchase, since a failed raise refunds in full.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  withdrawProceeds(params?: CallParams<FractionalRealEstateArgs['obj']['withdrawProceeds(uint64)uint64'] | FractionalRealEstateArgs['tuple']['withdrawProceeds(uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['withdrawProceeds(uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the claimRefund(uint64,uint64)uint64 ABI method.
+   *
+  * Hand shares back after a failed raise and get the purchase price refunded.
+  The shares are taken back from the caller's holding, including any still locked up.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  claimRefund(params?: CallParams<FractionalRealEstateArgs['obj']['claimRefund(uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['claimRefund(uint64,uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['claimRefund(uint64,uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the setFeeBps(uint64)void ABI method.
+   *
+  * Set the platform fee taken from primary sales, in basis points. Only the admin can
+  change it, and a treasury must be set before a non-zero fee.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setFeeBps(params?: CallParams<FractionalRealEstateArgs['obj']['setFeeBps(uint64)void'] | FractionalRealEstateArgs['tuple']['setFeeBps(uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['setFeeBps(uint64)void'] | undefined]>
+
+  /**
+   * Calls the setTreasury(address)void ABI method.
+   *
+   * Set the account platform fees are paid to. Only the admin can change it.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setTreasury(params?: CallParams<FractionalRealEstateArgs['obj']['setTreasury(address)void'] | FractionalRealEstateArgs['tuple']['setTreasury(address)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['setTreasury(address)void'] | undefined]>
+
+  /**
+   * Calls the transferAdmin(address)void ABI method.
+   *
+  * Start handing the admin role to another account. The handover only completes once that
+  account calls acceptAdmin, so a mistyped address can't lock the admin out.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  transferAdmin(params?: CallParams<FractionalRealEstateArgs['obj']['transferAdmin(address)void'] | FractionalRealEstateArgs['tuple']['transferAdmin(address)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['transferAdmin(address)void'] | undefined]>
+
+  /**
+   * Calls the acceptAdmin()void ABI method.
+   *
+   * Complete an admin handover. Only the pending admin can accept.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  acceptAdmin(params?: CallParams<FractionalRealEstateArgs['obj']['acceptAdmin()void'] | FractionalRealEstateArgs['tuple']['acceptAdmin()void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['acceptAdmin()void'] | undefined]>
+
+  /**
+   * Calls the pause()void ABI method.
+   *
+   * Emergency stop: block listing, primary purchases and delisting until unpaused.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  pause(params?: CallParams<FractionalRealEstateArgs['obj']['pause()void'] | FractionalRealEstateArgs['tuple']['pause()void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['pause()void'] | undefined]>
+
+  /**
+   * Calls the unpause()void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  unpause(params?: CallParams<FractionalRealEstateArgs['obj']['unpause()void'] | FractionalRealEstateArgs['tuple']['unpause()void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['unpause()void'] | undefined]>
+
+  /**
+   * Calls the setCompliance(address)void ABI method.
+   *
+   * Hand the compliance role to another account. Only the admin can change it.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setCompliance(params?: CallParams<FractionalRealEstateArgs['obj']['setCompliance(address)void'] | FractionalRealEstateArgs['tuple']['setCompliance(address)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['setCompliance(address)void'] | undefined]>
+
+  /**
+   * Calls the approveAccount(pay,address)void ABI method.
+   *
+  * Add an account that has passed KYC to the allowlist. Only the compliance officer can approve
+  accounts, and pays the allowlist box MBR.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  approveAccount(params?: CallParams<FractionalRealEstateArgs['obj']['approveAccount(pay,address)void'] | FractionalRealEstateArgs['tuple']['approveAccount(pay,address)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['approveAccount(pay,address)void'] | undefined]>
+
+  /**
+   * Calls the revokeAccount(address)void ABI method.
    *
-   * Automatically populates appName, defaultSender and source maps from the factory
-   * if not specified in the params.
-   * @param params The parameters to create the app client
-   * @returns The `AppClient`
+  * Take an account off the allowlist and refund the box MBR to the compliance officer.
+  A revoked account can't receive shares or transfer them to anyone else, but can still hand
+  them back to the app, such as to sell, vote or redeem them.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public getAppClientById(params: AppFactoryAppClientParams) {
-    return new FractionalRealEstateClient(this.appFactory.getAppClientById(params))
-  }
-  
+  revokeAccount(params?: CallParams<FractionalRealEstateArgs['obj']['revokeAccount(address)void'] | FractionalRealEstateArgs['tuple']['revokeAccount(address)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['revokeAccount(address)void'] | undefined]>
+
   /**
-   * Returns a new `AppClient` client, resolving the app by creator address and name
-   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * Calls the transferShares(uint64,address,uint64)void ABI method.
    *
-   * Automatically populates appName, defaultSender and source maps from the factory
-   * if not specified in the params.
-   * @param params The parameters to create the app client
-   * @returns The `AppClient`
+  * Transfer shares to another account. Holdings are frozen, so this is how holders move shares
+  between themselves: both accounts must be KYC approved, the receiver opted in to the ASA, and
+  locked up shares stay put. Income is settled on both holdings as the shares move, so
+  each side is paid for exactly the shares it held.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public async getAppClientByCreatorAndName(
-    params: AppFactoryResolveAppClientByCreatorAndNameParams,
-  ) {
-    return new FractionalRealEstateClient(await this.appFactory.getAppClientByCreatorAndName(params))
-  }
+  transferShares(params?: CallParams<FractionalRealEstateArgs['obj']['transferShares(uint64,address,uint64)void'] | FractionalRealEstateArgs['tuple']['transferShares(uint64,address,uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['transferShares(uint64,address,uint64)void'] | undefined]>
 
   /**
-   * Idempotently deploys the FractionalRealEstate smart contract.
+   * Calls the isApproved(address)bool ABI method.
    *
-   * @param params The arguments for the contract calls and any additional parameters for the call
-   * @returns The deployment result
+   * Whether an account is on the KYC allowlist.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public async deploy(params: FractionalRealEstateDeployParams = {}) {
-    const result = await this.appFactory.deploy({
-      ...params,
-    })
-    return { result: result.result, appClient: new FractionalRealEstateClient(result.appClient) }
-  }
+  isApproved(params?: CallParams<FractionalRealEstateArgs['obj']['isApproved(address)bool'] | FractionalRealEstateArgs['tuple']['isApproved(address)bool']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['isApproved(address)bool'] | undefined]>
 
   /**
-   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   * Calls the registerLockup(pay,uint64)void ABI method.
+   *
+  * Set up the caller's lockup record before buying into a listing with a lockup period.
+  The caller pays the box MBR, which is refunded by unlockShares.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  readonly params = {
-    /**
-     * Gets available create methods
-     */
-    create: {
-      /**
-       * Creates a new instance of the FractionalRealEstate smart contract using a bare call.
-       *
-       * @param params The params for the bare (raw) call
-       * @returns The params for a create call
-       */
-      bare: (params?: Expand<AppClientBareCallParams & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC}>) => {
-        return this.appFactory.params.bare.create(params)
-      },
-    },
+  registerLockup(params?: CallParams<FractionalRealEstateArgs['obj']['registerLockup(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerLockup(pay,uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['registerLockup(pay,uint64)void'] | undefined]>
 
-  }
+  /**
+   * Calls the unlockShares(uint64)void ABI method.
+   *
+  * Close the caller's lockup once it has ended and refund the lockup box MBR. The shares can
+  move as soon as the unlock round is reached; this only pays the box MBR back.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  unlockShares(params?: CallParams<FractionalRealEstateArgs['obj']['unlockShares(uint64)void'] | FractionalRealEstateArgs['tuple']['unlockShares(uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['unlockShares(uint64)void'] | undefined]>
 
   /**
-   * Create transactions for the current app
+   * Calls the getLockup(uint64,address)(uint64,uint64) ABI method.
+   *
+   * A holder's locked shares and the round they unlock in. Both are 0 without a lockup.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  readonly createTransaction = {
-    /**
-     * Gets available create methods
-     */
-    create: {
-      /**
-       * Creates a new instance of the FractionalRealEstate smart contract using a bare call.
-       *
-       * @param params The params for the bare (raw) call
-       * @returns The transaction for a create call
-       */
-      bare: (params?: Expand<AppClientBareCallParams & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC}>) => {
-        return this.appFactory.createTransaction.bare.create(params)
-      },
-    },
+  getLockup(params?: CallParams<FractionalRealEstateArgs['obj']['getLockup(uint64,address)(uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getLockup(uint64,address)(uint64,uint64)']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getLockup(uint64,address)(uint64,uint64)'] | undefined]>
 
-  }
+  /**
+   * Calls the getPlatformFee()(uint64,address) ABI method.
+   *
+   * Current platform fee and treasury. The treasury is the zero address until one is set.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getPlatformFee(params?: CallParams<FractionalRealEstateArgs['obj']['getPlatformFee()(uint64,address)'] | FractionalRealEstateArgs['tuple']['getPlatformFee()(uint64,address)']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getPlatformFee()(uint64,address)'] | undefined]>
+
+  /**
+   * Calls the updatePrice(uint64,uint64)void ABI method.
+   *
+   * Change the primary sale price. Only the owner can reprice, and only while the sale is open.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  updatePrice(params?: CallParams<FractionalRealEstateArgs['obj']['updatePrice(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['updatePrice(uint64,uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['updatePrice(uint64,uint64)void'] | undefined]>
+
+  /**
+   * Calls the withdrawShares(uint64,uint64)void ABI method.
+   *
+  * Take unsold shares back out of the primary sale. The owner must be KYC approved and opted in to the ASA.
+  Refunds are paid for any shares handed back, so unsold shares stay in the app until the
+  funding goal has sold.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  withdrawShares(params?: CallParams<FractionalRealEstateArgs['obj']['withdrawShares(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawShares(uint64,uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['withdrawShares(uint64,uint64)void'] | undefined]>
+
+  /**
+   * Calls the topUpShares(uint64,uint64)void ABI method.
+   *
+   * Put shares the owner holds back up for primary sale. The shares are taken from the owner's holding.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  topUpShares(params?: CallParams<FractionalRealEstateArgs['obj']['topUpShares(uint64,uint64)void'] | FractionalRealEstateArgs['tuple']['topUpShares(uint64,uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['topUpShares(uint64,uint64)void'] | undefined]>
+
+  /**
+   * Calls the closePrimarySale(uint64)void ABI method.
+   *
+  * End the primary sale. Unsold shares go back to the owner, and the listing stays in place
+  for the holders so resale, income and governance keep working. A sale with a funding goal
+  can't be closed until the goal has sold, for the same reason as withdrawShares.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  closePrimarySale(params?: CallParams<FractionalRealEstateArgs['obj']['closePrimarySale(uint64)void'] | FractionalRealEstateArgs['tuple']['closePrimarySale(uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['closePrimarySale(uint64)void'] | undefined]>
+
+  /**
+   * Calls the transferOwnership(pay,uint64,address)void ABI method.
+   *
+  * Start handing a listing over to a new owner, such as a company multisig or a new manager.
+  The handover only happens once the new owner accepts, so a mistyped address can't take
+  control. The owner pays for the pending transfer box and gets it back when it is settled.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  transferOwnership(params?: CallParams<FractionalRealEstateArgs['obj']['transferOwnership(pay,uint64,address)void'] | FractionalRealEstateArgs['tuple']['transferOwnership(pay,uint64,address)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['transferOwnership(pay,uint64,address)void'] | undefined]>
+
+  /**
+   * Calls the cancelOwnershipTransfer(uint64)void ABI method.
+   *
+   * Call off a pending ownership transfer and get the MBR back.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  cancelOwnershipTransfer(params?: CallParams<FractionalRealEstateArgs['obj']['cancelOwnershipTransfer(uint64)void'] | FractionalRealEstateArgs['tuple']['cancelOwnershipTransfer(uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['cancelOwnershipTransfer(uint64)void'] | undefined]>
+
+  /**
+   * Calls the acceptOwnership(pay,uint64)void ABI method.
+   *
+  * Take over a listing. From here on the new owner manages it, and receives primary sale
+  proceeds, escrowed raise funds and the rest of the owner's payouts. The previous owner gets
+  back the MBR of the pending transfer box and of the listing's entry in their index.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  acceptOwnership(params?: CallParams<FractionalRealEstateArgs['obj']['acceptOwnership(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['acceptOwnership(pay,uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['acceptOwnership(pay,uint64)void'] | undefined]>
+
+  /**
+   * Calls the getPendingOwner(uint64)address ABI method.
+   *
+   * Account a pending ownership transfer would hand the listing to, or the zero address if there is none.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getPendingOwner(params?: CallParams<FractionalRealEstateArgs['obj']['getPendingOwner(uint64)address'] | FractionalRealEstateArgs['tuple']['getPendingOwner(uint64)address']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getPendingOwner(uint64)address'] | undefined]>
+
+  /**
+   * Calls the delistProperty(uint64)void ABI method.
+   *
+  * Delist a property. Only the owner can delist, and no shares can have been sold.
+  Deleting the boxes reclaims their MBR, which is paid back to the owner.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  delistProperty(params?: CallParams<FractionalRealEstateArgs['obj']['delistProperty(uint64)void'] | FractionalRealEstateArgs['tuple']['delistProperty(uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['delistProperty(uint64)void'] | undefined]>
+
+  /**
+   * Calls the getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64) ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getPropertyInfo(params?: CallParams<FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)'] | FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)'] | undefined]>
+
+  /**
+   * Calls the getListingIds(uint64)uint64[] ABI method.
+   *
+  * A page of up to 32 property IDs in the order they were listed, including any since delisted.
+  Pages run from 0 up to nextListingIndex / 32.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getListingIds(params?: CallParams<FractionalRealEstateArgs['obj']['getListingIds(uint64)uint64[]'] | FractionalRealEstateArgs['tuple']['getListingIds(uint64)uint64[]']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getListingIds(uint64)uint64[]'] | undefined]>
+
+  /**
+   * Calls the getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[] ABI method.
+   *
+  * The listings for a batch of property IDs, skipping any that have been delisted. ABI returns
+  are capped at 1KB, so only a couple of listings fit in each call: a listing with the longest
+  address, unit name and metadata URL encodes to 488 bytes (254 + 128 + 8 + 96 + a 2-byte offset),
+  and two of those with the array's length prefix come to 978.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getProperties(params?: CallParams<FractionalRealEstateArgs['obj']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]'] | FractionalRealEstateArgs['tuple']['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getProperties(uint64[])(string,uint64,uint64,uint64,uint64,address,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,string,string,byte[32],uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,uint64,bool,uint64)[]'] | undefined]>
+
+  /**
+   * Calls the getOwnerListings(address)uint64[] ABI method.
+   *
+   * IDs of the properties an account has listed or taken over, oldest first.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getOwnerListings(params?: CallParams<FractionalRealEstateArgs['obj']['getOwnerListings(address)uint64[]'] | FractionalRealEstateArgs['tuple']['getOwnerListings(address)uint64[]']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getOwnerListings(address)uint64[]'] | undefined]>
+
+  /**
+   * Calls the getMarketStats()(uint64,uint64,uint64) ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getMarketStats(params?: CallParams<FractionalRealEstateArgs['obj']['getMarketStats()(uint64,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getMarketStats()(uint64,uint64,uint64)']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getMarketStats()(uint64,uint64,uint64)'] | undefined]>
+
+  /**
+   * Calls the getCurrentPrice(uint64)uint64 ABI method.
+   *
+   * Current primary sale price per share, which falls over time on a Dutch auction.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getCurrentPrice(params?: CallParams<FractionalRealEstateArgs['obj']['getCurrentPrice(uint64)uint64'] | FractionalRealEstateArgs['tuple']['getCurrentPrice(uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getCurrentPrice(uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the createSellOrder(pay,uint64,uint64,uint64)uint64 ABI method.
+   *
+  * Post a resale order on the secondary market. The shares being sold are taken from the
+  seller's holding and escrowed in the app account until the order is filled or cancelled.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  createSellOrder(params?: CallParams<FractionalRealEstateArgs['obj']['createSellOrder(pay,uint64,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createSellOrder(pay,uint64,uint64,uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['createSellOrder(pay,uint64,uint64,uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the fillSellOrder(uint64,uint64,pay)bool ABI method.
+   *
+  * Buy shares out of a resale order. Payment goes to the seller and partial fills are allowed;
+  the order box is deleted once all of its shares are sold.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  fillSellOrder(params?: CallParams<FractionalRealEstateArgs['obj']['fillSellOrder(uint64,uint64,pay)bool'] | FractionalRealEstateArgs['tuple']['fillSellOrder(uint64,uint64,pay)bool']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['fillSellOrder(uint64,uint64,pay)bool'] | undefined]>
+
+  /**
+   * Calls the cancelSellOrder(uint64)void ABI method.
+   *
+   * Cancel a resale order. Only the seller can cancel; unsold shares are returned to them.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  cancelSellOrder(params?: CallParams<FractionalRealEstateArgs['obj']['cancelSellOrder(uint64)void'] | FractionalRealEstateArgs['tuple']['cancelSellOrder(uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['cancelSellOrder(uint64)void'] | undefined]>
 
   /**
-   * Send calls to the current app
+   * Calls the getSellOrder(uint64)(uint64,address,uint64,uint64) ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  readonly send = {
-    /**
-     * Gets available create methods
-     */
-    create: {
-      /**
-       * Creates a new instance of the FractionalRealEstate smart contract using a bare call.
-       *
-       * @param params The params for the bare (raw) call
-       * @returns The create result
-       */
-      bare: async (params?: Expand<AppClientBareCallParams & AppClientCompilationParams & CreateSchema & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}>) => {
-        const result = await this.appFactory.send.bare.create(params)
-        return { result: result.result, appClient: new FractionalRealEstateClient(result.appClient) }
-      },
-    },
-
-  }
+  getSellOrder(params?: CallParams<FractionalRealEstateArgs['obj']['getSellOrder(uint64)(uint64,address,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getSellOrder(uint64)(uint64,address,uint64,uint64)']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getSellOrder(uint64)(uint64,address,uint64,uint64)'] | undefined]>
 
-}
-/**
- * A client to make calls to the FractionalRealEstate smart contract
- */
-export class FractionalRealEstateClient {
   /**
-   * The underlying `AppClient` for when you want to have more flexibility
+   * Calls the depositIncome(uint64,pay)void ABI method.
+   *
+  * Deposit rental income for a property. Only the owner can deposit. The amount is spread over
+  the shares registered holders have in their holdings by growing a cumulative income-per-share
+  accumulator. Shares held by the app (unsold, escrowed in orders or votes) and unregistered
+  holders' shares don't earn. Whatever doesn't divide evenly, or all of it while no shares are
+  registered, is carried into the next deposit.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public readonly appClient: _AppClient
+  depositIncome(params?: CallParams<FractionalRealEstateArgs['obj']['depositIncome(uint64,pay)void'] | FractionalRealEstateArgs['tuple']['depositIncome(uint64,pay)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['depositIncome(uint64,pay)void'] | undefined]>
 
   /**
-   * Creates a new instance of `FractionalRealEstateClient`
+   * Calls the registerForIncome(pay,uint64)void ABI method.
    *
-   * @param appClient An `AppClient` instance which has been created with the FractionalRealEstate app spec
+  * Start earning income on a property, on the shares in the caller's holding. Income deposited
+  before registering is not claimable, since the app only settles the holdings of registered
+  holders as their shares move.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  constructor(appClient: _AppClient)
+  registerForIncome(params?: CallParams<FractionalRealEstateArgs['obj']['registerForIncome(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerForIncome(pay,uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['registerForIncome(pay,uint64)void'] | undefined]>
+
   /**
-   * Creates a new instance of `FractionalRealEstateClient`
+   * Calls the unregisterForIncome(uint64)uint64 ABI method.
    *
-   * @param params The parameters to initialise the app client with
+  * Stop earning income on a property. Pays out the caller's unclaimed income along with the
+  claim box MBR, including after the property has been delisted. Returns the income paid.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  constructor(params: Omit<AppClientParams, 'appSpec'>)
-  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
-    this.appClient = appClientOrParams instanceof _AppClient ? appClientOrParams : new _AppClient({
-      ...appClientOrParams,
-      appSpec: APP_SPEC,
-    })
-  }
+  unregisterForIncome(params?: CallParams<FractionalRealEstateArgs['obj']['unregisterForIncome(uint64)uint64'] | FractionalRealEstateArgs['tuple']['unregisterForIncome(uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['unregisterForIncome(uint64)uint64'] | undefined]>
 
   /**
-   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
-   * @returns The typed return value or undefined if there was no value
+   * Calls the claimIncome(uint64)uint64 ABI method.
+   *
+  * Pay out the caller's share of income deposited since their last claim. Returns the amount paid.
+  Nothing more can be earned on a delisted property, so claiming on one also closes the claim.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  decodeReturnValue<TSignature extends FractionalRealEstateNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
-    return returnValue !== undefined ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs) : undefined
-  }
+  claimIncome(params?: CallParams<FractionalRealEstateArgs['obj']['claimIncome(uint64)uint64'] | FractionalRealEstateArgs['tuple']['claimIncome(uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['claimIncome(uint64)uint64'] | undefined]>
 
   /**
-   * Returns a new `FractionalRealEstateClient` client, resolving the app by creator address and name
-   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
-   * @param params The parameters to create the app client
+   * Calls the getUnclaimedIncome(uint64,address)uint64 ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<FractionalRealEstateClient> {
-    return new FractionalRealEstateClient(await _AppClient.fromCreatorAndName({...params, appSpec: APP_SPEC}))
-  }
-  
+  getUnclaimedIncome(params?: CallParams<FractionalRealEstateArgs['obj']['getUnclaimedIncome(uint64,address)uint64'] | FractionalRealEstateArgs['tuple']['getUnclaimedIncome(uint64,address)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getUnclaimedIncome(uint64,address)uint64'] | undefined]>
+
   /**
-   * Returns an `FractionalRealEstateClient` instance for the current network based on
-   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   * Calls the createProposal(pay,uint64,string,uint64)uint64 ABI method.
    *
-   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
-   * @param params The parameters to create the app client
+  * Open a governance proposal for a property's co-owners. Only holders of the property's shares
+  can propose. The quorum is fixed from the share supply when the proposal is created.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  static async fromNetwork(
-    params: Omit<ResolveAppClientByNetwork, 'appSpec'>
-  ): Promise<FractionalRealEstateClient> {
-    return new FractionalRealEstateClient(await _AppClient.fromNetwork({...params, appSpec: APP_SPEC}))
-  }
-  
-  /** The ID of the app instance this client is linked to. */
-  public get appId() {
-    return this.appClient.appId
-  }
-  
-  /** The app address of the app instance this client is linked to. */
-  public get appAddress() {
-    return this.appClient.appAddress
-  }
-  
-  /** The name of the app. */
-  public get appName() {
-    return this.appClient.appName
-  }
-  
-  /** The ARC-56 app spec being used */
-  public get appSpec() {
-    return this.appClient.appSpec
-  }
-  
-  /** A reference to the underlying `AlgorandClient` this app client is using. */
-  public get algorand(): AlgorandClient {
-    return this.appClient.algorand
-  }
+  createProposal(params?: CallParams<FractionalRealEstateArgs['obj']['createProposal(pay,uint64,string,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createProposal(pay,uint64,string,uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['createProposal(pay,uint64,string,uint64)uint64'] | undefined]>
 
   /**
-   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   * Calls the castVote(pay,uint64,uint64,bool)void ABI method.
+   *
+  * Vote on a proposal, weighted by the shares voted with. The shares are taken from the voter's
+  holding and stay locked in the app until the deadline has passed, so the same shares can't be
+  moved and voted again. Locked shares don't earn income until they're withdrawn.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  readonly params = {
-    /**
-     * Makes a clear_state call to an existing instance of the FractionalRealEstate smart contract.
-     *
-     * @param params The params for the bare (raw) call
-     * @returns The clearState result
-     */
-    clearState: (params?: Expand<AppClientBareCallParams>) => {
-      return this.appClient.params.bare.clearState(params)
-    },
+  castVote(params?: CallParams<FractionalRealEstateArgs['obj']['castVote(pay,uint64,uint64,bool)void'] | FractionalRealEstateArgs['tuple']['castVote(pay,uint64,uint64,bool)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['castVote(pay,uint64,uint64,bool)void'] | undefined]>
 
-    /**
-     * Makes a call to the FractionalRealEstate smart contract using the `createPropertyListing(pay,string,uint64,uint64)uint64` ABI method.
-     *
-    * List a new property for fractional ownership. Creates an ASA representing shares
-    and stores property details in a BoxMap.
+  /**
+   * Calls the finalizeProposal(uint64)uint64 ABI method.
+   *
+  * Record the outcome of a proposal once voting has closed. Anyone can finalize. With no votes
+  left to withdraw the proposal is done with, so its box is deleted and the MBR goes back to the proposer.
 
-     *
-     * @param params The params for the smart contract call
-     * @returns The call params
-     */
-    createPropertyListing: (params: CallParams<FractionalRealEstateArgs['obj']['createPropertyListing(pay,string,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createPropertyListing(pay,string,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FractionalRealEstateParamsFactory.createPropertyListing(params))
-    },
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  finalizeProposal(params?: CallParams<FractionalRealEstateArgs['obj']['finalizeProposal(uint64)uint64'] | FractionalRealEstateArgs['tuple']['finalizeProposal(uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['finalizeProposal(uint64)uint64'] | undefined]>
 
-    /**
-     * Makes a call to the FractionalRealEstate smart contract using the `purchaseFromLister(uint64,uint64,pay)bool` ABI method.
-     *
-     * Purchase shares from the original lister. Buyer must opt in to the ASA beforehand.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call params
-     */
-    purchaseFromLister: (params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromLister(uint64,uint64,pay)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromLister(uint64,uint64,pay)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FractionalRealEstateParamsFactory.purchaseFromLister(params))
-    },
+  /**
+   * Calls the withdrawVote(uint64)void ABI method.
+   *
+  * Unlock the caller's voting shares after the deadline and refund the vote box MBR. The last
+  voter to withdraw from a finalized proposal also returns the proposal box MBR to the proposer.
 
-    /**
-     * Makes a call to the FractionalRealEstate smart contract using the `delistProperty(uint64)void` ABI method.
-     *
-    * Delist a property. Only the owner can delist, and no shares can have been sold.
-    Deleting the box reclaims the MBR.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  withdrawVote(params?: CallParams<FractionalRealEstateArgs['obj']['withdrawVote(uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawVote(uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['withdrawVote(uint64)void'] | undefined]>
 
-     *
-     * @param params The params for the smart contract call
-     * @returns The call params
-     */
-    delistProperty: (params: CallParams<FractionalRealEstateArgs['obj']['delistProperty(uint64)void'] | FractionalRealEstateArgs['tuple']['delistProperty(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FractionalRealEstateParamsFactory.delistProperty(params))
-    },
+  /**
+   * Calls the getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8) ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getProposal(params?: CallParams<FractionalRealEstateArgs['obj']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)'] | FractionalRealEstateArgs['tuple']['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getProposal(uint64)(uint64,address,string,uint64,uint64,uint64,uint64,uint64,uint8)'] | undefined]>
 
-    /**
-     * Makes a call to the FractionalRealEstate smart contract using the `getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call params
-     */
-    getPropertyInfo: (params: CallParams<FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)'] | FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.params.call(FractionalRealEstateParamsFactory.getPropertyInfo(params))
-    },
+  /**
+   * Calls the offerBuyout(pay,pay,uint64,uint64)uint64 ABI method.
+   *
+  * Offer to buy out every share of a property. The offer amount is escrowed in the app and
+  holders vote on it with their shares until the deadline. A property has one active offer at
+  a time, open or accepted, and only once its primary sale has sold out or been closed. A new
+  offer can be made as soon as the previous one is rejected.
 
-  }
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  offerBuyout(params?: CallParams<FractionalRealEstateArgs['obj']['offerBuyout(pay,pay,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['offerBuyout(pay,pay,uint64,uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['offerBuyout(pay,pay,uint64,uint64)uint64'] | undefined]>
 
   /**
-   * Create transactions for the current app
+   * Calls the voteOnBuyout(pay,uint64,uint64,bool)void ABI method.
+   *
+  * Vote on a buyout offer, weighted by the shares voted with. The shares are taken from the
+  voter's holding and stay locked in the app: they are redeemed with the holder's other shares
+  if the buyout is accepted, and can be withdrawn if it is rejected. Locked shares don't earn income.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  readonly createTransaction = {
-    /**
-     * Makes a clear_state call to an existing instance of the FractionalRealEstate smart contract.
-     *
-     * @param params The params for the bare (raw) call
-     * @returns The clearState result
-     */
-    clearState: (params?: Expand<AppClientBareCallParams>) => {
-      return this.appClient.createTransaction.bare.clearState(params)
-    },
+  voteOnBuyout(params?: CallParams<FractionalRealEstateArgs['obj']['voteOnBuyout(pay,uint64,uint64,bool)void'] | FractionalRealEstateArgs['tuple']['voteOnBuyout(pay,uint64,uint64,bool)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['voteOnBuyout(pay,uint64,uint64,bool)void'] | undefined]>
 
-    /**
-     * Makes a call to the FractionalRealEstate smart contract using the `createPropertyListing(pay,string,uint64,uint64)uint64` ABI method.
-     *
-    * List a new property for fractional ownership. Creates an ASA representing shares
-    and stores property details in a BoxMap.
+  /**
+   * Calls the finalizeBuyout(uint64)uint64 ABI method.
+   *
+  * Decide a buyout. Anyone can finalize, as soon as more than half of all shares have voted for
+  it or otherwise once voting has closed. An accepted buyout closes the primary sale for good;
+  a rejected one pays the escrowed offer back to the bidder and frees the property for a new offer.
 
-     *
-     * @param params The params for the smart contract call
-     * @returns The call transaction
-     */
-    createPropertyListing: (params: CallParams<FractionalRealEstateArgs['obj']['createPropertyListing(pay,string,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createPropertyListing(pay,string,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.createPropertyListing(params))
-    },
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  finalizeBuyout(params?: CallParams<FractionalRealEstateArgs['obj']['finalizeBuyout(uint64)uint64'] | FractionalRealEstateArgs['tuple']['finalizeBuyout(uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['finalizeBuyout(uint64)uint64'] | undefined]>
 
-    /**
-     * Makes a call to the FractionalRealEstate smart contract using the `purchaseFromLister(uint64,uint64,pay)bool` ABI method.
-     *
-     * Purchase shares from the original lister. Buyer must opt in to the ASA beforehand.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call transaction
-     */
-    purchaseFromLister: (params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromLister(uint64,uint64,pay)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromLister(uint64,uint64,pay)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.purchaseFromLister(params))
-    },
+  /**
+   * Calls the withdrawBuyoutVote(uint64)void ABI method.
+   *
+  * Unlock the caller's voting shares after a buyout was rejected and refund the vote box MBR.
+  The last voter to withdraw also returns the buyout box MBR to the bidder.
 
-    /**
-     * Makes a call to the FractionalRealEstate smart contract using the `delistProperty(uint64)void` ABI method.
-     *
-    * Delist a property. Only the owner can delist, and no shares can have been sold.
-    Deleting the box reclaims the MBR.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  withdrawBuyoutVote(params?: CallParams<FractionalRealEstateArgs['obj']['withdrawBuyoutVote(uint64)void'] | FractionalRealEstateArgs['tuple']['withdrawBuyoutVote(uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['withdrawBuyoutVote(uint64)void'] | undefined]>
 
-     *
-     * @param params The params for the smart contract call
-     * @returns The call transaction
-     */
-    delistProperty: (params: CallParams<FractionalRealEstateArgs['obj']['delistProperty(uint64)void'] | FractionalRealEstateArgs['tuple']['delistProperty(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.delistProperty(params))
-    },
+  /**
+   * Calls the redeemBuyout(uint64,uint64)uint64 ABI method.
+   *
+  * Hand shares in to an accepted buyout for their pro-rata share of the offer. Shares locked in
+  the caller's vote are redeemed along with the shares taken from their holding, and the caller's
+  unclaimed income and box MBR are paid out with it. Redeemed shares stay in the app.
+  Once every share is redeemed the listing is closed, with its MBR going back to the owner and
+  the buyout box MBRs to the bidder.
 
-    /**
-     * Makes a call to the FractionalRealEstate smart contract using the `getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call transaction
-     */
-    getPropertyInfo: (params: CallParams<FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)'] | FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      return this.appClient.createTransaction.call(FractionalRealEstateParamsFactory.getPropertyInfo(params))
-    },
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  redeemBuyout(params?: CallParams<FractionalRealEstateArgs['obj']['redeemBuyout(uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['redeemBuyout(uint64,uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['redeemBuyout(uint64,uint64)uint64'] | undefined]>
 
-  }
+  /**
+   * Calls the getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8) ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getBuyout(params?: CallParams<FractionalRealEstateArgs['obj']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)'] | FractionalRealEstateArgs['tuple']['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getBuyout(uint64)(uint64,address,uint64,uint64,uint64,uint64,uint64,uint64,uint8)'] | undefined]>
 
   /**
-   * Send calls to the current app
+   * Calls the getActiveBuyout(uint64)uint64 ABI method.
+   *
+   * The ID of a property's open or accepted buyout offer, or 0 if it has none.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  readonly send = {
-    /**
-     * Makes a clear_state call to an existing instance of the FractionalRealEstate smart contract.
-     *
-     * @param params The params for the bare (raw) call
-     * @returns The clearState result
-     */
-    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
-      return this.appClient.send.bare.clearState(params)
-    },
+  getActiveBuyout(params?: CallParams<FractionalRealEstateArgs['obj']['getActiveBuyout(uint64)uint64'] | FractionalRealEstateArgs['tuple']['getActiveBuyout(uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getActiveBuyout(uint64)uint64'] | undefined]>
 
-    /**
-     * Makes a call to the FractionalRealEstate smart contract using the `createPropertyListing(pay,string,uint64,uint64)uint64` ABI method.
-     *
-    * List a new property for fractional ownership. Creates an ASA representing shares
-    and stores property details in a BoxMap.
+  /**
+   * Calls the reserveShares(pay,uint64,uint64,pay)uint64 ABI method.
+   *
+  * Reserve primary shares of an ALGO-priced listing for buyers whose funds take a while to settle.
+  The shares are held back from sale at today's price for the listing's reservation period, on a
+  deposit of at least the listing's deposit rate; completeReservation pays the rest and hands them over.
 
-     *
-     * @param params The params for the smart contract call
-     * @returns The call result
-     */
-    createPropertyListing: async (params: CallParams<FractionalRealEstateArgs['obj']['createPropertyListing(pay,string,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createPropertyListing(pay,string,uint64,uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.createPropertyListing(params))
-      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['createPropertyListing(pay,string,uint64,uint64)uint64'])}
-    },
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  reserveShares(params?: CallParams<FractionalRealEstateArgs['obj']['reserveShares(pay,uint64,uint64,pay)uint64'] | FractionalRealEstateArgs['tuple']['reserveShares(pay,uint64,uint64,pay)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['reserveShares(pay,uint64,uint64,pay)uint64'] | undefined]>
 
-    /**
-     * Makes a call to the FractionalRealEstate smart contract using the `purchaseFromLister(uint64,uint64,pay)bool` ABI method.
-     *
-     * Purchase shares from the original lister. Buyer must opt in to the ASA beforehand.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call result
-     */
-    purchaseFromLister: async (params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromLister(uint64,uint64,pay)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromLister(uint64,uint64,pay)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.purchaseFromLister(params))
-      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['purchaseFromLister(uint64,uint64,pay)bool'])}
-    },
+  /**
+   * Calls the reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64 ABI method.
+   *
+   * Reserve primary shares of a listing priced in an ASA, paying the deposit in that asset.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  reserveSharesWithAsset(params?: CallParams<FractionalRealEstateArgs['obj']['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64'] | FractionalRealEstateArgs['tuple']['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['reserveSharesWithAsset(pay,uint64,uint64,axfer)uint64'] | undefined]>
 
-    /**
-     * Makes a call to the FractionalRealEstate smart contract using the `delistProperty(uint64)void` ABI method.
-     *
-    * Delist a property. Only the owner can delist, and no shares can have been sold.
-    Deleting the box reclaims the MBR.
+  /**
+   * Calls the completeReservation(uint64,pay)uint64 ABI method.
+   *
+   * Pay the rest of an ALGO-priced reservation and receive the shares. The reservation box MBR is refunded.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  completeReservation(params?: CallParams<FractionalRealEstateArgs['obj']['completeReservation(uint64,pay)uint64'] | FractionalRealEstateArgs['tuple']['completeReservation(uint64,pay)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['completeReservation(uint64,pay)uint64'] | undefined]>
 
-     *
-     * @param params The params for the smart contract call
-     * @returns The call result
-     */
-    delistProperty: async (params: CallParams<FractionalRealEstateArgs['obj']['delistProperty(uint64)void'] | FractionalRealEstateArgs['tuple']['delistProperty(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.delistProperty(params))
-      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['delistProperty(uint64)void'])}
-    },
+  /**
+   * Calls the completeReservationWithAsset(uint64,axfer)uint64 ABI method.
+   *
+   * Pay the rest of a reservation in the listing's payment asset and receive the shares.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  completeReservationWithAsset(params?: CallParams<FractionalRealEstateArgs['obj']['completeReservationWithAsset(uint64,axfer)uint64'] | FractionalRealEstateArgs['tuple']['completeReservationWithAsset(uint64,axfer)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['completeReservationWithAsset(uint64,axfer)uint64'] | undefined]>
 
-    /**
-     * Makes a call to the FractionalRealEstate smart contract using the `getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)` ABI method.
-     * 
-     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
-     *
-     * @param params The params for the smart contract call
-     * @returns The call result
-     */
-    getPropertyInfo: async (params: CallParams<FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)'] | FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
-      const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getPropertyInfo(params))
-      return {...result, return: result.return as unknown as (undefined | FractionalRealEstateReturns['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)'])}
-    },
+  /**
+   * Calls the expireReservation(uint64,address)void ABI method.
+   *
+  * Release a reservation that ran out without being completed. Anyone can call this once it has
+  expired. The shares go back on sale, the deposit goes to the owner if the listing forfeits
+  deposits or back to the holder otherwise, and the holder gets the reservation box MBR back.
 
-  }
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  expireReservation(params?: CallParams<FractionalRealEstateArgs['obj']['expireReservation(uint64,address)void'] | FractionalRealEstateArgs['tuple']['expireReservation(uint64,address)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['expireReservation(uint64,address)void'] | undefined]>
 
   /**
-   * Clone this app client with different params
+   * Calls the getReservation(uint64,address)(uint64,uint64,uint64,uint64) ABI method.
    *
-   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
-   * @returns A new app client with the altered params
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public clone(params: CloneAppClientParams) {
-    return new FractionalRealEstateClient(this.appClient.clone(params))
-  }
+  getReservation(params?: CallParams<FractionalRealEstateArgs['obj']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)'] | FractionalRealEstateArgs['tuple']['getReservation(uint64,address)(uint64,uint64,uint64,uint64)']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getReservation(uint64,address)(uint64,uint64,uint64,uint64)'] | undefined]>
 
   /**
-   * Makes a readonly (simulated) call to the FractionalRealEstate smart contract using the `getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)` ABI method.
-   * 
-   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   * Calls the registerReferrer(pay,uint64)void ABI method.
    *
-   * @param params The params for the smart contract call
-   * @returns The call result
+  * Sign up as a referral partner for listings priced in one currency, so purchases can name the
+  caller as their referrer. The partner pays the MBR for the box their earnings are tracked in,
+  and must be opted in to an ASA currency to be paid in it.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  async getPropertyInfo(params: CallParams<FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)'] | FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)']>) {
-    const result = await this.appClient.send.call(FractionalRealEstateParamsFactory.getPropertyInfo(params))
-    return result.return as unknown as FractionalRealEstateReturns['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)']
-  }
+  registerReferrer(params?: CallParams<FractionalRealEstateArgs['obj']['registerReferrer(pay,uint64)void'] | FractionalRealEstateArgs['tuple']['registerReferrer(pay,uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['registerReferrer(pay,uint64)void'] | undefined]>
 
   /**
-   * Methods to access state for the current FractionalRealEstate app
+   * Calls the getReferralEarnings(address,uint64)uint64 ABI method.
+   *
+   * Total referral commissions a partner has been paid in one currency, or 0 if they haven't registered for it.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  state = {
-    /**
-     * Methods to access box state for the current FractionalRealEstate app
-     */
-    box: {
-      /**
-       * Get all current keyed values from box state
-       */
-      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
-        const result = await this.appClient.state.box.getAll()
-        return {
-        }
-      },
-      /**
-       * Get values from the listedProperties map in box state
-       */
-      listedProperties: {
-        /**
-         * Get all current values of the listedProperties map in box state
-         */
-        getMap: async (): Promise<Map<bigint, PropertyStruct>> => { return (await this.appClient.state.box.getMap("listedProperties")) as Map<bigint, PropertyStruct> },
-        /**
-         * Get a current value of the listedProperties map by key from box state
-         */
-        value: async (key: bigint | number): Promise<PropertyStruct | undefined> => { return await this.appClient.state.box.getMapValue("listedProperties", key) as PropertyStruct | undefined },
-      },
-    },
-  }
+  getReferralEarnings(params?: CallParams<FractionalRealEstateArgs['obj']['getReferralEarnings(address,uint64)uint64'] | FractionalRealEstateArgs['tuple']['getReferralEarnings(address,uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getReferralEarnings(address,uint64)uint64'] | undefined]>
 
-  public newGroup(): FractionalRealEstateComposer {
-    const client = this
-    const composer = this.algorand.newGroup()
-    let promiseChain:Promise<unknown> = Promise.resolve()
-    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
-    return {
-      /**
-       * Add a createPropertyListing(pay,string,uint64,uint64)uint64 method call against the FractionalRealEstate contract
-       */
-      createPropertyListing(params: CallParams<FractionalRealEstateArgs['obj']['createPropertyListing(pay,string,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createPropertyListing(pay,string,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.createPropertyListing(params)))
-        resultMappers.push((v) => client.decodeReturnValue('createPropertyListing(pay,string,uint64,uint64)uint64', v))
-        return this
-      },
-      /**
-       * Add a purchaseFromLister(uint64,uint64,pay)bool method call against the FractionalRealEstate contract
-       */
-      purchaseFromLister(params: CallParams<FractionalRealEstateArgs['obj']['purchaseFromLister(uint64,uint64,pay)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromLister(uint64,uint64,pay)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.purchaseFromLister(params)))
-        resultMappers.push((v) => client.decodeReturnValue('purchaseFromLister(uint64,uint64,pay)bool', v))
-        return this
-      },
-      /**
-       * Add a delistProperty(uint64)void method call against the FractionalRealEstate contract
-       */
-      delistProperty(params: CallParams<FractionalRealEstateArgs['obj']['delistProperty(uint64)void'] | FractionalRealEstateArgs['tuple']['delistProperty(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.delistProperty(params)))
-        resultMappers.push(undefined)
-        return this
-      },
-      /**
-       * Add a getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address) method call against the FractionalRealEstate contract
-       */
-      getPropertyInfo(params: CallParams<FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)'] | FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
-        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getPropertyInfo(params)))
-        resultMappers.push((v) => client.decodeReturnValue('getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)', v))
-        return this
-      },
-      /**
-       * Add a clear state call to the FractionalRealEstate contract
-       */
-      clearState(params: AppClientBareCallParams) {
-        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
-        return this
-      },
-      addTransaction(txn: Transaction, signer?: TransactionSigner) {
-        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
-        return this
-      },
-      async composer() {
-        await promiseChain
-        return composer
-      },
-      async simulate(options?: SimulateOptions) {
-        await promiseChain
-        const result = await (!options ? composer.simulate() : composer.simulate(options))
-        return {
-          ...result,
-          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
-        }
-      },
-      async send(params?: SendParams) {
-        await promiseChain
-        const result = await composer.send(params)
-        return {
-          ...result,
-          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
-        }
-      }
-    } as unknown as FractionalRealEstateComposer
-  }
-}
-export type FractionalRealEstateComposer<TReturns extends [...any[]] = []> = {
   /**
-   * Calls the createPropertyListing(pay,string,uint64,uint64)uint64 ABI method.
+   * Calls the setAppraiser(pay,uint64,address)void ABI method.
    *
-  * List a new property for fractional ownership. Creates an ASA representing shares
-  and stores property details in a BoxMap.
+  * Appoint the account that posts valuations of a listing, or replace it. Pass the zero address
+  to stop valuations being posted. The first appointment pays the MBR for the appraiser box and
+  the valuation history box, which comes back to the owner when the listing closes.
 
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  createPropertyListing(params?: CallParams<FractionalRealEstateArgs['obj']['createPropertyListing(pay,string,uint64,uint64)uint64'] | FractionalRealEstateArgs['tuple']['createPropertyListing(pay,string,uint64,uint64)uint64']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['createPropertyListing(pay,string,uint64,uint64)uint64'] | undefined]>
+  setAppraiser(params?: CallParams<FractionalRealEstateArgs['obj']['setAppraiser(pay,uint64,address)void'] | FractionalRealEstateArgs['tuple']['setAppraiser(pay,uint64,address)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['setAppraiser(pay,uint64,address)void'] | undefined]>
 
   /**
-   * Calls the purchaseFromLister(uint64,uint64,pay)bool ABI method.
+   * Calls the postValuation(uint64,uint64,uint64,byte[32])void ABI method.
    *
-   * Purchase shares from the original lister. Buyer must opt in to the ASA beforehand.
+  * Post a valuation of the whole property. Only the listing's appraiser can post, and valuations
+  must be posted in date order. Once the history is full the oldest valuation is dropped.
+
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  purchaseFromLister(params?: CallParams<FractionalRealEstateArgs['obj']['purchaseFromLister(uint64,uint64,pay)bool'] | FractionalRealEstateArgs['tuple']['purchaseFromLister(uint64,uint64,pay)bool']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['purchaseFromLister(uint64,uint64,pay)bool'] | undefined]>
+  postValuation(params?: CallParams<FractionalRealEstateArgs['obj']['postValuation(uint64,uint64,uint64,byte[32])void'] | FractionalRealEstateArgs['tuple']['postValuation(uint64,uint64,uint64,byte[32])void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['postValuation(uint64,uint64,uint64,byte[32])void'] | undefined]>
 
   /**
-   * Calls the delistProperty(uint64)void ABI method.
+   * Calls the getAppraiser(uint64)address ABI method.
    *
-  * Delist a property. Only the owner can delist, and no shares can have been sold.
-  Deleting the box reclaims the MBR.
+   * Account that posts a listing's valuations, or the zero address if there is none.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getAppraiser(params?: CallParams<FractionalRealEstateArgs['obj']['getAppraiser(uint64)address'] | FractionalRealEstateArgs['tuple']['getAppraiser(uint64)address']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getAppraiser(uint64)address'] | undefined]>
 
+  /**
+   * Calls the getLatestValuation(uint64)(uint64,uint64,byte[32]) ABI method.
+   *
+   * A listing's most recent valuation. NAV per share is its totalValue over the listing's totalShares.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  delistProperty(params?: CallParams<FractionalRealEstateArgs['obj']['delistProperty(uint64)void'] | FractionalRealEstateArgs['tuple']['delistProperty(uint64)void']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['delistProperty(uint64)void'] | undefined]>
+  getLatestValuation(params?: CallParams<FractionalRealEstateArgs['obj']['getLatestValuation(uint64)(uint64,uint64,byte[32])'] | FractionalRealEstateArgs['tuple']['getLatestValuation(uint64)(uint64,uint64,byte[32])']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getLatestValuation(uint64)(uint64,uint64,byte[32])'] | undefined]>
 
   /**
-   * Calls the getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address) ABI method.
+   * Calls the getValuationHistory(uint64)(uint64,uint64,byte[32])[] ABI method.
+   *
+   * Up to the last 12 valuations of a listing, oldest first.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  getPropertyInfo(params?: CallParams<FractionalRealEstateArgs['obj']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)'] | FractionalRealEstateArgs['tuple']['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getPropertyInfo(uint64)(string,uint64,uint64,uint64,uint64,address)'] | undefined]>
+  getValuationHistory(params?: CallParams<FractionalRealEstateArgs['obj']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]'] | FractionalRealEstateArgs['tuple']['getValuationHistory(uint64)(uint64,uint64,byte[32])[]']>): FractionalRealEstateComposer<[...TReturns, FractionalRealEstateReturns['getValuationHistory(uint64)(uint64,uint64,byte[32])[]'] | undefined]>
 
   /**
    * Makes a clear_state call to an existing instance of the FractionalRealEstate smart contract.
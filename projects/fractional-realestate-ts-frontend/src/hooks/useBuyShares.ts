@@ -1,55 +1,197 @@
 import { useState } from 'react'
-import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { FractionalRealEstateClient, FractionalRealEstateComposer } from '../contracts/FractionalRealEstate'
+import { useRefresh } from '../context/RefreshContext'
 import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { ALGORAND_ZERO_ADDRESS_STRING } from 'algosdk'
+import { createAccountBoxReference, createBoxReference, createHolderBoxReference } from '../utils/createBoxReference'
+import { getKycStatus, KYC_REQUIRED_MESSAGE } from '../utils/kyc'
+import { getPurchaseReferrer } from '../utils/referral'
+
+// MBR for a buyer's lockup box: 2500 + 400 * (45 byte name + 16 byte value) microAlgos.
+// Refunded when the shares are unlocked.
+export const LOCKUP_MBR = 26_900
+
+export type Purchase = {
+  propertyId: bigint
+  // The most the buyer will pay for the whole purchase in base units of the payment currency
+  totalPrice: bigint
+  shares: bigint
+  // The ASA the property is priced in, or 0n for ALGO
+  paymentAssetId: bigint
+  // The listing's lockup period in rounds, or 0n for none
+  lockupRounds: bigint
+  // On a Dutch auction, the most the buyer will pay per share. 0n for fixed-price listings.
+  maxPricePerShare: bigint
+  // On a fixed-price listing, buy whatever shares are left if there are fewer than asked for
+  allowPartialFill: boolean
+  // Registered partner to pay the listing's referral commission (see getPurchaseReferrer)
+  referrer?: string
+}
 
 /**
- * Helper to create a box reference for a BoxMap in Algorand smart contracts.
- * Algorand box keys for BoxMap are constructed as: prefix + uint64(key) (big-endian)
- * This helper encodes the key for use in boxReferences.
- *
- * @param appId The application ID
- * @param prefix The string prefix for the BoxMap (e.g., 'properties')
- * @param key The bigint key (e.g., propertyId)
- * @returns An object with appId and name (Uint8Array) for use in boxReferences
+ * Add the transactions that buy shares of one property to a group: the opt-in, the lockup
+ * registration a first purchase into a lockup needs, the payment and the purchase call, which
+ * returns the number of shares bought.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param group The group to add the purchase to
+ * @param sender The address of the buyer
+ * @param purchase What to buy and the most to pay for it
  */
-function createBoxReference(appId: bigint, prefix: string, key: bigint) {
-  // Encode the key as a big-endian uint64
-  const buffer = new ArrayBuffer(8)
-  const view = new DataView(buffer)
-  view.setBigUint64(0, key, false) // false = big-endian
-  const encodedKey = new Uint8Array(buffer)
-  // Concatenate prefix and encoded key
-  const boxName = new Uint8Array([...new TextEncoder().encode(prefix), ...encodedKey])
-  return {
-    appId,
-    name: boxName,
+export async function addPurchase(
+  appClient: FractionalRealEstateClient,
+  group: FractionalRealEstateComposer<unknown[]>,
+  sender: string,
+  purchase: Purchase,
+) {
+  const { propertyId, totalPrice, shares, paymentAssetId, lockupRounds, maxPricePerShare, allowPartialFill } = purchase
+  const referrer = purchase.referrer ?? ALGORAND_ZERO_ADDRESS_STRING
+
+  // Opt-in to the property asset
+  const optInTxn = await appClient.algorand.createTransaction.assetOptIn({
+    sender,
+    assetId: propertyId,
+  })
+
+  // Use the helper to create the correct box reference for the properties BoxMap
+  const boxReference = createBoxReference(appClient.appId, 'properties', propertyId)
+  // The buyer's income claim box is settled before their balance changes
+  const claimBoxReference = createHolderBoxReference(appClient.appId, 'claims', propertyId, sender)
+  // The contract checks the buyer's allowlist entry
+  const kycBoxReference = createAccountBoxReference(appClient.appId, 'kyc', sender)
+  // The contract prices the purchase from the listing's price tiers, if it has any
+  const tiersBoxReference = createBoxReference(appClient.appId, 'tiers', propertyId)
+  // Shares bought into a lockup are added to the buyer's lockup box
+  const lockBoxReference = createHolderBoxReference(appClient.appId, 'locks', propertyId, sender)
+  const boxReferences =
+    lockupRounds > 0n
+      ? [boxReference, claimBoxReference, kycBoxReference, tiersBoxReference, lockBoxReference]
+      : [boxReference, claimBoxReference, kycBoxReference, tiersBoxReference]
+
+  // The buyer covers the fees of the inner transactions the purchase makes. The referrer's account and
+  // earnings box are left to the resource population algokit does on send, since a locked-up purchase
+  // priced in an ASA already uses all eight references a call can carry.
+  const innerFees = 4000 + (purchase.referrer ? 1000 : 0)
+
+  group.addTransaction(optInTxn)
+  if (lockupRounds > 0n) {
+    const registered = await appClient.state.box.lockups
+      .value({ propertyId, holder: sender })
+      .then((lockup) => lockup !== undefined)
+      .catch(() => false)
+    if (!registered) {
+      const mbrPayment = await appClient.algorand.createTransaction.payment({
+        sender,
+        amount: microAlgo(LOCKUP_MBR),
+        receiver: appClient.appAddress,
+      })
+      group.registerLockup({
+        sender,
+        args: { mbrPayment, propertyId },
+        boxReferences: [boxReference, lockBoxReference],
+      })
+    }
+  }
+  if (paymentAssetId > 0n) {
+    // Listings priced in an ASA are paid with an asset transfer the buyer already holds
+    const paymentTxn = await appClient.algorand.createTransaction.assetTransfer({
+      sender,
+      assetId: paymentAssetId,
+      amount: totalPrice,
+      receiver: appClient.appAddress,
+    })
+    const params = {
+      sender,
+      boxReferences,
+      accountReferences: [sender],
+      assetReferences: [propertyId, paymentAssetId],
+      // Share transfer + lister payment + refund, plus the treasury's cut when a platform fee is set
+      // and the referrer's commission
+      extraFee: microAlgo(innerFees),
+    }
+
+    if (maxPricePerShare > 0n) {
+      group.purchaseAtAuctionWithAsset({
+        ...params,
+        args: { propertyId, shares, maxPricePerShare, payment: paymentTxn, referrer },
+      })
+    } else {
+      group.purchaseUpToWithAsset({
+        ...params,
+        args: { propertyId, shares, maxTotal: totalPrice, allowPartialFill, payment: paymentTxn, referrer },
+      })
+    }
+  } else {
+    // Create a payment transaction to pay the lister
+    // This transaction is sent as a parameter to the purchase call
+    const paymentTxn = await appClient.algorand.createTransaction.payment({
+      sender,
+      amount: microAlgo(Number(totalPrice)),
+      receiver: appClient.appAddress,
+    })
+    const params = {
+      sender,
+      boxReferences,
+      accountReferences: [sender],
+      assetReferences: [propertyId],
+      // Share transfer + lister payment + refund, plus the treasury's cut when a platform fee is set
+      // and the referrer's commission
+      extraFee: microAlgo(innerFees),
+    }
+
+    if (maxPricePerShare > 0n) {
+      group.purchaseAtAuction({
+        ...params,
+        args: { propertyId, shares, maxPricePerShare, payment: paymentTxn, referrer },
+      })
+    } else {
+      group.purchaseUpTo({
+        ...params,
+        args: { propertyId, shares, maxTotal: totalPrice, allowPartialFill, payment: paymentTxn, referrer },
+      })
+    }
   }
 }
 
 /**
- * Custom hook to buy shares of a listed property.
+ * Custom hook to buy shares of a listed property. Only accounts on the KYC allowlist can buy.
+ * On listings with a lockup the buyer's lockup box is registered in the same group as the purchase.
+ *
+ * Fixed-price purchases send the most the buyer will pay and the contract refunds whatever the
+ * shares cost less than that, so a reprice or a tier selling out in the meantime can't overcharge them.
+ * A buyer who arrived through a partner's referral link names the partner on the purchase, as
+ * long as the partner is registered for the listing's currency.
  * @param appClient The FractionalRealEstateClient instance
  * @param activeAddress The address of the user buying shares
+ * @param referrer The partner who referred the user, if any
  */
-export function useBuyShares(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined) {
-  const [buyingPropertyId, setBuyingPropertyId] = useState<bigint | null>(null)
+export function useBuyShares(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined, referrer?: string) {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
+  const { refresh } = useRefresh()
 
   /**
    * Buy shares of a property
    * @param propertyId The asset ID of the property
-   * @param pricePerShare The price per share in microAlgos
+   * @param totalPrice The most the buyer will pay for the whole purchase in base units of the payment currency
    * @param ownerAddress The address of the property owner
    * @param buyAmount The number of shares to buy (string)
+   * @param paymentAssetId The ASA the property is priced in, or 0n for ALGO
+   * @param lockupRounds The listing's lockup period in rounds, or 0n for none
+   * @param maxPricePerShare On a Dutch auction, the most the buyer will pay per share (totalPrice covers
+   *   the shares at this price and the contract refunds the rest). 0n for fixed-price listings.
+   * @param allowPartialFill On a fixed-price listing, buy whatever shares are left if there are fewer than buyAmount
    * @param onTx (optional) callback to receive the transaction ID
    */
   const buyShares = async (
     propertyId: bigint,
-    pricePerShare: bigint,
+    totalPrice: bigint,
     ownerAddress: string,
     buyAmount: string,
+    paymentAssetId: bigint,
+    lockupRounds: bigint,
+    maxPricePerShare: bigint,
+    allowPartialFill: boolean,
     onTx?: (txId?: string) => void,
   ) => {
     if (!appClient) {
@@ -60,51 +202,41 @@ export function useBuyShares(appClient: FractionalRealEstateClient | null, activ
       setError('Please connect your wallet to buy shares.')
       return
     }
-    setBuyingPropertyId(propertyId)
     setLoading(true)
     setError(null)
     setSuccess(null)
     try {
-      const sharesToBuy = BigInt(buyAmount)
-      const paymentAmount = sharesToBuy * pricePerShare
-
-      // Opt-in to the property asset
-      const optInTxn = await appClient.algorand.createTransaction.assetOptIn({
-        sender: activeAddress,
-        assetId: propertyId,
-      })
+      // Check the allowlist up front, so an unapproved buyer gets a reason rather than a rejected transaction
+      const { approved } = await getKycStatus(appClient, activeAddress)
+      if (!approved) {
+        setError(KYC_REQUIRED_MESSAGE)
+        if (onTx) onTx(undefined)
+        return
+      }
 
-      // Create a payment transaction to pay the lister
-      // This transaction is sent as a parameter to the purchaseFromLister transaction
-      const paymentTxn = await appClient.algorand.createTransaction.payment({
-        sender: activeAddress,
-        amount: microAlgo(Number(paymentAmount)),
-        receiver: appClient.appAddress,
+      const sharesToBuy = BigInt(buyAmount)
+      const group = appClient.newGroup()
+      await addPurchase(appClient, group, activeAddress, {
+        propertyId,
+        totalPrice,
+        shares: sharesToBuy,
+        paymentAssetId,
+        lockupRounds,
+        maxPricePerShare,
+        allowPartialFill,
+        referrer: await getPurchaseReferrer(appClient, referrer, activeAddress, paymentAssetId),
       })
 
-      // Use the helper to create the correct box reference for the properties BoxMap
-      const boxReference = createBoxReference(appClient.appId, 'properties', propertyId)
-
-      // Create a group transaction to purchase shares from the lister
-      const group = appClient
-        .newGroup()
-        .addTransaction(optInTxn)
-        .purchaseFromLister({
-          sender: activeAddress,
-          args: {
-            propertyId,
-            shares: sharesToBuy,
-            payment: paymentTxn,
-          },
-          boxReferences: [boxReference],
-          accountReferences: [activeAddress],
-          assetReferences: [propertyId],
-          extraFee: microAlgo(2000),
-        })
-
       const result = await group.send()
-      if (result.returns[0]) {
-        setSuccess('Shares purchased!')
+      // The purchase is the last call in the group. A capped purchase returns how many shares it bought.
+      const purchased = result.returns[result.returns.length - 1]
+      if (purchased) {
+        setSuccess(
+          maxPricePerShare === 0n && BigInt(purchased) < sharesToBuy
+            ? `Bought ${purchased} of ${sharesToBuy} shares. The rest of your payment was refunded.`
+            : 'Shares purchased!',
+        )
+        refresh()
         if (onTx && result.txIds && result.txIds.length > 0) {
           onTx(result.txIds[0])
         } else if (onTx) {
@@ -119,9 +251,8 @@ export function useBuyShares(appClient: FractionalRealEstateClient | null, activ
       if (onTx) onTx(undefined)
     } finally {
       setLoading(false)
-      setBuyingPropertyId(null)
     }
   }
 
-  return { buyShares, loading, error, success, buyingPropertyId, setSuccess, setError }
+  return { buyShares, loading, error, success, setSuccess, setError }
 }
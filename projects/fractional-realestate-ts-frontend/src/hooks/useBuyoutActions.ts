@@ -0,0 +1,227 @@
+import { useState } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { useRefresh } from '../context/RefreshContext'
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { createBoxReference, createHolderBoxReference } from '../utils/createBoxReference'
+import { Buyout } from './useBuyouts'
+import { Property } from './useProperties'
+
+// MBR for a buyout box: 2500 + 400 * (15 byte name + 89 byte value) microAlgos.
+// Refunded to the bidder once the offer is done with: rejected with no votes left, or fully redeemed.
+const BUYOUT_MBR = 44_100
+// MBR for the property's active offer box: 2500 + 400 * (21 byte name + 8 byte value) microAlgos.
+// Refunded to the bidder once the offer is rejected or fully redeemed.
+const ACTIVE_BUYOUT_MBR = 14_100
+// MBR for a buyout vote box: 2500 + 400 * (51 byte name + 9 byte value) microAlgos.
+// Refunded when the vote is withdrawn or redeemed.
+const BUYOUT_VOTE_MBR = 26_500
+
+/**
+ * Custom hook for taking part in buyouts: a bidder escrows an offer, holders vote on it with their
+ * shares, and redeem their shares once it is accepted.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param activeAddress The address of the connected user
+ */
+export function useBuyoutActions(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const { refresh } = useRefresh()
+
+  /**
+   * Run a buyout action and refresh the app's data afterwards.
+   */
+  const runAction = async (
+    successMessage: string,
+    fallbackError: string,
+    action: (client: FractionalRealEstateClient, sender: string) => Promise<{ txIds: string[] }>,
+    onTx?: (txId?: string) => void,
+  ) => {
+    if (!appClient) {
+      setError('App is not ready. Please try again in a moment.')
+      return
+    }
+    if (!activeAddress) {
+      setError('Please connect your wallet to take part in a buyout.')
+      return
+    }
+    setLoading(true)
+    setError(null)
+    setSuccess(null)
+    try {
+      const result = await action(appClient, activeAddress)
+      setSuccess(successMessage)
+      refresh()
+      if (onTx && result.txIds && result.txIds.length > 0) {
+        onTx(result.txIds[0])
+      } else if (onTx) {
+        onTx(undefined)
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : fallbackError)
+      if (onTx) onTx(undefined)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /**
+   * Offer to buy out every share of a property. The amount is escrowed in the app until the offer is decided.
+   * @param propertyId The asset ID of the property
+   * @param amount The total offer in microAlgos (string)
+   * @param votingRounds How many rounds holders have to vote (string)
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const offerBuyout = (propertyId: bigint, amount: string, votingRounds: string, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Buyout offered!',
+      'Failed to offer buyout',
+      async (client, sender) => {
+        const { lastRound } = await client.algorand.client.algod.status().do()
+        // The new offer's box key is the contract's next buyout ID
+        const buyoutId = (await client.state.global.nextBuyoutId()) ?? 1n
+        const mbrPayment = await client.algorand.createTransaction.payment({
+          sender,
+          amount: microAlgo(BUYOUT_MBR + ACTIVE_BUYOUT_MBR),
+          receiver: client.appAddress,
+        })
+        const payment = await client.algorand.createTransaction.payment({
+          sender,
+          amount: microAlgo(BigInt(amount)),
+          receiver: client.appAddress,
+        })
+
+        return client.send.offerBuyout({
+          args: { mbrPayment, payment, propertyId, deadlineRound: lastRound + BigInt(votingRounds) },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createBoxReference(client.appId, 'buyouts', buyoutId),
+            createBoxReference(client.appId, 'activeBuyouts', propertyId),
+          ],
+        })
+      },
+      onTx,
+    )
+
+  /**
+   * Vote on a buyout offer. The shares stay locked in the app until they are redeemed or the offer is rejected.
+   * @param buyout The offer to vote on
+   * @param shares The number of shares to vote with (string)
+   * @param support Whether to vote in favour
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const voteOnBuyout = (buyout: Buyout, shares: string, support: boolean, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Vote cast!',
+      'Failed to vote on buyout',
+      async (client, sender) => {
+        const mbrPayment = await client.algorand.createTransaction.payment({
+          sender,
+          amount: microAlgo(BUYOUT_VOTE_MBR),
+          receiver: client.appAddress,
+        })
+
+        return client.send.voteOnBuyout({
+          args: { mbrPayment, buyoutId: buyout.buyoutId, shares: BigInt(shares), support },
+          boxReferences: [
+            createBoxReference(client.appId, 'buyouts', buyout.buyoutId),
+            createBoxReference(client.appId, 'properties', buyout.propertyId),
+            createHolderBoxReference(client.appId, 'buyoutVotes', buyout.buyoutId, sender),
+            createHolderBoxReference(client.appId, 'claims', buyout.propertyId, sender),
+          ],
+          assetReferences: [buyout.propertyId],
+          // The share transfer into the app
+          extraFee: microAlgo(1000),
+        })
+      },
+      onTx,
+    )
+
+  /**
+   * Decide a buyout, once most shares have voted for it or voting has closed
+   * @param buyout The offer to finalize
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const finalizeBuyout = (buyout: Buyout, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Buyout finalized!',
+      'Failed to finalize buyout',
+      (client) =>
+        client.send.finalizeBuyout({
+          args: { buyoutId: buyout.buyoutId },
+          boxReferences: [
+            createBoxReference(client.appId, 'buyouts', buyout.buyoutId),
+            createBoxReference(client.appId, 'properties', buyout.propertyId),
+            createBoxReference(client.appId, 'activeBuyouts', buyout.propertyId),
+          ],
+          accountReferences: [buyout.bidder],
+          // Refund to the bidder if the offer is rejected
+          extraFee: microAlgo(1000),
+        }),
+      onTx,
+    )
+
+  /**
+   * Get your locked shares and the vote MBR back after a buyout was rejected
+   * @param buyout The offer you voted on
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const withdrawBuyoutVote = (buyout: Buyout, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Shares unlocked!',
+      'Failed to withdraw vote',
+      (client, sender) =>
+        client.send.withdrawBuyoutVote({
+          args: { buyoutId: buyout.buyoutId },
+          boxReferences: [
+            createBoxReference(client.appId, 'buyouts', buyout.buyoutId),
+            createBoxReference(client.appId, 'properties', buyout.propertyId),
+            createHolderBoxReference(client.appId, 'buyoutVotes', buyout.buyoutId, sender),
+            createHolderBoxReference(client.appId, 'claims', buyout.propertyId, sender),
+          ],
+          accountReferences: [buyout.bidder],
+          assetReferences: [buyout.propertyId],
+          // Share transfer + MBR refund, plus the bidder's MBR refund after the last vote
+          extraFee: microAlgo(buyout.lockedShares === buyout.myVote?.shares ? 3000 : 2000),
+        }),
+      onTx,
+    )
+
+  /**
+   * Hand your shares in to an accepted buyout for your share of the offer. Shares you voted with
+   * are redeemed too, and any unclaimed rental income is paid out with it.
+   * @param buyout The accepted offer
+   * @param property The property being bought out
+   * @param shares The number of shares to send in on top of any you voted with (string)
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const redeemBuyout = (buyout: Buyout, property: Property, shares: string, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Shares redeemed!',
+      'Failed to redeem shares',
+      async (client, sender) => {
+        const handedIn = BigInt(shares || '0')
+        // The last shares in close the listing, which pays MBR back to the owner and the bidder
+        const closesListing = buyout.redeemedShares + handedIn + (buyout.myVote?.shares ?? 0n) === property.totalShares
+
+        return client.send.redeemBuyout({
+          args: { buyoutId: buyout.buyoutId, shares: handedIn },
+          // The boxes and accounts closing the listing touches are left to the resource population
+          // algokit does on send, since with them the call would carry more than eight references
+          boxReferences: [
+            createBoxReference(client.appId, 'buyouts', buyout.buyoutId),
+            createBoxReference(client.appId, 'properties', buyout.propertyId),
+            createHolderBoxReference(client.appId, 'buyoutVotes', buyout.buyoutId, sender),
+            createHolderBoxReference(client.appId, 'claims', buyout.propertyId, sender),
+          ],
+          assetReferences: [buyout.propertyId],
+          // Payout, plus the share transfer when shares are handed in on top of the vote, and destroying
+          // the share asset and the owner's and bidder's MBR refunds when the listing closes
+          extraFee: microAlgo((handedIn > 0n ? 1000 : 0) + (closesListing ? 4000 : 1000)),
+        })
+      },
+      onTx,
+    )
+
+  return { offerBuyout, voteOnBuyout, finalizeBuyout, withdrawBuyoutVote, redeemBuyout, loading, error, success }
+}
@@ -0,0 +1,81 @@
+import { useState, useCallback } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { Address } from 'algosdk'
+
+// Buyout status values stored by the contract
+export const BUYOUT_OPEN = 0
+export const BUYOUT_ACCEPTED = 1
+export const BUYOUT_REJECTED = 2
+
+// Offer to buy out every share of a property, plus the connected user's vote on it (if any)
+export type Buyout = {
+  buyoutId: bigint
+  propertyId: bigint
+  bidder: string
+  amount: bigint
+  deadlineRound: bigint
+  votesFor: bigint
+  votesAgainst: bigint
+  lockedShares: bigint
+  redeemedShares: bigint
+  status: number
+  myVote?: { shares: bigint; support: boolean }
+}
+
+/**
+ * Custom hook for whole-property buyouts: loads the current offer on each listing shown, any rejected
+ * offers on them the connected user still has shares locked in, and the user's vote on each.
+ * Offers are keyed by their own ID, and a property can get a new offer once the last one is rejected.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param activeAddress The address of the connected user
+ * @param propertyIds IDs of the listings paged in so far
+ */
+export function useBuyouts(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined, propertyIds: bigint[]) {
+  const [buyouts, setBuyouts] = useState<Buyout[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  // Join the IDs into a string so a new properties array with the same listings doesn't refetch
+  const propertyIdsKey = propertyIds.join(',')
+
+  // Fetch the buyout offers on each listing and the connected user's votes
+  const fetchBuyouts = useCallback(async () => {
+    if (!appClient) return
+
+    try {
+      const shown = new Set(propertyIdsKey ? propertyIdsKey.split(',').map(BigInt) : [])
+      const buyoutIds = new Set<bigint>()
+      for (const propertyId of shown) {
+        const buyoutId = await appClient.state.box.activeBuyouts.value(propertyId).catch(() => undefined)
+        if (buyoutId !== undefined) buyoutIds.add(buyoutId)
+      }
+      if (activeAddress) {
+        // Vote boxes are named 'buyoutVotes' + uint64(buyoutId) + the voter's public key, so the
+        // user's names lead to the rejected offers they haven't withdrawn from yet
+        const prefix = new TextEncoder().encode('buyoutVotes')
+        const voter = Address.fromString(activeAddress).publicKey
+        for (const { nameRaw } of await appClient.appClient.getBoxNames()) {
+          const isMine =
+            nameRaw.length === prefix.length + 8 + 32 &&
+            prefix.every((byte, index) => nameRaw[index] === byte) &&
+            voter.every((byte, index) => nameRaw[prefix.length + 8 + index] === byte)
+          if (isMine) buyoutIds.add(new DataView(nameRaw.buffer, nameRaw.byteOffset + prefix.length, 8).getBigUint64(0))
+        }
+      }
+
+      const result: Buyout[] = []
+      for (const buyoutId of buyoutIds) {
+        const buyout = await appClient.state.box.buyouts.value(buyoutId).catch(() => undefined)
+        if (!buyout || !shown.has(buyout.propertyId)) continue
+        const vote = activeAddress
+          ? await appClient.state.box.buyoutVotes.value({ buyoutId, voter: activeAddress }).catch(() => undefined)
+          : undefined
+        result.push({ buyoutId, ...buyout, status: Number(buyout.status), myVote: vote })
+      }
+      setBuyouts(result)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch buyout offers')
+    }
+  }, [appClient, activeAddress, propertyIdsKey])
+
+  return { buyouts, error, refresh: fetchBuyouts }
+}
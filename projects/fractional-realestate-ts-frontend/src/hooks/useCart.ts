@@ -0,0 +1,127 @@
+import { useState } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { useRefresh } from '../context/RefreshContext'
+import { getKycStatus, KYC_REQUIRED_MESSAGE } from '../utils/kyc'
+import { getPurchaseReferrer } from '../utils/referral'
+import { addPurchase } from './useBuyShares'
+import { Property } from './useProperties'
+
+// Most transactions an atomic group can hold
+export const MAX_GROUP_SIZE = 16
+
+// Shares of one property waiting in the cart
+export type CartItem = {
+  property: Property
+  shares: bigint
+  // The most the buyer will pay for these shares, in base units of the listing's currency
+  maxTotal: bigint
+  // On a Dutch auction, the most the buyer will pay per share. 0n for fixed-price listings.
+  maxPricePerShare: bigint
+}
+
+/**
+ * Custom hook for a cart of purchases across several properties, bought in one atomic group so
+ * the wallet signs once and the whole basket goes through or none of it does. Each purchase
+ * keeps its own opt-in, payment and purchase call, and the fees of every purchase's inner
+ * transactions are pooled on the group, so a basket is capped at what fits in one group.
+ *
+ * Fixed-price items never fill partially, since a short fill would leave the rest of the
+ * basket bought without it.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param activeAddress The address of the user buying shares
+ * @param referrer The partner who referred the user, if any (see useBuyShares)
+ */
+export function useCart(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined, referrer?: string) {
+  const [items, setItems] = useState<CartItem[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const { refresh } = useRefresh()
+
+  /**
+   * Put shares of a property in the cart, replacing any already there for that property
+   * @param item The shares to buy and the most to pay for them
+   */
+  const addToCart = (item: CartItem) => {
+    setSuccess(null)
+    setItems((current) => [...current.filter((other) => other.property.propertyAssetId !== item.property.propertyAssetId), item])
+  }
+
+  /**
+   * Take a property out of the cart
+   * @param propertyId The asset ID of the property
+   */
+  const removeFromCart = (propertyId: bigint) => {
+    setItems((current) => current.filter((item) => item.property.propertyAssetId !== propertyId))
+  }
+
+  const clearCart = () => {
+    setItems([])
+    setError(null)
+  }
+
+  /**
+   * Buy everything in the cart in one atomic group
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const checkout = async (onTx?: (txId?: string) => void) => {
+    if (!appClient) {
+      setError('App is not ready. Please try again in a moment.')
+      return
+    }
+    if (!activeAddress) {
+      setError('Please connect your wallet to buy shares.')
+      return
+    }
+    setLoading(true)
+    setError(null)
+    setSuccess(null)
+    try {
+      const group = appClient.newGroup()
+      for (const item of items) {
+        const propertyId = item.property.propertyAssetId
+        // Check the allowlist up front, so an unapproved buyer gets a reason rather than a rejected group
+        const { approved } = await getKycStatus(appClient, activeAddress)
+        if (!approved) {
+          setError(KYC_REQUIRED_MESSAGE)
+          if (onTx) onTx(undefined)
+          return
+        }
+        await addPurchase(appClient, group, activeAddress, {
+          propertyId,
+          totalPrice: item.maxTotal,
+          shares: item.shares,
+          paymentAssetId: item.property.paymentAssetId,
+          lockupRounds: item.property.lockupRounds,
+          maxPricePerShare: item.maxPricePerShare,
+          allowPartialFill: false,
+          referrer: await getPurchaseReferrer(appClient, referrer, activeAddress, item.property.paymentAssetId),
+        })
+      }
+
+      const groupSize = await (await group.composer()).count()
+      if (groupSize > MAX_GROUP_SIZE) {
+        setError(`These purchases need ${groupSize} transactions, more than the ${MAX_GROUP_SIZE} one group can hold. Remove a property.`)
+        if (onTx) onTx(undefined)
+        return
+      }
+
+      const result = await group.send()
+      setSuccess(`Bought shares in ${items.length} ${items.length === 1 ? 'property' : 'properties'}!`)
+      setItems([])
+      refresh()
+      if (onTx && result.txIds && result.txIds.length > 0) {
+        onTx(result.txIds[0])
+      } else if (onTx) {
+        onTx(undefined)
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to buy the cart')
+      if (onTx) onTx(undefined)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return { items, addToCart, removeFromCart, clearCart, checkout, loading, error, success }
+}
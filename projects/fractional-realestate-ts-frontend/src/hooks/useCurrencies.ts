@@ -0,0 +1,41 @@
+import { useState, useCallback } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { ALGO, Currency } from '../utils/currency'
+import { getStablecoinAssetIdFromViteEnvironment } from '../utils/getAlgorandConfigs'
+
+/**
+ * Custom hook to fetch the currencies listings can be priced in: ALGO, the stablecoin configured
+ * in VITE_STABLECOIN_ASSET_ID, and any other ASA an existing listing uses.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param paymentAssetIds Payment asset IDs of the current listings
+ */
+export function useCurrencies(appClient: FractionalRealEstateClient | null, paymentAssetIds: bigint[]) {
+  const [currencies, setCurrencies] = useState<Currency[]>([ALGO])
+  const [error, setError] = useState<string | null>(null)
+
+  // Join the IDs into a string so a new properties array with the same assets doesn't refetch
+  const assetIdsKey = paymentAssetIds.join(',')
+
+  // Fetch unit names and decimals for every ASA in use
+  const fetchCurrencies = useCallback(async () => {
+    if (!appClient) return
+
+    const stablecoinId = getStablecoinAssetIdFromViteEnvironment()
+    const assetIds = new Set(assetIdsKey ? assetIdsKey.split(',').map(BigInt) : [])
+    if (stablecoinId) assetIds.add(stablecoinId)
+    assetIds.delete(0n)
+
+    try {
+      const result: Currency[] = [ALGO]
+      for (const assetId of assetIds) {
+        const asset = await appClient.algorand.asset.getById(assetId)
+        result.push({ assetId, unitName: asset.unitName ?? `ASA ${assetId}`, decimals: asset.decimals })
+      }
+      setCurrencies(result)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch currencies')
+    }
+  }, [appClient, assetIdsKey])
+
+  return { currencies, error, refresh: fetchCurrencies }
+}
@@ -1,63 +1,302 @@
 import { useState } from 'react'
 import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { useRefresh } from '../context/RefreshContext'
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { createAccountBoxReference, createBoxReference, createHolderBoxReference } from '../utils/createBoxReference'
+import { getKycStatus, KYC_REQUIRED_MESSAGE } from '../utils/kyc'
+import { getOwnerIndexMbr } from '../utils/ownerIndex'
 
-/**
- * Helper to create a box reference for a BoxMap in Algorand smart contracts.
- */
-function createBoxReference(appId: bigint, prefix: string, key: bigint) {
-  const buffer = new ArrayBuffer(8)
-  const view = new DataView(buffer)
-  view.setBigUint64(0, key, false)
-  const encodedKey = new Uint8Array(buffer)
-  const boxName = new Uint8Array([...new TextEncoder().encode(prefix), ...encodedKey])
-  return { appId, name: boxName }
-}
+// MBR for a pending ownership transfer box: 2500 + 400 * (21 byte name + 32 byte value) microAlgos.
+// Refunded to the owner who started the transfer once it is accepted or cancelled.
+const PENDING_OWNER_MBR = 23_700
 
 /**
- * Custom hook to delist a property (remove from the contract).
- * Only the owner can delist, and all shares must still be available.
+ * Custom hook for the lister's controls over a property: delist it (only while all shares
+ * are still available), reprice it, move unsold shares in and out of the primary sale,
+ * close the primary sale for good, or hand the listing over to a new owner.
  */
 export function useDelistProperty(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined) {
-  const [delistingPropertyId, setDelistingPropertyId] = useState<bigint | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
+  const { refresh } = useRefresh()
 
-  const delistProperty = async (propertyId: bigint, onTx?: (txId?: string) => void) => {
+  /**
+   * Run an owner action and refresh the app's data afterwards.
+   */
+  const runAction = async (
+    successMessage: string,
+    fallbackError: string,
+    action: (client: FractionalRealEstateClient, sender: string) => Promise<{ txIds: string[] }>,
+    onTx?: (txId?: string) => void,
+  ) => {
     if (!appClient) {
       setError('App is not ready. Please try again in a moment.')
       return
     }
     if (!activeAddress) {
-      setError('Please connect your wallet to delist.')
+      setError('Please connect your wallet to manage your listing.')
       return
     }
-    setDelistingPropertyId(propertyId)
     setLoading(true)
     setError(null)
     setSuccess(null)
     try {
-      const boxReference = createBoxReference(appClient.appId, 'properties', propertyId)
-
-      const result = await appClient.send.delistProperty({
-        args: { propertyId },
-        boxReferences: [boxReference],
-      })
-
-      setSuccess('Property delisted!')
+      const result = await action(appClient, activeAddress)
+      setSuccess(successMessage)
+      refresh()
       if (onTx && result.txIds && result.txIds.length > 0) {
         onTx(result.txIds[0])
       } else if (onTx) {
         onTx(undefined)
       }
     } catch (e) {
-      setError(e instanceof Error ? e.message : 'Failed to delist property')
+      setError(e instanceof Error ? e.message : fallbackError)
       if (onTx) onTx(undefined)
     } finally {
       setLoading(false)
-      setDelistingPropertyId(null)
     }
   }
 
-  return { delistProperty, loading, error, success, delistingPropertyId, setSuccess, setError }
+  /**
+   * Opt the owner in to the property asset, so shares can be sent back to them.
+   */
+  const prepareHolding = async (client: FractionalRealEstateClient, sender: string, propertyId: bigint) => {
+    const { approved } = await getKycStatus(client, sender)
+    if (!approved) throw new Error(KYC_REQUIRED_MESSAGE)
+
+    const optInTxn = await client.algorand.createTransaction.assetOptIn({
+      sender,
+      assetId: propertyId,
+    })
+    return client.newGroup().addTransaction(optInTxn)
+  }
+
+  /**
+   * Delist a property you own. All shares must still be available, and the listing's box MBR is paid back.
+   * The share asset is destroyed once every share is back in the app, returning its MBR too.
+   * @param propertyId The asset ID of the property
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const delistProperty = (propertyId: bigint, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Property delisted! Its storage deposit has been returned.',
+      'Failed to delist property',
+      async (client, sender) => {
+        const pendingOwner = await client.state.box.pendingOwners.value(propertyId).catch(() => undefined)
+        return client.send.delistProperty({
+          args: { propertyId },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createBoxReference(client.appId, 'tiers', propertyId),
+            createBoxReference(client.appId, 'pendingOwners', propertyId),
+            createAccountBoxReference(client.appId, 'owned', sender),
+          ],
+          assetReferences: [propertyId],
+          // Destroying the share asset, and the box MBR going back to the owner along with a pending transfer's MBR
+          extraFee: microAlgo(pendingOwner ? 3000 : 2000),
+        })
+      },
+      onTx,
+    )
+
+  /**
+   * Change the primary sale price of a property you own
+   * @param propertyId The asset ID of the property
+   * @param pricePerShare The new price per share in microAlgos (string)
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const updatePrice = (propertyId: bigint, pricePerShare: string, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Price updated!',
+      'Failed to update price',
+      (client) =>
+        client.send.updatePrice({
+          args: { propertyId, pricePerShare: BigInt(pricePerShare) },
+          boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
+        }),
+      onTx,
+    )
+
+  /**
+   * Take unsold shares out of the primary sale and into your wallet
+   * @param propertyId The asset ID of the property
+   * @param shares The number of shares to withdraw (string)
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const withdrawShares = (propertyId: bigint, shares: string, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Shares withdrawn!',
+      'Failed to withdraw shares',
+      async (client, sender) => {
+        // Opt in to the property asset (the lister doesn't hold any shares after listing)
+        const group = await prepareHolding(client, sender, propertyId)
+
+        return group
+          .withdrawShares({
+            sender,
+            args: { propertyId, shares: BigInt(shares) },
+            boxReferences: [
+              createBoxReference(client.appId, 'properties', propertyId),
+              createHolderBoxReference(client.appId, 'claims', propertyId, sender),
+            ],
+            assetReferences: [propertyId],
+            extraFee: microAlgo(1000),
+          })
+          .send()
+      },
+      onTx,
+    )
+
+  /**
+   * Put shares from your wallet back up for primary sale
+   * @param propertyId The asset ID of the property
+   * @param shares The number of shares to add (string)
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const topUpShares = (propertyId: bigint, shares: string, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Shares added to the sale!',
+      'Failed to top up shares',
+      async (client, sender) => {
+        return client.send.topUpShares({
+          args: { propertyId, shares: BigInt(shares) },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createHolderBoxReference(client.appId, 'claims', propertyId, sender),
+          ],
+          assetReferences: [propertyId],
+          // The share transfer into the app
+          extraFee: microAlgo(1000),
+        })
+      },
+      onTx,
+    )
+
+  /**
+   * Close the primary sale. Unsold shares are returned to you and the listing stays up for holders.
+   * @param propertyId The asset ID of the property
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const closePrimarySale = (propertyId: bigint, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Primary sale closed!',
+      'Failed to close primary sale',
+      async (client, sender) => {
+        const group = await prepareHolding(client, sender, propertyId)
+
+        return group
+          .closePrimarySale({
+            sender,
+            args: { propertyId },
+            boxReferences: [
+              createBoxReference(client.appId, 'properties', propertyId),
+              createHolderBoxReference(client.appId, 'claims', propertyId, sender),
+            ],
+            assetReferences: [propertyId],
+            extraFee: microAlgo(1000),
+          })
+          .send()
+      },
+      onTx,
+    )
+
+  /**
+   * Offer a property you own to a new owner, such as a company multisig. Nothing changes until they accept.
+   * @param propertyId The asset ID of the property
+   * @param newOwner The address to hand the listing over to
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const transferOwnership = (propertyId: bigint, newOwner: string, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Transfer proposed! The new owner needs to accept it.',
+      'Failed to transfer ownership',
+      async (client, sender) => {
+        const mbrPayment = await client.algorand.createTransaction.payment({
+          sender,
+          amount: microAlgo(PENDING_OWNER_MBR),
+          receiver: client.appAddress,
+        })
+
+        return client.send.transferOwnership({
+          args: { mbrPayment, propertyId, newOwner },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createBoxReference(client.appId, 'pendingOwners', propertyId),
+          ],
+        })
+      },
+      onTx,
+    )
+
+  /**
+   * Call off a pending ownership transfer and get its MBR back
+   * @param propertyId The asset ID of the property
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const cancelOwnershipTransfer = (propertyId: bigint, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Transfer cancelled!',
+      'Failed to cancel transfer',
+      (client) =>
+        client.send.cancelOwnershipTransfer({
+          args: { propertyId },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createBoxReference(client.appId, 'pendingOwners', propertyId),
+          ],
+          // MBR refund
+          extraFee: microAlgo(1000),
+        }),
+      onTx,
+    )
+
+  /**
+   * Accept a listing that has been offered to you. Its proceeds are paid to you from then on,
+   * and it moves from the previous owner's listing index to yours.
+   * @param propertyId The asset ID of the property
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const acceptOwnership = (propertyId: bigint, onTx?: (txId?: string) => void) =>
+    runAction(
+      'You now own this listing!',
+      'Failed to accept ownership',
+      async (client, sender) => {
+        const { ownerAddress } = await client.getPropertyInfo({ args: { propertyId } })
+        const mbrPayment = await client.algorand.createTransaction.payment({
+          sender,
+          amount: microAlgo(await getOwnerIndexMbr(client, sender)),
+          receiver: client.appAddress,
+        })
+
+        return client.send.acceptOwnership({
+          args: { mbrPayment, propertyId },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createBoxReference(client.appId, 'pendingOwners', propertyId),
+            createAccountBoxReference(client.appId, 'owned', ownerAddress),
+            createAccountBoxReference(client.appId, 'owned', sender),
+          ],
+          // MBR refund to the previous owner
+          extraFee: microAlgo(1000),
+        })
+      },
+      onTx,
+    )
+
+  return {
+    delistProperty,
+    updatePrice,
+    withdrawShares,
+    topUpShares,
+    closePrimarySale,
+    transferOwnership,
+    cancelOwnershipTransfer,
+    acceptOwnership,
+    loading,
+    error,
+    success,
+    setSuccess,
+    setError,
+  }
 }
@@ -0,0 +1,102 @@
+import { useState } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { useRefresh } from '../context/RefreshContext'
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { createBoxReference, createHolderBoxReference } from '../utils/createBoxReference'
+
+/**
+ * Custom hook for all-or-nothing raises: the owner withdraws escrowed proceeds once the
+ * funding goal has sold, and buyers hand their shares back for a refund if it didn't.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param activeAddress The address of the connected user
+ */
+export function useFundingRaise(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const { refresh } = useRefresh()
+
+  /**
+   * Run a raise action and refresh the app's data afterwards.
+   */
+  const runAction = async (
+    successMessage: string,
+    fallbackError: string,
+    action: (client: FractionalRealEstateClient, sender: string) => Promise<{ txIds: string[] }>,
+    onTx?: (txId?: string) => void,
+  ) => {
+    if (!appClient) {
+      setError('App is not ready. Please try again in a moment.')
+      return
+    }
+    if (!activeAddress) {
+      setError('Please connect your wallet to continue.')
+      return
+    }
+    setLoading(true)
+    setError(null)
+    setSuccess(null)
+    try {
+      const result = await action(appClient, activeAddress)
+      setSuccess(successMessage)
+      refresh()
+      if (onTx && result.txIds && result.txIds.length > 0) {
+        onTx(result.txIds[0])
+      } else if (onTx) {
+        onTx(undefined)
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : fallbackError)
+      if (onTx) onTx(undefined)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /**
+   * Withdraw the escrowed proceeds of a funded raise on a property you own
+   * @param propertyId The asset ID of the property
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const withdrawProceeds = (propertyId: bigint, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Proceeds withdrawn!',
+      'Failed to withdraw proceeds',
+      (client) =>
+        client.send.withdrawProceeds({
+          args: { propertyId },
+          boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
+          extraFee: microAlgo(1000),
+        }),
+      onTx,
+    )
+
+  /**
+   * Return your shares after a failed raise and get the purchase price back
+   * @param propertyId The asset ID of the property
+   * @param shares The number of shares to return
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const claimRefund = (propertyId: bigint, shares: bigint, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Refund claimed!',
+      'Failed to claim refund',
+      async (client, sender) => {
+        return client.send.claimRefund({
+          args: { propertyId, shares },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createHolderBoxReference(client.appId, 'claims', propertyId, sender),
+            // Shares still locked up are released from the lockup as they're handed back
+            createHolderBoxReference(client.appId, 'locks', propertyId, sender),
+          ],
+          assetReferences: [propertyId],
+          // The share return + the refund
+          extraFee: microAlgo(2000),
+        })
+      },
+      onTx,
+    )
+
+  return { withdrawProceeds, claimRefund, loading, error, success }
+}
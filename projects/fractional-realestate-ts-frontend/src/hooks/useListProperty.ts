@@ -1,6 +1,23 @@
 import { useState } from 'react'
 import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { useRefresh } from '../context/RefreshContext'
 import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { ALGORAND_ZERO_ADDRESS_STRING } from 'algosdk'
+import { createAccountBoxReference, createBoxReference } from '../utils/createBoxReference'
+import { getNextListingPage } from '../utils/listings'
+import { parseMetadataHash } from '../utils/metadata'
+import { getOwnerIndexMbr } from '../utils/ownerIndex'
+
+// A presale price tier as entered in the listing form. The share limit and end date are
+// optional ('' for none), but a tier needs at least one of them.
+export type PriceTierInput = {
+  pricePerShare: string
+  shareLimit: string
+  endTime: string
+}
+
+// Date picker values are local times; the contract compares unix seconds ('' becomes 0, no limit)
+const toTimestamp = (value: string) => (value ? BigInt(Math.floor(new Date(value).getTime() / 1000)) : 0n)
 
 /**
  * Custom hook to list a new property for fractional ownership.
@@ -11,15 +28,57 @@ export function useListProperty(appClient: FractionalRealEstateClient | null, ac
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
+  const { refresh } = useRefresh()
 
   /**
    * List a property on the contract
    * @param propertyAddress The address or name of the property
    * @param shares The total number of shares
-   * @param pricePerShare The price per share in microAlgos
+   * @param pricePerShare The price per share in base units of the payment currency (microAlgos for ALGO)
+   * @param fundingGoal Shares that must sell for an all-or-nothing raise, or '0' for none
+   * @param fundingRounds How many rounds the raise stays open for
+   * @param paymentAssetId The ASA the shares are priced in, or 0n for ALGO
+   * @param unitName Unit name of the share asset (up to 8 characters)
+   * @param metadataUrl ARC-3 or ARC-19 metadata URL, or '' for none
+   * @param metadataHash SHA-256 of the metadata JSON as hex, or '' for none
+   * @param metadataReserve ARC-19 reserve address encoding the metadata CID, or '' for none
+   * @param maxSharesPerAccount Most shares one account may hold from the primary sale, or '0' for no cap
+   * @param minPurchase Smallest primary sale purchase in shares, or '0' for no minimum
+   * @param lockupRounds How many rounds purchased shares stay locked up for, or '0' for none
+   * @param saleStart When the primary sale opens (date picker value), or '' to open straight away
+   * @param saleEnd When the primary sale closes (date picker value), or '' for no end
+   * @param auctionFloor Floor price for a Dutch auction that falls from pricePerShare over the sale window, or '0' for a fixed price
+   * @param priceTiers Presale prices that apply before the listing price, in order
+   * @param reservationRounds How many rounds buyers can reserve shares for before paying, or '0' for no reservations
+   * @param reservationDepositBps Deposit a reservation takes, in basis points of its price
+   * @param forfeitDeposit Whether an expired reservation's deposit goes to the lister instead of back to the buyer
+   * @param referralBps Commission paid to referring partners, in basis points of the sale proceeds, or '0' for none
    * @param onTx (optional) callback to receive the transaction ID
    */
-  const listProperty = async (propertyAddress: string, shares: string, pricePerShare: string, onTx?: (txId?: string) => void) => {
+  const listProperty = async (
+    propertyAddress: string,
+    shares: string,
+    pricePerShare: string,
+    fundingGoal: string,
+    fundingRounds: string,
+    paymentAssetId: bigint,
+    unitName: string,
+    metadataUrl: string,
+    metadataHash: string,
+    metadataReserve: string,
+    maxSharesPerAccount: string,
+    minPurchase: string,
+    lockupRounds: string,
+    saleStart: string,
+    saleEnd: string,
+    auctionFloor: string,
+    priceTiers: PriceTierInput[],
+    reservationRounds: string,
+    reservationDepositBps: string,
+    forfeitDeposit: boolean,
+    referralBps: string,
+    onTx?: (txId?: string) => void,
+  ) => {
     if (!appClient || !activeAddress) return
 
     setLoading(true)
@@ -27,25 +86,74 @@ export function useListProperty(appClient: FractionalRealEstateClient | null, ac
     setSuccess(null)
 
     try {
+      // The app opts in to the payment asset the first time a listing is priced in it
+      const needsOptIn =
+        paymentAssetId > 0n &&
+        !(await appClient.algorand.asset
+          .getAccountInformation(appClient.appAddress, paymentAssetId)
+          .then(() => true)
+          .catch(() => false))
+
       // Create an MBR payment transaction to fund the contract's box storage costs.
       // MBR formula: 2500 + 400 * (boxNameLen + boxValueLen) microAlgos.
+      // The box holds three strings, so size it from them: 18 byte name + 254 bytes fixed + string bytes.
+      // Price tiers get a box of their own: 13 byte name + 2 byte length + 24 bytes per tier.
+      // The listing is also added to the lister's owner index and the contract's listing pages.
+      // Holding an extra asset adds 100,000 microAlgos on top: the share asset the app creates,
+      // and the payment asset the first time a listing is priced in it.
+      const encoder = new TextEncoder()
+      const stringBytes = encoder.encode(propertyAddress).length + encoder.encode(unitName).length + encoder.encode(metadataUrl).length
+      const tiersMbr = priceTiers.length > 0 ? 2500 + 400 * (13 + 2 + 24 * priceTiers.length) : 0
+      const listingPage = await getNextListingPage(appClient)
+      const boxMbr = 2500 + 400 * (18 + 254 + stringBytes) + tiersMbr + (await getOwnerIndexMbr(appClient, activeAddress)) + listingPage.mbr
       const mbrPayment = await appClient.algorand.createTransaction.payment({
         sender: activeAddress,
-        amount: microAlgo(100_000), // Generous estimate to cover box MBR
+        amount: microAlgo(boxMbr + (needsOptIn ? 200_000 : 100_000)),
         receiver: appClient.appAddress,
       })
 
+      // The raise deadline is counted in rounds from now
+      const goal = BigInt(fundingGoal || '0')
+      const { lastRound } = await appClient.algorand.client.algod.status().do()
+      const fundingDeadline = goal > 0n ? lastRound + BigInt(fundingRounds) : 0n
+
       const result = await appClient.send.createPropertyListing({
         args: {
           mbrPayment,
           propertyAddress,
           shares: BigInt(shares),
           pricePerShare: BigInt(pricePerShare),
+          fundingGoal: goal,
+          fundingDeadline,
+          paymentAssetId,
+          unitName,
+          metadataUrl,
+          metadataHash: parseMetadataHash(metadataHash),
+          metadataReserve: metadataReserve || ALGORAND_ZERO_ADDRESS_STRING,
+          maxSharesPerAccount: BigInt(maxSharesPerAccount || '0'),
+          minPurchase: BigInt(minPurchase || '0'),
+          lockupRounds: BigInt(lockupRounds || '0'),
+          saleWindow: { start: toTimestamp(saleStart), end: toTimestamp(saleEnd), floorPrice: BigInt(auctionFloor || '0') },
+          priceTiers: priceTiers.map(
+            (tier) => [BigInt(tier.shareLimit || '0'), toTimestamp(tier.endTime), BigInt(tier.pricePerShare)] as [bigint, bigint, bigint],
+          ),
+          reservationPolicy: {
+            rounds: BigInt(reservationRounds || '0'),
+            depositBps: BigInt(reservationDepositBps || '0'),
+            forfeitDeposit,
+          },
+          referralBps: BigInt(referralBps || '0'),
         },
-        boxReferences: ['properties'],
-        extraFee: microAlgo(1000),
+        boxReferences: [
+          ...(priceTiers.length > 0 ? ['properties', 'tiers'] : ['properties']),
+          createAccountBoxReference(appClient.appId, 'owned', activeAddress),
+          createBoxReference(appClient.appId, 'pages', listingPage.page),
+        ],
+        // Asset creation, plus the opt-in to the payment asset
+        extraFee: microAlgo(needsOptIn ? 2000 : 1000),
       })
       setSuccess(`Property listed! Asset ID: ${result.return}`)
+      refresh()
       if (onTx && result.txIds && result.txIds.length > 0) {
         onTx(result.txIds[0])
       } else if (onTx) {
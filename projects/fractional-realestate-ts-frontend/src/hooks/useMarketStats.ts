@@ -0,0 +1,30 @@
+import { useState, useCallback } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+
+// Marketplace totals kept by the contract. Volume only counts primary sales priced in ALGO, in microAlgos.
+export type MarketStats = {
+  listingCount: bigint
+  totalSharesSold: bigint
+  totalVolume: bigint
+}
+
+/**
+ * Custom hook to fetch the marketplace totals: active listings, primary shares sold and ALGO volume.
+ * @param appClient The FractionalRealEstateClient instance
+ */
+export function useMarketStats(appClient: FractionalRealEstateClient | null) {
+  const [stats, setStats] = useState<MarketStats | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStats = useCallback(async () => {
+    if (!appClient) return
+
+    try {
+      setStats(await appClient.getMarketStats())
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch marketplace stats')
+    }
+  }, [appClient])
+
+  return { stats, error, refresh: fetchStats }
+}
@@ -1,5 +1,7 @@
 import { useState, useCallback } from 'react'
-import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { FractionalRealEstateClient, ValuationStruct } from '../contracts/FractionalRealEstate'
+import { getListingIds, getListingPageCount, getPropertiesByIds } from '../utils/listings'
+import { getLatestValuation } from '../utils/valuation'
 
 // Property type for listed properties
 export type Property = {
@@ -9,25 +11,57 @@ export type Property = {
   pricePerShare: bigint
   propertyAssetId: bigint
   ownerAddress: string
+  incomePerShare: bigint
+  undistributedIncome: bigint
+  incomeShares: bigint
+  primarySaleOpen: boolean
+  fundingGoal: bigint
+  fundingDeadline: bigint
+  sharesSold: bigint
+  escrowedFunds: bigint
+  paymentAssetId: bigint
+  unitName: string
+  metadataUrl: string
+  metadataHash: Uint8Array
+  maxSharesPerAccount: bigint
+  minPurchase: bigint
+  lockupRounds: bigint
+  saleStart: bigint
+  saleEnd: bigint
+  auctionFloor: bigint
+  reservedShares: bigint
+  reservationRounds: bigint
+  reservationDepositBps: bigint
+  forfeitDeposit: boolean
+  referralBps: bigint
 }
 
 export type OwnedProperty = {
   assetId: bigint
   sharesOwned: bigint
   property: Property
+  incomeRegistered: boolean
+  unclaimedIncome: bigint
+  // Shares still in a lockup, and the round the lockup ends in (both 0 without one)
+  lockedShares: bigint
+  unlockRound: bigint
+  // The appraiser's latest valuation of the property (its net asset value), if one has been posted
+  nav: ValuationStruct | undefined
 }
 
 /**
  * Custom hook to fetch all properties that the connected account owns shares in.
  *
- * This hook retrieves the list of all listed properties from the smart contract,
- * then fetches the asset holdings for the connected account, and filters the properties
- * to only those where the user owns at least one share (i.e., asset balance > 0).
+ * This hook fetches the asset holdings for the connected account, then pages through the
+ * contract's listing IDs and loads only the properties where the user owns at least one
+ * share (i.e., asset balance > 0).
+ * For each of those it also works out the rental income the user can currently claim,
+ * how many of the shares are locked up and the property's latest valuation.
  *
  * @param appClient The FractionalRealEstateClient instance
  * @param activeAddress The address of the connected user
  * @returns An object containing:
- *   - ownedProperties: Array of { assetId, sharesOwned, property } the user owns shares in
+ *   - ownedProperties: Array of { assetId, sharesOwned, property, incomeRegistered, unclaimedIncome, lockedShares, unlockRound, nav } the user owns shares in
  *   - loading: Whether the fetch is in progress
  *   - error: Any error message encountered
  *   - refresh: Function to refresh the owned properties list
@@ -54,10 +88,6 @@ export function useOwnedProperties(appClient: FractionalRealEstateClient | null,
     setLoading(true)
     setError(null)
     try {
-      // Fetch all listed properties from the contract
-      const listed = await appClient.state.box.listedProperties.getMap()
-      const allProperties = Array.from(listed.entries()) as [bigint, Property][]
-
       // Get account info (including asset holdings)
       const accountInfo = await appClient.algorand.account.getInformation(activeAddress)
       const assetHoldings = accountInfo.assets
@@ -68,16 +98,39 @@ export function useOwnedProperties(appClient: FractionalRealEstateClient | null,
         return
       }
 
+      // Page through the listing IDs (8 bytes each, so cheap to read in full) and only
+      // load the listings the user holds shares in
+      const listingIds = await getListingIds(appClient, 0n, await getListingPageCount(appClient))
+      const heldIds = listingIds.filter((id) => assetHoldings.some((h) => BigInt(h.assetId) === id && h.amount > 0))
+      const heldProperties = await getPropertiesByIds(appClient, heldIds)
+
       // Build a list of properties the user owns shares in
       const owned: OwnedProperty[] = []
-      for (const [assetId, property] of allProperties) {
+      for (const [assetId, property] of heldProperties) {
         const holding = assetHoldings.find((h) => BigInt(h.assetId) === assetId)
 
         if (holding && holding.amount > 0) {
+          const sharesOwned = BigInt(holding.amount)
+
+          // The claim box only exists once the user has registered for income on this property
+          const claim = await appClient.state.box.incomeClaims.value({ propertyId: assetId, holder: activeAddress }).catch(() => undefined)
+          const unclaimedIncome = claim ? claim.owed + claim.shares * (property.incomePerShare - claim.checkpoint) : 0n
+
+          // The lockup box only exists while the user has shares locked up in this property
+          const lockup = await appClient.state.box.lockups.value({ propertyId: assetId, holder: activeAddress }).catch(() => undefined)
+
+          // The valuation history box only exists once the owner has appointed an appraiser
+          const valuations = await appClient.state.box.valuations.value(assetId).catch(() => undefined)
+
           owned.push({
             assetId,
-            sharesOwned: BigInt(holding.amount),
+            sharesOwned,
             property,
+            incomeRegistered: claim !== undefined,
+            unclaimedIncome,
+            lockedShares: lockup?.lockedShares ?? 0n,
+            unlockRound: lockup?.unlockRound ?? 0n,
+            nav: getLatestValuation(valuations),
           })
         }
       }
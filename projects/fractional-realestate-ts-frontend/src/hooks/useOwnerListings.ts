@@ -0,0 +1,41 @@
+import { useState, useCallback } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { Property } from './useProperties'
+
+/**
+ * Custom hook to fetch the properties the connected account has listed or taken over.
+ *
+ * The contract keeps an index of property IDs per owner, so only those listings are loaded
+ * rather than every box.
+ *
+ * @param appClient The FractionalRealEstateClient instance
+ * @param activeAddress The address of the connected user
+ */
+export function useOwnerListings(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined) {
+  const [listings, setListings] = useState<[bigint, Property][]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchListings = useCallback(async () => {
+    if (!appClient || !activeAddress) {
+      setListings([])
+      return
+    }
+    setLoading(true)
+    setError(null)
+    try {
+      const propertyIds = await appClient.getOwnerListings({ args: { owner: activeAddress } })
+      const result: [bigint, Property][] = []
+      for (const propertyId of propertyIds) {
+        result.push([propertyId, await appClient.getPropertyInfo({ args: { propertyId } })])
+      }
+      setListings(result)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch your listings')
+    } finally {
+      setLoading(false)
+    }
+  }, [appClient, activeAddress])
+
+  return { listings, loading, error, refresh: fetchListings }
+}
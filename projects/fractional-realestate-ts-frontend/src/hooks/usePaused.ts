@@ -0,0 +1,24 @@
+import { useState, useCallback } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+
+/**
+ * Custom hook to fetch whether the admin has paused listing, buying and delisting.
+ * @param appClient The FractionalRealEstateClient instance
+ */
+export function usePaused(appClient: FractionalRealEstateClient | null) {
+  const [paused, setPaused] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Fetch the paused flag from the contract's global state
+  const fetchPaused = useCallback(async () => {
+    if (!appClient) return
+
+    try {
+      setPaused((await appClient.state.global.paused()) ?? false)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch contract status')
+    }
+  }, [appClient])
+
+  return { paused, error, refresh: fetchPaused }
+}
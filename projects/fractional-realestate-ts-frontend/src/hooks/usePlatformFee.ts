@@ -0,0 +1,24 @@
+import { useState, useCallback } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+
+/**
+ * Custom hook to fetch the platform fee (in basis points) taken from primary sales.
+ * @param appClient The FractionalRealEstateClient instance
+ */
+export function usePlatformFee(appClient: FractionalRealEstateClient | null) {
+  const [feeBps, setFeeBps] = useState<bigint>(0n)
+  const [error, setError] = useState<string | null>(null)
+
+  // Fetch the fee from the contract's global state
+  const fetchFee = useCallback(async () => {
+    if (!appClient) return
+
+    try {
+      setFeeBps((await appClient.state.global.feeBps()) ?? 0n)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch platform fee')
+    }
+  }, [appClient])
+
+  return { feeBps, error, refresh: fetchFee }
+}
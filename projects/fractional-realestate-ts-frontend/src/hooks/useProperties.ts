@@ -1,5 +1,7 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
 import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { getListingIds, getListingPageCount, getPropertiesByIds } from '../utils/listings'
+import { PriceTier, toPriceTiers } from '../utils/pricing'
 
 // Property type for listed properties
 export type Property = {
@@ -9,18 +11,71 @@ export type Property = {
   pricePerShare: bigint
   propertyAssetId: bigint
   ownerAddress: string
+  incomePerShare: bigint
+  undistributedIncome: bigint
+  incomeShares: bigint
+  primarySaleOpen: boolean
+  fundingGoal: bigint
+  fundingDeadline: bigint
+  sharesSold: bigint
+  escrowedFunds: bigint
+  paymentAssetId: bigint
+  unitName: string
+  metadataUrl: string
+  metadataHash: Uint8Array
+  maxSharesPerAccount: bigint
+  minPurchase: bigint
+  lockupRounds: bigint
+  saleStart: bigint
+  saleEnd: bigint
+  auctionFloor: bigint
+  reservedShares: bigint
+  reservationRounds: bigint
+  reservationDepositBps: bigint
+  forfeitDeposit: boolean
+  referralBps: bigint
 }
 
 /**
- * Custom hook to fetch all listed properties from the smart contract.
+ * Custom hook to fetch listed properties from the smart contract, a page at a time.
+ * The first page loads on refresh, and loadMore appends the next one.
  * @param appClient The FractionalRealEstateClient instance
  */
 export function useProperties(appClient: FractionalRealEstateClient | null) {
   const [properties, setProperties] = useState<[bigint, Property][]>([])
+  // Latest round, for funding deadlines
+  const [currentRound, setCurrentRound] = useState<bigint>(0n)
+  // Presale price tiers, by property ID, for listings that have them
+  const [priceTiers, setPriceTiers] = useState<Record<string, PriceTier[]>>({})
+  // Accounts that listings are being handed over to, by property ID
+  const [pendingOwners, setPendingOwners] = useState<Record<string, string>>({})
+  const [hasMore, setHasMore] = useState(false)
   const [loading, setLoading] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Pages loaded so far. A ref, so refreshing after a transaction keeps what's been scrolled to
+  const pagesLoaded = useRef(1n)
 
-  // Fetch properties from the contract
+  /**
+   * Load the listings on the given pages, along with their price tiers and pending owners.
+   */
+  const loadPages = useCallback(async (client: FractionalRealEstateClient, fromPage: bigint, toPage: bigint) => {
+    const pageCount = await getListingPageCount(client)
+    const listed = await getPropertiesByIds(client, await getListingIds(client, fromPage, toPage < pageCount ? toPage : pageCount))
+    setHasMore(toPage < pageCount)
+
+    const tiers: Record<string, PriceTier[]> = {}
+    const transfers: Record<string, string> = {}
+    for (const [propertyId] of listed) {
+      const list = await client.state.box.priceTiers.value(propertyId).catch(() => undefined)
+      if (list) tiers[propertyId.toString()] = toPriceTiers(list)
+      const pendingOwner = await client.state.box.pendingOwners.value(propertyId).catch(() => undefined)
+      if (pendingOwner) transfers[propertyId.toString()] = pendingOwner
+    }
+    return { listed, tiers, transfers }
+  }, [])
+
+  // Fetch the pages loaded so far from the contract
   const fetchProperties = useCallback(async () => {
     if (!appClient) return
 
@@ -28,14 +83,48 @@ export function useProperties(appClient: FractionalRealEstateClient | null) {
     setError(null)
 
     try {
-      const listed = await appClient.state.box.listedProperties.getMap()
-      setProperties(Array.from(listed.entries()) as [bigint, Property][])
+      const status = await appClient.algorand.client.algod.status().do()
+      setCurrentRound(status.lastRound)
+
+      const { listed, tiers, transfers } = await loadPages(appClient, 0n, pagesLoaded.current)
+      setProperties(listed)
+      setPriceTiers(tiers)
+      setPendingOwners(transfers)
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to fetch properties')
     } finally {
       setLoading(false)
     }
-  }, [appClient])
+  }, [appClient, loadPages])
+
+  // Append the next page of listings
+  const loadMore = useCallback(async () => {
+    if (!appClient || !hasMore || loadingMore) return
+
+    setLoadingMore(true)
+    try {
+      const { listed, tiers, transfers } = await loadPages(appClient, pagesLoaded.current, pagesLoaded.current + 1n)
+      pagesLoaded.current += 1n
+      setProperties((current) => [...current, ...listed])
+      setPriceTiers((current) => ({ ...current, ...tiers }))
+      setPendingOwners((current) => ({ ...current, ...transfers }))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch properties')
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [appClient, hasMore, loadingMore, loadPages])
 
-  return { properties, loading, error, refresh: fetchProperties }
+  return {
+    properties,
+    priceTiers,
+    pendingOwners,
+    currentRound,
+    hasMore,
+    loading,
+    loadingMore,
+    error,
+    refresh: fetchProperties,
+    loadMore,
+  }
 }
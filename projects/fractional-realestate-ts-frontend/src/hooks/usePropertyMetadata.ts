@@ -0,0 +1,57 @@
+import { useState, useCallback } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { getIpfsGatewayFromViteEnvironment } from '../utils/getAlgorandConfigs'
+import { PropertyMetadata, resolveMetadataUrl, verifyMetadataHash } from '../utils/metadata'
+
+// Metadata fetched for a property, plus whether it matched the hash on the asset (undefined if no hash was set)
+export type LoadedMetadata = {
+  metadata: PropertyMetadata
+  imageUrl?: string
+  verified?: boolean
+}
+
+/**
+ * Custom hook to fetch the ARC-3 / ARC-19 metadata JSON of each listed property through the
+ * IPFS gateway configured in VITE_IPFS_GATEWAY.
+ * @param appClient The FractionalRealEstateClient instance
+ */
+export function usePropertyMetadata(appClient: FractionalRealEstateClient | null) {
+  // Keyed by property ID; properties without metadata (or whose fetch failed) are left out
+  const [metadata, setMetadata] = useState<Record<string, LoadedMetadata>>({})
+
+  const fetchMetadata = useCallback(
+    async (properties: [bigint, { metadataUrl: string; metadataHash: Uint8Array }][]) => {
+      if (!appClient) return
+
+      const gateway = getIpfsGatewayFromViteEnvironment()
+      const result: Record<string, LoadedMetadata> = {}
+      for (const [propertyId, property] of properties) {
+        if (!property.metadataUrl) continue
+        try {
+          // ARC-19 URLs are completed by the reserve address on the share asset
+          const reserve = property.metadataUrl.startsWith('template-ipfs://')
+            ? (await appClient.algorand.asset.getById(propertyId)).reserve
+            : undefined
+          const url = resolveMetadataUrl(property.metadataUrl, gateway, reserve)
+          if (!url) continue
+
+          const response = await fetch(url)
+          if (!response.ok) continue
+          const body = await response.arrayBuffer()
+          const parsed = JSON.parse(new TextDecoder().decode(body)) as PropertyMetadata
+          result[propertyId.toString()] = {
+            metadata: parsed,
+            imageUrl: parsed.image ? resolveMetadataUrl(parsed.image, gateway) : undefined,
+            verified: await verifyMetadataHash(body, property.metadataHash),
+          }
+        } catch {
+          // Metadata is decorative, so a gateway or parse failure just leaves the card without it
+        }
+      }
+      setMetadata(result)
+    },
+    [appClient],
+  )
+
+  return { metadata, refresh: fetchMetadata }
+}
@@ -0,0 +1,177 @@
+import { useState } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { useRefresh } from '../context/RefreshContext'
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { createBoxReference, createHolderBoxReference } from '../utils/createBoxReference'
+import { Proposal, PROPOSAL_OPEN } from './useProposals'
+
+// MBR for a vote box: 2500 + 400 * (45 byte name + 9 byte value) microAlgos.
+// Refunded with the locked shares when the vote is withdrawn.
+const VOTE_MBR = 24_100
+
+/**
+ * Custom hook for taking part in property governance: shareholders propose, vote with their
+ * shares, finalize results and withdraw their locked shares.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param activeAddress The address of the connected user
+ */
+export function useProposalActions(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const { refresh } = useRefresh()
+
+  /**
+   * Run a governance action and refresh the app's data afterwards.
+   */
+  const runAction = async (
+    successMessage: string,
+    fallbackError: string,
+    action: (client: FractionalRealEstateClient, sender: string) => Promise<{ txIds: string[] }>,
+    onTx?: (txId?: string) => void,
+  ) => {
+    if (!appClient) {
+      setError('App is not ready. Please try again in a moment.')
+      return
+    }
+    if (!activeAddress) {
+      setError('Please connect your wallet to take part in governance.')
+      return
+    }
+    setLoading(true)
+    setError(null)
+    setSuccess(null)
+    try {
+      const result = await action(appClient, activeAddress)
+      setSuccess(successMessage)
+      refresh()
+      if (onTx && result.txIds && result.txIds.length > 0) {
+        onTx(result.txIds[0])
+      } else if (onTx) {
+        onTx(undefined)
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : fallbackError)
+      if (onTx) onTx(undefined)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /**
+   * Open a proposal on a property you hold shares in
+   * @param propertyId The asset ID of the property
+   * @param description What is being proposed
+   * @param votingRounds How many rounds voting stays open for (string)
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const createProposal = (propertyId: bigint, description: string, votingRounds: string, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Proposal created!',
+      'Failed to create proposal',
+      async (client, sender) => {
+        // The new proposal's box key is the contract's next proposal ID
+        const proposalId = (await client.state.global.nextProposalId()) ?? 1n
+        const { lastRound } = await client.algorand.client.algod.status().do()
+
+        // MBR: 2500 + 400 * (17 byte name + 85 byte fixed value + description bytes) microAlgos
+        const descriptionBytes = new TextEncoder().encode(description).length
+        const mbrPayment = await client.algorand.createTransaction.payment({
+          sender,
+          amount: microAlgo(2500 + 400 * (17 + 85 + descriptionBytes)),
+          receiver: client.appAddress,
+        })
+
+        return client.send.createProposal({
+          args: { mbrPayment, propertyId, description, deadlineRound: lastRound + BigInt(votingRounds) },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createBoxReference(client.appId, 'proposals', proposalId),
+          ],
+          assetReferences: [propertyId],
+        })
+      },
+      onTx,
+    )
+
+  /**
+   * Vote on a proposal. The shares are locked in the app until voting closes.
+   * @param proposal The proposal to vote on
+   * @param shares The number of shares to vote with (string)
+   * @param support Whether to vote in favour
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const castVote = (proposal: Proposal, shares: string, support: boolean, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Vote cast!',
+      'Failed to cast vote',
+      async (client, sender) => {
+        const mbrPayment = await client.algorand.createTransaction.payment({
+          sender,
+          amount: microAlgo(VOTE_MBR),
+          receiver: client.appAddress,
+        })
+
+        return client.send.castVote({
+          args: { mbrPayment, proposalId: proposal.proposalId, shares: BigInt(shares), support },
+          boxReferences: [
+            createBoxReference(client.appId, 'proposals', proposal.proposalId),
+            createBoxReference(client.appId, 'properties', proposal.propertyId),
+            createHolderBoxReference(client.appId, 'votes', proposal.proposalId, sender),
+            createHolderBoxReference(client.appId, 'claims', proposal.propertyId, sender),
+          ],
+          assetReferences: [proposal.propertyId],
+          // The share transfer into the app
+          extraFee: microAlgo(1000),
+        })
+      },
+      onTx,
+    )
+
+  /**
+   * Record the outcome of a proposal after voting has closed. A proposal nobody has shares locked in
+   * is deleted, and its MBR goes back to the proposer.
+   * @param proposal The proposal to finalize
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const finalizeProposal = (proposal: Proposal, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Proposal finalized!',
+      'Failed to finalize proposal',
+      (client) =>
+        client.send.finalizeProposal({
+          args: { proposalId: proposal.proposalId },
+          boxReferences: [createBoxReference(client.appId, 'proposals', proposal.proposalId)],
+          // The proposer's MBR refund when no shares are locked in the proposal
+          extraFee: microAlgo(proposal.lockedShares === 0n ? 1000 : 0),
+        }),
+      onTx,
+    )
+
+  /**
+   * Get your locked shares and the vote MBR back after voting has closed. The last vote withdrawn
+   * from a finalized proposal deletes it and returns its MBR to the proposer.
+   * @param proposal The proposal you voted on
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const withdrawVote = (proposal: Proposal, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Shares unlocked!',
+      'Failed to withdraw vote',
+      (client, sender) =>
+        client.send.withdrawVote({
+          args: { proposalId: proposal.proposalId },
+          boxReferences: [
+            createBoxReference(client.appId, 'proposals', proposal.proposalId),
+            createHolderBoxReference(client.appId, 'votes', proposal.proposalId, sender),
+            createHolderBoxReference(client.appId, 'claims', proposal.propertyId, sender),
+          ],
+          assetReferences: [proposal.propertyId],
+          // Share transfer + MBR refund, plus the proposer's MBR refund after the last vote
+          extraFee: microAlgo(proposal.status !== PROPOSAL_OPEN && proposal.lockedShares === proposal.myVote?.shares ? 3000 : 2000),
+        }),
+      onTx,
+    )
+
+  return { createProposal, castVote, finalizeProposal, withdrawVote, loading, error, success }
+}
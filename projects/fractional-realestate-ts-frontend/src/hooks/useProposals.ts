@@ -0,0 +1,53 @@
+import { useState, useCallback } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+
+// Proposal status values stored by the contract
+export const PROPOSAL_OPEN = 0
+export const PROPOSAL_PASSED = 1
+export const PROPOSAL_REJECTED = 2
+
+// Governance proposal on a property, plus the connected user's vote on it (if any)
+export type Proposal = {
+  proposalId: bigint
+  propertyId: bigint
+  proposer: string
+  description: string
+  deadlineRound: bigint
+  quorumShares: bigint
+  votesFor: bigint
+  votesAgainst: bigint
+  lockedShares: bigint
+  status: number
+  myVote?: { shares: bigint; support: boolean }
+}
+
+/**
+ * Custom hook for property governance: loads every proposal and the connected user's vote on it.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param activeAddress The address of the connected user
+ */
+export function useProposals(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined) {
+  const [proposals, setProposals] = useState<Proposal[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  // Fetch all proposals and the connected user's votes
+  const fetchProposals = useCallback(async () => {
+    if (!appClient) return
+
+    try {
+      const listed = await appClient.state.box.proposals.getMap()
+      const result: Proposal[] = []
+      for (const [proposalId, proposal] of listed.entries()) {
+        const vote = activeAddress
+          ? await appClient.state.box.votes.value({ proposalId, voter: activeAddress }).catch(() => undefined)
+          : undefined
+        result.push({ proposalId, ...proposal, status: Number(proposal.status), myVote: vote })
+      }
+      setProposals(result)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch proposals')
+    }
+  }, [appClient, activeAddress])
+
+  return { proposals, error, refresh: fetchProposals }
+}
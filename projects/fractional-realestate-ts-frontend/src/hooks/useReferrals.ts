@@ -0,0 +1,100 @@
+import { useState, useCallback } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { createAccountAssetBoxReference } from '../utils/createBoxReference'
+import { Currency } from '../utils/currency'
+
+// What a partner has earned in one currency from referral commissions
+export type ReferralEarnings = {
+  currency: Currency
+  // Commissions are only paid in currencies the partner has registered for
+  registered: boolean
+  earned: bigint
+}
+
+// MBR for a partner's earnings box: 2500 + 400 * (49 byte name + 8 byte value) microAlgos
+const REFERRAL_MBR = 25_300
+
+/**
+ * Custom hook for referral partners: loads what the connected account has earned in each currency
+ * and registers it to be paid commissions in a currency.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param activeAddress The address of the connected user
+ * @param currencies The currencies listings are priced in
+ */
+export function useReferrals(
+  appClient: FractionalRealEstateClient | null,
+  activeAddress: string | null | undefined,
+  currencies: Currency[],
+) {
+  const [earnings, setEarnings] = useState<ReferralEarnings[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Fetch the connected account's earnings box for each currency
+  const fetchEarnings = useCallback(async () => {
+    if (!appClient || !activeAddress) {
+      setEarnings([])
+      return
+    }
+
+    try {
+      const result: ReferralEarnings[] = []
+      for (const currency of currencies) {
+        const earned = await appClient.state.box.referralEarnings
+          .value({ referrer: activeAddress, paymentAssetId: currency.assetId })
+          .catch(() => undefined)
+        result.push({ currency, registered: earned !== undefined, earned: earned ?? 0n })
+      }
+      setEarnings(result)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch referral earnings')
+    }
+  }, [appClient, activeAddress, currencies])
+
+  /**
+   * Register the connected account to be paid referral commissions in a currency
+   * @param paymentAssetId The ASA to be paid in, or 0n for ALGO. The account must be opted in to it.
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const registerReferrer = async (paymentAssetId: bigint, onTx?: (txId?: string) => void) => {
+    if (!appClient) {
+      setError('App is not ready. Please try again in a moment.')
+      return
+    }
+    if (!activeAddress) {
+      setError('Please connect your wallet to become a partner.')
+      return
+    }
+    setLoading(true)
+    setError(null)
+    setSuccess(null)
+    try {
+      const mbrPayment = await appClient.algorand.createTransaction.payment({
+        sender: activeAddress,
+        amount: microAlgo(REFERRAL_MBR),
+        receiver: appClient.appAddress,
+      })
+      const result = await appClient.send.registerReferrer({
+        args: { mbrPayment, paymentAssetId },
+        boxReferences: [createAccountAssetBoxReference(appClient.appId, 'referrals', activeAddress, paymentAssetId)],
+        assetReferences: paymentAssetId > 0n ? [paymentAssetId] : [],
+      })
+      setSuccess('Registered for referral commissions!')
+      if (onTx && result.txIds && result.txIds.length > 0) {
+        onTx(result.txIds[0])
+      } else if (onTx) {
+        onTx(undefined)
+      }
+      await fetchEarnings()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to register for referral commissions')
+      if (onTx) onTx(undefined)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return { earnings, registerReferrer, loading, error, success, refresh: fetchEarnings }
+}
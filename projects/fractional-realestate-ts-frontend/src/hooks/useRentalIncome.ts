@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { useRefresh } from '../context/RefreshContext'
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { createBoxReference, createHolderBoxReference } from '../utils/createBoxReference'
+
+// MBR for a holder's income claim box: 2500 + 400 * (46 byte name + 24 byte value) microAlgos
+const INCOME_CLAIM_MBR = 30_500
+
+/**
+ * Custom hook for rental income: the owner deposits income against a property and
+ * registered holders claim their pro-rata share, or unregister to be paid out and stop earning.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param activeAddress The address of the connected user
+ */
+export function useRentalIncome(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const { refresh } = useRefresh()
+
+  /**
+   * Run an income action and refresh the app's data afterwards.
+   */
+  const runAction = async (
+    successMessage: string,
+    fallbackError: string,
+    action: (client: FractionalRealEstateClient, sender: string) => Promise<{ txIds: string[] }>,
+    onTx?: (txId?: string) => void,
+  ) => {
+    if (!appClient) {
+      setError('App is not ready. Please try again in a moment.')
+      return
+    }
+    if (!activeAddress) {
+      setError('Please connect your wallet to manage income.')
+      return
+    }
+    setLoading(true)
+    setError(null)
+    setSuccess(null)
+    try {
+      const result = await action(appClient, activeAddress)
+      setSuccess(successMessage)
+      refresh()
+      if (onTx && result.txIds && result.txIds.length > 0) {
+        onTx(result.txIds[0])
+      } else if (onTx) {
+        onTx(undefined)
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : fallbackError)
+      if (onTx) onTx(undefined)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /**
+   * Deposit rental income for a property you own
+   * @param propertyId The asset ID of the property
+   * @param amount The income to distribute in microAlgos (string)
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const depositIncome = (propertyId: bigint, amount: string, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Income deposited!',
+      'Failed to deposit income',
+      async (client, sender) => {
+        const payment = await client.algorand.createTransaction.payment({
+          sender,
+          amount: microAlgo(BigInt(amount)),
+          receiver: client.appAddress,
+        })
+
+        return client.send.depositIncome({
+          args: { propertyId, payment },
+          boxReferences: [createBoxReference(client.appId, 'properties', propertyId)],
+        })
+      },
+      onTx,
+    )
+
+  /**
+   * Register to earn income on the shares you hold in a property. Income deposited before
+   * registering is not claimable.
+   * @param propertyId The asset ID of the property
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const registerForIncome = (propertyId: bigint, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Registered for income!',
+      'Failed to register for income',
+      async (client, sender) => {
+        const mbrPayment = await client.algorand.createTransaction.payment({
+          sender,
+          amount: microAlgo(INCOME_CLAIM_MBR),
+          receiver: client.appAddress,
+        })
+
+        return client.send.registerForIncome({
+          args: { mbrPayment, propertyId },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createHolderBoxReference(client.appId, 'claims', propertyId, sender),
+          ],
+          assetReferences: [propertyId],
+        })
+      },
+      onTx,
+    )
+
+  /**
+   * Claim the income owed to you on a property
+   * @param propertyId The asset ID of the property
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const claimIncome = (propertyId: bigint, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Income claimed!',
+      'Failed to claim income',
+      (client, sender) =>
+        client.send.claimIncome({
+          args: { propertyId },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createHolderBoxReference(client.appId, 'claims', propertyId, sender),
+          ],
+          assetReferences: [propertyId],
+          extraFee: microAlgo(1000),
+        }),
+      onTx,
+    )
+
+  /**
+   * Stop earning income on a property: pays out the income owed to you and refunds the claim box MBR
+   * @param propertyId The asset ID of the property
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const unregisterForIncome = (propertyId: bigint, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Stopped earning income.',
+      'Failed to stop earning income',
+      (client, sender) =>
+        client.send.unregisterForIncome({
+          args: { propertyId },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createHolderBoxReference(client.appId, 'claims', propertyId, sender),
+          ],
+          assetReferences: [propertyId],
+          // The payout
+          extraFee: microAlgo(1000),
+        }),
+      onTx,
+    )
+
+  return { depositIncome, registerForIncome, claimIncome, unregisterForIncome, loading, error, success }
+}
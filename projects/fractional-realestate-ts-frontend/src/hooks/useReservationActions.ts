@@ -0,0 +1,235 @@
+import { useState } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { useRefresh } from '../context/RefreshContext'
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { createAccountBoxReference, createBoxReference, createHolderBoxReference } from '../utils/createBoxReference'
+import { getKycStatus, KYC_REQUIRED_MESSAGE } from '../utils/kyc'
+import { LOCKUP_MBR } from './useBuyShares'
+import { Property } from './useProperties'
+import { Reservation } from './useReservations'
+
+// MBR for a reservation box: 2500 + 400 * (52 byte name + 32 byte value) microAlgos.
+// Refunded to the buyer when the reservation is completed or expires.
+const RESERVATION_MBR = 36_100
+
+/**
+ * Custom hook for acting on share reservations: a buyer reserves shares on a deposit and pays the
+ * rest to receive them, and anyone can release a reservation that has expired.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param activeAddress The address of the connected user
+ */
+export function useReservationActions(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const { refresh } = useRefresh()
+
+  /**
+   * Run a reservation action and refresh the app's data afterwards.
+   */
+  const runAction = async (
+    successMessage: string,
+    fallbackError: string,
+    action: (client: FractionalRealEstateClient, sender: string) => Promise<{ txIds: string[] }>,
+    onTx?: (txId?: string) => void,
+  ) => {
+    if (!appClient) {
+      setError('App is not ready. Please try again in a moment.')
+      return
+    }
+    if (!activeAddress) {
+      setError('Please connect your wallet to reserve shares.')
+      return
+    }
+    setLoading(true)
+    setError(null)
+    setSuccess(null)
+    try {
+      const result = await action(appClient, activeAddress)
+      setSuccess(successMessage)
+      refresh()
+      if (onTx && result.txIds && result.txIds.length > 0) {
+        onTx(result.txIds[0])
+      } else if (onTx) {
+        onTx(undefined)
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : fallbackError)
+      if (onTx) onTx(undefined)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /**
+   * Reserve primary shares at today's price, paying a deposit now and the rest before the reservation expires.
+   * @param property The property to reserve shares of
+   * @param shares The number of shares to reserve (string)
+   * @param deposit The deposit in base units of the payment currency: at least the listing's rate, up to the full price
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const reserveShares = (property: Property, shares: string, deposit: bigint, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Shares reserved!',
+      'Failed to reserve shares',
+      async (client, sender) => {
+        // Check the allowlist up front, so an unapproved buyer gets a reason rather than a rejected transaction
+        const { approved } = await getKycStatus(client, sender)
+        if (!approved) throw new Error(KYC_REQUIRED_MESSAGE)
+
+        const propertyId = property.propertyAssetId
+        const mbrPayment = await client.algorand.createTransaction.payment({
+          sender,
+          amount: microAlgo(RESERVATION_MBR),
+          receiver: client.appAddress,
+        })
+        const params = {
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createHolderBoxReference(client.appId, 'reservations', propertyId, sender),
+            createAccountBoxReference(client.appId, 'kyc', sender),
+            createBoxReference(client.appId, 'tiers', propertyId),
+          ],
+          assetReferences: [propertyId],
+        }
+
+        if (property.paymentAssetId > 0n) {
+          const depositTxn = await client.algorand.createTransaction.assetTransfer({
+            sender,
+            assetId: property.paymentAssetId,
+            amount: deposit,
+            receiver: client.appAddress,
+          })
+          return client.send.reserveSharesWithAsset({
+            ...params,
+            args: { mbrPayment, propertyId, shares: BigInt(shares), deposit: depositTxn },
+          })
+        }
+        const depositTxn = await client.algorand.createTransaction.payment({
+          sender,
+          amount: microAlgo(deposit),
+          receiver: client.appAddress,
+        })
+        return client.send.reserveShares({
+          ...params,
+          args: { mbrPayment, propertyId, shares: BigInt(shares), deposit: depositTxn },
+        })
+      },
+      onTx,
+    )
+
+  /**
+   * Pay the rest of a reservation and receive the shares. As with a purchase, the buyer opts in to the
+   * share asset and registers their lockup, if the listing has one, in the same group.
+   * @param reservation The connected user's reservation
+   * @param property The reserved property
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const completeReservation = (reservation: Reservation, property: Property, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Reservation completed! The shares are yours.',
+      'Failed to complete reservation',
+      async (client, sender) => {
+        const propertyId = reservation.propertyId
+        const { approved } = await getKycStatus(client, sender)
+        if (!approved) throw new Error(KYC_REQUIRED_MESSAGE)
+        const boxReference = createBoxReference(client.appId, 'properties', propertyId)
+        const kycBoxReference = createAccountBoxReference(client.appId, 'kyc', sender)
+        const lockBoxReference = createHolderBoxReference(client.appId, 'locks', propertyId, sender)
+
+        const group = client.newGroup().addTransaction(
+          await client.algorand.createTransaction.assetOptIn({
+            sender,
+            assetId: propertyId,
+          }),
+        )
+        if (property.lockupRounds > 0n) {
+          const registered = await client.state.box.lockups
+            .value({ propertyId, holder: sender })
+            .then((lockup) => lockup !== undefined)
+            .catch(() => false)
+          if (!registered) {
+            const mbrPayment = await client.algorand.createTransaction.payment({
+              sender,
+              amount: microAlgo(LOCKUP_MBR),
+              receiver: client.appAddress,
+            })
+            group.registerLockup({
+              sender,
+              args: { mbrPayment, propertyId },
+              boxReferences: [boxReference, lockBoxReference],
+            })
+          }
+        }
+
+        const remaining = reservation.cost - reservation.deposit
+        const params = {
+          sender,
+          boxReferences: [
+            boxReference,
+            createHolderBoxReference(client.appId, 'reservations', propertyId, sender),
+            createHolderBoxReference(client.appId, 'claims', propertyId, sender),
+            kycBoxReference,
+            lockBoxReference,
+          ],
+          accountReferences: [property.ownerAddress],
+          // Share transfer + owner payment + MBR refund, plus the treasury's cut when a platform fee is set
+          extraFee: microAlgo(4000),
+        }
+        if (property.paymentAssetId > 0n) {
+          const payment = await client.algorand.createTransaction.assetTransfer({
+            sender,
+            assetId: property.paymentAssetId,
+            amount: remaining,
+            receiver: client.appAddress,
+          })
+          group.completeReservationWithAsset({
+            ...params,
+            args: { propertyId, payment },
+            assetReferences: [propertyId, property.paymentAssetId],
+          })
+        } else {
+          const payment = await client.algorand.createTransaction.payment({
+            sender,
+            amount: microAlgo(remaining),
+            receiver: client.appAddress,
+          })
+          group.completeReservation({
+            ...params,
+            args: { propertyId, payment },
+            assetReferences: [propertyId],
+          })
+        }
+        return group.send()
+      },
+      onTx,
+    )
+
+  /**
+   * Release a reservation that has expired, putting its shares back on sale. The deposit goes to the
+   * owner or back to the buyer depending on the listing, and the buyer gets the box MBR back.
+   * @param reservation The expired reservation
+   * @param property The reserved property
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const expireReservation = (reservation: Reservation, property: Property, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Reservation released.',
+      'Failed to release reservation',
+      (client) =>
+        client.send.expireReservation({
+          args: { propertyId: reservation.propertyId, holder: reservation.holder },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', reservation.propertyId),
+            createHolderBoxReference(client.appId, 'reservations', reservation.propertyId, reservation.holder),
+          ],
+          accountReferences: [reservation.holder, property.ownerAddress],
+          assetReferences: property.paymentAssetId > 0n ? [property.paymentAssetId] : [],
+          // Deposit payout + MBR refund
+          extraFee: microAlgo(reservation.deposit > 0n ? 2000 : 1000),
+        }),
+      onTx,
+    )
+
+  return { reserveShares, completeReservation, expireReservation, loading, error, success }
+}
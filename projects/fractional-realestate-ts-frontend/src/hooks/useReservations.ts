@@ -0,0 +1,55 @@
+import { useState, useCallback } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { Address } from 'algosdk'
+import { createBoxReference } from '../utils/createBoxReference'
+
+// Primary shares held back for a buyer until they pay the rest of the reserved price
+export type Reservation = {
+  propertyId: bigint
+  holder: string
+  shares: bigint
+  cost: bigint
+  deposit: bigint
+  expiresRound: bigint
+}
+
+/**
+ * Custom hook for share reservations: loads the open reservations on each listing shown.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param propertyIds IDs of the listings paged in so far
+ */
+export function useReservations(appClient: FractionalRealEstateClient | null, propertyIds: bigint[]) {
+  const [reservations, setReservations] = useState<Reservation[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  // Join the IDs into a string so a new properties array with the same listings doesn't refetch
+  const propertyIdsKey = propertyIds.join(',')
+
+  // Fetch the open reservations on each listing
+  const fetchReservations = useCallback(async () => {
+    if (!appClient) return
+
+    try {
+      // Reservation boxes are named 'reservations' + uint64(propertyId) + the holder's public key,
+      // so the names say which holders to load for each listing
+      const boxNames = await appClient.appClient.getBoxNames()
+      const result: Reservation[] = []
+      for (const propertyId of propertyIdsKey ? propertyIdsKey.split(',').map(BigInt) : []) {
+        const { name: prefix } = createBoxReference(appClient.appId, 'reservations', propertyId)
+        const holders = boxNames
+          .map(({ nameRaw }) => nameRaw)
+          .filter((name) => name.length === prefix.length + 32 && prefix.every((byte, index) => name[index] === byte))
+          .map((name) => new Address(name.slice(prefix.length)).toString())
+        for (const holder of holders) {
+          const reservation = await appClient.state.box.reservations.value({ propertyId, holder }).catch(() => undefined)
+          if (reservation) result.push({ propertyId, holder, ...reservation })
+        }
+      }
+      setReservations(result)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch reservations')
+    }
+  }, [appClient, propertyIdsKey])
+
+  return { reservations, error, refresh: fetchReservations }
+}
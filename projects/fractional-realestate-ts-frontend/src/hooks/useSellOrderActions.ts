@@ -0,0 +1,162 @@
+import { useState } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { useRefresh } from '../context/RefreshContext'
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { createAccountBoxReference, createBoxReference } from '../utils/createBoxReference'
+import { getKycStatus, KYC_REQUIRED_MESSAGE } from '../utils/kyc'
+import { SellOrder } from './useSellOrders'
+
+// MBR for an order box: 2500 + 400 * (14 byte name + 56 byte value) microAlgos.
+// Refunded to the seller when the order is filled or cancelled.
+const SELL_ORDER_MBR = 30_500
+
+/**
+ * Custom hook for trading on the secondary market: holders post and cancel resale orders,
+ * and buyers fill them.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param activeAddress The address of the connected user
+ */
+export function useSellOrderActions(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const { refresh } = useRefresh()
+
+  /**
+   * Run a sell order action and refresh the app's data afterwards.
+   */
+  const runAction = async (
+    successMessage: string,
+    fallbackError: string,
+    action: (client: FractionalRealEstateClient, sender: string) => Promise<{ txIds: string[] }>,
+    onTx?: (txId?: string) => void,
+  ) => {
+    if (!appClient) {
+      setError('App is not ready. Please try again in a moment.')
+      return
+    }
+    if (!activeAddress) {
+      setError('Please connect your wallet to trade shares.')
+      return
+    }
+    setLoading(true)
+    setError(null)
+    setSuccess(null)
+    try {
+      const result = await action(appClient, activeAddress)
+      setSuccess(successMessage)
+      refresh()
+      if (onTx && result.txIds && result.txIds.length > 0) {
+        onTx(result.txIds[0])
+      } else if (onTx) {
+        onTx(undefined)
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : fallbackError)
+      if (onTx) onTx(undefined)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /**
+   * Post a sell order, escrowing the shares in the app account
+   * @param propertyId The asset ID of the property
+   * @param shares The number of shares to sell (string)
+   * @param pricePerShare The asking price per share in microAlgos (string)
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const createSellOrder = (propertyId: bigint, shares: string, pricePerShare: string, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Sell order posted!',
+      'Failed to post sell order',
+      async (client, sender) => {
+        // The new order's box key is the contract's next order ID
+        const orderId = (await client.state.global.nextOrderId()) ?? 1n
+
+        const mbrPayment = await client.algorand.createTransaction.payment({
+          sender,
+          amount: microAlgo(SELL_ORDER_MBR),
+          receiver: client.appAddress,
+        })
+
+        return client.send.createSellOrder({
+          args: { mbrPayment, propertyId, shares: BigInt(shares), pricePerShare: BigInt(pricePerShare) },
+          boxReferences: [createBoxReference(client.appId, 'properties', propertyId), createBoxReference(client.appId, 'orders', orderId)],
+          assetReferences: [propertyId],
+          // The share transfer into escrow
+          extraFee: microAlgo(1000),
+        })
+      },
+      onTx,
+    )
+
+  /**
+   * Cancel one of your sell orders and get the escrowed shares back
+   * @param order The order to cancel
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const cancelSellOrder = (order: SellOrder, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Sell order cancelled!',
+      'Failed to cancel sell order',
+      (client) =>
+        client.send.cancelSellOrder({
+          args: { orderId: order.orderId },
+          boxReferences: [createBoxReference(client.appId, 'orders', order.orderId)],
+          assetReferences: [order.propertyId],
+          extraFee: microAlgo(2000),
+        }),
+      onTx,
+    )
+
+  /**
+   * Buy shares out of a sell order
+   * @param order The order to fill
+   * @param buyAmount The number of shares to buy (string)
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const fillSellOrder = (order: SellOrder, buyAmount: string, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Shares purchased!',
+      'Failed to fill sell order',
+      async (client, sender) => {
+        const sharesToBuy = BigInt(buyAmount)
+        const { approved } = await getKycStatus(client, sender)
+        if (!approved) throw new Error(KYC_REQUIRED_MESSAGE)
+
+        // Opt-in to the property asset (the buyer may not hold any shares yet)
+        const optInTxn = await client.algorand.createTransaction.assetOptIn({
+          sender,
+          assetId: order.propertyId,
+        })
+
+        // Payment is forwarded to the seller by the contract
+        const paymentTxn = await client.algorand.createTransaction.payment({
+          sender,
+          amount: microAlgo(sharesToBuy * order.pricePerShare),
+          receiver: client.appAddress,
+        })
+
+        return client
+          .newGroup()
+          .addTransaction(optInTxn)
+          .fillSellOrder({
+            sender,
+            args: { orderId: order.orderId, shares: sharesToBuy, payment: paymentTxn },
+            boxReferences: [
+              createBoxReference(client.appId, 'orders', order.orderId),
+              createAccountBoxReference(client.appId, 'kyc', sender),
+            ],
+            accountReferences: [order.seller],
+            assetReferences: [order.propertyId],
+            // Asset transfer + seller payment, plus the MBR refund when the order is emptied
+            extraFee: microAlgo(3000),
+          })
+          .send()
+      },
+      onTx,
+    )
+
+  return { createSellOrder, cancelSellOrder, fillSellOrder, loading, error, success }
+}
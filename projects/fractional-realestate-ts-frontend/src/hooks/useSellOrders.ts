@@ -0,0 +1,34 @@
+import { useState, useCallback } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+
+// Resale order posted on the secondary market
+export type SellOrder = {
+  orderId: bigint
+  propertyId: bigint
+  seller: string
+  shares: bigint
+  pricePerShare: bigint
+}
+
+/**
+ * Custom hook for the secondary market's order book: loads every open resale order.
+ * @param appClient The FractionalRealEstateClient instance
+ */
+export function useSellOrders(appClient: FractionalRealEstateClient | null) {
+  const [orders, setOrders] = useState<SellOrder[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  // Fetch all open orders from the contract
+  const fetchOrders = useCallback(async () => {
+    if (!appClient) return
+
+    try {
+      const listed = await appClient.state.box.sellOrders.getMap()
+      setOrders(Array.from(listed.entries()).map(([orderId, order]) => ({ orderId, ...order })))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch sell orders')
+    }
+  }, [appClient])
+
+  return { orders, error, refresh: fetchOrders }
+}
@@ -0,0 +1,59 @@
+import { useState } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { useRefresh } from '../context/RefreshContext'
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { createHolderBoxReference } from '../utils/createBoxReference'
+
+/**
+ * Custom hook for lockups on purchased shares: locked shares can move again once the lockup
+ * has ended, and unlocking closes the lockup and refunds its box MBR.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param activeAddress The address of the connected user
+ */
+export function useShareLockup(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const { refresh } = useRefresh()
+
+  /**
+   * Close your lockup on a property after it has ended, reclaiming the lockup box MBR
+   * @param propertyId The asset ID of the property
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const unlockShares = async (propertyId: bigint, onTx?: (txId?: string) => void) => {
+    if (!appClient) {
+      setError('App is not ready. Please try again in a moment.')
+      return
+    }
+    if (!activeAddress) {
+      setError('Please connect your wallet to close your lockup.')
+      return
+    }
+    setLoading(true)
+    setError(null)
+    setSuccess(null)
+    try {
+      const result = await appClient.send.unlockShares({
+        args: { propertyId },
+        boxReferences: [createHolderBoxReference(appClient.appId, 'locks', propertyId, activeAddress)],
+        // The MBR refund
+        extraFee: microAlgo(1000),
+      })
+      setSuccess('Lockup closed!')
+      refresh()
+      if (onTx && result.txIds && result.txIds.length > 0) {
+        onTx(result.txIds[0])
+      } else if (onTx) {
+        onTx(undefined)
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to close lockup')
+      if (onTx) onTx(undefined)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return { unlockShares, loading, error, success }
+}
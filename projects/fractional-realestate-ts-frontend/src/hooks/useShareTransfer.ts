@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { useRefresh } from '../context/RefreshContext'
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { createAccountBoxReference, createBoxReference, createHolderBoxReference } from '../utils/createBoxReference'
+
+/**
+ * Custom hook to transfer shares to another account. Holdings are frozen, so shares only move
+ * through the app, which settles both accounts' rental income before the balances change.
+ * The receiver must be on the KYC allowlist and opted in to the share asset.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param activeAddress The address of the connected user
+ */
+export function useShareTransfer(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const { refresh } = useRefresh()
+
+  /**
+   * Transfer shares of a property to another account
+   * @param propertyId The asset ID of the property
+   * @param receiver The address to send the shares to
+   * @param shares The number of shares to transfer (string)
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const transferShares = async (propertyId: bigint, receiver: string, shares: string, onTx?: (txId?: string) => void) => {
+    if (!appClient) {
+      setError('App is not ready. Please try again in a moment.')
+      return
+    }
+    if (!activeAddress) {
+      setError('Please connect your wallet to transfer shares.')
+      return
+    }
+    setLoading(true)
+    setError(null)
+    setSuccess(null)
+    try {
+      const optedIn = await appClient.algorand.asset
+        .getAccountInformation(receiver, propertyId)
+        .then(() => true)
+        .catch(() => false)
+      if (!optedIn) {
+        setError('The receiver has to opt in to the share asset first.')
+        if (onTx) onTx(undefined)
+        return
+      }
+
+      const result = await appClient.send.transferShares({
+        args: { propertyId, receiver, shares: BigInt(shares) },
+        boxReferences: [
+          createBoxReference(appClient.appId, 'properties', propertyId),
+          createAccountBoxReference(appClient.appId, 'kyc', activeAddress),
+          createAccountBoxReference(appClient.appId, 'kyc', receiver),
+          createHolderBoxReference(appClient.appId, 'claims', propertyId, activeAddress),
+          createHolderBoxReference(appClient.appId, 'claims', propertyId, receiver),
+          createHolderBoxReference(appClient.appId, 'locks', propertyId, activeAddress),
+        ],
+        accountReferences: [receiver],
+        assetReferences: [propertyId],
+        // The share transfer
+        extraFee: microAlgo(1000),
+      })
+      setSuccess('Shares transferred!')
+      refresh()
+      if (onTx && result.txIds && result.txIds.length > 0) {
+        onTx(result.txIds[0])
+      } else if (onTx) {
+        onTx(undefined)
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to transfer shares')
+      if (onTx) onTx(undefined)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return { transferShares, loading, error, success }
+}
@@ -0,0 +1,28 @@
+import { useSnackbar } from 'notistack'
+
+/**
+ * Custom hook for the snackbar shown after a transaction lands, linking to it on Lora.
+ * Returns a function that takes the message and gives back the onTx callback the action hooks accept.
+ */
+export function useTxSnackbar() {
+  const { enqueueSnackbar } = useSnackbar()
+
+  return (message: string) => (txId?: string) => {
+    if (txId) {
+      enqueueSnackbar(
+        <span>
+          {message} TX:{' '}
+          <a
+            href={`https://lora.algokit.io/localnet/transaction/${txId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline text-blue-100"
+          >
+            {txId}
+          </a>
+        </span>,
+        { variant: 'success' },
+      )
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { useState } from 'react'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+import { useRefresh } from '../context/RefreshContext'
+import { microAlgo } from '@algorandfoundation/algokit-utils'
+import { createBoxReference } from '../utils/createBoxReference'
+import { parseMetadataHash } from '../utils/metadata'
+import { APPRAISAL_MBR } from '../utils/valuation'
+
+/**
+ * Custom hook for managing valuations: an owner appoints the listing's appraiser and the
+ * appraiser posts valuations.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param activeAddress The address of the connected user
+ */
+export function useValuationActions(appClient: FractionalRealEstateClient | null, activeAddress: string | null | undefined) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const { refresh } = useRefresh()
+
+  /**
+   * Run a valuation action and refresh the app's data afterwards.
+   */
+  const runAction = async (
+    successMessage: string,
+    fallbackError: string,
+    action: (client: FractionalRealEstateClient, sender: string) => Promise<{ txIds: string[] }>,
+    onTx?: (txId?: string) => void,
+  ) => {
+    if (!appClient) {
+      setError('App is not ready. Please try again in a moment.')
+      return
+    }
+    if (!activeAddress) {
+      setError('Please connect your wallet to manage valuations.')
+      return
+    }
+    setLoading(true)
+    setError(null)
+    setSuccess(null)
+    try {
+      const result = await action(appClient, activeAddress)
+      setSuccess(successMessage)
+      refresh()
+      if (onTx && result.txIds && result.txIds.length > 0) {
+        onTx(result.txIds[0])
+      } else if (onTx) {
+        onTx(undefined)
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : fallbackError)
+      if (onTx) onTx(undefined)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /**
+   * Appoint or replace a listing's appraiser. Only the owner can. The first appointment pays the
+   * MBR for the appraisal boxes, which comes back when the listing closes.
+   * @param propertyId The asset ID of the property
+   * @param appraiser The address of the appraiser
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const setAppraiser = (propertyId: bigint, appraiser: string, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Appraiser appointed!',
+      'Failed to appoint the appraiser',
+      async (client, sender) => {
+        const appointed = await client.state.box.appraisers
+          .value(propertyId)
+          .then((current) => current !== undefined)
+          .catch(() => false)
+        const mbrPayment = await client.algorand.createTransaction.payment({
+          sender,
+          amount: microAlgo(appointed ? 0 : APPRAISAL_MBR),
+          receiver: client.appAddress,
+        })
+        return client.send.setAppraiser({
+          args: { mbrPayment, propertyId, appraiser },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createBoxReference(client.appId, 'appraisers', propertyId),
+            createBoxReference(client.appId, 'valuations', propertyId),
+          ],
+        })
+      },
+      onTx,
+    )
+
+  /**
+   * Post a valuation of the whole property. Only the listing's appraiser can.
+   * @param propertyId The asset ID of the property
+   * @param totalValue Value of the whole property in base units of the listing's payment currency
+   * @param valuedAt When the valuation was made (date picker value)
+   * @param documentHash SHA-256 of the appraisal report as hex
+   * @param onTx (optional) callback to receive the transaction ID
+   */
+  const postValuation = (propertyId: bigint, totalValue: string, valuedAt: string, documentHash: string, onTx?: (txId?: string) => void) =>
+    runAction(
+      'Valuation posted!',
+      'Failed to post the valuation',
+      async (client, sender) => {
+        if (!/^(0x)?[0-9a-fA-F]{64}$/.test(documentHash.trim())) {
+          throw new Error('Report hash must be 64 hex characters')
+        }
+        return client.send.postValuation({
+          sender,
+          args: {
+            propertyId,
+            totalValue: BigInt(totalValue),
+            // Date picker values are local times; the contract stores unix seconds
+            timestamp: BigInt(Math.floor(new Date(valuedAt).getTime() / 1000)),
+            documentHash: parseMetadataHash(documentHash),
+          },
+          boxReferences: [
+            createBoxReference(client.appId, 'properties', propertyId),
+            createBoxReference(client.appId, 'appraisers', propertyId),
+            createBoxReference(client.appId, 'valuations', propertyId),
+          ],
+        })
+      },
+      onTx,
+    )
+
+  return { setAppraiser, postValuation, loading, error, success }
+}
@@ -0,0 +1,42 @@
+import { useState, useCallback } from 'react'
+import { FractionalRealEstateClient, ValuationStruct } from '../contracts/FractionalRealEstate'
+import { ALGORAND_ZERO_ADDRESS_STRING } from 'algosdk'
+import { getLatestValuation } from '../utils/valuation'
+
+/**
+ * Custom hook for property valuations: loads the appraiser and latest valuation of each listing shown.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param propertyIds IDs of the listings paged in so far
+ */
+export function useValuations(appClient: FractionalRealEstateClient | null, propertyIds: bigint[]) {
+  // Keyed by property ID
+  const [appraisers, setAppraisers] = useState<Record<string, string>>({})
+  const [latestValuations, setLatestValuations] = useState<Record<string, ValuationStruct>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  // Join the IDs into a string so a new properties array with the same listings doesn't refetch
+  const propertyIdsKey = propertyIds.join(',')
+
+  // Fetch the appraiser and valuation history of each listing
+  const fetchValuations = useCallback(async () => {
+    if (!appClient) return
+
+    try {
+      const appointed: Record<string, string> = {}
+      const latest: Record<string, ValuationStruct> = {}
+      for (const propertyId of propertyIdsKey ? propertyIdsKey.split(',').map(BigInt) : []) {
+        const appraiser = await appClient.state.box.appraisers.value(propertyId).catch(() => undefined)
+        if (appraiser && appraiser !== ALGORAND_ZERO_ADDRESS_STRING) appointed[propertyId.toString()] = appraiser
+        const history = await appClient.state.box.valuations.value(propertyId).catch(() => undefined)
+        const valuation = getLatestValuation(history)
+        if (valuation) latest[propertyId.toString()] = valuation
+      }
+      setAppraisers(appointed)
+      setLatestValuations(latest)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch valuations')
+    }
+  }, [appClient, propertyIdsKey])
+
+  return { appraisers, latestValuations, error, refresh: fetchValuations }
+}
@@ -0,0 +1,77 @@
+import { Address } from 'algosdk'
+
+/**
+ * Helper to create a box reference for a BoxMap in Algorand smart contracts.
+ * Algorand box keys for BoxMap are constructed as: prefix + uint64(key) (big-endian)
+ * This helper encodes the key for use in boxReferences.
+ *
+ * @param appId The application ID
+ * @param prefix The string prefix for the BoxMap (e.g., 'properties')
+ * @param key The bigint key (e.g., propertyId)
+ * @returns An object with appId and name (Uint8Array) for use in boxReferences
+ */
+export function createBoxReference(appId: bigint, prefix: string, key: bigint) {
+  // Encode the key as a big-endian uint64
+  const buffer = new ArrayBuffer(8)
+  const view = new DataView(buffer)
+  view.setBigUint64(0, key, false) // false = big-endian
+  const encodedKey = new Uint8Array(buffer)
+  // Concatenate prefix and encoded key
+  const boxName = new Uint8Array([...new TextEncoder().encode(prefix), ...encodedKey])
+  return {
+    appId,
+    name: boxName,
+  }
+}
+
+/**
+ * Helper to create a box reference for a BoxMap keyed by (propertyId, holder address).
+ * The key struct encodes as uint64(propertyId) (big-endian) followed by the 32-byte public key.
+ *
+ * @param appId The application ID
+ * @param prefix The string prefix for the BoxMap (e.g., 'claims')
+ * @param propertyId The property asset ID
+ * @param holder The holder's Algorand address
+ * @returns An object with appId and name (Uint8Array) for use in boxReferences
+ */
+export function createHolderBoxReference(appId: bigint, prefix: string, propertyId: bigint, holder: string) {
+  const { name } = createBoxReference(appId, prefix, propertyId)
+  return {
+    appId,
+    name: new Uint8Array([...name, ...Address.fromString(holder).publicKey]),
+  }
+}
+
+/**
+ * Helper to create a box reference for a BoxMap keyed by an address.
+ * The key encodes as the 32-byte public key.
+ *
+ * @param appId The application ID
+ * @param prefix The string prefix for the BoxMap (e.g., 'kyc')
+ * @param account The Algorand address
+ * @returns An object with appId and name (Uint8Array) for use in boxReferences
+ */
+export function createAccountBoxReference(appId: bigint, prefix: string, account: string) {
+  return {
+    appId,
+    name: new Uint8Array([...new TextEncoder().encode(prefix), ...Address.fromString(account).publicKey]),
+  }
+}
+
+/**
+ * Helper to create a box reference for a BoxMap keyed by (address, asset ID).
+ * The key struct encodes as the 32-byte public key followed by uint64(assetId) (big-endian).
+ *
+ * @param appId The application ID
+ * @param prefix The string prefix for the BoxMap (e.g., 'referrals')
+ * @param account The Algorand address
+ * @param assetId The asset ID, or 0n for ALGO
+ * @returns An object with appId and name (Uint8Array) for use in boxReferences
+ */
+export function createAccountAssetBoxReference(appId: bigint, prefix: string, account: string, assetId: bigint) {
+  const { name } = createAccountBoxReference(appId, prefix, account)
+  return {
+    appId,
+    name: new Uint8Array([...name, ...createBoxReference(appId, '', assetId).name]),
+  }
+}
@@ -0,0 +1,29 @@
+// What a listing is priced in: ALGO (asset ID 0) or an ASA such as a stablecoin
+export type Currency = {
+  assetId: bigint
+  unitName: string
+  decimals: number
+}
+
+export const ALGO: Currency = { assetId: 0n, unitName: 'Algo', decimals: 6 }
+
+/**
+ * Look up a listing's currency, falling back to the bare asset ID while its details load.
+ */
+export function getCurrency(currencies: Currency[], assetId: bigint): Currency {
+  return currencies.find((currency) => currency.assetId === assetId) ?? { assetId, unitName: `ASA ${assetId}`, decimals: 0 }
+}
+
+/**
+ * Format an amount in base units (microAlgos, or the ASA's smallest unit) for display.
+ */
+export function formatAmount(amount: bigint, currency: Currency): string {
+  return `${Number(amount) / 10 ** currency.decimals} ${currency.unitName}`
+}
+
+/**
+ * Name of the base unit prices are entered in.
+ */
+export function baseUnitLabel(currency: Currency): string {
+  return currency.assetId === 0n ? 'microAlgos' : `base units of ${currency.unitName}`
+}
@@ -0,0 +1,23 @@
+// Average Algorand block time, used to turn a round count into a rough countdown
+export const SECONDS_PER_ROUND = 2.8
+
+export type RaiseStatus = 'none' | 'open' | 'funded' | 'failed'
+
+/**
+ * Where a listing's all-or-nothing raise stands. Mirrors the contract: the raise is funded
+ * once the goal has sold, and failed if the deadline round passes before that.
+ */
+export function getRaiseStatus(
+  property: { fundingGoal: bigint; fundingDeadline: bigint; sharesSold: bigint },
+  currentRound: bigint,
+): RaiseStatus {
+  if (property.fundingGoal === 0n) return 'none'
+  if (property.sharesSold >= property.fundingGoal) return 'funded'
+  return currentRound > property.fundingDeadline ? 'failed' : 'open'
+}
+
+export function formatRoundsRemaining(rounds: bigint): string {
+  const minutes = Math.ceil((Number(rounds) * SECONDS_PER_ROUND) / 60)
+  if (minutes < 60) return `${rounds} rounds (~${minutes} min)`
+  return `${rounds} rounds (~${Math.round(minutes / 60)} h)`
+}
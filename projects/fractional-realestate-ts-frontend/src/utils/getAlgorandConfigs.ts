@@ -52,3 +52,22 @@ export function getAppIdFromViteEnvironment(): bigint {
     throw new Error('VITE_APP_ID must be a valid integer string')
   }
 }
+
+export function getStablecoinAssetIdFromViteEnvironment(): bigint | undefined {
+  const assetIdStr = import.meta.env.VITE_STABLECOIN_ASSET_ID
+  // Optional: without it listings can only be priced in ALGO
+  if (!assetIdStr) {
+    return undefined
+  }
+  try {
+    return BigInt(assetIdStr)
+  } catch {
+    throw new Error('VITE_STABLECOIN_ASSET_ID must be a valid integer string')
+  }
+}
+
+export function getIpfsGatewayFromViteEnvironment(): string {
+  // Public gateway by default; point it at a local server to mock metadata during development
+  const gateway = import.meta.env.VITE_IPFS_GATEWAY || 'https://ipfs.io/ipfs/'
+  return gateway.endsWith('/') ? gateway : `${gateway}/`
+}
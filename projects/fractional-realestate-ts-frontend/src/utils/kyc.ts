@@ -0,0 +1,23 @@
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+
+export const KYC_REQUIRED_MESSAGE =
+  'Your account is not on the KYC allowlist yet. Complete verification with the platform before buying or receiving shares.'
+
+export type KycStatus = {
+  approved: boolean
+}
+
+/**
+ * Whether an account can hold shares: it must be on the app's KYC allowlist. Holdings stay
+ * frozen, and the app moves shares in and out of them with clawback.
+ *
+ * @param appClient The FractionalRealEstateClient instance
+ * @param account The account to check
+ */
+export async function getKycStatus(appClient: FractionalRealEstateClient, account: string): Promise<KycStatus> {
+  const approved = await appClient.state.box.allowlist
+    .value(account)
+    .then((round) => round !== undefined)
+    .catch(() => false)
+  return { approved }
+}
@@ -0,0 +1,73 @@
+import { FractionalRealEstateClient, PropertyStructFromTuple } from '../contracts/FractionalRealEstate'
+import type { Property } from '../hooks/useProperties'
+
+// The contract keeps property IDs in pages of 32, in the order they were listed
+const LISTING_PAGE_SIZE = 32n
+// ABI returns are capped at 1KB, which fits two listings per getProperties call with the contract's string limits
+const PROPERTIES_PER_CALL = 2
+// Most transactions in a group, and so the most getProperties calls one simulate can batch
+const MAX_GROUP_SIZE = 16
+
+// MBR for a new listing's ID: a page box (2500 + 400 * (13 byte name + 2 byte length + 8 byte ID)) at the
+// start of each page, and 8 more bytes (400 * 8) after that
+const LISTING_PAGE_MBR = 11_700
+const LISTING_PAGE_ENTRY_MBR = 3_200
+
+/**
+ * MBR for adding the next listing to the contract's listing pages, and the page it goes on.
+ * @param appClient The FractionalRealEstateClient instance
+ */
+export async function getNextListingPage(appClient: FractionalRealEstateClient): Promise<{ page: bigint; mbr: number }> {
+  const listed = (await appClient.state.global.nextListingIndex()) ?? 0n
+  return { page: listed / LISTING_PAGE_SIZE, mbr: listed % LISTING_PAGE_SIZE === 0n ? LISTING_PAGE_MBR : LISTING_PAGE_ENTRY_MBR }
+}
+
+/**
+ * Number of pages of listing IDs the contract holds.
+ * @param appClient The FractionalRealEstateClient instance
+ */
+export async function getListingPageCount(appClient: FractionalRealEstateClient): Promise<bigint> {
+  const listed = (await appClient.state.global.nextListingIndex()) ?? 0n
+  return (listed + LISTING_PAGE_SIZE - 1n) / LISTING_PAGE_SIZE
+}
+
+/**
+ * Property IDs on the given pages, in listing order. Includes properties that have since been delisted.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param fromPage First page to read
+ * @param toPage Page to stop before
+ */
+export async function getListingIds(appClient: FractionalRealEstateClient, fromPage: bigint, toPage: bigint): Promise<bigint[]> {
+  const ids: bigint[] = []
+  for (let page = fromPage; page < toPage; page++) {
+    ids.push(...(await appClient.getListingIds({ args: { page } })))
+  }
+  return ids
+}
+
+/**
+ * Load the listings for a set of property IDs, skipping any that have been delisted. The reads
+ * are batched into simulated groups of getProperties calls, so a page takes one round trip.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param propertyIds The property IDs to load
+ */
+export async function getPropertiesByIds(appClient: FractionalRealEstateClient, propertyIds: bigint[]): Promise<[bigint, Property][]> {
+  const batches: bigint[][] = []
+  for (let i = 0; i < propertyIds.length; i += PROPERTIES_PER_CALL) {
+    batches.push(propertyIds.slice(i, i + PROPERTIES_PER_CALL))
+  }
+
+  const properties: [bigint, Property][] = []
+  for (let i = 0; i < batches.length; i += MAX_GROUP_SIZE) {
+    const group = appClient.newGroup()
+    for (const batch of batches.slice(i, i + MAX_GROUP_SIZE)) {
+      group.getProperties({ args: { propertyIds: batch } })
+    }
+    // Arrays of structs come back as ABI tuples
+    const { returns } = await group.simulate({ skipSignatures: true, allowUnnamedResources: true })
+    for (const batch of returns as Parameters<typeof PropertyStructFromTuple>[0][][]) {
+      properties.push(...batch.map(PropertyStructFromTuple).map((property): [bigint, Property] => [property.propertyAssetId, property]))
+    }
+  }
+  return properties
+}
@@ -0,0 +1,19 @@
+import { SECONDS_PER_ROUND } from './fundingRaise'
+
+/**
+ * Rough wall-clock date a lockup ends, estimated from the rounds left until it unlocks.
+ */
+export function estimateUnlockDate(unlockRound: bigint, currentRound: bigint): Date {
+  const roundsLeft = unlockRound > currentRound ? Number(unlockRound - currentRound) : 0
+  return new Date(Date.now() + roundsLeft * SECONDS_PER_ROUND * 1000)
+}
+
+/**
+ * A lockup period in rounds as a rough duration, e.g. "~3 days".
+ */
+export function formatLockupPeriod(rounds: bigint): string {
+  const hours = (Number(rounds) * SECONDS_PER_ROUND) / 3600
+  if (hours < 1) return `~${Math.ceil(hours * 60)} min`
+  if (hours < 48) return `~${Math.round(hours)} h`
+  return `~${Math.round(hours / 24)} days`
+}
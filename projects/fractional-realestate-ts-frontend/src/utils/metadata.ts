@@ -0,0 +1,78 @@
+import { Address } from 'algosdk'
+
+// ARC-3 metadata JSON. Only the fields the property card shows are typed.
+export type PropertyMetadata = {
+  name?: string
+  description?: string
+  image?: string
+  external_url?: string
+}
+
+// ARC-19 template: the CID is rebuilt from the reserve address, which holds its sha2-256 digest
+const ARC19_TEMPLATE = /^template-ipfs:\/\/\{ipfscid:(\d+):([a-z-]+):reserve:sha2-256\}(.*)$/
+const MULTICODECS: Record<string, number> = { raw: 0x55, 'dag-pb': 0x70 }
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567'
+
+// RFC 4648 base32, lowercase and unpadded, as used by CIDv1
+function base32(bytes: Uint8Array): string {
+  let out = ''
+  let value = 0
+  let bits = 0
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  return out
+}
+
+/**
+ * Turn an ARC-3 or ARC-19 asset URL into an HTTP URL the browser can fetch.
+ * ipfs:// URLs go through the configured gateway; ARC-19 templates need the asset's reserve address.
+ * Returns undefined for URLs that can't be resolved (e.g. CIDv0 templates).
+ */
+export function resolveMetadataUrl(url: string, gateway: string, reserve?: string): string | undefined {
+  // ARC-3 marks metadata URLs with a #arc3 suffix
+  const stripped = url.replace(/#arc3$/, '')
+
+  const template = stripped.match(ARC19_TEMPLATE)
+  if (template) {
+    const [, version, codec, path] = template
+    if (version !== '1' || !(codec in MULTICODECS) || !reserve) return undefined
+    // CIDv1: version, codec, then the sha2-256 multihash (code 0x12, 32-byte length)
+    const cid = new Uint8Array([0x01, MULTICODECS[codec], 0x12, 0x20, ...Address.fromString(reserve).publicKey])
+    return `${gateway}b${base32(cid)}${path}`
+  }
+  if (stripped.startsWith('ipfs://')) return gateway + stripped.slice('ipfs://'.length)
+  if (stripped.startsWith('https://') || stripped.startsWith('http://')) return stripped
+  return undefined
+}
+
+/**
+ * Whether fetched metadata matches the 32-byte hash stored on the asset. An all-zero hash means none was set.
+ */
+export async function verifyMetadataHash(body: ArrayBuffer, metadataHash: Uint8Array): Promise<boolean | undefined> {
+  if (metadataHash.every((byte) => byte === 0)) return undefined
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', body))
+  return digest.every((byte, i) => byte === metadataHash[i])
+}
+
+/**
+ * Parse a 64-character hex string into a 32-byte metadata hash. Empty input means no hash.
+ */
+export function parseMetadataHash(hex: string): Uint8Array {
+  const hash = new Uint8Array(32)
+  const clean = hex.trim().replace(/^0x/, '')
+  if (!clean) return hash
+  if (!/^[0-9a-fA-F]{64}$/.test(clean)) {
+    throw new Error('Metadata hash must be 64 hex characters')
+  }
+  for (let i = 0; i < 32; i++) {
+    hash[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16)
+  }
+  return hash
+}
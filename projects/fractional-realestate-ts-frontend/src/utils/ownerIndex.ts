@@ -0,0 +1,18 @@
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+
+// MBR for an owner's listing index box: 2500 + 400 * (37 byte name + 2 byte length + 8 bytes per listing) microAlgos.
+// The first listing creates the box, and each one after grows it by 8 bytes.
+const OWNER_INDEX_MBR = 21_300
+const OWNER_INDEX_ENTRY_MBR = 3_200
+
+/**
+ * MBR for adding a listing to an owner's index, which they pay when they list a property
+ * or take one over.
+ *
+ * @param appClient The FractionalRealEstateClient instance
+ * @param owner The account the listing is being added for
+ */
+export async function getOwnerIndexMbr(appClient: FractionalRealEstateClient, owner: string): Promise<number> {
+  const listings = await appClient.state.box.ownerListings.value(owner).catch(() => undefined)
+  return listings ? OWNER_INDEX_ENTRY_MBR : OWNER_INDEX_MBR
+}
@@ -0,0 +1,101 @@
+// Most presale price tiers a listing can have, matching the contract
+export const MAX_PRICE_TIERS = 4
+
+// A presale price: applies while fewer than shareLimit shares have sold (0 for no limit)
+// and before endTime (unix seconds, 0 for no deadline)
+export type PriceTier = {
+  shareLimit: bigint
+  endTime: bigint
+  pricePerShare: bigint
+}
+
+export type SaleWindowStatus = 'open' | 'upcoming' | 'ended'
+
+type PricedProperty = { pricePerShare: bigint; sharesSold: bigint; reservedShares: bigint }
+
+/** Current time in unix seconds, to compare against sale windows and tier deadlines. */
+export function nowInSeconds(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000))
+}
+
+/** Tiers come back from box storage as tuples. */
+export function toPriceTiers(tiers: [bigint, bigint, bigint][]): PriceTier[] {
+  return tiers.map(([shareLimit, endTime, pricePerShare]) => ({ shareLimit, endTime, pricePerShare }))
+}
+
+const tierApplies = (tier: PriceTier, sold: bigint, now: bigint) =>
+  (tier.endTime === 0n || now < tier.endTime) && (tier.shareLimit === 0n || sold < tier.shareLimit)
+
+/**
+ * Price of the next `shares` primary shares. Mirrors the contract: each share is priced by the
+ * first tier that still applies to it, and shares past every tier pay the listing price.
+ * Reserved shares count as sold, since they hold their place in the tiers.
+ */
+export function getPurchaseCost(property: PricedProperty, tiers: PriceTier[], shares: bigint, now: bigint): bigint {
+  let remaining = shares
+  let sold = property.sharesSold + property.reservedShares
+  let cost = 0n
+  for (const tier of tiers) {
+    if (remaining === 0n || (tier.endTime !== 0n && now >= tier.endTime)) continue
+    if (tier.shareLimit === 0n) {
+      cost += remaining * tier.pricePerShare
+      remaining = 0n
+    } else if (sold < tier.shareLimit) {
+      const tierShares = remaining < tier.shareLimit - sold ? remaining : tier.shareLimit - sold
+      cost += tierShares * tier.pricePerShare
+      remaining -= tierShares
+      sold += tierShares
+    }
+  }
+  return cost + remaining * property.pricePerShare
+}
+
+/**
+ * The tier the next share sells in (null once every tier is used up or expired), its price,
+ * and the price that takes over when it ends.
+ */
+export function getCurrentTier(property: PricedProperty, tiers: PriceTier[], now: bigint) {
+  const sold = property.sharesSold + property.reservedShares
+  const index = tiers.findIndex((tier) => tierApplies(tier, sold, now))
+  if (index < 0) {
+    return { tier: null, price: property.pricePerShare, nextPrice: null }
+  }
+  const tier = tiers[index]
+  // Once this tier sells out, the shares sold count has reached its limit
+  const soldAfter = tier.shareLimit > sold ? tier.shareLimit : sold
+  const next = tiers.slice(index + 1).find((later) => tierApplies(later, soldAfter, now))
+  return { tier, price: tier.pricePerShare, nextPrice: next ? next.pricePerShare : property.pricePerShare }
+}
+
+/**
+ * Price per share at a given time. Mirrors the contract: on a Dutch auction (a floor price above 0)
+ * the price falls linearly from the listing price at the sale start to the floor at the sale end.
+ */
+export function getAuctionPrice(
+  property: { pricePerShare: bigint; auctionFloor: bigint; saleStart: bigint; saleEnd: bigint },
+  now: bigint,
+): bigint {
+  const { pricePerShare, auctionFloor, saleStart, saleEnd } = property
+  if (auctionFloor === 0n || now <= saleStart) return pricePerShare
+  if (now >= saleEnd) return auctionFloor
+  return pricePerShare - ((pricePerShare - auctionFloor) * (now - saleStart)) / (saleEnd - saleStart)
+}
+
+/** Whether the primary sale's time window is open. A bound of 0 means no limit. */
+export function getSaleWindowStatus(property: { saleStart: bigint; saleEnd: bigint }, now: bigint): SaleWindowStatus {
+  if (now < property.saleStart) return 'upcoming'
+  if (property.saleEnd !== 0n && now >= property.saleEnd) return 'ended'
+  return 'open'
+}
+
+export function formatTimestamp(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toLocaleString()
+}
+
+export function formatTimeRemaining(seconds: bigint): string {
+  const total = Number(seconds)
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return minutes > 0 ? `${minutes}m ${total % 60}s` : `${total}s`
+}
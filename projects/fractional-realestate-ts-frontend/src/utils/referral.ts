@@ -0,0 +1,49 @@
+import { isValidAddress } from 'algosdk'
+import { FractionalRealEstateClient } from '../contracts/FractionalRealEstate'
+
+// Remembered so a partner's link still counts if the investor comes back later to buy
+const REFERRER_STORAGE_KEY = 'referrer'
+
+/**
+ * The partner who referred this visitor: the `?ref=` address on the link they arrived by, or the
+ * one from an earlier visit.
+ */
+export function getReferrer(): string | undefined {
+  const ref = new URLSearchParams(window.location.search).get('ref')
+  if (ref && isValidAddress(ref)) {
+    localStorage.setItem(REFERRER_STORAGE_KEY, ref)
+    return ref
+  }
+  return localStorage.getItem(REFERRER_STORAGE_KEY) ?? undefined
+}
+
+/**
+ * The link a partner shares to be credited with the purchases of investors who follow it.
+ * @param partner The partner's address
+ */
+export function getReferralLink(partner: string): string {
+  return `${window.location.origin}${window.location.pathname}?ref=${partner}`
+}
+
+/**
+ * The referrer to name on a purchase. The contract only pays partners who have registered for the
+ * listing's currency, and never the buyer themselves, so any other referrer is left off rather
+ * than failing the purchase.
+ * @param appClient The FractionalRealEstateClient instance
+ * @param referrer The partner who referred the buyer, if any
+ * @param buyer The address of the buyer
+ * @param paymentAssetId The ASA the listing is priced in, or 0n for ALGO
+ */
+export async function getPurchaseReferrer(
+  appClient: FractionalRealEstateClient,
+  referrer: string | undefined,
+  buyer: string,
+  paymentAssetId: bigint,
+): Promise<string | undefined> {
+  if (!referrer || referrer === buyer) return undefined
+  const registered = await appClient.state.box.referralEarnings
+    .value({ referrer, paymentAssetId })
+    .then((earned) => earned !== undefined)
+    .catch(() => false)
+  return registered ? referrer : undefined
+}
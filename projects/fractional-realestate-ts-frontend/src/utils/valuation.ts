@@ -0,0 +1,35 @@
+import { ValuationStruct, ValuationStructFromTuple } from '../contracts/FractionalRealEstate'
+import { Property } from '../hooks/useProperties'
+
+// MBR the owner pays when first appointing an appraiser, and gets back when the listing closes:
+// the appraiser box, 2500 + 400 * (18 byte name + 32 byte value), plus the valuation history box
+// at its full size, 2500 + 400 * (18 byte name + 2 + 48 bytes for each of 12 valuations) microAlgos.
+export const APPRAISAL_MBR = 263_400
+
+/**
+ * The most recent valuation in a listing's history box, or undefined if none has been posted.
+ * @param history The box value: valuation tuples, oldest first
+ */
+export function getLatestValuation(history: [bigint, bigint, Uint8Array][] | undefined): ValuationStruct | undefined {
+  return history && history.length > 0 ? ValuationStructFromTuple(history[history.length - 1]) : undefined
+}
+
+/**
+ * Net asset value of one share: the valuation of the whole property split across its shares.
+ */
+export function getNavPerShare(property: Property, valuation: ValuationStruct): bigint {
+  return valuation.totalValue / property.totalShares
+}
+
+/**
+ * What a holding is worth at the latest valuation, and its gain or loss against the listing price
+ * (the contract doesn't record what each holder paid).
+ * @param sharesOwned Shares of the property held
+ * @param property The listing
+ * @param valuation The listing's latest valuation
+ */
+export function getHoldingValue(sharesOwned: bigint, property: Property, valuation: ValuationStruct) {
+  const value = (sharesOwned * valuation.totalValue) / property.totalShares
+  const cost = sharesOwned * property.pricePerShare
+  return { value, gain: value - cost, gainBps: cost > 0n ? ((value - cost) * 10_000n) / cost : 0n }
+}
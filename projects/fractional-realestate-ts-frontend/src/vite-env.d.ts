@@ -3,6 +3,9 @@
 interface ImportMetaEnv {
   readonly VITE_ENVIRONMENT: string
 
+  readonly VITE_STABLECOIN_ASSET_ID?: string
+  readonly VITE_IPFS_GATEWAY?: string
+
   readonly VITE_ALGOD_TOKEN: string
   readonly VITE_ALGOD_SERVER: string
   readonly VITE_ALGOD_PORT: string